@@ -0,0 +1,101 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import type { ATSSettings, ATSSeverity } from '../../types/ats.types';
+import { ATS_RULE_CATEGORY_LABELS, getATSRules } from '../../utils/atsRules';
+import { DEFAULT_ATS_SETTINGS, resolveRuleSettings, updateRuleSettings } from '../../utils/atsSettings';
+
+interface ATSRuleSettingsPanelProps {
+    settings: ATSSettings;
+    onChange: (settings: ATSSettings) => void;
+}
+
+const SEVERITIES: ATSSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * Lets users switch ATS rules off and tune their severity and thresholds
+ */
+export const ATSRuleSettingsPanel: React.FC<ATSRuleSettingsPanelProps> = ({ settings, onChange }) => {
+    const rules = getATSRules();
+    const categories = Array.from(new Set(rules.map((rule) => rule.category)));
+    const hasOverrides = Object.keys(settings.rules).length > 0;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-600">Changes apply to all your resumes on this device.</p>
+                {hasOverrides && (
+                    <button
+                        onClick={() => onChange(DEFAULT_ATS_SETTINGS)}
+                        className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+                    >
+                        <RotateCcw className="w-3 h-3" />
+                        Reset to defaults
+                    </button>
+                )}
+            </div>
+
+            {categories.map((category) => (
+                <div key={category}>
+                    <h5 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">
+                        {ATS_RULE_CATEGORY_LABELS[category]}
+                    </h5>
+                    <div className="space-y-2">
+                        {rules
+                            .filter((rule) => rule.category === category)
+                            .map((rule) => {
+                                const config = resolveRuleSettings(rule, settings);
+                                return (
+                                    <div key={rule.id} className="p-2 rounded border border-gray-200 bg-white">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <label className="flex items-center gap-2 text-sm text-gray-800">
+                                                <input
+                                                    type="checkbox"
+                                                    className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                                                    checked={config.enabled}
+                                                    onChange={(e) => onChange(updateRuleSettings(settings, rule.id, { enabled: e.target.checked }))}
+                                                />
+                                                {rule.name}
+                                            </label>
+                                            <select
+                                                value={config.severity}
+                                                disabled={!config.enabled}
+                                                onChange={(e) => onChange(updateRuleSettings(settings, rule.id, { severity: e.target.value as ATSSeverity }))}
+                                                className="text-xs border border-gray-300 rounded px-1 py-0.5"
+                                                aria-label={`${rule.name} severity`}
+                                            >
+                                                {SEVERITIES.map((severity) => (
+                                                    <option key={severity} value={severity}>{severity}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        {config.enabled && rule.thresholds && (
+                                            <div className="flex flex-wrap gap-3 mt-2 pl-6">
+                                                {Object.keys(rule.thresholds).map((key) => (
+                                                    <label key={key} className="flex items-center gap-1 text-xs text-gray-600">
+                                                        {key}
+                                                        <input
+                                                            type="number"
+                                                            step="any"
+                                                            value={config.thresholds[key]}
+                                                            onChange={(e) => {
+                                                                const value = parseFloat(e.target.value);
+                                                                if (Number.isNaN(value)) return;
+                                                                onChange(updateRuleSettings(settings, rule.id, {
+                                                                    thresholds: { ...settings.rules[rule.id]?.thresholds, [key]: value },
+                                                                }));
+                                                            }}
+                                                            className="w-16 border border-gray-300 rounded px-1 py-0.5"
+                                                        />
+                                                    </label>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
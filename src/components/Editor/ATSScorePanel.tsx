@@ -1,22 +1,112 @@
 import React from 'react';
-import { AlertCircle, AlertTriangle, Info, CheckCircle, ChevronDown, ChevronUp } from 'lucide-react';
-import { ATSValidation, ATSIssue } from '../../types/resume.types';
-import { getScoreColor, getScoreBgColor, getIssueColor } from '../../utils/atsValidator';
+import { AlertCircle, AlertTriangle, Info, CheckCircle, ChevronDown, ChevronUp, SlidersHorizontal, Wand2 } from 'lucide-react';
+import { ATSValidation, ATSIssue, Resume } from '../../types/resume.types';
+import type { ATSFixResult, ATSSettings } from '../../types/ats.types';
+import { getScoreColor, getScoreBgColor, getIssueColor, getATSFix, applyATSFixes } from '../../utils/atsValidator';
+import { updateRuleSettings } from '../../utils/atsSettings';
+import { ATSRuleSettingsPanel } from './ATSRuleSettingsPanel';
 
 interface ATSScorePanelProps {
     validation: ATSValidation;
     className?: string;
+    /** When given together with onSettingsChange, rules can be ignored and tuned from the panel */
+    settings?: ATSSettings;
+    onSettingsChange?: (settings: ATSSettings) => void;
+    /** When given together with onApplyFixes, fixable issues get "Fix" buttons with a preview */
+    resume?: Resume;
+    /** Receives the resume with the previewed fixes applied */
+    onApplyFixes?: (fixed: Resume) => void;
+    /** Offered right after fixes are applied */
+    onUndo?: () => void;
 }
 
+interface PendingFix extends ATSFixResult {
+    /** Issue being previewed, or null for "Fix all" */
+    issueId: string | null;
+}
+
+const FixPreview: React.FC<{ fix: PendingFix; onApply: () => void; onCancel: () => void }> = ({ fix, onApply, onCancel }) => (
+    <div className="mt-2 p-2 bg-white rounded border border-blue-200">
+        <ul className="space-y-1 max-h-40 overflow-y-auto">
+            {fix.changes.map((change, index) => (
+                <li key={index} className="text-xs">
+                    <span className="text-gray-500">{change.label}: </span>
+                    <span className="text-red-600 line-through break-words">{change.before || '(empty)'}</span>
+                    <span className="text-gray-400"> → </span>
+                    <span className="text-green-700 break-words">{change.after || '(empty)'}</span>
+                </li>
+            ))}
+        </ul>
+        <div className="flex gap-2 mt-2">
+            <button
+                onClick={onApply}
+                className="px-2 py-1 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700"
+            >
+                Apply {fix.changes.length === 1 ? 'change' : `${fix.changes.length} changes`}
+            </button>
+            <button onClick={onCancel} className="px-2 py-1 text-xs text-gray-600 hover:text-gray-900">
+                Cancel
+            </button>
+        </div>
+    </div>
+);
+
 export const ATSScorePanel: React.FC<ATSScorePanelProps> = ({
     validation,
     className = '',
+    settings,
+    onSettingsChange,
+    resume,
+    onApplyFixes,
+    onUndo,
 }) => {
     const [isExpanded, setIsExpanded] = React.useState(false);
+    const [showRuleSettings, setShowRuleSettings] = React.useState(false);
+    const canConfigure = !!settings && !!onSettingsChange;
     const [selectedType, setSelectedType] = React.useState<'all' | 'error' | 'warning' | 'info'>('all');
+    const [pendingFix, setPendingFix] = React.useState<PendingFix | null>(null);
+    const [appliedCount, setAppliedCount] = React.useState(0);
+    const justAppliedRef = React.useRef(false);
 
     const { score, issues } = validation;
 
+    // Issues whose rule can resolve them automatically, with the fix for each.
+    // Fixes are computed from the issues shown here, so they match what the
+    // user sees.
+    const fixes = React.useMemo(() => {
+        const byIssue = new Map<string, ATSFixResult>();
+        if (!resume || !onApplyFixes) return byIssue;
+        issues.forEach((issue) => {
+            const fix = getATSFix(resume, issue);
+            if (fix) byIssue.set(issue.id, fix);
+        });
+        return byIssue;
+    }, [resume, issues, onApplyFixes]);
+
+    // A preview is stale once the resume changes underneath it, and Undo is
+    // only offered until the next edit
+    React.useEffect(() => {
+        setPendingFix(null);
+        if (justAppliedRef.current) {
+            justAppliedRef.current = false;
+        } else {
+            setAppliedCount(0);
+        }
+    }, [resume]);
+
+    const previewFixAll = () => {
+        const fixable = issues.filter((issue) => fixes.has(issue.id));
+        setPendingFix({ issueId: null, ...applyATSFixes(resume!, fixable) });
+    };
+
+    const applyPendingFix = () => {
+        if (!pendingFix) return;
+        justAppliedRef.current = true;
+        onApplyFixes!(pendingFix.resume);
+        setAppliedCount(pendingFix.changes.length);
+        setPendingFix(null);
+    };
+
     // Group issues by type
     const errorCount = issues.filter((i) => i.type === 'error').length;
     const warningCount = issues.filter((i) => i.type === 'warning').length;
@@ -111,6 +201,44 @@ export const ATSScorePanel: React.FC<ATSScorePanelProps> = ({
             {/* Expanded Details */}
             {isExpanded && (
                 <div className="p-4">
+                    {/* Auto-fix */}
+                    {(fixes.size > 0 || appliedCount > 0) && (
+                        <div className="mb-4 p-3 bg-blue-50 rounded-lg border border-blue-200">
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-sm text-blue-900">
+                                    {appliedCount > 0
+                                        ? `Applied ${appliedCount} ${appliedCount === 1 ? 'change' : 'changes'}`
+                                        : `${fixes.size} ${fixes.size === 1 ? 'issue' : 'issues'} can be fixed automatically`}
+                                </span>
+                                <div className="flex items-center gap-3">
+                                    {appliedCount > 0 && onUndo && (
+                                        <button
+                                            onClick={() => {
+                                                onUndo();
+                                                setAppliedCount(0);
+                                            }}
+                                            className="text-xs font-medium text-blue-600 hover:text-blue-700"
+                                        >
+                                            Undo
+                                        </button>
+                                    )}
+                                    {fixes.size > 0 && (
+                                        <button
+                                            onClick={previewFixAll}
+                                            className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700"
+                                        >
+                                            <Wand2 className="w-3 h-3" />
+                                            Fix all
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                            {pendingFix && pendingFix.issueId === null && (
+                                <FixPreview fix={pendingFix} onApply={applyPendingFix} onCancel={() => setPendingFix(null)} />
+                            )}
+                        </div>
+                    )}
+
                     {issues.length === 0 ? (
                         <div className="text-center py-8">
                             <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-3" />
@@ -192,6 +320,28 @@ export const ATSScorePanel: React.FC<ATSScorePanelProps> = ({
                                                         💡 {issue.suggestion}
                                                     </p>
                                                 )}
+                                                <div className="flex items-center gap-3 mt-2">
+                                                    {fixes.has(issue.id) && (
+                                                        <button
+                                                            onClick={() => setPendingFix({ issueId: issue.id, ...fixes.get(issue.id)! })}
+                                                            className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700"
+                                                        >
+                                                            <Wand2 className="w-3 h-3" />
+                                                            Fix
+                                                        </button>
+                                                    )}
+                                                    {canConfigure && issue.ruleId && (
+                                                        <button
+                                                            onClick={() => onSettingsChange!(updateRuleSettings(settings!, issue.ruleId!, { enabled: false }))}
+                                                            className="text-xs text-gray-500 hover:text-gray-700"
+                                                        >
+                                                            Ignore this rule
+                                                        </button>
+                                                    )}
+                                                </div>
+                                                {pendingFix?.issueId === issue.id && (
+                                                    <FixPreview fix={pendingFix} onApply={applyPendingFix} onCancel={() => setPendingFix(null)} />
+                                                )}
                                             </div>
                                         </div>
                                     </div>
@@ -200,6 +350,24 @@ export const ATSScorePanel: React.FC<ATSScorePanelProps> = ({
                         </>
                     )}
 
+                    {/* Rule Settings */}
+                    {canConfigure && (
+                        <div className="mt-4">
+                            <button
+                                onClick={() => setShowRuleSettings(!showRuleSettings)}
+                                className="flex items-center gap-2 text-sm font-medium text-gray-700 hover:text-gray-900"
+                            >
+                                <SlidersHorizontal className="w-4 h-4" />
+                                {showRuleSettings ? 'Hide rule settings' : 'Rule settings'}
+                            </button>
+                            {showRuleSettings && (
+                                <div className="mt-3 p-3 bg-gray-50 rounded-lg border border-gray-200 max-h-96 overflow-y-auto">
+                                    <ATSRuleSettingsPanel settings={settings!} onChange={onSettingsChange!} />
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* ATS Tips */}
                     <div className="mt-4 p-3 bg-blue-50 rounded-lg border border-blue-200">
                         <h4 className="font-medium text-blue-900 text-sm mb-2">
@@ -0,0 +1,253 @@
+import React, { useState, useRef, useEffect } from "react";
+import { Input, Select, Textarea } from "../UI";
+import { useResumeContext } from "../../contexts/ResumeContext";
+import { Award } from "../../types/resume.types";
+
+export interface AwardsEditorProps {
+    className?: string;
+}
+
+export interface AwardEntryProps {
+    award: Award;
+    isEditing: boolean;
+    onUpdate: (id: string, updates: Partial<Award>) => void;
+    onDelete: (id: string) => void;
+    onToggleEdit: (id: string) => void;
+    onMoveUp: (id: string) => void;
+    onMoveDown: (id: string) => void;
+}
+
+const AWARD_TYPE_OPTIONS = [
+    { value: "award", label: "Award or honor" },
+    { value: "grant", label: "Grant or fellowship" },
+];
+
+const MONTH_OPTIONS = [
+    { value: "01", label: "January" },
+    { value: "02", label: "February" },
+    { value: "03", label: "March" },
+    { value: "04", label: "April" },
+    { value: "05", label: "May" },
+    { value: "06", label: "June" },
+    { value: "07", label: "July" },
+    { value: "08", label: "August" },
+    { value: "09", label: "September" },
+    { value: "10", label: "October" },
+    { value: "11", label: "November" },
+    { value: "12", label: "December" },
+];
+
+const generateYearOptions = () => {
+    const currentYear = new Date().getFullYear();
+    const years = [];
+    for (let year = currentYear + 1; year >= 1970; year--) {
+        years.push({ value: year.toString(), label: year.toString() });
+    }
+    return years;
+};
+
+const YEAR_OPTIONS = generateYearOptions();
+
+const AwardEntry: React.FC<AwardEntryProps> = ({
+    award,
+    isEditing,
+    onUpdate,
+    onDelete,
+    onToggleEdit,
+    onMoveUp,
+    onMoveDown,
+}) => {
+    // Local state for immediate UI updates
+    const [localAward, setLocalAward] = useState(award);
+    const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    // Track date selections separately for better UX
+    const [month, setMonth] = useState<string | undefined>(undefined);
+    const [year, setYear] = useState<string | undefined>(undefined);
+
+    useEffect(() => {
+        setLocalAward(award);
+        const [dateYear, dateMonth] = award.date ? award.date.split("-") : [undefined, undefined];
+        setMonth(dateMonth);
+        setYear(dateYear);
+    }, [award.id]);
+
+    // Cleanup on unmount
+    useEffect(() => {
+        return () => {
+            if (debounceTimerRef.current) {
+                clearTimeout(debounceTimerRef.current);
+            }
+        };
+    }, []);
+
+    const handleFieldUpdate = (field: keyof Award, value: any) => {
+        setLocalAward({ ...localAward, [field]: value });
+
+        if (debounceTimerRef.current) {
+            clearTimeout(debounceTimerRef.current);
+        }
+        debounceTimerRef.current = setTimeout(() => {
+            onUpdate(award.id, { [field]: value });
+        }, 300);
+    };
+
+    // A year on its own is enough; the month is optional
+    const handleDateUpdate = (newMonth: string | undefined, newYear: string | undefined) => {
+        setMonth(newMonth);
+        setYear(newYear);
+        if (newYear) {
+            handleFieldUpdate("date", newMonth ? `${newYear}-${newMonth}` : newYear);
+        }
+    };
+
+    return (
+        <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+            <div className="flex items-start justify-between gap-3">
+                <div className="flex-1 min-w-0">
+                    <h4 className="text-xs font-bold text-gray-800 truncate">
+                        {award.title || (award.type === "grant" ? "New Grant" : "New Award")}
+                    </h4>
+                    <p className="text-xs text-gray-500 truncate">
+                        {[award.issuer, award.date && award.date.slice(0, 4)].filter(Boolean).join(" • ")}
+                    </p>
+                </div>
+
+                <div className="flex items-center gap-1 flex-shrink-0">
+                    <button type="button" onClick={() => onMoveUp(award.id)} className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded" title="Move up">
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                        </svg>
+                    </button>
+                    <button type="button" onClick={() => onMoveDown(award.id)} className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded" title="Move down">
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                        </svg>
+                    </button>
+                    <button type="button" onClick={() => onToggleEdit(award.id)} className="px-2 py-1.5 text-xs font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded">
+                        {isEditing ? "Save" : "Edit"}
+                    </button>
+                    <button type="button" onClick={() => onDelete(award.id)} className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-50 rounded" title="Delete entry">
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                    </button>
+                </div>
+            </div>
+
+            {isEditing && (
+                <div className="space-y-3 border-t border-gray-200 pt-3">
+                    <Select label="Type" options={AWARD_TYPE_OPTIONS} value={localAward.type} onChange={(value) => handleFieldUpdate("type", value)} className="text-sm" />
+                    <Input label="Title" value={localAward.title} onChange={(e) => handleFieldUpdate("title", e.target.value)} required placeholder="e.g., Best Paper Award" className="text-sm" />
+                    <Input
+                        label={localAward.type === "grant" ? "Funding Body" : "Awarded By"}
+                        value={localAward.issuer}
+                        onChange={(e) => handleFieldUpdate("issuer", e.target.value)}
+                        required
+                        placeholder={localAward.type === "grant" ? "e.g., National Science Foundation" : "e.g., ACM SIGCHI"}
+                        className="text-sm"
+                    />
+
+                    <div className="space-y-2">
+                        <h5 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest border-b border-gray-100 pb-1">Date</h5>
+                        <div className="grid grid-cols-2 gap-2">
+                            <Select label="Month" options={MONTH_OPTIONS} value={month} onChange={(value) => handleDateUpdate(value, year)} placeholder="Month" className="text-sm" />
+                            <Select label="Year" options={YEAR_OPTIONS} value={year} onChange={(value) => handleDateUpdate(month, value)} placeholder="Year" className="text-sm" />
+                        </div>
+                    </div>
+
+                    {localAward.type === "grant" && (
+                        <Input label="Amount (Optional)" value={localAward.amount || ""} onChange={(e) => handleFieldUpdate("amount", e.target.value)} placeholder="e.g., $50,000" className="text-sm" />
+                    )}
+
+                    <Textarea
+                        label="Description (Optional)"
+                        value={localAward.description || ""}
+                        onChange={(e) => handleFieldUpdate("description", e.target.value)}
+                        placeholder="What the award recognizes, selection rate, ..."
+                        rows={2}
+                        autoResize
+                        className="text-sm"
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const AwardsEditor: React.FC<AwardsEditorProps> = ({ className = "" }) => {
+    const { resume, dispatch } = useResumeContext();
+    const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
+
+    const awardsSection = (resume.sections || []).find((section) => section.type === "awards");
+    const awards = awardsSection?.content ? (awardsSection.content as { awards: Award[] }).awards || [] : [];
+
+    const generateId = (): string => Math.random().toString(36).substr(2, 9);
+
+    const addAward = () => {
+        const award: Award = { id: generateId(), type: "award", title: "", issuer: "", date: "" };
+        dispatch({ type: "ADD_AWARD", payload: { award } });
+        setEditingEntryId(award.id);
+    };
+
+    const updateAward = (awardId: string, updates: Partial<Award>) => {
+        dispatch({ type: "UPDATE_AWARD", payload: { awardId, updates } });
+    };
+
+    const deleteAward = (awardId: string) => {
+        dispatch({ type: "DELETE_AWARD", payload: { awardId } });
+        if (editingEntryId === awardId) setEditingEntryId(null);
+    };
+
+    const moveAward = (awardId: string, offset: number) => {
+        const ids = awards.map((award) => award.id);
+        const from = ids.indexOf(awardId);
+        const to = from + offset;
+        if (from < 0 || to < 0 || to >= ids.length) return;
+        [ids[from], ids[to]] = [ids[to], ids[from]];
+        dispatch({ type: "REORDER_AWARDS", payload: { awardIds: ids } });
+    };
+
+    if (!awardsSection) return null;
+
+    return (
+        <div className={className}>
+            <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                    <p className="text-xs text-gray-500">
+                        {awards.length} {awards.length === 1 ? "entry" : "entries"}
+                    </p>
+                    <button
+                        onClick={addAward}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-gray-700 hover:bg-gray-800 rounded-md transition-colors"
+                    >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                        </svg>
+                        Add Award
+                    </button>
+                </div>
+
+                {awards.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500 border-2 border-dashed border-gray-200 rounded-lg">
+                        <h4 className="text-sm font-medium text-gray-900 mb-1">No awards added</h4>
+                        <p className="text-xs text-gray-500">Add honors, prizes, grants and fellowships.</p>
+                    </div>
+                ) : (
+                    awards.map((award) => (
+                        <AwardEntry
+                            key={award.id}
+                            award={award}
+                            isEditing={editingEntryId === award.id}
+                            onUpdate={updateAward}
+                            onDelete={deleteAward}
+                            onToggleEdit={(id) => setEditingEntryId(editingEntryId === id ? null : id)}
+                            onMoveUp={(id) => moveAward(id, -1)}
+                            onMoveDown={(id) => moveAward(id, 1)}
+                        />
+                    ))
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,9 +1,7 @@
 import React, { useState, useCallback, useRef, useEffect } from "react";
 import { Button, Input, Select } from "../UI";
 import { useResumeContext } from "../../contexts/ResumeContext";
-import { useResumeBackend } from "../../contexts/ResumeBackendContext";
 import { Certification } from "../../types/resume.types";
-import { frontendResumeToBackendContent as mapResumeToContent } from "../../utils/resumeConverter";
 
 export interface CertificationsEditorProps {
     className?: string;
@@ -326,7 +324,6 @@ const CertificationEntry: React.FC<CertificationEntryProps> = ({
 
 export const CertificationsEditor: React.FC<CertificationsEditorProps> = ({ className = "" }) => {
     const { resume, dispatch } = useResumeContext();
-    const { updateResume } = useResumeBackend();
     const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
 
     const certificationsSection = (resume.sections || []).find((section) => section.type === "certifications");
@@ -366,18 +363,6 @@ export const CertificationsEditor: React.FC<CertificationsEditorProps> = ({ clas
         };
     }, []);
 
-    /**
-     * Helper to save certifications to backend
-     */
-    const saveToBackend = (updatedCertifications: Certification[]) => {
-        const contentToSave = mapResumeToContent(resume);
-        contentToSave.certifications = updatedCertifications;
-
-        updateResume({
-            content: contentToSave as any
-        });
-    };
-
     const addCertification = () => {
         const newCertification: Certification = {
             id: generateId(),
@@ -390,20 +375,17 @@ export const CertificationsEditor: React.FC<CertificationsEditorProps> = ({ clas
         };
         const updated = [...certifications, newCertification];
         debouncedUpdate(updated);
-        saveToBackend(updated);
         setEditingEntryId(newCertification.id);
     };
 
     const updateCertification = (id: string, updates: Partial<Certification>) => {
         const updated = certifications.map((cert) => (cert.id === id ? { ...cert, ...updates } : cert));
         debouncedUpdate(updated);
-        saveToBackend(updated);
     };
 
     const deleteCertification = (id: string) => {
         const updated = certifications.filter((cert) => cert.id !== id);
         debouncedUpdate(updated);
-        saveToBackend(updated);
         if (editingEntryId === id) setEditingEntryId(null);
     };
 
@@ -413,15 +395,11 @@ export const CertificationsEditor: React.FC<CertificationsEditorProps> = ({ clas
             const duplicated: Certification = { ...certToDuplicate, id: generateId(), name: `${certToDuplicate.name} (Copy)` };
             const updated = [...certifications, duplicated];
             debouncedUpdate(updated);
-            saveToBackend(updated);
             setEditingEntryId(duplicated.id);
         }
     };
 
     const toggleEditEntry = (id: string) => {
-        if (editingEntryId === id) {
-             saveToBackend(certifications);
-        }
         setEditingEntryId(editingEntryId === id ? null : id);
     };
 
@@ -431,7 +409,6 @@ export const CertificationsEditor: React.FC<CertificationsEditorProps> = ({ clas
             const updated = [...certifications];
             [updated[currentIndex - 1], updated[currentIndex]] = [updated[currentIndex], updated[currentIndex - 1]];
             debouncedUpdate(updated);
-            saveToBackend(updated);
         }
     };
 
@@ -441,7 +418,6 @@ export const CertificationsEditor: React.FC<CertificationsEditorProps> = ({ clas
             const updated = [...certifications];
             [updated[currentIndex], updated[currentIndex + 1]] = [updated[currentIndex + 1], updated[currentIndex]];
             debouncedUpdate(updated);
-            saveToBackend(updated);
         }
     };
 
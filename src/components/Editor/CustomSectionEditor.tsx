@@ -1,19 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { ResumeSection } from '../../types/resume.types';
-import { frontendResumeToBackendContent as mapResumeToContent } from '../../utils/resumeConverter';
 import { useResumeContext } from '../../contexts/ResumeContext';
-import { useResumeBackend } from '../../contexts/ResumeBackendContext';
-import { Input } from '../UI';
+import { Input, RichTextarea } from '../UI';
 
 interface CustomSectionEditorProps {
     section: ResumeSection;
 }
 
 export const CustomSectionEditor: React.FC<CustomSectionEditorProps> = ({ section }) => {
-    const { resume, dispatch } = useResumeContext();
-    const { updateResume } = useResumeBackend();
+    const { dispatch } = useResumeContext();
     const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-    const backendSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
     if (section.type !== 'custom') return null;
 
@@ -33,50 +29,15 @@ export const CustomSectionEditor: React.FC<CustomSectionEditorProps> = ({ sectio
         setItems((customContent?.content || '').split('\n').filter((i: string) => i.trim() !== ''));
     }, [customContent?.id, customContent?.title, customContent?.content]);
 
-    // Cleanup timers
+    // Cleanup timer
     useEffect(() => {
         return () => {
             if (debounceTimerRef.current) clearTimeout(debounceTimerRef.current);
-            if (backendSaveTimerRef.current) clearTimeout(backendSaveTimerRef.current);
         };
     }, []);
 
     /**
-     * Save changes to backend
-     */
-    const saveToBackend = (updatedTitle: string, updatedContent: string) => {
-        // We need to construct the full custom sections list for the backend
-        // Since we are editing ONE section, we need to ensure others are preserved
-        // mapResumeToContent does this by reading from 'resume' state
-        // BUT 'resume' state might be slightly stale if we just dispatched.
-        // However, mapResumeToContent iterates over resume.sections.
-        // We need to ensure the mapped content includes OUR updates.
-        
-        // Actually, simpler: Dispatch updates to context FIRST.
-        // Then map resume (which will have updates after context update? No, context update is async/react cycle)
-        // So we should construct the content object manually with our override.
-        
-        const contentToSave = mapResumeToContent(resume);
-        
-        // Find and update this specific custom section in the list
-        if (contentToSave.customSections) {
-            const idx = contentToSave.customSections.findIndex((cs: any) => cs.id === customContent.id);
-            if (idx !== -1) {
-                contentToSave.customSections[idx] = {
-                    ...contentToSave.customSections[idx],
-                    title: updatedTitle,
-                    content: updatedContent
-                };
-            }
-        }
-
-        updateResume({
-            content: contentToSave as any
-        });
-    };
-
-    /**
-     * Dispatch updates to context and schedule backend save
+     * Dispatch updates to context; the save coordinator persists them
      */
     const handleUpdate = (newTitle: string, newItems: string[]) => {
         const newContent = newItems.join('\n');
@@ -96,12 +57,6 @@ export const CustomSectionEditor: React.FC<CustomSectionEditorProps> = ({ sectio
                 },
             });
         }, 300);
-
-        // Debounce Backend Save
-        if (backendSaveTimerRef.current) clearTimeout(backendSaveTimerRef.current);
-        backendSaveTimerRef.current = setTimeout(() => {
-            saveToBackend(newTitle, newContent);
-        }, 1000);
     };
 
     const handleTitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -199,11 +154,11 @@ export const CustomSectionEditor: React.FC<CustomSectionEditorProps> = ({ sectio
                             </div>
                             
                             <div className="flex-1">
-                                <textarea
+                                <RichTextarea
                                     value={item}
-                                    onChange={(e) => handleItemChange(index, e.target.value)}
+                                    onChange={(value) => handleItemChange(index, value)}
                                     rows={2}
-                                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                                    className="text-sm"
                                     placeholder="Description..."
                                 />
                             </div>
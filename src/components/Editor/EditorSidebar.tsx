@@ -3,33 +3,66 @@ import { useResumeContext } from '../../contexts/ResumeContext';
 import { SortableSectionList } from './SortableSectionList';
 import { ATSScorePanel } from './ATSScorePanel';
 import { PersonalInfoEditor } from './PersonalInfoEditor';
+import { TranslationsEditor } from './TranslationsEditor';
 import { SummaryEditor } from './SummaryEditor';
 import { ExperienceEditor } from './ExperienceEditor';
 import { ProjectsEditor } from './ProjectsEditor';
 import { SkillsEditor } from './SkillsEditor';
 import { EducationEditor } from './EducationEditor';
 import { CertificationsEditor } from './CertificationsEditor';
+import { LanguagesEditor } from './LanguagesEditor';
+import { PublicationsEditor } from './PublicationsEditor';
+import { AwardsEditor } from './AwardsEditor';
+import { VolunteeringEditor } from './VolunteeringEditor';
+import { ReferencesEditor } from './ReferencesEditor';
 import { AdditionalInfoEditor } from './AdditionalInfoEditor';
 import { CustomSectionEditor } from './CustomSectionEditor';
-import { ResumeSection } from '../../types/resume.types';
+import { ResumeSection, SectionColumn, SectionType } from '../../types/resume.types';
+import { useTemplateDefinition } from '../../utils/templateRegistry';
+import { getSectionColumn, moveSectionToColumn, resolveColumnLayout } from '../../utils/columnLayout';
 import { SidebarIconNav } from './SidebarIconNav';
+import { SectionIcon } from './SectionIcon';
 import { ChevronLeft } from 'lucide-react';
 
+// Structured sections a resume can add once, with their empty content
+const OPTIONAL_SECTIONS: { type: SectionType; title: string; content: ResumeSection['content'] }[] = [
+    { type: 'publications', title: 'Publications', content: { publications: [], citationStyle: 'apa' } },
+    { type: 'awards', title: 'Awards', content: { awards: [] } },
+    { type: 'volunteering', title: 'Volunteering', content: { volunteering: [] } },
+    { type: 'references', title: 'References', content: { references: [] } },
+];
+
 interface EditorSidebarProps {
     isCollapsed?: boolean;
     onToggleCollapse?: () => void;
+    /** Runs before changes that touch many fields at once, e.g. to save a snapshot */
+    onBeforeBulkChange?: () => Promise<void>;
 }
 
 export const EditorSidebar: React.FC<EditorSidebarProps> = ({ 
     isCollapsed = false, 
-    onToggleCollapse = () => {} 
+    onToggleCollapse = () => {},
+    onBeforeBulkChange,
 }) => {
-    const { resume, dispatch, atsValidation } = useResumeContext();
+    const { resume, dispatch, atsValidation, atsSettings, updateATSSettings, undo } = useResumeContext();
+    const definition = useTemplateDefinition(resume.template);
+    const isTwoColumn = resolveColumnLayout(resume.layout, definition).count === 2;
 
     const handleReorderSections = (sectionIds: string[]) => {
         dispatch({ type: 'REORDER_SECTIONS', payload: sectionIds });
     };
 
+    const handleMoveToColumn = (sectionId: string, column: SectionColumn, beforeId: string | null) => {
+        dispatch({
+            type: 'MOVE_SECTION',
+            payload: {
+                sectionId,
+                column,
+                sectionIds: moveSectionToColumn(resume.sections, definition, sectionId, column, beforeId),
+            },
+        });
+    };
+
     const handleToggleSection = (sectionId: string) => {
         dispatch({ type: 'TOGGLE_SECTION', payload: sectionId });
     };
@@ -40,6 +73,24 @@ export const EditorSidebar: React.FC<EditorSidebarProps> = ({
         }
     };
 
+    const missingSections = OPTIONAL_SECTIONS.filter(
+        (optional) => !resume.sections.some((section) => section.type === optional.type)
+    );
+
+    const handleAddSection = ({ type, title, content }: typeof OPTIONAL_SECTIONS[number]) => {
+        dispatch({
+            type: 'ADD_SECTION',
+            payload: {
+                id: Math.random().toString(36).substr(2, 9),
+                type,
+                title,
+                enabled: true,
+                order: resume.sections.length,
+                content,
+            },
+        });
+    };
+
     const renderSectionContent = (section: ResumeSection) => {
         switch (section.type) {
             case 'summary':
@@ -54,6 +105,16 @@ export const EditorSidebar: React.FC<EditorSidebarProps> = ({
                 return <EducationEditor />;
             case 'certifications':
                 return <CertificationsEditor />;
+            case 'languages':
+                return <LanguagesEditor />;
+            case 'publications':
+                return <PublicationsEditor />;
+            case 'awards':
+                return <AwardsEditor />;
+            case 'volunteering':
+                return <VolunteeringEditor />;
+            case 'references':
+                return <ReferencesEditor />;
             case 'additional-info':
                 return <AdditionalInfoEditor />;
             case 'custom':
@@ -92,11 +153,24 @@ export const EditorSidebar: React.FC<EditorSidebarProps> = ({
 
             <div className="flex-1 overflow-y-auto p-3 sm:p-4 space-y-4 sm:space-y-6">
                 {/* ATS Score Panel - Always visible at top */}
-                <ATSScorePanel validation={atsValidation} />
+                <ATSScorePanel
+                    validation={atsValidation}
+                    settings={atsSettings}
+                    onSettingsChange={updateATSSettings}
+                    resume={resume}
+                    onApplyFixes={async (fixed) => {
+                        await onBeforeBulkChange?.();
+                        dispatch({ type: 'FIX_ATS_ISSUES', payload: fixed });
+                    }}
+                    onUndo={undo}
+                />
 
                 {/* Personal Information - Not draggable, always at top */}
                 <PersonalInfoEditor />
 
+                {/* Resume language and its translations */}
+                <TranslationsEditor />
+
                 {/* Sortable Sections */}
                 <div>
                     <h3 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2 sm:mb-3 px-1 flex items-center justify-between">
@@ -109,9 +183,27 @@ export const EditorSidebar: React.FC<EditorSidebarProps> = ({
                         onToggleSection={handleToggleSection}
                         onDeleteSection={handleDeleteSection}
                         renderSectionContent={renderSectionContent}
+                        columnOf={isTwoColumn ? (section) => getSectionColumn(section, definition) : undefined}
+                        onMoveToColumn={handleMoveToColumn}
                     />
                 </div>
 
+                {/* Structured sections not on the resume yet */}
+                {missingSections.length > 0 && (
+                    <div className="grid grid-cols-2 gap-2">
+                        {missingSections.map((optional) => (
+                            <button
+                                key={optional.type}
+                                onClick={() => handleAddSection(optional)}
+                                className="py-2 px-3 bg-white border border-gray-200 rounded-lg text-xs font-medium text-gray-600 hover:border-blue-400 hover:text-blue-600 transition-colors flex items-center gap-2"
+                            >
+                                <SectionIcon type={optional.type} className="w-4 h-4" />
+                                <span>Add {optional.title}</span>
+                            </button>
+                        ))}
+                    </div>
+                )}
+
                 {/* Add Custom Section Button */}
                 <button
                     onClick={() => {
@@ -1,9 +1,7 @@
 import React, { useState, useCallback, useRef, useEffect } from "react";
 import { Button, Input, Select } from "../UI";
 import { useResumeContext } from "../../contexts/ResumeContext";
-import { useResumeBackend } from "../../contexts/ResumeBackendContext";
 import { Education } from "../../types/resume.types";
-import { frontendResumeToBackendContent as mapResumeToContent } from "../../utils/resumeConverter";
 
 /**
  * Education Editor Component Props
@@ -525,7 +523,6 @@ export const EducationEditor: React.FC<EducationEditorProps> = ({
     className = "",
 }) => {
     const { resume, dispatch } = useResumeContext();
-    const { updateResume } = useResumeBackend();
     const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
 
     // Find the education section
@@ -581,18 +578,6 @@ export const EducationEditor: React.FC<EducationEditorProps> = ({
         };
     }, []);
 
-    /**
-     * Helper to save education to backend
-     */
-    const saveToBackend = (updatedEducation: Education[]) => {
-        const contentToSave = mapResumeToContent(resume);
-        contentToSave.education = updatedEducation;
-
-        updateResume({
-            content: contentToSave as any
-        });
-    };
-
     /**
      * Add new education entry
      */
@@ -610,7 +595,6 @@ export const EducationEditor: React.FC<EducationEditorProps> = ({
 
         const updatedEducation = [...educationEntries, newEducation];
         debouncedUpdate(updatedEducation);
-        saveToBackend(updatedEducation);
         setEditingEntryId(newEducation.id);
     };
 
@@ -622,7 +606,6 @@ export const EducationEditor: React.FC<EducationEditorProps> = ({
             edu.id === id ? { ...edu, ...updates } : edu
         );
         debouncedUpdate(updatedEducation);
-        saveToBackend(updatedEducation);
     };
 
     /**
@@ -631,7 +614,6 @@ export const EducationEditor: React.FC<EducationEditorProps> = ({
     const deleteEducation = (id: string) => {
         const updatedEducation = educationEntries.filter((edu) => edu.id !== id);
         debouncedUpdate(updatedEducation);
-        saveToBackend(updatedEducation);
         if (editingEntryId === id) {
             setEditingEntryId(null);
         }
@@ -650,7 +632,6 @@ export const EducationEditor: React.FC<EducationEditorProps> = ({
             };
             const updatedEducation = [...educationEntries, duplicatedEducation];
             debouncedUpdate(updatedEducation);
-            saveToBackend(updatedEducation);
             setEditingEntryId(duplicatedEducation.id);
         }
     };
@@ -659,9 +640,6 @@ export const EducationEditor: React.FC<EducationEditorProps> = ({
      * Toggle edit mode for entry
      */
     const toggleEditEntry = (id: string) => {
-        if (editingEntryId === id) {
-             saveToBackend(educationEntries);
-        }
         setEditingEntryId(editingEntryId === id ? null : id);
     };
 
@@ -675,7 +653,6 @@ export const EducationEditor: React.FC<EducationEditorProps> = ({
             [updatedEducation[currentIndex - 1], updatedEducation[currentIndex]] =
                 [updatedEducation[currentIndex], updatedEducation[currentIndex - 1]];
             debouncedUpdate(updatedEducation);
-            saveToBackend(updatedEducation);
         }
     };
 
@@ -689,7 +666,6 @@ export const EducationEditor: React.FC<EducationEditorProps> = ({
             [updatedEducation[currentIndex], updatedEducation[currentIndex + 1]] =
                 [updatedEducation[currentIndex + 1], updatedEducation[currentIndex]];
             debouncedUpdate(updatedEducation);
-            saveToBackend(updatedEducation);
         }
     };
 
@@ -1,15 +1,14 @@
 import React, { useState, useCallback, useRef, useEffect } from "react";
-import { Button, Input, Select, Textarea } from "../UI";
+import { Button, Input, RichTextarea, Select } from "../UI";
 import { useResumeContext } from "../../contexts/ResumeContext";
-import { useResumeBackend } from "../../contexts/ResumeBackendContext";
 import { WorkExperience } from "../../types/resume.types";
-import { frontendResumeToBackendContent as mapResumeToContent } from "../../utils/resumeConverter";
 import {
     validateExperience,
     hasValidationErrors,
     checkATSCompliance,
     ExperienceValidationErrors
 } from "../../utils/experienceValidation";
+import { stripRichText } from "../../utils/richText";
 
 /**
  * Experience Editor Component Props
@@ -158,9 +157,9 @@ const BulletPointManager: React.FC<BulletPointManagerProps> = ({
                     </div>
 
                     <div className="flex-1">
-                        <Textarea
+                        <RichTextarea
                             value={point}
-                            onChange={(e) => updateBulletPoint(index, e.target.value)}
+                            onChange={(value) => updateBulletPoint(index, value)}
                             placeholder="Describe your responsibility or achievement..."
                             rows={2}
                             maxLength={200}
@@ -539,10 +538,11 @@ const ExperienceEntry: React.FC<ExperienceEntryProps> = ({
                     </div>
 
                     {/* Description */}
-                    <Textarea
+                    <RichTextarea
                         label="Job Description (Optional)"
                         value={localExperience.description}
-                        onChange={(e) => handleFieldUpdate("description", e.target.value)}
+                        onChange={(value) => handleFieldUpdate("description", value)}
+                        allowBullets
                         error={validationErrors.description}
                         placeholder="Brief description of your role and responsibilities..."
                         rows={3}
@@ -563,7 +563,7 @@ const ExperienceEntry: React.FC<ExperienceEntryProps> = ({
             {!isEditing && (
                 <div className="space-y-2 border-t border-gray-200 pt-3">
                     {experience.description && (
-                        <p className="text-xs text-gray-600 leading-relaxed">{experience.description}</p>
+                        <p className="text-xs text-gray-600 leading-relaxed">{stripRichText(experience.description)}</p>
                     )}
 
                     {(experience.achievements || []).length > 0 && (
@@ -573,7 +573,7 @@ const ExperienceEntry: React.FC<ExperienceEntryProps> = ({
                                 {(experience.achievements || []).slice(0, 3).map((achievement, index) => (
                                     <li key={index} className="text-xs text-gray-600 flex items-start">
                                         <span className="text-blue-600 mr-1.5 flex-shrink-0">•</span>
-                                        <span className="leading-relaxed">{achievement}</span>
+                                        <span className="leading-relaxed">{stripRichText(achievement)}</span>
                                     </li>
                                 ))}
                                 {(experience.achievements || []).length > 3 && (
@@ -620,7 +620,6 @@ export const ExperienceEditor: React.FC<ExperienceEditorProps> = ({
     className = "",
 }) => {
     const { resume, dispatch } = useResumeContext();
-    const { updateResume } = useResumeBackend();
     const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
 
     // Find the experience section
@@ -641,8 +640,6 @@ export const ExperienceEditor: React.FC<ExperienceEditorProps> = ({
 
     // Ref to store the debounce timer
     const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-    // Separate timer for the backend save so rapid edits collapse into one network call.
-    const backendSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
     /**
      * Debounced update function
@@ -675,24 +672,9 @@ export const ExperienceEditor: React.FC<ExperienceEditorProps> = ({
             if (debounceTimerRef.current) {
                 clearTimeout(debounceTimerRef.current);
             }
-            if (backendSaveTimerRef.current) {
-                clearTimeout(backendSaveTimerRef.current);
-            }
         };
     }, []);
 
-    /**
-     * Helper to save experiences to backend
-     */
-    const saveToBackend = (updatedExperiences: WorkExperience[]) => {
-        const contentToSave = mapResumeToContent(resume);
-        contentToSave.experience = updatedExperiences;
-
-        updateResume({
-            content: contentToSave as any
-        });
-    };
-
     /**
      * Add new experience entry
      */
@@ -711,7 +693,6 @@ export const ExperienceEditor: React.FC<ExperienceEditorProps> = ({
 
         const updatedExperiences = [...experiences, newExperience];
         debouncedUpdate(updatedExperiences);
-        saveToBackend(updatedExperiences);
         setEditingEntryId(newExperience.id);
     };
 
@@ -723,14 +704,6 @@ export const ExperienceEditor: React.FC<ExperienceEditorProps> = ({
             exp.id === id ? { ...exp, ...updates } : exp
         );
         debouncedUpdate(updatedExperiences);
-
-        // Collapse rapid keystrokes into a single backend save.
-        if (backendSaveTimerRef.current) {
-            clearTimeout(backendSaveTimerRef.current);
-        }
-        backendSaveTimerRef.current = setTimeout(() => {
-            saveToBackend(updatedExperiences);
-        }, 1000);
     };
 
     /**
@@ -739,7 +712,6 @@ export const ExperienceEditor: React.FC<ExperienceEditorProps> = ({
     const deleteExperience = (id: string) => {
         const updatedExperiences = experiences.filter((exp) => exp.id !== id);
         debouncedUpdate(updatedExperiences);
-        saveToBackend(updatedExperiences);
         if (editingEntryId === id) {
             setEditingEntryId(null);
         }
@@ -758,7 +730,6 @@ export const ExperienceEditor: React.FC<ExperienceEditorProps> = ({
             };
             const updatedExperiences = [...experiences, duplicatedExperience];
             debouncedUpdate(updatedExperiences);
-            saveToBackend(updatedExperiences);
             setEditingEntryId(duplicatedExperience.id);
         }
     };
@@ -767,10 +738,6 @@ export const ExperienceEditor: React.FC<ExperienceEditorProps> = ({
      * Toggle edit mode for entry
      */
     const toggleEditEntry = (id: string) => {
-        // If we are saving (closing edit), ensure we save
-        if (editingEntryId === id) {
-             saveToBackend(experiences);
-        }
         setEditingEntryId(editingEntryId === id ? null : id);
     };
 
@@ -784,7 +751,6 @@ export const ExperienceEditor: React.FC<ExperienceEditorProps> = ({
             [updatedExperiences[currentIndex - 1], updatedExperiences[currentIndex]] =
                 [updatedExperiences[currentIndex], updatedExperiences[currentIndex - 1]];
             debouncedUpdate(updatedExperiences);
-            saveToBackend(updatedExperiences);
         }
     };
 
@@ -798,7 +764,6 @@ export const ExperienceEditor: React.FC<ExperienceEditorProps> = ({
             [updatedExperiences[currentIndex], updatedExperiences[currentIndex + 1]] =
                 [updatedExperiences[currentIndex + 1], updatedExperiences[currentIndex]];
             debouncedUpdate(updatedExperiences);
-            saveToBackend(updatedExperiences);
         }
     };
     // Don't render if no experience section exists
@@ -0,0 +1,80 @@
+import React from "react";
+import { Redo2, Undo2 } from "lucide-react";
+import { useResumeContext } from "../../contexts/ResumeContext";
+
+const formatTime = (iso: string): string => {
+    const date = new Date(iso);
+    return date.toDateString() === new Date().toDateString()
+        ? date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })
+        : date.toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+};
+
+/**
+ * The open resume's undo history, newest first. Undone changes stay listed as
+ * indented branches; clicking any entry returns the resume to that point.
+ */
+export const HistoryPanel: React.FC = () => {
+    const { history, jumpTo, undo, redo, canUndo, canRedo } = useResumeContext();
+    const entries = [...history].reverse();
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-gray-600">Kept on this device between sessions.</p>
+                <div className="flex items-center gap-1">
+                    <button
+                        type="button"
+                        onClick={undo}
+                        disabled={!canUndo}
+                        className="p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent"
+                        title="Undo (Ctrl+Z)"
+                    >
+                        <Undo2 className="w-4 h-4" />
+                    </button>
+                    <button
+                        type="button"
+                        onClick={redo}
+                        disabled={!canRedo}
+                        className="p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent"
+                        title="Redo (Ctrl+Shift+Z)"
+                    >
+                        <Redo2 className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            {entries.length === 0 ? (
+                <p className="text-sm text-gray-500 italic py-4 text-center">No changes yet.</p>
+            ) : (
+                <ol className="max-h-[60vh] overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                    {entries.map((entry) => (
+                        <li key={entry.id}>
+                            <button
+                                type="button"
+                                onClick={() => jumpTo(entry.id)}
+                                disabled={entry.isCurrent}
+                                style={{ paddingLeft: `${0.75 + entry.depth * 1.25}rem` }}
+                                className={`w-full flex items-center justify-between gap-3 pr-3 py-2 text-left text-sm transition-colors ${
+                                    entry.isCurrent
+                                        ? "bg-blue-50 text-blue-900 font-medium"
+                                        : entry.isActive
+                                            ? "text-gray-800 hover:bg-gray-50"
+                                            : "text-gray-400 hover:bg-gray-50 hover:text-gray-600"
+                                }`}
+                                title={entry.isActive ? undefined : "Undone change"}
+                            >
+                                <span className="flex items-center gap-2 min-w-0">
+                                    {entry.depth > 0 && <span className="text-gray-300">↳</span>}
+                                    <span className="truncate">{entry.label}</span>
+                                </span>
+                                <span className="text-xs text-gray-400 tabular-nums flex-shrink-0">
+                                    {entry.isCurrent ? "Current" : formatTime(entry.createdAt)}
+                                </span>
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+};
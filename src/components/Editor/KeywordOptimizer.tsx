@@ -1,5 +1,6 @@
 import React, { useState, useMemo } from 'react';
-import { Search, TrendingUp, CheckCircle, AlertCircle, Lightbulb, ChevronDown, ChevronUp } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Search, TrendingUp, CheckCircle, AlertCircle, Lightbulb, ChevronDown, ChevronUp, Target } from 'lucide-react';
 import { useResumeContext } from '../../contexts/ResumeContext';
 import {
     extractResumeText,
@@ -17,6 +18,7 @@ interface KeywordOptimizerProps {
 
 export const KeywordOptimizer: React.FC<KeywordOptimizerProps> = ({ className = '' }) => {
     const { resume } = useResumeContext();
+    const navigate = useNavigate();
     const [isExpanded, setIsExpanded] = useState(false);
     const [jobDescription, setJobDescription] = useState('');
     const [selectedRole, setSelectedRole] = useState<keyof typeof KEYWORD_DATABASE>('fullstack');
@@ -137,6 +139,13 @@ export const KeywordOptimizer: React.FC<KeywordOptimizerProps> = ({ className =
                                                 </div>
                                             </div>
                                         )}
+                                        <button
+                                            onClick={() => navigate(`/tailor/${resume.id}`, { state: { jobDescription } })}
+                                            className="mt-3 flex items-center gap-2 text-sm font-medium text-purple-600 hover:text-purple-700"
+                                        >
+                                            <Target className="w-4 h-4" />
+                                            Tailor a copy to this job
+                                        </button>
                                     </div>
                                 )}
                             </div>
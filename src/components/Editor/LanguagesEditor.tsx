@@ -0,0 +1,219 @@
+import React, { useState, useRef, useEffect } from "react";
+import { Input, Select } from "../UI";
+import { useResumeContext } from "../../contexts/ResumeContext";
+import { CefrLevel, Language, LanguageProficiency, LanguagesContent } from "../../types/resume.types";
+import { CEFR_LEVELS, PROFICIENCY_LEVELS } from "../../utils/languageLevels";
+
+export interface LanguagesEditorProps {
+    className?: string;
+}
+
+export interface LanguageEntryProps {
+    language: Language;
+    isFirst: boolean;
+    isLast: boolean;
+    onUpdate: (id: string, updates: Partial<Language>) => void;
+    onDelete: (id: string) => void;
+    onMoveUp: (id: string) => void;
+    onMoveDown: (id: string) => void;
+}
+
+const CEFR_OPTIONS = [{ value: "", label: "No CEFR level" }, ...CEFR_LEVELS];
+
+const LANGUAGE_SUGGESTIONS = [
+    "English",
+    "Spanish",
+    "French",
+    "German",
+    "Mandarin Chinese",
+    "Hindi",
+    "Arabic",
+    "Portuguese",
+    "Japanese",
+    "Italian",
+];
+
+const LanguageEntry: React.FC<LanguageEntryProps> = ({
+    language,
+    isFirst,
+    isLast,
+    onUpdate,
+    onDelete,
+    onMoveUp,
+    onMoveDown,
+}) => {
+    // Local state for immediate UI updates while typing
+    const [name, setName] = useState(language.name);
+    const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    useEffect(() => {
+        setName(language.name);
+    }, [language.id]);
+
+    // Cleanup on unmount
+    useEffect(() => {
+        return () => {
+            if (debounceTimerRef.current) {
+                clearTimeout(debounceTimerRef.current);
+            }
+        };
+    }, []);
+
+    const handleNameChange = (value: string) => {
+        setName(value);
+        if (debounceTimerRef.current) {
+            clearTimeout(debounceTimerRef.current);
+        }
+        debounceTimerRef.current = setTimeout(() => {
+            onUpdate(language.id, { name: value });
+        }, 300);
+    };
+
+    return (
+        <div className="bg-white border border-gray-200 rounded-lg p-3 space-y-2">
+            <div className="flex items-end gap-2">
+                <div className="flex-1 min-w-0">
+                    <Input
+                        label="Language"
+                        value={name}
+                        onChange={(e) => handleNameChange(e.target.value)}
+                        placeholder="e.g., German"
+                        list="language-suggestions"
+                        className="text-sm"
+                    />
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0 pb-1">
+                    <button type="button" onClick={() => onMoveUp(language.id)} disabled={isFirst} className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded disabled:opacity-30" title="Move up">
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                        </svg>
+                    </button>
+                    <button type="button" onClick={() => onMoveDown(language.id)} disabled={isLast} className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded disabled:opacity-30" title="Move down">
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                        </svg>
+                    </button>
+                    <button type="button" onClick={() => onDelete(language.id)} className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-50 rounded" title="Delete language">
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                <Select
+                    label="Proficiency"
+                    options={PROFICIENCY_LEVELS}
+                    value={language.proficiency}
+                    onChange={(value) => onUpdate(language.id, { proficiency: value as LanguageProficiency })}
+                    className="text-sm"
+                />
+                <Select
+                    label="CEFR Level"
+                    options={CEFR_OPTIONS}
+                    value={language.cefr || ""}
+                    onChange={(value) => onUpdate(language.id, { cefr: (value || undefined) as CefrLevel | undefined })}
+                    className="text-sm"
+                />
+            </div>
+        </div>
+    );
+};
+
+export const LanguagesEditor: React.FC<LanguagesEditorProps> = ({ className = "" }) => {
+    const { resume, dispatch } = useResumeContext();
+
+    const languagesSection = (resume.sections || []).find((section) => section.type === "languages");
+    const content = languagesSection?.content as LanguagesContent | undefined;
+    const languages = content?.languages || [];
+
+    const generateId = (): string => Math.random().toString(36).substr(2, 9);
+
+    if (!languagesSection) return null;
+
+    const sectionId = languagesSection.id;
+
+    const addLanguage = () => {
+        dispatch({
+            type: "ADD_LANGUAGE",
+            payload: { sectionId, language: { id: generateId(), name: "", proficiency: "professional" } },
+        });
+    };
+
+    const updateLanguage = (languageId: string, updates: Partial<Language>) => {
+        dispatch({ type: "UPDATE_LANGUAGE", payload: { sectionId, languageId, updates } });
+    };
+
+    const deleteLanguage = (languageId: string) => {
+        dispatch({ type: "DELETE_LANGUAGE", payload: { sectionId, languageId } });
+    };
+
+    const moveLanguage = (languageId: string, offset: number) => {
+        const ids = languages.map((lang) => lang.id);
+        const from = ids.indexOf(languageId);
+        const to = from + offset;
+        if (from < 0 || to < 0 || to >= ids.length) return;
+        [ids[from], ids[to]] = [ids[to], ids[from]];
+        dispatch({ type: "REORDER_LANGUAGES", payload: { sectionId, languageIds: ids } });
+    };
+
+    return (
+        <div className={className}>
+            <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                    <p className="text-xs text-gray-500">
+                        {languages.length} {languages.length === 1 ? "language" : "languages"}
+                    </p>
+                    <button
+                        onClick={addLanguage}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-gray-700 hover:bg-gray-800 rounded-md transition-colors"
+                    >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                        </svg>
+                        Add Language
+                    </button>
+                </div>
+
+                <label className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={!!content?.showCefr}
+                        onChange={(e) => dispatch({ type: "SET_LANGUAGE_CEFR_DISPLAY", payload: { sectionId, showCefr: e.target.checked } })}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="text-xs text-gray-700">Show CEFR levels on the resume</span>
+                </label>
+
+                <datalist id="language-suggestions">
+                    {LANGUAGE_SUGGESTIONS.map((name) => (
+                        <option key={name} value={name} />
+                    ))}
+                </datalist>
+
+                {languages.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500 border-2 border-dashed border-gray-200 rounded-lg">
+                        <h4 className="text-sm font-medium text-gray-900 mb-1">No languages added</h4>
+                        <p className="text-xs text-gray-500">
+                            List the languages you speak and how well you speak them.
+                        </p>
+                    </div>
+                ) : (
+                    languages.map((lang, index) => (
+                        <LanguageEntry
+                            key={lang.id}
+                            language={lang}
+                            isFirst={index === 0}
+                            isLast={index === languages.length - 1}
+                            onUpdate={updateLanguage}
+                            onDelete={deleteLanguage}
+                            onMoveUp={(id) => moveLanguage(id, -1)}
+                            onMoveDown={(id) => moveLanguage(id, 1)}
+                        />
+                    ))
+                )}
+            </div>
+        </div>
+    );
+};
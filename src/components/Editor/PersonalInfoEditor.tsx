@@ -2,7 +2,6 @@ import React, { useState, useEffect, useCallback, useRef } from "react";
 import { ChevronDown, ChevronUp } from "lucide-react";
 import { Input, Button } from "../UI";
 import { useResumeContext } from "../../contexts/ResumeContext";
-import { useResumeBackend } from "../../contexts/ResumeBackendContext";
 import { PersonalInfo } from "../../types/resume.types";
 
 /**
@@ -50,19 +49,12 @@ export const PersonalInfoEditor: React.FC<PersonalInfoEditorProps> = ({
   className = "",
 }) => {
   const { resume, dispatch } = useResumeContext();
-  const {
-    currentResume,
-    updateResume,
-  } = useResumeBackend();
   const [personalInfo, setPersonalInfo] = useState<PersonalInfo>(
     resume.personalInfo
   );
   const [customLinks, setCustomLinks] = useState<CustomLink[]>([]);
   const [errors, setErrors] = useState<ValidationErrors>({});
   const [isCollapsed, setIsCollapsed] = useState(true);
-  // Autosave status state
-  const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
-  const lastSavedDataRef = useRef<string>(JSON.stringify(resume.personalInfo));
 
   // Update local state when context changes
   useEffect(() => {
@@ -85,31 +77,6 @@ export const PersonalInfoEditor: React.FC<PersonalInfoEditorProps> = ({
   const urlRegex =
     /^https?:\/\/(www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b([-a-zA-Z0-9()@:%_\+.~#?&//=]*)$/;
 
-  /**
-   * Check if the personal info is valid for saving to backend
-   * Relaxed validation to allow saving incomplete drafts
-   */
-  const isPersonalInfoValid = (info: PersonalInfo): boolean => {
-    // Only check for format validity, allow empty required fields for draft saving
-    
-    // Check formatted fields if provided
-    if (info.email && info.email.trim()) {
-      if (!emailRegex.test(info.email)) return false;
-    }
-
-    if (info.phone && info.phone.trim()) {
-      const cleanPhone = info.phone.replace(/[\s\-\(\)]/g, "");
-      if (!phoneRegex.test(cleanPhone)) return false;
-    }
-
-    // Check optional URLs
-    if (info.linkedin && !urlRegex.test(info.linkedin)) return false;
-    if (info.github && !urlRegex.test(info.github)) return false;
-    if (info.portfolio && !urlRegex.test(info.portfolio)) return false;
-
-    return true;
-  };
-
   /**
    * Validate email format
    */
@@ -155,52 +122,6 @@ export const PersonalInfoEditor: React.FC<PersonalInfoEditorProps> = ({
   // Debounce timer ref
   const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  /**
-   * content mapper helper (reused from ProjectsEditor concept)
-   */
-  const mapResumeToContent = (currentResume: any, updatedPersonalInfo: PersonalInfo) => {
-      const content: any = {
-          personalInfo: updatedPersonalInfo,
-          sectionOrder: currentResume.content?.sectionOrder || [],
-          // Preserve other sections
-          summary: currentResume.content?.summary,
-          experience: currentResume.content?.experience,
-          education: currentResume.content?.education,
-          skills: currentResume.content?.skills,
-          certifications: currentResume.content?.certifications,
-          projects: currentResume.content?.projects,
-          languages: currentResume.content?.languages,
-          customSections: currentResume.content?.customSections,
-          layout: currentResume.content?.layout,
-          additionalInfo: currentResume.content?.additionalInfo
-      };
-      return content;
-  };
-
-  /**
-   * Save to backend helper
-   */
-  const saveToBackend = async (updatedInfo: PersonalInfo) => {
-    if (!currentResume) return;
-
-    try {
-      setSaveStatus("saving");
-      
-      const content = mapResumeToContent(currentResume, updatedInfo);
-      
-      await updateResume({ content });
-      
-      setSaveStatus("saved");
-      lastSavedDataRef.current = JSON.stringify(updatedInfo);
-      
-      // Reset to idle after delay
-      setTimeout(() => setSaveStatus("idle"), 2000);
-    } catch (err) {
-      console.error("Autosave failed:", err);
-      setSaveStatus("error");
-    }
-  };
-
   /**
    * Debounced save function
    */
@@ -210,25 +131,14 @@ export const PersonalInfoEditor: React.FC<PersonalInfoEditorProps> = ({
         clearTimeout(debounceTimerRef.current);
       }
 
-      setSaveStatus("saving");
-
       debounceTimerRef.current = setTimeout(() => {
-        // 1. Update Context (always update UI state)
         dispatch({
           type: "UPDATE_PERSONAL_INFO",
           payload: updatedInfo,
         });
-
-        // 2. Persist to Backend - ONLY if valid to avoid API errors
-        if (isPersonalInfoValid(updatedInfo)) {
-          saveToBackend(updatedInfo);
-        } else {
-          // If invalid, don't try to save to backend, just reset status
-          setSaveStatus("idle");
-        }
-      }, 1000); // 1 second delay
+      }, 300);
     },
-    [dispatch, currentResume, updateResume]
+    [dispatch]
   );
 
   /**
@@ -357,32 +267,6 @@ export const PersonalInfoEditor: React.FC<PersonalInfoEditorProps> = ({
             <ChevronUp className="w-3 h-3 text-gray-400" />
           )}
         </button>
-
-        <div className="flex items-center gap-3">
-          {/* Autosave Status Indicator */}
-          {saveStatus === "saving" && (
-            <span className="text-xs text-gray-400 flex items-center">
-              <div className="w-2 h-2 bg-blue-500 rounded-full mr-1.5 animate-pulse"></div>
-              Saving...
-            </span>
-          )}
-          {saveStatus === "saved" && (
-            <span className="text-xs text-green-600 flex items-center">
-              <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-              </svg>
-              Saved
-            </span>
-          )}
-          {saveStatus === "error" && (
-            <span className="text-xs text-red-500 flex items-center">
-              <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-              </svg>
-              Error saving
-            </span>
-          )}
-        </div>
       </div>
 
       {/* Form Content */}
@@ -1,9 +1,7 @@
 import React, { useState, useCallback, useRef, useEffect } from "react";
-import { Button, Input, Select, Textarea } from "../UI";
+import { Button, Input, RichTextarea, Select } from "../UI";
 import { useResumeContext } from "../../contexts/ResumeContext";
-import { useResumeBackend } from "../../contexts/ResumeBackendContext";
 import { Project } from "../../types/resume.types";
-import { frontendResumeToBackendContent as mapResumeToContent } from "../../utils/resumeConverter";
 import {
     validateProject,
     hasValidationErrors,
@@ -12,6 +10,7 @@ import {
     TECH_STACK_SUGGESTIONS,
     filterTechStackSuggestions
 } from "../../utils/projectValidation";
+import { stripRichText } from "../../utils/richText";
 
 /**
  * Projects Editor Component Props
@@ -156,6 +155,7 @@ const TechStackManager: React.FC<TechStackManagerProps> = ({
                     <input
                         type="text"
                         value={inputValue}
+                        dir="auto"
                         onChange={(e) => handleInputChange(e.target.value)}
                         onKeyDown={handleKeyDown}
                         onFocus={() => {
@@ -331,9 +331,9 @@ const BulletPointManager: React.FC<BulletPointManagerProps> = ({
                     </div>
 
                     <div className="flex-1">
-                        <Textarea
+                        <RichTextarea
                             value={point}
-                            onChange={(e) => updateBulletPoint(index, e.target.value)}
+                            onChange={(value) => updateBulletPoint(index, value)}
                             placeholder="Describe a key achievement or responsibility..."
                             rows={2}
                             maxLength={200}
@@ -640,10 +640,11 @@ const ProjectEntry: React.FC<ProjectEntryProps> = ({
                             className="text-sm"
                         />
 
-                        <Textarea
+                        <RichTextarea
                             label="Project Description"
                             value={localProject.description}
-                            onChange={(e) => handleFieldUpdate("description", e.target.value)}
+                            onChange={(value) => handleFieldUpdate("description", value)}
+                            allowBullets
                             error={validationErrors.description}
                             placeholder="Brief description of your project and its key features..."
                             rows={3}
@@ -756,7 +757,7 @@ const ProjectEntry: React.FC<ProjectEntryProps> = ({
             {!isEditing && (
                 <div className="space-y-2 border-t border-gray-200 pt-3">
                     {project.description && (
-                        <p className="text-xs text-gray-600 leading-relaxed">{project.description}</p>
+                        <p className="text-xs text-gray-600 leading-relaxed">{stripRichText(project.description)}</p>
                     )}
 
                     {(project.achievements || []).length > 0 && (
@@ -766,7 +767,7 @@ const ProjectEntry: React.FC<ProjectEntryProps> = ({
                                 {(project.achievements || []).slice(0, 3).map((achievement, index) => (
                                     <li key={index} className="text-xs text-gray-600 flex items-start">
                                         <span className="text-blue-600 mr-1.5 flex-shrink-0">•</span>
-                                        <span className="leading-relaxed">{achievement}</span>
+                                        <span className="leading-relaxed">{stripRichText(achievement)}</span>
                                     </li>
                                 ))}
                                 {(project.achievements || []).length > 3 && (
@@ -861,7 +862,6 @@ export const ProjectsEditor: React.FC<ProjectsEditorProps> = ({
     className = "",
 }) => {
     const { resume, dispatch } = useResumeContext();
-    const { updateResume } = useResumeBackend();
     const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
 
     // Find the projects section
@@ -917,18 +917,6 @@ export const ProjectsEditor: React.FC<ProjectsEditorProps> = ({
         };
     }, []);
 
-    /**
-     * Helper to save projects to backend
-     */
-    const saveToBackend = (updatedProjects: Project[]) => {
-        const contentToSave = mapResumeToContent(resume);
-        contentToSave.projects = updatedProjects;
-
-        updateResume({
-            content: contentToSave as any
-        });
-    };
-
     /**
      * Add new project entry
      */
@@ -947,7 +935,6 @@ export const ProjectsEditor: React.FC<ProjectsEditorProps> = ({
 
         const updatedProjects = [...projects, newProject];
         debouncedUpdate(updatedProjects);
-        saveToBackend(updatedProjects);
         setEditingProjectId(newProject.id);
     };
 
@@ -959,7 +946,6 @@ export const ProjectsEditor: React.FC<ProjectsEditorProps> = ({
             proj.id === id ? { ...proj, ...updates } : proj
         );
         debouncedUpdate(updatedProjects);
-        saveToBackend(updatedProjects);
     };
 
     /**
@@ -968,7 +954,6 @@ export const ProjectsEditor: React.FC<ProjectsEditorProps> = ({
     const deleteProject = (id: string) => {
         const updatedProjects = projects.filter((proj) => proj.id !== id);
         debouncedUpdate(updatedProjects);
-        saveToBackend(updatedProjects);
         if (editingProjectId === id) {
             setEditingProjectId(null);
         }
@@ -987,7 +972,6 @@ export const ProjectsEditor: React.FC<ProjectsEditorProps> = ({
             };
             const updatedProjects = [...projects, duplicatedProject];
             debouncedUpdate(updatedProjects);
-            saveToBackend(updatedProjects);
             setEditingProjectId(duplicatedProject.id);
         }
     };
@@ -996,9 +980,6 @@ export const ProjectsEditor: React.FC<ProjectsEditorProps> = ({
      * Toggle edit mode for project
      */
     const toggleEditProject = (id: string) => {
-        if (editingProjectId === id) {
-            saveToBackend(projects);
-        }
         setEditingProjectId(editingProjectId === id ? null : id);
     };
 
@@ -1012,7 +993,6 @@ export const ProjectsEditor: React.FC<ProjectsEditorProps> = ({
             [updatedProjects[currentIndex - 1], updatedProjects[currentIndex]] =
                 [updatedProjects[currentIndex], updatedProjects[currentIndex - 1]];
             debouncedUpdate(updatedProjects);
-            saveToBackend(updatedProjects);
         }
     };
 
@@ -1026,7 +1006,6 @@ export const ProjectsEditor: React.FC<ProjectsEditorProps> = ({
             [updatedProjects[currentIndex], updatedProjects[currentIndex + 1]] =
                 [updatedProjects[currentIndex + 1], updatedProjects[currentIndex]];
             debouncedUpdate(updatedProjects);
-            saveToBackend(updatedProjects);
         }
     };
 
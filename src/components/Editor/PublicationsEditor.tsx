@@ -0,0 +1,315 @@
+import React, { useState, useRef, useEffect } from "react";
+import { Button, Input, Select, Textarea } from "../UI";
+import { useResumeContext } from "../../contexts/ResumeContext";
+import { CitationStyle, Publication, PublicationType, PublicationsContent } from "../../types/resume.types";
+import { CITATION_STYLES, PUBLICATION_TYPES, citationToText, formatCitation, parseAuthorList } from "../../utils/citations";
+import { BibtexImportResult, importBibtexFromFile, parseBibtex } from "../../utils/bibtexParser";
+
+export interface PublicationsEditorProps {
+    className?: string;
+}
+
+export interface PublicationEntryProps {
+    publication: Publication;
+    citationStyle: CitationStyle;
+    isEditing: boolean;
+    onUpdate: (id: string, updates: Partial<Publication>) => void;
+    onDelete: (id: string) => void;
+    onToggleEdit: (id: string) => void;
+    onMoveUp: (id: string) => void;
+    onMoveDown: (id: string) => void;
+}
+
+// Fields that depend on the publication type
+const VENUE_LABELS: Record<PublicationType, string> = {
+    article: "Journal",
+    conference: "Conference / Proceedings",
+    book: "Series (Optional)",
+    chapter: "Book Title",
+    thesis: "Department (Optional)",
+    report: "Series (Optional)",
+    talk: "Event",
+    other: "Published In",
+};
+
+const PUBLISHER_LABELS: Record<PublicationType, string> = {
+    article: "Publisher (Optional)",
+    conference: "Publisher (Optional)",
+    book: "Publisher",
+    chapter: "Publisher",
+    thesis: "University",
+    report: "Institution",
+    talk: "Organizer (Optional)",
+    other: "Publisher (Optional)",
+};
+
+const PublicationEntry: React.FC<PublicationEntryProps> = ({
+    publication,
+    citationStyle,
+    isEditing,
+    onUpdate,
+    onDelete,
+    onToggleEdit,
+    onMoveUp,
+    onMoveDown,
+}) => {
+    // Local state for immediate UI updates
+    const [localPublication, setLocalPublication] = useState(publication);
+    const [authorsText, setAuthorsText] = useState(publication.authors.join("; "));
+    const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    useEffect(() => {
+        setLocalPublication(publication);
+        setAuthorsText(publication.authors.join("; "));
+    }, [publication.id]);
+
+    // Cleanup on unmount
+    useEffect(() => {
+        return () => {
+            if (debounceTimerRef.current) {
+                clearTimeout(debounceTimerRef.current);
+            }
+        };
+    }, []);
+
+    const handleFieldUpdate = (updates: Partial<Publication>) => {
+        setLocalPublication({ ...localPublication, ...updates });
+
+        if (debounceTimerRef.current) {
+            clearTimeout(debounceTimerRef.current);
+        }
+        debounceTimerRef.current = setTimeout(() => {
+            onUpdate(publication.id, updates);
+        }, 300);
+    };
+
+    const handleAuthorsChange = (value: string) => {
+        setAuthorsText(value);
+        handleFieldUpdate({ authors: parseAuthorList(value) });
+    };
+
+    const type = localPublication.type;
+
+    return (
+        <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+            <div className="flex items-start justify-between gap-3">
+                <div className="flex-1 min-w-0">
+                    <h4 className="text-xs font-bold text-gray-800 truncate">
+                        {publication.title || "New Publication"}
+                    </h4>
+                    {!isEditing && publication.title && (
+                        <p className="text-xs text-gray-500 mt-1" dir="auto">
+                            {citationToText(formatCitation(publication, citationStyle))}
+                        </p>
+                    )}
+                </div>
+
+                <div className="flex items-center gap-1 flex-shrink-0">
+                    <button type="button" onClick={() => onMoveUp(publication.id)} className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded" title="Move up">
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                        </svg>
+                    </button>
+                    <button type="button" onClick={() => onMoveDown(publication.id)} className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded" title="Move down">
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                        </svg>
+                    </button>
+                    <button type="button" onClick={() => onToggleEdit(publication.id)} className="px-2 py-1.5 text-xs font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded">
+                        {isEditing ? "Save" : "Edit"}
+                    </button>
+                    <button type="button" onClick={() => onDelete(publication.id)} className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-50 rounded" title="Delete entry">
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                    </button>
+                </div>
+            </div>
+
+            {isEditing && (
+                <div className="space-y-3 border-t border-gray-200 pt-3">
+                    <Select
+                        label="Type"
+                        options={PUBLICATION_TYPES}
+                        value={type}
+                        onChange={(value) => handleFieldUpdate({ type: value as PublicationType })}
+                        className="text-sm"
+                    />
+                    <Input label="Title" value={localPublication.title} onChange={(e) => handleFieldUpdate({ title: e.target.value })} required className="text-sm" />
+                    <Input
+                        label="Authors"
+                        value={authorsText}
+                        onChange={(e) => handleAuthorsChange(e.target.value)}
+                        placeholder="e.g., Ada Lovelace; Babbage, Charles"
+                        helperText="Separate authors with semicolons"
+                        className="text-sm"
+                    />
+                    <Input label={VENUE_LABELS[type]} value={localPublication.venue || ""} onChange={(e) => handleFieldUpdate({ venue: e.target.value })} className="text-sm" />
+                    <div className="grid grid-cols-2 gap-2">
+                        <Input label="Date" value={localPublication.date} onChange={(e) => handleFieldUpdate({ date: e.target.value })} placeholder="YYYY or YYYY-MM" className="text-sm" />
+                        <Input label="Pages (Optional)" value={localPublication.pages || ""} onChange={(e) => handleFieldUpdate({ pages: e.target.value })} placeholder="e.g., 12-24" className="text-sm" />
+                    </div>
+                    {type === "article" && (
+                        <div className="grid grid-cols-2 gap-2">
+                            <Input label="Volume" value={localPublication.volume || ""} onChange={(e) => handleFieldUpdate({ volume: e.target.value })} className="text-sm" />
+                            <Input label="Issue" value={localPublication.issue || ""} onChange={(e) => handleFieldUpdate({ issue: e.target.value })} className="text-sm" />
+                        </div>
+                    )}
+                    <Input label={PUBLISHER_LABELS[type]} value={localPublication.publisher || ""} onChange={(e) => handleFieldUpdate({ publisher: e.target.value })} className="text-sm" />
+                    <div className="grid grid-cols-2 gap-2">
+                        <Input label="DOI (Optional)" value={localPublication.doi || ""} onChange={(e) => handleFieldUpdate({ doi: e.target.value })} placeholder="10.1000/xyz123" className="text-sm" />
+                        <Input label="URL (Optional)" value={localPublication.url || ""} onChange={(e) => handleFieldUpdate({ url: e.target.value })} placeholder="https://..." type="url" className="text-sm" />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const PublicationsEditor: React.FC<PublicationsEditorProps> = ({ className = "" }) => {
+    const { resume, dispatch } = useResumeContext();
+    const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
+    const [showImport, setShowImport] = useState(false);
+    const [bibtex, setBibtex] = useState("");
+    const [importResult, setImportResult] = useState<BibtexImportResult | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const publicationsSection = (resume.sections || []).find((section) => section.type === "publications");
+    const content = publicationsSection?.content as PublicationsContent | undefined;
+    const publications = content?.publications || [];
+    const citationStyle = content?.citationStyle || "apa";
+
+    const generateId = (): string => Math.random().toString(36).substr(2, 9);
+
+    if (!publicationsSection) return null;
+
+    const sectionId = publicationsSection.id;
+
+    const addPublication = () => {
+        const publication: Publication = { id: generateId(), type: "article", title: "", authors: [], date: "" };
+        dispatch({ type: "ADD_PUBLICATION", payload: { sectionId, publication } });
+        setEditingEntryId(publication.id);
+    };
+
+    const updatePublication = (publicationId: string, updates: Partial<Publication>) => {
+        dispatch({ type: "UPDATE_PUBLICATION", payload: { sectionId, publicationId, updates } });
+    };
+
+    const deletePublication = (publicationId: string) => {
+        dispatch({ type: "DELETE_PUBLICATION", payload: { sectionId, publicationId } });
+        if (editingEntryId === publicationId) setEditingEntryId(null);
+    };
+
+    const movePublication = (publicationId: string, offset: number) => {
+        const ids = publications.map((publication) => publication.id);
+        const from = ids.indexOf(publicationId);
+        const to = from + offset;
+        if (from < 0 || to < 0 || to >= ids.length) return;
+        [ids[from], ids[to]] = [ids[to], ids[from]];
+        dispatch({ type: "REORDER_PUBLICATIONS", payload: { sectionId, publicationIds: ids } });
+    };
+
+    const applyImport = (result: BibtexImportResult) => {
+        setImportResult(result);
+        if (result.publications.length > 0) {
+            dispatch({ type: "IMPORT_PUBLICATIONS", payload: { sectionId, publications: result.publications } });
+            setBibtex("");
+        }
+    };
+
+    const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        applyImport(await importBibtexFromFile(file));
+        e.target.value = "";
+    };
+
+    return (
+        <div className={className}>
+            <div className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-gray-500">
+                        {publications.length} {publications.length === 1 ? "entry" : "entries"}
+                    </p>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setShowImport(!showImport)}
+                            className="px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-md transition-colors"
+                        >
+                            Import BibTeX
+                        </button>
+                        <button
+                            onClick={addPublication}
+                            className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-gray-700 hover:bg-gray-800 rounded-md transition-colors"
+                        >
+                            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                            </svg>
+                            Add Publication
+                        </button>
+                    </div>
+                </div>
+
+                <Select
+                    label="Citation Style"
+                    options={CITATION_STYLES}
+                    value={citationStyle}
+                    onChange={(value) => dispatch({ type: "SET_CITATION_STYLE", payload: { sectionId, citationStyle: value as CitationStyle } })}
+                    className="text-sm"
+                />
+
+                {showImport && (
+                    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-2">
+                        <Textarea
+                            label="Paste BibTeX"
+                            value={bibtex}
+                            onChange={(e) => setBibtex(e.target.value)}
+                            placeholder={"@article{key,\n  author = {Lovelace, Ada},\n  title = {...},\n  year = {1843}\n}"}
+                            rows={6}
+                            className="text-xs font-mono"
+                        />
+                        <div className="flex items-center justify-between gap-2">
+                            <button type="button" onClick={() => fileInputRef.current?.click()} className="text-xs text-blue-600 hover:underline">
+                                Choose a .bib file
+                            </button>
+                            <input ref={fileInputRef} type="file" accept=".bib,.bibtex,.txt" onChange={handleFileSelect} className="hidden" />
+                            <Button size="sm" onClick={() => applyImport(parseBibtex(bibtex))} disabled={!bibtex.trim()}>
+                                Import
+                            </Button>
+                        </div>
+                        {importResult && (
+                            <p className={`text-xs ${importResult.error || importResult.publications.length === 0 ? "text-red-600" : "text-green-700"}`}>
+                                {importResult.error ||
+                                    `Imported ${importResult.publications.length} ${importResult.publications.length === 1 ? "publication" : "publications"}`}
+                                {importResult.skipped.length > 0 && ` · Skipped: ${importResult.skipped.join(", ")}`}
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                {publications.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500 border-2 border-dashed border-gray-200 rounded-lg">
+                        <h4 className="text-sm font-medium text-gray-900 mb-1">No publications added</h4>
+                        <p className="text-xs text-gray-500">
+                            Add papers, books and talks, or import them from BibTeX.
+                        </p>
+                    </div>
+                ) : (
+                    publications.map((publication) => (
+                        <PublicationEntry
+                            key={publication.id}
+                            publication={publication}
+                            citationStyle={citationStyle}
+                            isEditing={editingEntryId === publication.id}
+                            onUpdate={updatePublication}
+                            onDelete={deletePublication}
+                            onToggleEdit={(id) => setEditingEntryId(editingEntryId === id ? null : id)}
+                            onMoveUp={(id) => movePublication(id, -1)}
+                            onMoveDown={(id) => movePublication(id, 1)}
+                        />
+                    ))
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,202 @@
+import React, { useState, useRef, useEffect } from "react";
+import { Input } from "../UI";
+import { useResumeContext } from "../../contexts/ResumeContext";
+import { Reference, ReferencesContent } from "../../types/resume.types";
+
+export interface ReferencesEditorProps {
+    className?: string;
+}
+
+export interface ReferenceEntryProps {
+    reference: Reference;
+    isEditing: boolean;
+    onUpdate: (id: string, updates: Partial<Reference>) => void;
+    onDelete: (id: string) => void;
+    onToggleEdit: (id: string) => void;
+    onMoveUp: (id: string) => void;
+    onMoveDown: (id: string) => void;
+}
+
+const ReferenceEntry: React.FC<ReferenceEntryProps> = ({
+    reference,
+    isEditing,
+    onUpdate,
+    onDelete,
+    onToggleEdit,
+    onMoveUp,
+    onMoveDown,
+}) => {
+    // Local state for immediate UI updates
+    const [localReference, setLocalReference] = useState(reference);
+    const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    useEffect(() => {
+        setLocalReference(reference);
+    }, [reference.id]);
+
+    // Cleanup on unmount
+    useEffect(() => {
+        return () => {
+            if (debounceTimerRef.current) {
+                clearTimeout(debounceTimerRef.current);
+            }
+        };
+    }, []);
+
+    const handleFieldUpdate = (field: keyof Reference, value: string) => {
+        setLocalReference({ ...localReference, [field]: value });
+
+        if (debounceTimerRef.current) {
+            clearTimeout(debounceTimerRef.current);
+        }
+        debounceTimerRef.current = setTimeout(() => {
+            onUpdate(reference.id, { [field]: value });
+        }, 300);
+    };
+
+    return (
+        <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+            <div className="flex items-start justify-between gap-3">
+                <div className="flex-1 min-w-0">
+                    <h4 className="text-xs font-bold text-gray-800 truncate">
+                        {reference.name || "New Reference"}
+                    </h4>
+                    <p className="text-xs text-gray-500 truncate">
+                        {[reference.jobTitle, reference.company].filter(Boolean).join(", ")}
+                    </p>
+                </div>
+
+                <div className="flex items-center gap-1 flex-shrink-0">
+                    <button type="button" onClick={() => onMoveUp(reference.id)} className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded" title="Move up">
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                        </svg>
+                    </button>
+                    <button type="button" onClick={() => onMoveDown(reference.id)} className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded" title="Move down">
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                        </svg>
+                    </button>
+                    <button type="button" onClick={() => onToggleEdit(reference.id)} className="px-2 py-1.5 text-xs font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded">
+                        {isEditing ? "Save" : "Edit"}
+                    </button>
+                    <button type="button" onClick={() => onDelete(reference.id)} className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-50 rounded" title="Delete entry">
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                    </button>
+                </div>
+            </div>
+
+            {isEditing && (
+                <div className="space-y-3 border-t border-gray-200 pt-3">
+                    <Input label="Name" value={localReference.name} onChange={(e) => handleFieldUpdate("name", e.target.value)} required className="text-sm" />
+                    <div className="grid grid-cols-2 gap-2">
+                        <Input label="Job Title" value={localReference.jobTitle} onChange={(e) => handleFieldUpdate("jobTitle", e.target.value)} className="text-sm" />
+                        <Input label="Company" value={localReference.company} onChange={(e) => handleFieldUpdate("company", e.target.value)} className="text-sm" />
+                    </div>
+                    <Input label="Relationship (Optional)" value={localReference.relationship || ""} onChange={(e) => handleFieldUpdate("relationship", e.target.value)} placeholder="e.g., Former manager" className="text-sm" />
+                    <div className="grid grid-cols-2 gap-2">
+                        <Input label="Email (Optional)" value={localReference.email || ""} onChange={(e) => handleFieldUpdate("email", e.target.value)} type="email" dir="ltr" className="text-sm" />
+                        <Input label="Phone (Optional)" value={localReference.phone || ""} onChange={(e) => handleFieldUpdate("phone", e.target.value)} type="tel" dir="ltr" className="text-sm" />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const ReferencesEditor: React.FC<ReferencesEditorProps> = ({ className = "" }) => {
+    const { resume, dispatch } = useResumeContext();
+    const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
+
+    const referencesSection = (resume.sections || []).find((section) => section.type === "references");
+    const content = referencesSection?.content as ReferencesContent | undefined;
+    const references = content?.references || [];
+    const onRequest = !!content?.onRequest;
+
+    const generateId = (): string => Math.random().toString(36).substr(2, 9);
+
+    if (!referencesSection) return null;
+
+    const sectionId = referencesSection.id;
+
+    const addReference = () => {
+        const reference: Reference = { id: generateId(), name: "", jobTitle: "", company: "" };
+        dispatch({ type: "ADD_REFERENCE", payload: { sectionId, reference } });
+        setEditingEntryId(reference.id);
+    };
+
+    const updateReference = (referenceId: string, updates: Partial<Reference>) => {
+        dispatch({ type: "UPDATE_REFERENCE", payload: { sectionId, referenceId, updates } });
+    };
+
+    const deleteReference = (referenceId: string) => {
+        dispatch({ type: "DELETE_REFERENCE", payload: { sectionId, referenceId } });
+        if (editingEntryId === referenceId) setEditingEntryId(null);
+    };
+
+    const moveReference = (referenceId: string, offset: number) => {
+        const ids = references.map((reference) => reference.id);
+        const from = ids.indexOf(referenceId);
+        const to = from + offset;
+        if (from < 0 || to < 0 || to >= ids.length) return;
+        [ids[from], ids[to]] = [ids[to], ids[from]];
+        dispatch({ type: "REORDER_REFERENCES", payload: { sectionId, referenceIds: ids } });
+    };
+
+    return (
+        <div className={className}>
+            <div className="space-y-3">
+                <label className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={onRequest}
+                        onChange={(e) => dispatch({ type: "SET_REFERENCES_ON_REQUEST", payload: { sectionId, onRequest: e.target.checked } })}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="text-xs text-gray-700">Show "Available upon request" instead of contacts</span>
+                </label>
+
+                {!onRequest && (
+                    <>
+                        <div className="flex items-center justify-between">
+                            <p className="text-xs text-gray-500">
+                                {references.length} {references.length === 1 ? "entry" : "entries"}
+                            </p>
+                            <button
+                                onClick={addReference}
+                                className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-gray-700 hover:bg-gray-800 rounded-md transition-colors"
+                            >
+                                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                                </svg>
+                                Add Reference
+                            </button>
+                        </div>
+
+                        {references.length === 0 ? (
+                            <div className="text-center py-8 text-gray-500 border-2 border-dashed border-gray-200 rounded-lg">
+                                <h4 className="text-sm font-medium text-gray-900 mb-1">No references added</h4>
+                                <p className="text-xs text-gray-500">Add people who can vouch for your work.</p>
+                            </div>
+                        ) : (
+                            references.map((reference) => (
+                                <ReferenceEntry
+                                    key={reference.id}
+                                    reference={reference}
+                                    isEditing={editingEntryId === reference.id}
+                                    onUpdate={updateReference}
+                                    onDelete={deleteReference}
+                                    onToggleEdit={(id) => setEditingEntryId(editingEntryId === id ? null : id)}
+                                    onMoveUp={(id) => moveReference(id, -1)}
+                                    onMoveDown={(id) => moveReference(id, 1)}
+                                />
+                            ))
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -9,6 +9,11 @@ import {
     Award, 
     PlusCircle, 
     PenTool,
+    Languages,
+    BookOpen,
+    Trophy,
+    HeartHandshake,
+    Users,
     Layout
 } from 'lucide-react';
 import { SectionType } from '../../types/resume.types';
@@ -34,6 +39,16 @@ export const SectionIcon: React.FC<SectionIconProps> = ({ type, className = "w-5
             return <FolderOpen className={className} />;
         case 'certifications':
             return <Award className={className} />;
+        case 'languages':
+            return <Languages className={className} />;
+        case 'publications':
+            return <BookOpen className={className} />;
+        case 'awards':
+            return <Trophy className={className} />;
+        case 'volunteering':
+            return <HeartHandshake className={className} />;
+        case 'references':
+            return <Users className={className} />;
         case 'additional-info':
             return <PlusCircle className={className} />;
         case 'custom':
@@ -1,9 +1,7 @@
 import React, { useState, useCallback, useRef, useEffect } from "react";
 import { Button, Input } from "../UI";
 import { useResumeContext } from "../../contexts/ResumeContext";
-import { useResumeBackend } from "../../contexts/ResumeBackendContext";
 import { Skill, SkillCategory } from "../../types/resume.types";
-import { frontendResumeToBackendContent as mapResumeToContent } from "../../utils/resumeConverter";
 import {
     validateSkillCategory,
     hasValidationErrors,
@@ -246,6 +244,7 @@ const SkillTagInput: React.FC<SkillTagInputProps> = ({
                     <input
                         type="text"
                         value={inputValue}
+                        dir="auto"
                         onChange={(e) => handleInputChange(e.target.value)}
                         onKeyDown={handleKeyDown}
                         onFocus={() => {
@@ -610,7 +609,6 @@ export const SkillsEditor: React.FC<SkillsEditorProps> = ({
 
     // Ref to store the debounce timer
     const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-    const backendSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
     /**
      * Debounced update function
@@ -663,9 +661,6 @@ export const SkillsEditor: React.FC<SkillsEditorProps> = ({
             if (debounceTimerRef.current) {
                 clearTimeout(debounceTimerRef.current);
             }
-            if (backendSaveTimerRef.current) {
-                clearTimeout(backendSaveTimerRef.current);
-            }
         };
     }, []);
 
@@ -683,31 +678,6 @@ export const SkillsEditor: React.FC<SkillsEditorProps> = ({
         debouncedUpdate(updatedCategories);
     };
 
-    const { updateResume } = useResumeBackend();
-
-    /**
-     * Helper to save skills to backend
-     */
-    const saveToBackend = (categories: SkillCategory[]) => {
-        const flatSkills: Skill[] = [];
-        categories.forEach(category => {
-            category.skills.forEach(skill => {
-                const updatedSkill: Skill = {
-                    ...skill,
-                    category: category.categoryName,
-                };
-                flatSkills.push(updatedSkill);
-            });
-        });
-
-        const contentToSave = mapResumeToContent(resume);
-        contentToSave.skills = flatSkills;
-
-        updateResume({
-            content: contentToSave as any
-        });
-    };
-
     /**
      * Add new skill category
      */
@@ -719,7 +689,6 @@ export const SkillsEditor: React.FC<SkillsEditorProps> = ({
 
         const updatedCategories = [...skillCategories, newCategory];
         updateSkillCategories(updatedCategories);
-        saveToBackend(updatedCategories); // Ensure immediate save
         setEditingCategoryIndex(updatedCategories.length - 1);
     };
 
@@ -731,14 +700,6 @@ export const SkillsEditor: React.FC<SkillsEditorProps> = ({
             i === index ? { ...category, ...updates } : category
         );
         updateSkillCategories(updatedCategories);
-
-        // Debounce backend save
-        if (backendSaveTimerRef.current) {
-            clearTimeout(backendSaveTimerRef.current);
-        }
-        backendSaveTimerRef.current = setTimeout(() => {
-            saveToBackend(updatedCategories);
-        }, 1000);
     };
 
     /**
@@ -747,7 +708,6 @@ export const SkillsEditor: React.FC<SkillsEditorProps> = ({
     const deleteCategory = (index: number) => {
         const updatedCategories = skillCategories.filter((_, i) => i !== index);
         updateSkillCategories(updatedCategories);
-        saveToBackend(updatedCategories);
         if (editingCategoryIndex === index) {
             setEditingCategoryIndex(null);
         }
@@ -771,16 +731,11 @@ export const SkillsEditor: React.FC<SkillsEditorProps> = ({
             };
             const updatedCategories = [...skillCategories, duplicatedCategory];
             updateSkillCategories(updatedCategories);
-            saveToBackend(updatedCategories);
             setEditingCategoryIndex(updatedCategories.length - 1);
         }
     };
 
     const toggleEditCategory = (index: number) => {
-        // If we are currently editing this category and toggling it off (saving)
-        if (editingCategoryIndex === index) {
-            saveToBackend(skillCategories);
-        }
         setEditingCategoryIndex(editingCategoryIndex === index ? null : index);
     };
 
@@ -793,7 +748,6 @@ export const SkillsEditor: React.FC<SkillsEditorProps> = ({
             [updatedCategories[index - 1], updatedCategories[index]] =
                 [updatedCategories[index], updatedCategories[index - 1]];
             updateSkillCategories(updatedCategories);
-            saveToBackend(updatedCategories);
         }
     };
 
@@ -806,7 +760,6 @@ export const SkillsEditor: React.FC<SkillsEditorProps> = ({
             [updatedCategories[index], updatedCategories[index + 1]] =
                 [updatedCategories[index + 1], updatedCategories[index]];
             updateSkillCategories(updatedCategories);
-            saveToBackend(updatedCategories);
         }
     };
 
@@ -849,7 +802,6 @@ export const SkillsEditor: React.FC<SkillsEditorProps> = ({
             });
 
             updateSkillCategories(mergedCategories);
-            saveToBackend(mergedCategories);
             setShowTemplates(false);
         }
     };
@@ -2,6 +2,7 @@ import React from 'react';
 import {
     DndContext,
     closestCenter,
+    closestCorners,
     KeyboardSensor,
     MouseSensor,
     TouchSensor,
@@ -10,6 +11,7 @@ import {
     DragEndEvent,
     DragStartEvent,
     DragOverlay,
+    useDroppable,
 } from '@dnd-kit/core';
 import {
     arrayMove,
@@ -17,23 +19,61 @@ import {
     sortableKeyboardCoordinates,
     verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
-import { ResumeSection } from '../../types/resume.types';
+import { ResumeSection, SectionColumn } from '../../types/resume.types';
 import { DraggableSection } from './DraggableSection';
 
+const COLUMN_PREFIX = 'column:';
+
+const COLUMN_LABELS: Record<SectionColumn, string> = {
+    main: 'Main column',
+    sidebar: 'Sidebar',
+};
+
 interface SortableSectionListProps {
     sections: ResumeSection[];
     onReorder: (sectionIds: string[]) => void;
     onToggleSection: (sectionId: string) => void;
     onDeleteSection: (sectionId: string) => void;
     renderSectionContent: (section: ResumeSection) => React.ReactNode;
+    /** Set for two-column layouts: sections are listed per column */
+    columnOf?: (section: ResumeSection) => SectionColumn;
+    /** Move a section into another column, before `beforeId` or at the column's end */
+    onMoveToColumn?: (sectionId: string, column: SectionColumn, beforeId: string | null) => void;
 }
 
+/**
+ * Drop target for a whole column, so sections can be dropped into an empty one
+ */
+const ColumnDropZone: React.FC<{ column: SectionColumn; isEmpty: boolean; children: React.ReactNode }> = ({
+    column,
+    isEmpty,
+    children,
+}) => {
+    const { setNodeRef, isOver } = useDroppable({ id: `${COLUMN_PREFIX}${column}` });
+
+    return (
+        <div>
+            <h4 className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider mb-2 px-1">
+                {COLUMN_LABELS[column]}
+            </h4>
+            <div
+                ref={setNodeRef}
+                className={`space-y-4 rounded-lg transition-colors ${isOver ? 'bg-blue-50' : ''} ${isEmpty ? 'min-h-[56px] border-2 border-dashed border-gray-200 flex items-center justify-center' : ''}`}
+            >
+                {isEmpty ? <span className="text-xs text-gray-400">Drag sections here</span> : children}
+            </div>
+        </div>
+    );
+};
+
 export const SortableSectionList: React.FC<SortableSectionListProps> = ({
     sections,
     onReorder,
     onToggleSection,
     onDeleteSection,
     renderSectionContent,
+    columnOf,
+    onMoveToColumn,
 }) => {
     const [activeId, setActiveId] = React.useState<string | null>(null);
 
@@ -62,7 +102,23 @@ export const SortableSectionList: React.FC<SortableSectionListProps> = ({
     const handleDragEnd = (event: DragEndEvent) => {
         const { active, over } = event;
 
-        if (over && active.id !== over.id) {
+        // Dropped into the other column: move it there instead of reordering
+        if (over && columnOf && onMoveToColumn) {
+            const activeSection = sections.find((s) => s.id === active.id);
+            const overId = over.id as string;
+            const overSection = sections.find((s) => s.id === overId);
+            const targetColumn = overSection
+                ? columnOf(overSection)
+                : (overId.slice(COLUMN_PREFIX.length) as SectionColumn);
+
+            if (activeSection && columnOf(activeSection) !== targetColumn) {
+                onMoveToColumn(activeSection.id, targetColumn, overSection ? overSection.id : null);
+                setActiveId(null);
+                return;
+            }
+        }
+
+        if (over && active.id !== over.id && sections.some((s) => s.id === over.id)) {
             const oldIndex = sections.findIndex((s) => s.id === active.id);
             const newIndex = sections.findIndex((s) => s.id === over.id);
 
@@ -81,31 +137,51 @@ export const SortableSectionList: React.FC<SortableSectionListProps> = ({
     const sortedSections = [...sections].sort((a, b) => a.order - b.order);
     const activeSection = sortedSections.find((s) => s.id === activeId);
 
+    const renderSections = (list: ResumeSection[]) =>
+        list.map((section) => (
+            <DraggableSection
+                key={section.id}
+                section={section}
+                onToggle={() => onToggleSection(section.id)}
+                onDelete={() => onDeleteSection(section.id)}
+            >
+                {renderSectionContent(section)}
+            </DraggableSection>
+        ));
+
     return (
         <DndContext
             sensors={sensors}
-            collisionDetection={closestCenter}
+            collisionDetection={columnOf ? closestCorners : closestCenter}
             onDragStart={handleDragStart}
             onDragEnd={handleDragEnd}
             onDragCancel={handleDragCancel}
         >
-            <SortableContext
-                items={sortedSections.map((s) => s.id)}
-                strategy={verticalListSortingStrategy}
-            >
+            {columnOf ? (
                 <div className="space-y-4">
-                    {sortedSections.map((section) => (
-                        <DraggableSection
-                            key={section.id}
-                            section={section}
-                            onToggle={() => onToggleSection(section.id)}
-                            onDelete={() => onDeleteSection(section.id)}
-                        >
-                            {renderSectionContent(section)}
-                        </DraggableSection>
-                    ))}
+                    {(['main', 'sidebar'] as SectionColumn[]).map((column) => {
+                        const columnSections = sortedSections.filter((s) => columnOf(s) === column);
+                        return (
+                            <SortableContext
+                                key={column}
+                                items={columnSections.map((s) => s.id)}
+                                strategy={verticalListSortingStrategy}
+                            >
+                                <ColumnDropZone column={column} isEmpty={columnSections.length === 0}>
+                                    {renderSections(columnSections)}
+                                </ColumnDropZone>
+                            </SortableContext>
+                        );
+                    })}
                 </div>
-            </SortableContext>
+            ) : (
+                <SortableContext
+                    items={sortedSections.map((s) => s.id)}
+                    strategy={verticalListSortingStrategy}
+                >
+                    <div className="space-y-4">{renderSections(sortedSections)}</div>
+                </SortableContext>
+            )}
 
             {/* Drag Overlay for visual feedback */}
             <DragOverlay>
@@ -0,0 +1,310 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, ChevronDown, ChevronUp, Languages, Plus, Trash2 } from "lucide-react";
+import { useResumeContext } from "../../contexts/ResumeContext";
+import { useDebounce } from "../../hooks/useDebounce";
+import {
+  RESUME_LOCALES,
+  TranslatableField,
+  getLocaleLabel,
+  getResumeLocale,
+  getResumeLocales,
+  getTranslatableFields,
+  getTranslationStatus,
+} from "../../utils/resumeLocale";
+
+/**
+ * Translations Editor Component Props
+ */
+export interface TranslationsEditorProps {
+  className?: string;
+}
+
+interface TranslationFieldProps {
+  field: TranslatableField;
+  locale: string;
+  value: string;
+  outdated: boolean;
+}
+
+/**
+ * One translated field: the original text above an input for its translation
+ */
+const TranslationField: React.FC<TranslationFieldProps> = ({ field, locale, value, outdated }) => {
+  const { dispatch } = useResumeContext();
+  const [localValue, setLocalValue] = useState(value);
+  const debouncedValue = useDebounce(localValue, 300);
+
+  // Sync local state when the stored translation changes (e.g., undo)
+  useEffect(() => {
+    setLocalValue(value);
+  }, [value]);
+
+  useEffect(() => {
+    if (debouncedValue !== value) {
+      dispatch({
+        type: "UPDATE_TRANSLATION",
+        payload: { locale, key: field.key, text: debouncedValue, source: field.source },
+      });
+    }
+    // Only the typed value triggers a save
+  }, [debouncedValue]);
+
+  const inputClasses =
+    "w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-xs font-medium text-gray-600">
+          {field.item ? `${field.item} · ${field.label}` : field.label}
+        </label>
+        {outdated && (
+          <button
+            onClick={() =>
+              dispatch({
+                type: "UPDATE_TRANSLATION",
+                payload: { locale, key: field.key, text: value, source: field.source },
+              })
+            }
+            className="flex items-center gap-1 text-[10px] text-yellow-700 hover:text-yellow-900"
+            title="The original text changed after it was translated. Click to keep this translation."
+          >
+            <AlertTriangle className="w-3 h-3" />
+            Original changed · Keep
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-400 whitespace-pre-line line-clamp-3">{field.source}</p>
+      {field.multiline ? (
+        <textarea
+          value={localValue}
+          onChange={(e) => setLocalValue(e.target.value)}
+          rows={3}
+          lang={locale}
+          dir="auto"
+          placeholder="Untranslated: the original text is used"
+          className={inputClasses}
+        />
+      ) : (
+        <input
+          type="text"
+          value={localValue}
+          onChange={(e) => setLocalValue(e.target.value)}
+          lang={locale}
+          dir="auto"
+          placeholder="Untranslated: the original text is used"
+          className={inputClasses}
+        />
+      )}
+    </div>
+  );
+};
+
+/**
+ * Translations Editor Component
+ *
+ * Sets the language the resume is written in and manages its translations:
+ * - Add and remove language variants
+ * - Translate text fields side by side with the original
+ * - Flags translations whose original text changed since
+ */
+export const TranslationsEditor: React.FC<TranslationsEditorProps> = ({ className = "" }) => {
+  const { resume, dispatch } = useResumeContext();
+  const [isCollapsed, setIsCollapsed] = useState(true);
+  const [editingLocale, setEditingLocale] = useState<string | null>(null);
+
+  const primaryLocale = getResumeLocale(resume);
+  const translationLocales = getResumeLocales(resume).slice(1);
+  const availableLocales = RESUME_LOCALES.filter(
+    (option) => option.code !== primaryLocale && !translationLocales.includes(option.code)
+  );
+  const [newLocale, setNewLocale] = useState("");
+
+  const fields = useMemo(() => getTranslatableFields(resume), [resume]);
+  const editingTranslation = editingLocale ? resume.translations?.[editingLocale] : undefined;
+  const groups = useMemo(
+    () =>
+      fields.reduce<Array<{ name: string; fields: TranslatableField[] }>>((result, field) => {
+        const last = result[result.length - 1];
+        if (last && last.name === field.group) {
+          last.fields.push(field);
+        } else {
+          result.push({ name: field.group, fields: [field] });
+        }
+        return result;
+      }, []),
+    [fields]
+  );
+
+  // Close the translation form when its language is removed
+  useEffect(() => {
+    if (editingLocale && !translationLocales.includes(editingLocale)) {
+      setEditingLocale(null);
+    }
+  }, [editingLocale, translationLocales]);
+
+  const handlePrimaryLocaleChange = (locale: string) => {
+    if (
+      resume.translations?.[locale] &&
+      !window.confirm(
+        `Your ${getLocaleLabel(locale)} translation will be removed, since the resume itself is now in ${getLocaleLabel(locale)}. Continue?`
+      )
+    ) {
+      return;
+    }
+    dispatch({ type: "SET_LOCALE", payload: locale });
+  };
+
+  const handleAddTranslation = () => {
+    const locale = newLocale || availableLocales[0]?.code;
+    if (!locale) return;
+    dispatch({ type: "ADD_TRANSLATION", payload: locale });
+    setEditingLocale(locale);
+    setNewLocale("");
+  };
+
+  const handleRemoveTranslation = (locale: string) => {
+    if (window.confirm(`Remove the ${getLocaleLabel(locale)} translation?`)) {
+      dispatch({ type: "REMOVE_TRANSLATION", payload: locale });
+    }
+  };
+
+  const selectClasses =
+    "px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white";
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 mb-4 ${className}`}>
+      {/* Header */}
+      <div className="flex items-center gap-2 px-4 py-3 bg-gray-50 border-b border-gray-200 rounded-t-lg">
+        <button
+          onClick={() => setIsCollapsed(!isCollapsed)}
+          className="flex-1 text-left text-xs font-bold text-gray-700 uppercase tracking-wider hover:text-blue-600 transition-colors flex items-center gap-2"
+        >
+          <Languages className="w-3.5 h-3.5 text-gray-500" />
+          Language & Translations
+          {translationLocales.length > 0 && (
+            <span className="px-1.5 py-0.5 text-[10px] font-medium bg-blue-50 text-blue-700 rounded normal-case tracking-normal">
+              {translationLocales.length + 1} variants
+            </span>
+          )}
+          {isCollapsed ? (
+            <ChevronDown className="w-3 h-3 text-gray-400" />
+          ) : (
+            <ChevronUp className="w-3 h-3 text-gray-400" />
+          )}
+        </button>
+      </div>
+
+      {!isCollapsed && (
+        <div className="p-4 space-y-4">
+          {/* Resume Language */}
+          <div className="space-y-1">
+            <label className="text-xs font-medium text-gray-600">Written in</label>
+            <select
+              value={primaryLocale}
+              onChange={(e) => handlePrimaryLocaleChange(e.target.value)}
+              className={`${selectClasses} w-full`}
+            >
+              {!RESUME_LOCALES.some((option) => option.code === primaryLocale) && (
+                <option value={primaryLocale}>{primaryLocale}</option>
+              )}
+              {RESUME_LOCALES.map((option) => (
+                <option key={option.code} value={option.code}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500">Sets date formats and standard section titles.</p>
+          </div>
+
+          {/* Translations */}
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-gray-600">Translations</label>
+            {translationLocales.length === 0 && (
+              <p className="text-xs text-gray-500">
+                Add a language to keep a translated version of this resume in sync with the original.
+              </p>
+            )}
+            {translationLocales.map((locale) => {
+              const status = getTranslationStatus(resume, locale);
+              return (
+                <div
+                  key={locale}
+                  className={`flex items-center justify-between gap-2 p-2 rounded border ${
+                    editingLocale === locale ? "border-blue-300 bg-blue-50" : "border-gray-200"
+                  }`}
+                >
+                  <button
+                    onClick={() => setEditingLocale(editingLocale === locale ? null : locale)}
+                    className="flex-1 text-left"
+                  >
+                    <span className="block text-sm font-medium text-gray-800">{getLocaleLabel(locale)}</span>
+                    <span className="block text-xs text-gray-500">
+                      {status.translated}/{status.total} translated
+                      {status.outdated.length > 0 && (
+                        <span className="text-yellow-700"> · {status.outdated.length} outdated</span>
+                      )}
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => handleRemoveTranslation(locale)}
+                    className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                    title="Remove translation"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+            {availableLocales.length > 0 && (
+              <div className="flex gap-2">
+                <select
+                  value={newLocale || availableLocales[0].code}
+                  onChange={(e) => setNewLocale(e.target.value)}
+                  className={`${selectClasses} flex-1`}
+                >
+                  {availableLocales.map((option) => (
+                    <option key={option.code} value={option.code}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleAddTranslation}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm text-blue-600 border border-blue-200 rounded hover:bg-blue-50 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Translation Form */}
+          {editingLocale && (
+            <div className="space-y-4 pt-2 border-t border-gray-100">
+              <h4 className="text-sm font-medium text-gray-900">{getLocaleLabel(editingLocale)} translation</h4>
+              {groups.map((group) => (
+                <div key={group.name} className="space-y-3">
+                  <h5 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">{group.name}</h5>
+                  {group.fields.map((field) => {
+                    const translated = editingTranslation?.[field.key];
+                    return (
+                      <TranslationField
+                        key={`${editingLocale}:${field.key}`}
+                        field={field}
+                        locale={editingLocale}
+                        value={translated?.text || ""}
+                        outdated={!!translated && translated.source !== field.source}
+                      />
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from "react";
+import { ChevronDown, ChevronUp, GitBranch, RotateCcw } from "lucide-react";
+import type { ResumeContent, ResumeResponse } from "../../types/api.types";
+import { diffResumeContent } from "../../utils/resumeDiff";
+
+export interface VariantOverridesPanelProps {
+    /** The base resume the variant inherits from */
+    base: ResumeResponse;
+    /** The variant's content as currently edited */
+    content: ResumeContent;
+    /** Drop an override so the section, or one entry of it, follows the base again */
+    onReset: (key: keyof ResumeContent, itemId?: string) => void;
+}
+
+// The variant's own settings, not overrides of base content
+const OWN_KEYS: Array<keyof ResumeContent> = ["layout", "variant"];
+
+/**
+ * Bar shown while editing a variant: names the base resume and lists the
+ * sections, entries and fields that differ from it. Everything not listed
+ * follows the base when it changes.
+ */
+export const VariantOverridesPanel: React.FC<VariantOverridesPanelProps> = ({ base, content, onReset }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    const sections = useMemo(
+        () => diffResumeContent(base.content, content).sections.filter((section) => !OWN_KEYS.includes(section.key)),
+        [base, content]
+    );
+    const count = sections.reduce((total, section) => total + (section.items && !section.reordered ? section.items.length : 1), 0);
+
+    return (
+        <div className="bg-indigo-50 border-b border-indigo-200 px-4 py-2 print:hidden">
+            <button
+                type="button"
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="w-full flex items-center justify-between gap-2 text-sm text-indigo-900"
+            >
+                <span className="flex items-center gap-2 min-w-0">
+                    <GitBranch className="w-4 h-4 flex-shrink-0" />
+                    <span className="truncate">
+                        Variant of <strong>{base.title}</strong> ·{" "}
+                        {count === 0 ? "no overrides" : `${count} ${count === 1 ? "override" : "overrides"}`}
+                    </span>
+                </span>
+                {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </button>
+
+            {isExpanded && (
+                <div className="mt-2 space-y-2 max-h-64 overflow-y-auto">
+                    <p className="text-xs text-indigo-800">
+                        Changes to "{base.title}" reach this variant everywhere except in the parts listed here.
+                    </p>
+                    {sections.length === 0 && (
+                        <p className="text-xs text-indigo-700 italic">This variant is identical to its base.</p>
+                    )}
+                    {sections.map((section) => (
+                        <div key={section.key} className="bg-white rounded-md border border-indigo-100 p-2">
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-xs font-semibold text-gray-800">
+                                    {section.label}
+                                    {section.reordered && <span className="ml-1 font-normal text-gray-500">(reordered)</span>}
+                                    {!section.items && section.fields && section.fields.length > 0 && (
+                                        <span className="ml-1 font-normal text-gray-500">
+                                            {section.fields.map((field) => field.field).join(", ")}
+                                        </span>
+                                    )}
+                                </span>
+                                <button
+                                    type="button"
+                                    onClick={() => onReset(section.key)}
+                                    className="flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800 flex-shrink-0"
+                                    title="Use the base resume's version of this section"
+                                >
+                                    <RotateCcw className="w-3 h-3" />
+                                    Reset
+                                </button>
+                            </div>
+                            {section.items && section.items.length > 0 && (
+                                <ul className="mt-1 space-y-1">
+                                    {section.items.map((item) => (
+                                        <li key={item.id} className="flex items-center justify-between gap-2 text-xs text-gray-700">
+                                            <span className="min-w-0 truncate">
+                                                {item.label}{" "}
+                                                <span className="text-gray-500">
+                                                    {item.type === "modified"
+                                                        ? `(${item.fields.map((field) => field.field).join(", ")})`
+                                                        : item.type === "added"
+                                                            ? "(only in this variant)"
+                                                            : "(removed here)"}
+                                                </span>
+                                            </span>
+                                            {!section.reordered && (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => onReset(section.key, item.id)}
+                                                    className="text-indigo-600 hover:text-indigo-800 flex-shrink-0"
+                                                    title="Use the base resume's version of this entry"
+                                                >
+                                                    <RotateCcw className="w-3 h-3" />
+                                                </button>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,294 @@
+import React, { useState, useRef, useEffect } from "react";
+import { Input, RichTextarea, Select } from "../UI";
+import { useResumeContext } from "../../contexts/ResumeContext";
+import { VolunteerExperience } from "../../types/resume.types";
+
+export interface VolunteeringEditorProps {
+    className?: string;
+}
+
+export interface VolunteerEntryProps {
+    volunteer: VolunteerExperience;
+    isEditing: boolean;
+    onUpdate: (id: string, updates: Partial<VolunteerExperience>) => void;
+    onDelete: (id: string) => void;
+    onToggleEdit: (id: string) => void;
+    onMoveUp: (id: string) => void;
+    onMoveDown: (id: string) => void;
+}
+
+const MONTH_OPTIONS = [
+    { value: "01", label: "January" },
+    { value: "02", label: "February" },
+    { value: "03", label: "March" },
+    { value: "04", label: "April" },
+    { value: "05", label: "May" },
+    { value: "06", label: "June" },
+    { value: "07", label: "July" },
+    { value: "08", label: "August" },
+    { value: "09", label: "September" },
+    { value: "10", label: "October" },
+    { value: "11", label: "November" },
+    { value: "12", label: "December" },
+];
+
+const generateYearOptions = () => {
+    const currentYear = new Date().getFullYear();
+    const years = [];
+    for (let year = currentYear; year >= 1970; year--) {
+        years.push({ value: year.toString(), label: year.toString() });
+    }
+    return years;
+};
+
+const YEAR_OPTIONS = generateYearOptions();
+
+type DateField = "startDate" | "endDate";
+
+const splitDate = (date?: string) => {
+    const [year, month] = date ? date.split("-") : [undefined, undefined];
+    return { month, year };
+};
+
+const VolunteerEntry: React.FC<VolunteerEntryProps> = ({
+    volunteer,
+    isEditing,
+    onUpdate,
+    onDelete,
+    onToggleEdit,
+    onMoveUp,
+    onMoveDown,
+}) => {
+    // Local state for immediate UI updates
+    const [localVolunteer, setLocalVolunteer] = useState(volunteer);
+    const [achievementsText, setAchievementsText] = useState((volunteer.achievements || []).join("\n"));
+    const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    // Track date selections separately for better UX
+    const [dates, setDates] = useState({ startDate: splitDate(volunteer.startDate), endDate: splitDate(volunteer.endDate) });
+
+    useEffect(() => {
+        setLocalVolunteer(volunteer);
+        setAchievementsText((volunteer.achievements || []).join("\n"));
+        setDates({ startDate: splitDate(volunteer.startDate), endDate: splitDate(volunteer.endDate) });
+    }, [volunteer.id]);
+
+    // Cleanup on unmount
+    useEffect(() => {
+        return () => {
+            if (debounceTimerRef.current) {
+                clearTimeout(debounceTimerRef.current);
+            }
+        };
+    }, []);
+
+    const handleFieldUpdate = (updates: Partial<VolunteerExperience>) => {
+        setLocalVolunteer({ ...localVolunteer, ...updates });
+
+        if (debounceTimerRef.current) {
+            clearTimeout(debounceTimerRef.current);
+        }
+        debounceTimerRef.current = setTimeout(() => {
+            onUpdate(volunteer.id, updates);
+        }, 300);
+    };
+
+    const handleDateUpdate = (field: DateField, month: string | undefined, year: string | undefined) => {
+        setDates({ ...dates, [field]: { month, year } });
+        // Update once both parts are chosen
+        if (month && year) {
+            handleFieldUpdate({ [field]: `${year}-${month}` });
+        }
+    };
+
+    const handleCurrentToggle = (current: boolean) => {
+        handleFieldUpdate(current ? { current, endDate: undefined } : { current });
+    };
+
+    const handleAchievementsChange = (value: string) => {
+        setAchievementsText(value);
+        handleFieldUpdate({ achievements: value.split("\n").map((line) => line.trim()).filter(Boolean) });
+    };
+
+    const formatDate = (date?: string) =>
+        date ? new Date(date + "-01").toLocaleDateString("en-US", { month: "short", year: "numeric" }) : "";
+
+    const renderDateSelects = (field: DateField) => (
+        <div className="grid grid-cols-2 gap-2">
+            <Select label="Month" options={MONTH_OPTIONS} value={dates[field].month} onChange={(value) => handleDateUpdate(field, value, dates[field].year)} placeholder="Month" className="text-sm" />
+            <Select label="Year" options={YEAR_OPTIONS} value={dates[field].year} onChange={(value) => handleDateUpdate(field, dates[field].month, value)} placeholder="Year" className="text-sm" />
+        </div>
+    );
+
+    return (
+        <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+            <div className="flex items-start justify-between gap-3">
+                <div className="flex-1 min-w-0">
+                    <h4 className="text-xs font-bold text-gray-800 truncate">
+                        {volunteer.role || "New Role"}
+                    </h4>
+                    <p className="text-xs text-gray-500 truncate">
+                        {[
+                            volunteer.organization,
+                            volunteer.startDate && `${formatDate(volunteer.startDate)} – ${volunteer.current ? "Present" : formatDate(volunteer.endDate)}`,
+                        ]
+                            .filter(Boolean)
+                            .join(" • ")}
+                    </p>
+                </div>
+
+                <div className="flex items-center gap-1 flex-shrink-0">
+                    <button type="button" onClick={() => onMoveUp(volunteer.id)} className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded" title="Move up">
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                        </svg>
+                    </button>
+                    <button type="button" onClick={() => onMoveDown(volunteer.id)} className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded" title="Move down">
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                        </svg>
+                    </button>
+                    <button type="button" onClick={() => onToggleEdit(volunteer.id)} className="px-2 py-1.5 text-xs font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-100 rounded">
+                        {isEditing ? "Save" : "Edit"}
+                    </button>
+                    <button type="button" onClick={() => onDelete(volunteer.id)} className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-50 rounded" title="Delete entry">
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                    </button>
+                </div>
+            </div>
+
+            {isEditing && (
+                <div className="space-y-3 border-t border-gray-200 pt-3">
+                    <Input label="Role" value={localVolunteer.role} onChange={(e) => handleFieldUpdate({ role: e.target.value })} required placeholder="e.g., Mentor" className="text-sm" />
+                    <Input label="Organization" value={localVolunteer.organization} onChange={(e) => handleFieldUpdate({ organization: e.target.value })} required placeholder="e.g., Code.org" className="text-sm" />
+                    <Input label="Location (Optional)" value={localVolunteer.location} onChange={(e) => handleFieldUpdate({ location: e.target.value })} placeholder="e.g., Berlin, Germany" className="text-sm" />
+
+                    <div className="space-y-2">
+                        <h5 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest border-b border-gray-100 pb-1">Start Date</h5>
+                        {renderDateSelects("startDate")}
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between border-b border-gray-100 pb-1">
+                            <h5 className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">End Date</h5>
+                            <label className="flex items-center gap-2">
+                                <input type="checkbox" checked={localVolunteer.current} onChange={(e) => handleCurrentToggle(e.target.checked)} className="rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                                <span className="text-xs text-gray-700">I currently volunteer here</span>
+                            </label>
+                        </div>
+                        {!localVolunteer.current && renderDateSelects("endDate")}
+                    </div>
+
+                    <RichTextarea
+                        label="Description"
+                        value={localVolunteer.description}
+                        onChange={(value) => handleFieldUpdate({ description: value })}
+                        allowBullets
+                        placeholder="What you did and for whom"
+                        rows={3}
+                        autoResize
+                        className="text-sm"
+                    />
+                    <RichTextarea
+                        label="Achievements (Optional)"
+                        value={achievementsText}
+                        onChange={handleAchievementsChange}
+                        placeholder="One per line"
+                        rows={3}
+                        autoResize
+                        className="text-sm"
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const VolunteeringEditor: React.FC<VolunteeringEditorProps> = ({ className = "" }) => {
+    const { resume, dispatch } = useResumeContext();
+    const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
+
+    const volunteeringSection = (resume.sections || []).find((section) => section.type === "volunteering");
+    const volunteering = volunteeringSection?.content
+        ? (volunteeringSection.content as { volunteering: VolunteerExperience[] }).volunteering || []
+        : [];
+
+    const generateId = (): string => Math.random().toString(36).substr(2, 9);
+
+    const addVolunteer = () => {
+        const volunteer: VolunteerExperience = {
+            id: generateId(),
+            role: "",
+            organization: "",
+            location: "",
+            startDate: "",
+            current: false,
+            description: "",
+        };
+        dispatch({ type: "ADD_VOLUNTEER", payload: { volunteer } });
+        setEditingEntryId(volunteer.id);
+    };
+
+    const updateVolunteer = (volunteerId: string, updates: Partial<VolunteerExperience>) => {
+        dispatch({ type: "UPDATE_VOLUNTEER", payload: { volunteerId, updates } });
+    };
+
+    const deleteVolunteer = (volunteerId: string) => {
+        dispatch({ type: "DELETE_VOLUNTEER", payload: { volunteerId } });
+        if (editingEntryId === volunteerId) setEditingEntryId(null);
+    };
+
+    const moveVolunteer = (volunteerId: string, offset: number) => {
+        const ids = volunteering.map((volunteer) => volunteer.id);
+        const from = ids.indexOf(volunteerId);
+        const to = from + offset;
+        if (from < 0 || to < 0 || to >= ids.length) return;
+        [ids[from], ids[to]] = [ids[to], ids[from]];
+        dispatch({ type: "REORDER_VOLUNTEERING", payload: { volunteerIds: ids } });
+    };
+
+    if (!volunteeringSection) return null;
+
+    return (
+        <div className={className}>
+            <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                    <p className="text-xs text-gray-500">
+                        {volunteering.length} {volunteering.length === 1 ? "entry" : "entries"}
+                    </p>
+                    <button
+                        onClick={addVolunteer}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-gray-700 hover:bg-gray-800 rounded-md transition-colors"
+                    >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                        </svg>
+                        Add Role
+                    </button>
+                </div>
+
+                {volunteering.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500 border-2 border-dashed border-gray-200 rounded-lg">
+                        <h4 className="text-sm font-medium text-gray-900 mb-1">No volunteering added</h4>
+                        <p className="text-xs text-gray-500">Add community work, mentoring and pro bono roles.</p>
+                    </div>
+                ) : (
+                    volunteering.map((volunteer) => (
+                        <VolunteerEntry
+                            key={volunteer.id}
+                            volunteer={volunteer}
+                            isEditing={editingEntryId === volunteer.id}
+                            onUpdate={updateVolunteer}
+                            onDelete={deleteVolunteer}
+                            onToggleEdit={(id) => setEditingEntryId(editingEntryId === id ? null : id)}
+                            onMoveUp={(id) => moveVolunteer(id, -1)}
+                            onMoveDown={(id) => moveVolunteer(id, 1)}
+                        />
+                    ))
+                )}
+            </div>
+        </div>
+    );
+};
@@ -5,13 +5,20 @@ export { ATSScorePanel } from './ATSScorePanel';
 export { EditorSidebar } from './EditorSidebar';
 export { SectionManager } from './SectionManager';
 export { KeywordOptimizer } from './KeywordOptimizer';
+export { HistoryPanel } from './HistoryPanel';
 
 // Re-export existing editors
 export { PersonalInfoEditor } from './PersonalInfoEditor';
+export { TranslationsEditor } from './TranslationsEditor';
 export { SummaryEditor } from './SummaryEditor';
 export { ExperienceEditor } from './ExperienceEditor';
 export { ProjectsEditor } from './ProjectsEditor';
 export { SkillsEditor } from './SkillsEditor';
 export { EducationEditor } from './EducationEditor';
 export { CertificationsEditor } from './CertificationsEditor';
+export { LanguagesEditor } from './LanguagesEditor';
+export { PublicationsEditor } from './PublicationsEditor';
+export { AwardsEditor } from './AwardsEditor';
+export { VolunteeringEditor } from './VolunteeringEditor';
+export { ReferencesEditor } from './ReferencesEditor';
 export { CustomSectionEditor } from './CustomSectionEditor';
@@ -6,7 +6,8 @@ import { Modal } from "../UI/Modal";
 import { ATSScorePanel } from "../Editor/ATSScorePanel";
 
 const Footer: React.FC = () => {
-  const { atsValidation } = useResume();
+  const { resume, dispatch, atsValidation, atsSettings, updateATSSettings, undo } =
+    useResume();
   const [showATSModal, setShowATSModal] = useState(false);
 
   // Mock auto-save result for status indicator
@@ -58,7 +59,16 @@ const Footer: React.FC = () => {
         title="ATS Compliance Report"
         size="lg"
       >
-        <ATSScorePanel validation={atsValidation} />
+        <ATSScorePanel
+          validation={atsValidation}
+          settings={atsSettings}
+          onSettingsChange={updateATSSettings}
+          resume={resume}
+          onApplyFixes={(fixed) =>
+            dispatch({ type: "FIX_ATS_ISSUES", payload: fixed })
+          }
+          onUndo={undo}
+        />
       </Modal>
 
       <footer className="sticky bottom-0 z-20 bg-white/95 backdrop-blur-sm border-t border-gray-200 shadow-lg">
@@ -139,7 +149,7 @@ const Footer: React.FC = () => {
             <div className="flex items-center space-x-4">
               {/* Save Status Indicator */}
               <div className="hidden sm:block">
-                <SaveStatusIndicator isSaving={false} />
+                <SaveStatusIndicator status="saved" />
               </div>
 
               {/* Last Updated */}
@@ -4,6 +4,9 @@ import { TemplateType } from "../../types/resume.types";
 import { Download, Save, Loader2, Undo, Redo } from "lucide-react";
 import { TemplateSelector } from "../UI";
 import { TemplateImportExport } from "./TemplateImportExport";
+import { isCustomTemplate } from "../../utils/templateRegistry";
+import { getTemplatePreset } from "../../utils/templateStyler";
+import { getPageRule, resolvePageSize } from "../../utils/pageSize";
 import { usePDFExportContext } from "../../contexts/PDFExportContext";
 import { useReactToPrint } from "react-to-print";
 
@@ -19,6 +22,10 @@ const Header: React.FC = () => {
 
   const handleTemplateChange = (template: TemplateType) => {
     dispatch({ type: "SET_TEMPLATE", payload: template });
+    // Custom templates carry their own fonts, colours and spacing
+    if (isCustomTemplate(template)) {
+      dispatch({ type: "UPDATE_LAYOUT", payload: getTemplatePreset(template) });
+    }
   };
 
   const handleSave = () => {
@@ -51,11 +58,11 @@ const Header: React.FC = () => {
       alert("Failed to export PDF. Please try again.");
     },
     pageStyle: `
-      @page {
-        size: letter;
-        /* Use dynamic margins from layout settings */
-        margin: ${resume.layout.pageMargins.top}in ${resume.layout.pageMargins.right}in ${resume.layout.pageMargins.bottom}in ${resume.layout.pageMargins.left}in;
-      }
+      /* Paper size and margins from layout settings */
+      ${getPageRule(
+        resolvePageSize(resume.layout),
+        `${resume.layout.pageMargins.top}in ${resume.layout.pageMargins.right}in ${resume.layout.pageMargins.bottom}in ${resume.layout.pageMargins.left}in`
+      )}
       
       @media print {
         html, body {
@@ -129,6 +136,7 @@ const Header: React.FC = () => {
             <TemplateSelector
               currentTemplate={resume.template}
               onTemplateChange={handleTemplateChange}
+              pageSize={resolvePageSize(resume.layout)}
             />
           </div>
 
@@ -1,64 +1,23 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useResumeContext } from '../../contexts/ResumeContext';
-import { useResumeBackend } from '../../contexts/ResumeBackendContext';
-import { Ruler, Space, RotateCcw, Link2, Unlink, Type, Palette, ChevronDown, ChevronRight, Database } from 'lucide-react';
+import { Ruler, Space, RotateCcw, Link2, Unlink, Type, Palette, ChevronDown, ChevronRight, Database, Columns2, Minimize2, Loader2 } from 'lucide-react';
 import { TemplateCustomization } from './TemplateCustomization';
 import { DataManagement } from './DataManagement';
-import { Resume, LayoutSettings } from '../../types/resume.types';
+import { ColumnSettings, DirectionSetting, PageSize } from '../../types/resume.types';
+import { useTemplateDefinition } from '../../utils/templateRegistry';
+import { MAX_SIDEBAR_WIDTH, MIN_SIDEBAR_WIDTH, resolveColumnLayout } from '../../utils/columnLayout';
+import { PAGE_SIZES, resolvePageSize } from '../../utils/pageSize';
+import { getResumeDirection } from '../../utils/textDirection';
+import { FitResult, fitLayoutToPages, getFitUpdate } from '../../utils/fitToPages';
+import { paginateResume } from '../../hooks/useResumePagination';
 
 type Unit = 'inches' | 'mm';
 
-// Helper to convert frontend Resume state to backend ResumeContent
-const mapResumeToContent = (resume: Resume, updatedLayout?: LayoutSettings): any => {
-    const content: any = {
-        personalInfo: resume.personalInfo,
-        sectionOrder: resume.sections.map(s => ({
-            id: s.id,
-            type: s.type,
-            title: s.title,
-            enabled: s.enabled,
-            order: s.order
-        })),
-        layout: updatedLayout || resume.layout
-    };
-
-    resume.sections.forEach(section => {
-        const sectionContent = section.content as any;
-        switch (section.type) {
-            case 'summary':
-                content.summary = sectionContent.summary;
-                break;
-            case 'experience':
-                content.experience = sectionContent.experiences;
-                break;
-            case 'education':
-                content.education = sectionContent.education;
-                break;
-            case 'skills':
-                content.skills = sectionContent.skills;
-                break;
-            case 'projects':
-                content.projects = sectionContent.projects;
-                break;
-            case 'certifications':
-                content.certifications = sectionContent.certifications;
-                break;
-            case 'additional-info':
-                content.additionalInfo = sectionContent.additionalInfo;
-                break;
-            case 'custom':
-                if (!content.customSections) content.customSections = [];
-                content.customSections.push({
-                    id: sectionContent.custom.id,
-                    title: sectionContent.custom.title,
-                    content: sectionContent.custom.content,
-                    order: section.order
-                });
-                break;
-        }
-    });
-    return content;
-};
+const DIRECTION_OPTIONS: { value: DirectionSetting; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'ltr', label: 'Left to right' },
+  { value: 'rtl', label: 'Right to left' },
+];
 
 const MARGIN_PRESETS = {
   narrow: { top: 0.5, right: 0.5, bottom: 0.5, left: 0.5 },
@@ -118,16 +77,18 @@ const COLOR_PRESETS = {
 
 export const LayoutControls: React.FC = () => {
   const { resume, dispatch } = useResumeContext();
-  const { currentResume, updateResume } = useResumeBackend();
+  // Latest layout, for async work that finishes after the user changed it
+  const layoutRef = useRef(resume.layout);
+  useEffect(() => {
+    layoutRef.current = resume.layout;
+  }, [resume.layout]);
   const [unit, setUnit] = useState<Unit>('inches');
   const [linkedMargins, setLinkedMargins] = useState(true);
   const [expandedSections, setExpandedSections] = useState<Set<string>>(
     new Set(['margins', 'typography', 'data'])
   );
-  
-  // Autosave status state
-  const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
-  const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [fittingTo, setFittingTo] = useState<number | null>(null);
+  const [fitResult, setFitResult] = useState<FitResult | { status: 'error'; message: string } | null>(null);
 
   const toggleSection = (sectionId: string) => {
     setExpandedSections((prev) => {
@@ -144,70 +105,10 @@ export const LayoutControls: React.FC = () => {
   const isSectionExpanded = (sectionId: string) => expandedSections.has(sectionId);
 
   const { pageMargins, sectionSpacing, lineHeight, fontSize, fontFamily, colors } = resume.layout;
-
-  /**
-   * Save to backend helper
-   */
-  const saveToBackend = async (updatedLayout?: LayoutSettings) => {
-    if (!currentResume) return;
-
-    try {
-      setSaveStatus("saving");
-      const content = mapResumeToContent(resume, updatedLayout);
-      await updateResume({ content });
-      setSaveStatus("saved");
-      
-      // Reset to idle after delay
-      setTimeout(() => setSaveStatus("idle"), 2000);
-    } catch (err) {
-      console.error("Autosave failed:", err);
-      setSaveStatus("error");
-    }
-  };
-
-  /**
-   * Debounced save function
-   */
-  const debouncedSave = useCallback(
-    (updatedLayout?: LayoutSettings) => {
-      if (debounceTimerRef.current) {
-        clearTimeout(debounceTimerRef.current);
-      }
-      
-      setSaveStatus("saving");
-      
-      debounceTimerRef.current = setTimeout(() => {
-        saveToBackend(updatedLayout);
-      }, 1000);
-    },
-    [currentResume, resume, updateResume]
-  );
-
-  // Watch for layout changes to trigger autosave
-  // This handles all layout updates including those from presets or child components
-  const lastLayoutRef = useRef(resume.layout);
-  useEffect(() => {
-    if (JSON.stringify(lastLayoutRef.current) !== JSON.stringify(resume.layout)) {
-      // Check if the new layout matches the backend (avoid auto-save on initial sync)
-      const isSyncedWithBackend = currentResume?.content?.layout && 
-          JSON.stringify(resume.layout) === JSON.stringify(currentResume.content.layout);
-
-      if (!isSyncedWithBackend) {
-          debouncedSave(resume.layout);
-      }
-      
-      lastLayoutRef.current = resume.layout;
-    }
-  }, [resume.layout, debouncedSave, currentResume]);
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (debounceTimerRef.current) {
-        clearTimeout(debounceTimerRef.current);
-      }
-    };
-  }, []);
+  const definition = useTemplateDefinition(resume.template);
+  const columns = resolveColumnLayout(resume.layout, definition);
+  const pageSize = resolvePageSize(resume.layout);
+  const directionSetting = resume.layout.direction || 'auto';
 
   // Convert inches to mm and vice versa
   const convertToDisplay = (inches: number): number => {
@@ -260,6 +161,55 @@ export const LayoutControls: React.FC = () => {
     });
   };
 
+  const handleColumnsChange = (updates: Partial<ColumnSettings>) => {
+    dispatch({
+      type: 'UPDATE_COLUMNS',
+      payload: updates,
+    });
+  };
+
+  const handlePageSizeChange = (size: PageSize) => {
+    dispatch({
+      type: 'UPDATE_PAGE_SIZE',
+      payload: size,
+    });
+  };
+
+  const handleDirectionChange = (direction: DirectionSetting) => {
+    dispatch({
+      type: 'UPDATE_DIRECTION',
+      payload: direction,
+    });
+  };
+
+  const handleFitToPages = async (targetPages: number) => {
+    setFittingTo(targetPages);
+    setFitResult(null);
+    const before = resume.layout;
+    try {
+      const result = await fitLayoutToPages(before, targetPages, async (layout) => {
+        const { report } = await paginateResume({ ...resume, layout });
+        return report.pageCount;
+      });
+      if (result.status === 'compacted') {
+        // Keep layout changes made while the fit was measured
+        dispatch({
+          type: 'UPDATE_LAYOUT',
+          payload: getFitUpdate(layoutRef.current, before, result.layout),
+        });
+      }
+      setFitResult(result);
+    } catch (err) {
+      console.error('Failed to fit the resume to pages:', err);
+      setFitResult({
+        status: 'error',
+        message: `Couldn't measure the resume${err instanceof Error ? `: ${err.message}` : ''}. Nothing was changed.`,
+      });
+    } finally {
+      setFittingTo(null);
+    }
+  };
+
   const handleFontSizeChange = (field: keyof typeof fontSize, value: number) => {
     dispatch({
       type: 'UPDATE_FONT_SIZES',
@@ -358,33 +308,6 @@ export const LayoutControls: React.FC = () => {
 
   return (
     <div className="h-full flex flex-col overflow-y-auto custom-scrollbar">
-      {/* Global Autosave Status Indicator */}
-      {(saveStatus !== "idle") && (
-          <div className="sticky top-0 z-10 bg-white/80 backdrop-blur-sm px-4 py-2 border-b border-gray-100 flex justify-end">
-                {saveStatus === "saving" && (
-                    <span className="text-[10px] uppercase tracking-wider font-semibold text-blue-500 flex items-center">
-                        <div className="w-1.5 h-1.5 bg-blue-500 rounded-full mr-1.5 animate-pulse"></div>
-                        Autosaving Settings...
-                    </span>
-                )}
-                {saveStatus === "saved" && (
-                    <span className="text-[10px] uppercase tracking-wider font-semibold text-green-600 flex items-center">
-                        <svg className="w-2.5 h-2.5 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.4} d="M5 13l4 4L19 7" />
-                        </svg>
-                        Settings Saved
-                    </span>
-                )}
-                {saveStatus === "error" && (
-                    <span className="text-[10px] uppercase tracking-wider font-semibold text-red-500 flex items-center">
-                        <svg className="w-2.5 h-2.5 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.4} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                        </svg>
-                        Sync Error
-                    </span>
-                )}
-          </div>
-      )}
       {/* Template-Specific Customization - Collapsible */}
       <div className="border-b border-gray-200">
         <button
@@ -408,7 +331,7 @@ export const LayoutControls: React.FC = () => {
         )}
       </div>
 
-      {/* Page Margins - Collapsible */}
+      {/* Page Setup - Collapsible */}
       <div className="border-b border-gray-200">
         <button
           onClick={() => toggleSection('margins')}
@@ -416,7 +339,7 @@ export const LayoutControls: React.FC = () => {
         >
           <h4 className="text-xs sm:text-sm font-semibold text-gray-900 flex items-center">
             <Ruler className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-gray-600 mr-2" />
-            Page Margins
+            Page Setup
           </h4>
           {isSectionExpanded('margins') ? (
             <ChevronDown className="w-4 h-4 text-gray-500" />
@@ -426,6 +349,108 @@ export const LayoutControls: React.FC = () => {
         </button>
         {isSectionExpanded('margins') && (
           <div className="px-3 sm:px-4 pb-3 sm:pb-4 space-y-3 sm:space-y-4">
+            {/* Paper Size */}
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-600">Paper:</span>
+                <div className="flex bg-gray-100 rounded-md p-1">
+                  {(Object.keys(PAGE_SIZES) as PageSize[]).map((size) => (
+                    <button
+                      key={size}
+                      onClick={() => handlePageSizeChange(size)}
+                      className={`px-2 py-1 text-xs rounded transition-colors ${pageSize === size
+                        ? 'bg-white text-gray-800 shadow-sm'
+                        : 'text-gray-600 hover:text-gray-800'
+                        }`}
+                    >
+                      {PAGE_SIZES[size].label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {!resume.layout.pageSize && (
+                <p className="text-xs text-gray-500">Based on your region. US and Canadian recruiters expect Letter.</p>
+              )}
+            </div>
+
+            {/* Text Direction */}
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-600">Direction:</span>
+                <div className="flex bg-gray-100 rounded-md p-1">
+                  {DIRECTION_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => handleDirectionChange(option.value)}
+                      className={`px-2 py-1 text-xs rounded transition-colors ${directionSetting === option.value
+                        ? 'bg-white text-gray-800 shadow-sm'
+                        : 'text-gray-600 hover:text-gray-800'
+                        }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {directionSetting === 'auto' && (
+                <p className="text-xs text-gray-500">
+                  Laid out {getResumeDirection(resume) === 'rtl' ? 'right to left' : 'left to right'}, from the resume's language and text.
+                </p>
+              )}
+            </div>
+
+            {/* Fit to Pages */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-600">Fit to:</span>
+                {[1, 2].map((target) => (
+                  <button
+                    key={target}
+                    onClick={() => handleFitToPages(target)}
+                    disabled={fittingTo !== null}
+                    className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-50 hover:bg-gray-100 border border-gray-200 rounded transition-colors disabled:opacity-50"
+                    title={`Tighten spacing, margins and font sizes until the resume fits on ${target === 1 ? '1 page' : `${target} pages`}`}
+                  >
+                    {fittingTo === target ? (
+                      <Loader2 className="w-3 h-3 animate-spin" />
+                    ) : (
+                      <Minimize2 className="w-3 h-3" />
+                    )}
+                    {target === 1 ? '1 page' : `${target} pages`}
+                  </button>
+                ))}
+              </div>
+              {fitResult?.status === 'fits' && (
+                <p className="text-xs text-gray-500">
+                  Already fits on {fitResult.pageCount === 1 ? '1 page' : `${fitResult.pageCount} pages`}. Nothing was changed.
+                </p>
+              )}
+              {fitResult?.status === 'compacted' && (
+                <div className="p-2 bg-blue-50 border border-blue-200 rounded text-xs text-blue-800 space-y-1">
+                  <p className="font-medium">
+                    Now fits on {fitResult.pageCount === 1 ? '1 page' : `${fitResult.pageCount} pages`}. Changed:
+                  </p>
+                  <ul className="space-y-0.5">
+                    {fitResult.changes.map((change) => (
+                      <li key={change.label}>
+                        {change.label}: {change.from} → {change.to}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {fitResult?.status === 'refused' && (
+                <p className="p-2 bg-yellow-50 border border-yellow-200 rounded text-xs text-yellow-800">
+                  {fitResult.reason}
+                </p>
+              )}
+              {fitResult?.status === 'error' && (
+                <p className="p-2 bg-red-50 border border-red-200 rounded text-xs text-red-800">
+                  {fitResult.message}
+                </p>
+              )}
+            </div>
+
             {/* Unit Toggle */}
             <div className="flex items-center gap-2">
               <span className="text-xs text-gray-600">Unit:</span>
@@ -594,6 +619,93 @@ export const LayoutControls: React.FC = () => {
         )}
       </div>
 
+      {/* Columns - Collapsible */}
+      <div className="border-b border-gray-200">
+        <button
+          onClick={() => toggleSection('columns')}
+          className="w-full p-3 sm:p-4 flex items-center justify-between hover:bg-gray-100 transition-colors"
+        >
+          <h4 className="text-xs sm:text-sm font-semibold text-gray-900 flex items-center">
+            <Columns2 className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-gray-600 mr-2" />
+            Columns
+          </h4>
+          {isSectionExpanded('columns') ? (
+            <ChevronDown className="w-4 h-4 text-gray-500" />
+          ) : (
+            <ChevronRight className="w-4 h-4 text-gray-500" />
+          )}
+        </button>
+        {isSectionExpanded('columns') && (
+          <div className="px-3 sm:px-4 pb-3 sm:pb-4 space-y-3 sm:space-y-4">
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-600">Layout:</span>
+              <div className="flex bg-gray-100 rounded-md p-1">
+                {([1, 2] as const).map((count) => (
+                  <button
+                    key={count}
+                    onClick={() => handleColumnsChange({ count })}
+                    className={`px-2 py-1 text-xs rounded transition-colors ${columns.count === count
+                      ? 'bg-white text-gray-800 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-800'
+                      }`}
+                  >
+                    {count === 1 ? 'One column' : 'Two columns'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {columns.count === 2 && (
+              <>
+                {/* Sidebar Width */}
+                <div className="space-y-2">
+                  <label className="text-xs font-medium text-gray-600">Sidebar Width</label>
+                  <div className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-gray-500">Share of the page width</span>
+                      <span className="text-xs text-gray-500">{columns.sidebarWidth}%</span>
+                    </div>
+                    <input
+                      type="range"
+                      min={MIN_SIDEBAR_WIDTH}
+                      max={MAX_SIDEBAR_WIDTH}
+                      step={1}
+                      value={columns.sidebarWidth}
+                      onChange={(e) => handleColumnsChange({ sidebarWidth: parseInt(e.target.value) })}
+                      className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+                    />
+                  </div>
+                </div>
+
+                {/* Sidebar Position */}
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-gray-600">Sidebar:</span>
+                  <div className="flex bg-gray-100 rounded-md p-1">
+                    {(['left', 'right'] as const).map((position) => (
+                      <button
+                        key={position}
+                        onClick={() => handleColumnsChange({ sidebarPosition: position })}
+                        className={`px-2 py-1 text-xs rounded transition-colors capitalize ${columns.sidebarPosition === position
+                          ? 'bg-white text-gray-800 shadow-sm'
+                          : 'text-gray-600 hover:text-gray-800'
+                          }`}
+                      >
+                        {position}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <p className="text-xs text-gray-500">
+                  Drag sections between the main column and the sidebar in the section list.
+                  Some ATS parsers read two-column resumes less reliably.
+                </p>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Typography - Collapsible */}
       <div className="border-b border-gray-200">
         <button
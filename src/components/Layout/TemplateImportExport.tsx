@@ -11,6 +11,7 @@ import {
     ExportedTemplate,
     ImportValidationResult,
 } from '../../utils/templateImporter';
+import { registerTemplateDefinition } from '../../utils/templateRegistry';
 
 /**
  * Template Import/Export Component
@@ -66,6 +67,11 @@ export const TemplateImportExport: React.FC = () => {
 
         const updatedResume = applyImportedTemplate(importedTemplate, resume);
 
+        // Use the imported design for this template id
+        if (importedTemplate.definition) {
+            registerTemplateDefinition(importedTemplate.definition);
+        }
+
         // Update template type
         dispatch({ type: 'SET_TEMPLATE', payload: updatedResume.template });
 
@@ -223,11 +229,11 @@ const ExportTab: React.FC<ExportTabProps> = ({
                     <div className="flex-1">
                         <div className="flex items-center gap-2 mb-2">
                             <Download className="w-5 h-5 text-blue-600" />
-                            <h4 className="font-semibold text-gray-900">Export Template Settings</h4>
+                            <h4 className="font-semibold text-gray-900">Export Template</h4>
                         </div>
                         <p className="text-sm text-gray-600 mb-3">
-                            Export your current layout settings, colors, fonts, and spacing as a reusable template.
-                            This includes only the styling configuration, not your personal data.
+                            Export the current template design with your layout settings, colors, fonts, and spacing.
+                            This does not include your personal data.
                         </p>
                         <div className="flex items-center gap-2 text-xs text-gray-500">
                             <span className="px-2 py-1 bg-gray-100 rounded">Current: {currentTemplate}</span>
@@ -278,7 +284,7 @@ const ExportTab: React.FC<ExportTabProps> = ({
                     <div className="text-sm text-blue-800">
                         <p className="font-medium mb-1">About Exported Files</p>
                         <ul className="list-disc list-inside space-y-1 text-blue-700">
-                            <li>Template files contain only styling settings</li>
+                            <li>Template files contain the template design and styling settings</li>
                             <li>Resume files contain all your personal data</li>
                             <li>Both can be imported back into the application</li>
                             <li>Files are in JSON format and can be shared</li>
@@ -315,7 +321,7 @@ const ImportTab: React.FC<ImportTabProps> = ({
             <div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-4">Import Template</h3>
                 <p className="text-sm text-gray-600 mb-6">
-                    Upload a template JSON file to apply its settings to your resume.
+                    Upload a template JSON file to apply its design and settings to your resume.
                 </p>
             </div>
 
@@ -401,6 +407,10 @@ const ImportTab: React.FC<ImportTabProps> = ({
                             <span className="text-gray-600">Version:</span>
                             <span className="font-medium text-gray-900">{importedTemplate.version}</span>
                         </div>
+                        <div className="flex justify-between">
+                            <span className="text-gray-600">Includes design:</span>
+                            <span className="font-medium text-gray-900">{importedTemplate.definition ? 'Yes' : 'No (settings only)'}</span>
+                        </div>
                         {importedTemplate.metadata.author && (
                             <div className="flex justify-between">
                                 <span className="text-gray-600">Author:</span>
@@ -3,7 +3,9 @@ import { ResumePreview } from "./ResumePreview";
 import { useResumeContext } from "../../contexts/ResumeContext";
 import { usePDFExportContext } from "../../contexts/PDFExportContext";
 import { useResumePagination } from "../../hooks/useResumePagination";
-import { ZoomIn, ZoomOut, Maximize } from "lucide-react";
+import { getPageDimensions, resolvePageSize } from "../../utils/pageSize";
+import { getLocaleLabel, getResumeLocales, localizeResume } from "../../utils/resumeLocale";
+import { ZoomIn, ZoomOut, Maximize, Languages } from "lucide-react";
 
 /**
  * Preview Container Component Props
@@ -21,7 +23,8 @@ export interface PreviewContainerProps {
  * Preview Container Component
  *
  * Wrapper component that provides:
- * - Pagination (A4 pages)
+ * - Pagination (pages in the layout's paper size)
+ * - Language variant switching
  * - Zoom controls
  * - Responsive scaling
  * - Print layout
@@ -31,9 +34,26 @@ export const PreviewContainer: React.FC<PreviewContainerProps> = ({
   showZoomControls = true,
   showPrintMode: _showPrintMode = true, // Kept for prop compatibility but unused
 }) => {
-  const { resume } = useResumeContext();
-  const { previewRef, zoom, setZoom } = usePDFExportContext();
-  const { paginatedResumes, isCalculating } = useResumePagination(resume);
+  const { resume: sourceResume, setPaginationReport } = useResumeContext();
+  const { previewRef, zoom, setZoom, previewLocale, setPreviewLocale } = usePDFExportContext();
+  const locales = getResumeLocales(sourceResume);
+  const resume = React.useMemo(() => localizeResume(sourceResume, previewLocale), [sourceResume, previewLocale]);
+  const { paginatedResumes, isCalculating, report } = useResumePagination(resume);
+
+  // Fall back to the resume's own language when the shown translation is removed
+  React.useEffect(() => {
+    if (previewLocale && !locales.includes(previewLocale)) {
+      setPreviewLocale(null);
+    }
+  }, [previewLocale, locales, setPreviewLocale]);
+  const page = getPageDimensions(resolvePageSize(resume.layout));
+
+  // Share the measured page layout with the ATS checks
+  React.useEffect(() => {
+    setPaginationReport(report);
+  }, [report, setPaginationReport]);
+
+  React.useEffect(() => () => setPaginationReport(null), [setPaginationReport]);
 
   // Zoom levels
   const zoomLevels = [25, 50, 75, 100, 125, 150, 200];
@@ -130,6 +150,24 @@ export const PreviewContainer: React.FC<PreviewContainerProps> = ({
             </div>
 
             <div className="flex items-center gap-2">
+                {/* Language Variant */}
+                {locales.length > 1 && (
+                  <label className="flex items-center gap-1" title="Language shown and exported">
+                    <Languages className="w-4 h-4 text-gray-600" />
+                    <select
+                      value={previewLocale ?? locales[0]}
+                      onChange={(e) => setPreviewLocale(e.target.value === locales[0] ? null : e.target.value)}
+                      className="px-1 sm:px-2 py-1 text-xs sm:text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+                    >
+                      {locales.map((locale) => (
+                        <option key={locale} value={locale}>
+                          {getLocaleLabel(locale)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+
                 {/* Reset Zoom Button */}
                 <button
                 onClick={resetZoom}
@@ -165,9 +203,9 @@ export const PreviewContainer: React.FC<PreviewContainerProps> = ({
                         key={i} 
                         className="resume-page bg-white shadow-lg print:shadow-none print:m-0"
                         style={{
-                            width: '210mm',
+                            width: `${page.widthMm}mm`,
                             // Slightly reduced height to prevent browser rounding errors creating blank pages
-                            height: '296.5mm',
+                            height: `${page.heightMm - 0.5}mm`,
                             position: 'relative',
                             overflow: 'hidden',
                             // Apply margins here since printMode=true strips them from TemplateBase
@@ -196,7 +234,7 @@ export const PreviewContainer: React.FC<PreviewContainerProps> = ({
       {/* Preview Info */}
       <div className="mt-4 text-center text-sm text-gray-500 no-print print:hidden">
         <p>
-          Preview shows exact A4 pages. Content automatically flows to new pages.
+          Preview shows exact {page.label} pages. Content automatically flows to new pages.
         </p>
       </div>
     </div>
@@ -1,13 +1,7 @@
 import { forwardRef, memo } from "react";
 import { Resume } from "../../types/resume.types";
-import {
-  ClassicTemplate,
-  ModernTemplate,
-  MinimalTemplate,
-  ProfessionalTemplate,
-  ProfessionalSample1Template,
-  AcademicTemplate,
-} from "../Templates";
+import { GenericTemplate } from "../Templates";
+import { useTemplateDefinition } from "../../utils/templateRegistry";
 
 /**
  * Resume Preview Component Props
@@ -27,7 +21,7 @@ export interface ResumePreviewProps {
  * Resume Preview Component
  *
  * Displays the formatted resume with:
- * - Letter size (8.5" x 11") dimensions
+ * - Page width of the layout's paper size
  * - User's layout settings applied
  * - Only enabled sections shown
  * - Sections in correct order
@@ -39,6 +33,8 @@ export interface ResumePreviewProps {
 const ResumePreviewComponent = forwardRef<HTMLDivElement, ResumePreviewProps>(
   (props, ref) => {
     const { resume, className = "", printMode = false, hideHeader = false } = props;
+    // Unknown template ids fall back to the professional definition
+    const definition = useTemplateDefinition(resume?.template);
 
     // Safety check: ensure resume has required properties
     if (!resume || !resume.layout) {
@@ -49,31 +45,17 @@ const ResumePreviewComponent = forwardRef<HTMLDivElement, ResumePreviewProps>(
       );
     }
 
-    // Render the appropriate template based on resume.template
-    const templateProps = {
-      resume,
-      layout: resume.layout,
-      printMode,
-      className,
-      hideHeader,
-    };
-
-    switch (resume.template) {
-      case "classic":
-        return <ClassicTemplate ref={ref} {...templateProps} />;
-      case "modern":
-        return <ModernTemplate ref={ref} {...templateProps} />;
-      case "minimal":
-        return <MinimalTemplate ref={ref} {...templateProps} />;
-      case "professional":
-        return <ProfessionalTemplate ref={ref} {...templateProps} />;
-      case "professional-sample-1":
-        return <ProfessionalSample1Template ref={ref} {...templateProps} />;
-      case "academic":
-        return <AcademicTemplate ref={ref} {...templateProps} />;
-      default:
-        return <ProfessionalTemplate ref={ref} {...templateProps} />;
-    }
+    return (
+      <GenericTemplate
+        ref={ref}
+        resume={resume}
+        layout={resume.layout}
+        definition={definition}
+        printMode={printMode}
+        className={className}
+        hideHeader={hideHeader}
+      />
+    );
   }
 );
 
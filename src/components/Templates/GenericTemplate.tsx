@@ -0,0 +1,793 @@
+import React, { forwardRef, memo } from "react";
+import { TemplateBaseProps } from "./TemplateBase";
+import { templateHelpers } from "../../utils/templateHelpers";
+import { getResumeLocale } from "../../utils/resumeLocale";
+import { resolveColumnLayout, splitSectionsByColumn } from "../../utils/columnLayout";
+import { getPageDimensions, resolvePageSize } from "../../utils/pageSize";
+import { getResumeDirection, mirrorSide } from "../../utils/textDirection";
+import { formatLanguageLevel } from "../../utils/languageLevels";
+import { formatCitation } from "../../utils/citations";
+import { RichTextSpan, parseInline, parseRichText } from "../../utils/richText";
+import {
+  TemplateColorRole,
+  TemplateDefinition,
+  TemplateDivider,
+  TemplateTextStyle,
+} from "../../types/template.types";
+import {
+  WorkExperience,
+  Education,
+  Skill,
+  Certification,
+  Project,
+  AdditionalInfoItem,
+  LanguagesContent,
+  PublicationsContent,
+  Award,
+  VolunteerExperience,
+  ReferencesContent,
+  ResumeSection,
+} from "../../types/resume.types";
+
+export interface GenericTemplateProps extends TemplateBaseProps {
+  /** Template definition describing how the resume is drawn */
+  definition: TemplateDefinition;
+}
+
+const SKILL_CATEGORY_NAMES: Record<string, string> = {
+  languages: "Programming Languages",
+  frameworks: "Frameworks & Libraries",
+  databases: "Databases",
+  tools: "Tools & Software",
+  cloud: "Cloud & DevOps",
+  other: "Other",
+};
+
+const HEADER_TRANSFORMS = {
+  uppercase: "uppercase",
+  "title-case": "capitalize",
+  lowercase: "lowercase",
+} as const;
+
+/**
+ * Generic Template Component
+ *
+ * Draws any resume template from its TemplateDefinition. Sizes, spacing,
+ * font and colours come from the user's LayoutSettings; the definition
+ * decides how each element is styled relative to them.
+ *
+ * Keeps the DOM structure pagination measures: a `header` for personal
+ * info, then `section[data-section-id]` elements holding an optional h2 and
+ * a single wrapper whose children are the section's items. In two-column
+ * layouts the sections sit in `div[data-column]` elements under the header.
+ *
+ * Right-to-left resumes are mirrored: alignment, indents and accent bars
+ * swap sides and columns run right to left. User text is wrapped in `bdi`
+ * so each field takes its own direction from its first letter.
+ */
+const GenericTemplateComponent = forwardRef<HTMLDivElement, GenericTemplateProps>(
+  (props, ref) => {
+    const { resume, layout, definition, className = "", printMode = false, hideHeader = false } = props;
+    const { styles, header, sectionHeader, entry, blocks } = definition;
+    const locale = getResumeLocale(resume);
+    const direction = props.direction ?? getResumeDirection(resume, layout);
+    const startSide = mirrorSide("left", direction);
+
+    // Box property on the side lines start from: left, or right in RTL
+    const onStart = (property: "border" | "padding", value: string | number): React.CSSProperties => ({
+      [`${property}${direction === "rtl" ? "Right" : "Left"}`]: value,
+    });
+
+    const enabledSections = resume.sections
+      .filter((section) => section.enabled)
+      .sort((a, b) => a.order - b.order);
+
+    const colors: Record<TemplateColorRole, string> = {
+      primary: layout.colors?.primary || styles.colors.primary,
+      secondary: layout.colors?.secondary || styles.colors.secondary,
+      text: layout.colors?.text || styles.colors.text,
+    };
+    const bodySize = layout.fontSize?.body || 10;
+    const lineHeight = layout.lineHeight || 1.3;
+    const sectionSpacing = layout.sectionSpacing ?? styles.sections.spacing;
+
+    const textStyle = (style: TemplateTextStyle, baseSize: number): React.CSSProperties => ({
+      fontSize: `${baseSize + (style.sizeOffset || 0)}pt`,
+      fontWeight: style.weight,
+      fontStyle: style.italic ? "italic" : undefined,
+      textTransform: style.uppercase ? "uppercase" : undefined,
+      letterSpacing: style.letterSpacing ? `${style.letterSpacing}px` : undefined,
+      color: style.color ? colors[style.color] : undefined,
+    });
+
+    const border = (divider: TemplateDivider) =>
+      `${divider.width}px ${divider.style} ${colors[divider.color]}`;
+
+    const containerStyles: React.CSSProperties = {
+      fontFamily: layout.fontFamily || definition.fontFamily,
+      fontSize: `${bodySize}pt`,
+      lineHeight,
+      color: colors.text,
+      backgroundColor: "white",
+      width: "100%",
+      maxWidth: printMode ? "none" : `${getPageDimensions(resolvePageSize(layout)).widthMm}mm`,
+      // Print mode: no padding (wrapper provides margins)
+      padding: printMode
+        ? 0
+        : `${layout.pageMargins.top}in ${layout.pageMargins.right}in ${layout.pageMargins.bottom}in ${layout.pageMargins.left}in`,
+      boxShadow: printMode ? "none" : "0 4px 6px -1px rgba(0, 0, 0, 0.1)",
+      direction,
+      textAlign: startSide,
+    };
+
+    // Flex rows already follow the direction, so only text alignment is mirrored
+    const alignment = styles.header.alignment;
+    const justify = alignment === "center" ? "center" : alignment === "right" ? "flex-end" : "flex-start";
+    const headerStyles: React.CSSProperties = {
+      textAlign: mirrorSide(alignment, direction),
+      marginBottom: `${sectionSpacing}px`,
+      paddingBottom: header.divider ? "8px" : undefined,
+      borderBottom: header.divider ? border(header.divider) : undefined,
+      ...(header.accentBar && {
+        ...onStart("border", `${header.accentBar.width}px solid ${colors[header.accentBar.color]}`),
+        ...onStart("padding", "16px"),
+      }),
+    };
+
+    const sectionTitleStyles: React.CSSProperties = {
+      ...textStyle(sectionHeader.text, layout.fontSize?.sectionHeader || styles.sections.headerSize),
+      textTransform: HEADER_TRANSFORMS[styles.sections.headerStyle],
+      margin: "0 0 6px 0",
+      paddingBottom: "2px",
+      ...(styles.sections.headerDecoration === "border-bottom" && {
+        borderBottom: border(sectionHeader.divider),
+      }),
+      ...(styles.sections.headerDecoration === "background" && {
+        backgroundColor: `${colors.primary}14`,
+        padding: "2px 6px",
+      }),
+    };
+
+    const linkStyles: React.CSSProperties = {
+      color: "inherit",
+      textDecoration: "none",
+    };
+
+    const paragraphStyles: React.CSSProperties = {
+      margin: "3px 0",
+      lineHeight,
+      textAlign: blocks.justify ? "justify" : undefined,
+    };
+
+    const renderContactInfo = () => {
+      const info = resume.personalInfo;
+      const items: JSX.Element[] = [];
+
+      if (info?.email) {
+        items.push(
+          <a key="email" href={`mailto:${info.email}`} style={linkStyles}>
+            {info.email}
+          </a>
+        );
+      }
+      if (info?.phone) {
+        items.push(<span key="phone">{templateHelpers.phone.format(info.phone)}</span>);
+      }
+      if (info?.location) {
+        items.push(<bdi key="location">{info.location}</bdi>);
+      }
+      (["linkedin", "github", "portfolio"] as const).forEach((field) => {
+        const url = info?.[field];
+        if (url) {
+          items.push(
+            <a key={field} href={url} style={linkStyles}>
+              {templateHelpers.url.formatForDisplay(url)}
+            </a>
+          );
+        }
+      });
+
+      const { separator } = header.contact;
+      return (
+        <div
+          style={{
+            ...textStyle(header.contact, bodySize),
+            display: "flex",
+            flexWrap: "wrap",
+            justifyContent: justify,
+            gap: separator ? undefined : "12px",
+          }}
+        >
+          {items.map((item, index) => (
+            <React.Fragment key={index}>
+              {index > 0 && separator && <span style={{ whiteSpace: "pre" }}>{separator}</span>}
+              {item}
+            </React.Fragment>
+          ))}
+        </div>
+      );
+    };
+
+    const renderHeader = () => {
+      const info = resume.personalInfo;
+      const name = (
+        <h1 style={{ ...textStyle(header.name, layout.fontSize?.name || styles.header.nameSize), margin: 0 }}>
+          <bdi>{info?.fullName || "Your Name"}</bdi>
+        </h1>
+      );
+      const title = info?.title ? (
+        <div style={{ ...textStyle(header.title, layout.fontSize?.title || styles.header.titleSize) }}>
+          <bdi>{info.title}</bdi>
+        </div>
+      ) : null;
+
+      return (
+        <header style={headerStyles}>
+          {header.titleInline ? (
+            <div
+              style={{
+                display: "flex",
+                alignItems: "baseline",
+                flexWrap: "wrap",
+                gap: "12px",
+                justifyContent: alignment === "center" ? "center" : "flex-start",
+                marginBottom: "4px",
+              }}
+            >
+              {name}
+              {title}
+            </div>
+          ) : (
+            <>
+              <div style={{ marginBottom: "4px" }}>{name}</div>
+              {title && <div style={{ marginBottom: "6px" }}>{title}</div>}
+            </>
+          )}
+          {renderContactInfo()}
+        </header>
+      );
+    };
+
+    const renderBullets = (lines: React.ReactNode[]) => {
+      if (lines.length === 0) return null;
+      const marker = entry.bullet.marker;
+      const disc = marker === "disc";
+
+      return (
+        <ul
+          style={{
+            margin: "4px 0 0 0",
+            padding: 0,
+            ...onStart("padding", disc ? "20px" : 0),
+            listStyleType: disc ? "disc" : "none",
+          }}
+        >
+          {lines.map((line, index) => (
+            <li
+              key={index}
+              style={{ marginBottom: "3px", lineHeight, position: "relative", ...onStart("padding", disc ? 0 : "15px") }}
+            >
+              {!disc && (
+                <span style={{ position: "absolute", [startSide]: 0, color: colors[entry.bullet.color || "text"] }}>
+                  {marker}
+                </span>
+              )}
+              <bdi>{line}</bdi>
+            </li>
+          ))}
+        </ul>
+      );
+    };
+
+    const renderInline = (spans: RichTextSpan[]) =>
+      spans.map((span, index) => {
+        let node: React.ReactNode = span.text;
+        if (span.bold) node = <strong>{node}</strong>;
+        if (span.italic) node = <em>{node}</em>;
+        if (span.href) node = <a href={span.href} style={{ ...linkStyles, textDecoration: "underline" }}>{node}</a>;
+        return <React.Fragment key={index}>{node}</React.Fragment>;
+      });
+
+    /**
+     * Formatted text: paragraphs with their line breaks, and bullet lists
+     * drawn like the template's achievement bullets
+     */
+    const renderRichText = (text: string) =>
+      parseRichText(text).map((block, index) =>
+        block.type === "list" ? (
+          <React.Fragment key={index}>{renderBullets(block.items.map(renderInline))}</React.Fragment>
+        ) : (
+          <p key={index} style={paragraphStyles} dir="auto">
+            {block.lines.map((line, lineIndex) => (
+              <React.Fragment key={lineIndex}>
+                {lineIndex > 0 && <br />}
+                {renderInline(line)}
+              </React.Fragment>
+            ))}
+          </p>
+        )
+      );
+
+    const renderAchievements = (achievements: string[] | undefined) =>
+      renderBullets((achievements || []).map((achievement) => renderInline(parseInline(achievement))));
+
+    /**
+     * One dated entry: title and subtitle on the left, dates on the right
+     */
+    const renderEntry = (
+      key: string | number,
+      isLast: boolean,
+      parts: {
+        title: string;
+        subtitle?: string;
+        location?: string;
+        dates?: string;
+        body?: React.ReactNode;
+      }
+    ) => (
+      <div
+        key={key}
+        className="resume-item"
+        style={{ marginBottom: isLast ? 0 : `${entry.spacing}px`, pageBreakInside: "auto" }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", gap: "12px", marginBottom: "2px" }}>
+          <div style={{ flex: 1 }}>
+            <div style={textStyle(entry.title, bodySize)}>
+              <bdi>{parts.title}</bdi>
+            </div>
+            {(parts.subtitle || parts.location) && (
+              <div style={textStyle(entry.subtitle, bodySize)}>
+                {parts.subtitle && <bdi>{parts.subtitle}</bdi>}
+                {parts.subtitle && parts.location && entry.locationSeparator}
+                {parts.location && <bdi>{parts.location}</bdi>}
+              </div>
+            )}
+          </div>
+          {parts.dates && (
+            <div style={{ ...textStyle(entry.date, bodySize), whiteSpace: "nowrap" }}>
+              <bdi>{parts.dates}</bdi>
+            </div>
+          )}
+        </div>
+        {parts.body}
+      </div>
+    );
+
+    const formatRange = (start?: string, end?: string, current?: boolean) =>
+      start || end
+        ? templateHelpers.date.formatDateRange(start || "", end || "", current, entry.dateFormat, locale)
+        : undefined;
+
+    const renderSummary = (content: { summary: string }) => {
+      if (!content.summary) return null;
+
+      if (blocks.summary === "callout") {
+        return (
+          <div
+            style={{
+              backgroundColor: "#f9fafb",
+              padding: "12px 16px",
+              borderRadius: "4px",
+              ...onStart("border", `3px solid ${colors.primary}`),
+            }}
+          >
+            <p style={{ ...paragraphStyles, margin: 0 }} dir="auto">
+              {content.summary}
+            </p>
+          </div>
+        );
+      }
+      return (
+        <div>
+          <p style={{ ...paragraphStyles, margin: 0 }} dir="auto">
+            {content.summary}
+          </p>
+        </div>
+      );
+    };
+
+    const renderSkills = (content: { skills: Skill[]; skillCategories?: Record<string, string> }) => {
+      if (!content.skills || content.skills.length === 0) return null;
+
+      if (blocks.skills === "inline") {
+        return (
+          <div>
+            <p style={{ margin: 0, lineHeight }}>{content.skills.map((skill) => skill.name).join(", ")}</p>
+          </div>
+        );
+      }
+
+      const skillsByCategory: Record<string, string[]> = {};
+      content.skills.forEach((skill) => {
+        const categoryName =
+          content.skillCategories?.[skill.id] || SKILL_CATEGORY_NAMES[skill.category] || skill.category || "Other";
+        (skillsByCategory[categoryName] = skillsByCategory[categoryName] || []).push(skill.name);
+      });
+
+      if (blocks.skills === "grid") {
+        return (
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))", gap: "12px" }}>
+            {Object.entries(skillsByCategory).map(([categoryName, skillNames]) => (
+              <div key={categoryName}>
+                <h4 style={{ fontSize: `${bodySize}pt`, fontWeight: "bold", color: colors.primary, margin: "0 0 6px 0" }}>
+                  {categoryName}
+                </h4>
+                <div style={{ fontSize: `${bodySize - 1}pt`, lineHeight: 1.6 }}>{skillNames.join(" • ")}</div>
+              </div>
+            ))}
+          </div>
+        );
+      }
+
+      return (
+        <div style={{ lineHeight }}>
+          {Object.entries(skillsByCategory).map(([categoryName, skillNames]) => (
+            <div key={categoryName} style={{ marginBottom: "3px" }}>
+              <strong style={{ color: colors.primary, fontWeight: 600 }}>
+                <bdi>{categoryName}</bdi>:
+              </strong>{" "}
+              {skillNames.join(", ")}
+            </div>
+          ))}
+        </div>
+      );
+    };
+
+    const renderExperience = (content: { experiences: WorkExperience[] }) => {
+      if (!content.experiences || content.experiences.length === 0) return null;
+
+      return (
+        <div>
+          {content.experiences.map((exp, index) =>
+            renderEntry(exp.id || index, index === content.experiences.length - 1, {
+              title: exp.jobTitle || "Job Title",
+              subtitle: exp.company || "Company Name",
+              location: exp.location,
+              dates: formatRange(exp.startDate, exp.endDate, exp.current),
+              body: (
+                <>
+                  {exp.description && renderRichText(exp.description)}
+                  {renderAchievements(exp.achievements)}
+                </>
+              ),
+            })
+          )}
+        </div>
+      );
+    };
+
+    const renderProjects = (content: { projects: Project[] }) => {
+      if (!content.projects || content.projects.length === 0) return null;
+
+      return (
+        <div>
+          {content.projects.map((project, index) =>
+            renderEntry(project.id || index, index === content.projects.length - 1, {
+              title: project.name || "Project Name",
+              subtitle: project.techStack?.join(", "),
+              dates: formatRange(project.startDate, project.endDate, project.current),
+              body: (
+                <>
+                  {project.description && renderRichText(project.description)}
+                  {renderAchievements(project.achievements)}
+                  {project.url && (
+                    <p style={{ margin: "3px 0", fontSize: `${bodySize - 0.5}pt` }}>
+                      <a href={project.url} style={linkStyles}>
+                        {templateHelpers.url.formatForDisplay(project.url)}
+                      </a>
+                    </p>
+                  )}
+                </>
+              ),
+            })
+          )}
+        </div>
+      );
+    };
+
+    const renderEducation = (content: { education: Education[] }) => {
+      if (!content.education || content.education.length === 0) return null;
+
+      const detailStyles: React.CSSProperties = {
+        marginTop: "2px",
+        color: colors.secondary,
+        fontSize: `${bodySize - 0.5}pt`,
+      };
+
+      return (
+        <div>
+          {content.education.map((edu, index) =>
+            renderEntry(edu.id || index, index === content.education.length - 1, {
+              title: edu.degree || "Degree",
+              subtitle: edu.institution || "Institution",
+              location: edu.location,
+              dates: formatRange(edu.startDate, edu.endDate),
+              body: (
+                <>
+                  {edu.gpa && <div style={detailStyles}>GPA: {edu.gpa}</div>}
+                  {edu.coursework && edu.coursework.length > 0 && (
+                    <div style={detailStyles}>Relevant Coursework: {edu.coursework.join(", ")}</div>
+                  )}
+                </>
+              ),
+            })
+          )}
+        </div>
+      );
+    };
+
+    const renderCertifications = (content: { certifications: Certification[] }) => {
+      if (!content.certifications || content.certifications.length === 0) return null;
+
+      return (
+        <div>
+          {content.certifications.map((cert, index) => {
+            const issued = cert.issueDate ? templateHelpers.date.formatDate(cert.issueDate, entry.dateFormat, locale) : "";
+            const expires = cert.expiryDate ? templateHelpers.date.formatDate(cert.expiryDate, entry.dateFormat, locale) : "";
+
+            return renderEntry(cert.id || index, index === content.certifications.length - 1, {
+              title: cert.name || "Certification Name",
+              subtitle: cert.issuer || "Issuing Organization",
+              dates: issued ? (expires ? `${issued} - ${expires}` : issued) : undefined,
+              body: cert.credentialId ? (
+                <div style={{ color: colors.secondary, fontSize: `${bodySize - 1}pt` }}>ID: {cert.credentialId}</div>
+              ) : undefined,
+            });
+          })}
+        </div>
+      );
+    };
+
+    const renderLanguages = (content: LanguagesContent) => {
+      if (!content.languages || content.languages.length === 0) return null;
+
+      return (
+        <div style={{ display: "flex", flexWrap: "wrap", columnGap: "16px", rowGap: "3px", lineHeight }}>
+          {content.languages.map((lang, index) => (
+            <span key={lang.id || index}>
+              <strong style={{ color: colors.primary, fontWeight: 600 }}>
+                <bdi>{lang.name}</bdi>
+              </strong>{" "}
+              <span style={{ color: colors.secondary }}>({formatLanguageLevel(lang, content.showCefr)})</span>
+            </span>
+          ))}
+        </div>
+      );
+    };
+
+    const renderPublications = (content: PublicationsContent) => {
+      if (!content.publications || content.publications.length === 0) return null;
+      const style = content.citationStyle || "apa";
+      const startNumber = content.startNumber || 1;
+
+      return (
+        <div style={{ lineHeight }}>
+          {content.publications.map((publication, index) => (
+            <div
+              key={publication.id || index}
+              className="resume-item"
+              dir="auto"
+              // APA uses a hanging indent; IEEE hangs the [n] label
+              style={{ marginBottom: "4px", paddingInlineStart: "24px", textIndent: "-24px", pageBreakInside: "avoid" }}
+            >
+              {formatCitation(publication, style, startNumber + index).map((part, i) =>
+                part.italic ? <em key={i}>{part.text}</em> : <React.Fragment key={i}>{part.text}</React.Fragment>
+              )}
+            </div>
+          ))}
+        </div>
+      );
+    };
+
+    const renderAwards = (content: { awards: Award[] }) => {
+      if (!content.awards || content.awards.length === 0) return null;
+
+      return (
+        <div>
+          {content.awards.map((award, index) =>
+            renderEntry(award.id || index, index === content.awards.length - 1, {
+              title: award.title || (award.type === "grant" ? "Grant" : "Award"),
+              subtitle: [award.issuer, award.amount].filter(Boolean).join(entry.locationSeparator),
+              dates: award.date ? templateHelpers.date.formatDate(award.date, entry.dateFormat, locale) : undefined,
+              body: award.description ? <p style={paragraphStyles} dir="auto">{award.description}</p> : undefined,
+            })
+          )}
+        </div>
+      );
+    };
+
+    const renderVolunteering = (content: { volunteering: VolunteerExperience[] }) => {
+      if (!content.volunteering || content.volunteering.length === 0) return null;
+
+      return (
+        <div>
+          {content.volunteering.map((item, index) =>
+            renderEntry(item.id || index, index === content.volunteering.length - 1, {
+              title: item.role || "Role",
+              subtitle: item.organization || "Organization",
+              location: item.location,
+              dates: formatRange(item.startDate, item.endDate, item.current),
+              body: (
+                <>
+                  {item.description && renderRichText(item.description)}
+                  {renderAchievements(item.achievements)}
+                </>
+              ),
+            })
+          )}
+        </div>
+      );
+    };
+
+    const renderReferences = (content: ReferencesContent) => {
+      if (content.onRequest) {
+        return (
+          <div>
+            <p style={{ ...paragraphStyles, margin: 0 }}>Available upon request</p>
+          </div>
+        );
+      }
+      if (!content.references || content.references.length === 0) return null;
+
+      return (
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))", gap: "10px 16px" }}>
+          {content.references.map((reference, index) => (
+            <div key={reference.id || index} className="resume-item" style={{ lineHeight, pageBreakInside: "avoid" }}>
+              <div style={textStyle(entry.title, bodySize)}>
+                <bdi>{reference.name}</bdi>
+              </div>
+              {(reference.jobTitle || reference.company) && (
+                <div style={textStyle(entry.subtitle, bodySize)}>
+                  <bdi>{[reference.jobTitle, reference.company].filter(Boolean).join(", ")}</bdi>
+                </div>
+              )}
+              {reference.relationship && (
+                <div style={{ color: colors.secondary, fontSize: `${bodySize - 1}pt` }}>
+                  <bdi>{reference.relationship}</bdi>
+                </div>
+              )}
+              {[reference.email, reference.phone].filter(Boolean).map((contact) => (
+                <div key={contact} style={{ fontSize: `${bodySize - 1}pt` }}>
+                  <bdi>{contact}</bdi>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      );
+    };
+
+    const renderAdditionalInfo = (content: { additionalInfo: AdditionalInfoItem[] }) => {
+      if (!content.additionalInfo || content.additionalInfo.length === 0) return null;
+
+      return (
+        <div>
+          {content.additionalInfo.map((item, index) => (
+            <div
+              key={item.id || index}
+              className="resume-item"
+              style={{ display: "flex", alignItems: "baseline", marginBottom: "6px", pageBreakInside: "auto" }}
+            >
+              <h3 style={{ fontSize: `${bodySize}pt`, fontWeight: "bold", margin: direction === "rtl" ? "0 0 0 8px" : "0 8px 0 0", width: "140px", flexShrink: 0 }}>
+                <bdi>{item.title}</bdi>
+              </h3>
+              <div style={{ flex: 1 }}>
+                {item.content.map((line, i) => (
+                  <div key={i} style={{ marginBottom: "2px" }}>
+                    <bdi>{line}</bdi>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      );
+    };
+
+    const renderCustom = (content: { custom: { title: string; content: string } }) => {
+      if (!content.custom || !content.custom.content) return null;
+
+      return (
+        <div style={{ lineHeight, unicodeBidi: "plaintext" }}>
+          {renderRichText(content.custom.content)}
+        </div>
+      );
+    };
+
+    const renderSectionContent = (section: ResumeSection) => {
+      switch (section.type) {
+        case "summary":
+          return renderSummary(section.content as { summary: string });
+        case "skills":
+          return renderSkills(section.content as { skills: Skill[] });
+        case "experience":
+          return renderExperience(section.content as { experiences: WorkExperience[] });
+        case "projects":
+          return renderProjects(section.content as { projects: Project[] });
+        case "education":
+          return renderEducation(section.content as { education: Education[] });
+        case "certifications":
+          return renderCertifications(section.content as { certifications: Certification[] });
+        case "languages":
+          return renderLanguages(section.content as LanguagesContent);
+        case "publications":
+          return renderPublications(section.content as PublicationsContent);
+        case "awards":
+          return renderAwards(section.content as { awards: Award[] });
+        case "volunteering":
+          return renderVolunteering(section.content as { volunteering: VolunteerExperience[] });
+        case "references":
+          return renderReferences(section.content as ReferencesContent);
+        case "additional-info":
+          return renderAdditionalInfo(section.content as { additionalInfo: AdditionalInfoItem[] });
+        case "custom":
+          return renderCustom(section.content as { custom: { title: string; content: string } });
+        default:
+          return null;
+      }
+    };
+
+    const renderSection = (section: ResumeSection) => {
+      const content = renderSectionContent(section);
+      if (!content) return null;
+
+      return (
+        <section key={section.id} data-section-id={section.id} style={{ marginBottom: `${sectionSpacing}px` }}>
+          {!section.hideTitle && <h2 style={sectionTitleStyles}>{templateHelpers.locale.sectionTitle(section.type, section.title, locale)}</h2>}
+          {content}
+        </section>
+      );
+    };
+
+    const renderBody = () => {
+      const columns = resolveColumnLayout(layout, definition);
+      if (columns.count !== 2) {
+        return enabledSections.map(renderSection);
+      }
+
+      const { main, sidebar } = splitSectionsByColumn(enabledSections, definition, columns);
+      const sidebarColumn = (
+        <div data-column="sidebar" style={{ flex: `0 0 ${columns.sidebarWidth}%`, minWidth: 0 }}>
+          {sidebar.map(renderSection)}
+        </div>
+      );
+
+      return (
+        <div style={{ display: "flex", gap: `${styles.layout.columnGap ?? 24}px`, alignItems: "flex-start" }}>
+          {columns.sidebarPosition === "left" && sidebarColumn}
+          <div data-column="main" style={{ flex: 1, minWidth: 0 }}>
+            {main.map(renderSection)}
+          </div>
+          {columns.sidebarPosition === "right" && sidebarColumn}
+        </div>
+      );
+    };
+
+    return (
+      <div
+        ref={ref}
+        className={`resume-template ${definition.id}-template resume-preview ${className}`}
+        style={containerStyles}
+        lang={locale}
+      >
+        {!hideHeader && renderHeader()}
+
+        {renderBody()}
+
+        {/* Empty state */}
+        {enabledSections.length === 0 && (
+          <div style={{ textAlign: "center", padding: "40px 20px", color: colors.secondary }}>
+            <p>No sections enabled. Enable sections from the sidebar to see your resume content.</p>
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+GenericTemplateComponent.displayName = "GenericTemplate";
+
+// Memoize the template to prevent unnecessary re-renders
+export const GenericTemplate = memo(GenericTemplateComponent);
+
+export default GenericTemplate;
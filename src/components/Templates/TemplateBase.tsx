@@ -1,5 +1,6 @@
 import React, { forwardRef } from "react";
-import { Resume, LayoutSettings } from "../../types/resume.types";
+import { Resume, LayoutSettings, TextDirection } from "../../types/resume.types";
+import { getResumeDirection } from "../../utils/textDirection";
 
 /**
  * Template Base Component Props
@@ -15,6 +16,8 @@ export interface TemplateBaseProps {
   printMode?: boolean;
   /** Whether to hide the header (personal info) - useful for subsequent pages */
   hideHeader?: boolean;
+  /** Writing direction; defaults to the resume's. RTL mirrors alignment and column order */
+  direction?: TextDirection;
 }
 
 /**
@@ -26,10 +29,12 @@ export interface TemplateBaseProps {
  * - Shared styling utilities
  * - Print optimization
  * - ATS compliance helpers
+ * - Right-to-left layout (`dir` on the container, mirrored alignment)
  */
 export const TemplateBase = forwardRef<HTMLDivElement, TemplateBaseProps>(
   (props, ref) => {
     const { resume, layout, className = "", printMode = false } = props;
+    const direction = props.direction ?? getResumeDirection(resume, layout);
     // Base container styles that all templates should use
     const baseContainerStyles: React.CSSProperties = {
       fontFamily: layout.fontFamily,
@@ -43,6 +48,8 @@ export const TemplateBase = forwardRef<HTMLDivElement, TemplateBaseProps>(
       padding: `${layout.pageMargins.top}in ${layout.pageMargins.right}in ${layout.pageMargins.bottom}in ${layout.pageMargins.left}in`,
       boxShadow: printMode ? "none" : "0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)",
       pageBreakInside: "avoid",
+      direction,
+      textAlign: direction === "rtl" ? "right" : "left",
     };
 
     return (
@@ -50,6 +57,7 @@ export const TemplateBase = forwardRef<HTMLDivElement, TemplateBaseProps>(
         ref={ref}
         className={`template-base ${className}`}
         style={baseContainerStyles}
+        dir={direction}
       >
         {/* This is a base template - specific templates should override this */}
         <div className="text-center p-8 text-gray-500">
@@ -298,6 +306,16 @@ export const templateUtils = {
         return !!(section.content.education && section.content.education.length > 0);
       case 'certifications':
         return !!(section.content.certifications && section.content.certifications.length > 0);
+      case 'languages':
+        return !!(section.content.languages && section.content.languages.length > 0);
+      case 'publications':
+        return !!(section.content.publications && section.content.publications.length > 0);
+      case 'awards':
+        return !!(section.content.awards && section.content.awards.length > 0);
+      case 'volunteering':
+        return !!(section.content.volunteering && section.content.volunteering.length > 0);
+      case 'references':
+        return !!(section.content.onRequest || (section.content.references && section.content.references.length > 0));
       case 'custom':
         return !!(section.content.custom && section.content.custom.content && section.content.custom.content.trim());
       default:
@@ -1,11 +1,20 @@
 import React from "react";
-import { TemplateType } from "../../types/resume.types";
+import { PageSize, TemplateType } from "../../types/resume.types";
+import { getTemplateDefinition, isBuiltInTemplate } from "../../utils/templateRegistry";
+import { getLocalePageSize, getPageDimensions } from "../../utils/pageSize";
 
 interface TemplateThumbnailProps {
   templateType: TemplateType;
+  /** Paper the thumbnail is drawn on; defaults by locale */
+  pageSize?: PageSize;
   className?: string;
 }
 
+interface PageProps {
+  /** Page height in viewBox units for a 200 unit wide page */
+  height: number;
+}
+
 /**
  * Template Thumbnail Component
  *
@@ -14,20 +23,29 @@ interface TemplateThumbnailProps {
  */
 export const TemplateThumbnail: React.FC<TemplateThumbnailProps> = ({
   templateType,
+  pageSize = getLocalePageSize(),
   className = "",
 }) => {
+  const page = getPageDimensions(pageSize);
+  const height = Math.round((200 * page.heightMm) / page.widthMm);
+
   const thumbnails = {
-    classic: <ClassicThumbnail />,
-    modern: <ModernThumbnail />,
-    minimal: <MinimalThumbnail />,
-    professional: <ProfessionalThumbnail />,
-    "professional-sample-1": <ProfessionalThumbnail />,
-    academic: <AcademicThumbnail />,
+    classic: <ClassicThumbnail height={height} />,
+    modern: <ModernThumbnail height={height} />,
+    minimal: <MinimalThumbnail height={height} />,
+    professional: <ProfessionalThumbnail height={height} />,
+    "professional-sample-1": <ProfessionalThumbnail height={height} />,
+    academic: <AcademicThumbnail height={height} />,
   };
 
+  // Custom templates show the thumbnail of the template they were forked from
+  const thumbnailType = isBuiltInTemplate(templateType)
+    ? templateType
+    : getTemplateDefinition(templateType).basedOn ?? "professional";
+
   return (
     <div className={`template-thumbnail ${className}`}>
-      {thumbnails[templateType]}
+      {thumbnails[thumbnailType]}
     </div>
   );
 };
@@ -35,9 +53,9 @@ export const TemplateThumbnail: React.FC<TemplateThumbnailProps> = ({
 /**
  * Classic Template Thumbnail
  */
-const ClassicThumbnail: React.FC = () => (
-  <svg viewBox="0 0 200 260" fill="none" xmlns="http://www.w3.org/2000/svg">
-    <rect width="200" height="260" fill="white" />
+const ClassicThumbnail: React.FC<PageProps> = ({ height }) => (
+  <svg viewBox={`0 0 200 ${height}`} fill="none" xmlns="http://www.w3.org/2000/svg">
+    <rect width="200" height={height} fill="white" />
 
     {/* Header - Centered */}
     <rect x="50" y="20" width="100" height="8" rx="2" fill="#2c3e50" />
@@ -168,9 +186,9 @@ const ClassicThumbnail: React.FC = () => (
 /**
  * Modern Template Thumbnail
  */
-const ModernThumbnail: React.FC = () => (
-  <svg viewBox="0 0 200 260" fill="none" xmlns="http://www.w3.org/2000/svg">
-    <rect width="200" height="260" fill="white" />
+const ModernThumbnail: React.FC<PageProps> = ({ height }) => (
+  <svg viewBox={`0 0 200 ${height}`} fill="none" xmlns="http://www.w3.org/2000/svg">
+    <rect width="200" height={height} fill="white" />
 
     {/* Header - Left aligned with accent bar */}
     <rect x="20" y="20" width="4" height="35" rx="2" fill="#3b82f6" />
@@ -298,9 +316,9 @@ const ModernThumbnail: React.FC = () => (
 /**
  * Minimal Template Thumbnail
  */
-const MinimalThumbnail: React.FC = () => (
-  <svg viewBox="0 0 200 260" fill="none" xmlns="http://www.w3.org/2000/svg">
-    <rect width="200" height="260" fill="white" />
+const MinimalThumbnail: React.FC<PageProps> = ({ height }) => (
+  <svg viewBox={`0 0 200 ${height}`} fill="none" xmlns="http://www.w3.org/2000/svg">
+    <rect width="200" height={height} fill="white" />
 
     {/* Header - Compact single line */}
     <rect x="20" y="20" width="70" height="6" rx="1" fill="#000" />
@@ -515,9 +533,9 @@ const MinimalThumbnail: React.FC = () => (
 /**
  * Professional Template Thumbnail
  */
-const ProfessionalThumbnail: React.FC = () => (
-  <svg viewBox="0 0 200 260" fill="none" xmlns="http://www.w3.org/2000/svg">
-    <rect width="200" height="260" fill="white" />
+const ProfessionalThumbnail: React.FC<PageProps> = ({ height }) => (
+  <svg viewBox={`0 0 200 ${height}`} fill="none" xmlns="http://www.w3.org/2000/svg">
+    <rect width="200" height={height} fill="white" />
 
     {/* Header - Centered with border */}
     <rect x="60" y="20" width="80" height="7" rx="2" fill="#2c3e50" />
@@ -739,9 +757,9 @@ const ProfessionalThumbnail: React.FC = () => (
  * Academic Template Thumbnail
  * LaTeX-inspired academic resume layout
  */
-const AcademicThumbnail: React.FC = () => (
-  <svg viewBox="0 0 200 260" fill="none" xmlns="http://www.w3.org/2000/svg">
-    <rect width="200" height="260" fill="white" />
+const AcademicThumbnail: React.FC<PageProps> = ({ height }) => (
+  <svg viewBox={`0 0 200 ${height}`} fill="none" xmlns="http://www.w3.org/2000/svg">
+    <rect width="200" height={height} fill="white" />
 
     {/* Header - Centered LaTeX style */}
     <rect x="55" y="20" width="90" height="7" rx="1" fill="#000" />
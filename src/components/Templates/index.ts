@@ -7,20 +7,15 @@
 export { TemplateBase, templateUtils } from "./TemplateBase";
 export type { TemplateBaseProps } from "./TemplateBase";
 
-//Add new templates here
-// Template components
-export { ClassicTemplate } from "./ClassicTemplate";
-export { ModernTemplate } from "./ModernTemplate";
-export { MinimalTemplate } from "./MinimalTemplate";
-export { ProfessionalTemplate } from "./ProfessionalTemplate";
-export { ProfessionalSample1Template } from "./ProfessionalSample1Template";
-export { AcademicTemplate } from "./AcademicTemplate";
+// Templates are drawn from definitions in constants/templateDefinitions
+export { GenericTemplate } from "./GenericTemplate";
+export type { GenericTemplateProps } from "./GenericTemplate";
 export { TemplateThumbnail } from "./TemplateThumbnail";
 
 
 // Template configurations and types
 export { TEMPLATE_CONFIGS } from "../../types/template.types";
-export type { TemplateConfig } from "../../types/template.types";
+export type { TemplateConfig, TemplateDefinition } from "../../types/template.types";
 
 // Re-export template helpers for convenience
 export { templateHelpers } from "../../utils/templateHelpers";
\ No newline at end of file
@@ -3,9 +3,10 @@
  * Modal for importing and exporting resumes in various formats
  */
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Modal } from './Modal';
 import { Button } from './Button';
+import { ResumeImportWizard } from './ResumeImportWizard';
 import {
     Download,
     Upload,
@@ -16,6 +17,8 @@ import {
     AlertCircle
 } from 'lucide-react';
 import { useImportExport } from '../../hooks/useImportExport';
+import { createEmptyResume } from '../../constants/defaultResume';
+import type { Resume } from '../../types/resume.types';
 import type { ResumeResponse } from '../../types/api.types';
 
 interface ImportExportModalProps {
@@ -28,7 +31,7 @@ interface ImportExportModalProps {
 }
 
 type TabType = 'export' | 'import';
-type ExportFormat = 'json' | 'pdf' | 'docx';
+type ExportFormat = 'json' | 'jsonresume' | 'pdf' | 'docx' | 'txt' | 'md';
 
 export const ImportExportModal: React.FC<ImportExportModalProps> = ({
     isOpen,
@@ -41,21 +44,38 @@ export const ImportExportModal: React.FC<ImportExportModalProps> = ({
     const [activeTab, setActiveTab] = useState<TabType>('export');
     const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('json');
     const [successMessage, setSuccessMessage] = useState<string | null>(null);
+    const [closeAfterImport, setCloseAfterImport] = useState(false);
+    const [wizardFile, setWizardFile] = useState<File | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     const {
         isExporting,
         isImporting,
         error,
+        unmappedFields,
         exportAsJSON,
+        exportAsJsonResume,
         exportAsPDF,
         exportAsDOCX,
+        exportAsText,
         bulkExportAsJSON,
         importFromJSON,
-        importFromFile,
+        importParsedResume,
         clearError,
     } = useImportExport();
 
+    // Auto-close after a successful import, unless there are dropped fields to review
+    useEffect(() => {
+        if (!closeAfterImport) return;
+        setCloseAfterImport(false);
+        if (unmappedFields.length > 0) return;
+
+        const timer = setTimeout(() => {
+            onClose();
+        }, 1500);
+        return () => clearTimeout(timer);
+    }, [closeAfterImport, unmappedFields, onClose]);
+
     const handleExport = async () => {
         try {
             clearError();
@@ -74,14 +94,26 @@ export const ImportExportModal: React.FC<ImportExportModalProps> = ({
                         await exportAsJSON(resume);
                         setSuccessMessage('Resume exported as JSON');
                         break;
+                    case 'jsonresume':
+                        await exportAsJsonResume(resume);
+                        setSuccessMessage('Resume exported as JSON Resume');
+                        break;
                     case 'pdf':
                         await exportAsPDF(resume.id);
                         setSuccessMessage('Resume exported as PDF');
                         break;
                     case 'docx':
-                        await exportAsDOCX(resume.id);
+                        await exportAsDOCX(resume);
                         setSuccessMessage('Resume exported as DOCX');
                         break;
+                    case 'txt':
+                        await exportAsText(resume, 'plain');
+                        setSuccessMessage('Resume exported as plain text');
+                        break;
+                    case 'md':
+                        await exportAsText(resume, 'markdown');
+                        setSuccessMessage('Resume exported as Markdown');
+                        break;
                 }
             }
 
@@ -96,26 +128,35 @@ export const ImportExportModal: React.FC<ImportExportModalProps> = ({
             clearError();
             setSuccessMessage(null);
 
-            let importedResume: ResumeResponse | null = null;
-
-            if (file.type === 'application/json') {
-                importedResume = await importFromJSON(file);
-            } else {
-                importedResume = await importFromFile(file);
+            if (file.type !== 'application/json' && !file.name.toLowerCase().endsWith('.json')) {
+                // PDF/DOCX are parsed client-side and reviewed before anything is created
+                setWizardFile(file);
+                return;
             }
 
+            const importedResume = await importFromJSON(file);
             if (importedResume) {
-                setSuccessMessage('Resume imported successfully');
-                onImportSuccess?.(importedResume);
-                setTimeout(() => {
-                    onClose();
-                }, 1500);
+                handleImported(importedResume);
             }
         } catch (err) {
             console.error('Import failed:', err);
         }
     };
 
+    const handleImported = (importedResume: ResumeResponse) => {
+        setSuccessMessage('Resume imported successfully');
+        onImportSuccess?.(importedResume);
+        setCloseAfterImport(true);
+    };
+
+    const handleWizardConfirm = async (parsedResume: Resume) => {
+        const importedResume = await importParsedResume(parsedResume);
+        setWizardFile(null);
+        if (importedResume) {
+            handleImported(importedResume);
+        }
+    };
+
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) {
@@ -146,6 +187,13 @@ export const ImportExportModal: React.FC<ImportExportModalProps> = ({
             icon: FileJson,
             available: true,
         },
+        {
+            value: 'jsonresume' as ExportFormat,
+            label: 'JSON Resume',
+            description: 'Open jsonresume.org standard for themes and other tools',
+            icon: FileJson,
+            available: mode === 'single',
+        },
         {
             value: 'pdf' as ExportFormat,
             label: 'PDF',
@@ -160,185 +208,221 @@ export const ImportExportModal: React.FC<ImportExportModalProps> = ({
             icon: File,
             available: mode === 'single',
         },
+        {
+            value: 'txt' as ExportFormat,
+            label: 'Plain Text',
+            description: 'ATS-friendly text for job portal paste boxes',
+            icon: FileText,
+            available: mode === 'single',
+        },
+        {
+            value: 'md' as ExportFormat,
+            label: 'Markdown',
+            description: 'Lightweight formatted text for READMEs and docs',
+            icon: FileText,
+            available: mode === 'single',
+        },
     ];
 
     return (
-        <Modal
-            isOpen={isOpen}
-            onClose={onClose}
-            title={mode === 'bulk' ? 'Bulk Export Resumes' : 'Import / Export Resume'}
-            size="lg"
-        >
-            <div className="space-y-6">
-                {/* Tabs */}
-                {mode === 'single' && (
-                    <div className="flex gap-2 border-b border-gray-200">
-                        <button
-                            onClick={() => setActiveTab('export')}
-                            className={`px-4 py-2 font-medium text-sm border-b-2 transition-colors ${activeTab === 'export'
-                                ? 'border-blue-600 text-blue-600'
-                                : 'border-transparent text-gray-600 hover:text-gray-900'
-                                }`}
-                        >
-                            <Download className="w-4 h-4 inline mr-2" />
-                            Export
-                        </button>
-                        <button
-                            onClick={() => setActiveTab('import')}
-                            className={`px-4 py-2 font-medium text-sm border-b-2 transition-colors ${activeTab === 'import'
-                                ? 'border-blue-600 text-blue-600'
-                                : 'border-transparent text-gray-600 hover:text-gray-900'
-                                }`}
-                        >
-                            <Upload className="w-4 h-4 inline mr-2" />
-                            Import
-                        </button>
-                    </div>
-                )}
-
-                {/* Success Message */}
-                {successMessage && (
-                    <div className="flex items-center gap-2 p-4 bg-green-50 border border-green-200 rounded-md">
-                        <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
-                        <p className="text-sm text-green-800">{successMessage}</p>
-                    </div>
-                )}
-
-                {/* Error Message */}
-                {error && (
-                    <div className="flex items-center gap-2 p-4 bg-red-50 border border-red-200 rounded-md">
-                        <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
-                        <p className="text-sm text-red-800">{error}</p>
-                    </div>
-                )}
-
-                {/* Export Tab */}
-                {(activeTab === 'export' || mode === 'bulk') && (
-                    <div className="space-y-6">
-                        <div>
-                            <h3 className="text-sm font-medium text-gray-900 mb-4">
-                                {mode === 'bulk' ? 'Select Export Format' : 'Choose Export Format'}
-                            </h3>
-                            <div className="grid grid-cols-1 gap-3">
-                                {formatOptions
-                                    .filter(option => option.available)
-                                    .map((option) => {
-                                        const Icon = option.icon;
-                                        return (
-                                            <button
-                                                key={option.value}
-                                                onClick={() => setSelectedFormat(option.value)}
-                                                className={`flex items-start gap-4 p-4 border-2 rounded-lg transition-all ${selectedFormat === option.value
-                                                    ? 'border-blue-600 bg-blue-50'
-                                                    : 'border-gray-200 hover:border-gray-300'
-                                                    }`}
-                                            >
-                                                <Icon className={`w-6 h-6 flex-shrink-0 ${selectedFormat === option.value ? 'text-blue-600' : 'text-gray-400'
-                                                    }`} />
-                                                <div className="flex-1 text-left">
-                                                    <div className="font-medium text-gray-900">{option.label}</div>
-                                                    <div className="text-sm text-gray-600">{option.description}</div>
-                                                </div>
-                                                {selectedFormat === option.value && (
-                                                    <CheckCircle className="w-5 h-5 text-blue-600 flex-shrink-0" />
-                                                )}
-                                            </button>
-                                        );
-                                    })}
-                            </div>
+        <>
+            <Modal
+                isOpen={isOpen}
+                onClose={onClose}
+                title={mode === 'bulk' ? 'Bulk Export Resumes' : 'Import / Export Resume'}
+                size="lg"
+            >
+                <div className="space-y-6">
+                    {/* Tabs */}
+                    {mode === 'single' && (
+                        <div className="flex gap-2 border-b border-gray-200">
+                            <button
+                                onClick={() => setActiveTab('export')}
+                                className={`px-4 py-2 font-medium text-sm border-b-2 transition-colors ${activeTab === 'export'
+                                    ? 'border-blue-600 text-blue-600'
+                                    : 'border-transparent text-gray-600 hover:text-gray-900'
+                                    }`}
+                            >
+                                <Download className="w-4 h-4 inline mr-2" />
+                                Export
+                            </button>
+                            <button
+                                onClick={() => setActiveTab('import')}
+                                className={`px-4 py-2 font-medium text-sm border-b-2 transition-colors ${activeTab === 'import'
+                                    ? 'border-blue-600 text-blue-600'
+                                    : 'border-transparent text-gray-600 hover:text-gray-900'
+                                    }`}
+                            >
+                                <Upload className="w-4 h-4 inline mr-2" />
+                                Import
+                            </button>
+                        </div>
+                    )}
+
+                    {/* Success Message */}
+                    {successMessage && (
+                        <div className="flex items-center gap-2 p-4 bg-green-50 border border-green-200 rounded-md">
+                            <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+                            <p className="text-sm text-green-800">{successMessage}</p>
+                        </div>
+                    )}
+
+                    {/* Error Message */}
+                    {error && (
+                        <div className="flex items-center gap-2 p-4 bg-red-50 border border-red-200 rounded-md">
+                            <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                            <p className="text-sm text-red-800">{error}</p>
                         </div>
+                    )}
 
-                        {mode === 'bulk' && (
-                            <div className="p-4 bg-blue-50 border border-blue-200 rounded-md">
-                                <p className="text-sm text-blue-800">
-                                    <strong>{resumes.length}</strong> resume{resumes.length !== 1 ? 's' : ''} will be exported
-                                </p>
+                    {/* Unmapped Fields Warning */}
+                    {unmappedFields.length > 0 && (
+                        <div className="flex items-start gap-2 p-4 bg-yellow-50 border border-yellow-200 rounded-md">
+                            <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+                            <div className="text-sm text-yellow-800">
+                                <p className="font-medium">Some fields could not be mapped and were left out:</p>
+                                <p className="mt-1 break-words">{unmappedFields.join(', ')}</p>
                             </div>
-                        )}
-
-                        <div className="flex justify-end gap-3">
-                            <Button variant="secondary" onClick={onClose}>
-                                Cancel
-                            </Button>
-                            <Button
-                                variant="primary"
-                                onClick={handleExport}
-                                loading={isExporting}
-                                disabled={isExporting}
-                            >
-                                <Download className="w-4 h-4 mr-2" />
-                                Export {mode === 'bulk' ? 'All' : selectedFormat.toUpperCase()}
-                            </Button>
                         </div>
-                    </div>
-                )}
-
-                {/* Import Tab */}
-                {activeTab === 'import' && mode === 'single' && (
-                    <div className="space-y-6">
-                        <div>
-                            <h3 className="text-sm font-medium text-gray-900 mb-4">
-                                Import Resume
-                            </h3>
-
-                            {/* Drag and Drop Area */}
-                            <div
-                                onDragOver={handleDragOver}
-                                onDrop={handleDrop}
-                                className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-blue-400 transition-colors cursor-pointer"
-                                onClick={() => fileInputRef.current?.click()}
-                            >
-                                <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-                                <p className="text-sm font-medium text-gray-900 mb-1">
-                                    Drop your resume file here, or click to browse
-                                </p>
-                                <p className="text-xs text-gray-600">
-                                    Supports JSON, PDF, and DOCX files
-                                </p>
+                    )}
+
+                    {/* Export Tab */}
+                    {(activeTab === 'export' || mode === 'bulk') && (
+                        <div className="space-y-6">
+                            <div>
+                                <h3 className="text-sm font-medium text-gray-900 mb-4">
+                                    {mode === 'bulk' ? 'Select Export Format' : 'Choose Export Format'}
+                                </h3>
+                                <div className="grid grid-cols-1 gap-3">
+                                    {formatOptions
+                                        .filter(option => option.available)
+                                        .map((option) => {
+                                            const Icon = option.icon;
+                                            return (
+                                                <button
+                                                    key={option.value}
+                                                    onClick={() => setSelectedFormat(option.value)}
+                                                    className={`flex items-start gap-4 p-4 border-2 rounded-lg transition-all ${selectedFormat === option.value
+                                                        ? 'border-blue-600 bg-blue-50'
+                                                        : 'border-gray-200 hover:border-gray-300'
+                                                        }`}
+                                                >
+                                                    <Icon className={`w-6 h-6 flex-shrink-0 ${selectedFormat === option.value ? 'text-blue-600' : 'text-gray-400'
+                                                        }`} />
+                                                    <div className="flex-1 text-left">
+                                                        <div className="font-medium text-gray-900">{option.label}</div>
+                                                        <div className="text-sm text-gray-600">{option.description}</div>
+                                                    </div>
+                                                    {selectedFormat === option.value && (
+                                                        <CheckCircle className="w-5 h-5 text-blue-600 flex-shrink-0" />
+                                                    )}
+                                                </button>
+                                            );
+                                        })}
+                                </div>
                             </div>
 
-                            <input
-                                ref={fileInputRef}
-                                type="file"
-                                accept=".json,.pdf,.docx"
-                                onChange={handleFileSelect}
-                                className="hidden"
-                            />
+                            {mode === 'bulk' && (
+                                <div className="p-4 bg-blue-50 border border-blue-200 rounded-md">
+                                    <p className="text-sm text-blue-800">
+                                        <strong>{resumes.length}</strong> resume{resumes.length !== 1 ? 's' : ''} will be exported
+                                    </p>
+                                </div>
+                            )}
+
+                            <div className="flex justify-end gap-3">
+                                <Button variant="secondary" onClick={onClose}>
+                                    Cancel
+                                </Button>
+                                <Button
+                                    variant="primary"
+                                    onClick={handleExport}
+                                    loading={isExporting}
+                                    disabled={isExporting}
+                                >
+                                    <Download className="w-4 h-4 mr-2" />
+                                    Export {mode === 'bulk' ? 'All' : formatOptions.find(option => option.value === selectedFormat)?.label}
+                                </Button>
+                            </div>
                         </div>
+                    )}
 
-                        {/* Import Info */}
-                        <div className="space-y-3">
-                            <div className="flex items-start gap-3 p-3 bg-gray-50 rounded-md">
-                                <FileJson className="w-5 h-5 text-gray-600 flex-shrink-0 mt-0.5" />
-                                <div className="text-sm">
-                                    <div className="font-medium text-gray-900">JSON Files</div>
-                                    <div className="text-gray-600">
-                                        Import previously exported resumes with full data preservation
-                                    </div>
+                    {/* Import Tab */}
+                    {activeTab === 'import' && mode === 'single' && (
+                        <div className="space-y-6">
+                            <div>
+                                <h3 className="text-sm font-medium text-gray-900 mb-4">
+                                    Import Resume
+                                </h3>
+
+                                {/* Drag and Drop Area */}
+                                <div
+                                    onDragOver={handleDragOver}
+                                    onDrop={handleDrop}
+                                    className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-blue-400 transition-colors cursor-pointer"
+                                    onClick={() => fileInputRef.current?.click()}
+                                >
+                                    <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                                    <p className="text-sm font-medium text-gray-900 mb-1">
+                                        Drop your resume file here, or click to browse
+                                    </p>
+                                    <p className="text-xs text-gray-600">
+                                        Supports JSON, PDF, and DOCX files
+                                    </p>
                                 </div>
+
+                                <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    accept=".json,.pdf,.docx"
+                                    onChange={handleFileSelect}
+                                    className="hidden"
+                                />
                             </div>
-                            <div className="flex items-start gap-3 p-3 bg-gray-50 rounded-md">
-                                <FileText className="w-5 h-5 text-gray-600 flex-shrink-0 mt-0.5" />
-                                <div className="text-sm">
-                                    <div className="font-medium text-gray-900">PDF / DOCX Files</div>
-                                    <div className="text-gray-600">
-                                        AI-powered parsing to extract resume content (may require manual review)
+
+                            {/* Import Info */}
+                            <div className="space-y-3">
+                                <div className="flex items-start gap-3 p-3 bg-gray-50 rounded-md">
+                                    <FileJson className="w-5 h-5 text-gray-600 flex-shrink-0 mt-0.5" />
+                                    <div className="text-sm">
+                                        <div className="font-medium text-gray-900">JSON Files</div>
+                                        <div className="text-gray-600">
+                                            Import previously exported resumes with full data preservation, or JSON Resume (jsonresume.org) documents
+                                        </div>
+                                    </div>
+                                </div>
+                                <div className="flex items-start gap-3 p-3 bg-gray-50 rounded-md">
+                                    <FileText className="w-5 h-5 text-gray-600 flex-shrink-0 mt-0.5" />
+                                    <div className="text-sm">
+                                        <div className="font-medium text-gray-900">PDF / DOCX Files</div>
+                                        <div className="text-gray-600">
+                                            Parsed in your browser into sections you can review before importing (scanned PDFs are not supported)
+                                        </div>
                                     </div>
                                 </div>
                             </div>
-                        </div>
 
-                        {isImporting && (
-                            <div className="flex items-center justify-center py-8">
-                                <div className="text-center">
-                                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-                                    <p className="text-sm text-gray-600">Importing resume...</p>
+                            {isImporting && (
+                                <div className="flex items-center justify-center py-8">
+                                    <div className="text-center">
+                                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                                        <p className="text-sm text-gray-600">Importing resume...</p>
+                                    </div>
                                 </div>
-                            </div>
-                        )}
-                    </div>
-                )}
-            </div>
-        </Modal>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </Modal>
+
+            <ResumeImportWizard
+                isOpen={wizardFile !== null}
+                file={wizardFile}
+                baseResume={createEmptyResume()}
+                onClose={() => setWizardFile(null)}
+                onConfirm={handleWizardConfirm}
+                confirmLabel="Create Resume"
+            />
+        </>
     );
 };
@@ -102,6 +102,7 @@ export const Input = forwardRef<HTMLInputElement, InputProps>(
                   ? `${inputId}-helper`
                   : undefined
             }
+            dir="auto"
             {...props}
           />
 
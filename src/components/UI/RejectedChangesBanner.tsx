@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { AlertOctagon } from 'lucide-react';
+import { Button } from './Button';
+import { pendingContent, type QueuedMutation } from '../../services/syncQueue';
+import { summarizeChanges } from '../../utils/versionSnapshots';
+
+export interface RejectedChangesBannerProps {
+    changes: QueuedMutation[];
+    /** Title of the resume a change belongs to, when it isn't the open one */
+    resumeTitle?: (resumeId: string) => string | undefined;
+    onRetry: (mutationId: string) => Promise<void>;
+    onDiscard: (mutationId: string) => Promise<void>;
+}
+
+const describeChange = (mutation: QueuedMutation): string => {
+    const { data, base } = mutation;
+    const parts: string[] = [];
+    if (data.title !== undefined) parts.push(`Title "${data.title}"`);
+    if (data.templateId !== undefined) parts.push(`Template ${data.templateId}`);
+    if (data.content) {
+        const summary = summarizeChanges(
+            { templateId: '', content: base.content },
+            { templateId: '', content: pendingContent(mutation) }
+        );
+        if (summary) parts.push(summary);
+    }
+    return parts.join('; ') || 'Resume details';
+};
+
+/**
+ * Changes the server refused to save. They are kept on this device until the
+ * user sends them again or drops them, so nothing is lost silently.
+ */
+export const RejectedChangesBanner: React.FC<RejectedChangesBannerProps> = ({ changes, resumeTitle, onRetry, onDiscard }) => {
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    if (changes.length === 0) return null;
+
+    const run = async (mutationId: string, action: (id: string) => Promise<void>) => {
+        setBusyId(mutationId);
+        try {
+            await action(mutationId);
+        } catch (err) {
+            console.error('Failed to update the rejected change:', err);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <div className="bg-red-50 border-b border-red-200 px-4 py-3 print:hidden">
+            <div className="flex items-start gap-3">
+                <AlertOctagon className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                <div className="flex-1 min-w-0 space-y-2">
+                    <p className="text-sm font-medium text-red-800">
+                        {changes.length === 1 ? 'A change was' : `${changes.length} changes were`} not saved. The server
+                        refused {changes.length === 1 ? 'it' : 'them'}; later edits wait until you retry or discard.
+                    </p>
+                    <ul className="space-y-2">
+                        {changes.map((change) => {
+                            const title = resumeTitle?.(change.resumeId);
+                            return (
+                                <li key={change.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                                    <div className="min-w-0">
+                                        <p className="text-red-900 truncate">
+                                            {title && <span className="font-medium">{title}: </span>}
+                                            {describeChange(change)}
+                                        </p>
+                                        <p className="text-xs text-red-700">
+                                            {change.rejection?.message} · edited {new Date(change.queuedAt).toLocaleString()}
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button
+                                            variant="secondary"
+                                            size="sm"
+                                            disabled={busyId !== null}
+                                            onClick={() => run(change.id, onRetry)}
+                                        >
+                                            Retry
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            disabled={busyId !== null}
+                                            onClick={() => run(change.id, onDiscard)}
+                                        >
+                                            Discard
+                                        </Button>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+            </div>
+        </div>
+    );
+};
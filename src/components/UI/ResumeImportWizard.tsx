@@ -0,0 +1,363 @@
+/**
+ * ResumeImportWizard Component
+ * Parses an uploaded PDF/DOCX in the browser and shows the extracted text
+ * next to the structured result, so the user can review confidence scores
+ * and choose what to keep before the resume is replaced.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { AlertCircle, CheckCircle, FileText } from 'lucide-react';
+import { parseResumeFile, getDefaultImportSelection, parsedResumeToResume } from '../../utils/resumeParser';
+import { templateHelpers } from '../../utils/templateHelpers';
+import type { Resume } from '../../types/resume.types';
+import type { ImportSelection, ParsedItem, ParsedResume, ParsedSection } from '../../types/resumeImport.types';
+
+export interface ResumeImportWizardProps {
+    isOpen: boolean;
+    file: File | null;
+    /** Resume whose id, layout and template the import keeps */
+    baseResume: Resume;
+    onClose: () => void;
+    onConfirm: (resume: Resume) => void | Promise<void>;
+    confirmLabel?: string;
+}
+
+const ConfidenceBadge: React.FC<{ value: number }> = ({ value }) => {
+    const level = value >= 0.8 ? 'High' : value >= 0.5 ? 'Medium' : 'Low';
+    const colors = {
+        High: 'bg-green-100 text-green-800',
+        Medium: 'bg-yellow-100 text-yellow-800',
+        Low: 'bg-red-100 text-red-800',
+    };
+
+    return (
+        <span
+            className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${colors[level]}`}
+            title={`Parser confidence: ${Math.round(value * 100)}%`}
+        >
+            {level} · {Math.round(value * 100)}%
+        </span>
+    );
+};
+
+const dateRange = (startDate?: string, endDate?: string, current?: boolean): string =>
+    startDate || endDate || current
+        ? templateHelpers.date.formatDateRange(startDate || '', endDate || '', !!current)
+        : '';
+
+interface ItemSummary {
+    item: ParsedItem<unknown>;
+    title: string;
+    detail: string;
+}
+
+/**
+ * One-line descriptions of the parsed items of a section for the review list
+ */
+const describeItems = (section: ParsedSection): ItemSummary[] => {
+    switch (section.type) {
+        case 'experience':
+            return section.items.map((item) => ({
+                item,
+                title: [item.data.jobTitle, item.data.company].filter(Boolean).join(' at ') || 'Untitled position',
+                detail: [
+                    item.data.location,
+                    dateRange(item.data.startDate, item.data.endDate, item.data.current),
+                    item.data.achievements?.length
+                        ? `${item.data.achievements.length} bullet${item.data.achievements.length === 1 ? '' : 's'}`
+                        : '',
+                ].filter(Boolean).join(' · '),
+            }));
+        case 'education':
+            return section.items.map((item) => ({
+                item,
+                title: [item.data.degree, item.data.institution].filter(Boolean).join(', ') || 'Untitled education',
+                detail: [
+                    item.data.location,
+                    dateRange(item.data.startDate, item.data.endDate),
+                    item.data.gpa ? `GPA ${item.data.gpa}` : '',
+                ].filter(Boolean).join(' · '),
+            }));
+        case 'skills':
+            return section.items.map((item) => ({ item, title: item.data.name, detail: item.data.category }));
+        case 'certifications':
+            return section.items.map((item) => ({
+                item,
+                title: item.data.name,
+                detail: [
+                    item.data.issuer,
+                    item.data.issueDate ? templateHelpers.date.formatDate(item.data.issueDate) : '',
+                ].filter(Boolean).join(' · '),
+            }));
+        default:
+            return section.items.map((item) => ({
+                item,
+                title: item.data.length > 160 ? `${item.data.slice(0, 160)}…` : item.data,
+                detail: '',
+            }));
+    }
+};
+
+export const ResumeImportWizard: React.FC<ResumeImportWizardProps> = ({
+    isOpen,
+    file,
+    baseResume,
+    onClose,
+    onConfirm,
+    confirmLabel = 'Replace Resume',
+}) => {
+    const [parsed, setParsed] = useState<ParsedResume | null>(null);
+    const [selection, setSelection] = useState<ImportSelection | null>(null);
+    const [isParsing, setIsParsing] = useState(false);
+    const [isConfirming, setIsConfirming] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [highlight, setHighlight] = useState<[number, number] | null>(null);
+
+    useEffect(() => {
+        if (!isOpen || !file) return;
+        let cancelled = false;
+
+        setParsed(null);
+        setSelection(null);
+        setError(null);
+        setIsParsing(true);
+
+        parseResumeFile(file)
+            .then((result) => {
+                if (cancelled) return;
+                setParsed(result);
+                setSelection(getDefaultImportSelection(result));
+            })
+            .catch((err) => {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to read the file');
+            })
+            .finally(() => {
+                if (!cancelled) setIsParsing(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, file]);
+
+    const selectedCount = useMemo(() => selection?.itemIds.size ?? 0, [selection]);
+
+    const toggleItem = (id: string) => {
+        setSelection((prev) => {
+            if (!prev) return prev;
+            const itemIds = new Set(prev.itemIds);
+            if (itemIds.has(id)) itemIds.delete(id);
+            else itemIds.add(id);
+            return { ...prev, itemIds };
+        });
+    };
+
+    const toggleSection = (section: ParsedSection, include: boolean) => {
+        setSelection((prev) => {
+            if (!prev) return prev;
+            const itemIds = new Set(prev.itemIds);
+            (section.items as ParsedItem<unknown>[]).forEach((item) => {
+                if (include) itemIds.add(item.id);
+                else itemIds.delete(item.id);
+            });
+            return { ...prev, itemIds };
+        });
+    };
+
+    const handleConfirm = async () => {
+        if (!parsed || !selection) return;
+        try {
+            setIsConfirming(true);
+            await onConfirm(parsedResumeToResume(parsed, selection, baseResume));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to import resume');
+        } finally {
+            setIsConfirming(false);
+        }
+    };
+
+    const isHighlighted = (index: number) => !!highlight && index >= highlight[0] && index <= highlight[1];
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Review Imported Resume" size="xl">
+            <div className="space-y-4">
+                {isParsing && (
+                    <div className="flex items-center justify-center py-12">
+                        <div className="text-center">
+                            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                            <p className="text-sm text-gray-600">Reading {file?.name}...</p>
+                        </div>
+                    </div>
+                )}
+
+                {error && (
+                    <div className="flex items-center gap-2 p-4 bg-red-50 border border-red-200 rounded-md">
+                        <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                        <p className="text-sm text-red-800">{error}</p>
+                    </div>
+                )}
+
+                {parsed && parsed.warnings.length > 0 && (
+                    <div className="flex items-start gap-2 p-4 bg-yellow-50 border border-yellow-200 rounded-md">
+                        <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+                        <ul className="text-sm text-yellow-800 space-y-1">
+                            {parsed.warnings.map((warning) => (
+                                <li key={warning}>{warning}</li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {parsed && selection && (
+                    <>
+                        <p className="text-sm text-gray-600">
+                            Check what was recognised before importing. Items with low confidence are unticked;
+                            hover an item to see where it came from.
+                        </p>
+
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                            {/* Source document */}
+                            <div className="border border-gray-200 rounded-lg flex flex-col min-h-0">
+                                <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+                                    <FileText className="w-4 h-4 text-gray-500" />
+                                    <span className="text-sm font-medium text-gray-900 truncate">{parsed.fileName}</span>
+                                </div>
+                                <div className="overflow-y-auto max-h-[55vh] p-2 font-mono text-xs">
+                                    {parsed.lines.map((line, index) => (
+                                        <div
+                                            key={index}
+                                            className={`flex gap-3 px-2 py-0.5 rounded ${isHighlighted(index) ? 'bg-blue-100' : ''} ${line.isHeading ? 'font-bold' : ''}`}
+                                        >
+                                            <span className="text-gray-400 select-none w-6 text-right flex-shrink-0">{index + 1}</span>
+                                            <span className="text-gray-800 whitespace-pre-wrap break-words">{line.text}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Parsed result */}
+                            <div className="border border-gray-200 rounded-lg overflow-y-auto max-h-[60vh] divide-y divide-gray-200">
+                                <div
+                                    className="p-4"
+                                    onMouseEnter={() => setHighlight(parsed.personalInfo.lines)}
+                                    onMouseLeave={() => setHighlight(null)}
+                                >
+                                    <label className="flex items-center justify-between gap-3 cursor-pointer">
+                                        <span className="flex items-center gap-2">
+                                            <input
+                                                type="checkbox"
+                                                checked={selection.includePersonalInfo}
+                                                onChange={(e) => setSelection({ ...selection, includePersonalInfo: e.target.checked })}
+                                                className="rounded border-gray-300 text-blue-600"
+                                            />
+                                            <span className="text-sm font-semibold text-gray-900">Personal Information</span>
+                                        </span>
+                                        <ConfidenceBadge value={parsed.personalInfo.confidence} />
+                                    </label>
+                                    <dl className="mt-2 grid grid-cols-3 gap-x-3 gap-y-1 text-xs">
+                                        {(['fullName', 'title', 'email', 'phone', 'location', 'linkedin', 'github', 'website'] as const)
+                                            .filter((field) => parsed.personalInfo.data[field])
+                                            .map((field) => (
+                                                <React.Fragment key={field}>
+                                                    <dt className="text-gray-500">{templateHelpers.text.titleCase(field.replace(/([A-Z])/g, ' $1'))}</dt>
+                                                    <dd className="col-span-2 text-gray-900 truncate">{parsed.personalInfo.data[field]}</dd>
+                                                </React.Fragment>
+                                            ))}
+                                    </dl>
+                                </div>
+
+                                {parsed.sections.map((section) => {
+                                    const items = section.items as ParsedItem<unknown>[];
+                                    const allSelected = items.length > 0 && items.every((item) => selection.itemIds.has(item.id));
+
+                                    return (
+                                        <div key={section.id} className="p-4">
+                                            <div
+                                                className="flex items-center justify-between gap-3"
+                                                onMouseEnter={() => setHighlight(section.lines)}
+                                                onMouseLeave={() => setHighlight(null)}
+                                            >
+                                                <label className="flex items-center gap-2 cursor-pointer min-w-0">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={allSelected}
+                                                        disabled={items.length === 0}
+                                                        onChange={(e) => toggleSection(section, e.target.checked)}
+                                                        className="rounded border-gray-300 text-blue-600"
+                                                    />
+                                                    <span className="text-sm font-semibold text-gray-900 truncate">{section.title}</span>
+                                                    <span className="text-xs text-gray-500 flex-shrink-0">
+                                                        → {section.type === 'custom' ? 'Custom section' : templateHelpers.text.titleCase(section.type)}
+                                                    </span>
+                                                </label>
+                                                <ConfidenceBadge value={section.confidence} />
+                                            </div>
+
+                                            {items.length === 0 ? (
+                                                <p className="mt-2 text-xs text-gray-500">Nothing could be extracted from this section.</p>
+                                            ) : (
+                                                <ul className="mt-2 space-y-1">
+                                                    {describeItems(section).map(({ item, title, detail }) => {
+                                                        return (
+                                                            <li
+                                                                key={item.id}
+                                                                onMouseEnter={() => setHighlight(item.lines)}
+                                                                onMouseLeave={() => setHighlight(null)}
+                                                            >
+                                                                <label className="flex items-start justify-between gap-3 p-2 rounded hover:bg-gray-50 cursor-pointer">
+                                                                    <span className="flex items-start gap-2 min-w-0">
+                                                                        <input
+                                                                            type="checkbox"
+                                                                            checked={selection.itemIds.has(item.id)}
+                                                                            onChange={() => toggleItem(item.id)}
+                                                                            className="mt-0.5 rounded border-gray-300 text-blue-600"
+                                                                        />
+                                                                        <span className="min-w-0">
+                                                                            <span className="block text-sm text-gray-900 break-words whitespace-pre-line">{title}</span>
+                                                                            {detail && <span className="block text-xs text-gray-500">{detail}</span>}
+                                                                        </span>
+                                                                    </span>
+                                                                    <ConfidenceBadge value={item.confidence} />
+                                                                </label>
+                                                            </li>
+                                                        );
+                                                    })}
+                                                </ul>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    </>
+                )}
+
+                <div className="flex items-center justify-between gap-3 pt-2">
+                    <p className="text-sm text-gray-600">
+                        {selection && (
+                            <>
+                                <CheckCircle className="w-4 h-4 inline mr-1 text-green-600" />
+                                {selectedCount} item{selectedCount === 1 ? '' : 's'} selected
+                            </>
+                        )}
+                    </p>
+                    <div className="flex gap-3">
+                        <Button variant="secondary" onClick={onClose}>
+                            Cancel
+                        </Button>
+                        <Button
+                            variant="primary"
+                            onClick={handleConfirm}
+                            loading={isConfirming}
+                            disabled={!parsed || !selection || isConfirming}
+                        >
+                            {confirmLabel}
+                        </Button>
+                    </div>
+                </div>
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,151 @@
+import React, { useRef } from "react";
+import { Bold, Italic, Link, List } from "lucide-react";
+import { Textarea, TextareaProps } from "./Textarea";
+import {
+  RichTextEdit,
+  RichTextMark,
+  insertLink,
+  stripRichText,
+  toLinkTarget,
+  toggleBullets,
+  toggleMark,
+} from "../../utils/richText";
+
+/**
+ * RichTextarea component props interface
+ */
+export interface RichTextareaProps extends Omit<TextareaProps, "value" | "onChange"> {
+  value: string;
+  /** Called with the new text after typing or a toolbar action */
+  onChange: (value: string) => void;
+  /** Whether the toolbar offers bullet lists (off for single bullets) */
+  allowBullets?: boolean;
+}
+
+/**
+ * Textarea with a small formatting toolbar for bold, italic, links and
+ * bullet lists. The formatting is written into the text as the markup
+ * utils/richText.ts reads, so the value stays a plain string.
+ * Ctrl/Cmd+B, +I and +K work as shortcuts.
+ *
+ * @example
+ * ```tsx
+ * <RichTextarea
+ *   label="Description"
+ *   value={description}
+ *   onChange={setDescription}
+ *   allowBullets
+ * />
+ * ```
+ */
+export const RichTextarea: React.FC<RichTextareaProps> = ({
+  value,
+  onChange,
+  allowBullets = false,
+  label,
+  required,
+  id,
+  maxLength,
+  showCharCount = false,
+  onKeyDown,
+  disabled,
+  ...props
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const textareaId = useRef(id || `rich-text-${Math.random().toString(36).substr(2, 9)}`).current;
+
+  const apply = (edit: (value: string, start: number, end: number) => RichTextEdit | null) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const result = edit(value, textarea.selectionStart, textarea.selectionEnd);
+    if (!result) return;
+
+    onChange(result.value);
+    // Restore the selection once React has rendered the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.selectionStart, result.selectionEnd);
+    });
+  };
+
+  const handleMark = (mark: RichTextMark) => apply((text, start, end) => toggleMark(text, start, end, mark));
+
+  const handleLink = () =>
+    apply((text, start, end) => {
+      const input = window.prompt("Link address (web page or e-mail):", "https://");
+      if (input === null) return null;
+      const href = toLinkTarget(input);
+      if (!href) {
+        window.alert("Please enter a web address or an e-mail address.");
+        return null;
+      }
+      return insertLink(text, start, end, href);
+    });
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.ctrlKey || e.metaKey) {
+      const key = e.key.toLowerCase();
+      if (key === "b" || key === "i" || key === "k") {
+        e.preventDefault();
+        if (key === "k") handleLink();
+        else handleMark(key === "b" ? "bold" : "italic");
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  const tools = [
+    { title: "Bold (Ctrl+B)", icon: Bold, onClick: () => handleMark("bold") },
+    { title: "Italic (Ctrl+I)", icon: Italic, onClick: () => handleMark("italic") },
+    { title: "Link (Ctrl+K)", icon: Link, onClick: handleLink },
+    ...(allowBullets ? [{ title: "Bullet list", icon: List, onClick: () => apply(toggleBullets) }] : []),
+  ];
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-end justify-between gap-2">
+        {label && (
+          <label htmlFor={textareaId} className="block text-sm font-medium text-gray-700">
+            {label}
+            {required && <span className="text-red-500 ml-1">*</span>}
+          </label>
+        )}
+        <div className="flex items-center gap-0.5 ml-auto" role="toolbar" aria-label="Text formatting">
+          {tools.map(({ title, icon: Icon, onClick }) => (
+            <button
+              key={title}
+              type="button"
+              title={title}
+              aria-label={title}
+              disabled={disabled}
+              // Keep the textarea's selection while clicking
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={onClick}
+              className="p-1 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded disabled:opacity-40"
+            >
+              <Icon className="w-3.5 h-3.5" />
+            </button>
+          ))}
+        </div>
+      </div>
+      <Textarea
+        ref={textareaRef}
+        id={textareaId}
+        required={required}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+        {...props}
+      />
+      {/* Markup doesn't count towards the length */}
+      {showCharCount && maxLength && (
+        <p className={`text-xs text-right ${stripRichText(value).length > maxLength ? "text-red-600" : "text-gray-500"}`}>
+          {stripRichText(value).length}/{maxLength}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -1,27 +1,69 @@
 import React from "react";
+import type { SaveStatus } from "../../hooks/useSaveCoordinator";
+
+const STATUS_STYLES: Record<
+  SaveStatus,
+  { label: string; text: string; dot: string }
+> = {
+  idle: { label: "Saved", text: "text-green-600", dot: "bg-green-600" },
+  saved: { label: "Saved", text: "text-green-600", dot: "bg-green-600" },
+  pending: {
+    label: "Unsaved changes",
+    text: "text-gray-600",
+    dot: "bg-yellow-500",
+  },
+  saving: {
+    label: "Saving...",
+    text: "text-blue-600",
+    dot: "bg-blue-600 animate-pulse",
+  },
+  offline: {
+    label: "Offline · changes kept on this device",
+    text: "text-gray-600",
+    dot: "bg-gray-400",
+  },
+  conflict: {
+    label: "Edited elsewhere · review needed",
+    text: "text-orange-600",
+    dot: "bg-orange-500",
+  },
+  held: {
+    label: "Contact details not saved",
+    text: "text-orange-600",
+    dot: "bg-orange-500",
+  },
+  error: { label: "Save failed", text: "text-red-600", dot: "bg-red-600" },
+};
 
 /**
  * React component for save status indicator
  *
- * @param isSaving - Whether the resume is currently being saved
+ * @param status - Editor save status from useSaveCoordinator
+ * @param lastSavedAt - When the last save completed, shown as a tooltip
+ * @param detail - What to do about the status, shown after the label
  * @returns Save status indicator JSX
  */
 export const SaveStatusIndicator: React.FC<{
-  isSaving?: boolean;
-}> = ({ isSaving = false }) => {
-  if (isSaving) {
-    return (
-      <div className="flex items-center space-x-1 text-blue-600">
-        <div className="w-2 h-2 bg-blue-600 rounded-full animate-pulse" />
-        <span className="text-xs">Saving...</span>
-      </div>
-    );
-  }
+  status?: SaveStatus;
+  lastSavedAt?: string | null;
+  detail?: string;
+}> = ({ status = "idle", lastSavedAt, detail }) => {
+  const style = STATUS_STYLES[status];
 
   return (
-    <div className="flex items-center space-x-1 text-green-600">
-      <div className="w-2 h-2 bg-green-600 rounded-full" />
-      <span className="text-xs">Saved</span>
+    <div
+      className={`flex items-center space-x-1 ${style.text}`}
+      title={
+        lastSavedAt
+          ? `Last saved ${new Date(lastSavedAt).toLocaleTimeString()}`
+          : undefined
+      }
+    >
+      <div className={`w-2 h-2 rounded-full ${style.dot}`} />
+      <span className="text-xs">
+        {style.label}
+        {detail && ` · ${detail}`}
+      </span>
     </div>
   );
 };
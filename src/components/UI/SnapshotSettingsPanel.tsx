@@ -0,0 +1,118 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import type { SnapshotRetention, SnapshotSettings, SnapshotTrigger } from '../../types/version.types';
+import { DEFAULT_SNAPSHOT_SETTINGS, SNAPSHOT_TRIGGER_LABELS } from '../../utils/versionSnapshots';
+
+interface SnapshotSettingsPanelProps {
+    settings: SnapshotSettings;
+    onChange: (settings: SnapshotSettings) => void;
+}
+
+const RETENTION_FIELDS: { key: keyof SnapshotRetention; label: string; unit: string }[] = [
+    { key: 'keepAllHours', label: 'Keep every snapshot for', unit: 'hours' },
+    { key: 'dailyDays', label: 'Then one per day for', unit: 'days' },
+    { key: 'weeklyWeeks', label: 'Then one per week for', unit: 'weeks' },
+    { key: 'maxSnapshots', label: 'Keep at most', unit: 'snapshots' },
+];
+
+/**
+ * Lets users choose when snapshots are saved automatically and how long
+ * they are kept
+ */
+export const SnapshotSettingsPanel: React.FC<SnapshotSettingsPanelProps> = ({ settings, onChange }) => {
+    const setTrigger = (trigger: SnapshotTrigger, enabled: boolean) =>
+        onChange({ ...settings, triggers: { ...settings.triggers, [trigger]: enabled } });
+
+    const setRetention = (key: keyof SnapshotRetention, value: number) =>
+        onChange({ ...settings, retention: { ...settings.retention, [key]: value } });
+
+    const readCount = (e: React.ChangeEvent<HTMLInputElement>): number | null => {
+        const value = parseInt(e.target.value, 10);
+        return Number.isNaN(value) || value < 0 ? null : value;
+    };
+
+    return (
+        <div className="space-y-5">
+            <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-800">
+                    <input
+                        type="checkbox"
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                        checked={settings.enabled}
+                        onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+                    />
+                    Save snapshots automatically
+                </label>
+                <button
+                    onClick={() => onChange(DEFAULT_SNAPSHOT_SETTINGS)}
+                    className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+                >
+                    <RotateCcw className="w-3 h-3" />
+                    Reset to defaults
+                </button>
+            </div>
+
+            <div className={settings.enabled ? 'space-y-5' : 'space-y-5 opacity-50 pointer-events-none'}>
+                <div>
+                    <h5 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Save a snapshot</h5>
+                    <div className="space-y-2">
+                        {(Object.keys(SNAPSHOT_TRIGGER_LABELS) as SnapshotTrigger[]).map((trigger) => (
+                            <label key={trigger} className="flex items-center gap-2 text-sm text-gray-800">
+                                <input
+                                    type="checkbox"
+                                    className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                                    checked={settings.triggers[trigger]}
+                                    onChange={(e) => setTrigger(trigger, e.target.checked)}
+                                />
+                                {trigger === 'editing' ? (
+                                    <span className="flex items-center gap-1">
+                                        After
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            value={settings.editingMinutes}
+                                            onChange={(e) => {
+                                                const value = readCount(e);
+                                                if (value) onChange({ ...settings, editingMinutes: value });
+                                            }}
+                                            className="w-14 border border-gray-300 rounded px-1 py-0.5 text-xs"
+                                            aria-label="Minutes of editing"
+                                        />
+                                        minutes of editing
+                                    </span>
+                                ) : (
+                                    SNAPSHOT_TRIGGER_LABELS[trigger]
+                                )}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <h5 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Retention</h5>
+                    <div className="space-y-2">
+                        {RETENTION_FIELDS.map(({ key, label, unit }) => (
+                            <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+                                <span className="w-44">{label}</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={settings.retention[key]}
+                                    onChange={(e) => {
+                                        const value = readCount(e);
+                                        if (value !== null) setRetention(key, value);
+                                    }}
+                                    className="w-16 border border-gray-300 rounded px-1 py-0.5 text-xs"
+                                />
+                                <span className="text-gray-500">{unit}</span>
+                            </label>
+                        ))}
+                    </div>
+                    <p className="mt-2 text-xs text-gray-500">
+                        Older automatic snapshots are removed. Snapshots you create yourself are always kept.
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+};
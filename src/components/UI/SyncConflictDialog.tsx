@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, GitMerge } from 'lucide-react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { pendingContent, type SyncConflict } from '../../services/syncQueue';
+import type { ResumeContent } from '../../types/api.types';
+import { mergeResumeContent, type MergeSide } from '../../utils/resumeMerge';
+
+export interface SyncConflictDialogProps {
+    conflict: SyncConflict;
+    onResolve: (content: ResumeContent) => void;
+    onClose: () => void;
+}
+
+const formatValue = (value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '(empty)';
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    const text = JSON.stringify(value);
+    return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+};
+
+/**
+ * Three-way merge for offline edits that clash with changes saved elsewhere.
+ * Changes made on only one side are merged automatically; for each field
+ * changed on both sides the user picks which version to keep.
+ */
+export const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ conflict, onResolve, onClose }) => {
+    const { mutation, remote } = conflict;
+    const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+
+    const { merged, conflicts } = useMemo(
+        () => mergeResumeContent(mutation.base.content, pendingContent(mutation), remote.content, choices),
+        [mutation, remote, choices]
+    );
+
+    const chooseAll = (side: MergeSide) =>
+        setChoices(Object.fromEntries(conflicts.map((item) => [item.path, side])));
+
+    return (
+        <Modal isOpen onClose={onClose} title="Resolve editing conflict" size="lg">
+            <div className="space-y-4">
+                <div className="flex items-start gap-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                    <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+                    <p className="text-sm text-yellow-800">
+                        "{remote.title}" was changed somewhere else (version {remote.version}, saved{' '}
+                        {new Date(remote.updatedAt).toLocaleString()}) while you had unsaved changes based on
+                        version {mutation.base.version}. Nothing has been overwritten yet.
+                    </p>
+                </div>
+
+                {conflicts.length === 0 ? (
+                    <div className="flex items-center gap-2 text-sm text-gray-700">
+                        <GitMerge className="w-4 h-4 text-green-600" />
+                        The changes don't overlap and can be merged automatically.
+                    </div>
+                ) : (
+                    <>
+                        <div className="flex items-center justify-between">
+                            <p className="text-sm text-gray-700">
+                                {conflicts.length} {conflicts.length === 1 ? 'field was' : 'fields were'} changed in both
+                                places. Other changes are merged automatically.
+                            </p>
+                            <div className="flex gap-3 text-xs">
+                                <button onClick={() => chooseAll('local')} className="text-blue-600 hover:text-blue-700">
+                                    Keep all mine
+                                </button>
+                                <button onClick={() => chooseAll('remote')} className="text-blue-600 hover:text-blue-700">
+                                    Use all theirs
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="space-y-3 max-h-96 overflow-y-auto">
+                            {conflicts.map((item) => {
+                                const side = choices[item.path] || 'local';
+                                return (
+                                    <div key={item.path} className="p-3 border border-gray-200 rounded-lg">
+                                        <h4 className="text-sm font-medium text-gray-900 mb-2">{item.label}</h4>
+                                        <p className="text-xs text-gray-500 mb-2">Before: {formatValue(item.base)}</p>
+                                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                            {(['local', 'remote'] as MergeSide[]).map((option) => (
+                                                <label
+                                                    key={option}
+                                                    className={`flex items-start gap-2 p-2 rounded border cursor-pointer text-sm ${side === option
+                                                            ? 'border-blue-500 bg-blue-50'
+                                                            : 'border-gray-200 hover:border-gray-300'
+                                                        }`}
+                                                >
+                                                    <input
+                                                        type="radio"
+                                                        name={item.path}
+                                                        checked={side === option}
+                                                        onChange={() => setChoices((prev) => ({ ...prev, [item.path]: option }))}
+                                                        className="mt-1"
+                                                    />
+                                                    <span className="min-w-0">
+                                                        <span className="block text-xs font-semibold text-gray-600">
+                                                            {option === 'local' ? 'Your version' : 'Saved version'}
+                                                        </span>
+                                                        <span className="block text-gray-800 break-words">
+                                                            {formatValue(option === 'local' ? item.local : item.remote)}
+                                                        </span>
+                                                    </span>
+                                                </label>
+                                            ))}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </>
+                )}
+
+                <div className="flex justify-end gap-2 pt-2 border-t border-gray-200">
+                    <Button variant="ghost" onClick={onClose}>
+                        Decide later
+                    </Button>
+                    <Button variant="primary" onClick={() => onResolve(merged)}>
+                        Save merged resume
+                    </Button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
@@ -1,12 +1,19 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import { createPortal } from "react-dom";
-import { TemplateType } from "../../types/resume.types";
-import { Check, ChevronDown, X } from "lucide-react";
+import { BuiltInTemplateType, PageSize, TemplateType } from "../../types/resume.types";
+import { TemplateDefinition } from "../../types/template.types";
+import { Check, ChevronDown, Palette, X } from "lucide-react";
 import { TemplateThumbnail } from "../Templates/TemplateThumbnail";
+import { isBuiltInTemplate, useCustomTemplates } from "../../utils/templateRegistry";
+import { getTemplateATSScore } from "../../utils/templateValidator";
 
 interface TemplateSelectorProps {
   currentTemplate: TemplateType;
   onTemplateChange: (template: TemplateType) => void;
+  /** Shows a link to the template designer when provided */
+  onOpenDesigner?: () => void;
+  /** Paper size thumbnails are drawn on */
+  pageSize?: PageSize;
 }
 
 interface TemplateInfo {
@@ -16,9 +23,10 @@ interface TemplateInfo {
   atsScore: number;
   bestFor: string;
   features: string[];
+  isCustom?: boolean;
 }
 
-const TEMPLATE_INFO: Record<TemplateType, TemplateInfo> = {
+const TEMPLATE_INFO: Record<BuiltInTemplateType, TemplateInfo> = {
   classic: {
     id: "classic",
     name: "Classic",
@@ -100,16 +108,42 @@ const TEMPLATE_INFO: Record<TemplateType, TemplateInfo> = {
   },
 };
 
+const getCustomTemplateInfo = (definition: TemplateDefinition): TemplateInfo => {
+  const base = TEMPLATE_INFO[definition.basedOn ?? "professional"];
+  return {
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    atsScore: getTemplateATSScore(definition.id),
+    bestFor: base.bestFor,
+    features: [`Based on ${base.name}`, ...base.features],
+    isCustom: true,
+  };
+};
+
 export const TemplateSelector: React.FC<TemplateSelectorProps> = ({
   currentTemplate,
   onTemplateChange,
+  onOpenDesigner,
+  pageSize,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState<TemplateType | null>(
     null
   );
+  const customTemplates = useCustomTemplates();
+
+  const templates = useMemo(
+    () => [...Object.values(TEMPLATE_INFO), ...customTemplates.map(getCustomTemplateInfo)],
+    [customTemplates]
+  );
+
+  // Custom templates that were deleted fall back to professional
+  const getInfo = (template: TemplateType): TemplateInfo =>
+    templates.find((info) => info.id === template) ||
+    (isBuiltInTemplate(template) ? TEMPLATE_INFO[template] : TEMPLATE_INFO.professional);
 
-  const currentInfo = TEMPLATE_INFO[currentTemplate];
+  const currentInfo = getInfo(currentTemplate);
 
   const handleTemplateSelect = (template: TemplateType) => {
     if (template === currentTemplate) {
@@ -140,6 +174,7 @@ export const TemplateSelector: React.FC<TemplateSelectorProps> = ({
         <div className="h-16 w-12 sm:h-20 sm:w-16 flex-shrink-0 border border-gray-200 rounded-lg overflow-hidden bg-white shadow-sm">
           <TemplateThumbnail 
             templateType={currentTemplate} 
+            pageSize={pageSize}
             className="w-full h-full object-cover origin-top transform scale-100" 
           />
         </div>
@@ -206,18 +241,32 @@ export const TemplateSelector: React.FC<TemplateSelectorProps> = ({
                         Select a template that best fits your needs
                       </p>
                     </div>
-                    <button
-                      onClick={handleCancel}
-                      className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
-                    >
-                      <X className="h-5 w-5 text-gray-500" />
-                    </button>
+                    <div className="flex items-center gap-2">
+                      {onOpenDesigner && (
+                        <button
+                          onClick={() => {
+                            handleCancel();
+                            onOpenDesigner();
+                          }}
+                          className="px-3 py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg transition-colors flex items-center gap-2"
+                        >
+                          <Palette className="h-4 w-4" />
+                          Design your own
+                        </button>
+                      )}
+                      <button
+                        onClick={handleCancel}
+                        className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                      >
+                        <X className="h-5 w-5 text-gray-500" />
+                      </button>
+                    </div>
                   </div>
 
                   {/* Templates Grid */}
                   <div className="p-3 sm:p-6 overflow-y-auto flex-1 bg-gray-50/50">
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
-                      {Object.values(TEMPLATE_INFO).map((template) => {
+                      {templates.map((template) => {
                         const isSelected = selectedTemplate === template.id;
                         const isCurrent = currentTemplate === template.id;
 
@@ -252,6 +301,7 @@ export const TemplateSelector: React.FC<TemplateSelectorProps> = ({
                             <div className="h-24 sm:h-32 rounded-lg mb-2 sm:mb-3 overflow-hidden border border-gray-200 bg-white shadow-sm relative group-hover:shadow-inner transition-shadow">
                               <TemplateThumbnail
                                 templateType={template.id}
+                                pageSize={pageSize}
                                 className="w-full h-full transform transition-transform duration-500 group-hover:scale-105"
                               />
                             </div>
@@ -259,9 +309,16 @@ export const TemplateSelector: React.FC<TemplateSelectorProps> = ({
                             {/* Template Info */}
                             <div className="space-y-1 sm:space-y-2">
                               <div className="flex items-center justify-between gap-1">
-                                <h3 className="font-bold text-gray-900 text-[11px] sm:text-sm truncate">
-                                  {template.name}
-                                </h3>
+                                <div className="flex items-center gap-1 min-w-0">
+                                  <h3 className="font-bold text-gray-900 text-[11px] sm:text-sm truncate">
+                                    {template.name}
+                                  </h3>
+                                  {template.isCustom && (
+                                    <span className="px-1 py-0.5 bg-purple-50 text-purple-700 text-[8px] sm:text-[10px] font-medium rounded border border-purple-200 flex-shrink-0">
+                                      Custom
+                                    </span>
+                                  )}
+                                </div>
                                 <div className="flex items-center space-x-0.5 sm:space-x-1 bg-white px-1 py-0.5 rounded border border-gray-100 flex-shrink-0">
                                   <span className="text-[8px] sm:text-[10px] font-semibold text-gray-500">
                                     ATS
@@ -325,7 +382,7 @@ export const TemplateSelector: React.FC<TemplateSelectorProps> = ({
                         <span>
                           Switching to{" "}
                           <strong>
-                            {TEMPLATE_INFO[selectedTemplate].name}
+                            {getInfo(selectedTemplate).name}
                           </strong>{" "}
                           template
                         </span>
@@ -104,6 +104,7 @@ export const Textarea = forwardRef<HTMLTextAreaElement, TextareaProps>(
           <textarea
             ref={combinedRef}
             id={textareaId}
+            dir="auto"
             className={`
               block w-full px-3 py-2 border rounded-md shadow-sm placeholder-gray-400
               focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent
@@ -0,0 +1,244 @@
+import React, { useMemo } from 'react';
+import { RotateCcw } from 'lucide-react';
+import type { ResumeContent } from '../../types/api.types';
+import {
+    alignLines,
+    diffResumeContent,
+    diffWords,
+    type ChangeType,
+    type ItemChange,
+    type SectionChange,
+} from '../../utils/resumeDiff';
+
+export interface VersionDiffViewProps {
+    oldContent: ResumeContent;
+    newContent: ResumeContent;
+    oldLabel: string;
+    newLabel: string;
+    /** Copy a section back from the old version; restore buttons are hidden without it */
+    onRestoreSection?: (key: keyof ResumeContent) => void;
+    /** Copy a single entry back from the old version */
+    onRestoreItem?: (key: keyof ResumeContent, itemId: string) => void;
+}
+
+type Side = 'old' | 'new';
+
+const BADGE_STYLES: Record<ChangeType, string> = {
+    added: 'bg-green-100 text-green-800',
+    removed: 'bg-red-100 text-red-800',
+    modified: 'bg-yellow-100 text-yellow-800',
+};
+
+const formatValue = (value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '';
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    return JSON.stringify(value, null, 1);
+};
+
+const hasValue = (value: unknown): boolean =>
+    Array.isArray(value) ? value.length > 0 : formatValue(value) !== '';
+
+const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const Badge: React.FC<{ type: ChangeType }> = ({ type }) => (
+    <span className={`px-1.5 py-0.5 text-xs font-medium rounded ${BADGE_STYLES[type]}`}>{type}</span>
+);
+
+const Empty: React.FC = () => <span className="text-gray-400 italic">(none)</span>;
+
+/**
+ * One side of a text compared word by word: the old side shows removed
+ * words struck through, the new side shows added words highlighted
+ */
+const WordDiff: React.FC<{ oldText: string; newText: string; side: Side }> = ({ oldText, newText, side }) => {
+    const hidden = side === 'old' ? 'added' : 'removed';
+    return (
+        <span className="whitespace-pre-wrap break-words">
+            {diffWords(oldText, newText)
+                .filter((change) => change.type !== hidden)
+                .map((change, index) =>
+                    change.type === 'unchanged' ? (
+                        <React.Fragment key={index}>{change.text}</React.Fragment>
+                    ) : (
+                        <span
+                            key={index}
+                            className={change.type === 'removed' ? 'bg-red-100 text-red-800 line-through' : 'bg-green-100 text-green-800'}
+                        >
+                            {change.text}
+                        </span>
+                    )
+                )}
+        </span>
+    );
+};
+
+/**
+ * A value as it was and as it is, side by side
+ */
+const ValueRow: React.FC<{ label?: string; oldValue: unknown; newValue: unknown }> = ({ label, oldValue, newValue }) => {
+    const cells = (render: (side: Side) => React.ReactNode) =>
+        (['old', 'new'] as Side[]).map((side) => (
+            <div key={side} className={`p-2 rounded text-sm text-gray-800 min-w-0 ${side === 'old' ? 'bg-gray-50' : 'bg-white border border-gray-100'}`}>
+                {render(side)}
+            </div>
+        ));
+
+    let content: React.ReactNode[];
+    if (isStringList(oldValue ?? []) && isStringList(newValue ?? [])) {
+        // Bullets and keywords: line up matching lines, then compare word by word
+        const rows = alignLines((oldValue ?? []) as string[], (newValue ?? []) as string[]);
+        content = cells((side) =>
+            rows.length === 0 ? <Empty /> : (
+                <ul className="list-disc pl-4 space-y-1">
+                    {rows.map((row, index) => {
+                        const text = side === 'old' ? row.oldText : row.newText;
+                        return (
+                            <li key={index} className={text === undefined ? 'list-none' : ''}>
+                                {text === undefined ? <span>&nbsp;</span> : (
+                                    <WordDiff oldText={row.oldText ?? ''} newText={row.newText ?? ''} side={side} />
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )
+        );
+    } else {
+        const oldText = formatValue(oldValue);
+        const newText = formatValue(newValue);
+        content = cells((side) =>
+            (side === 'old' ? oldText : newText) ? <WordDiff oldText={oldText} newText={newText} side={side} /> : <Empty />
+        );
+    }
+
+    return (
+        <div>
+            {label && <p className="text-xs font-medium text-gray-500 mb-1">{label}</p>}
+            <div className="grid grid-cols-2 gap-2">{content}</div>
+        </div>
+    );
+};
+
+const ItemDiff: React.FC<{
+    item: ItemChange;
+    onRestore?: () => void;
+}> = ({ item, onRestore }) => {
+    const fields =
+        item.type === 'modified'
+            ? item.fields
+            : Object.keys((item.oldItem || item.newItem)!)
+                .filter((field) => field !== 'id' && hasValue((item.oldItem || item.newItem)![field]))
+                .map((field) => ({ field, oldValue: item.oldItem?.[field], newValue: item.newItem?.[field] }));
+
+    return (
+        <div className="border border-gray-200 rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                    <h5 className="text-sm font-medium text-gray-900 truncate">{item.label}</h5>
+                    <Badge type={item.type} />
+                </div>
+                {onRestore && (
+                    <button
+                        onClick={onRestore}
+                        className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 flex-shrink-0"
+                    >
+                        <RotateCcw className="w-3 h-3" />
+                        {item.type === 'added' ? 'Remove entry' : 'Restore entry'}
+                    </button>
+                )}
+            </div>
+            {fields.map((field) => (
+                <ValueRow key={field.field} label={field.field} oldValue={field.oldValue} newValue={field.newValue} />
+            ))}
+        </div>
+    );
+};
+
+const SectionDiff: React.FC<{
+    section: SectionChange;
+    onRestoreSection?: (key: keyof ResumeContent) => void;
+    onRestoreItem?: (key: keyof ResumeContent, itemId: string) => void;
+}> = ({ section, onRestoreSection, onRestoreItem }) => (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+                <h4 className="text-base font-semibold text-gray-900">{section.label}</h4>
+                <Badge type={section.type} />
+                {section.reordered && <span className="text-xs text-gray-500">entries reordered</span>}
+            </div>
+            {onRestoreSection && (
+                <button
+                    onClick={() => onRestoreSection(section.key)}
+                    className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                >
+                    <RotateCcw className="w-4 h-4" />
+                    Restore section
+                </button>
+            )}
+        </div>
+
+        {section.items ? (
+            section.items.map((item) => (
+                <ItemDiff
+                    key={item.id}
+                    item={item}
+                    onRestore={onRestoreItem && (() => onRestoreItem(section.key, item.id))}
+                />
+            ))
+        ) : section.fields ? (
+            section.fields.map((field) => (
+                <ValueRow key={field.path} label={field.field} oldValue={field.oldValue} newValue={field.newValue} />
+            ))
+        ) : (
+            <ValueRow oldValue={section.oldValue} newValue={section.newValue} />
+        )}
+    </div>
+);
+
+/**
+ * Side-by-side comparison of two versions of a resume. Sections and entries
+ * are matched by id, text is compared word by word, and with the restore
+ * callbacks single sections or entries can be taken from the old version.
+ */
+export const VersionDiffView: React.FC<VersionDiffViewProps> = ({
+    oldContent,
+    newContent,
+    oldLabel,
+    newLabel,
+    onRestoreSection,
+    onRestoreItem,
+}) => {
+    const { sections, summary } = useMemo(() => diffResumeContent(oldContent, newContent), [oldContent, newContent]);
+
+    if (sections.length === 0) {
+        return <p className="text-sm text-gray-600 py-8 text-center">These versions have the same content.</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+                {summary.totalChanges} {summary.totalChanges === 1 ? 'change' : 'changes'} in{' '}
+                {summary.sectionsChanged.length} {summary.sectionsChanged.length === 1 ? 'section' : 'sections'}:{' '}
+                <span className="text-green-700">{summary.addedFields} added</span>,{' '}
+                <span className="text-red-700">{summary.removedFields} removed</span>,{' '}
+                <span className="text-yellow-700">{summary.modifiedFields} changed</span>
+            </p>
+
+            <div className="grid grid-cols-2 gap-2 text-xs font-semibold text-gray-600 uppercase tracking-wide">
+                <span>{oldLabel}</span>
+                <span>{newLabel}</span>
+            </div>
+
+            {sections.map((section) => (
+                <SectionDiff
+                    key={section.key}
+                    section={section}
+                    onRestoreSection={onRestoreSection}
+                    onRestoreItem={onRestoreItem}
+                />
+            ))}
+        </div>
+    );
+};
@@ -12,6 +12,9 @@ export type { InputProps } from "./Input";
 export { Textarea } from "./Textarea";
 export type { TextareaProps } from "./Textarea";
 
+export { RichTextarea } from "./RichTextarea";
+export type { RichTextareaProps } from "./RichTextarea";
+
 export { Button } from "./Button";
 export type { ButtonProps, ButtonVariant, ButtonSize } from "./Button";
 
@@ -34,3 +37,17 @@ export { ExportModal } from "./ExportModal";
 export type { ExportModalProps, ExportOptions } from "./ExportModal";
 
 export { ImportExportModal } from "./ImportExportModal";
+
+export { ResumeImportWizard } from "./ResumeImportWizard";
+export type { ResumeImportWizardProps } from "./ResumeImportWizard";
+
+export { SyncConflictDialog } from "./SyncConflictDialog";
+export type { SyncConflictDialogProps } from "./SyncConflictDialog";
+
+export { RejectedChangesBanner } from "./RejectedChangesBanner";
+export type { RejectedChangesBannerProps } from "./RejectedChangesBanner";
+
+export { VersionDiffView } from "./VersionDiffView";
+export type { VersionDiffViewProps } from "./VersionDiffView";
+
+export { SnapshotSettingsPanel } from "./SnapshotSettingsPanel";
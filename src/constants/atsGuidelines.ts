@@ -58,6 +58,32 @@ export const SECTION_HEADERS = {
     "Licenses & Certifications",
     "Credentials",
   ],
+  LANGUAGES: [
+    "Languages",
+    "Language Skills",
+    "Language Proficiency",
+  ],
+  PUBLICATIONS: [
+    "Publications",
+    "Selected Publications",
+    "Publications & Presentations",
+  ],
+  AWARDS: [
+    "Awards",
+    "Honors & Awards",
+    "Awards & Grants",
+    "Achievements",
+  ],
+  VOLUNTEERING: [
+    "Volunteer Experience",
+    "Volunteering",
+    "Volunteer Work",
+    "Community Involvement",
+  ],
+  REFERENCES: [
+    "References",
+    "Professional References",
+  ],
 } as const;
 
 // ATS validation rules and scoring criteria
@@ -297,3 +323,41 @@ export const getSoftwareKeywords = (): readonly string[] =>
   SOFTWARE_ENGINEERING_KEYWORDS;
 export const getATSComplianceScore = (violations: number): number =>
   Math.max(0, 100 - violations * 5);
+
+// Maps resume section types to their standard ATS header group
+export const SECTION_TYPE_HEADERS: Partial<
+  Record<string, keyof typeof SECTION_HEADERS>
+> = {
+  summary: "SUMMARY",
+  experience: "EXPERIENCE",
+  education: "EDUCATION",
+  skills: "SKILLS",
+  projects: "PROJECTS",
+  certifications: "CERTIFICATIONS",
+  languages: "LANGUAGES",
+  publications: "PUBLICATIONS",
+  awards: "AWARDS",
+  volunteering: "VOLUNTEERING",
+  references: "REFERENCES",
+};
+
+/**
+ * Resolve the ATS-recognised header for a section.
+ * Keeps the user's title when it is already a standard header for the
+ * section type, otherwise falls back to the first standard header.
+ * Section types without a standard group keep their own title.
+ */
+export const getStandardSectionHeader = (
+  sectionType: string,
+  title: string
+): string => {
+  const key = SECTION_TYPE_HEADERS[sectionType];
+  if (!key) return title;
+
+  const headers: readonly string[] = SECTION_HEADERS[key];
+  const normalizedTitle = title.trim().toLowerCase();
+  const match = headers.find(
+    (header) => header.toLowerCase() === normalizedTitle
+  );
+  return match || headers[0];
+};
@@ -288,19 +288,28 @@ const defaultSections: ResumeSection[] = [
       ],
     },
   },
+  {
+    id: generateId(),
+    type: "languages",
+    title: "Languages",
+    enabled: true,
+    order: 7,
+    content: {
+      languages: [
+        { id: generateId(), name: "English", proficiency: "native" },
+        { id: generateId(), name: "Spanish", proficiency: "professional", cefr: "C1" },
+      ],
+      showCefr: false,
+    },
+  },
   {
     id: generateId(),
     type: "additional-info",
     title: "Additional Information",
     enabled: true,
-    order: 7,
+    order: 8,
     content: {
       additionalInfo: [
-        {
-          id: generateId(),
-          title: "Languages",
-          content: ["English (Native)", "Spanish (Professional)"],
-        },
         {
           id: generateId(),
           title: "Volunteering",
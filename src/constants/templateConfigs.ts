@@ -1,4 +1,4 @@
-import { TemplateType } from "../types/resume.types";
+import { BuiltInTemplateType } from "../types/resume.types";
 import { TemplateConfig } from "../types/template.types";
 
 /**
@@ -203,7 +203,7 @@ export const ACADEMIC_TEMPLATE_CONFIG: TemplateConfig = {
 };
 
 // Template configurations mapping
-export const TEMPLATE_CONFIGS: Record<TemplateType, TemplateConfig> = {
+export const TEMPLATE_CONFIGS: Record<BuiltInTemplateType, TemplateConfig> = {
   classic: CLASSIC_TEMPLATE_CONFIG,
   modern: MODERN_TEMPLATE_CONFIG,
   minimal: MINIMAL_TEMPLATE_CONFIG,
@@ -382,7 +382,7 @@ export const TEMPLATE_RECOMMENDATIONS = {
 } as const;
 
 // Utility functions
-export const getTemplateConfig = (templateId: TemplateType): TemplateConfig => {
+export const getTemplateConfig = (templateId: BuiltInTemplateType): TemplateConfig => {
   return TEMPLATE_CONFIGS[templateId];
 };
 
@@ -390,11 +390,11 @@ export const getAllTemplates = (): TemplateConfig[] => {
   return Object.values(TEMPLATE_CONFIGS);
 };
 
-export const getTemplateDefaultLayout = (templateId: TemplateType) => {
+export const getTemplateDefaultLayout = (templateId: BuiltInTemplateType) => {
   return TEMPLATE_DEFAULT_LAYOUTS[templateId];
 };
 
-export const getTemplateCustomizationOptions = (templateId: TemplateType) => {
+export const getTemplateCustomizationOptions = (templateId: BuiltInTemplateType) => {
   return TEMPLATE_CUSTOMIZATION_OPTIONS[templateId];
 };
 
@@ -408,7 +408,7 @@ export const getRecommendedTemplates = (role: string): TemplateConfig[] => {
   return recommendation.recommended.map((id) => TEMPLATE_CONFIGS[id]);
 };
 
-export const isTemplateATSCompliant = (templateId: TemplateType): boolean => {
+export const isTemplateATSCompliant = (templateId: BuiltInTemplateType): boolean => {
   return TEMPLATE_CUSTOMIZATION_OPTIONS[templateId].atsCompliant;
 };
 
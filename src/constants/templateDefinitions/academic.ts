@@ -0,0 +1,39 @@
+import { TemplateDefinition } from "../../types/template.types";
+import { ACADEMIC_TEMPLATE_CONFIG } from "../templateConfigs";
+
+/**
+ * Academic: LaTeX-style serif layout with a spaced uppercase name, plain
+ * text colours and thin section rules.
+ */
+export const ACADEMIC_TEMPLATE: TemplateDefinition = {
+  ...ACADEMIC_TEMPLATE_CONFIG,
+  schemaVersion: 1,
+  styles: {
+    ...ACADEMIC_TEMPLATE_CONFIG.styles,
+    sections: { ...ACADEMIC_TEMPLATE_CONFIG.styles.sections, headerDecoration: "border-bottom" },
+  },
+  fontFamily: "Times New Roman, serif",
+  header: {
+    name: { color: "primary", weight: "bold", uppercase: true, letterSpacing: 2, sizeOffset: 2 },
+    title: { color: "text" },
+    contact: { color: "text", sizeOffset: -1, separator: " · " },
+  },
+  sectionHeader: {
+    text: { color: "primary", weight: "bold", letterSpacing: 0.5 },
+    divider: { style: "solid", width: 1, color: "primary" },
+  },
+  entry: {
+    title: { color: "text", weight: "bold" },
+    subtitle: { color: "text", italic: true },
+    date: { color: "text" },
+    dateFormat: "month-year",
+    locationSeparator: ", ",
+    bullet: { marker: "disc" },
+    spacing: 12,
+  },
+  blocks: {
+    summary: "paragraph",
+    skills: "categories",
+    justify: true,
+  },
+};
@@ -0,0 +1,40 @@
+import { TemplateDefinition } from "../../types/template.types";
+import { CLASSIC_TEMPLATE_CONFIG } from "../templateConfigs";
+
+/**
+ * Classic: serif type, centred header and uppercase section headers with a
+ * rule underneath. Suits traditional industries and senior roles.
+ */
+export const CLASSIC_TEMPLATE: TemplateDefinition = {
+  ...CLASSIC_TEMPLATE_CONFIG,
+  schemaVersion: 1,
+  styles: {
+    ...CLASSIC_TEMPLATE_CONFIG.styles,
+    header: { ...CLASSIC_TEMPLATE_CONFIG.styles.header, alignment: "center" },
+  },
+  fontFamily: "Times New Roman, serif",
+  header: {
+    name: { color: "primary", weight: "bold", uppercase: true, letterSpacing: 1 },
+    title: { color: "secondary", italic: true },
+    contact: { color: "secondary", sizeOffset: -1 },
+    divider: { style: "solid", width: 2, color: "primary" },
+  },
+  sectionHeader: {
+    text: { color: "primary", weight: "bold", letterSpacing: 0.5 },
+    divider: { style: "solid", width: 1, color: "primary" },
+  },
+  entry: {
+    title: { color: "primary", weight: "bold", sizeOffset: 1 },
+    subtitle: { color: "secondary", italic: true },
+    date: { color: "secondary", sizeOffset: -1 },
+    dateFormat: "month-year",
+    locationSeparator: " • ",
+    bullet: { marker: "disc" },
+    spacing: 16,
+  },
+  blocks: {
+    summary: "paragraph",
+    skills: "categories",
+    justify: true,
+  },
+};
@@ -0,0 +1,30 @@
+import { BuiltInTemplateType } from "../../types/resume.types";
+import { TemplateDefinition } from "../../types/template.types";
+import { CLASSIC_TEMPLATE } from "./classic";
+import { MODERN_TEMPLATE } from "./modern";
+import { MINIMAL_TEMPLATE } from "./minimal";
+import { PROFESSIONAL_TEMPLATE } from "./professional";
+import { PROFESSIONAL_SAMPLE_1_TEMPLATE } from "./professionalSample1";
+import { ACADEMIC_TEMPLATE } from "./academic";
+
+/**
+ * Built-in template definitions, drawn by the generic template renderer.
+ * To add a template, add a definition file here and register it below.
+ */
+export const BUILT_IN_TEMPLATE_DEFINITIONS: Record<BuiltInTemplateType, TemplateDefinition> = {
+  classic: CLASSIC_TEMPLATE,
+  modern: MODERN_TEMPLATE,
+  minimal: MINIMAL_TEMPLATE,
+  professional: PROFESSIONAL_TEMPLATE,
+  "professional-sample-1": PROFESSIONAL_SAMPLE_1_TEMPLATE,
+  academic: ACADEMIC_TEMPLATE,
+};
+
+export {
+  CLASSIC_TEMPLATE,
+  MODERN_TEMPLATE,
+  MINIMAL_TEMPLATE,
+  PROFESSIONAL_TEMPLATE,
+  PROFESSIONAL_SAMPLE_1_TEMPLATE,
+  ACADEMIC_TEMPLATE,
+};
@@ -0,0 +1,35 @@
+import { TemplateDefinition } from "../../types/template.types";
+import { MINIMAL_TEMPLATE_CONFIG } from "../templateConfigs";
+
+/**
+ * Minimal: name and title on one line, contact details separated by bars
+ * and undecorated section headers. Fits the most content on a page.
+ */
+export const MINIMAL_TEMPLATE: TemplateDefinition = {
+  ...MINIMAL_TEMPLATE_CONFIG,
+  schemaVersion: 1,
+  fontFamily: "Arial, Helvetica, sans-serif",
+  header: {
+    name: { color: "primary", weight: "bold" },
+    title: { color: "primary" },
+    titleInline: true,
+    contact: { color: "primary", sizeOffset: -1, separator: " | " },
+  },
+  sectionHeader: {
+    text: { color: "primary", weight: "bold", letterSpacing: 0.5 },
+    divider: { style: "solid", width: 1, color: "primary" },
+  },
+  entry: {
+    title: { color: "primary", weight: "bold" },
+    subtitle: { color: "secondary" },
+    date: { color: "secondary", sizeOffset: -1 },
+    dateFormat: "month-year",
+    locationSeparator: ", ",
+    bullet: { marker: "disc" },
+    spacing: 10,
+  },
+  blocks: {
+    summary: "paragraph",
+    skills: "categories",
+  },
+};
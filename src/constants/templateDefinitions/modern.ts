@@ -0,0 +1,40 @@
+import { TemplateDefinition } from "../../types/template.types";
+import { MODERN_TEMPLATE_CONFIG } from "../templateConfigs";
+
+/**
+ * Modern: sans-serif type, left-aligned header with an accent bar, accent
+ * coloured section rules and a skills grid. Suits tech and startup roles.
+ */
+export const MODERN_TEMPLATE: TemplateDefinition = {
+  ...MODERN_TEMPLATE_CONFIG,
+  schemaVersion: 1,
+  styles: {
+    ...MODERN_TEMPLATE_CONFIG.styles,
+    header: { ...MODERN_TEMPLATE_CONFIG.styles.header, alignment: "left" },
+    sections: { ...MODERN_TEMPLATE_CONFIG.styles.sections, headerDecoration: "border-bottom" },
+  },
+  fontFamily: "Arial, Helvetica, sans-serif",
+  header: {
+    name: { color: "primary", weight: "bold" },
+    title: { color: "secondary", weight: 500 },
+    contact: { color: "secondary", sizeOffset: -1 },
+    accentBar: { width: 4, color: "primary" },
+  },
+  sectionHeader: {
+    text: { color: "primary", weight: "bold", letterSpacing: 0.5 },
+    divider: { style: "solid", width: 2, color: "primary" },
+  },
+  entry: {
+    title: { color: "text", weight: "bold", sizeOffset: 1 },
+    subtitle: { color: "primary", weight: 600 },
+    date: { color: "secondary", weight: 500, sizeOffset: -1 },
+    dateFormat: "month-year",
+    locationSeparator: " • ",
+    bullet: { marker: "▸", color: "primary" },
+    spacing: 18,
+  },
+  blocks: {
+    summary: "callout",
+    skills: "grid",
+  },
+};
@@ -0,0 +1,35 @@
+import { TemplateDefinition } from "../../types/template.types";
+import { PROFESSIONAL_TEMPLATE_CONFIG } from "../templateConfigs";
+
+/**
+ * Professional: compact, centred header with a heavy rule and tight entry
+ * spacing. Modelled on a backend engineering resume.
+ */
+export const PROFESSIONAL_TEMPLATE: TemplateDefinition = {
+  ...PROFESSIONAL_TEMPLATE_CONFIG,
+  schemaVersion: 1,
+  fontFamily: "Arial, Helvetica, sans-serif",
+  header: {
+    name: { color: "primary", weight: "bold", uppercase: true, letterSpacing: 1 },
+    title: { color: "secondary", weight: 600, uppercase: true },
+    contact: { color: "secondary", sizeOffset: -1, separator: " | " },
+    divider: { style: "solid", width: 2, color: "primary" },
+  },
+  sectionHeader: {
+    text: { color: "primary", weight: "bold", letterSpacing: 0.5 },
+    divider: { style: "solid", width: 1.5, color: "primary" },
+  },
+  entry: {
+    title: { color: "primary", weight: "bold", sizeOffset: 0.5 },
+    subtitle: { color: "secondary", italic: true },
+    date: { color: "secondary", sizeOffset: -1 },
+    dateFormat: "month-year",
+    locationSeparator: ", ",
+    bullet: { marker: "•", color: "text" },
+    spacing: 8,
+  },
+  blocks: {
+    summary: "paragraph",
+    skills: "categories",
+  },
+};
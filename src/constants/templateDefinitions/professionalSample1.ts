@@ -0,0 +1,16 @@
+import { TemplateDefinition } from "../../types/template.types";
+import { PROFESSIONAL_SAMPLE_1_TEMPLATE_CONFIG } from "../templateConfigs";
+import { PROFESSIONAL_TEMPLATE } from "./professional";
+
+/**
+ * Professional Sample 1: the Professional layout with standard list bullets
+ */
+export const PROFESSIONAL_SAMPLE_1_TEMPLATE: TemplateDefinition = {
+  ...PROFESSIONAL_TEMPLATE,
+  ...PROFESSIONAL_SAMPLE_1_TEMPLATE_CONFIG,
+  schemaVersion: 1,
+  entry: {
+    ...PROFESSIONAL_TEMPLATE.entry,
+    bullet: { marker: "disc" },
+  },
+};
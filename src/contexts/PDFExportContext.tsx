@@ -6,6 +6,9 @@ interface PDFExportContextType {
     setZoom: (zoom: number) => void;
     printMode: boolean;
     setPrintMode: (printMode: boolean) => void;
+    /** Language variant shown in the preview and exported; null for the resume's own language */
+    previewLocale: string | null;
+    setPreviewLocale: (locale: string | null) => void;
 }
 
 const PDFExportContext = createContext<PDFExportContextType | undefined>(undefined);
@@ -14,10 +17,11 @@ export const PDFExportProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     const previewRef = useRef<HTMLDivElement>(null);
     const [zoom, setZoom] = useState(100);
     const [printMode, setPrintMode] = useState(false);
+    const [previewLocale, setPreviewLocale] = useState<string | null>(null);
 
     const value = useMemo<PDFExportContextType>(
-        () => ({ previewRef, zoom, setZoom, printMode, setPrintMode }),
-        [zoom, printMode]
+        () => ({ previewRef, zoom, setZoom, printMode, setPrintMode, previewLocale, setPreviewLocale }),
+        [zoom, printMode, previewLocale]
     );
 
     return (
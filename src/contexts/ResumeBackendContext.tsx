@@ -1,11 +1,18 @@
 /**
  * Resume Backend Context
- * Manages resume state with backend synchronization and auto-save
+ * Manages resume state with backend synchronization and auto-save.
+ * Updates go through the persistent sync queue (services/syncQueue.ts), so
+ * edits made offline are kept and replayed when the connection returns.
  */
 
 import React, { createContext, useContext, useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { resumeService } from '../services/resume.service';
+import { applyContentChanges, syncQueue, toSyncBase, type QueuedMutation, type SyncConflict, type SyncReport } from '../services/syncQueue';
+import { historyStore } from '../services/historyStore';
+import { createVariantContent, syncVariant, withOverrides } from '../utils/resumeVariants';
+import { diffContent } from '../utils/saveRequest';
 import type {
+    ResumeContent,
     ResumeResponse,
     CreateResumeRequest,
     UpdateResumeRequest,
@@ -15,18 +22,40 @@ import type {
 
 interface ResumeBackendContextType {
     currentResume: ResumeResponse | null;
+    /** The base resume, when the current resume is a variant of one */
+    variantBase: ResumeResponse | null;
     resumes: ResumeResponse[];
     isLoading: boolean;
     isSaving: boolean;
     error: string | null;
     pagination: PaginatedResponse<ResumeResponse>['pagination'] | null;
 
+    // Offline sync
+    isOnline: boolean;
+    /** Number of queued updates not yet accepted by the server */
+    pendingChanges: number;
+    /** Queued changes that clash with edits made elsewhere */
+    syncConflict: SyncConflict | null;
+    /** Replace the conflicting change with merged content and send it */
+    resolveConflict: (content: ResumeContent) => Promise<void>;
+    /** Hide the conflict for now; it is reported again on the next sync */
+    dismissConflict: () => void;
+    /** Queued changes the server refused, kept until retried or discarded */
+    rejectedChanges: QueuedMutation[];
+    /** Send a rejected change again */
+    retryRejected: (mutationId: string) => Promise<void>;
+    /** Drop a rejected change and go back to the server copy */
+    discardRejected: (mutationId: string) => Promise<void>;
+
     // CRUD operations
     loadResume: (id: string) => Promise<void>;
-    updateResume: (data: UpdateResumeRequest) => void;
+    /** Queue and send a change; its content holds only the changed sections */
+    updateResume: (data: UpdateResumeRequest) => Promise<void>;
     createResume: (data: CreateResumeRequest) => Promise<ResumeResponse>;
     deleteResume: (id: string) => Promise<void>;
     duplicateResume: (id: string) => Promise<ResumeResponse>;
+    /** Create a variant that inherits from the given resume */
+    createVariant: (baseId: string) => Promise<ResumeResponse>;
     listResumes: (query?: ResumeListQuery) => Promise<void>;
 
     // Utility methods
@@ -36,13 +65,21 @@ interface ResumeBackendContextType {
 
 const ResumeBackendContext = createContext<ResumeBackendContextType | undefined>(undefined);
 
+// How often queued changes are retried while the API is unreachable
+const SYNC_RETRY_INTERVAL = 30000; // ms
+
 export const ResumeBackendProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const [currentResume, setCurrentResume] = useState<ResumeResponse | null>(null);
+    const [variantBase, setVariantBase] = useState<ResumeResponse | null>(null);
     const [resumes, setResumes] = useState<ResumeResponse[]>([]);
     const [pagination, setPagination] = useState<PaginatedResponse<ResumeResponse>['pagination'] | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [isOnline, setIsOnline] = useState(() => (typeof navigator === 'undefined' ? true : navigator.onLine));
+    const [pendingChanges, setPendingChanges] = useState(0);
+    const [syncConflict, setSyncConflict] = useState<SyncConflict | null>(null);
+    const [rejectedChanges, setRejectedChanges] = useState<QueuedMutation[]>([]);
 
     // Mirror currentResume in a ref so callbacks that need its id don't have to
     // depend on it — keeps their identity stable for downstream memoization.
@@ -51,6 +88,78 @@ export const ResumeBackendProvider: React.FC<{ children: React.ReactNode }> = ({
         currentResumeRef.current = currentResume;
     }, [currentResume]);
 
+    // Last copy of the current resume confirmed by the server. currentResume
+    // also shows queued changes; this is what those changes are based on.
+    const serverResumeRef = useRef<ResumeResponse | null>(null);
+
+    const variantBaseRef = useRef(variantBase);
+    useEffect(() => {
+        variantBaseRef.current = variantBase;
+    }, [variantBase]);
+
+    const refreshPendingChanges = useCallback(async () => {
+        const pending = await syncQueue.getPending();
+        setPendingChanges(pending.length);
+        setRejectedChanges(pending.filter((entry) => entry.rejection));
+    }, []);
+
+    /**
+     * Replay the sync queue and fold the results into state
+     */
+    const sync = useCallback(async (): Promise<SyncReport> => {
+        setIsSaving(true);
+        try {
+            const report = await syncQueue.flush();
+
+            const current = currentResumeRef.current;
+            const saved = current && report.synced.find((resume) => resume.id === current.id);
+            if (saved) {
+                serverResumeRef.current = saved;
+                // Keep showing changes queued while this save was in flight
+                setCurrentResume(await syncQueue.applyPending(saved));
+            }
+
+            if (report.conflicts.length > 0) {
+                setSyncConflict(
+                    report.conflicts.find((conflict) => conflict.remote.id === current?.id) || report.conflicts[0]
+                );
+            }
+            setIsOnline(!report.offline);
+            await refreshPendingChanges();
+            return report;
+        } finally {
+            setIsSaving(false);
+        }
+    }, [refreshPendingChanges]);
+
+    // Send changes left over from a previous session, and retry on reconnect
+    useEffect(() => {
+        refreshPendingChanges().then(() => sync()).catch((err) => console.error('Sync failed:', err));
+
+        const handleOnline = () => {
+            setIsOnline(true);
+            sync().catch((err) => console.error('Sync failed:', err));
+        };
+        const handleOffline = () => setIsOnline(false);
+
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, [refreshPendingChanges, sync]);
+
+    // The browser's online event isn't reliable (e.g. the API is down), so
+    // keep retrying while changes are waiting. Rejected changes wait for the user.
+    useEffect(() => {
+        if (pendingChanges === rejectedChanges.length || syncConflict) return;
+        const timer = setInterval(() => {
+            sync().catch((err) => console.error('Sync failed:', err));
+        }, SYNC_RETRY_INTERVAL);
+        return () => clearInterval(timer);
+    }, [pendingChanges, rejectedChanges, syncConflict, sync]);
+
     /**
      * Load a resume by ID
      */
@@ -59,7 +168,27 @@ export const ResumeBackendProvider: React.FC<{ children: React.ReactNode }> = ({
         setError(null);
         try {
             const resume = await resumeService.getResume(id);
-            setCurrentResume(resume);
+            serverResumeRef.current = resume;
+            let loaded = await syncQueue.applyPending(resume);
+
+            // A variant picks up its base's changes before it is edited
+            const link = loaded.content?.variant;
+            const base = link
+                ? await resumeService.getResume(link.baseId).catch((err) => {
+                    console.error('Failed to load the base resume:', err);
+                    return null;
+                })
+                : null;
+            const synced = base && syncVariant(base, loaded);
+            if (synced) {
+                await syncQueue.enqueue(id, { content: diffContent(loaded.content, synced) }, toSyncBase(resume));
+                loaded = { ...loaded, content: synced };
+                sync().catch((err) => console.error('Sync failed:', err));
+            }
+
+            variantBaseRef.current = base;
+            setVariantBase(base);
+            setCurrentResume(loaded);
         } catch (err: any) {
             const errorMessage = err.message || 'Failed to load resume';
             setError(errorMessage);
@@ -67,30 +196,83 @@ export const ResumeBackendProvider: React.FC<{ children: React.ReactNode }> = ({
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [sync]);
 
     /**
-     * Update resume (manual save)
+     * Update resume
+     * The change is shown immediately and queued; it resolves once the change
+     * is saved, queued for later (offline) or held back by a conflict.
      */
-    const updateResume = useCallback(async (data: UpdateResumeRequest) => {
+    const updateResume = useCallback(async (update: UpdateResumeRequest) => {
         const current = currentResumeRef.current;
         if (!current) return;
 
-        setIsSaving(true);
+        // Variants record what they override, so later base changes skip those parts
+        const baseResume = variantBaseRef.current;
+        let data = update;
+        if (update.content && baseResume) {
+            const { variant } = withOverrides(baseResume.content, applyContentChanges(current.content, update.content));
+            data = variant ? { ...update, content: { ...update.content, variant } } : update;
+        }
+
+        const base = serverResumeRef.current?.id === current.id ? serverResumeRef.current : current;
         setError(null);
-        try {
-            const updated = await resumeService.updateResume(current.id, data);
-            setCurrentResume(updated);
-        } catch (err: any) {
-            const errorMessage = err.message || 'Failed to save resume';
-            setError(errorMessage);
-            console.error('Save failed:', err);
-            throw new Error(errorMessage);
-        } finally {
-            setIsSaving(false);
+        setCurrentResume((prev) =>
+            prev && prev.id === current.id
+                ? { ...prev, ...data, content: data.content ? applyContentChanges(prev.content, data.content) : prev.content }
+                : prev
+        );
+
+        await syncQueue.enqueue(current.id, data, toSyncBase(base));
+        const report = await sync();
+        if (report.error) {
+            setError(report.error);
+            console.error('Save failed:', report.error);
+            throw new Error(report.error);
+        }
+    }, [sync]);
+
+    /**
+     * Resolve the current sync conflict with merged content
+     */
+    const resolveConflict = useCallback(async (content: ResumeContent) => {
+        if (!syncConflict) return;
+        const { mutation, remote } = syncConflict;
+
+        await syncQueue.resolveConflict(mutation.id, content, remote);
+        if (currentResumeRef.current?.id === remote.id) {
+            serverResumeRef.current = remote;
+            setCurrentResume(await syncQueue.applyPending(remote));
         }
+        setSyncConflict(null);
+        await sync();
+    }, [syncConflict, sync]);
+
+    const dismissConflict = useCallback(() => {
+        setSyncConflict(null);
     }, []);
 
+    const retryRejected = useCallback(async (mutationId: string) => {
+        await syncQueue.retry(mutationId);
+        const report = await sync();
+        if (report.error) setError(report.error);
+    }, [sync]);
+
+    const discardRejected = useCallback(async (mutationId: string) => {
+        const mutation = rejectedChanges.find((entry) => entry.id === mutationId);
+        await syncQueue.discard(mutationId);
+
+        // Show the resume without the dropped change
+        if (mutation && currentResumeRef.current?.id === mutation.resumeId) {
+            const server = serverResumeRef.current?.id === mutation.resumeId
+                ? serverResumeRef.current
+                : await resumeService.getResume(mutation.resumeId);
+            serverResumeRef.current = server;
+            setCurrentResume(await syncQueue.applyPending(server));
+        }
+        await sync();
+    }, [rejectedChanges, sync]);
+
     /**
      * Create a new resume
      */
@@ -127,6 +309,7 @@ export const ResumeBackendProvider: React.FC<{ children: React.ReactNode }> = ({
 
             // Remove from list
             setResumes((prev) => prev.filter((r) => r.id !== id));
+            historyStore.remove(id);
         } catch (err: any) {
             const errorMessage = err.message || 'Failed to delete resume';
             setError(errorMessage);
@@ -155,6 +338,68 @@ export const ResumeBackendProvider: React.FC<{ children: React.ReactNode }> = ({
         }
     }, []);
 
+    /**
+     * Create a variant of a resume: a copy that keeps inheriting the parts
+     * it doesn't override
+     */
+    const createVariant = useCallback(async (baseId: string): Promise<ResumeResponse> => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const base = await resumeService.getResume(baseId);
+            const copy = await resumeService.duplicateResume(baseId);
+            const variant = await resumeService.updateResume(copy.id, {
+                title: `${base.title} (variant)`,
+                content: createVariantContent(base),
+            });
+            setResumes((prev) => [variant, ...prev]);
+            return variant;
+        } catch (err: any) {
+            const errorMessage = err.message || 'Failed to create variant';
+            setError(errorMessage);
+            throw new Error(errorMessage);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    /**
+     * Bring variants up to date with bases that changed since they last
+     * synced. Variants of variants follow in later passes. The updates go
+     * through the sync queue like edits do, so offline they wait for the
+     * connection and a conflicting edit elsewhere is merged, not overwritten.
+     */
+    const syncVariants = useCallback(async (list: ResumeResponse[]) => {
+        const serverById = new Map(list.map((resume) => [resume.id, resume]));
+        // Unsent edits count, both for bases and for what variants override
+        const withPending = await Promise.all(list.map((resume) => syncQueue.applyPending(resume)));
+        const byId = new Map(withPending.map((resume) => [resume.id, resume]));
+        let changed = true;
+        let queued = false;
+
+        for (let pass = 0; changed && pass < list.length; pass++) {
+            changed = false;
+            for (const id of Array.from(byId.keys())) {
+                const variant = byId.get(id)!;
+                const base = variant.content?.variant && byId.get(variant.content.variant.baseId);
+                const content = base && syncVariant(base, variant);
+                if (!content) continue;
+
+                const changes = diffContent(variant.content, content);
+                await syncQueue.enqueue(id, { content: changes }, toSyncBase(serverById.get(id)!));
+                byId.set(id, { ...variant, content });
+                changed = true;
+                queued = true;
+            }
+        }
+
+        setResumes((prev) => prev.map((resume) => byId.get(resume.id) || resume));
+        if (queued) {
+            const report = await sync();
+            if (report.error) setError(report.error);
+        }
+    }, [sync]);
+
     /**
      * List resumes with pagination and filters
      */
@@ -165,6 +410,10 @@ export const ResumeBackendProvider: React.FC<{ children: React.ReactNode }> = ({
             const response = await resumeService.getResumes(query);
             setResumes(response.data);
             setPagination(response.pagination);
+            syncVariants(response.data).catch((err) => {
+                console.error('Variant sync failed:', err);
+                setError(err.message || 'Failed to update variants');
+            });
         } catch (err: any) {
             const errorMessage = err.message || 'Failed to load resumes';
             setError(errorMessage);
@@ -172,7 +421,7 @@ export const ResumeBackendProvider: React.FC<{ children: React.ReactNode }> = ({
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [syncVariants]);
 
     /**
      * Clear error state
@@ -182,41 +431,61 @@ export const ResumeBackendProvider: React.FC<{ children: React.ReactNode }> = ({
     }, []);
 
     /**
-     * Force sync - no longer needed with manual save
+     * Force sync - replay queued changes now
      */
     const forceSync = useCallback(async () => {
-        // No-op - manual save only
-    }, []);
+        await sync();
+    }, [sync]);
 
     const value = useMemo<ResumeBackendContextType>(
         () => ({
             currentResume,
+            variantBase,
             resumes,
             isLoading,
             isSaving,
             error,
             pagination,
+            isOnline,
+            pendingChanges,
+            syncConflict,
+            resolveConflict,
+            dismissConflict,
+            rejectedChanges,
+            retryRejected,
+            discardRejected,
             loadResume,
             updateResume,
             createResume,
             deleteResume,
             duplicateResume,
+            createVariant,
             listResumes,
             clearError,
             forceSync,
         }),
         [
             currentResume,
+            variantBase,
             resumes,
             isLoading,
             isSaving,
             error,
             pagination,
+            isOnline,
+            pendingChanges,
+            syncConflict,
+            resolveConflict,
+            dismissConflict,
+            rejectedChanges,
+            retryRejected,
+            discardRejected,
             loadResume,
             updateResume,
             createResume,
             deleteResume,
             duplicateResume,
+            createVariant,
             listResumes,
             clearError,
             forceSync,
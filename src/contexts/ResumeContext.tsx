@@ -10,14 +10,30 @@ import {
   Resume,
   ResumeContextType,
   ATSValidation,
+  Language,
+  LanguagesContent,
+  PaginationReport,
+  PublicationsContent,
+  Award,
+  VolunteerExperience,
+  ReferencesContent,
   ResumeSection,
+  SectionType,
   TemplateType,
 } from "../types/resume.types";
 import { AppAction } from "../types/actions.types";
 import { createDefaultResume } from "../constants/defaultResume";
 import { useAutoSave } from "../hooks/useAutoSave";
 import { validateATS } from "../utils/atsValidator";
+import {
+  DEFAULT_ATS_SETTINGS,
+  loadATSSettings,
+  saveATSSettings,
+} from "../utils/atsSettings";
+import type { ATSSettings } from "../types/ats.types";
 import { useUndoRedo } from "../hooks/useUndoRedo";
+import { resolveColumnLayout } from "../utils/columnLayout";
+import { getTemplateDefinition } from "../utils/templateRegistry";
 
 // Initial state
 const initialState: Resume = createDefaultResume();
@@ -29,6 +45,25 @@ const initialATSValidation: ATSValidation = {
   lastValidated: new Date().toISOString(),
 };
 
+// Rebuild the content of one section, when it has the expected type
+const updateSectionContent = <T,>(
+  state: Resume,
+  sectionId: string,
+  type: SectionType,
+  update: (content: T) => T
+): ResumeSection[] =>
+  state.sections.map((section) =>
+    section.id === sectionId && section.type === type
+      ? { ...section, content: update(section.content as T) as ResumeSection["content"] }
+      : section
+  );
+
+// Items in the order of the given ids; unknown ids are dropped
+const reorderItems = <T extends { id: string }>(items: T[], ids: string[]): T[] =>
+  ids
+    .map((id) => items.find((item) => item.id === id))
+    .filter((item): item is T => !!item);
+
 // Resume reducer with all required action handlers
 const resumeReducer = (state: Resume, action: AppAction): Resume => {
   const now = new Date().toISOString();
@@ -91,6 +126,23 @@ const resumeReducer = (state: Resume, action: AppAction): Resume => {
         updatedAt: now,
       };
 
+    case "MOVE_SECTION": {
+      const { sectionId, column, sectionIds } = action.payload;
+      const movedSections = sectionIds
+        .map((id, index) => {
+          const section = state.sections.find((s) => s.id === id);
+          if (!section) return null;
+          return id === sectionId ? { ...section, column, order: index } : { ...section, order: index };
+        })
+        .filter(Boolean) as typeof state.sections;
+
+      return {
+        ...state,
+        sections: movedSections,
+        updatedAt: now,
+      };
+    }
+
     case "UPDATE_LAYOUT":
       return {
         ...state,
@@ -101,6 +153,51 @@ const resumeReducer = (state: Resume, action: AppAction): Resume => {
         updatedAt: now,
       };
 
+    case "SET_LOCALE": {
+      // A translation into the new locale would now duplicate the resume's own text
+      const { [action.payload]: _replaced, ...translations } = state.translations || {};
+      return {
+        ...state,
+        locale: action.payload,
+        translations,
+        updatedAt: now,
+      };
+    }
+
+    case "ADD_TRANSLATION":
+      if (state.translations?.[action.payload]) return state;
+      return {
+        ...state,
+        translations: {
+          ...state.translations,
+          [action.payload]: {},
+        },
+        updatedAt: now,
+      };
+
+    case "REMOVE_TRANSLATION": {
+      const { [action.payload]: _removed, ...translations } = state.translations || {};
+      return {
+        ...state,
+        translations,
+        updatedAt: now,
+      };
+    }
+
+    case "UPDATE_TRANSLATION": {
+      const { locale, key, text, source } = action.payload;
+      const { [key]: _previous, ...fields } = state.translations?.[locale] || {};
+      return {
+        ...state,
+        translations: {
+          ...state.translations,
+          // Clearing a field falls back to the resume's own text
+          [locale]: text.trim() ? { ...fields, [key]: { text, source } } : fields,
+        },
+        updatedAt: now,
+      };
+    }
+
     case "SET_TEMPLATE":
       return {
         ...state,
@@ -256,6 +353,39 @@ const resumeReducer = (state: Resume, action: AppAction): Resume => {
         updatedAt: now,
       };
 
+    case "UPDATE_PAGE_SIZE":
+      return {
+        ...state,
+        layout: {
+          ...state.layout,
+          pageSize: action.payload,
+        },
+        updatedAt: now,
+      };
+
+    case "UPDATE_DIRECTION":
+      return {
+        ...state,
+        layout: {
+          ...state.layout,
+          direction: action.payload,
+        },
+        updatedAt: now,
+      };
+
+    case "UPDATE_COLUMNS":
+      return {
+        ...state,
+        layout: {
+          ...state.layout,
+          columns: {
+            ...resolveColumnLayout(state.layout, getTemplateDefinition(state.template)),
+            ...action.payload,
+          },
+        },
+        updatedAt: now,
+      };
+
     case "RESET_TEMPLATE":
       return {
         ...state,
@@ -691,6 +821,367 @@ const resumeReducer = (state: Resume, action: AppAction): Resume => {
         updatedAt: now,
       };
 
+    case "ADD_LANGUAGE":
+      return {
+        ...state,
+        sections: state.sections.map((section) =>
+          section.id === action.payload.sectionId && section.type === "languages"
+            ? {
+                ...section,
+                content: {
+                  ...(section.content as LanguagesContent),
+                  languages: [
+                    ...(section.content as LanguagesContent).languages,
+                    action.payload.language,
+                  ],
+                },
+              }
+            : section
+        ),
+        updatedAt: now,
+      };
+
+    case "UPDATE_LANGUAGE":
+      return {
+        ...state,
+        sections: state.sections.map((section) =>
+          section.id === action.payload.sectionId && section.type === "languages"
+            ? {
+                ...section,
+                content: {
+                  ...(section.content as LanguagesContent),
+                  languages: (section.content as LanguagesContent).languages.map(
+                    (language) =>
+                      language.id === action.payload.languageId
+                        ? { ...language, ...action.payload.updates }
+                        : language
+                  ),
+                },
+              }
+            : section
+        ),
+        updatedAt: now,
+      };
+
+    case "DELETE_LANGUAGE":
+      return {
+        ...state,
+        sections: state.sections.map((section) =>
+          section.id === action.payload.sectionId && section.type === "languages"
+            ? {
+                ...section,
+                content: {
+                  ...(section.content as LanguagesContent),
+                  languages: (section.content as LanguagesContent).languages.filter(
+                    (language) => language.id !== action.payload.languageId
+                  ),
+                },
+              }
+            : section
+        ),
+        updatedAt: now,
+      };
+
+    case "REORDER_LANGUAGES":
+      return {
+        ...state,
+        sections: state.sections.map((section) =>
+          section.id === action.payload.sectionId && section.type === "languages"
+            ? {
+                ...section,
+                content: {
+                  ...(section.content as LanguagesContent),
+                  languages: action.payload.languageIds
+                    .map((id) =>
+                      (section.content as LanguagesContent).languages.find(
+                        (language) => language.id === id
+                      )
+                    )
+                    .filter((language): language is Language => !!language),
+                },
+              }
+            : section
+        ),
+        updatedAt: now,
+      };
+
+    case "SET_LANGUAGE_CEFR_DISPLAY":
+      return {
+        ...state,
+        sections: state.sections.map((section) =>
+          section.id === action.payload.sectionId && section.type === "languages"
+            ? {
+                ...section,
+                content: {
+                  ...(section.content as LanguagesContent),
+                  showCefr: action.payload.showCefr,
+                },
+              }
+            : section
+        ),
+        updatedAt: now,
+      };
+
+    case "ADD_PUBLICATION":
+      return {
+        ...state,
+        sections: updateSectionContent<PublicationsContent>(
+          state,
+          action.payload.sectionId,
+          "publications",
+          (content) => ({ ...content, publications: [...content.publications, action.payload.publication] })
+        ),
+        updatedAt: now,
+      };
+
+    case "UPDATE_PUBLICATION":
+      return {
+        ...state,
+        sections: updateSectionContent<PublicationsContent>(
+          state,
+          action.payload.sectionId,
+          "publications",
+          (content) => ({
+            ...content,
+            publications: content.publications.map((item) =>
+              item.id === action.payload.publicationId ? { ...item, ...action.payload.updates } : item
+            ),
+          })
+        ),
+        updatedAt: now,
+      };
+
+    case "DELETE_PUBLICATION":
+      return {
+        ...state,
+        sections: updateSectionContent<PublicationsContent>(
+          state,
+          action.payload.sectionId,
+          "publications",
+          (content) => ({
+            ...content,
+            publications: content.publications.filter((item) => item.id !== action.payload.publicationId),
+          })
+        ),
+        updatedAt: now,
+      };
+
+    case "REORDER_PUBLICATIONS":
+      return {
+        ...state,
+        sections: updateSectionContent<PublicationsContent>(
+          state,
+          action.payload.sectionId,
+          "publications",
+          (content) => ({ ...content, publications: reorderItems(content.publications, action.payload.publicationIds) })
+        ),
+        updatedAt: now,
+      };
+
+    case "IMPORT_PUBLICATIONS":
+      return {
+        ...state,
+        sections: updateSectionContent<PublicationsContent>(
+          state,
+          action.payload.sectionId,
+          "publications",
+          (content) => ({ ...content, publications: [...content.publications, ...action.payload.publications] })
+        ),
+        updatedAt: now,
+      };
+
+    case "SET_CITATION_STYLE":
+      return {
+        ...state,
+        sections: updateSectionContent<PublicationsContent>(
+          state,
+          action.payload.sectionId,
+          "publications",
+          (content) => ({ ...content, citationStyle: action.payload.citationStyle })
+        ),
+        updatedAt: now,
+      };
+
+    case "ADD_AWARD":
+      return {
+        ...state,
+        sections: updateSectionContent<{ awards: Award[] }>(
+          state,
+          action.payload.sectionId,
+          "awards",
+          (content) => ({ ...content, awards: [...content.awards, action.payload.award] })
+        ),
+        updatedAt: now,
+      };
+
+    case "UPDATE_AWARD":
+      return {
+        ...state,
+        sections: updateSectionContent<{ awards: Award[] }>(
+          state,
+          action.payload.sectionId,
+          "awards",
+          (content) => ({
+            ...content,
+            awards: content.awards.map((item) =>
+              item.id === action.payload.awardId ? { ...item, ...action.payload.updates } : item
+            ),
+          })
+        ),
+        updatedAt: now,
+      };
+
+    case "DELETE_AWARD":
+      return {
+        ...state,
+        sections: updateSectionContent<{ awards: Award[] }>(
+          state,
+          action.payload.sectionId,
+          "awards",
+          (content) => ({
+            ...content,
+            awards: content.awards.filter((item) => item.id !== action.payload.awardId),
+          })
+        ),
+        updatedAt: now,
+      };
+
+    case "REORDER_AWARDS":
+      return {
+        ...state,
+        sections: updateSectionContent<{ awards: Award[] }>(
+          state,
+          action.payload.sectionId,
+          "awards",
+          (content) => ({ ...content, awards: reorderItems(content.awards, action.payload.awardIds) })
+        ),
+        updatedAt: now,
+      };
+
+    case "ADD_VOLUNTEER":
+      return {
+        ...state,
+        sections: updateSectionContent<{ volunteering: VolunteerExperience[] }>(
+          state,
+          action.payload.sectionId,
+          "volunteering",
+          (content) => ({ ...content, volunteering: [...content.volunteering, action.payload.volunteer] })
+        ),
+        updatedAt: now,
+      };
+
+    case "UPDATE_VOLUNTEER":
+      return {
+        ...state,
+        sections: updateSectionContent<{ volunteering: VolunteerExperience[] }>(
+          state,
+          action.payload.sectionId,
+          "volunteering",
+          (content) => ({
+            ...content,
+            volunteering: content.volunteering.map((item) =>
+              item.id === action.payload.volunteerId ? { ...item, ...action.payload.updates } : item
+            ),
+          })
+        ),
+        updatedAt: now,
+      };
+
+    case "DELETE_VOLUNTEER":
+      return {
+        ...state,
+        sections: updateSectionContent<{ volunteering: VolunteerExperience[] }>(
+          state,
+          action.payload.sectionId,
+          "volunteering",
+          (content) => ({
+            ...content,
+            volunteering: content.volunteering.filter((item) => item.id !== action.payload.volunteerId),
+          })
+        ),
+        updatedAt: now,
+      };
+
+    case "REORDER_VOLUNTEERING":
+      return {
+        ...state,
+        sections: updateSectionContent<{ volunteering: VolunteerExperience[] }>(
+          state,
+          action.payload.sectionId,
+          "volunteering",
+          (content) => ({ ...content, volunteering: reorderItems(content.volunteering, action.payload.volunteerIds) })
+        ),
+        updatedAt: now,
+      };
+
+    case "ADD_REFERENCE":
+      return {
+        ...state,
+        sections: updateSectionContent<ReferencesContent>(
+          state,
+          action.payload.sectionId,
+          "references",
+          (content) => ({ ...content, references: [...content.references, action.payload.reference] })
+        ),
+        updatedAt: now,
+      };
+
+    case "UPDATE_REFERENCE":
+      return {
+        ...state,
+        sections: updateSectionContent<ReferencesContent>(
+          state,
+          action.payload.sectionId,
+          "references",
+          (content) => ({
+            ...content,
+            references: content.references.map((item) =>
+              item.id === action.payload.referenceId ? { ...item, ...action.payload.updates } : item
+            ),
+          })
+        ),
+        updatedAt: now,
+      };
+
+    case "DELETE_REFERENCE":
+      return {
+        ...state,
+        sections: updateSectionContent<ReferencesContent>(
+          state,
+          action.payload.sectionId,
+          "references",
+          (content) => ({
+            ...content,
+            references: content.references.filter((item) => item.id !== action.payload.referenceId),
+          })
+        ),
+        updatedAt: now,
+      };
+
+    case "REORDER_REFERENCES":
+      return {
+        ...state,
+        sections: updateSectionContent<ReferencesContent>(
+          state,
+          action.payload.sectionId,
+          "references",
+          (content) => ({ ...content, references: reorderItems(content.references, action.payload.referenceIds) })
+        ),
+        updatedAt: now,
+      };
+
+    case "SET_REFERENCES_ON_REQUEST":
+      return {
+        ...state,
+        sections: updateSectionContent<ReferencesContent>(
+          state,
+          action.payload.sectionId,
+          "references",
+          (content) => ({ ...content, onRequest: action.payload.onRequest })
+        ),
+        updatedAt: now,
+      };
+
     case "UPDATE_CUSTOM_SECTION":
       return {
         ...state,
@@ -724,6 +1215,12 @@ const resumeReducer = (state: Resume, action: AppAction): Resume => {
       // This action doesn't modify state, fixing is handled by other actions
       return state;
 
+    case "FIX_ATS_ISSUES":
+      return {
+        ...action.payload,
+        updatedAt: now,
+      };
+
     // UI actions (these don't modify resume state)
     case "SET_LOADING":
     case "SET_ERROR":
@@ -749,17 +1246,30 @@ interface ResumeProviderProps {
 }
 
 export const ResumeProvider: React.FC<ResumeProviderProps> = ({ children }) => {
-  const [resume, dispatch] = useReducer(resumeReducer, initialState);
+  const [resume, reducerDispatch] = useReducer(resumeReducer, initialState);
   const [atsValidation, setAtsValidation] =
     React.useState<ATSValidation>(initialATSValidation);
+  const [paginationReport, setPaginationReport] =
+    React.useState<PaginationReport | null>(null);
+  const [atsSettings, setAtsSettings] =
+    React.useState<ATSSettings>(DEFAULT_ATS_SETTINGS);
   const [isLoading] = React.useState(false);
   const [error] = React.useState<string | null>(null);
 
   // Undo/Redo functionality
-  const { canUndo, canRedo, undo, redo } = useUndoRedo(resume, (newState) => {
-    dispatch({ type: "SET_RESUME", payload: newState });
+  const { canUndo, canRedo, undo, redo, jumpTo, history, trackAction } = useUndoRedo(resume, (newState) => {
+    reducerDispatch({ type: "SET_RESUME", payload: newState });
   });
 
+  // Dispatched action types label the undo history entries
+  const dispatch = React.useCallback(
+    (action: AppAction) => {
+      trackAction(action.type);
+      reducerDispatch(action);
+    },
+    [trackAction]
+  );
+
   // Auto-save hook
   useAutoSave(resume, {
     interval: 30000, // 30 seconds
@@ -769,15 +1279,25 @@ export const ResumeProvider: React.FC<ResumeProviderProps> = ({ children }) => {
     showStatus: true,
   });
 
+  // Load the user's ATS rule overrides once
+  useEffect(() => {
+    loadATSSettings().then(setAtsSettings);
+  }, []);
+
+  const updateATSSettings = React.useCallback((settings: ATSSettings) => {
+    setAtsSettings(settings);
+    saveATSSettings(settings);
+  }, []);
+
   // Validate ATS whenever resume changes (debounced to avoid performance issues)
   useEffect(() => {
     const timer = setTimeout(() => {
-      const validation = validateATS(resume);
+      const validation = validateATS(resume, paginationReport, atsSettings);
       setAtsValidation(validation);
     }, 500); // Debounce ATS validation by 500ms
 
     return () => clearTimeout(timer);
-  }, [resume.personalInfo, resume.sections, resume.layout]);
+  }, [resume.personalInfo, resume.sections, resume.layout, paginationReport, atsSettings]);
 
   // Initialize with default data and optionally restore saved data
   // NOTE: Initialization is disabled to allow EditorPage to load data from backend
@@ -819,14 +1339,20 @@ export const ResumeProvider: React.FC<ResumeProviderProps> = ({ children }) => {
       resume,
       dispatch,
       atsValidation,
+      paginationReport,
+      setPaginationReport,
+      atsSettings,
+      updateATSSettings,
       isLoading,
       error,
       canUndo,
       canRedo,
       undo,
       redo,
+      history,
+      jumpTo,
     }),
-    [resume, atsValidation, isLoading, error, canUndo, canRedo, undo, redo]
+    [resume, dispatch, atsValidation, paginationReport, atsSettings, updateATSSettings, isLoading, error, canUndo, canRedo, undo, redo, history, jumpTo]
   );
 
   return (
@@ -155,6 +155,7 @@ describe("ResumeContext Action Handlers", () => {
       "VALIDATE_ATS",
       "CLEAR_ATS_ISSUES",
       "FIX_ATS_ISSUE",
+      "FIX_ATS_ISSUES",
       "SET_LOADING",
       "SET_ERROR",
       "CLEAR_ERROR",
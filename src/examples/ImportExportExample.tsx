@@ -243,7 +243,7 @@ function MyComponent() {
                         <h3 className="font-medium text-blue-900 mb-2">📝 Notes</h3>
                         <ul className="text-sm text-blue-800 space-y-1">
                             <li>• JSON exports preserve all resume data</li>
-                            <li>• PDF/DOCX exports require backend processing</li>
+                            <li>• PDF exports require backend processing; DOCX is generated in the browser</li>
                             <li>• Bulk export only supports JSON format</li>
                             <li>• Imported resumes are created as new entries</li>
                         </ul>
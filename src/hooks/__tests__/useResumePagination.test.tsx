@@ -67,5 +67,10 @@ describe('useResumePagination', () => {
         // Expect 1 page
         expect(result.current.paginatedResumes.length).toBe(1);
         expect(result.current.paginatedResumes[0].sections.length).toBe(1);
+        expect(result.current.report).toMatchObject({
+            pageCount: 1,
+            orphanedHeaders: [],
+            splitItems: [],
+        });
     });
 });
@@ -32,6 +32,7 @@ export {
   useUpdateResume,
   useDeleteResume,
   useDuplicateResume,
+  useTailorResume,
   useShareResume,
   useExportResume,
   useImportResume,
@@ -47,6 +48,8 @@ export {
   useRestoreVersion,
   useCompareVersions,
   useDeleteVersion,
+  useAutoSnapshots,
+  createAutoSnapshot,
 } from './useVersions';
 
 // Sharing and analytics hooks
@@ -64,3 +67,7 @@ export { useUserProfile, useUpdateProfile, useDeleteAccount } from './useUser';
 
 // Import/Export hooks
 export { useImportExport } from './useImportExport';
+
+// Editor save pipeline
+export { useSaveCoordinator } from './useSaveCoordinator';
+export type { SaveStatus } from './useSaveCoordinator';
@@ -17,11 +17,11 @@ import { validateResume, ValidationReport } from '../utils/templateValidator';
  * console.log(validation.issues); // Array of issues
  */
 export const useATSValidation = (): ValidationReport => {
-  const { resume } = useResume();
+  const { resume, paginationReport, atsSettings } = useResume();
 
   const validationReport = useMemo(() => {
-    return validateResume(resume);
-  }, [resume]);
+    return validateResume(resume, { pagination: paginationReport, settings: atsSettings });
+  }, [resume, paginationReport, atsSettings]);
 
   return validationReport;
 };
@@ -5,7 +5,10 @@
 
 import { useState } from 'react';
 import { resumeService } from '../services/resume.service';
-import { importResumeFromFile, downloadResumeJSON } from '../utils/jsonExporter';
+import { importResumeFromFile, downloadResumeJSON, downloadResumeAsJsonResume } from '../utils/jsonExporter';
+import { downloadResumeDOCX } from '../utils/docxExporter';
+import { downloadResumeText, type TextExportFormat } from '../utils/textExporter';
+import { backendToFrontendResume, frontendResumeToBackendContent } from '../utils/resumeConverter';
 import type { Resume, ResumeContent } from '../types/resume.types';
 import type { ResumeResponse } from '../types/api.types';
 
@@ -13,12 +16,17 @@ interface UseImportExportReturn {
     isExporting: boolean;
     isImporting: boolean;
     error: string | null;
+    /** Fields dropped by the last JSON Resume import or export */
+    unmappedFields: string[];
     exportAsJSON: (resume: ResumeResponse) => Promise<void>;
+    exportAsJsonResume: (resume: ResumeResponse) => Promise<void>;
     exportAsPDF: (resumeId: string) => Promise<void>;
-    exportAsDOCX: (resumeId: string) => Promise<void>;
+    exportAsDOCX: (resume: ResumeResponse) => Promise<void>;
+    exportAsText: (resume: ResumeResponse, format: TextExportFormat) => Promise<void>;
     bulkExportAsJSON: (resumes: ResumeResponse[]) => Promise<void>;
     importFromJSON: (file: File) => Promise<ResumeResponse | null>;
     importFromFile: (file: File) => Promise<ResumeResponse | null>;
+    importParsedResume: (resume: Resume) => Promise<ResumeResponse | null>;
     clearError: () => void;
 }
 
@@ -26,6 +34,7 @@ export const useImportExport = (): UseImportExportReturn => {
     const [isExporting, setIsExporting] = useState(false);
     const [isImporting, setIsImporting] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [unmappedFields, setUnmappedFields] = useState<string[]>([]);
 
     const clearError = () => setError(null);
 
@@ -87,6 +96,26 @@ export const useImportExport = (): UseImportExportReturn => {
         }
     };
 
+    /**
+     * Export resume in the JSON Resume (jsonresume.org) format
+     */
+    const exportAsJsonResume = async (resume: ResumeResponse): Promise<void> => {
+        try {
+            setIsExporting(true);
+            setError(null);
+
+            const frontendResume = backendToFrontendResume(resume);
+            const dropped = downloadResumeAsJsonResume(frontendResume, `${resume.title.replace(/\s+/g, '-').toLowerCase()}.jsonresume.json`);
+            setUnmappedFields(dropped);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Failed to export resume';
+            setError(message);
+            throw err;
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
     /**
      * Export resume as PDF
      */
@@ -114,22 +143,15 @@ export const useImportExport = (): UseImportExportReturn => {
     };
 
     /**
-     * Export resume as DOCX
+     * Export resume as DOCX (generated client-side, works offline)
      */
-    const exportAsDOCX = async (resumeId: string): Promise<void> => {
+    const exportAsDOCX = async (resume: ResumeResponse): Promise<void> => {
         try {
             setIsExporting(true);
             setError(null);
 
-            const blob = await resumeService.exportResume(resumeId, 'docx');
-            const url = URL.createObjectURL(blob);
-            const link = document.createElement('a');
-            link.href = url;
-            link.download = `resume-${resumeId}.docx`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-            URL.revokeObjectURL(url);
+            const frontendResume = backendToFrontendResume(resume);
+            downloadResumeDOCX(frontendResume, `${resume.title.replace(/\s+/g, '-').toLowerCase()}.docx`);
         } catch (err) {
             const message = err instanceof Error ? err.message : 'Failed to export DOCX';
             setError(message);
@@ -139,6 +161,26 @@ export const useImportExport = (): UseImportExportReturn => {
         }
     };
 
+    /**
+     * Export resume as plain text or Markdown
+     */
+    const exportAsText = async (resume: ResumeResponse, format: TextExportFormat): Promise<void> => {
+        try {
+            setIsExporting(true);
+            setError(null);
+
+            const frontendResume = backendToFrontendResume(resume);
+            const extension = format === 'markdown' ? 'md' : 'txt';
+            downloadResumeText(frontendResume, format, `${resume.title.replace(/\s+/g, '-').toLowerCase()}.${extension}`);
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Failed to export resume';
+            setError(message);
+            throw err;
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
     /**
      * Bulk export multiple resumes as JSON
      */
@@ -183,11 +225,13 @@ export const useImportExport = (): UseImportExportReturn => {
 
     /**
      * Import resume from JSON file (client-side parsing)
+     * Handles both our own export format and JSON Resume documents
      */
     const importFromJSON = async (file: File): Promise<ResumeResponse | null> => {
         try {
             setIsImporting(true);
             setError(null);
+            setUnmappedFields([]);
 
             const result = await importResumeFromFile(file);
 
@@ -197,13 +241,16 @@ export const useImportExport = (): UseImportExportReturn => {
 
             // Create new resume with imported data
             const newResume = await resumeService.createResume({
-                title: `${result.resume.personalInfo.fullName}'s Resume (Imported)`,
+                title: `${result.resume.personalInfo.fullName || 'Untitled'}'s Resume (Imported)`,
                 content: {
-                    personalInfo: result.resume.personalInfo,
+                    ...frontendResumeToBackendContent(result.resume),
+                    layout: result.resume.layout,
                 },
                 templateId: result.resume.template,
             });
 
+            setUnmappedFields(result.unmappedFields || []);
+
             return newResume;
         } catch (err) {
             const message = err instanceof Error ? err.message : 'Failed to import resume';
@@ -233,16 +280,45 @@ export const useImportExport = (): UseImportExportReturn => {
         }
     };
 
+    /**
+     * Create a resume from a PDF/DOCX parsed client-side and reviewed in the import wizard
+     */
+    const importParsedResume = async (resume: Resume): Promise<ResumeResponse | null> => {
+        try {
+            setIsImporting(true);
+            setError(null);
+
+            return await resumeService.createResume({
+                title: `${resume.personalInfo.fullName || 'Untitled'}'s Resume (Imported)`,
+                content: {
+                    ...frontendResumeToBackendContent(resume),
+                    layout: resume.layout,
+                },
+                templateId: resume.template,
+            });
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Failed to import resume';
+            setError(message);
+            return null;
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
     return {
         isExporting,
         isImporting,
         error,
+        unmappedFields,
         exportAsJSON,
+        exportAsJsonResume,
         exportAsPDF,
         exportAsDOCX,
+        exportAsText,
         bulkExportAsJSON,
         importFromJSON,
         importFromFile,
+        importParsedResume,
         clearError,
     };
 };
@@ -1,6 +1,8 @@
 import { useRef, useCallback, useState } from 'react';
 import { Resume } from '../types/resume.types';
 import { resumeService } from '../services/resume.service';
+import { getPageRule, resolvePageSize } from '../utils/pageSize';
+import { getDirectionRule, getResumeDirection } from '../utils/textDirection';
 
 export interface PDFExportOptions {
   fileName?: string;
@@ -64,8 +66,15 @@ export const usePDFExport = (resume: Resume, externalRef?: React.RefObject<HTMLD
       }
     });
 
+    // Print on the resume's paper size; overrides the stylesheet default.
+    // Pages carry their own margins as padding.
+    cssString += getPageRule(resolvePageSize(resume.layout));
+
+    // Keep right-to-left resumes mirrored outside the editor's page
+    cssString += getDirectionRule(getResumeDirection(resume));
+
     return cssString;
-  }, [resume.layout.fontFamily]);
+  }, [resume]);
 
   // Export handler
   const handleExport = useCallback(async (options?: PDFExportOptions, additionalStyles?: string) => {
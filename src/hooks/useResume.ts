@@ -11,6 +11,8 @@ import type {
     UpdateResumeRequest,
     ShareResumeRequest,
 } from '../types/api.types';
+import type { Resume } from '../types/resume.types';
+import { frontendResumeToBackendContent } from '../utils/resumeConverter';
 
 // Query keys
 export const RESUME_KEYS = {
@@ -135,6 +137,33 @@ export const useDuplicateResume = () => {
     });
 };
 
+/**
+ * Hook to fork a resume into a copy tailored for a specific job.
+ * The source resume is duplicated on the server, then the copy is
+ * overwritten with the tailored content.
+ */
+export const useTailorResume = () => {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({ sourceId, title, resume }: { sourceId: string; title: string; resume: Resume }) => {
+            const fork = await resumeService.duplicateResume(sourceId);
+            return resumeService.updateResume(fork.id, {
+                title,
+                content: {
+                    ...frontendResumeToBackendContent(resume),
+                    layout: resume.layout,
+                },
+                templateId: resume.template,
+            });
+        },
+        onSuccess: (tailored) => {
+            queryClient.invalidateQueries({ queryKey: RESUME_KEYS.lists() });
+            queryClient.setQueryData(RESUME_KEYS.detail(tailored.id), tailored);
+        },
+    });
+};
+
 /**
  * Hook to share/unshare a resume
  */
@@ -0,0 +1,205 @@
+/**
+ * Save Coordinator Hook
+ *
+ * The single path from the editor state (ResumeContext) to the backend.
+ * Editors only dispatch to ResumeContext; this hook watches the resume,
+ * batches changes and sends one update per batch through
+ * ResumeBackendContext.updateResume (and so through the offline sync queue).
+ *
+ * Features:
+ * - Batches changes: saves after a quiet period, or after maxWait while the
+ *   user keeps typing
+ * - Minimal updates: only the changed fields and content sections are
+ *   queued, and nothing is sent when the resume matches the last save
+ *   (e.g. after undo)
+ * - Holds personal info back while contact details are malformed, since the
+ *   API rejects them, and says which fields to fix
+ * - Flushes pending changes on unmount and when the page is hidden
+ * - One status for the whole editor, for SaveStatusIndicator
+ *
+ * @module useSaveCoordinator
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useResumeContext } from '../contexts/ResumeContext';
+import { useResumeBackend } from '../contexts/ResumeBackendContext';
+import type { UpdateResumeRequest } from '../types/api.types';
+import {
+    getInvalidContactFields,
+    getSaveRequest,
+    isPersonalInfoSavable,
+    toSaveSnapshot,
+    type SaveSnapshot,
+} from '../utils/saveRequest';
+import { deepEqual } from '../utils/resumeMerge';
+
+const SAVE_DELAY = 1000; // ms
+const SAVE_MAX_WAIT = 5000; // ms
+
+export type SaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'offline' | 'conflict' | 'held' | 'error';
+
+interface SaveCoordinatorOptions {
+    /** Set once ResumeContext holds the loaded resume; the resume at that point is taken as saved */
+    ready: boolean;
+    delay?: number;
+    maxWait?: number;
+}
+
+interface UseSaveCoordinatorReturn {
+    status: SaveStatus;
+    lastSavedAt: string | null;
+    error: string | null;
+    /** Malformed contact fields; personal info isn't saved until they are fixed */
+    heldFields: string[];
+    /**
+     * Save pending changes immediately. Resolves to false when the save
+     * failed; changes kept for later (offline) count as saved.
+     */
+    saveNow: () => Promise<boolean>;
+    /**
+     * Save fields kept outside the editor state, such as the title. Failures
+     * show in the status; resolves to false when the save failed.
+     */
+    saveDetails: (update: UpdateResumeRequest) => Promise<boolean>;
+}
+
+/**
+ * Custom hook that saves ResumeContext state to the backend
+ */
+export const useSaveCoordinator = ({
+    ready,
+    delay = SAVE_DELAY,
+    maxWait = SAVE_MAX_WAIT,
+}: SaveCoordinatorOptions): UseSaveCoordinatorReturn => {
+    const { resume } = useResumeContext();
+    const { updateResume, isSaving, isOnline, pendingChanges, syncConflict } = useResumeBackend();
+
+    const [isDirty, setIsDirty] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+
+    // Snapshot of the last state handed to the backend
+    const baselineRef = useRef<SaveSnapshot | null>(null);
+    const resumeRef = useRef(resume);
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const firstChangeAtRef = useRef<number | null>(null);
+
+    useEffect(() => {
+        resumeRef.current = resume;
+    }, [resume]);
+
+    const clearTimer = () => {
+        if (timerRef.current) {
+            clearTimeout(timerRef.current);
+            timerRef.current = null;
+        }
+        firstChangeAtRef.current = null;
+    };
+
+    // Resolves to false when the save failed; the error is kept for the status
+    const send = useCallback(async (request: UpdateResumeRequest): Promise<boolean> => {
+        setError(null);
+        try {
+            await updateResume(request);
+            setLastSavedAt(new Date().toISOString());
+            return true;
+        } catch (err: any) {
+            setError(err.message || 'Failed to save resume');
+            return false;
+        }
+    }, [updateResume]);
+
+    const flush = useCallback(async (): Promise<boolean> => {
+        clearTimer();
+        const baseline = baselineRef.current;
+        if (!baseline) return true;
+
+        const current = toSaveSnapshot(resumeRef.current);
+        // Malformed contact details would be rejected; keep them pending until they are fixed
+        const held = !isPersonalInfoSavable(resumeRef.current.personalInfo);
+        const next = held
+            ? { ...current, content: { ...current.content, personalInfo: baseline.content.personalInfo } }
+            : current;
+        setIsDirty(held && !deepEqual(current.content, next.content));
+
+        const request = getSaveRequest(baseline, next);
+        if (!request) return true;
+
+        // Move the baseline before awaiting so edits made meanwhile diff against this save
+        baselineRef.current = next;
+        return send(request);
+    }, [send]);
+
+    const flushRef = useRef(flush);
+    useEffect(() => {
+        flushRef.current = flush;
+    }, [flush]);
+
+    // Take the loaded resume as the baseline; reloading (e.g. after a merge) resets it
+    useEffect(() => {
+        if (!ready) {
+            clearTimer();
+            baselineRef.current = null;
+            setIsDirty(false);
+        } else if (!baselineRef.current) {
+            baselineRef.current = toSaveSnapshot(resume);
+        }
+    }, [ready, resume]);
+
+    // Schedule a save whenever the resume differs from the last save
+    useEffect(() => {
+        const baseline = baselineRef.current;
+        if (!ready || !baseline) return;
+
+        if (!getSaveRequest(baseline, toSaveSnapshot(resume))) {
+            clearTimer();
+            setIsDirty(false);
+            return;
+        }
+
+        setIsDirty(true);
+        const now = Date.now();
+        if (firstChangeAtRef.current === null) {
+            firstChangeAtRef.current = now;
+        }
+        const wait = Math.max(0, Math.min(delay, firstChangeAtRef.current + maxWait - now));
+
+        if (timerRef.current) {
+            clearTimeout(timerRef.current);
+        }
+        timerRef.current = setTimeout(() => {
+            flushRef.current();
+        }, wait);
+    }, [ready, resume, delay, maxWait]);
+
+    // Don't lose a pending batch when leaving the editor or the page
+    useEffect(() => {
+        const handlePageHide = () => {
+            if (timerRef.current) flushRef.current();
+        };
+        window.addEventListener('pagehide', handlePageHide);
+        return () => {
+            window.removeEventListener('pagehide', handlePageHide);
+            if (timerRef.current) flushRef.current();
+        };
+    }, []);
+
+    const heldFields = useMemo(() => getInvalidContactFields(resume.personalInfo), [resume.personalInfo]);
+
+    let status: SaveStatus = lastSavedAt ? 'saved' : 'idle';
+    if (syncConflict) status = 'conflict';
+    else if (error) status = 'error';
+    else if (!isOnline) status = 'offline';
+    else if (isSaving) status = 'saving';
+    else if (ready && heldFields.length > 0) status = 'held';
+    else if (isDirty || pendingChanges > 0) status = 'pending';
+
+    return {
+        status,
+        lastSavedAt,
+        error,
+        heldFields,
+        saveNow: flush,
+        saveDetails: send,
+    };
+};
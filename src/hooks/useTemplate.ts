@@ -2,6 +2,7 @@ import { useCallback, useMemo } from "react";
 import { useResumeContext } from "../contexts/ResumeContext";
 import { TemplateType, LayoutSettings } from "../types/resume.types";
 import { TEMPLATE_CONFIGS } from "../types/template.types";
+import { getTemplateDefinition } from "../utils/templateRegistry";
 
 /**
  * useTemplate Hook
@@ -20,7 +21,7 @@ export const useTemplate = () => {
    * Get current template configuration
    */
   const currentTemplate = useMemo(() => {
-    return TEMPLATE_CONFIGS[resume.template] || TEMPLATE_CONFIGS.professional;
+    return getTemplateDefinition(resume.template);
   }, [resume.template]);
 
   /**
@@ -36,7 +37,7 @@ export const useTemplate = () => {
    * @param preserveLayout - Whether to preserve current layout settings
    */
   const switchTemplate = useCallback((templateId: TemplateType, preserveLayout: boolean = false) => {
-    const templateConfig = TEMPLATE_CONFIGS[templateId];
+    const templateConfig = getTemplateDefinition(templateId);
 
     if (!templateConfig) {
       console.error(`Template ${templateId} not found`);
@@ -80,7 +81,7 @@ export const useTemplate = () => {
    */
   const applyTemplateDefaults = useCallback((templateId?: TemplateType) => {
     const targetTemplate = templateId || resume.template;
-    const templateConfig = TEMPLATE_CONFIGS[targetTemplate];
+    const templateConfig = getTemplateDefinition(targetTemplate);
 
     if (templateConfig) {
       // Convert template styles to layout settings
@@ -119,7 +120,7 @@ export const useTemplate = () => {
    * @returns Template configuration or undefined
    */
   const getTemplate = useCallback((templateId: TemplateType) => {
-    return TEMPLATE_CONFIGS[templateId];
+    return getTemplateDefinition(templateId);
   }, []);
 
   /**
@@ -1,36 +1,57 @@
 /**
  * Undo/Redo Hook for Resume State Management
- * 
+ *
  * Features:
- * - Maintains history stack (last 50 changes)
+ * - Branching history: editing after an undo keeps the undone changes as a branch
+ * - Entries stored as patches with periodic checkpoints, so long histories stay small
+ * - History stored in IndexedDB per resume id, so it survives reloads
+ * - Entries labelled from the dispatched reducer actions
+ * - Jump to any entry in the history
  * - Keyboard shortcuts (Ctrl/Cmd+Z for undo, Ctrl/Cmd+Shift+Z for redo)
  * - Debounced state tracking to avoid storing every keystroke
- * - Clear history on template switch
- * 
+ *
  * @module useUndoRedo
  */
 
-import { useEffect, useRef, useCallback } from 'react';
-import { Resume } from '../types/resume.types';
+import { useEffect, useRef, useCallback, useMemo, useState } from 'react';
+import { HistoryEntry, Resume } from '../types/resume.types';
+import { historyStore } from '../services/historyStore';
+import {
+    canRedo as treeCanRedo,
+    canUndo as treeCanUndo,
+    commit,
+    createHistory,
+    hasChanges,
+    currentState as historyState,
+    jumpTo as treeJumpTo,
+    listEntries,
+    redo as treeRedo,
+    undo as treeUndo,
+    type HistoryTree,
+} from '../utils/editHistory';
 
-const MAX_HISTORY_SIZE = 50;
 const DEBOUNCE_DELAY = 500; // ms
-
-interface UndoRedoState {
-    past: Resume[];
-    present: Resume;
-    future: Resume[];
-}
+const PERSIST_DELAY = 1000; // ms
 
 interface UseUndoRedoReturn {
     canUndo: boolean;
     canRedo: boolean;
     undo: () => void;
     redo: () => void;
+    /** Return to any entry of the history */
+    jumpTo: (entryId: string) => void;
+    /** The history, oldest first, for the history panel */
+    history: HistoryEntry[];
+    /** Note a dispatched action type; it labels the next history entry */
+    trackAction: (type: string) => void;
     clearHistory: () => void;
     recordState: (state: Resume) => void;
 }
 
+// A history with nothing to undo or redo isn't worth storing, e.g. the
+// placeholder resume shown before the real one loads
+const isWorthSaving = (tree: HistoryTree): boolean => Object.keys(tree.nodes).length > 1;
+
 /**
  * Custom hook for undo/redo functionality
  */
@@ -38,31 +59,64 @@ export const useUndoRedo = (
     currentState: Resume,
     setState: (state: Resume) => void
 ): UseUndoRedoReturn => {
-    const historyRef = useRef<UndoRedoState>({
-        past: [],
-        present: currentState,
-        future: [],
-    });
+    const [tree, setTree] = useState<HistoryTree | null>(null);
+    const treeRef = useRef<HistoryTree | null>(null);
+    const stateRef = useRef(currentState);
 
     const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const savedTreeRef = useRef<HistoryTree | null>(null);
+    const pendingStateRef = useRef<Resume | null>(null);
+    const pendingActionsRef = useRef<string[]>([]);
     const isUndoRedoActionRef = useRef(false);
-    const lastTemplateRef = useRef(currentState.template);
+
+    const updateTree = useCallback((next: HistoryTree | null) => {
+        treeRef.current = next;
+        setTree(next);
+    }, []);
+
+    // Load the stored history whenever another resume is opened
+    const resumeId = currentState.id;
+    useEffect(() => {
+        let cancelled = false;
+        updateTree(null);
+        pendingStateRef.current = null;
+        pendingActionsRef.current = [];
+
+        historyStore.load(resumeId).then((stored) => {
+            if (cancelled) return;
+            const state = stateRef.current;
+            if (!stored) {
+                updateTree(createHistory(state));
+            } else if (!hasChanges(stored, state)) {
+                // The stored present is a copy; share the editor's objects so diffs can skip them
+                updateTree({ ...stored, present: state });
+            } else {
+                // Changed since the history was saved, e.g. on another device
+                updateTree(commit(stored, state, ['LOAD_RESUME']));
+            }
+        });
+
+        return () => {
+            cancelled = true;
+            // Don't lose the last changes of the resume being left
+            const history = treeRef.current;
+            if (history && history !== savedTreeRef.current && isWorthSaving(history)) {
+                historyStore.save(history);
+            }
+        };
+    }, [resumeId, updateTree]);
 
     // Update present state when current state changes (but not during undo/redo)
     useEffect(() => {
+        stateRef.current = currentState;
+
         if (isUndoRedoActionRef.current) {
             isUndoRedoActionRef.current = false;
             return;
         }
 
-        // Clear history if template changed
-        if (lastTemplateRef.current !== currentState.template) {
-            lastTemplateRef.current = currentState.template;
-            historyRef.current = {
-                past: [],
-                present: currentState,
-                future: [],
-            };
+        // Still loading; the loaded history picks up the latest state
+        if (!treeRef.current) {
             return;
         }
 
@@ -71,6 +125,7 @@ export const useUndoRedo = (
             clearTimeout(debounceTimerRef.current);
         }
 
+        pendingStateRef.current = currentState;
         debounceTimerRef.current = setTimeout(() => {
             recordState(currentState);
         }, DEBOUNCE_DELAY);
@@ -82,79 +137,76 @@ export const useUndoRedo = (
         };
     }, [currentState]);
 
+    // Persist the history shortly after it changes
+    useEffect(() => {
+        if (!tree || !isWorthSaving(tree)) return;
+        const timer = setTimeout(() => {
+            savedTreeRef.current = tree;
+            historyStore.save(tree);
+        }, PERSIST_DELAY);
+        return () => clearTimeout(timer);
+    }, [tree]);
+
     // Record a new state in history
     const recordState = useCallback((state: Resume) => {
-        const { past, present } = historyRef.current;
-
-        // Don't record if state hasn't actually changed
-        if (JSON.stringify(present) === JSON.stringify(state)) {
+        pendingStateRef.current = null;
+        const history = treeRef.current;
+        if (!history || history.resumeId !== state.id) {
             return;
         }
 
-        const newPast = [...past, present];
-
-        // Limit history size
-        if (newPast.length > MAX_HISTORY_SIZE) {
-            newPast.shift();
-        }
-
-        historyRef.current = {
-            past: newPast,
-            present: state,
-            future: [], // Clear future when new state is recorded
-        };
-    }, []);
-
-    // Undo action
-    const undo = useCallback(() => {
-        const { past, present, future } = historyRef.current;
+        const actions = pendingActionsRef.current;
+        pendingActionsRef.current = [];
 
-        if (past.length === 0) {
+        // Don't record if state hasn't actually changed
+        if (!hasChanges(history, state)) {
             return;
         }
 
-        const previous = past[past.length - 1];
-        const newPast = past.slice(0, past.length - 1);
-
-        historyRef.current = {
-            past: newPast,
-            present: previous,
-            future: [present, ...future],
-        };
-
-        isUndoRedoActionRef.current = true;
-        setState(previous);
-    }, [setState]);
+        updateTree(commit(history, state, actions));
+    }, [updateTree]);
 
-    // Redo action
-    const redo = useCallback(() => {
-        const { past, present, future } = historyRef.current;
+    const trackAction = useCallback((type: string) => {
+        pendingActionsRef.current.push(type);
+    }, []);
 
-        if (future.length === 0) {
-            return;
+    // Record a change that is still waiting on the debounce, so an undo right
+    // after an edit (or an ATS fix) reverts that edit instead of the one before
+    const flushPendingState = useCallback(() => {
+        if (!pendingStateRef.current) return;
+        if (debounceTimerRef.current) {
+            clearTimeout(debounceTimerRef.current);
         }
+        recordState(pendingStateRef.current);
+    }, [recordState]);
 
-        const next = future[0];
-        const newFuture = future.slice(1);
+    // Move through the history and show the state found there
+    const navigate = useCallback((move: (history: HistoryTree) => HistoryTree) => {
+        flushPendingState();
+        const history = treeRef.current;
+        if (!history) return;
 
-        historyRef.current = {
-            past: [...past, present],
-            present: next,
-            future: newFuture,
-        };
+        const next = move(history);
+        if (next.currentId === history.currentId) return;
 
+        updateTree(next);
         isUndoRedoActionRef.current = true;
-        setState(next);
-    }, [setState]);
+        setState(historyState(next));
+    }, [flushPendingState, updateTree, setState]);
+
+    const undo = useCallback(() => navigate(treeUndo), [navigate]);
+    const redo = useCallback(() => navigate(treeRedo), [navigate]);
+    const jumpTo = useCallback(
+        (entryId: string) => navigate((history) => treeJumpTo(history, entryId)),
+        [navigate]
+    );
 
     // Clear history
     const clearHistory = useCallback(() => {
-        historyRef.current = {
-            past: [],
-            present: currentState,
-            future: [],
-        };
-    }, [currentState]);
+        pendingActionsRef.current = [];
+        updateTree(createHistory(stateRef.current));
+        historyStore.remove(stateRef.current.id);
+    }, [updateTree]);
 
     // Keyboard shortcuts
     useEffect(() => {
@@ -179,14 +231,16 @@ export const useUndoRedo = (
         return () => window.removeEventListener('keydown', handleKeyDown);
     }, [undo, redo]);
 
-    const canUndo = historyRef.current.past.length > 0;
-    const canRedo = historyRef.current.future.length > 0;
+    const history = useMemo(() => (tree ? listEntries(tree) : []), [tree]);
 
     return {
-        canUndo,
-        canRedo,
+        canUndo: !!tree && (treeCanUndo(tree) || pendingStateRef.current !== null),
+        canRedo: !!tree && treeCanRedo(tree),
         undo,
         redo,
+        jumpTo,
+        history,
+        trackAction,
         clearHistory,
         recordState,
     };
@@ -3,7 +3,7 @@
  * React Query hooks for resume version control
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { versionService } from '../services/version.service';
 import { QUERY_KEYS } from '../lib/queryClient';
@@ -12,7 +12,23 @@ import type {
     CreateVersionData,
     RestoreVersionOptions,
     DeleteVersionOptions,
+    ResumeVersion,
+    SnapshotSettings,
+    SnapshotTrigger,
 } from '../types/version.types';
+import {
+    DEFAULT_SNAPSHOT_SETTINGS,
+    autoSnapshotName,
+    latestVersion,
+    loadSnapshotSettings,
+    saveSnapshotSettings,
+    selectSnapshotsToPrune,
+    summarizeChanges,
+    type SnapshotState,
+} from '../utils/versionSnapshots';
+
+// How often to check whether an editing session is due for a snapshot
+const EDITING_CHECK_INTERVAL = 60 * 1000;
 
 /**
  * Hook to fetch all versions of a resume
@@ -127,11 +143,11 @@ export const useVersionsManagement = (resumeId: string) => {
         }
     }, [refetch]);
 
-    const createVersion = useCallback(async (name: string) => {
+    const createVersion = useCallback(async (name: string, changesSummary?: string) => {
         setIsLoading(true);
         setError(null);
         try {
-            await versionService.create(resumeId, { versionName: name });
+            await versionService.create(resumeId, { versionName: name, changesSummary });
             await refetch();
         } catch (err: any) {
             setError(err.message || 'Failed to create version');
@@ -164,3 +180,117 @@ export const useVersionsManagement = (resumeId: string) => {
         restoreVersion,
     };
 };
+
+/**
+ * Save an automatic snapshot of a resume, labelled with what changed since
+ * its latest version, then remove the automatic snapshots the retention
+ * policy no longer keeps. Nothing is saved when nothing changed.
+ */
+export const createAutoSnapshot = async (
+    resumeId: string,
+    trigger: SnapshotTrigger,
+    state: SnapshotState,
+    settings: SnapshotSettings
+): Promise<ResumeVersion | null> => {
+    if (!settings.enabled || !settings.triggers[trigger]) return null;
+
+    const versions = await versionService.list(resumeId);
+    const changesSummary = summarizeChanges(latestVersion(versions), state);
+    if (!changesSummary) return null;
+
+    const version = await versionService.create(resumeId, {
+        versionName: autoSnapshotName(trigger),
+        changesSummary,
+    });
+    for (const versionId of selectSnapshotsToPrune([...versions, version], settings.retention)) {
+        await versionService.delete(resumeId, versionId);
+    }
+    return version;
+};
+
+interface AutoSnapshotOptions {
+    /** The resume as it stands, or null until it has loaded */
+    state: SnapshotState | null;
+    /** Save pending edits first; the server snapshots what it has stored */
+    flush?: () => Promise<unknown>;
+    /** Snapshot long editing sessions; only the editor edits continuously */
+    watchEditing?: boolean;
+}
+
+/**
+ * Automatic version snapshots for one resume: takeSnapshot saves one before
+ * a risky change, and a snapshot is saved once editing has gone on for the
+ * configured number of minutes
+ */
+export const useAutoSnapshots = (
+    resumeId: string | undefined,
+    { state, flush, watchEditing = false }: AutoSnapshotOptions
+) => {
+    const queryClient = useQueryClient();
+    const [settings, setSettings] = useState<SnapshotSettings>(DEFAULT_SNAPSHOT_SETTINGS);
+
+    const settingsRef = useRef(settings);
+    const stateRef = useRef(state);
+    const flushRef = useRef(flush);
+    const editingSinceRef = useRef<number | null>(null);
+
+    useEffect(() => {
+        settingsRef.current = settings;
+    }, [settings]);
+
+    useEffect(() => {
+        flushRef.current = flush;
+    }, [flush]);
+
+    // Editing starts with the first change after loading or after the last snapshot
+    useEffect(() => {
+        const previous = stateRef.current;
+        stateRef.current = state;
+        if (previous && state && previous !== state && editingSinceRef.current === null) {
+            editingSinceRef.current = Date.now();
+        }
+    }, [state]);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadSnapshotSettings().then((loaded) => {
+            if (!cancelled) setSettings(loaded);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const updateSettings = useCallback((next: SnapshotSettings) => {
+        setSettings(next);
+        saveSnapshotSettings(next);
+    }, []);
+
+    const takeSnapshot = useCallback(async (trigger: SnapshotTrigger) => {
+        if (!resumeId || !stateRef.current) return;
+        editingSinceRef.current = null;
+        try {
+            await flushRef.current?.();
+            const version = await createAutoSnapshot(resumeId, trigger, stateRef.current, settingsRef.current);
+            if (version) {
+                queryClient.invalidateQueries({ queryKey: QUERY_KEYS.versions(resumeId) });
+            }
+        } catch (err) {
+            // A missed snapshot must not block the change it was taken for
+            console.error('Automatic snapshot failed:', err);
+        }
+    }, [resumeId, queryClient]);
+
+    useEffect(() => {
+        if (!watchEditing || !settings.enabled || !settings.triggers.editing) return;
+        const timer = setInterval(() => {
+            const since = editingSinceRef.current;
+            if (since !== null && Date.now() - since >= settings.editingMinutes * 60 * 1000) {
+                takeSnapshot('editing');
+            }
+        }, EDITING_CHECK_INTERVAL);
+        return () => clearInterval(timer);
+    }, [watchEditing, settings, takeSnapshot]);
+
+    return { settings, updateSettings, takeSnapshot };
+};
@@ -10,13 +10,16 @@ import { useAuth } from '../contexts/AuthContext';
 import { Button } from '../components/UI/Button';
 import { Input } from '../components/UI/Input';
 import { ImportExportModal } from '../components/UI/ImportExportModal';
+import { RejectedChangesBanner } from '../components/UI/RejectedChangesBanner';
 import { EmailVerificationBanner } from '../components/UI/EmailVerificationBanner';
 import { SkeletonCardGrid } from '../components/UI/SkeletonCard';
-import { Plus, Search, FileText, Copy, Trash2, Share2, MoreVertical, Download, Upload, CheckSquare, User, LogOut, Lock } from 'lucide-react';
+import { Plus, Search, FileText, Copy, Trash2, Share2, MoreVertical, Download, Upload, CheckSquare, User, LogOut, Lock, GitBranch } from 'lucide-react';
 import { defaultSections } from '../constants/defaultResume';
 import type { ResumeResponse, ResumeContent } from '../types/api.types';
 import { TemplateThumbnail } from '../components/Templates/TemplateThumbnail';
+import { resolvePageSize } from '../utils/pageSize';
 import { TemplateType } from '../types/resume.types';
+import { groupVariants } from '../utils/resumeVariants';
 
 export const DashboardPage: React.FC = () => {
     const navigate = useNavigate();
@@ -29,6 +32,10 @@ export const DashboardPage: React.FC = () => {
         createResume,
         deleteResume,
         duplicateResume,
+        createVariant,
+        rejectedChanges,
+        retryRejected,
+        discardRejected,
     } = useResumeBackend();
 
     const [searchQuery, setSearchQuery] = useState('');
@@ -102,6 +109,8 @@ export const DashboardPage: React.FC = () => {
                     initialContent.projects = section.content.projects;
                 } else if (section.type === 'certifications' && 'certifications' in section.content) {
                     initialContent.certifications = section.content.certifications;
+                } else if (section.type === 'languages' && 'languages' in section.content) {
+                    initialContent.languages = section.content.languages;
                 } else if (section.type === 'additional-info' && 'additionalInfo' in section.content) {
                     initialContent.additionalInfo = section.content.additionalInfo;
                 }
@@ -131,6 +140,16 @@ export const DashboardPage: React.FC = () => {
         }
     };
 
+    const handleCreateVariant = async (id: string) => {
+        try {
+            const variant = await createVariant(id);
+            setActiveMenu(null);
+            navigate(`/editor/${variant.id}`);
+        } catch (err) {
+            console.error('Failed to create variant:', err);
+        }
+    };
+
     const handleDeleteResume = async (id: string) => {
         if (!confirm('Are you sure you want to delete this resume?')) return;
 
@@ -199,6 +218,15 @@ export const DashboardPage: React.FC = () => {
         resume.title.toLowerCase().includes(searchQuery.toLowerCase())
     );
 
+    // Variants follow the resume they were made from
+    const resumeEntries = groupVariants(filteredResumes).flatMap((group) => [
+        { resume: group.resume, baseTitle: undefined as string | undefined },
+        ...group.variants.map((variant) => ({
+            resume: variant,
+            baseTitle: resumes.find((resume) => resume.id === variant.content?.variant?.baseId)?.title,
+        })),
+    ]);
+
     return (
         <div className="min-h-screen bg-gray-50">
             {/* Header */}
@@ -398,6 +426,17 @@ export const DashboardPage: React.FC = () => {
                     </div>
                 )}
 
+                {rejectedChanges.length > 0 && (
+                    <div className="mb-6 rounded-md overflow-hidden">
+                        <RejectedChangesBanner
+                            changes={rejectedChanges}
+                            resumeTitle={(resumeId) => resumes.find((resume) => resume.id === resumeId)?.title}
+                            onRetry={retryRejected}
+                            onDiscard={discardRejected}
+                        />
+                    </div>
+                )}
+
                 {/* Loading State with Skeleton */}
                 {isLoading && (
                     <SkeletonCardGrid count={6} />
@@ -428,12 +467,14 @@ export const DashboardPage: React.FC = () => {
                 {/* Resume Grid */}
                 {!isLoading && filteredResumes.length > 0 && viewMode === 'grid' && (
                     <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3 sm:gap-4">
-                        {filteredResumes.map((resume) => (
+                        {resumeEntries.map(({ resume, baseTitle }) => (
                             <ResumeCard
                                 key={resume.id}
                                 resume={resume}
+                                baseTitle={baseTitle}
                                 onEdit={handleEditResume}
                                 onDuplicate={handleDuplicateResume}
+                                onCreateVariant={handleCreateVariant}
                                 onDelete={handleDeleteResume}
                                 onShare={handleShareResume}
                                 onExport={handleExportResume}
@@ -451,12 +492,14 @@ export const DashboardPage: React.FC = () => {
                 {!isLoading && filteredResumes.length > 0 && viewMode === 'list' && (
                     <div className="bg-white/80 backdrop-blur-md shadow-sm rounded-xl border border-white/50 overflow-hidden">
                         <ul className="divide-y divide-gray-100">
-                            {filteredResumes.map((resume) => (
+                            {resumeEntries.map(({ resume, baseTitle }) => (
                                 <ResumeListItem
                                     key={resume.id}
                                     resume={resume}
+                                    baseTitle={baseTitle}
                                     onEdit={handleEditResume}
                                     onDuplicate={handleDuplicateResume}
+                                    onCreateVariant={handleCreateVariant}
                                     onDelete={handleDeleteResume}
                                     onShare={handleShareResume}
                                     onExport={handleExportResume}
@@ -491,8 +534,11 @@ export const DashboardPage: React.FC = () => {
 // Resume Card Component
 interface ResumeCardProps {
     resume: ResumeResponse;
+    /** Set when the resume is a variant listed under its base */
+    baseTitle?: string;
     onEdit: (id: string) => void;
     onDuplicate: (id: string) => void;
+    onCreateVariant: (id: string) => void;
     onDelete: (id: string) => void;
     onShare: (id: string) => void;
     onExport: (resume: ResumeResponse) => void;
@@ -505,8 +551,10 @@ interface ResumeCardProps {
 
 const ResumeCard: React.FC<ResumeCardProps> = ({
     resume,
+    baseTitle,
     onEdit,
     onDuplicate,
+    onCreateVariant,
     onDelete,
     onShare,
     onExport,
@@ -586,6 +634,13 @@ const ResumeCard: React.FC<ResumeCardProps> = ({
                         <Copy className="w-3.5 h-3.5" />
                         Duplicate
                     </button>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onCreateVariant(resume.id); }}
+                        className="w-full text-left px-4 py-2 text-xs font-medium text-gray-700 hover:bg-blue-50 hover:text-blue-700 flex items-center gap-2 transition-colors"
+                    >
+                        <GitBranch className="w-3.5 h-3.5" />
+                        Create Variant
+                    </button>
                     <div className="h-px bg-gray-100/50 my-1" />
                     <button
                         onClick={(e) => { e.stopPropagation(); onDelete(resume.id); }}
@@ -612,6 +667,7 @@ const ResumeCard: React.FC<ResumeCardProps> = ({
                 <div className="absolute inset-2 sm:inset-4 shadow-lg rounded-sm overflow-hidden bg-white transform transition-transform duration-500 will-change-transform group-hover:scale-[1.03] group-hover:-translate-y-1">
                     <TemplateThumbnail
                         templateType={getTemplateType(resume.templateId)}
+                        pageSize={resolvePageSize(resume.content?.layout ?? {})}
                         className="w-full h-full object-cover"
                     />
                      {/* Inner glass sheen over the resume preview */}
@@ -635,6 +691,12 @@ const ResumeCard: React.FC<ResumeCardProps> = ({
                         {resume.title}
                     </h3>
                 </div>
+                {baseTitle && (
+                    <span className="flex items-center gap-1 text-[9px] sm:text-[11px] text-indigo-600 min-w-0" title={`Variant of ${baseTitle}`}>
+                        <GitBranch className="w-3 h-3 flex-shrink-0" />
+                        <span className="truncate">Variant of {baseTitle}</span>
+                    </span>
+                )}
                 
                 <div className="flex items-center justify-between mt-0.5 sm:mt-1">
                      <span className="text-[8px] sm:text-[10px] font-medium uppercase tracking-wider text-gray-400 bg-gray-100/80 px-1 sm:px-1.5 py-0.5 rounded border border-gray-100/50">
@@ -652,8 +714,11 @@ const ResumeCard: React.FC<ResumeCardProps> = ({
 // Resume List Item Component
 interface ResumeListItemProps {
     resume: ResumeResponse;
+    /** Set when the resume is a variant listed under its base */
+    baseTitle?: string;
     onEdit: (id: string) => void;
     onDuplicate: (id: string) => void;
+    onCreateVariant: (id: string) => void;
     onDelete: (id: string) => void;
     onShare: (id: string) => void;
     onExport: (resume: ResumeResponse) => void;
@@ -666,8 +731,10 @@ interface ResumeListItemProps {
 
 const ResumeListItem: React.FC<ResumeListItemProps> = ({
     resume,
+    baseTitle,
     onEdit,
     onDuplicate,
+    onCreateVariant,
     onDelete,
     onShare,
     onExport,
@@ -678,7 +745,7 @@ const ResumeListItem: React.FC<ResumeListItemProps> = ({
     onToggleSelect,
 }) => {
     return (
-        <li className={`px-4 sm:px-6 py-4 hover:bg-gray-50 transition-colors ${bulkSelectMode && isSelected ? 'bg-blue-50' : ''
+        <li className={`pr-4 sm:pr-6 py-4 hover:bg-gray-50 transition-colors ${baseTitle ? 'pl-10 sm:pl-14' : 'pl-4 sm:pl-6'} ${bulkSelectMode && isSelected ? 'bg-blue-50' : ''
             }`}>
             <div className="flex items-center justify-between gap-4">
                 <div className="flex items-center gap-3 sm:gap-4 flex-1 min-w-0">
@@ -694,8 +761,8 @@ const ResumeListItem: React.FC<ResumeListItemProps> = ({
                         className={`flex items-center gap-3 sm:gap-4 flex-1 min-w-0 ${bulkSelectMode ? '' : 'cursor-pointer'}`}
                         onClick={() => !bulkSelectMode && onEdit(resume.id)}
                     >
-                        <div className="flex-shrink-0 w-10 h-10 bg-blue-50 rounded-lg flex items-center justify-center text-blue-600">
-                             <FileText className="w-5 h-5" />
+                        <div className={`flex-shrink-0 w-10 h-10 rounded-lg flex items-center justify-center ${baseTitle ? 'bg-indigo-50 text-indigo-600' : 'bg-blue-50 text-blue-600'}`}>
+                             {baseTitle ? <GitBranch className="w-5 h-5" /> : <FileText className="w-5 h-5" />}
                         </div>
                         <div className="flex-1 min-w-0">
                             <h3 className="text-sm sm:text-base font-medium text-gray-900 truncate">{resume.title}</h3>
@@ -707,6 +774,9 @@ const ResumeListItem: React.FC<ResumeListItemProps> = ({
                                 <span className="hidden sm:inline-block text-xs text-gray-400 capitalize">
                                     {resume.templateId}
                                 </span>
+                                {baseTitle && (
+                                    <span className="text-xs text-indigo-600 truncate">Variant of {baseTitle}</span>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -724,6 +794,9 @@ const ResumeListItem: React.FC<ResumeListItemProps> = ({
                         <Button variant="ghost" size="sm" onClick={() => onDuplicate(resume.id)} title="Duplicate">
                             <Copy className="w-4 h-4 text-gray-500" />
                         </Button>
+                        <Button variant="ghost" size="sm" onClick={() => onCreateVariant(resume.id)} title="Create Variant">
+                            <GitBranch className="w-4 h-4 text-gray-500" />
+                        </Button>
                         <Button variant="ghost" size="sm" onClick={() => onDelete(resume.id)} title="Delete">
                             <Trash2 className="w-4 h-4 text-red-500" />
                         </Button>
@@ -767,6 +840,13 @@ const ResumeListItem: React.FC<ResumeListItemProps> = ({
                                     <Copy className="w-4 h-4" />
                                     Duplicate
                                 </button>
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); onCreateVariant(resume.id); }}
+                                    className="w-full text-left px-4 py-3 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-3"
+                                >
+                                    <GitBranch className="w-4 h-4" />
+                                    Create Variant
+                                </button>
                                 <button
                                     onClick={(e) => { e.stopPropagation(); onDelete(resume.id); }}
                                     className="w-full text-left px-4 py-3 text-sm text-red-600 hover:bg-red-50 flex items-center gap-3"
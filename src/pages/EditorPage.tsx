@@ -3,7 +3,7 @@
  * Main editor with three-panel layout: editor, preview, and controls
  */
 
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useResumeBackend } from '../contexts/ResumeBackendContext';
 import { useResumeContext } from '../contexts/ResumeContext';
@@ -15,18 +15,48 @@ import { Button } from '../components/UI/Button';
 import { SaveStatusIndicator } from '../components/UI/SaveStatusIndicator';
 import { TemplateSelector } from '../components/UI/TemplateSelector';
 import { BottomSheet } from '../components/UI/BottomSheet';
-
-import { TemplateType } from '../types/resume.types';
+import { ResumeImportWizard } from '../components/UI/ResumeImportWizard';
+import { SyncConflictDialog } from '../components/UI/SyncConflictDialog';
+import { RejectedChangesBanner } from '../components/UI/RejectedChangesBanner';
+import { VariantOverridesPanel } from '../components/Editor/VariantOverridesPanel';
+import { HistoryPanel } from '../components/Editor/HistoryPanel';
+import { Modal } from '../components/UI/Modal';
+
+import { Resume, TemplateType } from '../types/resume.types';
+import type { ResumeContent } from '../types/api.types';
 import { usePDFExportContext } from '../contexts/PDFExportContext';
 import { usePDFExport } from '../hooks/usePDFExport';
+import { useSaveCoordinator } from '../hooks/useSaveCoordinator';
+import { useAutoSnapshots } from '../hooks/useVersions';
 import { useReactToPrint } from 'react-to-print';
-import { ArrowLeft, Download, Share2, History, Eye, Settings, Save, ChevronDown, Edit2, Layout, PanelRightClose, PanelRight } from 'lucide-react';
+import { copyResumeText, downloadResumeText } from '../utils/textExporter';
+import { downloadResumeDOCX } from '../utils/docxExporter';
+import { isCustomTemplate } from '../utils/templateRegistry';
+import { getTemplatePreset } from '../utils/templateStyler';
+import { getLocalePageSize, getPageRule, resolvePageSize } from '../utils/pageSize';
+import { localizeResume } from '../utils/resumeLocale';
+import { backendToEditorResume } from '../utils/resumeConverter';
+import { restoreItem, restoreSection } from '../utils/resumeDiff';
+import { toSaveSnapshot } from '../utils/saveRequest';
+import { ArrowLeft, Download, Upload, Share2, History, Eye, Settings, Save, ChevronDown, Edit2, Layout, PanelRightClose, PanelRight, Target, ListTree } from 'lucide-react';
 import { QuickStartTutorial } from '../components/Tutorial';
 
 const EditorPageContent: React.FC = () => {
     const { id } = useParams<{ id: string }>();
     const navigate = useNavigate();
-    const { currentResume, loadResume, updateResume, isSaving, error } = useResumeBackend();
+    const {
+        currentResume,
+        loadResume,
+        isSaving,
+        error,
+        syncConflict,
+        resolveConflict,
+        dismissConflict,
+        rejectedChanges,
+        retryRejected,
+        discardRejected,
+        variantBase,
+    } = useResumeBackend();
     const { resume, dispatch } = useResumeContext();
 
     // UI States
@@ -41,7 +71,10 @@ const EditorPageContent: React.FC = () => {
     // Feature States
     const [showTemplateSelector, setShowTemplateSelector] = useState(false);
     const [showExportMenu, setShowExportMenu] = useState(false);
+    const [showHistoryPanel, setShowHistoryPanel] = useState(false);
     const exportMenuRef = useRef<HTMLDivElement>(null);
+    const [importFile, setImportFile] = useState<File | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
 
     // Ref for debouncing title save
     const titleSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -73,14 +106,13 @@ const EditorPageContent: React.FC = () => {
     }, []);
 
     // PDF Export
-    const { previewRef } = usePDFExportContext();
-    const { handleExport, isExporting: isServerExporting } = usePDFExport(resume, previewRef);
+    const { previewRef, previewLocale } = usePDFExportContext();
+    // Exports use the language variant shown in the preview
+    const exportedResume = useMemo(() => localizeResume(resume, previewLocale), [resume, previewLocale]);
+    const { handleExport, isExporting: isServerExporting } = usePDFExport(exportedResume, previewRef);
 
     const pageStyle = `
-        @page {
-            size: A4 portrait;
-            margin: 0;
-        }
+        ${getPageRule(resolvePageSize(resume.layout))}
         @media print {
             html, body {
                 margin: 0;
@@ -118,29 +150,91 @@ const EditorPageContent: React.FC = () => {
         suppressErrors: true,
     });
 
-    const handleExportOption = async (type: 'server' | 'client') => {
+    const handleExportOption = async (type: 'server' | 'client' | 'docx' | 'txt' | 'md' | 'copy') => {
         setShowExportMenu(false);
-        if (type === 'server') {
-            await handleExport(undefined, pageStyle);
-        } else {
-            handlePrint();
+        switch (type) {
+            case 'server':
+                await handleExport(undefined, pageStyle);
+                break;
+            case 'client':
+                handlePrint();
+                break;
+            case 'docx':
+                downloadResumeDOCX(exportedResume);
+                break;
+            case 'txt':
+                downloadResumeText(exportedResume, 'plain');
+                break;
+            case 'md':
+                downloadResumeText(exportedResume, 'markdown');
+                break;
+            case 'copy':
+                try {
+                    await copyResumeText(exportedResume, 'plain');
+                } catch (err) {
+                    console.error('Copy to clipboard failed:', err);
+                }
+                break;
         }
     };
 
+    const handleImportFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) setImportFile(file);
+        // Allow picking the same file again after cancelling
+        e.target.value = '';
+    };
+
+    const handleResolveConflict = async (content: ResumeContent) => {
+        // Reload the editor from the merged copy once it replaces currentResume
+        hasSyncedRef.current = false;
+        setIsHydrated(false);
+        await resolveConflict(content);
+    };
+
+    const handleDiscardRejected = async (mutationId: string) => {
+        // Reload the editor from the server copy once the change is dropped
+        hasSyncedRef.current = false;
+        setIsHydrated(false);
+        await discardRejected(mutationId);
+    };
+
+    // The resume in backend form, as saves and snapshots see it
+    const saveSnapshot = useMemo(() => toSaveSnapshot(resume), [resume]);
+    const currentContent = saveSnapshot.content;
+
+    const handleResetToBase = (key: keyof ResumeContent, itemId?: string) => {
+        if (!currentResume || !variantBase) return;
+        const content = itemId
+            ? restoreItem(currentContent, variantBase.content, key, itemId)
+            : restoreSection(currentContent, variantBase.content, key);
+        // The save coordinator picks this up and records the smaller override list
+        dispatch({
+            type: 'SET_RESUME',
+            payload: {
+                ...backendToEditorResume({ ...currentResume, content }, resume),
+                template: resume.template,
+                layout: resume.layout,
+            },
+        });
+    };
+
+    const handleImportConfirm = async (importedResume: Resume) => {
+        await takeSnapshot('import');
+        dispatch({ type: 'SET_RESUME', payload: importedResume });
+        setImportFile(null);
+    };
+
     const isExporting = isServerExporting || isClientExporting;
     const hasLoadedRef = useRef(false);
     const hasSyncedRef = useRef(false);
-    const lastTemplateRef = useRef(resume.template);
-
-    // Watch for template changes to trigger autosave
-    useEffect(() => {
-        if (hasSyncedRef.current && lastTemplateRef.current !== resume.template) {
-            lastTemplateRef.current = resume.template;
-            if (currentResume) {
-                updateResume({ templateId: resume.template });
-            }
-        }
-    }, [resume.template, currentResume, updateResume]);
+    const [isHydrated, setIsHydrated] = useState(false);
+    const { status: saveStatus, lastSavedAt, heldFields, saveNow, saveDetails } = useSaveCoordinator({ ready: isHydrated });
+    const { takeSnapshot } = useAutoSnapshots(id, {
+        state: isHydrated ? saveSnapshot : null,
+        flush: saveNow,
+        watchEditing: true,
+    });
 
     // Load resume on mount
     useEffect(() => {
@@ -154,6 +248,7 @@ const EditorPageContent: React.FC = () => {
     useEffect(() => {
         if (currentResume && currentResume.id === id && !hasSyncedRef.current) {
             hasSyncedRef.current = true;
+            setIsHydrated(true);
 
             const createdAt = new Date(currentResume.createdAt);
             const now = new Date();
@@ -161,135 +256,35 @@ const EditorPageContent: React.FC = () => {
             setIsNewResume(diffInSeconds < 30);
 
             if (currentResume.content) {
-                let updatedSections = [];
-                if (currentResume.content.sectionOrder && currentResume.content.sectionOrder.length > 0) {
-                    updatedSections = currentResume.content.sectionOrder.map(metadata => {
-                        let content: any = {};
-                        switch (metadata.type) {
-                            case 'summary':
-                                content = { summary: currentResume.content.summary || '' };
-                                break;
-                            case 'experience':
-                                content = { experiences: currentResume.content.experience || [] };
-                                break;
-                            case 'education':
-                                content = { education: currentResume.content.education || [] };
-                                break;
-                            case 'skills':
-                                content = { skills: currentResume.content.skills || [] };
-                                break;
-                            case 'projects':
-                                content = { projects: currentResume.content.projects || [] };
-                                break;
-                            case 'certifications':
-                                content = { certifications: currentResume.content.certifications || [] };
-                                break;
-                            case 'additional-info':
-                                content = { additionalInfo: currentResume.content.additionalInfo || [] };
-                                break;
-                            case 'custom':
-                                const customSectionData = currentResume.content.customSections?.find(
-                                    cs => cs.id === metadata.id
-                                );
-                                content = {
-                                    custom: {
-                                        id: metadata.id,
-                                        title: metadata.title,
-                                        content: customSectionData?.content || ''
-                                    }
-                                };
-                                break;
-                        }
-
-                        return {
-                            id: metadata.id,
-                            type: metadata.type as any,
-                            title: metadata.title,
-                            enabled: metadata.enabled,
-                            order: metadata.order,
-                            content: content
-                        };
-                    });
-                    updatedSections.sort((a, b) => a.order - b.order);
-                } else {
-                     // Fallback for legacy
-                     updatedSections = resume.sections.map(section => {
-                        // ... legacy mapping logic ...
-                        // Keeping it simple as it was mostly redundant in the original file
-                        // Assuming the original map logic was correct, I will just copy the essence
-                        // to save tokens, assuming modern resumes use sectionOrder.
-                         if (section.type === 'summary' && currentResume.content.summary) return { ...section, content: { summary: currentResume.content.summary } };
-                         if (section.type === 'experience' && currentResume.content.experience) return { ...section, content: { experiences: currentResume.content.experience } };
-                         if (section.type === 'education' && currentResume.content.education) return { ...section, content: { education: currentResume.content.education } };
-                         if (section.type === 'skills' && currentResume.content.skills) return { ...section, content: { skills: currentResume.content.skills } };
-                         if (section.type === 'projects' && currentResume.content.projects) return { ...section, content: { projects: currentResume.content.projects } };
-                         if (section.type === 'certifications' && currentResume.content.certifications) return { ...section, content: { certifications: currentResume.content.certifications } };
-                         if (section.type === 'additional-info' && currentResume.content.additionalInfo) return { ...section, content: { additionalInfo: currentResume.content.additionalInfo } };
-                        return section;
-                    });
-                }
-
-                lastTemplateRef.current = (currentResume.templateId || resume.template) as TemplateType;
-
-                dispatch({
-                    type: 'SET_RESUME',
-                    payload: {
-                        ...resume,
-                        id: currentResume.id,
-                        template: currentResume.templateId || resume.template,
-                        personalInfo: currentResume.content.personalInfo || resume.personalInfo,
-                        sections: updatedSections,
-                        layout: currentResume.content.layout || resume.layout,
-                        createdAt: currentResume.createdAt,
-                        updatedAt: currentResume.updatedAt,
-                    }
-                });
+                dispatch({ type: 'SET_RESUME', payload: backendToEditorResume(currentResume, resume) });
             }
         }
     }, [currentResume, id, dispatch, resume]);
 
+    // Store the page size the first time the resume is opened, so from then on
+    // it prints on the same paper whatever the viewer's locale
+    useEffect(() => {
+        if (isHydrated && !resume.layout.pageSize) {
+            dispatch({ type: 'UPDATE_PAGE_SIZE', payload: getLocalePageSize() });
+        }
+    }, [isHydrated, resume.layout.pageSize, dispatch]);
+
     useEffect(() => {
         if (currentResume && !isEditingTitle) {
             setEditedTitle(currentResume.title);
         }
     }, [currentResume, isEditingTitle]);
 
-    const handleSave = useCallback(async () => {
-        if (!currentResume) return;
-
-        const summarySection = resume.sections.find(s => s.type === 'summary');
-        const experienceSection = resume.sections.find(s => s.type === 'experience');
-        const educationSection = resume.sections.find(s => s.type === 'education');
-        const skillsSection = resume.sections.find(s => s.type === 'skills');
-        const projectsSection = resume.sections.find(s => s.type === 'projects');
-        const certificationsSection = resume.sections.find(s => s.type === 'certifications');
-        const additionalInfoSection = resume.sections.find(s => s.type === 'additional-info');
-
-        const sectionOrder = resume.sections.map(section => ({
-            id: section.id,
-            type: section.type,
-            title: section.title,
-            enabled: section.enabled,
-            order: section.order,
-        }));
-
-        updateResume({
-            title: editedTitle || currentResume.title,
-            templateId: resume.template || 'modern',
-            content: {
-                personalInfo: resume.personalInfo,
-                summary: (summarySection?.content as any)?.summary || '',
-                experience: (experienceSection?.content as any)?.experiences || [],
-                education: (educationSection?.content as any)?.education || [],
-                skills: (skillsSection?.content as any)?.skills || [],
-                projects: (projectsSection?.content as any)?.projects || [],
-                certifications: (certificationsSection?.content as any)?.certifications || [],
-                additionalInfo: (additionalInfoSection?.content as any)?.additionalInfo || [],
-                sectionOrder,
-                layout: resume.layout,
-            },
-        });
-    }, [resume, currentResume, updateResume, editedTitle]);
+    // Resolves to false when a save failed
+    const handleSave = useCallback(async (): Promise<boolean> => {
+        if (!currentResume) return true;
+
+        if (titleSaveTimerRef.current) clearTimeout(titleSaveTimerRef.current);
+        const titleSaved = editedTitle.trim() === '' || editedTitle === currentResume.title
+            || await saveDetails({ title: editedTitle });
+        const contentSaved = await saveNow();
+        return titleSaved && contentSaved;
+    }, [currentResume, editedTitle, saveDetails, saveNow]);
 
     const handleTitleClick = () => setIsEditingTitle(true);
 
@@ -299,7 +294,7 @@ const EditorPageContent: React.FC = () => {
         if (titleSaveTimerRef.current) clearTimeout(titleSaveTimerRef.current);
         titleSaveTimerRef.current = setTimeout(() => {
             if (newTitle.trim() !== '' && currentResume && newTitle !== currentResume.title) {
-                updateResume({ title: newTitle });
+                saveDetails({ title: newTitle });
             }
         }, 1000);
     };
@@ -310,7 +305,7 @@ const EditorPageContent: React.FC = () => {
             setEditedTitle(currentResume?.title || 'Untitled Resume');
         } else if (currentResume && editedTitle !== currentResume.title) {
             if (titleSaveTimerRef.current) clearTimeout(titleSaveTimerRef.current);
-            updateResume({ title: editedTitle });
+            saveDetails({ title: editedTitle });
         }
     };
 
@@ -320,7 +315,7 @@ const EditorPageContent: React.FC = () => {
             if (editedTitle.trim() === '') setEditedTitle(currentResume?.title || 'Untitled Resume');
             else if (currentResume && editedTitle !== currentResume.title) {
                 if (titleSaveTimerRef.current) clearTimeout(titleSaveTimerRef.current);
-                updateResume({ title: editedTitle });
+                saveDetails({ title: editedTitle });
             }
         } else if (e.key === 'Escape') {
             setEditedTitle(currentResume?.title || 'Untitled Resume');
@@ -332,6 +327,35 @@ const EditorPageContent: React.FC = () => {
     const handleBack = () => navigate('/dashboard');
     const handleShare = () => id && navigate(`/share/${id}`);
     const handleVersions = () => id && navigate(`/versions/${id}`);
+    // Flush pending edits before leaving the editor; a failed save is kept
+    // queued on this device, but the user decides whether to leave anyway
+    const saveBeforeLeaving = async (): Promise<boolean> =>
+        (await handleSave()) ||
+        window.confirm('Your latest changes could not be saved yet. They are kept on this device. Leave the editor anyway?');
+
+    const handleTailor = async () => {
+        if (!id) return;
+        // Tailoring works from the saved copy
+        if (!(await saveBeforeLeaving())) return;
+        navigate(`/tailor/${id}`);
+    };
+    const handleOpenDesigner = async () => {
+        if (!(await saveBeforeLeaving())) return;
+        navigate(
+            isCustomTemplate(resume.template)
+                ? `/templates/designer/${resume.template}`
+                : `/templates/designer?from=${resume.template}`
+        );
+    };
+    const handleTemplateChange = async (template: TemplateType) => {
+        if (template === resume.template) return;
+        await takeSnapshot('template-switch');
+        dispatch({ type: 'SET_TEMPLATE', payload: template });
+        // Custom templates carry their own fonts, colours and spacing
+        if (isCustomTemplate(template)) {
+            dispatch({ type: 'UPDATE_LAYOUT', payload: getTemplatePreset(template) });
+        }
+    };
 
     if (!currentResume) {
         return (
@@ -373,7 +397,11 @@ const EditorPageContent: React.FC = () => {
                                 <Edit2 className="w-2.5 h-2.5 text-gray-400 group-hover:text-blue-600 transition-colors flex-shrink-0" />
                             </div>
                         )}
-                        <SaveStatusIndicator isSaving={isSaving} />
+                        <SaveStatusIndicator
+                            status={saveStatus}
+                            lastSavedAt={lastSavedAt}
+                            detail={saveStatus === 'held' ? `check the ${heldFields.join(', ')}` : undefined}
+                        />
                     </div>
                 </div>
 
@@ -402,16 +430,38 @@ const EditorPageContent: React.FC = () => {
                         {showRightSidebar ? <PanelRightClose className="w-5 h-5" /> : <PanelRight className="w-5 h-5" />}
                     </Button>
 
+                    <Button variant="secondary" size="sm" onClick={() => setShowHistoryPanel(true)} className="p-1.5 sm:px-4 sm:py-2 hidden sm:flex active:scale-95 transition-transform" title="Edit history">
+                        <ListTree className="w-4 h-4 sm:w-5 sm:h-5 sm:mr-2" />
+                        <span className="hidden lg:inline">Edits</span>
+                    </Button>
+
                     <Button variant="secondary" size="sm" onClick={handleVersions} className="p-1.5 sm:px-4 sm:py-2 hidden sm:flex active:scale-95 transition-transform" title="History">
                         <History className="w-4 h-4 sm:w-5 sm:h-5 sm:mr-2" />
                         <span className="hidden lg:inline">Versions</span>
                     </Button>
 
+                    <Button variant="secondary" size="sm" onClick={handleTailor} className="p-1.5 sm:px-4 sm:py-2 hidden sm:flex active:scale-95 transition-transform" title="Tailor to a job description">
+                        <Target className="w-4 h-4 sm:w-5 sm:h-5 sm:mr-2" />
+                        <span className="hidden lg:inline">Tailor</span>
+                    </Button>
+
                     <Button variant="secondary" size="sm" onClick={handleShare} className="p-1.5 sm:px-4 sm:py-2 hidden sm:flex active:scale-95 transition-transform" title="Share">
                         <Share2 className="w-4 h-4 sm:w-5 sm:h-5 sm:mr-2" />
                         <span className="hidden lg:inline">Share</span>
                     </Button>
 
+                    <Button variant="secondary" size="sm" onClick={() => importInputRef.current?.click()} className="p-1.5 sm:px-4 sm:py-2 hidden sm:flex active:scale-95 transition-transform" title="Import from PDF or Word">
+                        <Upload className="w-4 h-4 sm:w-5 sm:h-5 sm:mr-2" />
+                        <span className="hidden lg:inline">Import</span>
+                    </Button>
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept=".pdf,.docx"
+                        onChange={handleImportFileSelect}
+                        className="hidden"
+                    />
+
                     <Button variant="primary" size="sm" onClick={handleSave} disabled={isSaving} className="p-1.5 sm:px-4 sm:py-2 flex-shrink-0 active:scale-95 transition-transform">
                         {isSaving ? (
                             <div className="animate-spin rounded-full h-3.5 w-3.5 sm:h-5 sm:w-5 border-b-2 border-white"></div>
@@ -451,6 +501,19 @@ const EditorPageContent: React.FC = () => {
                                 <button className="block w-full text-left px-4 py-2 text-sm text-gray-400 cursor-not-allowed" disabled>
                                     Client Export (Disabled)
                                 </button>
+                                <div className="border-t border-gray-100 my-1" />
+                                <button className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100" onClick={() => handleExportOption('docx')}>
+                                    Word Document (.docx)
+                                </button>
+                                <button className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100" onClick={() => handleExportOption('txt')}>
+                                    Plain Text (.txt)
+                                </button>
+                                <button className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100" onClick={() => handleExportOption('md')}>
+                                    Markdown (.md)
+                                </button>
+                                <button className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100" onClick={() => handleExportOption('copy')}>
+                                    Copy as Plain Text
+                                </button>
                             </div>
                         )}
                     </div>
@@ -463,11 +526,43 @@ const EditorPageContent: React.FC = () => {
                 </div>
             )}
 
+            <RejectedChangesBanner
+                changes={rejectedChanges.filter((change) => change.resumeId === id)}
+                onRetry={retryRejected}
+                onDiscard={handleDiscardRejected}
+            />
+
+            {variantBase && (
+                <VariantOverridesPanel base={variantBase} content={currentContent} onReset={handleResetToBase} />
+            )}
+
+            <Modal isOpen={showHistoryPanel} onClose={() => setShowHistoryPanel(false)} title="Edit History">
+                <HistoryPanel />
+            </Modal>
+
+            {syncConflict && (
+                <SyncConflictDialog
+                    conflict={syncConflict}
+                    onResolve={handleResolveConflict}
+                    onClose={dismissConflict}
+                />
+            )}
+
+            <ResumeImportWizard
+                isOpen={importFile !== null}
+                file={importFile}
+                baseResume={resume}
+                onClose={() => setImportFile(null)}
+                onConfirm={handleImportConfirm}
+            />
+
             {showTemplateSelector && (
                 <div className="bg-white border-b border-gray-200 p-2 sm:p-4 flex justify-center print:hidden shadow-inner">
                     <TemplateSelector
                         currentTemplate={resume.template || 'modern'}
-                        onTemplateChange={(template) => dispatch({ type: 'SET_TEMPLATE', payload: template })}
+                        onTemplateChange={handleTemplateChange}
+                        onOpenDesigner={handleOpenDesigner}
+                        pageSize={resolvePageSize(resume.layout)}
                     />
                 </div>
             )}
@@ -482,6 +577,7 @@ const EditorPageContent: React.FC = () => {
                     <EditorSidebar 
                         isCollapsed={isLeftSidebarCollapsed} 
                         onToggleCollapse={() => setIsLeftSidebarCollapsed(!isLeftSidebarCollapsed)} 
+                        onBeforeBulkChange={() => takeSnapshot('bulk-change')}
                     />
                 </div>
 
@@ -507,7 +603,7 @@ const EditorPageContent: React.FC = () => {
 
                 {/* Mobile Bottom Sheets */}
                 <BottomSheet isOpen={activeSheet === 'edit'} onClose={() => setActiveSheet(null)} title="Resume Editor">
-                    <EditorSidebar />
+                    <EditorSidebar onBeforeBulkChange={() => takeSnapshot('bulk-change')} />
                 </BottomSheet>
 
                 <BottomSheet isOpen={activeSheet === 'settings'} onClose={() => setActiveSheet(null)} title="Layout & Settings">
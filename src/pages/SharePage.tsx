@@ -6,6 +6,8 @@
 import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useSharing } from '../hooks/useSharing';
+import { useResume } from '../hooks/useResume';
+import { getLocaleLabel, getLocalizedShareUrl, getResumeLocales } from '../utils/resumeLocale';
 import { Button } from '../components/UI/Button';
 import { Input } from '../components/UI/Input';
 import { ArrowLeft, Copy, Check, Globe, Lock, Eye, Calendar } from 'lucide-react';
@@ -26,6 +28,15 @@ export const SharePage: React.FC = () => {
 
     const [copied, setCopied] = useState(false);
 
+    // Language variants of the resume; the link can open any of them
+    const { data: resume } = useResume(id);
+    const locales = resume ? getResumeLocales(resume.content) : [];
+    const [shareLocale, setShareLocale] = useState<string | null>(null);
+    const publicUrl = shareLink && 'publicUrl' in shareLink ? (shareLink as any).publicUrl as string : '';
+    const sharedUrl = publicUrl && resume && shareLocale
+        ? getLocalizedShareUrl(publicUrl, resume.content, shareLocale)
+        : publicUrl;
+
     useEffect(() => {
         if (id && isShared) {
             getAnalytics();
@@ -53,9 +64,9 @@ export const SharePage: React.FC = () => {
     };
 
     const handleCopyLink = async () => {
-        if (shareLink && 'publicUrl' in shareLink) {
+        if (sharedUrl) {
             try {
-                await navigator.clipboard.writeText((shareLink as any).publicUrl);
+                await navigator.clipboard.writeText(sharedUrl);
                 setCopied(true);
                 setTimeout(() => setCopied(false), 2000);
             } catch (err) {
@@ -139,9 +150,29 @@ export const SharePage: React.FC = () => {
                                 Anyone with this link can view your resume
                             </p>
 
+                            {locales.length > 1 && (
+                                <div className="flex items-center gap-2 mb-3">
+                                    <label htmlFor="share-language" className="text-sm text-gray-600">
+                                        Language:
+                                    </label>
+                                    <select
+                                        id="share-language"
+                                        value={shareLocale ?? locales[0]}
+                                        onChange={(e) => setShareLocale(e.target.value)}
+                                        className="px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+                                    >
+                                        {locales.map((locale) => (
+                                            <option key={locale} value={locale}>
+                                                {getLocaleLabel(locale)}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
                             <div className="flex gap-2">
                                 <Input
-                                    value={shareLink && 'publicUrl' in shareLink ? (shareLink as any).publicUrl : ''}
+                                    value={sharedUrl}
                                     readOnly
                                     className="flex-1"
                                 />
@@ -0,0 +1,327 @@
+/**
+ * Tailoring Page
+ * Paste a job description, review where each missing keyword could go and
+ * fork a tailored copy of the resume with the accepted suggestions
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { ArrowLeft, Check, GitBranch, ListChecks, Search, Tag } from 'lucide-react';
+import { useResumeBackend } from '../contexts/ResumeBackendContext';
+import { useTailorResume } from '../hooks/useResume';
+import { Button } from '../components/UI/Button';
+import { Input } from '../components/UI/Input';
+import { Textarea } from '../components/UI/Textarea';
+import { createDefaultResume } from '../constants/defaultResume';
+import { backendToEditorResume } from '../utils/resumeConverter';
+import { compareWithJobDescription, extractResumeText } from '../utils/keywordAnalyzer';
+import {
+    analyzeTailoring,
+    applyTailoringSuggestions,
+    type KeywordPlacement,
+    type TailoringAnalysis,
+} from '../utils/jobTailoring';
+
+const PLACEMENT_LABELS: Record<KeywordPlacement['kind'], string> = {
+    skill: 'Skill',
+    bullet: 'Bullet',
+    summary: 'Summary',
+};
+
+const IMPORTANCE_STYLES = {
+    high: 'bg-red-100 text-red-700',
+    medium: 'bg-yellow-100 text-yellow-700',
+    low: 'bg-gray-100 text-gray-600',
+};
+
+export const TailoringPage: React.FC = () => {
+    const { id } = useParams<{ id: string }>();
+    const navigate = useNavigate();
+    const location = useLocation();
+    // The resume with edits still waiting in the sync queue, as the editor shows it
+    const { currentResume, loadResume } = useResumeBackend();
+    const backendResume = currentResume?.id === id ? currentResume : undefined;
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const isLoading = !backendResume && !loadError;
+    const tailorResume = useTailorResume();
+
+    useEffect(() => {
+        if (!id) return;
+        setLoadError(null);
+        loadResume(id).catch((err) => setLoadError(err.message || 'Failed to load resume'));
+    }, [id, loadResume]);
+
+    // The keyword optimizer hands over the job description it was comparing against
+    const [jobDescription, setJobDescription] = useState<string>(
+        (location.state as { jobDescription?: string } | null)?.jobDescription || ''
+    );
+    const [jobLabel, setJobLabel] = useState('');
+    const [analysis, setAnalysis] = useState<TailoringAnalysis | null>(null);
+    const [accepted, setAccepted] = useState<Set<string>>(new Set());
+    const [edits, setEdits] = useState<Record<string, string>>({});
+
+    // Every section is carried over to the copy, including empty and hidden ones
+    const resume = useMemo(
+        () => (backendResume ? backendToEditorResume(backendResume, createDefaultResume()) : null),
+        [backendResume]
+    );
+
+    const acceptedPlacements = useMemo(() => {
+        if (!analysis) return [];
+        return analysis.missing
+            .flatMap((missing) => missing.placements)
+            .filter((placement) => accepted.has(placement.id))
+            .map((placement) => ({ ...placement, proposed: edits[placement.id] ?? placement.proposed }));
+    }, [analysis, accepted, edits]);
+
+    const tailoredResume = useMemo(
+        () => (resume ? applyTailoringSuggestions(resume, acceptedPlacements) : null),
+        [resume, acceptedPlacements]
+    );
+
+    const tailoredScore = useMemo(() => {
+        if (!analysis || !tailoredResume) return null;
+        return compareWithJobDescription(extractResumeText(tailoredResume), jobDescription).matchPercentage;
+    }, [analysis, tailoredResume, jobDescription]);
+
+    const handleAnalyze = () => {
+        if (!resume || !jobDescription.trim()) return;
+        setAnalysis(analyzeTailoring(resume, jobDescription));
+        setAccepted(new Set());
+        setEdits({});
+    };
+
+    const togglePlacement = (placementId: string) => {
+        setAccepted((prev) => {
+            const next = new Set(prev);
+            if (next.has(placementId)) {
+                next.delete(placementId);
+            } else {
+                next.add(placementId);
+            }
+            return next;
+        });
+    };
+
+    /**
+     * Accept the most relevant placement of every keyword that has none accepted yet
+     */
+    const handleAcceptTop = () => {
+        if (!analysis) return;
+        setAccepted((prev) => {
+            const next = new Set(prev);
+            analysis.missing.forEach((missing) => {
+                const hasAccepted = missing.placements.some((placement) => next.has(placement.id));
+                if (!hasAccepted && missing.placements.length > 0) {
+                    next.add(missing.placements[0].id);
+                }
+            });
+            return next;
+        });
+    };
+
+    const handleCreateCopy = async () => {
+        if (!id || !backendResume || !tailoredResume) return;
+
+        const title = `${backendResume.title} – ${jobLabel.trim() || 'Tailored'}`;
+        try {
+            const tailored = await tailorResume.mutateAsync({ sourceId: id, title, resume: tailoredResume });
+            navigate(`/editor/${tailored.id}`);
+        } catch (err) {
+            console.error('Failed to create tailored copy:', err);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50">
+            {/* Header */}
+            <header className="bg-white shadow-sm">
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-4">
+                            <Button variant="ghost" onClick={() => navigate(`/editor/${id}`)}>
+                                <ArrowLeft className="w-5 h-5" />
+                            </Button>
+                            <div>
+                                <h1 className="text-2xl font-bold text-gray-900">Tailor to a Job</h1>
+                                <p className="text-sm text-gray-600">
+                                    {backendResume
+                                        ? `Create a job-specific copy of "${backendResume.title}"`
+                                        : 'Create a job-specific copy of your resume'}
+                                </p>
+                            </div>
+                        </div>
+                        <Button
+                            variant="primary"
+                            onClick={handleCreateCopy}
+                            loading={tailorResume.isPending}
+                            disabled={!analysis || acceptedPlacements.length === 0}
+                        >
+                            <GitBranch className="w-5 h-5 mr-2" />
+                            Create Tailored Copy
+                        </Button>
+                    </div>
+                </div>
+            </header>
+
+            <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                {(loadError || tailorResume.error) && (
+                    <div className="mb-6 rounded-md bg-red-50 p-4">
+                        <p className="text-sm text-red-800">
+                            {loadError ? 'Failed to load resume' : 'Failed to create tailored copy'}
+                        </p>
+                    </div>
+                )}
+
+                {isLoading ? (
+                    <div className="flex items-center justify-center py-12">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                    </div>
+                ) : (
+                    <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+                        {/* Job description */}
+                        <section className="lg:col-span-2 space-y-4">
+                            <div className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+                                <Input
+                                    label="Job label"
+                                    value={jobLabel}
+                                    onChange={(e) => setJobLabel(e.target.value)}
+                                    placeholder="e.g. Acme – Senior Backend Engineer"
+                                />
+                                <Textarea
+                                    label="Job description"
+                                    value={jobDescription}
+                                    onChange={(e) => setJobDescription(e.target.value)}
+                                    placeholder="Paste the full job description here..."
+                                    rows={16}
+                                />
+                                <Button
+                                    variant="secondary"
+                                    onClick={handleAnalyze}
+                                    disabled={!resume || !jobDescription.trim()}
+                                    className="w-full"
+                                >
+                                    <Search className="w-4 h-4 mr-2" />
+                                    Find Missing Keywords
+                                </Button>
+                            </div>
+
+                            {analysis && (
+                                <div className="bg-white rounded-lg shadow-sm p-6">
+                                    <h2 className="text-sm font-medium text-gray-700 mb-3">Keyword Match</h2>
+                                    <div className="flex items-center gap-6">
+                                        <div>
+                                            <p className="text-3xl font-bold text-gray-900">{analysis.matchPercentage}%</p>
+                                            <p className="text-xs text-gray-500">Current</p>
+                                        </div>
+                                        <div>
+                                            <p className="text-3xl font-bold text-green-600">{tailoredScore ?? analysis.matchPercentage}%</p>
+                                            <p className="text-xs text-gray-500">With accepted suggestions</p>
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+                        </section>
+
+                        {/* Suggestions */}
+                        <section className="lg:col-span-3">
+                            {!analysis ? (
+                                <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+                                    <Tag className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+                                    <h2 className="text-xl font-semibold text-gray-900 mb-2">No Job Description Yet</h2>
+                                    <p className="text-gray-600">
+                                        Paste a job description to see which keywords are missing and where they fit
+                                    </p>
+                                </div>
+                            ) : analysis.missing.length === 0 ? (
+                                <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+                                    <Check className="w-16 h-16 text-green-500 mx-auto mb-4" />
+                                    <h2 className="text-xl font-semibold text-gray-900 mb-2">Nothing Missing</h2>
+                                    <p className="text-gray-600">Your resume already covers the important keywords</p>
+                                </div>
+                            ) : (
+                                <div className="space-y-4">
+                                    <div className="flex items-center justify-between">
+                                        <p className="text-sm text-gray-600">
+                                            {analysis.missing.length} missing keywords · {acceptedPlacements.length} suggestions accepted
+                                        </p>
+                                        <Button variant="ghost" size="sm" onClick={handleAcceptTop}>
+                                            <ListChecks className="w-4 h-4 mr-2" />
+                                            Accept Top Suggestions
+                                        </Button>
+                                    </div>
+
+                                    {analysis.missing.map((missing) => (
+                                        <div key={missing.keyword} className="bg-white rounded-lg shadow-sm p-5">
+                                            <div className="flex items-center gap-2 mb-1">
+                                                <h3 className="font-semibold text-gray-900">{missing.keyword}</h3>
+                                                <span className={`text-xs px-2 py-0.5 rounded-full ${IMPORTANCE_STYLES[missing.importance]}`}>
+                                                    {missing.importance}
+                                                </span>
+                                            </div>
+                                            {missing.context && (
+                                                <p className="text-xs text-gray-500 italic mb-3">"{missing.context}"</p>
+                                            )}
+
+                                            {missing.placements.length === 0 ? (
+                                                <p className="text-sm text-gray-500">
+                                                    No matching spot found – add a skills section or a related bullet first.
+                                                </p>
+                                            ) : (
+                                                <ul className="space-y-3">
+                                                    {missing.placements.map((placement) => {
+                                                        const isAccepted = accepted.has(placement.id);
+                                                        return (
+                                                            <li
+                                                                key={placement.id}
+                                                                className={`rounded-md border p-3 ${isAccepted ? 'border-green-300 bg-green-50' : 'border-gray-200'}`}
+                                                            >
+                                                                <div className="flex items-start gap-3">
+                                                                    <input
+                                                                        type="checkbox"
+                                                                        className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600"
+                                                                        checked={isAccepted}
+                                                                        onChange={() => togglePlacement(placement.id)}
+                                                                        aria-label={`Accept ${PLACEMENT_LABELS[placement.kind]} suggestion for ${missing.keyword}`}
+                                                                    />
+                                                                    <div className="flex-1 min-w-0">
+                                                                        <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+                                                                            <span className="px-2 py-0.5 rounded bg-blue-100 text-blue-700">
+                                                                                {PLACEMENT_LABELS[placement.kind]}
+                                                                            </span>
+                                                                            <span className="text-gray-600">{placement.sectionTitle}</span>
+                                                                            {placement.itemLabel && (
+                                                                                <span className="text-gray-500">· {placement.itemLabel}</span>
+                                                                            )}
+                                                                        </div>
+                                                                        {placement.kind === 'bullet' && (
+                                                                            <p className="text-xs text-gray-500 line-through mb-1">
+                                                                                {placement.original}
+                                                                            </p>
+                                                                        )}
+                                                                        <Textarea
+                                                                            value={edits[placement.id] ?? placement.proposed}
+                                                                            onChange={(e) =>
+                                                                                setEdits((prev) => ({ ...prev, [placement.id]: e.target.value }))
+                                                                            }
+                                                                            rows={placement.kind === 'bullet' ? 2 : 1}
+                                                                            aria-label="Suggested text"
+                                                                        />
+                                                                    </div>
+                                                                </div>
+                                                            </li>
+                                                        );
+                                                    })}
+                                                </ul>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </section>
+                    </div>
+                )}
+            </main>
+        </div>
+    );
+};
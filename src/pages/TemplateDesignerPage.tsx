@@ -0,0 +1,371 @@
+/**
+ * Template Designer Page
+ * Fork a template, restyle it against sample data and save it as a custom template
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Save, Trash2 } from 'lucide-react';
+import { Button } from '../components/UI/Button';
+import { Input } from '../components/UI/Input';
+import { Select } from '../components/UI/Select';
+import { RangeSlider } from '../components/UI/RangeSlider';
+import { ColorPicker } from '../components/UI/ColorPicker';
+import { GenericTemplate } from '../components/Templates';
+import { createDefaultResume } from '../constants/defaultResume';
+import { BUILT_IN_TEMPLATE_DEFINITIONS } from '../constants/templateDefinitions';
+import type { TemplateType } from '../types/resume.types';
+import type { TemplateConfig, TemplateDefinition } from '../types/template.types';
+import {
+    forkTemplateDefinition,
+    getCustomTemplates,
+    getTemplateDefinition,
+    isBuiltInTemplate,
+    isCustomTemplate,
+    loadTemplateDefinitions,
+    registerTemplateDefinition,
+    removeTemplateDefinition,
+    useCustomTemplates,
+} from '../utils/templateRegistry';
+import { ATS_SAFE_FONTS, getDefinitionPreset } from '../utils/templateStyler';
+import { getPageDimensions, resolvePageSize } from '../utils/pageSize';
+
+type TemplateStyles = TemplateConfig['styles'];
+
+const ALIGNMENTS: TemplateStyles['header']['alignment'][] = ['left', 'center', 'right'];
+
+const HEADER_STYLE_OPTIONS = [
+    { value: 'uppercase', label: 'UPPERCASE' },
+    { value: 'title-case', label: 'Title Case' },
+    { value: 'lowercase', label: 'lowercase' },
+];
+
+const HEADER_DECORATION_OPTIONS = [
+    { value: 'border-bottom', label: 'Underline' },
+    { value: 'background', label: 'Shaded background' },
+    { value: 'none', label: 'None' },
+];
+
+const PREVIEW_SCALE = 0.75;
+
+const DesignerSection: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <section className="space-y-4 pb-6 border-b border-gray-200 last:border-b-0">
+        <h2 className="text-sm font-semibold text-gray-900 uppercase tracking-wide">{title}</h2>
+        {children}
+    </section>
+);
+
+export const TemplateDesignerPage: React.FC = () => {
+    const { templateId } = useParams<{ templateId: string }>();
+    const [searchParams] = useSearchParams();
+    const navigate = useNavigate();
+    const customTemplates = useCustomTemplates();
+
+    const [draft, setDraft] = useState<TemplateDefinition | null>(null);
+    const [sourceId, setSourceId] = useState<TemplateType>('professional');
+    const [notFound, setNotFound] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const isEditing = isCustomTemplate(templateId);
+
+    // Start from the stored template when editing, otherwise fork ?from=
+    useEffect(() => {
+        let cancelled = false;
+        loadTemplateDefinitions().then(() => {
+            if (cancelled) return;
+            if (isCustomTemplate(templateId)) {
+                const existing = getCustomTemplates().find((template) => template.id === templateId);
+                if (existing) {
+                    setDraft(existing);
+                    setSourceId(existing.id);
+                } else {
+                    setNotFound(true);
+                }
+                return;
+            }
+            const from = searchParams.get('from');
+            const source: TemplateType = isBuiltInTemplate(from) || isCustomTemplate(from) ? from : 'professional';
+            const definition = getTemplateDefinition(source);
+            setDraft(forkTemplateDefinition(definition, `${definition.name} Copy`));
+            setSourceId(source);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [templateId]);
+
+    const sample = useMemo(() => createDefaultResume(), []);
+    const previewLayout = useMemo(
+        () => (draft ? { ...sample.layout, ...getDefinitionPreset(draft) } : sample.layout),
+        [draft, sample]
+    );
+
+    const sourceOptions = [
+        ...Object.values(BUILT_IN_TEMPLATE_DEFINITIONS).map((template) => ({ value: template.id, label: template.name })),
+        ...customTemplates.map((template) => ({ value: template.id, label: `${template.name} (custom)` })),
+    ];
+
+    const handleSourceChange = (value: string) => {
+        if (!draft || (!isBuiltInTemplate(value) && !isCustomTemplate(value))) return;
+        const source = getTemplateDefinition(value);
+        // Keep the identity of the template being designed, take the design from the source
+        setDraft({
+            ...forkTemplateDefinition(source, draft.name),
+            id: draft.id,
+        });
+        setSourceId(value);
+    };
+
+    const updateStyles = <K extends keyof TemplateStyles>(group: K, changes: Partial<TemplateStyles[K]>) => {
+        setDraft((current) =>
+            current && {
+                ...current,
+                styles: { ...current.styles, [group]: { ...current.styles[group], ...changes } },
+            }
+        );
+    };
+
+    const updateDraft = (changes: Partial<TemplateDefinition>) => {
+        setDraft((current) => current && { ...current, ...changes });
+    };
+
+    const handleBack = () => navigate(-1);
+
+    const handleSave = async () => {
+        if (!draft) return;
+        if (!draft.name.trim()) {
+            setError('Please enter a template name');
+            return;
+        }
+
+        setIsSaving(true);
+        setError(null);
+        const saved = await registerTemplateDefinition({ ...draft, name: draft.name.trim() });
+        setIsSaving(false);
+
+        if (!saved) {
+            setError('Failed to save template. Please try again.');
+            return;
+        }
+        navigate(`/templates/designer/${draft.id}`, { replace: true });
+    };
+
+    const handleDelete = async () => {
+        if (!draft || !isEditing) return;
+        if (!confirm(`Delete "${draft.name}"? Resumes using it will switch to the Professional template.`)) {
+            return;
+        }
+        await removeTemplateDefinition(draft.id);
+        navigate(-1);
+    };
+
+    if (notFound) {
+        return (
+            <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-gray-50">
+                <p className="text-gray-700">This custom template no longer exists.</p>
+                <Button variant="primary" onClick={() => navigate('/templates/designer', { replace: true })}>
+                    Design a new template
+                </Button>
+            </div>
+        );
+    }
+
+    if (!draft) {
+        return (
+            <div className="min-h-screen flex items-center justify-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+        );
+    }
+
+    const { styles } = draft;
+    const page = getPageDimensions(resolvePageSize(previewLayout));
+
+    return (
+        <div className="min-h-screen bg-gray-50 flex flex-col">
+            {/* Header */}
+            <header className="bg-white shadow-sm">
+                <div className="px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <Button variant="ghost" onClick={handleBack}>
+                            <ArrowLeft className="w-5 h-5" />
+                        </Button>
+                        <div>
+                            <h1 className="text-2xl font-bold text-gray-900">Template Designer</h1>
+                            <p className="text-sm text-gray-600">
+                                {isEditing ? 'Edit your custom template' : 'Start from a template and make it your own'}
+                            </p>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {isEditing && (
+                            <Button variant="secondary" onClick={handleDelete}>
+                                <Trash2 className="w-4 h-4 mr-2" />
+                                Delete
+                            </Button>
+                        )}
+                        <Button variant="primary" onClick={handleSave} disabled={isSaving}>
+                            <Save className="w-4 h-4 mr-2" />
+                            {isSaving ? 'Saving...' : 'Save Template'}
+                        </Button>
+                    </div>
+                </div>
+            </header>
+
+            <div className="flex-1 flex flex-col lg:flex-row overflow-hidden">
+                {/* Controls */}
+                <aside className="w-full lg:w-96 bg-white border-r border-gray-200 overflow-y-auto p-6 space-y-6">
+                    {error && (
+                        <div className="rounded-md bg-red-50 p-4">
+                            <p className="text-sm text-red-800">{error}</p>
+                        </div>
+                    )}
+
+                    <DesignerSection title="Template">
+                        <Input
+                            label="Name"
+                            value={draft.name}
+                            onChange={(e) => updateDraft({ name: e.target.value })}
+                            required
+                        />
+                        <Select
+                            label="Start from"
+                            options={sourceOptions}
+                            value={sourceId}
+                            onChange={handleSourceChange}
+                            helperText="Replaces the current design"
+                        />
+                    </DesignerSection>
+
+                    <DesignerSection title="Header">
+                        <div>
+                            <span className="block text-sm font-medium text-gray-700 mb-2">Alignment</span>
+                            <div className="flex gap-2">
+                                {ALIGNMENTS.map((alignment) => (
+                                    <button
+                                        key={alignment}
+                                        onClick={() => updateStyles('header', { alignment })}
+                                        className={`flex-1 px-3 py-2 text-sm rounded-md border capitalize transition-colors ${
+                                            styles.header.alignment === alignment
+                                                ? 'border-blue-500 bg-blue-50 text-blue-700'
+                                                : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                                        }`}
+                                    >
+                                        {alignment}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    </DesignerSection>
+
+                    <DesignerSection title="Section Headers">
+                        <Select
+                            label="Text style"
+                            options={HEADER_STYLE_OPTIONS}
+                            value={styles.sections.headerStyle}
+                            onChange={(value) =>
+                                updateStyles('sections', { headerStyle: value as TemplateStyles['sections']['headerStyle'] })
+                            }
+                        />
+                        <Select
+                            label="Decoration"
+                            options={HEADER_DECORATION_OPTIONS}
+                            value={styles.sections.headerDecoration}
+                            onChange={(value) =>
+                                updateStyles('sections', {
+                                    headerDecoration: value as TemplateStyles['sections']['headerDecoration'],
+                                })
+                            }
+                        />
+                    </DesignerSection>
+
+                    <DesignerSection title="Spacing">
+                        <RangeSlider
+                            label="Between sections"
+                            min={4}
+                            max={40}
+                            unit="px"
+                            value={styles.sections.spacing}
+                            onChange={(e) => updateStyles('sections', { spacing: Number(e.target.value) })}
+                        />
+                        <RangeSlider
+                            label="Between entries"
+                            min={0}
+                            max={40}
+                            unit="px"
+                            value={draft.entry.spacing}
+                            onChange={(e) => updateDraft({ entry: { ...draft.entry, spacing: Number(e.target.value) } })}
+                        />
+                    </DesignerSection>
+
+                    <DesignerSection title="Colors">
+                        <ColorPicker
+                            label="Primary"
+                            value={styles.colors.primary}
+                            onChange={(primary) => updateStyles('colors', { primary })}
+                        />
+                        <ColorPicker
+                            label="Secondary"
+                            value={styles.colors.secondary}
+                            onChange={(secondary) => updateStyles('colors', { secondary })}
+                        />
+                        <ColorPicker
+                            label="Text"
+                            value={styles.colors.text}
+                            onChange={(text) => updateStyles('colors', { text })}
+                        />
+                    </DesignerSection>
+
+                    <DesignerSection title="Fonts">
+                        <Select
+                            label="Font family"
+                            options={ATS_SAFE_FONTS.map((font) => ({ value: font.value, label: font.label }))}
+                            value={draft.fontFamily}
+                            onChange={(fontFamily) => updateDraft({ fontFamily })}
+                        />
+                        <RangeSlider
+                            label="Name"
+                            min={16}
+                            max={36}
+                            unit="pt"
+                            value={styles.header.nameSize}
+                            onChange={(e) => updateStyles('header', { nameSize: Number(e.target.value) })}
+                        />
+                        <RangeSlider
+                            label="Title"
+                            min={10}
+                            max={20}
+                            unit="pt"
+                            value={styles.header.titleSize}
+                            onChange={(e) => updateStyles('header', { titleSize: Number(e.target.value) })}
+                        />
+                        <RangeSlider
+                            label="Section headers"
+                            min={9}
+                            max={18}
+                            unit="pt"
+                            value={styles.sections.headerSize}
+                            onChange={(e) => updateStyles('sections', { headerSize: Number(e.target.value) })}
+                        />
+                    </DesignerSection>
+                </aside>
+
+                {/* Live Preview */}
+                <main className="flex-1 overflow-auto bg-gray-100 p-6">
+                    <p className="text-xs text-gray-500 text-center mb-4">Preview with sample resume data</p>
+                    <div className="flex justify-center">
+                        <div style={{ width: `${page.widthMm * PREVIEW_SCALE}mm` }}>
+                            <div
+                                className="bg-white shadow-lg"
+                                style={{ width: `${page.widthMm}mm`, transform: `scale(${PREVIEW_SCALE})`, transformOrigin: 'top left' }}
+                            >
+                                <GenericTemplate resume={sample} layout={previewLayout} definition={draft} />
+                            </div>
+                        </div>
+                    </div>
+                </main>
+            </div>
+        </div>
+    );
+};
@@ -5,11 +5,21 @@
 
 import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useVersionsManagement as useVersions } from '../hooks/useVersions';
+import { useAutoSnapshots, useVersionsManagement as useVersions } from '../hooks/useVersions';
+import { useResumeBackend } from '../contexts/ResumeBackendContext';
 import { Button } from '../components/UI/Button';
 import { Modal } from '../components/UI/Modal';
-import { ArrowLeft, Clock, RotateCcw, Plus, Eye } from 'lucide-react';
+import { VersionDiffView } from '../components/UI/VersionDiffView';
+import { SnapshotSettingsPanel } from '../components/UI/SnapshotSettingsPanel';
+import { ArrowLeft, Clock, RotateCcw, Plus, Eye, GitCompare, Settings } from 'lucide-react';
 import type { ResumeVersion } from '../types/version.types';
+import type { ResumeContent } from '../types/api.types';
+import { restoreItem, restoreSection } from '../utils/resumeDiff';
+import { diffContent } from '../utils/saveRequest';
+import { AUTO_SNAPSHOT_PREFIX, isAutoSnapshot, latestVersion, summarizeChanges } from '../utils/versionSnapshots';
+
+// Compare target that stands for the resume as it is now
+const CURRENT = 'current';
 
 export const VersionsPage: React.FC = () => {
     const { id } = useParams<{ id: string }>();
@@ -22,11 +32,20 @@ export const VersionsPage: React.FC = () => {
         createVersion,
         restoreVersion,
     } = useVersions(id!);
+    // The resume with edits still waiting in the sync queue, as the editor shows it
+    const { currentResume: loadedResume, loadResume, updateResume, isSaving } = useResumeBackend();
+    const currentResume = loadedResume?.id === id ? loadedResume : undefined;
+    const { settings: snapshotSettings, updateSettings: updateSnapshotSettings, takeSnapshot } = useAutoSnapshots(id, {
+        state: currentResume ?? null,
+    });
 
     const [showCreateModal, setShowCreateModal] = useState(false);
     const [versionName, setVersionName] = useState('');
     const [selectedVersion, setSelectedVersion] = useState<ResumeVersion | null>(null);
     const [showPreviewModal, setShowPreviewModal] = useState(false);
+    const [compareVersion, setCompareVersion] = useState<ResumeVersion | null>(null);
+    const [compareTarget, setCompareTarget] = useState<string>(CURRENT);
+    const [showSettingsModal, setShowSettingsModal] = useState(false);
 
     useEffect(() => {
         if (id) {
@@ -34,6 +53,12 @@ export const VersionsPage: React.FC = () => {
         }
     }, [id]);
 
+    useEffect(() => {
+        if (id) {
+            loadResume(id).catch((err) => console.error('Failed to load resume:', err));
+        }
+    }, [id, loadResume]);
+
     const handleBack = () => {
         navigate(`/editor/${id}`);
     };
@@ -45,7 +70,8 @@ export const VersionsPage: React.FC = () => {
         }
 
         try {
-            await createVersion(versionName);
+            const changesSummary = currentResume && summarizeChanges(latestVersion(versions), currentResume);
+            await createVersion(versionName, changesSummary || 'No changes since the previous version');
             setShowCreateModal(false);
             setVersionName('');
         } catch (err) {
@@ -59,6 +85,7 @@ export const VersionsPage: React.FC = () => {
         }
 
         try {
+            await takeSnapshot('restore');
             await restoreVersion(versionId);
             navigate(`/editor/${id}`);
         } catch (err) {
@@ -71,6 +98,34 @@ export const VersionsPage: React.FC = () => {
         setShowPreviewModal(true);
     };
 
+    const handleCompareVersion = (version: ResumeVersion) => {
+        setCompareVersion(version);
+        setCompareTarget(CURRENT);
+    };
+
+    const versionLabel = (version: ResumeVersion) => version.versionName || `Version ${version.versionNumber}`;
+
+    const targetVersion = versions.find((version) => version.id === compareTarget);
+    const targetContent = compareTarget === CURRENT ? currentResume?.content : targetVersion?.content;
+
+    // Partial restores copy part of the old version into the current resume.
+    // They go through the sync queue like edits, so they land after queued
+    // edits and are checked for conflicts.
+    const applyRestore = async (restore: (current: ResumeContent, previous: ResumeContent) => ResumeContent) => {
+        if (!compareVersion || !currentResume) return;
+
+        try {
+            await takeSnapshot('restore');
+            const restored = restore(currentResume.content, compareVersion.content);
+            await updateResume({ content: diffContent(currentResume.content, restored) });
+        } catch (err) {
+            console.error('Failed to restore from version:', err);
+            alert('Failed to restore. Please try again.');
+        }
+    };
+
+    const canRestorePart = compareTarget === CURRENT && !!currentResume && !isSaving;
+
     return (
         <div className="min-h-screen bg-gray-50">
             {/* Header */}
@@ -88,10 +143,15 @@ export const VersionsPage: React.FC = () => {
                                 </p>
                             </div>
                         </div>
-                        <Button variant="primary" onClick={() => setShowCreateModal(true)}>
-                            <Plus className="w-5 h-5 mr-2" />
-                            Create Snapshot
-                        </Button>
+                        <div className="flex items-center gap-2">
+                            <Button variant="secondary" onClick={() => setShowSettingsModal(true)} title="Automatic snapshots">
+                                <Settings className="w-5 h-5" />
+                            </Button>
+                            <Button variant="primary" onClick={() => setShowCreateModal(true)}>
+                                <Plus className="w-5 h-5 mr-2" />
+                                Create Snapshot
+                            </Button>
+                        </div>
                     </div>
                 </div>
             </header>
@@ -152,8 +212,15 @@ export const VersionsPage: React.FC = () => {
                                     <div className="flex-1">
                                         <div className="flex items-center gap-3 mb-2">
                                             <h3 className="text-lg font-semibold text-gray-900">
-                                                {version.versionName || `Version ${version.versionNumber}`}
+                                                {isAutoSnapshot(version)
+                                                    ? version.versionName!.slice(AUTO_SNAPSHOT_PREFIX.length)
+                                                    : version.versionName || `Version ${version.versionNumber}`}
                                             </h3>
+                                            {isAutoSnapshot(version) && (
+                                                <span className="px-2 py-1 bg-gray-100 text-gray-600 text-xs font-medium rounded">
+                                                    Auto
+                                                </span>
+                                            )}
                                             {index === 0 && (
                                                 <span className="px-2 py-1 bg-green-100 text-green-800 text-xs font-medium rounded">
                                                     Latest
@@ -180,6 +247,14 @@ export const VersionsPage: React.FC = () => {
                                             <Eye className="w-4 h-4 mr-1" />
                                             Preview
                                         </Button>
+                                        <Button
+                                            variant="secondary"
+                                            size="sm"
+                                            onClick={() => handleCompareVersion(version)}
+                                        >
+                                            <GitCompare className="w-4 h-4 mr-1" />
+                                            Compare
+                                        </Button>
                                         {index !== 0 && (
                                             <Button
                                                 variant="primary"
@@ -227,7 +302,8 @@ export const VersionsPage: React.FC = () => {
                             <li>• Create snapshots before making major changes</li>
                             <li>• Use descriptive names to easily identify versions</li>
                             <li>• Restore any previous version with one click</li>
-                            <li>• Versions are saved automatically when you create snapshots</li>
+                            <li>• Compare versions to restore single sections or entries</li>
+                            <li>• Snapshots are also saved automatically before imports, template switches, restores and bulk fixes, and during long editing sessions</li>
                         </ul>
                     </div>
                 )}
@@ -269,6 +345,15 @@ export const VersionsPage: React.FC = () => {
                 </div>
             </Modal>
 
+            {/* Automatic Snapshot Settings Modal */}
+            <Modal
+                isOpen={showSettingsModal}
+                onClose={() => setShowSettingsModal(false)}
+                title="Automatic Snapshots"
+            >
+                <SnapshotSettingsPanel settings={snapshotSettings} onChange={updateSnapshotSettings} />
+            </Modal>
+
             {/* Preview Modal */}
             <Modal
                 isOpen={showPreviewModal}
@@ -304,6 +389,63 @@ export const VersionsPage: React.FC = () => {
                     </div>
                 )}
             </Modal>
+
+            {/* Compare Modal */}
+            <Modal
+                isOpen={!!compareVersion}
+                onClose={() => setCompareVersion(null)}
+                title="Compare Versions"
+                size="xl"
+            >
+                {compareVersion && (
+                    <div className="space-y-4">
+                        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                            <span className="font-medium">{versionLabel(compareVersion)}</span>
+                            <span>compared with</span>
+                            <select
+                                value={compareTarget}
+                                onChange={(e) => setCompareTarget(e.target.value)}
+                                className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                            >
+                                <option value={CURRENT}>Current resume</option>
+                                {versions
+                                    .filter((version) => version.id !== compareVersion.id)
+                                    .map((version) => (
+                                        <option key={version.id} value={version.id}>
+                                            {versionLabel(version)}
+                                        </option>
+                                    ))}
+                            </select>
+                        </div>
+
+                        {compareTarget === CURRENT && (
+                            <p className="text-xs text-gray-500">
+                                Restoring a section or entry copies it from "{versionLabel(compareVersion)}" into
+                                your current resume; everything else stays as it is.
+                            </p>
+                        )}
+
+                        {targetContent ? (
+                            <VersionDiffView
+                                oldContent={compareVersion.content}
+                                newContent={targetContent}
+                                oldLabel={versionLabel(compareVersion)}
+                                newLabel={targetVersion ? versionLabel(targetVersion) : 'Current resume'}
+                                onRestoreSection={canRestorePart
+                                    ? (key) => applyRestore((current, previous) => restoreSection(current, previous, key))
+                                    : undefined}
+                                onRestoreItem={canRestorePart
+                                    ? (key, itemId) => applyRestore((current, previous) => restoreItem(current, previous, key, itemId))
+                                    : undefined}
+                            />
+                        ) : (
+                            <div className="flex items-center justify-center py-12">
+                                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </Modal>
         </div>
     );
 };
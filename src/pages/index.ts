@@ -13,6 +13,8 @@ export { ProfilePage } from './ProfilePage';
 export { EditorPage } from './EditorPage';
 export { SharePage } from './SharePage';
 export { VersionsPage } from './VersionsPage';
+export { TailoringPage } from './TailoringPage';
+export { TemplateDesignerPage } from './TemplateDesignerPage';
 export { TermsPage } from './TermsPage';
 export { PrivacyPolicyPage } from './PrivacyPolicyPage';
 export { OAuthCallbackPage } from './OAuthCallbackPage';
@@ -16,6 +16,8 @@ import {
   EditorPage,
   SharePage,
   VersionsPage,
+  TailoringPage,
+  TemplateDesignerPage,
   TermsPage,
   PrivacyPolicyPage,
   OAuthCallbackPage,
@@ -183,6 +185,30 @@ export const router = createBrowserRouter([
       </ProtectedRoute>
     ),
   },
+  {
+    path: "/tailor/:id",
+    element: (
+      <ProtectedRoute>
+        <TailoringPage />
+      </ProtectedRoute>
+    ),
+  },
+  {
+    path: "/templates/designer",
+    element: (
+      <ProtectedRoute>
+        <TemplateDesignerPage />
+      </ProtectedRoute>
+    ),
+  },
+  {
+    path: "/templates/designer/:templateId",
+    element: (
+      <ProtectedRoute>
+        <TemplateDesignerPage />
+      </ProtectedRoute>
+    ),
+  },
   {
     path: "*",
     element: <Navigate to="/dashboard" replace />,
@@ -0,0 +1,119 @@
+/**
+ * Test file for syncQueue service
+ * Tests how queued section changes are sent, and that changes the server
+ * rejects are kept for the user to retry or discard instead of being dropped
+ */
+
+import { syncQueue, toSyncBase } from "../syncQueue";
+import { resumeService } from "../resume.service";
+import type { ResumeResponse } from "../../types/api.types";
+
+// In-memory IndexedDB stand-in
+jest.mock("localforage", () => {
+  const items = new Map<string, unknown>();
+  return {
+    createInstance: () => ({
+      getItem: async (key: string) => items.get(key) ?? null,
+      setItem: async (key: string, value: unknown) => {
+        items.set(key, value);
+        return value;
+      },
+    }),
+  };
+});
+
+jest.mock("../resume.service", () => ({
+  resumeService: {
+    getResume: jest.fn(),
+    updateResume: jest.fn(),
+  },
+}));
+
+const getResume = resumeService.getResume as jest.Mock;
+const updateResume = resumeService.updateResume as jest.Mock;
+
+const remote = {
+  id: "resume-1",
+  title: "Resume",
+  version: 1,
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  content: { summary: "Old" },
+} as unknown as ResumeResponse;
+
+const clearQueue = async () => {
+  for (const entry of await syncQueue.getPending()) {
+    await syncQueue.discard(entry.id);
+  }
+};
+
+describe("syncQueue", () => {
+  beforeEach(async () => {
+    await clearQueue();
+    getResume.mockReset().mockResolvedValue(remote);
+    updateResume.mockReset();
+  });
+
+  it("should queue changed sections and send them laid over the base copy", async () => {
+    const base = { ...remote, content: { summary: "Old", locale: "en", skills: [] } } as unknown as ResumeResponse;
+    getResume.mockResolvedValue(base);
+    updateResume.mockImplementation(async (id: string, data: object) => ({ ...base, id, ...data }));
+    await syncQueue.enqueue("resume-1", { content: { summary: "New" } }, toSyncBase(base));
+    await syncQueue.enqueue("resume-1", { content: { locale: undefined } }, toSyncBase(base));
+
+    const [pending] = await syncQueue.getPending();
+    expect(Object.keys(pending.data.content!)).toEqual(["summary", "locale"]);
+    const applied = await syncQueue.applyPending(base);
+    expect(applied.content).toEqual({ summary: "New", skills: [] });
+    expect(applied.content).not.toHaveProperty("locale");
+
+    await syncQueue.flush();
+    const [, sent] = updateResume.mock.calls[0];
+    expect(sent.content).toEqual({ summary: "New", skills: [] });
+    expect(sent.content).not.toHaveProperty("locale");
+  });
+
+  it("should keep a rejected change and report it", async () => {
+    updateResume.mockRejectedValue({ status: 422, message: "Summary is too long" });
+    await syncQueue.enqueue("resume-1", { content: { summary: "New" } as any }, toSyncBase(remote));
+
+    const report = await syncQueue.flush();
+    const [pending] = await syncQueue.getPending();
+
+    expect(report.rejected).toHaveLength(1);
+    expect(report.rejected[0].data.content).toEqual({ summary: "New" });
+    expect(pending.rejection).toMatchObject({ status: 422, message: "Summary is too long" });
+  });
+
+  it("should hold later changes back until the rejected one is retried or discarded", async () => {
+    updateResume.mockRejectedValueOnce({ status: 409, message: "Conflict" });
+    await syncQueue.enqueue("resume-1", { title: "First" }, toSyncBase(remote));
+    await syncQueue.flush();
+    await syncQueue.enqueue("resume-1", { title: "Second" }, toSyncBase(remote));
+
+    // The second change isn't folded into the rejected one, and waits behind it
+    await syncQueue.flush();
+    expect(await syncQueue.getPending()).toHaveLength(2);
+    expect(updateResume).toHaveBeenCalledTimes(1);
+
+    updateResume.mockImplementation(async (id: string, data: { title: string }) => ({ ...remote, id, ...data }));
+    const [rejected] = await syncQueue.getPending();
+    await syncQueue.retry(rejected.id);
+    const report = await syncQueue.flush();
+
+    expect(report.rejected).toEqual([]);
+    expect(updateResume.mock.calls.slice(1).map(([, data]) => data.title)).toEqual(["First", "Second"]);
+    expect(await syncQueue.getPending()).toEqual([]);
+  });
+
+  it("should drop a rejected change only when discarded", async () => {
+    updateResume.mockRejectedValue({ status: 400, message: "Bad request" });
+    await syncQueue.enqueue("resume-1", { title: "Broken" }, toSyncBase(remote));
+    await syncQueue.flush();
+    await syncQueue.flush();
+    expect(await syncQueue.getPending()).toHaveLength(1);
+
+    const [rejected] = await syncQueue.getPending();
+    await syncQueue.discard(rejected.id);
+    expect(await syncQueue.getPending()).toEqual([]);
+  });
+});
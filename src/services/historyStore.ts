@@ -0,0 +1,43 @@
+/**
+ * History Store
+ * Undo history of each resume, stored in IndexedDB by resume id so it
+ * survives reloads and editing sessions.
+ */
+
+import localforage from 'localforage';
+import type { HistoryTree } from '../utils/editHistory';
+
+const store = localforage.createInstance({
+    name: 'resume-builder',
+    storeName: 'edit_history',
+});
+
+export const historyStore = {
+    async load(resumeId: string): Promise<HistoryTree | null> {
+        try {
+            const tree = await store.getItem<HistoryTree>(resumeId);
+            // Histories saved before entries became patches have no present state
+            return tree && tree.present && tree.nodes?.[tree.currentId] ? tree : null;
+        } catch (err) {
+            console.error('Failed to load edit history:', err);
+            return null;
+        }
+    },
+
+    async save(tree: HistoryTree): Promise<void> {
+        try {
+            await store.setItem(tree.resumeId, tree);
+        } catch (err) {
+            // History is a convenience; running out of space must not break editing
+            console.error('Failed to save edit history:', err);
+        }
+    },
+
+    async remove(resumeId: string): Promise<void> {
+        try {
+            await store.removeItem(resumeId);
+        } catch (err) {
+            console.error('Failed to remove edit history:', err);
+        }
+    },
+};
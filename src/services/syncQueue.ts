@@ -0,0 +1,316 @@
+/**
+ * Sync Queue
+ * Persistent outbound queue of resume updates, stored in IndexedDB so edits
+ * made offline survive reloads and are replayed once the API is reachable.
+ *
+ * The API has no conditional update, so before replaying a content change the
+ * queue fetches the server copy and compares its version and updatedAt with
+ * the ones the change was based on. A mismatch is reported as a conflict and
+ * the entry stays queued until it is resolved. Changes the server refuses are
+ * kept too, marked as rejected, until the user retries or discards them.
+ *
+ * Queued content holds only the sections that changed. PUT /resumes/:id
+ * replaces the whole content document and the API has no partial update, so
+ * the sections are laid over the base copy only when the change is sent.
+ */
+
+import localforage from 'localforage';
+import { resumeService } from './resume.service';
+import { deepEqual } from '../utils/resumeMerge';
+import { diffContent } from '../utils/saveRequest';
+import type { ResumeContent, ResumeResponse, UpdateResumeRequest } from '../types/api.types';
+
+const store = localforage.createInstance({
+    name: 'resume-builder',
+    storeName: 'sync_queue',
+});
+
+const QUEUE_KEY = 'mutations';
+
+/**
+ * The server copy a queued change was made against
+ */
+export interface SyncBase {
+    version: number;
+    updatedAt: string;
+    content: ResumeContent;
+}
+
+export interface QueuedMutation {
+    id: string;
+    resumeId: string;
+    /** The changed fields; content holds only the changed sections */
+    data: UpdateResumeRequest;
+    base: SyncBase;
+    queuedAt: string;
+    attempts: number;
+    /** Set when replaying found the resume changed on the server */
+    conflict?: boolean;
+    /** Set when the server refused the change */
+    rejection?: SyncRejection;
+}
+
+export interface SyncRejection {
+    status: number;
+    message: string;
+    rejectedAt: string;
+}
+
+export interface SyncConflict {
+    mutation: QueuedMutation;
+    remote: ResumeResponse;
+}
+
+export interface SyncReport {
+    /** Latest server copy of every resume that was saved */
+    synced: ResumeResponse[];
+    conflicts: SyncConflict[];
+    /** Changes the server refused; they stay queued until retried or discarded */
+    rejected: QueuedMutation[];
+    /** True when the API could not be reached; remaining entries stay queued */
+    offline: boolean;
+    error: string | null;
+}
+
+export const toSyncBase = (resume: ResumeResponse): SyncBase => ({
+    version: resume.version,
+    updatedAt: resume.updatedAt,
+    content: resume.content,
+});
+
+/**
+ * Lay changed content sections over a document. Sections set to undefined
+ * were removed.
+ */
+export const applyContentChanges = (content: ResumeContent, changes: ResumeContent): ResumeContent => {
+    const applied: Record<string, unknown> = { ...content, ...changes };
+    Object.keys(changes).forEach((key) => {
+        if (applied[key] === undefined) delete applied[key];
+    });
+    return applied as ResumeContent;
+};
+
+/**
+ * The full content a queued change would leave on the server
+ */
+export const pendingContent = (mutation: QueuedMutation): ResumeContent =>
+    applyContentChanges(mutation.base.content, mutation.data.content || {});
+
+const applyChanges = (resume: ResumeResponse, data: UpdateResumeRequest): ResumeResponse => ({
+    ...resume,
+    ...data,
+    content: data.content ? applyContentChanges(resume.content, data.content) : resume.content,
+}) as ResumeResponse;
+
+// Read-modify-write cycles on the stored queue run one at a time
+let lock: Promise<unknown> = Promise.resolve();
+const withLock = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = lock.then(task, task);
+    lock = run.catch(() => undefined);
+    return run;
+};
+
+const readQueue = async (): Promise<QueuedMutation[]> =>
+    (await store.getItem<QueuedMutation[]>(QUEUE_KEY)) || [];
+
+const writeQueue = async (queue: QueuedMutation[]): Promise<void> => {
+    await store.setItem(QUEUE_KEY, queue);
+};
+
+const updateQueue = (update: (queue: QueuedMutation[]) => QueuedMutation[]): Promise<QueuedMutation[]> =>
+    withLock(async () => {
+        const queue = update(await readQueue());
+        await writeQueue(queue);
+        return queue;
+    });
+
+let activeFlush: Promise<SyncReport> | null = null;
+let followUpFlush: Promise<SyncReport> | null = null;
+
+// utils/axios rejects with { status, code, message }; status 0 means no response
+const statusOf = (err: unknown): number | undefined => (err as { status?: number })?.status;
+
+const replay = async (): Promise<SyncReport> => {
+    const report: SyncReport = { synced: [], conflicts: [], rejected: [], offline: false, error: null };
+    const blocked = new Set<string>();
+
+    // Entries queued while replaying are picked up on the next pass
+    for (const queued of await readQueue()) {
+        if (blocked.has(queued.resumeId)) continue;
+
+        // Re-read the entry: it may have been rebased by an earlier save
+        const mutation = (await readQueue()).find((entry) => entry.id === queued.id);
+        if (!mutation) continue;
+
+        // Later changes to the resume wait until the user decides about this one
+        if (mutation.rejection) {
+            report.rejected.push(mutation);
+            blocked.add(mutation.resumeId);
+            continue;
+        }
+
+        try {
+            if (mutation.data.content) {
+                const remote = await resumeService.getResume(mutation.resumeId);
+                const changedRemotely =
+                    (remote.version !== mutation.base.version || remote.updatedAt !== mutation.base.updatedAt) &&
+                    !deepEqual(remote.content, mutation.base.content);
+
+                // Unresolved conflicts are reported again with the latest server copy
+                if (mutation.conflict || changedRemotely) {
+                    const stored = await updateQueue((queue) =>
+                        queue.map((entry) => (entry.id === mutation.id ? { ...entry, conflict: true } : entry))
+                    );
+                    report.conflicts.push({ mutation: stored.find((entry) => entry.id === mutation.id)!, remote });
+                    blocked.add(mutation.resumeId);
+                    continue;
+                }
+            }
+
+            const request = mutation.data.content ? { ...mutation.data, content: pendingContent(mutation) } : mutation.data;
+            const saved = await resumeService.updateResume(mutation.resumeId, request);
+            // Changes folded into the entry while it was being sent keep it queued
+            await updateQueue((queue) =>
+                queue
+                    .filter((entry) => entry.id !== mutation.id || !deepEqual(entry.data, mutation.data))
+                    .map((entry) => (entry.resumeId === saved.id ? { ...entry, base: toSyncBase(saved) } : entry))
+            );
+            report.synced = [...report.synced.filter((resume) => resume.id !== saved.id), saved];
+        } catch (err: any) {
+            const status = statusOf(err);
+            if (status === 0) {
+                report.offline = true;
+                break;
+            }
+
+            if (status !== undefined && status >= 400 && status < 500) {
+                // Sending it again as is won't help, but dropping it would lose the edit
+                const rejection: SyncRejection = {
+                    status,
+                    message: err?.message || 'The server rejected this change',
+                    rejectedAt: new Date().toISOString(),
+                };
+                const stored = await updateQueue((queue) =>
+                    queue.map((entry) => (entry.id === mutation.id ? { ...entry, rejection } : entry))
+                );
+                const rejected = stored.find((entry) => entry.id === mutation.id);
+                if (rejected) report.rejected.push(rejected);
+                blocked.add(mutation.resumeId);
+            } else {
+                await updateQueue((queue) =>
+                    queue.map((entry) => (entry.id === mutation.id ? { ...entry, attempts: entry.attempts + 1 } : entry))
+                );
+                blocked.add(mutation.resumeId);
+            }
+            report.error = err?.message || 'Failed to save resume';
+        }
+    }
+
+    return report;
+};
+
+export const syncQueue = {
+    /**
+     * Queue an update whose content holds the changed sections only.
+     * Consecutive updates to the same resume are folded into one entry that
+     * keeps the base of the first.
+     */
+    async enqueue(resumeId: string, data: UpdateResumeRequest, base: SyncBase): Promise<void> {
+        await updateQueue((queue) => {
+            const last = queue[queue.length - 1];
+            if (last && last.resumeId === resumeId && !last.conflict && !last.rejection) {
+                const folded = { ...last.data, ...data };
+                if (last.data.content && data.content) {
+                    folded.content = { ...last.data.content, ...data.content };
+                }
+                return [...queue.slice(0, -1), { ...last, data: folded }];
+            }
+            return [
+                ...queue,
+                {
+                    id: `${resumeId}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+                    resumeId,
+                    data,
+                    base,
+                    queuedAt: new Date().toISOString(),
+                    attempts: 0,
+                },
+            ];
+        });
+    },
+
+    async getPending(resumeId?: string): Promise<QueuedMutation[]> {
+        const queue = await readQueue();
+        return resumeId ? queue.filter((entry) => entry.resumeId === resumeId) : queue;
+    },
+
+    /**
+     * Overlay queued changes on a server copy, so a reload shows unsent edits
+     */
+    async applyPending(resume: ResumeResponse): Promise<ResumeResponse> {
+        const pending = await syncQueue.getPending(resume.id);
+        return pending.reduce((current, entry) => applyChanges(current, entry.data), resume);
+    },
+
+    /**
+     * Replace a conflicted change with the merged content and rebase it on the
+     * server copy it was merged with, keeping only the sections the merge
+     * changes
+     */
+    async resolveConflict(mutationId: string, content: ResumeContent, remote: ResumeResponse): Promise<void> {
+        await updateQueue((queue) =>
+            queue.map((entry) =>
+                entry.id === mutationId
+                    ? {
+                        ...entry,
+                        data: { ...entry.data, content: diffContent(remote.content, content) },
+                        base: toSyncBase(remote),
+                        conflict: false,
+                    }
+                    : entry
+            )
+        );
+    },
+
+    /**
+     * Send a rejected change again on the next replay, e.g. after the cause
+     * was fixed on the server
+     */
+    async retry(mutationId: string): Promise<void> {
+        await updateQueue((queue) =>
+            queue.map((entry) => {
+                if (entry.id !== mutationId) return entry;
+                const { rejection: _rejection, ...retried } = entry;
+                return { ...retried, attempts: 0 };
+            })
+        );
+    },
+
+    /**
+     * Drop a queued change, e.g. a rejected one the user doesn't want to keep
+     */
+    async discard(mutationId: string): Promise<void> {
+        await updateQueue((queue) => queue.filter((entry) => entry.id !== mutationId));
+    },
+
+    /**
+     * Send queued changes in order. Only one replay runs at a time; callers
+     * that arrive during a replay share a single follow-up replay, so their
+     * changes are sent before the promise resolves.
+     */
+    flush(): Promise<SyncReport> {
+        if (!activeFlush) {
+            activeFlush = replay().finally(() => {
+                activeFlush = null;
+            });
+            return activeFlush;
+        }
+        if (!followUpFlush) {
+            followUpFlush = activeFlush.then(() => {
+                followUpFlush = null;
+                return syncQueue.flush();
+            });
+        }
+        return followUpFlush;
+    },
+};
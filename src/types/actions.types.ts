@@ -3,6 +3,16 @@ import {
   PersonalInfo,
   ResumeSection,
   LayoutSettings,
+  Language,
+  Publication,
+  CitationStyle,
+  Award,
+  VolunteerExperience,
+  Reference,
+  ColumnSettings,
+  PageSize,
+  DirectionSetting,
+  SectionColumn,
   TemplateType,
 } from "./resume.types";
 
@@ -42,7 +52,11 @@ export type SectionAction =
   | { type: "DELETE_SECTION"; payload: string }
   | { type: "REORDER_SECTIONS"; payload: string[] }
   | { type: "TOGGLE_SECTION"; payload: string }
-  | { type: "DUPLICATE_SECTION"; payload: string };
+  | { type: "DUPLICATE_SECTION"; payload: string }
+  | {
+      type: "MOVE_SECTION";
+      payload: { sectionId: string; column: SectionColumn; sectionIds: string[] };
+    };
 
 // Content-specific actions for each section type
 export type SummaryAction = {
@@ -125,6 +139,100 @@ export type CertificationAction =
       payload: { sectionId: string; certificationIds: string[] };
     };
 
+export type LanguageAction =
+  | { type: "ADD_LANGUAGE"; payload: { sectionId: string; language: Language } }
+  | {
+      type: "UPDATE_LANGUAGE";
+      payload: { sectionId: string; languageId: string; updates: Partial<Language> };
+    }
+  | {
+      type: "DELETE_LANGUAGE";
+      payload: { sectionId: string; languageId: string };
+    }
+  | {
+      type: "REORDER_LANGUAGES";
+      payload: { sectionId: string; languageIds: string[] };
+    }
+  | {
+      type: "SET_LANGUAGE_CEFR_DISPLAY";
+      payload: { sectionId: string; showCefr: boolean };
+    };
+
+export type PublicationAction =
+  | {
+      type: "ADD_PUBLICATION";
+      payload: { sectionId: string; publication: Publication };
+    }
+  | {
+      type: "UPDATE_PUBLICATION";
+      payload: { sectionId: string; publicationId: string; updates: Partial<Publication> };
+    }
+  | {
+      type: "DELETE_PUBLICATION";
+      payload: { sectionId: string; publicationId: string };
+    }
+  | {
+      type: "REORDER_PUBLICATIONS";
+      payload: { sectionId: string; publicationIds: string[] };
+    }
+  | {
+      type: "IMPORT_PUBLICATIONS";
+      payload: { sectionId: string; publications: Publication[] };
+    }
+  | {
+      type: "SET_CITATION_STYLE";
+      payload: { sectionId: string; citationStyle: CitationStyle };
+    };
+
+export type AwardAction =
+  | { type: "ADD_AWARD"; payload: { sectionId: string; award: Award } }
+  | {
+      type: "UPDATE_AWARD";
+      payload: { sectionId: string; awardId: string; updates: Partial<Award> };
+    }
+  | { type: "DELETE_AWARD"; payload: { sectionId: string; awardId: string } }
+  | {
+      type: "REORDER_AWARDS";
+      payload: { sectionId: string; awardIds: string[] };
+    };
+
+export type VolunteerAction =
+  | {
+      type: "ADD_VOLUNTEER";
+      payload: { sectionId: string; volunteer: VolunteerExperience };
+    }
+  | {
+      type: "UPDATE_VOLUNTEER";
+      payload: { sectionId: string; volunteerId: string; updates: Partial<VolunteerExperience> };
+    }
+  | {
+      type: "DELETE_VOLUNTEER";
+      payload: { sectionId: string; volunteerId: string };
+    }
+  | {
+      type: "REORDER_VOLUNTEERING";
+      payload: { sectionId: string; volunteerIds: string[] };
+    };
+
+export type ReferenceAction =
+  | { type: "ADD_REFERENCE"; payload: { sectionId: string; reference: Reference } }
+  | {
+      type: "UPDATE_REFERENCE";
+      payload: { sectionId: string; referenceId: string; updates: Partial<Reference> };
+    }
+  | {
+      type: "DELETE_REFERENCE";
+      payload: { sectionId: string; referenceId: string };
+    }
+  | {
+      type: "REORDER_REFERENCES";
+      payload: { sectionId: string; referenceIds: string[] };
+    }
+  | {
+      type: "SET_REFERENCES_ON_REQUEST";
+      payload: { sectionId: string; onRequest: boolean };
+    };
+
 export type CustomSectionAction = {
   type: "UPDATE_CUSTOM_SECTION";
   payload: { sectionId: string; title: string; content: string };
@@ -140,7 +248,20 @@ export type LayoutAction =
     }
   | { type: "UPDATE_FONT_SIZES"; payload: Partial<LayoutSettings["fontSize"]> }
   | { type: "UPDATE_FONT_FAMILY"; payload: string }
-  | { type: "UPDATE_COLORS"; payload: Partial<LayoutSettings["colors"]> };
+  | { type: "UPDATE_COLORS"; payload: Partial<LayoutSettings["colors"]> }
+  | { type: "UPDATE_COLUMNS"; payload: Partial<ColumnSettings> }
+  | { type: "UPDATE_PAGE_SIZE"; payload: PageSize }
+  | { type: "UPDATE_DIRECTION"; payload: DirectionSetting };
+
+// Language and translation actions
+export type TranslationAction =
+  | { type: "SET_LOCALE"; payload: string }
+  | { type: "ADD_TRANSLATION"; payload: string }
+  | { type: "REMOVE_TRANSLATION"; payload: string }
+  | {
+      type: "UPDATE_TRANSLATION";
+      payload: { locale: string; key: string; text: string; source: string };
+    };
 
 // Template actions
 export type TemplateAction =
@@ -151,7 +272,9 @@ export type TemplateAction =
 export type ATSAction =
   | { type: "VALIDATE_ATS"; payload: any }
   | { type: "CLEAR_ATS_ISSUES" }
-  | { type: "FIX_ATS_ISSUE"; payload: string };
+  | { type: "FIX_ATS_ISSUE"; payload: string }
+  /** The resume with fixes applied, previewed and computed by ATSScorePanel */
+  | { type: "FIX_ATS_ISSUES"; payload: Resume };
 
 // UI state actions
 export type UIAction =
@@ -173,8 +296,14 @@ export type AppAction =
   | SkillAction
   | EducationAction
   | CertificationAction
+  | LanguageAction
+  | PublicationAction
+  | AwardAction
+  | VolunteerAction
+  | ReferenceAction
   | CustomSectionAction
   | LayoutAction
+  | TranslationAction
   | TemplateAction
   | ATSAction
   | UIAction;
@@ -259,6 +388,61 @@ export const isSectionAction = (action: AppAction): action is SectionAction => {
     "REORDER_SECTIONS",
     "TOGGLE_SECTION",
     "DUPLICATE_SECTION",
+    "MOVE_SECTION",
+  ].includes(action.type);
+};
+
+export const isLanguageAction = (
+  action: AppAction
+): action is LanguageAction => {
+  return [
+    "ADD_LANGUAGE",
+    "UPDATE_LANGUAGE",
+    "DELETE_LANGUAGE",
+    "REORDER_LANGUAGES",
+    "SET_LANGUAGE_CEFR_DISPLAY",
+  ].includes(action.type);
+};
+
+export const isPublicationAction = (
+  action: AppAction
+): action is PublicationAction => {
+  return [
+    "ADD_PUBLICATION",
+    "UPDATE_PUBLICATION",
+    "DELETE_PUBLICATION",
+    "REORDER_PUBLICATIONS",
+    "IMPORT_PUBLICATIONS",
+    "SET_CITATION_STYLE",
+  ].includes(action.type);
+};
+
+export const isAwardAction = (action: AppAction): action is AwardAction => {
+  return ["ADD_AWARD", "UPDATE_AWARD", "DELETE_AWARD", "REORDER_AWARDS"].includes(
+    action.type
+  );
+};
+
+export const isVolunteerAction = (
+  action: AppAction
+): action is VolunteerAction => {
+  return [
+    "ADD_VOLUNTEER",
+    "UPDATE_VOLUNTEER",
+    "DELETE_VOLUNTEER",
+    "REORDER_VOLUNTEERING",
+  ].includes(action.type);
+};
+
+export const isReferenceAction = (
+  action: AppAction
+): action is ReferenceAction => {
+  return [
+    "ADD_REFERENCE",
+    "UPDATE_REFERENCE",
+    "DELETE_REFERENCE",
+    "REORDER_REFERENCES",
+    "SET_REFERENCES_ON_REQUEST",
   ].includes(action.type);
 };
 
@@ -270,6 +454,20 @@ export const isLayoutAction = (action: AppAction): action is LayoutAction => {
     "UPDATE_FONT_SIZES",
     "UPDATE_FONT_FAMILY",
     "UPDATE_COLORS",
+    "UPDATE_COLUMNS",
+    "UPDATE_PAGE_SIZE",
+    "UPDATE_DIRECTION",
+  ].includes(action.type);
+};
+
+export const isTranslationAction = (
+  action: AppAction
+): action is TranslationAction => {
+  return [
+    "SET_LOCALE",
+    "ADD_TRANSLATION",
+    "REMOVE_TRANSLATION",
+    "UPDATE_TRANSLATION",
   ].includes(action.type);
 };
 
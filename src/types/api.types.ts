@@ -152,10 +152,36 @@ export interface ResumeContent {
     certifications?: CertificationItem[];
     projects?: ProjectItem[];
     languages?: LanguageItem[];
+    /** Whether the languages section shows CEFR levels */
+    showLanguageCefr?: boolean;
+    publications?: PublicationItem[];
+    /** Citation style of the publications section */
+    citationStyle?: 'apa' | 'ieee';
+    awards?: AwardItem[];
+    volunteering?: VolunteerItem[];
+    references?: ReferenceItem[];
+    /** Whether references are replaced by "Available upon request" */
+    referencesOnRequest?: boolean;
     additionalInfo?: AdditionalInfoItem[];
     customSections?: CustomSectionItem[];
     sectionOrder?: SectionMetadata[];
     layout?: ResumeLayout;
+    locale?: string;
+    /** Translated text fields, keyed by locale and then by field */
+    translations?: Record<string, Record<string, TranslatedText>>;
+    /** Set when the resume is a variant that inherits from a base resume */
+    variant?: ResumeVariantLink;
+}
+
+export interface TranslatedText {
+    text: string;
+    source: string;
+}
+
+export interface ResumeVariantLink {
+    baseId: string;
+    overrides: string[];
+    syncedAt?: string;
 }
 
 export interface SectionMetadata {
@@ -164,6 +190,7 @@ export interface SectionMetadata {
     title: string;
     enabled: boolean;
     order: number;
+    column?: 'main' | 'sidebar';
 }
 
 export interface ResumeLayout {
@@ -187,6 +214,13 @@ export interface ResumeLayout {
         secondary: string;
         text: string;
     };
+    columns?: {
+        count: 1 | 2;
+        sidebarWidth: number;
+        sidebarPosition: 'left' | 'right';
+    };
+    pageSize?: 'a4' | 'letter' | 'legal';
+    direction?: 'ltr' | 'rtl' | 'auto';
 }
 
 export interface PersonalInfo {
@@ -257,6 +291,54 @@ export interface LanguageItem {
     id: string;
     name: string;
     proficiency: 'basic' | 'conversational' | 'professional' | 'native';
+    cefr?: 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+}
+
+export interface PublicationItem {
+    id: string;
+    type: 'article' | 'conference' | 'book' | 'chapter' | 'thesis' | 'report' | 'talk' | 'other';
+    title: string;
+    authors: string[];
+    venue?: string;
+    date: string;
+    volume?: string;
+    issue?: string;
+    pages?: string;
+    publisher?: string;
+    doi?: string;
+    url?: string;
+}
+
+export interface AwardItem {
+    id: string;
+    type: 'award' | 'grant';
+    title: string;
+    issuer: string;
+    date: string;
+    amount?: string;
+    description?: string;
+}
+
+export interface VolunteerItem {
+    id: string;
+    role: string;
+    organization: string;
+    location: string;
+    startDate: string;
+    endDate?: string;
+    current: boolean;
+    description: string;
+    achievements?: string[];
+}
+
+export interface ReferenceItem {
+    id: string;
+    name: string;
+    jobTitle: string;
+    company: string;
+    relationship?: string;
+    email?: string;
+    phone?: string;
 }
 
 export interface CustomSectionItem {
@@ -0,0 +1,84 @@
+/**
+ * ATS Rule Types
+ * Rules checked by the ATS validator and the per-rule settings users can
+ * override (persisted under STORAGE_KEYS.ATS_SETTINGS).
+ */
+
+import type { ATSIssue, PaginationReport, Resume } from './resume.types';
+
+export type ATSSeverity = ATSIssue['type'];
+
+export type ATSRuleCategory =
+    | 'contact'
+    | 'structure'
+    | 'content'
+    | 'dates'
+    | 'typography'
+    | 'formatting'
+    | 'length'
+    | 'keywords';
+
+/**
+ * Everything a rule can look at while checking a resume
+ */
+export interface ATSRuleContext {
+    resume: Resume;
+    /** Measured page layout, when the preview has rendered */
+    pagination: PaginationReport | null;
+    /** The rule's default thresholds merged with the user's overrides */
+    thresholds: Record<string, number>;
+}
+
+/**
+ * A problem reported by a rule. The validator fills in the rule id and
+ * category; `type` only needs to be set when a finding is more or less
+ * severe than the rule's default.
+ */
+export type ATSRuleFinding = Omit<ATSIssue, 'type' | 'ruleId' | 'category'> & {
+    type?: ATSSeverity;
+};
+
+export interface ATSRule {
+    id: string;
+    /** Short label shown in settings and reports */
+    name: string;
+    category: ATSRuleCategory;
+    /** Default severity of the rule's findings */
+    severity: ATSSeverity;
+    /** Points deducted from the score per finding */
+    weight: number;
+    /** Tunable limits (word counts, font sizes, ...) with their defaults */
+    thresholds?: Record<string, number>;
+    check: (context: ATSRuleContext) => ATSRuleFinding[];
+    /** Resolves an issue on a copy of the resume; null when it can't be fixed automatically */
+    autoFix?: (resume: Resume, issue: ATSIssue) => ATSFixResult | null;
+}
+
+/**
+ * A single value changed by an auto-fix, shown in the fix preview
+ */
+export interface ATSFixChange {
+    /** Where the change happens, e.g. "Work Experience · Start date" */
+    label: string;
+    before: string;
+    after: string;
+}
+
+export interface ATSFixResult {
+    resume: Resume;
+    changes: ATSFixChange[];
+}
+
+/**
+ * User overrides for a single rule; unset fields keep the rule's defaults
+ */
+export interface ATSRuleSettings {
+    enabled?: boolean;
+    severity?: ATSSeverity;
+    weight?: number;
+    thresholds?: Record<string, number>;
+}
+
+export interface ATSSettings {
+    rules: Record<string, ATSRuleSettings>;
+}
@@ -4,6 +4,8 @@
  * Updated to match backend API schema
  */
 
+import type { ATSSettings } from "./ats.types";
+
 /**
  * Personal information section containing contact details and social links
  * @interface PersonalInfo
@@ -105,15 +107,98 @@ export interface CustomSection {
 // Alias for backend API compatibility
 export type CustomSectionItem = CustomSection;
 
+export type LanguageProficiency = 'basic' | 'conversational' | 'professional' | 'native';
+
+/** Common European Framework of Reference level */
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
 export interface Language {
   id: string;
   name: string;
-  proficiency: 'basic' | 'conversational' | 'professional' | 'native';
+  proficiency: LanguageProficiency;
+  cefr?: CefrLevel;
 }
 
 // Alias for backend API compatibility
 export type LanguageItem = Language;
 
+export type PublicationType =
+  | "article"
+  | "conference"
+  | "book"
+  | "chapter"
+  | "thesis"
+  | "report"
+  | "talk"
+  | "other";
+
+export interface Publication {
+  id: string;
+  type: PublicationType;
+  title: string;
+  /** Author names as written, "Ada Lovelace" or "Lovelace, Ada" */
+  authors: string[];
+  /** Journal, conference, book (for chapters) or event (for talks) */
+  venue?: string;
+  /** YYYY or YYYY-MM */
+  date: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  /** Publisher, or the university for a thesis */
+  publisher?: string;
+  doi?: string;
+  url?: string;
+}
+
+// Alias for backend API compatibility
+export type PublicationItem = Publication;
+
+export type CitationStyle = "apa" | "ieee";
+
+export interface Award {
+  id: string;
+  type: "award" | "grant";
+  title: string;
+  issuer: string;
+  date: string;
+  /** Optional: Funding amount for grants, as written ("$50,000") */
+  amount?: string;
+  description?: string;
+}
+
+// Alias for backend API compatibility
+export type AwardItem = Award;
+
+export interface VolunteerExperience {
+  id: string;
+  role: string;
+  organization: string;
+  location: string;
+  startDate: string;
+  endDate?: string;
+  current: boolean;
+  description: string;
+  achievements?: string[];
+}
+
+// Alias for backend API compatibility
+export type VolunteerItem = VolunteerExperience;
+
+export interface Reference {
+  id: string;
+  name: string;
+  jobTitle: string;
+  company: string;
+  /** Optional: How the reference knows the candidate ("Former manager") */
+  relationship?: string;
+  email?: string;
+  phone?: string;
+}
+
+// Alias for backend API compatibility
+export type ReferenceItem = Reference;
+
 export interface AdditionalInfoItem {
   id: string;
   title: string;
@@ -127,9 +212,17 @@ export type SectionType =
   | "skills"
   | "education"
   | "certifications"
+  | "languages"
+  | "publications"
+  | "awards"
+  | "volunteering"
+  | "references"
   | "additional-info"
   | "custom";
 
+/** Column a section is drawn in when the layout has two columns */
+export type SectionColumn = "main" | "sidebar";
+
 /**
  * Resume section container with type-safe content based on section type
  * Uses discriminated union for type safety
@@ -143,6 +236,8 @@ export interface ResumeSection {
   order: number;
   /** Optional: Hide the section title (used for pagination split) */
   hideTitle?: boolean;
+  /** Optional: Column in two-column layouts; defaults to the template's placement */
+  column?: SectionColumn;
   content:
   | { summary: string }
   | { experiences: WorkExperience[] }
@@ -150,6 +245,11 @@ export interface ResumeSection {
   | { skills: Skill[] }
   | { education: Education[] }
   | { certifications: Certification[] }
+  | LanguagesContent
+  | PublicationsContent
+  | { awards: Award[] }
+  | { volunteering: VolunteerExperience[] }
+  | ReferencesContent
   | { additionalInfo: AdditionalInfoItem[] }
   | { custom: CustomSection };
 }
@@ -157,6 +257,26 @@ export interface ResumeSection {
 // Alias for Task 2 requirements
 export type Section = ResumeSection;
 
+export interface LanguagesContent {
+  languages: Language[];
+  /** Optional: Show CEFR levels (B2, C1, ...) next to proficiency */
+  showCefr?: boolean;
+}
+
+export interface PublicationsContent {
+  publications: Publication[];
+  /** Optional: Citation style publications are listed in; defaults to APA */
+  citationStyle?: CitationStyle;
+  /** Optional: Number of the first IEEE reference, set when pagination continues a list */
+  startNumber?: number;
+}
+
+export interface ReferencesContent {
+  references: Reference[];
+  /** Optional: Print "Available upon request" instead of the contacts */
+  onRequest?: boolean;
+}
+
 /**
  * Layout and styling settings for resume appearance
  * Controls margins, spacing, fonts, and colors while maintaining ATS compliance
@@ -183,9 +303,33 @@ export interface LayoutSettings {
     secondary: string;
     text: string;
   };
+  /** Optional: Column layout; defaults to the template's */
+  columns?: ColumnSettings;
+  /** Optional: Paper size; defaults by the user's locale */
+  pageSize?: PageSize;
+  /** Optional: Writing direction; "auto" follows the resume's language and text */
+  direction?: DirectionSetting;
+}
+
+export type PageSize = "a4" | "letter" | "legal";
+
+export type TextDirection = "ltr" | "rtl";
+
+export type DirectionSetting = TextDirection | "auto";
+
+export interface ColumnSettings {
+  count: 1 | 2;
+  /** Sidebar width as a percentage of the content width */
+  sidebarWidth: number;
+  sidebarPosition: "left" | "right";
 }
 
-export type TemplateType = "classic" | "modern" | "minimal" | "professional" | "academic" | "professional-sample-1";
+export type BuiltInTemplateType = "classic" | "modern" | "minimal" | "professional" | "academic" | "professional-sample-1";
+
+/** Templates created in the template designer, stored as definitions */
+export type CustomTemplateType = `custom-${string}`;
+
+export type TemplateType = BuiltInTemplateType | CustomTemplateType;
 
 /**
  * Main resume data structure containing all sections and settings
@@ -197,10 +341,47 @@ export interface Resume {
   sections: ResumeSection[];
   layout: LayoutSettings;
   template: TemplateType;
+  /** Optional: Locale of the resume's own text, e.g. "de-DE"; defaults to en-US */
+  locale?: string;
+  /** Optional: Translations of the resume's text, keyed by locale */
+  translations?: Record<string, ResumeTranslation>;
+  /** Optional: Set when this resume is a variant of a base resume */
+  variant?: ResumeVariantLink;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Translated text of one text field. The source text is kept so a
+ * translation can be flagged when the original changes afterwards.
+ */
+export interface TranslatedText {
+  text: string;
+  source: string;
+}
+
+/**
+ * A resume's text in another language, keyed by field
+ * (see utils/resumeLocale.ts). Fields without a translation show the
+ * resume's own text.
+ */
+export type ResumeTranslation = Record<string, TranslatedText>;
+
+/**
+ * Link from a variant to the base resume it inherits from. The variant keeps
+ * its own full content; everything it doesn't override is refreshed from the
+ * base (see utils/resumeVariants.ts). Layout and template are always the
+ * variant's own.
+ */
+export interface ResumeVariantLink {
+  /** Id of the base resume */
+  baseId: string;
+  /** Overridden parts: content keys ("summary") or entries ("experience[exp-1]") */
+  overrides: string[];
+  /** The base's updatedAt when the variant last took its changes */
+  syncedAt?: string;
+}
+
 /**
  * Backend Resume Response (from API)
  * Matches the backend database schema
@@ -239,8 +420,18 @@ export interface ResumeContent {
   certifications?: Certification[];
   projects?: Project[];
   languages?: Language[];
+  showLanguageCefr?: boolean;
+  publications?: Publication[];
+  citationStyle?: CitationStyle;
+  awards?: Award[];
+  volunteering?: VolunteerExperience[];
+  references?: Reference[];
+  referencesOnRequest?: boolean;
   additionalInfo?: AdditionalInfoItem[];
   customSections?: CustomSection[];
+  locale?: string;
+  translations?: Record<string, ResumeTranslation>;
+  variant?: ResumeVariantLink;
 }
 
 // ATS Validation types
@@ -249,7 +440,29 @@ export interface ATSIssue {
   type: "error" | "warning" | "info";
   message: string;
   section?: string;
+  /** Id of the resume section the issue belongs to, when it is tied to one */
+  sectionId?: string;
+  /** Entry (experience, education, ...) and field the issue points at */
+  itemId?: string;
+  field?: string;
   suggestion?: string;
+  /** Id of the ATS rule that reported the issue */
+  ruleId?: string;
+  category?: string;
+}
+
+/**
+ * Page-break facts recorded by the pagination engine (useResumePagination).
+ * Page numbers are 1-based.
+ */
+export interface PaginationReport {
+  pageCount: number;
+  /** Share of the last page's content area that is filled (0-1) */
+  lastPageFill: number;
+  /** Section titles left at the bottom of a page while their content continues on the next */
+  orphanedHeaders: Array<{ sectionId: string; page: number }>;
+  /** Items (or sections that cannot be split) running past the bottom of a page */
+  splitItems: Array<{ sectionId: string; itemIndex?: number; page: number }>;
 }
 
 export interface ATSValidation {
@@ -274,10 +487,30 @@ export type ResumeAction =
   | { type: "RESET_RESUME" };
 
 // Context types
+/**
+ * An undo history entry as shown in the history panel
+ */
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  createdAt: string;
+  /** Nesting below the entry it branched off from */
+  depth: number;
+  isCurrent: boolean;
+  /** On the path from the oldest entry to the current one; others are undone branches */
+  isActive: boolean;
+}
+
 export interface ResumeContextType {
   resume: Resume;
   dispatch: React.Dispatch<any>; // Using any to support all action types from actions.types.ts
   atsValidation: ATSValidation;
+  /** Latest page layout measured by the preview, used by the ATS length checks */
+  paginationReport: PaginationReport | null;
+  setPaginationReport: (report: PaginationReport | null) => void;
+  /** Per-rule ATS overrides, persisted under STORAGE_KEYS.ATS_SETTINGS */
+  atsSettings: ATSSettings;
+  updateATSSettings: (settings: ATSSettings) => void;
   isLoading: boolean;
   error: string | null;
   // Undo/Redo functionality
@@ -285,6 +518,10 @@ export interface ResumeContextType {
   canRedo: boolean;
   undo: () => void;
   redo: () => void;
+  /** Undo history of the open resume, oldest first, including undone branches */
+  history: HistoryEntry[];
+  /** Return to any entry of the undo history */
+  jumpTo: (entryId: string) => void;
 }
 
 // Component prop types
@@ -317,6 +554,16 @@ export type ResumeSectionContent<T extends SectionType> = T extends "summary"
   ? { education: Education[] }
   : T extends "certifications"
   ? { certifications: Certification[] }
+  : T extends "languages"
+  ? LanguagesContent
+  : T extends "publications"
+  ? PublicationsContent
+  : T extends "awards"
+  ? { awards: Award[] }
+  : T extends "volunteering"
+  ? { volunteering: VolunteerExperience[] }
+  : T extends "references"
+  ? ReferencesContent
   : T extends "additional-info"
   ? { additionalInfo: AdditionalInfoItem[] }
   : T extends "custom"
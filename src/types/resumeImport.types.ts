@@ -0,0 +1,77 @@
+/**
+ * Resume Import Types
+ * Intermediate structures produced by the client-side PDF/DOCX parser and
+ * reviewed in the import wizard before they become a Resume.
+ */
+
+import type {
+    PersonalInfo,
+    SectionType,
+    WorkExperience,
+    Education,
+    Skill,
+    Certification,
+} from './resume.types';
+
+export type ImportSourceFormat = 'pdf' | 'docx';
+
+/**
+ * A line of text extracted from the source document
+ */
+export interface SourceLine {
+    text: string;
+    /** Paragraph used a heading/title style (DOCX only) */
+    isHeading: boolean;
+    /** Paragraph was a list item or started with a bullet glyph */
+    isBullet: boolean;
+}
+
+/**
+ * A parsed value together with how sure the parser is about it.
+ * `confidence` ranges from 0 (guess) to 1 (certain); `lines` is the
+ * inclusive range of source lines the value was read from.
+ */
+export interface ParsedItem<T> {
+    id: string;
+    data: T;
+    confidence: number;
+    lines: [number, number];
+}
+
+interface ParsedSectionBase<K extends SectionType, T> {
+    id: string;
+    type: K;
+    /** Heading text as it appeared in the document */
+    title: string;
+    /** Confidence that the heading was classified correctly */
+    confidence: number;
+    lines: [number, number];
+    items: ParsedItem<T>[];
+}
+
+export type ParsedSection =
+    | ParsedSectionBase<'summary', string>
+    | ParsedSectionBase<'experience', WorkExperience>
+    | ParsedSectionBase<'education', Education>
+    | ParsedSectionBase<'skills', Skill>
+    | ParsedSectionBase<'certifications', Certification>
+    | ParsedSectionBase<'custom', string>;
+
+export interface ParsedResume {
+    format: ImportSourceFormat;
+    fileName: string;
+    lines: SourceLine[];
+    personalInfo: ParsedItem<PersonalInfo>;
+    sections: ParsedSection[];
+    /** Problems worth showing to the user (e.g. scanned PDF without text) */
+    warnings: string[];
+}
+
+/**
+ * What the user kept in the import wizard
+ */
+export interface ImportSelection {
+    includePersonalInfo: boolean;
+    /** Ids of the ParsedItems to import */
+    itemIds: Set<string>;
+}
@@ -1,4 +1,4 @@
-import { TemplateType } from "./resume.types";
+import { BuiltInTemplateType, SectionType, TemplateType } from "./resume.types";
 
 // Template-specific styling configurations
 export interface TemplateConfig {
@@ -33,8 +33,108 @@ export interface TemplateConfig {
   };
 }
 
+/**
+ * Declarative template schema
+ *
+ * A TemplateDefinition describes everything the generic renderer needs to
+ * draw a template, so a new template is a data file rather than a component.
+ * Sizes follow the user's LayoutSettings; the schema only describes how
+ * elements are styled relative to them.
+ */
+
+// Colour slots resolved from the user's layout colours (falling back to styles.colors)
+export type TemplateColorRole = "primary" | "secondary" | "text";
+
+export interface TemplateTextStyle {
+  color?: TemplateColorRole;
+  weight?: "normal" | "bold" | 500 | 600;
+  italic?: boolean;
+  uppercase?: boolean;
+  /** Letter spacing in px */
+  letterSpacing?: number;
+  /** Size in pt relative to the layout font size the element is based on */
+  sizeOffset?: number;
+}
+
+export interface TemplateDivider {
+  style: "solid" | "double" | "dashed" | "dotted";
+  /** Width in px */
+  width: number;
+  color: TemplateColorRole;
+}
+
+export interface TemplateHeaderDefinition {
+  name: TemplateTextStyle;
+  title: TemplateTextStyle;
+  /** Render the title on the same line as the name */
+  titleInline?: boolean;
+  contact: TemplateTextStyle & {
+    /** Text between contact items; items are spaced apart when omitted */
+    separator?: string;
+  };
+  /** Vertical bar beside the header */
+  accentBar?: { width: number; color: TemplateColorRole };
+  /** Rule under the header */
+  divider?: TemplateDivider;
+}
+
+export interface TemplateSectionHeaderDefinition {
+  text: TemplateTextStyle;
+  /** Rule drawn when styles.sections.headerDecoration is "border-bottom" */
+  divider: TemplateDivider;
+}
+
+export interface TemplateEntryDefinition {
+  /** Job title, degree, project or certification name */
+  title: TemplateTextStyle;
+  /** Company, institution or issuer */
+  subtitle: TemplateTextStyle;
+  date: TemplateTextStyle;
+  dateFormat: "month-year" | "full" | "year" | "short";
+  /** Text between the subtitle and the location */
+  locationSeparator: string;
+  /** "disc" uses the list style; any other text is drawn as the marker */
+  bullet: { marker: string; color?: TemplateColorRole };
+  /** Space between entries in px */
+  spacing: number;
+}
+
+export interface TemplateBlocksDefinition {
+  summary: "paragraph" | "callout";
+  /** categories: "Category: a, b"; grid: category headings in a grid; inline: one comma-separated line */
+  skills: "categories" | "grid" | "inline";
+  /** Justify paragraphs */
+  justify?: boolean;
+}
+
+/**
+ * Default column placement for two-column layouts. Users can switch the
+ * column count, resize the sidebar and move sections between columns;
+ * see utils/columnLayout.ts.
+ */
+export interface TemplateColumnsDefinition {
+  /** Section types drawn in the sidebar unless a section sets its own column */
+  sidebar: SectionType[];
+  /** Sidebar width as a percentage of the content width */
+  sidebarWidth: number;
+  sidebarPosition: "left" | "right";
+}
+
+export interface TemplateDefinition extends TemplateConfig {
+  schemaVersion: 1;
+  /** Built-in template a custom template was forked from */
+  basedOn?: BuiltInTemplateType;
+  /** Font stack used when the user hasn't picked a font */
+  fontFamily: string;
+  header: TemplateHeaderDefinition;
+  sectionHeader: TemplateSectionHeaderDefinition;
+  entry: TemplateEntryDefinition;
+  blocks: TemplateBlocksDefinition;
+  columns?: TemplateColumnsDefinition;
+}
+
 // Template configurations
-export const TEMPLATE_CONFIGS: Record<TemplateType, TemplateConfig> = {
+export const TEMPLATE_CONFIGS: Record<BuiltInTemplateType, TemplateConfig> = {
   classic: {
     id: "classic",
     name: "Classic",
@@ -220,7 +320,7 @@ export const TEMPLATE_CONFIGS: Record<TemplateType, TemplateConfig> = {
 };
 
 // Template utility functions
-export const getTemplateConfig = (templateId: TemplateType): TemplateConfig => {
+export const getTemplateConfig = (templateId: BuiltInTemplateType): TemplateConfig => {
   return TEMPLATE_CONFIGS[templateId];
 };
 
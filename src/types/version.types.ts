@@ -68,3 +68,33 @@ export interface RestoreVersionOptions {
 export interface DeleteVersionOptions {
     force?: boolean;
 }
+
+/**
+ * Events that save an automatic version snapshot
+ */
+export type SnapshotTrigger = 'import' | 'template-switch' | 'restore' | 'bulk-change' | 'editing';
+
+/**
+ * How long automatic snapshots are kept. Manual snapshots are never removed.
+ */
+export interface SnapshotRetention {
+    /** Keep every automatic snapshot from the last this many hours */
+    keepAllHours: number;
+    /** Beyond that, keep the newest snapshot of each day for this many days */
+    dailyDays: number;
+    /** Beyond that, keep the newest snapshot of each week for this many weeks */
+    weeklyWeeks: number;
+    /** Never keep more automatic snapshots than this */
+    maxSnapshots: number;
+}
+
+/**
+ * Automatic snapshot settings
+ */
+export interface SnapshotSettings {
+    enabled: boolean;
+    triggers: Record<SnapshotTrigger, boolean>;
+    /** Minutes of continuous editing after which a snapshot is saved */
+    editingMinutes: number;
+    retention: SnapshotRetention;
+}
@@ -0,0 +1,167 @@
+/**
+ * Test file for atsValidator utility
+ * Tests the rule registry, per-rule settings, the length and page-break
+ * checks driven by the pagination report, and ATS auto-fixes
+ */
+
+import { applyATSFixes, getATSFix, validateATS } from "../atsValidator";
+import { validateResume } from "../templateValidator";
+import { normalizeDate, registerATSRule, unregisterATSRule } from "../atsRules";
+import { createDefaultResume } from "../../constants/defaultResume";
+import type { PaginationReport } from "../../types/resume.types";
+
+describe("atsValidator", () => {
+  const resume = createDefaultResume();
+  const experience = resume.sections.find((section) => section.type === "experience")!;
+
+  const report = (overrides: Partial<PaginationReport>): PaginationReport => ({
+    pageCount: 1,
+    lastPageFill: 0.9,
+    orphanedHeaders: [],
+    splitItems: [],
+    ...overrides,
+  });
+
+  it("should use the measured page count instead of the estimate", () => {
+    const { issues } = validateATS(resume, report({ pageCount: 3 }));
+    expect(issues.find((issue) => issue.id === "too-long")?.message).toBe("Resume is 3 pages long");
+  });
+
+  it("should report orphaned headers and split items with section ids", () => {
+    const { issues } = validateATS(
+      resume,
+      report({
+        pageCount: 2,
+        lastPageFill: 0.5,
+        orphanedHeaders: [{ sectionId: experience.id, page: 1 }],
+        splitItems: [{ sectionId: experience.id, itemIndex: 1, page: 2 }],
+      })
+    );
+
+    expect(issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ id: `orphaned-header-${experience.id}`, sectionId: experience.id }),
+        expect.objectContaining({ id: `split-item-${experience.id}-1`, sectionId: experience.id }),
+      ])
+    );
+  });
+
+  it("should tag issues with the rule that reported them", () => {
+    const { issues } = validateATS({ ...resume, personalInfo: { ...resume.personalInfo, phone: "" } });
+    expect(issues.find((issue) => issue.id === "missing-phone")).toMatchObject({
+      type: "warning",
+      ruleId: "contact-phone",
+      category: "contact",
+    });
+  });
+
+  it("should skip disabled rules and apply overridden thresholds", () => {
+    const noPhone = { ...resume, personalInfo: { ...resume.personalInfo, phone: "" } };
+    const withRule = validateATS(noPhone);
+    const withoutRule = validateATS(noPhone, null, { rules: { "contact-phone": { enabled: false } } });
+
+    expect(withoutRule.issues.some((issue) => issue.ruleId === "contact-phone")).toBe(false);
+    expect(withoutRule.score).toBe(Math.min(100, withRule.score + 5));
+
+    const { issues } = validateATS(resume, report({ pageCount: 3 }), {
+      rules: { "page-length": { thresholds: { maxPages: 3 } } },
+    });
+    expect(issues.some((issue) => issue.id === "too-long")).toBe(false);
+  });
+
+  it("should run registered rules", () => {
+    registerATSRule({
+      id: "test-rule",
+      name: "Test rule",
+      category: "content",
+      severity: "error",
+      weight: 10,
+      check: () => [{ id: "test-issue", message: "Always fails" }],
+    });
+
+    try {
+      const { issues } = validateATS(resume);
+      expect(issues.find((issue) => issue.id === "test-issue")).toMatchObject({ type: "error", ruleId: "test-rule" });
+    } finally {
+      unregisterATSRule("test-rule");
+    }
+  });
+
+  it("should give the template validator the same score", () => {
+    expect(validateResume(resume).score).toBe(validateATS(resume).score);
+  });
+
+  describe("auto-fixes", () => {
+    const withContent = (content: Record<string, unknown>) => ({
+      ...resume,
+      sections: resume.sections.map((section) =>
+        section.id === experience.id ? { ...section, title: "Where I Worked", content: content as any } : section
+      ),
+    });
+
+    const broken = withContent({
+      experiences: [
+        {
+          id: "exp-1",
+          jobTitle: "Engineer",
+          company: "Acme",
+          location: "",
+          startDate: "Jan. 2020",
+          endDate: "Currently",
+          current: false,
+          description: "",
+          achievements: ["• Shipped the API ★ on time"],
+        },
+      ],
+    });
+
+    it("should normalise free-form dates", () => {
+      expect(normalizeDate("January, 2020")).toBe("2020-01");
+      expect(normalizeDate("3-2021")).toBe("2021-03");
+      expect(normalizeDate("2019.11")).toBe("2019-11");
+      expect(normalizeDate("someday")).toBe(null);
+    });
+
+    it("should preview a fix without changing the resume", () => {
+      const issue = validateATS(broken).issues.find((i) => i.id === "invalid-exp-start-date-exp-1")!;
+      const fix = getATSFix(broken, issue);
+
+      expect(fix!.changes).toEqual([{ label: "Where I Worked · Start date", before: "Jan. 2020", after: "2020-01" }]);
+      expect((broken.sections.find((s) => s.id === experience.id)!.content as any).experiences[0].startDate).toBe(
+        "Jan. 2020"
+      );
+    });
+
+    it("should fix dates, bullets and headers in one pass", () => {
+      const fixable = validateATS(broken).issues.filter((issue) => getATSFix(broken, issue));
+      const fixableIds = fixable.map((issue) => issue.id);
+      const { resume: fixed } = applyATSFixes(broken, fixable);
+      const section = fixed.sections.find((s) => s.id === experience.id)!;
+
+      expect(section.title).toBe("Work Experience");
+      expect((section.content as any).experiences[0]).toMatchObject({
+        startDate: "2020-01",
+        endDate: "",
+        current: true,
+        achievements: ["Shipped the API - on time"],
+      });
+      expect(validateATS(fixed).issues.filter((issue) => fixableIds.includes(issue.id))).toEqual([]);
+    });
+
+    it("should only fix the issues it is given", () => {
+      // The user switched the header rule off, so its issue isn't shown
+      const settings = { rules: { "standard-headers": { enabled: false } } };
+      const shown = validateATS(broken, null, settings).issues.filter((issue) => getATSFix(broken, issue));
+      const { resume: fixed } = applyATSFixes(broken, shown);
+
+      expect(shown.length).toBeGreaterThan(0);
+      expect(fixed.sections.find((s) => s.id === experience.id)!.title).toBe("Where I Worked");
+    });
+
+    it("should switch to an ATS-safe font from the stack", () => {
+      const styled = { ...resume, layout: { ...resume.layout, fontFamily: "Roboto, Georgia, serif" } };
+      const issue = validateATS(styled).issues.find((i) => i.id === "unsafe-font")!;
+      expect(getATSFix(styled, issue)!.resume.layout.fontFamily).toBe("Georgia, serif");
+    });
+  });
+});
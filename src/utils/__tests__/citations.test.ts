@@ -0,0 +1,82 @@
+/**
+ * Test file for citations and bibtexParser utilities
+ * Tests APA and IEEE references and reading publications from BibTeX
+ */
+
+import type { Publication } from "../../types/resume.types";
+import { citationToText, formatCitation } from "../citations";
+import { parseBibtex } from "../bibtexParser";
+
+const article: Publication = {
+  id: "p1",
+  type: "article",
+  title: "Notes on the analytical engine",
+  authors: ["Ada Lovelace", "Babbage, Charles"],
+  venue: "Scientific Memoirs",
+  date: "1843-09",
+  volume: "3",
+  issue: "2",
+  pages: "666-731",
+  doi: "10.1000/xyz123",
+};
+
+describe("citations", () => {
+  it("should format APA references", () => {
+    expect(citationToText(formatCitation(article, "apa"))).toBe(
+      "Lovelace, A., & Babbage, C. (1843). Notes on the analytical engine. Scientific Memoirs, 3(2), 666–731. https://doi.org/10.1000/xyz123"
+    );
+  });
+
+  it("should italicise the journal and volume in APA", () => {
+    const italic = formatCitation(article, "apa").filter((part) => part.italic).map((part) => part.text);
+
+    expect(italic).toEqual(["Scientific Memoirs", "3"]);
+  });
+
+  it("should format numbered IEEE references", () => {
+    expect(citationToText(formatCitation(article, "ieee", 1))).toBe(
+      "[1] A. Lovelace and C. Babbage, \"Notes on the analytical engine,\" Scientific Memoirs, vol. 3, no. 2, pp. 666–731, Sep. 1843, doi: 10.1000/xyz123."
+    );
+  });
+
+  it("should italicise book titles", () => {
+    const book: Publication = { id: "b1", type: "book", title: "Deep Learning", authors: ["Ian Goodfellow"], date: "2016", publisher: "MIT Press" };
+
+    expect(citationToText(formatCitation(book, "apa"))).toBe("Goodfellow, I. (2016). Deep Learning. MIT Press.");
+    expect(citationToText(formatCitation(book, "ieee"))).toBe("I. Goodfellow, Deep Learning. MIT Press, 2016.");
+    expect(formatCitation(book, "ieee")[1]).toEqual({ text: "Deep Learning", italic: true });
+  });
+});
+
+describe("parseBibtex", () => {
+  it("should read entries, macros and LaTeX accents", () => {
+    const { publications, skipped } = parseBibtex(`
+      @string{jmlr = "Journal of Machine Learning Research"}
+      @article{mueller2020,
+        author = {M{\\"u}ller, J{\\"o}rg and {Acme Research Group} and others},
+        title = {{Learning} to \\emph{Rank} -- Revisited},
+        journal = jmlr,
+        year = 2020, month = mar,
+        pages = {1--24},
+        doi = {https://doi.org/10.5555/abc_1},
+      }
+      @inproceedings{talk, title = "Untitled", booktitle = {Proc. ICML}, year = {2019}}
+      @misc{nokey, author = {Someone}}
+    `);
+
+    expect(skipped).toEqual(["nokey"]);
+    expect(publications).toHaveLength(2);
+    expect(publications[0]).toEqual({
+      id: publications[0].id,
+      type: "article",
+      title: "Learning to Rank – Revisited",
+      authors: ["Müller, Jörg", "Acme Research Group"],
+      venue: "Journal of Machine Learning Research",
+      date: "2020-03",
+      pages: "1–24",
+      doi: "10.5555/abc_1",
+    });
+    expect(publications[1].type).toBe("conference");
+    expect(publications[1].venue).toBe("Proc. ICML");
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Test file for columnLayout utility
+ * Tests column resolution and moving sections between columns
+ */
+
+import { getSectionColumn, moveSectionToColumn, resolveColumnLayout, splitSectionsByColumn } from "../columnLayout";
+import { BUILT_IN_TEMPLATE_DEFINITIONS } from "../../constants/templateDefinitions";
+import { createDefaultResume } from "../../constants/defaultResume";
+import type { TemplateDefinition } from "../../types/template.types";
+
+const sidebarTemplate: TemplateDefinition = {
+  ...BUILT_IN_TEMPLATE_DEFINITIONS.modern,
+  styles: {
+    ...BUILT_IN_TEMPLATE_DEFINITIONS.modern.styles,
+    layout: { ...BUILT_IN_TEMPLATE_DEFINITIONS.modern.styles.layout, columns: 2 },
+  },
+  columns: { sidebar: ["skills", "certifications"], sidebarWidth: 30, sidebarPosition: "right" },
+};
+
+describe("columnLayout", () => {
+  describe("resolveColumnLayout", () => {
+    it("should use the template's columns when the user hasn't set any", () => {
+      const { layout } = createDefaultResume();
+
+      expect(resolveColumnLayout(layout, sidebarTemplate)).toEqual({
+        count: 2,
+        sidebarWidth: 30,
+        sidebarPosition: "right",
+      });
+    });
+
+    it("should apply the user's settings and clamp the sidebar width", () => {
+      const layout = {
+        ...createDefaultResume().layout,
+        columns: { count: 2 as const, sidebarWidth: 80, sidebarPosition: "left" as const },
+      };
+
+      expect(resolveColumnLayout(layout, BUILT_IN_TEMPLATE_DEFINITIONS.classic)).toEqual({
+        count: 2,
+        sidebarWidth: 45,
+        sidebarPosition: "left",
+      });
+    });
+  });
+
+  describe("section placement", () => {
+    it("should prefer a section's own column over the template's", () => {
+      const { sections } = createDefaultResume();
+      const skills = sections.find((section) => section.type === "skills")!;
+
+      expect(getSectionColumn(skills, sidebarTemplate)).toBe("sidebar");
+      expect(getSectionColumn({ ...skills, column: "main" }, sidebarTemplate)).toBe("main");
+    });
+
+    it("should put every section in main for one-column layouts", () => {
+      const { sections } = createDefaultResume();
+
+      const split = splitSectionsByColumn(sections, sidebarTemplate, { count: 1, sidebarWidth: 30, sidebarPosition: "left" });
+
+      expect(split.main).toHaveLength(sections.length);
+      expect(split.sidebar).toHaveLength(0);
+    });
+
+    it("should move a section to the end of the target column", () => {
+      const { sections } = createDefaultResume();
+      const ordered = [...sections].sort((a, b) => a.order - b.order);
+      const summary = ordered.find((section) => section.type === "summary")!;
+      const lastSidebar = [...ordered].reverse().find((section) => getSectionColumn(section, sidebarTemplate) === "sidebar")!;
+
+      const ids = moveSectionToColumn(sections, sidebarTemplate, summary.id, "sidebar", null);
+
+      expect(ids).toHaveLength(sections.length);
+      expect(ids.indexOf(summary.id)).toBe(ids.indexOf(lastSidebar.id) + 1);
+    });
+  });
+});
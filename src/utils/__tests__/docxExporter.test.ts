@@ -0,0 +1,96 @@
+/**
+ * Test file for docxExporter utility
+ * Unzips generated DOCX packages and checks the package parts, the document
+ * body and escaping of user text
+ */
+
+import { createDefaultResume } from "../../constants/defaultResume";
+import type { Resume } from "../../types/resume.types";
+import { generateResumeDOCX } from "../docxExporter";
+import { readZip } from "../zip";
+
+const buildResume = (): Resume => {
+  const resume = createDefaultResume();
+  return {
+    ...resume,
+    personalInfo: { ...resume.personalInfo, fullName: "Jane \"JD\" <Doe> & Co" },
+    sections: [
+      {
+        id: "experience",
+        type: "experience",
+        title: "Experience",
+        enabled: true,
+        order: 1,
+        content: {
+          experiences: [
+            {
+              id: "e1",
+              jobTitle: "Engineer",
+              company: "Acme <R&D>",
+              location: "Remote",
+              startDate: "2020-01",
+              current: true,
+              description: "",
+              achievements: ["Cut p99 latency < 50ms"],
+            },
+          ],
+        },
+      },
+      {
+        id: "summary",
+        type: "summary",
+        title: "Summary",
+        enabled: false,
+        order: 0,
+        content: { summary: "Hidden summary" },
+      },
+    ],
+    layout: { ...resume.layout, pageMargins: { top: 1, right: 0.5, bottom: 1, left: 0.5 } },
+  };
+};
+
+const unzipDocx = async (resume: Resume) => {
+  const files = await readZip(generateResumeDOCX(resume));
+  const text = (name: string) => new TextDecoder().decode(files.get(name)!);
+  return { files, text };
+};
+
+describe("docxExporter", () => {
+  it("should declare a content type for every part in the package", async () => {
+    const { files, text } = await unzipDocx(buildResume());
+    const contentTypes = text("[Content_Types].xml");
+
+    expect(files.has("_rels/.rels")).toBe(true);
+    expect(contentTypes).toContain('<Default Extension="rels"');
+    expect(contentTypes).toContain('<Default Extension="xml"');
+    expect(contentTypes).toContain(
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+    );
+
+    const overrides = [...contentTypes.matchAll(/PartName="\/([^"]+)"/g)].map((match) => match[1]);
+    overrides.forEach((part) => expect(files.has(part)).toBe(true));
+    expect(text("_rels/.rels")).toContain('Target="word/document.xml"');
+  });
+
+  it("should write enabled sections and layout margins into document.xml", async () => {
+    const { text } = await unzipDocx(buildResume());
+    const document = text("word/document.xml");
+
+    expect(document.startsWith('<?xml version="1.0" encoding="UTF-8" standalone="yes"?>')).toBe(true);
+    expect(document).toContain("Engineer");
+    expect(document).not.toContain("Hidden summary");
+    expect(document).toContain('<w:pgMar w:top="1440" w:right="720" w:bottom="1440" w:left="720"');
+  });
+
+  it("should escape user text", async () => {
+    const { text } = await unzipDocx(buildResume());
+    const document = text("word/document.xml");
+
+    expect(document).toContain("Jane &quot;JD&quot; &lt;Doe&gt; &amp; Co");
+    expect(document).toContain("Acme &lt;R&amp;D&gt;");
+    expect(document).toContain("Cut p99 latency &lt; 50ms");
+    expect(document).not.toContain("<Doe>");
+    expect(document).not.toContain("<R&D>");
+    expect(text("docProps/core.xml")).toContain("&lt;Doe&gt;");
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Test file for editHistory utility
+ * Tests branching undo/redo, jumping between entries, patches and
+ * checkpoints, labels from reducer actions and the entry limit
+ */
+
+import {
+  actionLabel,
+  canRedo,
+  canUndo,
+  CHECKPOINT_INTERVAL,
+  commit,
+  createHistory,
+  currentState,
+  describeActions,
+  hasChanges,
+  jumpTo,
+  listEntries,
+  redo,
+  undo,
+} from "../editHistory";
+import type { Resume } from "../../types/resume.types";
+
+const resume = (title: string) => ({ id: "resume-1", title }) as unknown as Resume;
+const title = (state: Resume) => (state as unknown as { title: string }).title;
+
+const largeResume = () =>
+  ({
+    id: "resume-1",
+    title: "a",
+    experience: Array.from({ length: 500 }, (_, i) => ({
+      id: `exp-${i}`,
+      company: `Company ${i}`,
+      achievements: Array.from({ length: 10 }, (_, j) => `Achievement ${j}`),
+    })),
+  }) as unknown as Resume;
+
+// Count the property reads made on a state and everything inside it
+const trackReads = <T extends object>(state: T) => {
+  let reads = 0;
+  const proxies = new WeakMap<object, unknown>();
+  const wrap = (value: unknown): unknown => {
+    if (typeof value !== "object" || value === null) return value;
+    if (!proxies.has(value)) {
+      proxies.set(value, new Proxy(value, {
+        get: (target, key) => {
+          reads++;
+          return wrap(Reflect.get(target, key));
+        },
+      }));
+    }
+    return proxies.get(value);
+  };
+  return { state: wrap(state) as T, reads: () => reads, reset: () => { reads = 0; } };
+};
+
+const editCompany = (state: Resume, index: number) => {
+  const { experience } = state as unknown as { experience: Array<{ company: string }> };
+  return {
+    ...state,
+    experience: experience.map((item, i) => (i === index ? { ...item, company: "Edited" } : item)),
+  } as unknown as Resume;
+};
+
+describe("editHistory", () => {
+  it("should undo and redo along the history", () => {
+    let tree = createHistory(resume("a"));
+    tree = commit(tree, resume("b"), ["UPDATE_SUMMARY"]);
+    tree = commit(tree, resume("c"), ["ADD_EXPERIENCE"]);
+
+    tree = undo(undo(tree));
+    expect(title(currentState(tree))).toBe("a");
+    expect(canUndo(tree)).toBe(false);
+
+    tree = redo(tree);
+    expect(title(currentState(tree))).toBe("b");
+    expect(canRedo(tree)).toBe(true);
+  });
+
+  it("should keep undone changes as a branch and redo into the latest one", () => {
+    let tree = createHistory(resume("a"));
+    tree = commit(tree, resume("b"), ["UPDATE_SUMMARY"]);
+    const undone = tree.currentId;
+    tree = commit(undo(tree), resume("c"), ["UPDATE_SUMMARY"]);
+
+    expect(tree.nodes[undone]).toBeDefined();
+    expect(title(currentState(redo(undo(tree))))).toBe("c");
+
+    // Jumping into the old branch makes redo follow it from then on
+    tree = jumpTo(tree, undone);
+    expect(title(currentState(tree))).toBe("b");
+    expect(title(currentState(redo(undo(tree))))).toBe("b");
+  });
+
+  it("should list branches indented after the entry they started from", () => {
+    let tree = createHistory(resume("a"));
+    tree = commit(tree, resume("b"), ["UPDATE_SUMMARY"]);
+    tree = commit(undo(tree), resume("c"), ["ADD_SKILL"]);
+
+    expect(listEntries(tree).map((entry) => [entry.label, entry.depth, entry.isActive])).toEqual([
+      ["Opened resume", 0, true],
+      ["Edited summary", 1, false],
+      ["Added skill", 0, true],
+    ]);
+  });
+
+  it("should drop the oldest entries beyond the limit but keep the current one", () => {
+    let tree = createHistory(resume("0"));
+    for (let i = 1; i <= 5; i++) {
+      tree = commit(tree, resume(String(i)), ["UPDATE_SUMMARY"], 3);
+    }
+
+    expect(Object.keys(tree.nodes)).toHaveLength(3);
+    expect(title(currentState(tree))).toBe("5");
+    expect(title(tree.nodes[tree.rootId].checkpoint!)).toBe("3");
+  });
+
+  it("should store changes as patches and checkpoint at intervals", () => {
+    let tree = createHistory(resume("0"));
+    const ids = [tree.rootId];
+    for (let i = 1; i <= CHECKPOINT_INTERVAL * 2 + 5; i++) {
+      tree = commit(tree, resume(String(i)), ["UPDATE_SUMMARY"]);
+      ids.push(tree.currentId);
+    }
+
+    const latest = tree.nodes[tree.currentId];
+    expect(latest.patch).toEqual([{ path: ["title"], value: String(CHECKPOINT_INTERVAL * 2 + 5) }]);
+    expect(latest.checkpoint).toBeUndefined();
+    expect(Object.values(tree.nodes).filter((node) => node.checkpoint)).toHaveLength(3);
+
+    // Far jumps start from a checkpoint; nearby ones replay from the present
+    expect(title(currentState(jumpTo(tree, ids[7])))).toBe("7");
+    expect(title(currentState(jumpTo(tree, ids[CHECKPOINT_INTERVAL + 3])))).toBe(String(CHECKPOINT_INTERVAL + 3));
+    expect(title(currentState(undo(undo(tree))))).toBe(String(CHECKPOINT_INTERVAL * 2 + 3));
+  });
+
+  it("should only read the path to an edit in states that share the rest", () => {
+    const tracked = trackReads(largeResume());
+    const tree = createHistory(tracked.state);
+    const edited = editCompany(tracked.state, 7);
+    tracked.reset();
+
+    const next = commit(tree, edited, ["UPDATE_EXPERIENCE"]);
+
+    expect(next.nodes[next.currentId].patch).toEqual([{ path: ["experience", 7, "company"], value: "Edited" }]);
+    // The edited list's items are compared, but none of the unchanged ones is entered
+    expect(tracked.reads()).toBeLessThan(500 + 20);
+  });
+
+  it("should read a state that shares nothing only once", () => {
+    const tracked = trackReads(largeResume());
+    const tree = createHistory(tracked.state);
+    // As after restoring the history from IndexedDB: equal, but no shared objects
+    const reloaded = editCompany(JSON.parse(JSON.stringify(largeResume())), 7);
+    tracked.reset();
+
+    const next = commit(tree, reloaded, ["LOAD_RESUME"]);
+
+    expect(next.nodes[next.currentId].patch).toEqual([{ path: ["experience", 7, "company"], value: "Edited" }]);
+    // Every value is read once, plus a few reads of list methods and lengths
+    const values = 3 + 500 * (3 + 10);
+    expect(tracked.reads()).toBeLessThan(values + 4 * 501 + 20);
+  });
+
+  it("should store only the added item when a list grows", () => {
+    let state = { ...resume("a"), skills: [] as Array<{ id: string; name: string }> } as unknown as Resume;
+    let tree = createHistory(state);
+    for (let i = 0; i < 200; i++) {
+      const { skills } = state as unknown as { skills: Array<{ id: string; name: string }> };
+      state = { ...state, skills: [...skills, { id: `skill-${i}`, name: `Skill ${i}` }] } as unknown as Resume;
+      tree = commit(tree, state, ["ADD_SKILL"]);
+    }
+
+    // Entries stay the same size however long the list gets
+    const latest = tree.nodes[tree.currentId];
+    expect(latest.patch).toEqual([
+      { path: ["skills"], splice: { index: 199, remove: 0, insert: [{ id: "skill-199", name: "Skill 199" }] } },
+    ]);
+    expect(latest.inverse).toEqual([{ path: ["skills"], splice: { index: 199, remove: 1, insert: [] } }]);
+    expect(title(currentState(jumpTo(tree, tree.rootId)))).toBe("a");
+    expect((currentState(undo(tree)) as unknown as { skills: unknown[] }).skills).toHaveLength(199);
+  });
+
+  it("should ignore changes to updatedAt alone", () => {
+    const tree = createHistory({ ...resume("a"), updatedAt: "2024-01-01" } as Resume);
+
+    expect(hasChanges(tree, { ...resume("a"), updatedAt: "2024-02-01" } as Resume)).toBe(false);
+    expect(hasChanges(tree, { ...resume("b"), updatedAt: "2024-01-01" } as Resume)).toBe(true);
+  });
+});
+
+describe("history labels", () => {
+  it("should describe reducer actions", () => {
+    expect(actionLabel("UPDATE_EXPERIENCE")).toBe("Edited experience");
+    expect(actionLabel("FIX_ATS_ISSUES")).toBe("Applied ATS fixes");
+    expect(describeActions(["UPDATE_SUMMARY", "UPDATE_SUMMARY", "SET_ACTIVE_SECTION"])).toBe("Edited summary");
+    expect(describeActions(["ADD_SKILL", "UPDATE_SKILL", "DELETE_SKILL"])).toBe("Added skill, Edited skill and 1 more");
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Test file for fitToPages utility
+ * Tests compaction limits, change descriptions, the fit search and
+ * applying a fit to a layout changed meanwhile
+ */
+
+import { DEFAULT_LAYOUT_SETTINGS } from "../../constants/atsGuidelines";
+import type { LayoutSettings } from "../../types/resume.types";
+import { FIT_LIMITS, describeLayoutChanges, fitLayoutToPages, getCompactionSteps, getFitUpdate } from "../fitToPages";
+
+const layout: LayoutSettings = {
+  ...DEFAULT_LAYOUT_SETTINGS,
+  pageMargins: { ...DEFAULT_LAYOUT_SETTINGS.pageMargins },
+  fontSize: { ...DEFAULT_LAYOUT_SETTINGS.fontSize },
+  colors: { ...DEFAULT_LAYOUT_SETTINGS.colors },
+};
+
+// Fake measurement: the resume gets shorter as the layout gets tighter
+const pagesFor = (budget: number) => async (candidate: LayoutSettings) =>
+  candidate.sectionSpacing + candidate.pageMargins.top * 10 + candidate.fontSize.body > budget ? 2 : 1;
+
+describe("fitToPages", () => {
+  describe("getCompactionSteps", () => {
+    it("should stop at the legibility limits", () => {
+      const steps = getCompactionSteps(layout);
+      const tightest = steps[steps.length - 1];
+
+      expect(tightest.pageMargins.top).toBe(FIT_LIMITS.minMargin);
+      expect(tightest.sectionSpacing).toBe(FIT_LIMITS.minSectionSpacing);
+      expect(tightest.lineHeight).toBe(FIT_LIMITS.minLineHeight);
+      expect(tightest.fontSize.body).toBe(FIT_LIMITS.minFontSize.body);
+    });
+
+    it("should shrink whitespace before font sizes", () => {
+      const steps = getCompactionSteps(layout);
+      const firstFontStep = steps.findIndex((step) => step.fontSize.body !== layout.fontSize.body);
+
+      expect(steps[firstFontStep - 1].lineHeight).toBe(FIT_LIMITS.minLineHeight);
+    });
+
+    it("should not raise values already below the limits", () => {
+      const tight = { ...layout, sectionSpacing: 4, fontSize: { ...layout.fontSize, body: 9 } };
+      const steps = getCompactionSteps(tight);
+
+      expect(steps[steps.length - 1].sectionSpacing).toBe(4);
+      expect(steps[steps.length - 1].fontSize.body).toBe(9);
+    });
+  });
+
+  it("should describe what changed", () => {
+    const after = { ...layout, sectionSpacing: 12, pageMargins: { ...layout.pageMargins, top: 0.8 } };
+
+    expect(describeLayoutChanges(layout, after)).toEqual([
+      { label: "Section spacing", from: "16px", to: "12px" },
+      { label: "Top margin", from: "1.00\"", to: "0.80\"" },
+    ]);
+  });
+
+  describe("fitLayoutToPages", () => {
+    it("should leave a layout that already fits", async () => {
+      const result = await fitLayoutToPages(layout, 1, pagesFor(100));
+
+      expect(result.status).toBe("fits");
+    });
+
+    it("should pick the least compact layout that fits", async () => {
+      const result = await fitLayoutToPages(layout, 1, pagesFor(30));
+      if (result.status !== "compacted") throw new Error(result.status);
+
+      const steps = getCompactionSteps(layout);
+      const index = steps.findIndex((step) => JSON.stringify(step) === JSON.stringify(result.layout));
+      expect(await pagesFor(30)(result.layout)).toBe(1);
+      expect(await pagesFor(30)(steps[index - 1])).toBe(2);
+      expect(result.changes.length > 0).toBe(true);
+    });
+
+    it("should refuse when the limits would be crossed", async () => {
+      const result = await fitLayoutToPages(layout, 1, pagesFor(10));
+
+      expect(result.status).toBe("refused");
+    });
+  });
+
+  describe("getFitUpdate", () => {
+    it("should keep settings changed while the fit was measured", () => {
+      const fitted = {
+        ...layout,
+        sectionSpacing: layout.sectionSpacing - 4,
+        pageMargins: { ...layout.pageMargins, top: layout.pageMargins.top - 0.1 },
+      };
+      // The user widened the left margin and changed the colors meanwhile
+      const current = {
+        ...layout,
+        pageMargins: { ...layout.pageMargins, left: 1.5 },
+        colors: { ...layout.colors, primary: "#000000" },
+      };
+
+      const update = getFitUpdate(current, layout, fitted);
+
+      expect(update).toEqual({
+        sectionSpacing: fitted.sectionSpacing,
+        pageMargins: { ...current.pageMargins, top: fitted.pageMargins.top },
+      });
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Test file for jobTailoring utility
+ * Tests keyword placement suggestions and applying accepted suggestions
+ */
+
+import { analyzeTailoring, applyTailoringSuggestions } from "../jobTailoring";
+import { createEmptyResume } from "../../constants/defaultResume";
+import type { Resume } from "../../types/resume.types";
+
+const buildResume = (): Resume => {
+  const resume = createEmptyResume();
+  return {
+    ...resume,
+    sections: [
+      { id: "summary", type: "summary", title: "Summary", enabled: true, order: 0, content: { summary: "Backend engineer." } },
+      {
+        id: "experience",
+        type: "experience",
+        title: "Experience",
+        enabled: true,
+        order: 1,
+        content: {
+          experiences: [
+            {
+              id: "exp-1",
+              jobTitle: "Software Engineer",
+              company: "Acme",
+              location: "",
+              startDate: "2020-01",
+              current: true,
+              description: "",
+              achievements: ["Built data pipelines for reporting", "Mentored two interns"],
+            },
+          ],
+        },
+      },
+      {
+        id: "skills",
+        type: "skills",
+        title: "Skills",
+        enabled: true,
+        order: 2,
+        content: { skills: [{ id: "s1", name: "Python", category: "languages", level: "advanced" }] },
+      },
+    ],
+  };
+};
+
+const JOB_DESCRIPTION = "You will build data pipelines with Terraform. Terraform experience required.";
+
+describe("jobTailoring", () => {
+  describe("analyzeTailoring", () => {
+    const analysis = analyzeTailoring(buildResume(), JOB_DESCRIPTION);
+    const terraform = analysis.missing.find((missing) => missing.keyword === "Terraform");
+
+    it("should report missing keywords with the job description casing and context", () => {
+      expect(terraform).toBeDefined();
+      expect(terraform!.importance).toBe("high");
+      expect(terraform!.context).toBe("You will build data pipelines with Terraform.");
+    });
+
+    it("should suggest a skill, the related bullet and the summary", () => {
+      expect(terraform!.placements.map((placement) => placement.kind).sort()).toEqual(["bullet", "skill", "summary"]);
+
+      const bullet = terraform!.placements.find((placement) => placement.kind === "bullet");
+      expect(bullet).toMatchObject({
+        itemId: "exp-1",
+        itemLabel: "Software Engineer · Acme",
+        bulletIndex: 0,
+        proposed: "Built data pipelines for reporting using Terraform.",
+      });
+
+      const skill = terraform!.placements.find((placement) => placement.kind === "skill");
+      expect(skill!.itemLabel).toBe("tools");
+    });
+  });
+
+  describe("applyTailoringSuggestions", () => {
+    it("should apply accepted placements without touching the source resume", () => {
+      const resume = buildResume();
+      const analysis = analyzeTailoring(resume, JOB_DESCRIPTION);
+      const placements = analysis.missing.flatMap((missing) => missing.placements);
+
+      const tailored = applyTailoringSuggestions(resume, placements);
+
+      expect((tailored.sections[0].content as any).summary).toBe("Backend engineer. Experienced with Terraform.");
+      expect((tailored.sections[1].content as any).experiences[0].achievements[0]).toBe(
+        "Built data pipelines for reporting using Terraform."
+      );
+      expect((tailored.sections[2].content as any).skills.map((skill: any) => skill.name)).toEqual([
+        "Python",
+        "Terraform",
+      ]);
+      expect((resume.sections[1].content as any).experiences[0].achievements[0]).toBe(
+        "Built data pipelines for reporting"
+      );
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Test file for jsonResumeConverter utility
+ * Tests round trips between JSON Resume and our Resume, disabled sections
+ * and reporting of fields that could not be mapped
+ */
+
+import { createDefaultResume } from "../../constants/defaultResume";
+import type { JsonResume } from "../../types/jsonResume.types";
+import type { Certification, Resume, WorkExperience } from "../../types/resume.types";
+import { jsonResumeToResume, resumeToJsonResume } from "../jsonResumeConverter";
+
+const buildJsonResume = (): JsonResume => ({
+  basics: {
+    name: "Jane Doe",
+    label: "Backend Engineer",
+    email: "jane@example.com",
+    phone: "+49 30 1234567",
+    url: "https://jane.dev",
+    summary: "Builds reliable APIs.",
+    location: { city: "Berlin" },
+    profiles: [
+      { network: "LinkedIn", url: "https://linkedin.com/in/jane" },
+      { network: "GitHub", url: "https://github.com/jane" },
+    ],
+  },
+  work: [
+    {
+      name: "Acme",
+      position: "Engineer",
+      location: "Remote",
+      startDate: "2020-01",
+      endDate: "2023-06",
+      summary: "Owned the billing service.",
+      highlights: ["Cut latency by 40%"],
+    },
+  ],
+  projects: [
+    {
+      name: "ledger",
+      description: "Double-entry ledger",
+      highlights: ["10k stars"],
+      keywords: ["Go", "Postgres"],
+      startDate: "2021-03",
+      endDate: "2022-01",
+      url: "https://github.com/jane/ledger",
+    },
+  ],
+  skills: [{ name: "Languages", level: "Expert", keywords: ["Go", "Python"] }],
+  education: [
+    {
+      institution: "TU Berlin",
+      studyType: "BSc Computer Science",
+      startDate: "2014-10",
+      endDate: "2018-09",
+      score: "1.3",
+      courses: ["Distributed Systems"],
+    },
+  ],
+  certificates: [{ name: "CKA", issuer: "CNCF", date: "2022-05", url: "https://cncf.io/cka" }],
+});
+
+const sectionOf = <T>(resume: Resume, type: string) =>
+  resume.sections.find((section) => section.type === type)!.content as T;
+
+describe("jsonResumeConverter", () => {
+  it("should round-trip a JSON Resume document without losing fields", () => {
+    const original = buildJsonResume();
+    const imported = jsonResumeToResume(original);
+    const exported = resumeToJsonResume(imported.data);
+
+    expect(imported.unmappedFields).toEqual([]);
+    expect(exported.unmappedFields).toEqual([]);
+    expect(exported.data.basics).toEqual(original.basics);
+    expect(exported.data.work).toEqual(original.work);
+    expect(exported.data.projects).toEqual(original.projects);
+    expect(exported.data.skills).toEqual(original.skills);
+    expect(exported.data.education).toEqual(original.education);
+    expect(exported.data.certificates).toEqual(original.certificates);
+  });
+
+  it("should round-trip our resume through JSON Resume", () => {
+    const resume = jsonResumeToResume(buildJsonResume()).data;
+    const again = jsonResumeToResume(resumeToJsonResume(resume).data).data;
+
+    expect(again.personalInfo).toEqual(resume.personalInfo);
+    expect(again.sections.map((section) => [section.type, section.order])).toEqual(
+      resume.sections.map((section) => [section.type, section.order])
+    );
+
+    const { experiences } = sectionOf<{ experiences: WorkExperience[] }>(again, "experience");
+    expect(experiences[0]).toMatchObject({
+      jobTitle: "Engineer",
+      company: "Acme",
+      startDate: "2020-01",
+      endDate: "2023-06",
+      current: false,
+      achievements: ["Cut latency by 40%"],
+    });
+  });
+
+  it("should leave out disabled sections", () => {
+    const resume = jsonResumeToResume(buildJsonResume()).data;
+    const sections = resume.sections.map((section) =>
+      section.type === "summary" || section.type === "certifications" ? { ...section, enabled: false } : section
+    );
+    const { data } = resumeToJsonResume({ ...resume, sections });
+
+    expect(data.basics!.summary).toBeUndefined();
+    expect(data.certificates).toBeUndefined();
+    expect(data.work).toHaveLength(1);
+  });
+
+  it("should report only the fields that were dropped", () => {
+    const resume = jsonResumeToResume(buildJsonResume()).data;
+    const certifications = sectionOf<{ certifications: Certification[] }>(resume, "certifications").certifications;
+    const sections = resume.sections.map((section) =>
+      section.type === "certifications"
+        ? { ...section, content: { certifications: [{ ...certifications[0], credentialId: "ABC-123" }] } }
+        : section
+    );
+
+    expect(resumeToJsonResume({ ...resume, sections }).unmappedFields).toEqual(["Certifications[0].credentialId"]);
+
+    const styled = createDefaultResume();
+    const { unmappedFields } = resumeToJsonResume({
+      ...styled,
+      template: "modern",
+      layout: { ...styled.layout, lineHeight: 1.2 },
+    });
+    expect(unmappedFields).toEqual(expect.arrayContaining(["layout", "template"]));
+  });
+});
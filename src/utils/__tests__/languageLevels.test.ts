@@ -0,0 +1,41 @@
+/**
+ * Test file for languageLevels utility
+ * Tests level formatting, free-text parsing and the backend round trip of languages
+ */
+
+import { createDefaultResume } from "../../constants/defaultResume";
+import type { ResumeResponse } from "../../types/api.types";
+import type { Language, LanguagesContent } from "../../types/resume.types";
+import { formatLanguage, formatLanguageLevel, parseLanguageLevel } from "../languageLevels";
+import { backendToFrontendResume, frontendToBackendContent } from "../resumeConverter";
+
+const german: Language = { id: "de", name: "German", proficiency: "professional", cefr: "C1" };
+
+describe("languageLevels", () => {
+  it("should show the CEFR level only when asked", () => {
+    expect(formatLanguageLevel(german)).toBe("Professional");
+    expect(formatLanguageLevel(german, true)).toBe("Professional, C1");
+    expect(formatLanguage({ ...german, cefr: undefined }, true)).toBe("German (Professional)");
+  });
+
+  it("should read free-text levels", () => {
+    expect(parseLanguageLevel("Native speaker")).toEqual({ proficiency: "native" });
+    expect(parseLanguageLevel("Fluent (C1)")).toEqual({ proficiency: "professional", cefr: "C1" });
+    expect(parseLanguageLevel("B1")).toEqual({ proficiency: "conversational", cefr: "B1" });
+    expect(parseLanguageLevel("Elementary")).toEqual({ proficiency: "basic" });
+  });
+
+  it("should round-trip languages through the backend format", () => {
+    const resume = createDefaultResume();
+    const section = resume.sections.find((s) => s.type === "languages")!;
+    section.content = { languages: [german], showCefr: true };
+
+    const content = frontendToBackendContent(resume);
+    expect(content.languages).toEqual([german]);
+
+    const restored = backendToFrontendResume({ id: "r1", title: "Resume", templateId: "modern", content } as ResumeResponse);
+    const languages = restored.sections.find((s) => s.type === "languages")!.content as LanguagesContent;
+    expect(languages.languages).toEqual([german]);
+    expect(languages.showCefr).toBe(true);
+  });
+});
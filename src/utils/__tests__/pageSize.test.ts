@@ -0,0 +1,38 @@
+/**
+ * Test file for pageSize utility
+ * Tests locale defaults, layout resolution and print rules
+ */
+
+import { getLocalePageSize, getPageHeightPx, getPageRule, resolvePageSize } from "../pageSize";
+
+describe("pageSize", () => {
+  describe("getLocalePageSize", () => {
+    it("should use Letter in the US and Canada", () => {
+      expect(getLocalePageSize("en-US")).toBe("letter");
+      expect(getLocalePageSize("fr-CA")).toBe("letter");
+      expect(getLocalePageSize("en")).toBe("letter");
+    });
+
+    it("should use A4 elsewhere", () => {
+      expect(getLocalePageSize("en-GB")).toBe("a4");
+      expect(getLocalePageSize("de-DE")).toBe("a4");
+      expect(getLocalePageSize("fr")).toBe("a4");
+    });
+  });
+
+  describe("resolvePageSize", () => {
+    it("should prefer the layout's page size", () => {
+      expect(resolvePageSize({ pageSize: "legal" })).toBe("legal");
+    });
+
+    it("should fall back to the locale default", () => {
+      expect(resolvePageSize({})).toBe(getLocalePageSize());
+    });
+  });
+
+  it("should size pages and print rules for the paper", () => {
+    expect(getPageHeightPx("a4")).toBe(1123);
+    expect(getPageHeightPx("letter")).toBe(1056);
+    expect(getPageRule("legal")).toBe("@page { size: legal portrait; margin: 0; }");
+  });
+});
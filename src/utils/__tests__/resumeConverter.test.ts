@@ -0,0 +1,78 @@
+/**
+ * Test file for resumeConverter utility
+ * Tests loading a saved resume into the editor: section metadata, empty and
+ * disabled sections, translations, and round trips through the saved content
+ */
+
+import { createDefaultResume } from "../../constants/defaultResume";
+import type { ResumeResponse } from "../../types/api.types";
+import type { Resume } from "../../types/resume.types";
+import { backendToEditorResume, frontendResumeToBackendContent } from "../resumeConverter";
+
+// The resume as the server returns it after a save
+const saved = (resume: Resume): ResumeResponse =>
+  ({
+    id: resume.id,
+    title: "Resume",
+    templateId: resume.template,
+    content: { ...frontendResumeToBackendContent(resume), layout: resume.layout },
+    createdAt: resume.createdAt,
+    updatedAt: resume.updatedAt,
+  }) as ResumeResponse;
+
+describe("resumeConverter", () => {
+  describe("backendToEditorResume", () => {
+    it("should keep the column each section was placed in", () => {
+      const resume = createDefaultResume();
+      resume.sections = resume.sections.map((section) =>
+        section.type === "skills" ? { ...section, column: "sidebar" as const } : { ...section, column: "main" as const }
+      );
+
+      const loaded = backendToEditorResume(saved(resume), createDefaultResume());
+
+      expect(loaded.sections.find((section) => section.type === "skills")?.column).toBe("sidebar");
+      expect(loaded.sections.find((section) => section.type === "experience")?.column).toBe("main");
+      expect(frontendResumeToBackendContent(loaded).sectionOrder).toEqual(
+        frontendResumeToBackendContent(resume).sectionOrder
+      );
+    });
+
+    it("should bring back the saved locale and translations", () => {
+      const resume: Resume = {
+        ...createDefaultResume(),
+        locale: "en-US",
+        translations: {
+          "de-DE": { summary: { text: "Entwickler", source: "Developer" } },
+          "fr-FR": { summary: { text: "Développeur", source: "Developer" } },
+        },
+      };
+
+      const loaded = backendToEditorResume(saved(resume), createDefaultResume());
+
+      expect(loaded.locale).toBe("en-US");
+      expect(loaded.translations).toEqual(resume.translations);
+      expect(frontendResumeToBackendContent(loaded).translations).toEqual(resume.translations);
+    });
+
+    it("should keep empty and disabled sections", () => {
+      const resume = createDefaultResume();
+      resume.sections = resume.sections.map((section) =>
+        section.type === "projects"
+          ? { ...section, enabled: false }
+          : section.type === "languages"
+            ? { ...section, content: { languages: [], showCefr: true } }
+            : section
+      );
+
+      const loaded = backendToEditorResume(saved(resume), createDefaultResume());
+
+      expect(loaded.sections.map((section) => [section.type, section.enabled])).toEqual(
+        [...resume.sections].sort((a, b) => a.order - b.order).map((section) => [section.type, section.enabled])
+      );
+      expect(loaded.sections.find((section) => section.type === "languages")?.content).toEqual({
+        languages: [],
+        showCefr: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Test file for resumeDiff utility
+ * Tests comparing resume versions by entry id, word-level text changes and
+ * restoring single sections or entries from an older version
+ */
+
+import { alignLines, diffResumeContent, diffWords, restoreItem, restoreSection } from "../resumeDiff";
+import type { ResumeContent } from "../../types/api.types";
+
+const experience = (id: string, jobTitle: string, achievements: string[] = []) => ({
+  id,
+  jobTitle,
+  company: "Acme",
+  location: "",
+  startDate: "2020-01",
+  current: true,
+  description: "",
+  achievements,
+});
+
+const older: ResumeContent = {
+  summary: "Backend engineer.",
+  personalInfo: { fullName: "Sam Lee", title: "Engineer", email: "sam@example.com", phone: "", location: "Berlin" },
+  experience: [experience("exp-1", "Engineer", ["Cut costs by 20%"]), experience("exp-2", "Intern")],
+};
+
+describe("diffResumeContent", () => {
+  it("should match entries by id rather than position", () => {
+    const newer = {
+      ...older,
+      experience: [experience("exp-0", "Lead"), ...older.experience!],
+    };
+
+    const { sections, summary } = diffResumeContent(older, newer);
+
+    expect(sections).toHaveLength(1);
+    expect(sections[0].items!.map((item) => [item.id, item.type])).toEqual([["exp-0", "added"]]);
+    expect(sections[0].reordered).toBe(false);
+    expect(summary).toMatchObject({ totalChanges: 1, addedFields: 1, sectionsChanged: ["Experience"] });
+  });
+
+  it("should report changed fields, removed entries and reordering", () => {
+    const newer = {
+      ...older,
+      summary: "Backend engineer who ships.",
+      personalInfo: { ...older.personalInfo!, location: "Munich" },
+      experience: [experience("exp-1", "Senior Engineer", ["Cut costs by 20%"])],
+    };
+
+    const { sections, differences } = diffResumeContent(older, newer);
+    const experienceChange = sections.find((section) => section.key === "experience")!;
+
+    expect(sections.map((section) => section.key).sort()).toEqual(["experience", "personalInfo", "summary"]);
+    expect(experienceChange.items!.map((item) => [item.id, item.type])).toEqual([
+      ["exp-1", "modified"],
+      ["exp-2", "removed"],
+    ]);
+    expect(experienceChange.items![0].fields.map((field) => field.path)).toEqual(["experience[exp-1].jobTitle"]);
+    expect(differences.map((difference) => difference.description)).toContain(
+      'Changed location in Personal Info'
+    );
+  });
+
+  it("should notice reordered entries", () => {
+    const newer = { ...older, experience: [...older.experience!].reverse() };
+
+    const { sections, differences } = diffResumeContent(older, newer);
+
+    expect(sections[0]).toMatchObject({ key: "experience", reordered: true, items: [] });
+    expect(differences.map((difference) => difference.description)).toEqual(["Reordered Experience"]);
+  });
+});
+
+describe("diffWords", () => {
+  it("should mark the changed words only", () => {
+    expect(diffWords("Cut costs by 20%", "Cut cloud costs by 40%")).toEqual([
+      { text: "Cut ", type: "unchanged" },
+      { text: "cloud ", type: "added" },
+      { text: "costs by ", type: "unchanged" },
+      { text: "20%", type: "removed" },
+      { text: "40%", type: "added" },
+    ]);
+  });
+});
+
+describe("alignLines", () => {
+  it("should pair replaced lines and keep identical ones together", () => {
+    expect(alignLines(["A", "Old bullet", "C"], ["A", "New bullet", "C", "D"])).toEqual([
+      { oldText: "A", newText: "A" },
+      { oldText: "Old bullet", newText: "New bullet" },
+      { oldText: "C", newText: "C" },
+      { oldText: undefined, newText: "D" },
+    ]);
+  });
+});
+
+describe("restoring from an older version", () => {
+  const current = {
+    ...older,
+    summary: "Changed.",
+    experience: [experience("exp-2", "Intern"), experience("exp-3", "Lead")],
+  };
+
+  it("should restore a whole section", () => {
+    const restored = restoreSection(current, older, "summary");
+
+    expect(restored.summary).toBe("Backend engineer.");
+    expect(restored.experience).toBe(current.experience);
+  });
+
+  it("should reinsert a deleted entry where it used to be", () => {
+    const restored = restoreItem(current, older, "experience", "exp-1");
+
+    expect(restored.experience!.map((item) => item.id)).toEqual(["exp-1", "exp-2", "exp-3"]);
+  });
+
+  it("should remove an entry that the older version didn't have", () => {
+    const restored = restoreItem(current, older, "experience", "exp-3");
+
+    expect(restored.experience!.map((item) => item.id)).toEqual(["exp-2"]);
+  });
+});
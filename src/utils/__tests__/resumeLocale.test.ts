@@ -0,0 +1,109 @@
+/**
+ * Test file for resumeLocale utility
+ * Tests translatable fields, language variants and locale-aware template helpers
+ */
+
+import { createDefaultResume } from "../../constants/defaultResume";
+import type { Resume, WorkExperience } from "../../types/resume.types";
+import {
+  getLocalizedShareUrl,
+  getResumeLocales,
+  getTranslatableFields,
+  getTranslationStatus,
+  localizeResume,
+} from "../resumeLocale";
+import { templateHelpers } from "../templateHelpers";
+
+const buildResume = (): Resume => {
+  const resume = createDefaultResume();
+  return { ...resume, personalInfo: { ...resume.personalInfo, title: "Software Engineer" } };
+};
+
+const experienceOf = (resume: Resume) => {
+  const section = resume.sections.find((s) => s.type === "experience")!;
+  return { section, experience: (section.content as { experiences: WorkExperience[] }).experiences[0] };
+};
+
+describe("resumeLocale", () => {
+  it("should list the resume's own locale first", () => {
+    const resume = { ...buildResume(), locale: "en-IN", translations: { "de-DE": {} } };
+
+    expect(getResumeLocales(resume)).toEqual(["en-IN", "de-DE"]);
+    expect(getResumeLocales(buildResume())).toEqual(["en-US"]);
+  });
+
+  it("should key item fields by section and item id", () => {
+    const resume = buildResume();
+    const { section, experience } = experienceOf(resume);
+    const keys = getTranslatableFields(resume).map((field) => field.key);
+
+    expect(keys).toContain("personalInfo.title");
+    expect(keys).toContain(`sections.${section.id}.title`);
+    expect(keys).toContain(`sections.${section.id}.items.${experience.id}.jobTitle`);
+  });
+
+  describe("localizeResume", () => {
+    it("should apply translations and keep untranslated text", () => {
+      const resume = buildResume();
+      const { section, experience } = experienceOf(resume);
+      const key = `sections.${section.id}.items.${experience.id}.jobTitle`;
+      resume.translations = {
+        "de-DE": { [key]: { text: "Softwareentwickler", source: experience.jobTitle } },
+      };
+
+      const german = localizeResume(resume, "de-DE");
+      const localized = experienceOf(german);
+
+      expect(german.locale).toBe("de-DE");
+      expect(german.translations).toBe(undefined);
+      expect(localized.experience.jobTitle).toBe("Softwareentwickler");
+      expect(localized.experience.company).toBe(experience.company);
+      expect(german.personalInfo.title).toBe("Software Engineer");
+    });
+
+    it("should return the resume for its own or an unknown locale", () => {
+      const resume = buildResume();
+
+      expect(localizeResume(resume, null)).toBe(resume);
+      expect(localizeResume(resume, "en-US")).toBe(resume);
+      expect(localizeResume(resume, "fr-FR")).toBe(resume);
+    });
+  });
+
+  it("should flag translations whose original changed", () => {
+    const resume = buildResume();
+    resume.translations = {
+      "de-DE": { "personalInfo.title": { text: "Entwickler", source: "Developer" } },
+    };
+
+    const status = getTranslationStatus(resume, "de-DE");
+    expect(status.translated).toBe(1);
+    expect(status.outdated).toEqual(["personalInfo.title"]);
+  });
+
+  it("should add the language to share links", () => {
+    const resume = { locale: "en-US" };
+
+    expect(getLocalizedShareUrl("https://example.com/r/jane", resume, "de-DE")).toBe(
+      "https://example.com/r/jane?lang=de-DE"
+    );
+    expect(getLocalizedShareUrl("https://example.com/r/jane?lang=de-DE", resume, "en-US")).toBe(
+      "https://example.com/r/jane"
+    );
+  });
+
+  describe("templateHelpers.locale", () => {
+    it("should localise standard section titles only", () => {
+      expect(templateHelpers.locale.sectionTitle("experience", "Work Experience", "de-DE")).toBe("Berufserfahrung");
+      expect(templateHelpers.locale.sectionTitle("experience", "My Journey", "de-DE")).toBe("My Journey");
+      expect(templateHelpers.locale.sectionTitle("experience", "Work Experience", "en-GB")).toBe("Work Experience");
+    });
+
+    it("should format dates in the locale", () => {
+      expect(templateHelpers.date.formatDateRange("2020-03-15", "", true, "month-year", "de-DE")).toBe(
+        "März 2020 - heute"
+      );
+      expect(templateHelpers.date.formatDate("2020-03-15", "month-year")).toBe("March 2020");
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Test file for resumeMerge utility
+ * Tests three-way merging of offline edits with changes saved elsewhere
+ */
+
+import { mergeResumeContent } from "../resumeMerge";
+import type { ResumeContent } from "../../types/api.types";
+
+const experience = (id: string, jobTitle: string, company = "Acme") => ({
+  id,
+  jobTitle,
+  company,
+  location: "",
+  startDate: "2020-01",
+  current: true,
+  description: "",
+  achievements: [],
+});
+
+const base: ResumeContent = {
+  summary: "Backend engineer.",
+  personalInfo: { fullName: "Sam Lee", title: "Engineer", email: "sam@example.com", phone: "", location: "Berlin" },
+  experience: [experience("exp-1", "Engineer"), experience("exp-2", "Intern")],
+};
+
+describe("resumeMerge", () => {
+  it("should take changes made on only one side", () => {
+    const local = { ...base, summary: "Backend engineer who ships." };
+    const remote = {
+      ...base,
+      personalInfo: { ...base.personalInfo!, location: "Munich" },
+      experience: [...base.experience!, experience("exp-3", "Lead")],
+    };
+
+    const { merged, conflicts } = mergeResumeContent(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.summary).toBe("Backend engineer who ships.");
+    expect(merged.personalInfo!.location).toBe("Munich");
+    expect(merged.experience!.map((item) => item.id)).toEqual(["exp-1", "exp-2", "exp-3"]);
+  });
+
+  it("should merge different fields of the same entry", () => {
+    const local = { ...base, experience: [experience("exp-1", "Senior Engineer"), base.experience![1]] };
+    const remote = { ...base, experience: [experience("exp-1", "Engineer", "Acme Inc"), base.experience![1]] };
+
+    const { merged, conflicts } = mergeResumeContent(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.experience![0]).toMatchObject({ jobTitle: "Senior Engineer", company: "Acme Inc" });
+  });
+
+  it("should report fields changed on both sides and apply the chosen side", () => {
+    const local = { ...base, summary: "Mine." };
+    const remote = { ...base, summary: "Theirs.", experience: [base.experience![0]] };
+
+    const first = mergeResumeContent(base, local, remote);
+    expect(first.conflicts).toEqual([
+      { path: "summary", label: "Summary", base: "Backend engineer.", local: "Mine.", remote: "Theirs." },
+    ]);
+    expect(first.merged.summary).toBe("Mine.");
+    expect(first.merged.experience!.map((item) => item.id)).toEqual(["exp-1"]);
+
+    const resolved = mergeResumeContent(base, local, remote, { summary: "remote" });
+    expect(resolved.merged.summary).toBe("Theirs.");
+  });
+
+  it("should flag an entry deleted on one side and edited on the other", () => {
+    const local = { ...base, experience: [base.experience![0]] };
+    const remote = { ...base, experience: [base.experience![0], experience("exp-2", "Senior Intern")] };
+
+    const { merged, conflicts } = mergeResumeContent(base, local, remote);
+
+    expect(conflicts.map((conflict) => conflict.path)).toEqual(["experience[exp-2]"]);
+    expect(merged.experience!.map((item) => item.id)).toEqual(["exp-1"]);
+  });
+});
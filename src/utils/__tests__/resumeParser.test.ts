@@ -0,0 +1,148 @@
+/**
+ * Test file for resumeParser utility
+ * Tests heading detection, section mapping and building a Resume from the
+ * items kept in the import wizard
+ */
+
+import {
+  classifyHeading,
+  parseResumeLines,
+  getDefaultImportSelection,
+  parsedResumeToResume,
+} from "../resumeParser";
+import { createEmptyResume } from "../../constants/defaultResume";
+import type { SourceLine } from "../../types/resumeImport.types";
+
+const toLines = (text: string): SourceLine[] =>
+  text
+    .trim()
+    .split("\n")
+    .map((line) => line.trim())
+    .map((line) => ({
+      text: line,
+      isHeading: false,
+      isBullet: /^[•-]\s/.test(line),
+    }));
+
+const SAMPLE = `
+Jane Doe
+Backend Engineer
+jane@example.com | +1 555 123 4567 | Berlin, Germany
+PROFESSIONAL EXPERIENCE
+Senior Software Engineer | Jan 2020 – Present
+Acme Corp | Remote
+• Built APIs serving 1M users
+• Cut latency by 40% across the
+checkout service
+Software Engineer | Mar 2017 – Dec 2019
+Beta GmbH
+• Migrated services to Kubernetes
+EDUCATION
+B.Sc. Computer Science | Technical University of Berlin | 2013 – 2017
+SKILLS
+Languages: Go, Python, TypeScript
+CERTIFICATIONS
+AWS Certified Solutions Architect | Amazon Web Services | Jun 2021
+VOLUNTEERING
+Mentor at Code Club
+`;
+
+describe("resumeParser", () => {
+  describe("classifyHeading", () => {
+    it("should recognise standard headers", () => {
+      expect(
+        classifyHeading({ text: "Work Experience", isHeading: false, isBullet: false })
+      ).toEqual({ type: "experience", confidence: 0.85 });
+    });
+
+    it("should not treat bullets or contact lines as headings", () => {
+      expect(classifyHeading({ text: "• Skills", isHeading: false, isBullet: true })).toBeNull();
+      expect(classifyHeading({ text: "jane@example.com", isHeading: false, isBullet: false })).toBeNull();
+    });
+  });
+
+  describe("parseResumeLines", () => {
+    const parsed = parseResumeLines(toLines(SAMPLE), "docx", "resume.docx");
+
+    it("should extract personal information", () => {
+      expect(parsed.personalInfo.data).toMatchObject({
+        fullName: "Jane Doe",
+        title: "Backend Engineer",
+        email: "jane@example.com",
+        phone: "+1 555 123 4567",
+        location: "Berlin, Germany",
+      });
+    });
+
+    it("should split sections by heading", () => {
+      expect(parsed.sections.map((section) => section.type)).toEqual([
+        "experience",
+        "education",
+        "skills",
+        "certifications",
+        "custom",
+      ]);
+    });
+
+    it("should map experience entries with dates and bullets", () => {
+      const experience = parsed.sections[0];
+      expect(experience.items).toHaveLength(2);
+      expect(experience.items[0].data).toMatchObject({
+        jobTitle: "Senior Software Engineer",
+        company: "Acme Corp",
+        startDate: "2020-01",
+        current: true,
+        achievements: [
+          "Built APIs serving 1M users",
+          "Cut latency by 40% across the checkout service",
+        ],
+      });
+      expect(experience.items[1].data).toMatchObject({
+        jobTitle: "Software Engineer",
+        company: "Beta GmbH",
+        startDate: "2017-03",
+        endDate: "2019-12",
+      });
+      expect(experience.items[0].confidence).toBeGreaterThanOrEqual(0.8);
+    });
+
+    it("should map education, skills and certifications", () => {
+      expect(parsed.sections[1].items[0].data).toMatchObject({
+        degree: "B.Sc. Computer Science",
+        institution: "Technical University of Berlin",
+        startDate: "2013",
+        endDate: "2017",
+      });
+      expect(parsed.sections[2].items.map((item) => item.data)).toEqual([
+        expect.objectContaining({ name: "Go", category: "Languages" }),
+        expect.objectContaining({ name: "Python", category: "Languages" }),
+        expect.objectContaining({ name: "TypeScript", category: "Languages" }),
+      ]);
+      expect(parsed.sections[3].items[0].data).toMatchObject({
+        name: "AWS Certified Solutions Architect",
+        issuer: "Amazon Web Services",
+        issueDate: "2021-06",
+      });
+    });
+  });
+
+  describe("parsedResumeToResume", () => {
+    it("should keep only selected items and preserve the base resume settings", () => {
+      const parsed = parseResumeLines(toLines(SAMPLE), "docx", "resume.docx");
+      const selection = getDefaultImportSelection(parsed);
+      selection.itemIds.delete(parsed.sections[0].items[1].id);
+
+      const base = createEmptyResume();
+      const resume = parsedResumeToResume(parsed, selection, base);
+
+      expect(resume.id).toBe(base.id);
+      expect(resume.layout).toEqual(base.layout);
+      expect(resume.personalInfo.fullName).toBe("Jane Doe");
+      expect((resume.sections[0].content as any).experiences).toHaveLength(1);
+      expect(resume.sections[4]).toMatchObject({
+        type: "custom",
+        title: "Volunteering",
+      });
+    });
+  });
+});
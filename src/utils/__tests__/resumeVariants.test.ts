@@ -0,0 +1,101 @@
+/**
+ * Test file for resumeVariants utility
+ * Tests finding a variant's overrides, refreshing it from its base and
+ * grouping variants under their base
+ */
+
+import { applyBase, findOverrides, groupVariants, syncVariant } from "../resumeVariants";
+import type { ResumeContent, ResumeResponse } from "../../types/api.types";
+
+const experience = (id: string, jobTitle: string) => ({
+  id,
+  jobTitle,
+  company: "Acme",
+  location: "",
+  startDate: "2020-01",
+  current: true,
+  description: "",
+  achievements: [],
+});
+
+const base: ResumeContent = {
+  summary: "Backend engineer.",
+  personalInfo: { fullName: "Sam Lee", title: "Engineer", email: "sam@example.com", phone: "", location: "Berlin" },
+  experience: [experience("exp-1", "Engineer"), experience("exp-2", "Intern")],
+};
+
+const resume = (id: string, content: ResumeContent, updatedAt = "2026-01-01T00:00:00Z") =>
+  ({ id, title: id, templateId: "modern", content, updatedAt }) as ResumeResponse;
+
+describe("findOverrides", () => {
+  it("should list changed sections and entries", () => {
+    const variant = {
+      ...base,
+      summary: "Data engineer.",
+      experience: [experience("exp-1", "Data Engineer"), base.experience![1], experience("exp-3", "Analyst")],
+      layout: { fontFamily: "Georgia" },
+    } as ResumeContent;
+
+    expect(findOverrides(base, variant)).toEqual(["summary", "experience[exp-1]", "experience[exp-3]"]);
+  });
+
+  it("should override the whole list when it is reordered", () => {
+    const variant = { ...base, experience: [...base.experience!].reverse() };
+
+    expect(findOverrides(base, variant)).toEqual(["experience"]);
+  });
+});
+
+describe("applyBase", () => {
+  it("should take base changes everywhere the variant doesn't override", () => {
+    const variant = {
+      ...base,
+      summary: "Data engineer.",
+      experience: [experience("exp-1", "Data Engineer"), experience("exp-3", "Analyst")],
+    };
+    const overrides = ["summary", "experience[exp-1]", "experience[exp-2]", "experience[exp-3]"];
+    const newBase = {
+      ...base,
+      summary: "Senior backend engineer.",
+      personalInfo: { ...base.personalInfo!, location: "Munich" },
+      experience: [experience("exp-0", "Lead"), ...base.experience!],
+    };
+
+    const merged = applyBase(newBase, variant, overrides);
+
+    expect(merged.summary).toBe("Data engineer.");
+    expect(merged.personalInfo!.location).toBe("Munich");
+    // exp-2 was removed in the variant, exp-3 only exists there
+    expect(merged.experience!.map((item) => [item.id, item.jobTitle])).toEqual([
+      ["exp-0", "Lead"],
+      ["exp-1", "Data Engineer"],
+      ["exp-3", "Analyst"],
+    ]);
+  });
+});
+
+describe("syncVariant", () => {
+  it("should refresh a variant only when its base changed since the last sync", () => {
+    const variantContent = { ...base, variant: { baseId: "base", overrides: [], syncedAt: "2026-01-01T00:00:00Z" } };
+
+    expect(syncVariant(resume("base", base), resume("v", variantContent))).toBeNull();
+
+    const newer = resume("base", { ...base, summary: "Updated." }, "2026-02-01T00:00:00Z");
+    expect(syncVariant(newer, resume("v", variantContent))).toMatchObject({
+      summary: "Updated.",
+      variant: { baseId: "base", overrides: [], syncedAt: "2026-02-01T00:00:00Z" },
+    });
+  });
+});
+
+describe("groupVariants", () => {
+  it("should group variants, and variants of variants, under their root", () => {
+    const link = (baseId: string) => ({ ...base, variant: { baseId, overrides: [] } });
+    const list = [resume("a", base), resume("b", link("a")), resume("c", link("b")), resume("d", link("gone"))];
+
+    expect(groupVariants(list).map((group) => [group.resume.id, group.variants.map((item) => item.id)])).toEqual([
+      ["a", ["b", "c"]],
+      ["d", []],
+    ]);
+  });
+});
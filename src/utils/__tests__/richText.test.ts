@@ -0,0 +1,102 @@
+/**
+ * Test file for richText utilities
+ * Tests parsing the inline markup, degrading it to plain text and Markdown,
+ * and the editor toolbar's edits
+ */
+
+import {
+  parseInline,
+  parseRichText,
+  richTextToPlainText,
+  spansToMarkdown,
+  stripRichText,
+  toggleBullets,
+  toggleMark,
+  toLinkTarget,
+} from "../richText";
+
+describe("parseInline", () => {
+  it("should read bold, italic and links", () => {
+    expect(parseInline("Cut costs **40%** with *new* [tooling](https://example.com)")).toEqual([
+      { text: "Cut costs " },
+      { text: "40%", bold: true },
+      { text: " with " },
+      { text: "new", italic: true },
+      { text: " " },
+      { text: "tooling", href: "https://example.com" },
+    ]);
+  });
+
+  it("should nest emphasis", () => {
+    expect(parseInline("***both*** and **bold *mixed***")).toEqual([
+      { text: "both", bold: true, italic: true },
+      { text: " and " },
+      { text: "bold ", bold: true },
+      { text: "mixed", bold: true, italic: true },
+    ]);
+  });
+
+  it("should keep stray markers and unsafe links literal", () => {
+    expect(parseInline("5 * 3 * 2, \\*not italic\\*, [x](javascript:alert(1))")).toEqual([
+      { text: "5 * 3 * 2, *not italic*, [x](javascript:alert(1))" },
+    ]);
+  });
+});
+
+describe("parseRichText", () => {
+  it("should group lines into paragraphs and lists", () => {
+    const blocks = parseRichText("Led the team.\nShipped v2.\n\n- First\n* Second\nAfter");
+
+    expect(blocks.map((block) => block.type)).toEqual(["paragraph", "list", "paragraph"]);
+    expect(blocks[0].type === "paragraph" && blocks[0].lines).toHaveLength(2);
+    expect(blocks[1].type === "list" && blocks[1].items).toEqual([[{ text: "First" }], [{ text: "Second" }]]);
+  });
+});
+
+describe("degrading rich text", () => {
+  const text = "Built **Atlas**, see [the docs](https://atlas.dev/docs)\n- Mail [me](mailto:a@b.co)\n- [atlas.dev](https://atlas.dev/)";
+
+  it("should write plain text with link addresses", () => {
+    expect(richTextToPlainText(text)).toBe(
+      "Built Atlas, see the docs (https://atlas.dev/docs)\n- Mail me (a@b.co)\n- atlas.dev"
+    );
+  });
+
+  it("should strip everything for ATS checks", () => {
+    expect(stripRichText(text)).toBe("Built Atlas, see the docs\nMail me\natlas.dev");
+  });
+
+  it("should round-trip through Markdown", () => {
+    const line = "Cut **costs _now_** by *40%* via [**the** tool](https://x.io)";
+    const markdown = spansToMarkdown(parseInline(line));
+
+    expect(markdown).toBe("Cut **costs \\_now\\_** by *40%* via [**the** tool](https://x.io)");
+    expect(parseInline(markdown)).toEqual(parseInline(line));
+  });
+});
+
+describe("toolbar edits", () => {
+  it("should toggle bold on and off", () => {
+    const bold = toggleMark("Led the team", 4, 12, "bold");
+    expect(bold).toEqual({ value: "Led **the team**", selectionStart: 6, selectionEnd: 14 });
+    expect(toggleMark(bold.value, bold.selectionStart, bold.selectionEnd, "bold").value).toBe("Led the team");
+  });
+
+  it("should not mistake bold markers for italics", () => {
+    expect(toggleMark("**team**", 2, 6, "italic").value).toBe("***team***");
+    expect(toggleMark("***team***", 3, 7, "italic").value).toBe("**team**");
+  });
+
+  it("should toggle bullets on the selected lines", () => {
+    const value = "One\nTwo\nThree";
+    const bullets = toggleBullets(value, 0, 6);
+    expect(bullets.value).toBe("- One\n- Two\nThree");
+    expect(toggleBullets(bullets.value, bullets.selectionStart, bullets.selectionEnd).value).toBe(value);
+  });
+
+  it("should complete link addresses", () => {
+    expect(toLinkTarget("example.com/work")).toBe("https://example.com/work");
+    expect(toLinkTarget("me@example.com")).toBe("mailto:me@example.com");
+    expect(toLinkTarget("not a link")).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Test file for saveRequest utility
+ * Tests which parts of the resume are sent and when content is held back
+ */
+
+import {
+  diffContent,
+  getInvalidContactFields,
+  getSaveRequest,
+  isPersonalInfoSavable,
+  toSaveSnapshot,
+} from "../saveRequest";
+import { createDefaultResume } from "../../constants/defaultResume";
+
+describe("saveRequest", () => {
+  describe("getSaveRequest", () => {
+    it("should return null when nothing changed", () => {
+      const resume = createDefaultResume();
+
+      expect(getSaveRequest(toSaveSnapshot(resume), toSaveSnapshot({ ...resume }))).toBeNull();
+    });
+
+    it("should send only the template when only the template changed", () => {
+      const resume = createDefaultResume();
+      const next = { ...resume, template: "minimal" as const };
+
+      expect(getSaveRequest(toSaveSnapshot(resume), toSaveSnapshot(next))).toEqual({ templateId: "minimal" });
+    });
+
+    it("should send only the sections that changed", () => {
+      const resume = createDefaultResume();
+      const next = {
+        ...resume,
+        personalInfo: { ...resume.personalInfo, fullName: "Sam Lee" },
+      };
+
+      const request = getSaveRequest(toSaveSnapshot(resume), toSaveSnapshot(next));
+
+      expect(request).not.toHaveProperty("templateId");
+      expect(Object.keys(request?.content ?? {})).toEqual(["personalInfo"]);
+      expect(request?.content?.personalInfo?.fullName).toBe("Sam Lee");
+    });
+  });
+
+  describe("diffContent", () => {
+    it("should mark removed sections as undefined", () => {
+      const changes = diffContent({ summary: "Hi", locale: "en" }, { summary: "Hi" });
+
+      expect(Object.keys(changes)).toEqual(["locale"]);
+      expect(changes.locale).toBeUndefined();
+    });
+  });
+
+  describe("isPersonalInfoSavable", () => {
+    it("should allow empty draft fields", () => {
+      const info = createDefaultResume().personalInfo;
+
+      expect(isPersonalInfoSavable({ ...info, email: "", phone: "", linkedin: "" })).toBe(true);
+    });
+
+    it("should hold back malformed contact details", () => {
+      const info = createDefaultResume().personalInfo;
+
+      expect(isPersonalInfoSavable({ ...info, email: "sam@" })).toBe(false);
+      expect(isPersonalInfoSavable({ ...info, phone: "call me" })).toBe(false);
+      expect(isPersonalInfoSavable({ ...info, github: "github.com/sam" })).toBe(false);
+    });
+
+    it("should name the fields to fix", () => {
+      const info = createDefaultResume().personalInfo;
+
+      expect(getInvalidContactFields({ ...info, email: "sam@", github: "github.com/sam" })).toEqual([
+        "email",
+        "GitHub URL",
+      ]);
+    });
+  });
+});
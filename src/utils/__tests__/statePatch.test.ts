@@ -0,0 +1,66 @@
+/**
+ * Test file for statePatch utility
+ * Tests diffing nested state, applying patches and their inverses,
+ * item-level list changes and structural sharing of unchanged subtrees
+ */
+
+import { applyPatch, diffState } from "../statePatch";
+
+describe("statePatch", () => {
+  const shared = { id: "exp-1", company: "Acme" };
+  const before = { title: "a", info: { name: "Ann", phone: "1" }, items: [shared, { id: "exp-2" }] };
+  const after = { title: "a", info: { name: "Ann" }, items: [shared, { id: "exp-2", role: "Dev" }] };
+
+  it("should record only the changed values", () => {
+    expect(diffState(before, after).patch).toEqual([
+      { path: ["info", "phone"], value: undefined },
+      { path: ["items", 1, "role"], value: "Dev" },
+    ]);
+  });
+
+  it("should apply patches and inverses without touching unchanged parts", () => {
+    const { patch, inverse } = diffState(before, after);
+    const patched = applyPatch(before, patch);
+
+    expect(patched).toEqual(after);
+    expect("phone" in patched.info).toBe(false);
+    expect(patched.items[0]).toBe(shared);
+    expect(applyPatch(after, inverse)).toEqual(before);
+  });
+
+  it("should store only the items added to or removed from a list", () => {
+    const grown = { ...before, items: [...before.items, { id: "exp-3" }] };
+    const shrunk = { ...before, items: [before.items[1]] };
+
+    expect(diffState(before, grown).patch).toEqual([
+      { path: ["items"], splice: { index: 2, remove: 0, insert: [{ id: "exp-3" }] } },
+    ]);
+    expect(diffState(before, shrunk)).toEqual({
+      patch: [{ path: ["items"], splice: { index: 0, remove: 1, insert: [] } }],
+      inverse: [{ path: ["items"], splice: { index: 0, remove: 0, insert: [shared] } }],
+    });
+  });
+
+  it("should diff kept items in place when the list around them changes", () => {
+    const items = [{ id: "a", n: 1 }, { id: "b", n: 1 }, { id: "c", n: 1 }];
+    const next = [{ id: "a", n: 2 }, { id: "x" }, { id: "c", n: 2 }];
+    const { patch, inverse } = diffState({ items }, { items: next });
+
+    expect(patch).toEqual([
+      { path: ["items", 0, "n"], value: 2 },
+      { path: ["items"], splice: { index: 1, remove: 1, insert: [{ id: "x" }] } },
+      { path: ["items", 2, "n"], value: 2 },
+    ]);
+    expect(applyPatch({ items }, patch)).toEqual({ items: next });
+    expect(applyPatch({ items: next }, inverse)).toEqual({ items });
+  });
+
+  it("should undo moves and removals with changed items", () => {
+    const items = [{ id: "a" }, { id: "b", n: 1 }, { id: "c" }, { id: "d" }];
+    const next = [{ id: "c" }, { id: "a" }, { id: "d", n: 5 }];
+    const { patch, inverse } = diffState({ items }, { items: next });
+
+    expect(applyPatch({ items }, patch)).toEqual({ items: next });
+    expect(applyPatch({ items: next }, inverse)).toEqual({ items });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Test file for templateRegistry utility
+ * Tests template definition validation, custom templates and whole-template import
+ */
+
+import {
+  forkTemplateDefinition,
+  getTemplateDefinition,
+  isCustomTemplate,
+  validateTemplateDefinition,
+} from "../templateRegistry";
+import { importTemplateFromJSON } from "../templateImporter";
+import { BUILT_IN_TEMPLATE_DEFINITIONS } from "../../constants/templateDefinitions";
+import { createDefaultResume } from "../../constants/defaultResume";
+
+describe("templateRegistry", () => {
+  describe("validateTemplateDefinition", () => {
+    it("should accept every built-in definition", () => {
+      Object.values(BUILT_IN_TEMPLATE_DEFINITIONS).forEach((definition) => {
+        expect(validateTemplateDefinition(definition)).toEqual([]);
+      });
+    });
+
+    it("should report unknown ids and invalid styles", () => {
+      const definition = {
+        ...BUILT_IN_TEMPLATE_DEFINITIONS.classic,
+        id: "fancy",
+        entry: { ...BUILT_IN_TEMPLATE_DEFINITIONS.classic.entry, dateFormat: "iso" },
+      };
+
+      const errors = validateTemplateDefinition(definition);
+
+      expect(errors).toContain("Unknown template id: fancy");
+      expect(errors).toContain("entry.dateFormat is invalid");
+    });
+
+    it("should reject definitions from newer schema versions", () => {
+      const errors = validateTemplateDefinition({ ...BUILT_IN_TEMPLATE_DEFINITIONS.modern, schemaVersion: 2 });
+
+      expect(errors).toEqual(["Unsupported template schema version: 2"]);
+    });
+  });
+
+  describe("custom templates", () => {
+    it("should fork a definition under a new custom id", () => {
+      const fork = forkTemplateDefinition(BUILT_IN_TEMPLATE_DEFINITIONS.modern, "My Modern");
+
+      expect(isCustomTemplate(fork.id)).toBe(true);
+      expect(fork.name).toBe("My Modern");
+      expect(fork.basedOn).toBe("modern");
+      expect(validateTemplateDefinition(fork)).toEqual([]);
+    });
+
+    it("should keep the built-in ancestor when forking a custom template", () => {
+      const fork = forkTemplateDefinition(BUILT_IN_TEMPLATE_DEFINITIONS.academic, "Lab");
+      const forkOfFork = forkTemplateDefinition(fork, "Lab 2");
+
+      expect(forkOfFork.id).not.toBe(fork.id);
+      expect(forkOfFork.basedOn).toBe("academic");
+    });
+
+    it("should fall back to professional for unknown custom ids", () => {
+      expect(getTemplateDefinition("custom-missing").id).toBe("professional");
+    });
+  });
+
+  describe("template import", () => {
+    it("should import a template with its definition", () => {
+      const resume = { ...createDefaultResume(), template: "minimal" as const };
+      const file = {
+        version: "1.1.0",
+        name: "Compact",
+        description: "Minimal design under a new name",
+        templateType: "minimal",
+        layout: resume.layout,
+        definition: { ...getTemplateDefinition("minimal"), name: "Compact" },
+        metadata: { createdAt: new Date().toISOString() },
+      };
+
+      const result = importTemplateFromJSON(JSON.stringify(file));
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toEqual([]);
+      expect(result.template?.definition?.name).toBe("Compact");
+    });
+
+    it("should reject a definition for a different template", () => {
+      const file = {
+        version: "1.1.0",
+        name: "Mismatch",
+        description: "Classic design filed under modern",
+        templateType: "modern",
+        layout: createDefaultResume().layout,
+        definition: getTemplateDefinition("classic"),
+        metadata: { createdAt: new Date().toISOString() },
+      };
+
+      const result = importTemplateFromJSON(JSON.stringify(file));
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain("Template definition does not match templateType");
+    });
+  });
+});
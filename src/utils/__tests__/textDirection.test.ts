@@ -0,0 +1,60 @@
+/**
+ * Test file for textDirection utility
+ * Tests direction detection, resume direction and the mixed-direction ATS rule
+ */
+
+import { createDefaultResume } from "../../constants/defaultResume";
+import type { Resume } from "../../types/resume.types";
+import { getATSRule } from "../atsRules";
+import { detectTextDirection, getResumeDirection, hasMixedDirection, mirrorSide } from "../textDirection";
+
+const buildResume = (fullName: string, title: string): Resume => {
+  const resume = createDefaultResume();
+  return { ...resume, personalInfo: { ...resume.personalInfo, fullName, title } };
+};
+
+describe("textDirection", () => {
+  it("should detect direction from the first letter", () => {
+    expect(detectTextDirection("דנה כהן")).toBe("rtl");
+    expect(detectTextDirection("2020 - مهندس برمجيات")).toBe("rtl");
+    expect(detectTextDirection("React, مهندس")).toBe("ltr");
+    expect(detectTextDirection("2020 - 2024")).toBeNull();
+  });
+
+  it("should flag text mixing both directions", () => {
+    expect(hasMixedDirection("מפתחת React בכירה")).toBe(true);
+    expect(hasMixedDirection("מפתחת בכירה, 2020")).toBe(false);
+    expect(hasMixedDirection("Senior React developer")).toBe(false);
+  });
+
+  describe("getResumeDirection", () => {
+    it("should follow an explicit layout direction", () => {
+      const resume = buildResume("Jane Doe", "Engineer");
+
+      expect(getResumeDirection({ ...resume, layout: { ...resume.layout, direction: "rtl" } })).toBe("rtl");
+    });
+
+    it("should use the locale, then the text, on auto", () => {
+      const resume = buildResume("Jane Doe", "Engineer");
+
+      expect(getResumeDirection(resume)).toBe("ltr");
+      expect(getResumeDirection({ ...resume, locale: "he-IL" })).toBe("rtl");
+      expect(getResumeDirection({ ...buildResume("دانة خالد", "مهندسة برمجيات"), sections: [] })).toBe("rtl");
+    });
+  });
+
+  it("should mirror sides in RTL layouts", () => {
+    expect(mirrorSide("left", "rtl")).toBe("right");
+    expect(mirrorSide("center", "rtl")).toBe("center");
+    expect(mirrorSide("left", "ltr")).toBe("left");
+  });
+
+  it("should warn about mixed-direction fields", () => {
+    const rule = getATSRule("mixed-direction")!;
+    const resume = buildResume("Dana Cohen", "מפתחת React בכירה");
+    const findings = rule.check({ resume, pagination: null, thresholds: {} });
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].id).toBe("mixed-direction-personal-info");
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Test file for textExporter utility
+ * Tests plain text and Markdown rendering of resumes
+ */
+
+import {
+  exportResumePlainText,
+  exportResumeMarkdown,
+} from "../textExporter";
+import type { Resume } from "../../types/resume.types";
+
+const buildResume = (): Resume => ({
+  id: "resume-1",
+  personalInfo: {
+    fullName: "Jane Doe",
+    title: "Backend Engineer",
+    email: "jane@example.com",
+    phone: "+1 555 123 4567",
+    location: "Berlin, Germany",
+  },
+  sections: [
+    {
+      id: "skills",
+      type: "skills",
+      title: "Skills",
+      enabled: true,
+      order: 2,
+      content: {
+        skills: [
+          { id: "s1", name: "Go", category: "languages", level: "expert" },
+          { id: "s2", name: "Python", category: "languages", level: "advanced" },
+        ],
+      },
+    },
+    {
+      id: "experience",
+      type: "experience",
+      title: "Where I Worked",
+      enabled: true,
+      order: 1,
+      content: {
+        experiences: [
+          {
+            id: "e1",
+            jobTitle: "Engineer",
+            company: "Acme",
+            location: "Remote",
+            startDate: "2020-01",
+            current: true,
+            description: "• Built APIs",
+            achievements: ["Cut latency by 40%"],
+          },
+        ],
+      },
+    },
+    {
+      id: "summary",
+      type: "summary",
+      title: "Summary",
+      enabled: false,
+      order: 0,
+      content: { summary: "Hidden summary" },
+    },
+    {
+      id: "custom-1",
+      type: "custom",
+      title: "Volunteering",
+      enabled: true,
+      order: 3,
+      hideTitle: true,
+      content: {
+        custom: { id: "custom-1", title: "Volunteering", content: "Mentor at Code Club" },
+      },
+    },
+  ],
+  layout: {
+    pageMargins: { top: 1, right: 1, bottom: 1, left: 1 },
+    sectionSpacing: 16,
+    lineHeight: 1.4,
+    fontSize: { name: 22, title: 12, sectionHeader: 12, body: 10 },
+    fontFamily: "Arial",
+    colors: { primary: "#000000", secondary: "#555555", text: "#333333" },
+  },
+  template: "classic",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+});
+
+describe("textExporter", () => {
+  describe("exportResumePlainText", () => {
+    it("should follow section order and skip disabled sections", () => {
+      const text = exportResumePlainText(buildResume());
+
+      expect(text).not.toContain("Hidden summary");
+      expect(text.indexOf("WORK EXPERIENCE")).toBeLessThan(
+        text.indexOf("\nSKILLS")
+      );
+    });
+
+    it("should replace non-standard headers with standard ATS names", () => {
+      const text = exportResumePlainText(buildResume());
+
+      expect(text).toContain("WORK EXPERIENCE");
+      expect(text).not.toContain("WHERE I WORKED");
+      expect(text).toContain("SKILLS");
+    });
+
+    it("should normalise decorative bullets to hyphens", () => {
+      const text = exportResumePlainText(buildResume());
+
+      expect(text).toContain("- Built APIs");
+      expect(text).toContain("- Cut latency by 40%");
+      expect(text).not.toContain("•");
+    });
+
+    it("should omit the title of sections with hideTitle", () => {
+      const text = exportResumePlainText(buildResume());
+
+      expect(text).toContain("Mentor at Code Club");
+      expect(text).not.toContain("VOLUNTEERING");
+    });
+
+    it("should group skills by category", () => {
+      const text = exportResumePlainText(buildResume());
+
+      expect(text).toContain("Languages: Go, Python");
+    });
+  });
+
+  describe("exportResumeMarkdown", () => {
+    it("should render headings and bullets as Markdown", () => {
+      const markdown = exportResumeMarkdown(buildResume());
+
+      expect(markdown).toContain("# Jane Doe");
+      expect(markdown).toContain("## Work Experience");
+      expect(markdown).toContain("### Engineer | Acme");
+      expect(markdown).toContain("- Cut latency by 40%");
+      expect(markdown).toContain("**Languages:** Go, Python");
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Test file for versionSnapshots utility
+ * Tests labelling snapshots with what changed and thinning out old
+ * automatic snapshots
+ */
+
+import {
+  DEFAULT_SNAPSHOT_SETTINGS,
+  autoSnapshotName,
+  selectSnapshotsToPrune,
+  summarizeChanges,
+} from "../versionSnapshots";
+import type { ResumeContent } from "../../types/api.types";
+
+const HOUR = 60 * 60 * 1000;
+const now = Date.parse("2026-06-30T12:00:00Z");
+
+const experience = (id: string, jobTitle: string) => ({
+  id,
+  jobTitle,
+  company: "Acme",
+  location: "",
+  startDate: "2020-01",
+  current: true,
+  description: "",
+  achievements: [],
+});
+
+const content: ResumeContent = {
+  summary: "Backend engineer.",
+  experience: [experience("exp-1", "Engineer"), experience("exp-2", "Intern")],
+};
+
+const snapshot = (id: string, hoursAgo: number, auto = true) => ({
+  id,
+  versionName: auto ? autoSnapshotName("editing") : "Before applying",
+  createdAt: new Date(now - hoursAgo * HOUR).toISOString(),
+});
+
+describe("summarizeChanges", () => {
+  it("should describe changed sections and a template switch", () => {
+    const current = {
+      templateId: "classic",
+      content: {
+        ...content,
+        summary: "Senior backend engineer.",
+        experience: [experience("exp-0", "Lead"), experience("exp-1", "Senior Engineer")],
+      },
+    };
+
+    expect(summarizeChanges({ templateId: "modern", content }, current)).toBe(
+      "Template modern → classic; Summary edited; Experience (1 added, 1 edited, 1 removed)"
+    );
+  });
+
+  it("should return an empty summary when nothing changed", () => {
+    expect(summarizeChanges({ templateId: "modern", content }, { templateId: "modern", content })).toBe("");
+  });
+});
+
+describe("selectSnapshotsToPrune", () => {
+  it("should keep recent snapshots, then one per day, and never manual ones", () => {
+    const versions = [
+      snapshot("recent-1", 1),
+      snapshot("recent-2", 20),
+      // Two days ago, same day: only the newer one stays
+      snapshot("day-newer", 48),
+      snapshot("day-older", 49),
+      snapshot("ancient", 200 * 24),
+      snapshot("manual", 200 * 24, false),
+    ];
+
+    expect(selectSnapshotsToPrune(versions, DEFAULT_SNAPSHOT_SETTINGS.retention, now).sort()).toEqual([
+      "ancient",
+      "day-older",
+    ]);
+  });
+
+  it("should drop the oldest snapshots beyond the maximum", () => {
+    const versions = [snapshot("a", 1), snapshot("b", 2), snapshot("c", 3)];
+    const retention = { ...DEFAULT_SNAPSHOT_SETTINGS.retention, maxSnapshots: 2 };
+
+    expect(selectSnapshotsToPrune(versions, retention, now)).toEqual(["c"]);
+  });
+});
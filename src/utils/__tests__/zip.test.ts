@@ -0,0 +1,50 @@
+/**
+ * Test file for zip utility
+ * Tests CRC-32, the STORE archive layout and reading archives back
+ */
+
+import { crc32, createZip, readZip } from "../zip";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+describe("zip", () => {
+  it("should compute the standard CRC-32 check value", () => {
+    expect(crc32(encode("123456789"))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it("should write uncompressed entries with matching checksums", () => {
+    const archive = createZip([{ name: "a.txt", data: "hello" }]);
+    const view = new DataView(archive.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(8, true)).toBe(0); // STORE
+    expect(view.getUint32(14, true)).toBe(crc32(encode("hello")));
+    expect(view.getUint32(18, true)).toBe(5);
+    expect(decode(archive.subarray(30, 35))).toBe("a.txt");
+    expect(decode(archive.subarray(35, 40))).toBe("hello");
+    // End of central directory record with one entry
+    expect(view.getUint32(archive.length - 22, true)).toBe(0x06054b50);
+    expect(view.getUint16(archive.length - 12, true)).toBe(1);
+  });
+
+  it("should read back every entry, including UTF-8 names and binary data", async () => {
+    const binary = new Uint8Array([0, 255, 10, 13]);
+    const files = await readZip(
+      createZip([
+        { name: "[Content_Types].xml", data: "<Types/>" },
+        { name: "word/résumé.xml", data: "Zoë – 履歴書" },
+        { name: "media/blob.bin", data: binary },
+      ])
+    );
+
+    expect([...files.keys()]).toEqual(["[Content_Types].xml", "word/résumé.xml", "media/blob.bin"]);
+    expect(decode(files.get("word/résumé.xml")!)).toBe("Zoë – 履歴書");
+    expect([...files.get("media/blob.bin")!]).toEqual([0, 255, 10, 13]);
+  });
+
+  it("should reject data that is not a ZIP archive", async () => {
+    await expect(readZip(encode("not a zip file at all, just some text"))).rejects.toThrow("Not a valid ZIP archive");
+  });
+});
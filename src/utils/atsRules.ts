@@ -0,0 +1,957 @@
+import type { ATSFixChange, ATSRule, ATSRuleFinding, ATSSeverity } from '../types/ats.types';
+import type { Resume, ResumeSection } from '../types/resume.types';
+import { getStandardSectionHeader } from '../constants/atsGuidelines';
+import { getContrastRatio } from './templateStyler';
+import { getTranslatableFields } from './resumeLocale';
+import { hasMixedDirection } from './textDirection';
+
+/**
+ * ATS Rule Registry
+ *
+ * Every check that feeds the ATS score is a rule in this registry. Rules are
+ * run by validateATS (utils/atsValidator.ts); users can disable them or tune
+ * their severity, weight and thresholds through the ATS settings.
+ */
+
+/**
+ * Default score deduction per finding for each severity
+ */
+export const SEVERITY_WEIGHTS: Record<ATSSeverity, number> = {
+  error: 15,
+  warning: 5,
+  info: 2,
+};
+
+/**
+ * ATS-safe fonts that are widely supported by Applicant Tracking Systems
+ */
+export const ATS_SAFE_FONTS = [
+  'Arial',
+  'Helvetica',
+  'Times New Roman',
+  'Georgia',
+  'Calibri',
+];
+
+/**
+ * Standard section headers recognized by ATS systems
+ */
+export const STANDARD_SECTION_HEADERS = [
+  'professional summary',
+  'summary',
+  'objective',
+  'work experience',
+  'experience',
+  'professional experience',
+  'employment history',
+  'projects',
+  'technical skills',
+  'skills',
+  'core competencies',
+  'education',
+  'certifications',
+  'certificates',
+  'achievements',
+  'awards',
+  'publications',
+  'volunteer experience',
+  'volunteering',
+  'languages',
+  'references',
+  'additional information',
+];
+
+/**
+ * Special characters that may cause parsing issues in ATS
+ */
+const PROBLEMATIC_CHARACTERS = /[•◦▪▫■□●○◆◇★☆♦♣♠♥]/;
+const PROBLEMATIC_CHARACTERS_GLOBAL = new RegExp(PROBLEMATIC_CHARACTERS.source, 'g');
+
+const isValidEmail = (email: string): boolean => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+/**
+ * Flexible enough for international phone formats
+ */
+const isValidPhone = (phone: string): boolean => /^[\d\s\-\+\(\)]{10,}$/.test(phone);
+
+/**
+ * Checks if date format is ATS-friendly (MM/YYYY or Month YYYY)
+ * Also accepts YYYY, YYYY-MM (internal storage format) and YYYY-MM-DD
+ */
+export const isValidDateFormat = (date: string): boolean => {
+  if (!date || date.toLowerCase() === 'present') return true;
+
+  const dateRegex = /^(\d{1,2}\/\d{4}|[A-Za-z]+\s\d{4}|\d{4}|\d{4}-\d{2}|\d{4}-\d{2}-\d{2})$/;
+  return dateRegex.test(date.trim());
+};
+
+/**
+ * First family of a CSS font stack, e.g. "Arial, sans-serif" → "Arial"
+ */
+const primaryFont = (fontFamily: string): string =>
+  (fontFamily || '').split(',')[0].trim().replace(/^["']|["']$/g, '');
+
+export const isStandardSectionHeader = (title: string): boolean => {
+  const normalizedTitle = title.toLowerCase().trim();
+  return STANDARD_SECTION_HEADERS.some(
+    (header) => normalizedTitle.includes(header) || header.includes(normalizedTitle)
+  );
+};
+
+/**
+ * Unique words / total words, ignoring short words
+ */
+const calculateKeywordDensity = (text: string): number => {
+  if (!text) return 0;
+
+  const words = text.split(/\s+/).filter((w) => w.length > 3);
+  const uniqueWords = new Set(words.map((w) => w.toLowerCase()));
+
+  return uniqueWords.size / Math.max(words.length, 1);
+};
+
+const isBrightColor = (color: string): boolean => {
+  const hex = color.replace('#', '');
+  const r = parseInt(hex.substr(0, 2), 16);
+  const g = parseInt(hex.substr(2, 2), 16);
+  const b = parseInt(hex.substr(4, 2), 16);
+  return (r * 299 + g * 587 + b * 114) / 1000 > 200;
+};
+
+// ---------------------------------------------------------------------------
+// Auto-fixes
+// ---------------------------------------------------------------------------
+
+type ATSFixer = NonNullable<ATSRule['autoFix']>;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const PRESENT_WORDS = ['present', 'current', 'currently', 'now', 'today', 'ongoing'];
+
+const yearMonth = (year: string, month: number): string | null =>
+  month >= 1 && month <= 12 ? `${year}-${String(month).padStart(2, '0')}` : null;
+
+/**
+ * Convert a free-form date into the YYYY-MM storage format (or YYYY when no
+ * month is given). Returns null when the date can't be read.
+ */
+export const normalizeDate = (raw: string): string | null => {
+  const value = (raw || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+  // "Jan. 2020", "January, 2020", "jan '20"
+  const named = value.match(/^([a-z]+)\.?,? '?(\d{2}|\d{4})$/);
+  if (named) {
+    const month = MONTHS.indexOf(named[1].slice(0, 3)) + 1;
+    if (month === 0) return null;
+    const year = named[2].length === 2 ? `20${named[2]}` : named[2];
+    return yearMonth(year, month);
+  }
+
+  // "01/2020", "1-2020", "01.2020"
+  const monthFirst = value.match(/^(\d{1,2}) ?[/.-] ?(\d{4})$/);
+  if (monthFirst) return yearMonth(monthFirst[2], parseInt(monthFirst[1], 10));
+
+  // "2020/01", "2020.1"
+  const yearFirst = value.match(/^(\d{4}) ?[/.-] ?(\d{1,2})$/);
+  if (yearFirst) return yearMonth(yearFirst[1], parseInt(yearFirst[2], 10));
+
+  const year = value.match(/^(?:19|20)\d{2}$/);
+  return year ? year[0] : null;
+};
+
+const withSection = (
+  resume: Resume,
+  sectionId: string,
+  update: (section: ResumeSection) => ResumeSection
+): Resume => ({
+  ...resume,
+  sections: resume.sections.map((section) => (section.id === sectionId ? update(section) : section)),
+  updatedAt: new Date().toISOString(),
+});
+
+const fixDateFormat: ATSFixer = (resume, issue) => {
+  const section = resume.sections.find((s) => s.id === issue.sectionId);
+  if (!section || !issue.itemId || (issue.field !== 'startDate' && issue.field !== 'endDate')) return null;
+
+  const listKey = section.type === 'experience' ? 'experiences' : section.type === 'education' ? 'education' : null;
+  if (!listKey) return null;
+  const items: any[] = (section.content as any)[listKey] || [];
+  const item = items.find((entry) => entry.id === issue.itemId);
+  if (!item) return null;
+
+  const field = issue.field;
+  const before: string = item[field] || '';
+  const label = `${section.title} · ${field === 'startDate' ? 'Start date' : 'End date'}`;
+
+  let patch: Record<string, unknown>;
+  let after: string;
+  if (field === 'endDate' && listKey === 'experiences' && PRESENT_WORDS.includes(before.trim().toLowerCase())) {
+    patch = { endDate: '', current: true };
+    after = 'Present';
+  } else {
+    const normalized = normalizeDate(before);
+    if (!normalized) return null;
+    patch = { [field]: normalized };
+    after = normalized;
+  }
+
+  return {
+    resume: withSection(resume, section.id, (s) => ({
+      ...s,
+      content: {
+        ...s.content,
+        [listKey]: items.map((entry) => (entry.id === item.id ? { ...entry, ...patch } : entry)),
+      } as ResumeSection['content'],
+    })),
+    changes: [{ label, before, after }],
+  };
+};
+
+/**
+ * Leading decorative bullets are dropped; ones inside the text become hyphens
+ */
+const stripProblematicCharacters = (text: string): string =>
+  text
+    .replace(new RegExp(`^[ \\t]*(?:${PROBLEMATIC_CHARACTERS.source}[ \\t]*)+`, 'gm'), '')
+    .replace(PROBLEMATIC_CHARACTERS_GLOBAL, '-');
+
+const fixSpecialCharacters: ATSFixer = (resume, issue) => {
+  const section = resume.sections.find((s) => s.id === issue.sectionId);
+  if (!section) return null;
+
+  const changes: ATSFixChange[] = [];
+  const clean = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      if (!PROBLEMATIC_CHARACTERS.test(value)) return value;
+      const after = stripProblematicCharacters(value);
+      changes.push({ label: section.title, before: value, after });
+      return after;
+    }
+    if (Array.isArray(value)) return value.map(clean);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, clean(entry)]));
+    }
+    return value;
+  };
+
+  const content = clean(section.content) as ResumeSection['content'];
+  if (changes.length === 0) return null;
+
+  return {
+    resume: withSection(resume, section.id, (s) => ({ ...s, content })),
+    changes,
+  };
+};
+
+const fixSectionHeader: ATSFixer = (resume, issue) => {
+  const section = resume.sections.find((s) => s.id === issue.sectionId);
+  if (!section) return null;
+
+  const title = section.type === 'additional-info'
+    ? 'Additional Information'
+    : getStandardSectionHeader(section.type, section.title);
+  if (title === section.title || !isStandardSectionHeader(title)) return null;
+
+  return {
+    resume: withSection(resume, section.id, (s) => ({ ...s, title })),
+    changes: [{ label: 'Section header', before: section.title, after: title }],
+  };
+};
+
+/**
+ * Keep the first ATS-safe family already in the stack, otherwise use Arial
+ */
+const fixFont: ATSFixer = (resume) => {
+  const before = resume.layout.fontFamily || '';
+  const families = before.split(',').map((family) => family.trim().replace(/^["']|["']$/g, ''));
+  const safe = families.find((family) => ATS_SAFE_FONTS.includes(family)) || 'Arial';
+  const fallback = ['Times New Roman', 'Georgia'].includes(safe) ? 'serif' : 'sans-serif';
+  const after = `${safe.includes(' ') ? `"${safe}"` : safe}, ${fallback}`;
+
+  return {
+    resume: { ...resume, layout: { ...resume.layout, fontFamily: after }, updatedAt: new Date().toISOString() },
+    changes: [{ label: 'Font', before, after }],
+  };
+};
+
+/**
+ * Built-in rules, in the order their issues are listed
+ */
+const BUILT_IN_RULES: ATSRule[] = [
+  {
+    id: 'contact-name',
+    name: 'Full name',
+    category: 'contact',
+    severity: 'error',
+    weight: SEVERITY_WEIGHTS.error,
+    check: ({ resume }) =>
+      resume.personalInfo.fullName?.trim()
+        ? []
+        : [{
+          id: 'missing-name',
+          message: 'Full name is required',
+          section: 'Personal Information',
+          suggestion: 'Add your full name to the personal information section',
+        }],
+  },
+  {
+    id: 'contact-email',
+    name: 'Email address',
+    category: 'contact',
+    severity: 'error',
+    weight: SEVERITY_WEIGHTS.error,
+    check: ({ resume }) => {
+      const { email } = resume.personalInfo;
+      if (!email?.trim()) {
+        return [{
+          id: 'missing-email',
+          message: 'Email address is required',
+          section: 'Personal Information',
+          suggestion: 'Add a valid email address',
+        }];
+      }
+      if (!isValidEmail(email)) {
+        return [{
+          id: 'invalid-email',
+          message: 'Email format is invalid',
+          section: 'Personal Information',
+          suggestion: 'Use a valid email format (e.g., name@example.com)',
+        }];
+      }
+      return [];
+    },
+  },
+  {
+    id: 'contact-phone',
+    name: 'Phone number',
+    category: 'contact',
+    severity: 'warning',
+    weight: SEVERITY_WEIGHTS.warning,
+    check: ({ resume }) => {
+      const { phone } = resume.personalInfo;
+      if (!phone?.trim()) {
+        return [{
+          id: 'missing-phone',
+          message: 'Phone number is recommended',
+          section: 'Personal Information',
+          suggestion: 'Add your phone number for better contact options',
+        }];
+      }
+      if (!isValidPhone(phone)) {
+        return [{
+          id: 'invalid-phone',
+          message: 'Phone number format may not be recognized',
+          section: 'Personal Information',
+          suggestion: 'Use a standard format (e.g., +1-234-567-8900)',
+        }];
+      }
+      return [];
+    },
+  },
+  {
+    id: 'contact-location',
+    name: 'Location',
+    category: 'contact',
+    severity: 'info',
+    weight: SEVERITY_WEIGHTS.info,
+    check: ({ resume }) =>
+      resume.personalInfo.location?.trim()
+        ? []
+        : [{
+          id: 'missing-location',
+          message: 'Location is helpful for ATS matching',
+          section: 'Personal Information',
+          suggestion: 'Add your city and state/country',
+        }],
+  },
+  {
+    id: 'safe-font',
+    name: 'ATS-safe font',
+    category: 'typography',
+    severity: 'warning',
+    weight: SEVERITY_WEIGHTS.warning,
+    check: ({ resume }) =>
+      ATS_SAFE_FONTS.includes(primaryFont(resume.layout.fontFamily))
+        ? []
+        : [{
+          id: 'unsafe-font',
+          message: 'Font may not be ATS-compliant',
+          section: 'Layout',
+          suggestion: `Use one of these ATS-safe fonts: ${ATS_SAFE_FONTS.join(', ')}`,
+        }],
+    autoFix: fixFont,
+  },
+  {
+    id: 'font-size',
+    name: 'Body text size',
+    category: 'typography',
+    severity: 'warning',
+    weight: SEVERITY_WEIGHTS.warning,
+    thresholds: { minBody: 9, maxBody: 14 },
+    check: ({ resume, thresholds }) => {
+      const body = resume.layout.fontSize?.body;
+      if (!body) return [];
+      if (body < thresholds.minBody) {
+        return [{
+          id: 'font-too-small',
+          message: 'Body text is too small',
+          section: 'Layout',
+          suggestion: `Use at least ${thresholds.minBody}pt for body text`,
+        }];
+      }
+      if (body > thresholds.maxBody) {
+        return [{
+          id: 'font-too-large',
+          message: 'Body text is too large',
+          section: 'Layout',
+          suggestion: `Use ${thresholds.minBody}-${thresholds.maxBody}pt for body text`,
+        }];
+      }
+      return [];
+    },
+  },
+  {
+    id: 'line-height',
+    name: 'Line height',
+    category: 'formatting',
+    severity: 'warning',
+    weight: SEVERITY_WEIGHTS.warning,
+    thresholds: { min: 1.0, max: 2.0 },
+    check: ({ resume, thresholds }) => {
+      const { lineHeight } = resume.layout;
+      if (!lineHeight) return [];
+      if (lineHeight < thresholds.min) {
+        return [{
+          id: 'line-height-tight',
+          message: 'Line height is too tight',
+          section: 'Layout',
+          suggestion: 'Use at least 1.2 for readability',
+        }];
+      }
+      if (lineHeight > thresholds.max) {
+        return [{
+          id: 'line-height-loose',
+          message: 'Line height is too loose',
+          section: 'Layout',
+          suggestion: 'Use 1.2-1.5 for optimal readability',
+        }];
+      }
+      return [];
+    },
+  },
+  {
+    id: 'page-margins',
+    name: 'Page margins',
+    category: 'formatting',
+    severity: 'warning',
+    weight: SEVERITY_WEIGHTS.warning,
+    thresholds: { min: 0.3, max: 1.5 },
+    check: ({ resume, thresholds }) => {
+      if (!resume.layout.pageMargins) return [];
+      const { top, right, bottom, left } = resume.layout.pageMargins;
+      if (Math.min(top, right, bottom, left) < thresholds.min) {
+        return [{
+          id: 'margins-too-small',
+          message: 'Margins are too small',
+          section: 'Layout',
+          suggestion: 'Use at least 0.5" margins for print safety',
+        }];
+      }
+      if (Math.max(top, right, bottom, left) > thresholds.max) {
+        return [{
+          id: 'margins-too-large',
+          type: 'info',
+          message: 'Margins are quite large',
+          section: 'Layout',
+          suggestion: 'Consider reducing margins to fit more content',
+        }];
+      }
+      return [];
+    },
+  },
+  {
+    id: 'colors',
+    name: 'Readable colors',
+    category: 'formatting',
+    severity: 'warning',
+    weight: SEVERITY_WEIGHTS.warning,
+    thresholds: { minContrast: 4.5 },
+    check: ({ resume, thresholds }) => {
+      const { colors } = resume.layout;
+      if (!colors) return [];
+
+      const findings: ATSRuleFinding[] = [];
+      if (getContrastRatio(colors.text || '#333', '#ffffff') < thresholds.minContrast) {
+        findings.push({
+          id: 'low-contrast',
+          message: 'Low contrast between text and background',
+          section: 'Layout',
+          suggestion: 'Use darker text colors for better readability',
+        });
+      }
+      if (colors.primary && isBrightColor(colors.primary)) {
+        findings.push({
+          id: 'bright-primary',
+          message: 'Primary color is too bright',
+          section: 'Layout',
+          suggestion: 'Use darker colors for better ATS compatibility',
+        });
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'sections-enabled',
+    name: 'Enabled sections',
+    category: 'structure',
+    severity: 'error',
+    weight: SEVERITY_WEIGHTS.error,
+    check: ({ resume }) =>
+      resume.sections.some((s) => s.enabled)
+        ? []
+        : [{
+          id: 'no-sections',
+          message: 'No sections enabled',
+          section: 'Sections',
+          suggestion: 'Enable at least one section to create a valid resume',
+        }],
+  },
+  {
+    id: 'standard-headers',
+    name: 'Standard section headers',
+    category: 'structure',
+    severity: 'info',
+    weight: SEVERITY_WEIGHTS.info,
+    check: ({ resume }) =>
+      resume.sections
+        .filter((section) => section.enabled && section.type !== 'custom' && !isStandardSectionHeader(section.title))
+        .map((section) => ({
+          id: `non-standard-header-${section.id}`,
+          message: `Section header "${section.title}" may not be recognized by ATS`,
+          section: section.title,
+          sectionId: section.id,
+          suggestion: 'Consider using standard headers like "Work Experience", "Skills", "Education"',
+        })),
+    autoFix: fixSectionHeader,
+  },
+  {
+    id: 'required-sections',
+    name: 'Required sections',
+    category: 'structure',
+    severity: 'warning',
+    weight: SEVERITY_WEIGHTS.warning,
+    check: ({ resume }) => {
+      const sectionTypes = resume.sections.filter((s) => s.enabled).map((s) => s.type);
+      const findings: ATSRuleFinding[] = [];
+
+      if (!sectionTypes.includes('experience')) {
+        findings.push({
+          id: 'missing-experience',
+          message: 'Work experience section is missing',
+          section: 'Sections',
+          suggestion: 'Add a work experience section to showcase your professional background',
+        });
+      }
+      if (!sectionTypes.includes('skills')) {
+        findings.push({
+          id: 'missing-skills',
+          message: 'Skills section is missing',
+          section: 'Sections',
+          suggestion: 'Add a skills section to highlight your technical abilities',
+        });
+      }
+      if (!sectionTypes.includes('education')) {
+        findings.push({
+          id: 'missing-education',
+          type: 'info',
+          message: 'Education section is recommended',
+          section: 'Sections',
+          suggestion: 'Add your educational background',
+        });
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'section-completeness',
+    name: 'Complete entries',
+    category: 'content',
+    severity: 'warning',
+    weight: SEVERITY_WEIGHTS.warning,
+    check: ({ resume }) => {
+      const findings: ATSRuleFinding[] = [];
+
+      resume.sections.forEach((section) => {
+        if (!section.enabled) return;
+        const base = { section: section.title, sectionId: section.id };
+
+        if (section.type === 'experience') {
+          const experiences = (section.content as any).experiences || [];
+          if (experiences.length === 0) {
+            findings.push({ ...base, id: `empty-section-${section.id}`, message: 'Experience section is empty', suggestion: 'Add at least one work experience entry' });
+          }
+          experiences.forEach((exp: any, index: number) => {
+            if (!exp.jobTitle?.trim()) {
+              findings.push({ ...base, id: `missing-job-title-${exp.id}`, type: 'error', message: `Experience #${index + 1}: Job title is required` });
+            }
+            if (!exp.company?.trim()) {
+              findings.push({ ...base, id: `missing-company-${exp.id}`, type: 'error', message: `Experience #${index + 1}: Company name is required` });
+            }
+            if (!exp.startDate) {
+              findings.push({ ...base, id: `missing-exp-start-date-${exp.id}`, message: `Experience #${index + 1}: Start date is recommended` });
+            }
+          });
+        }
+
+        if (section.type === 'education') {
+          const education = (section.content as any).education || [];
+          if (education.length === 0) {
+            findings.push({ ...base, id: `empty-section-${section.id}`, message: 'Education section is empty', suggestion: 'Add at least one education entry' });
+          }
+          education.forEach((edu: any, index: number) => {
+            if (!edu.degree?.trim()) {
+              findings.push({ ...base, id: `missing-degree-${edu.id}`, type: 'error', message: `Education #${index + 1}: Degree is required` });
+            }
+            if (!edu.institution?.trim()) {
+              findings.push({ ...base, id: `missing-institution-${edu.id}`, type: 'error', message: `Education #${index + 1}: Institution is required` });
+            }
+          });
+        }
+
+        if (section.type === 'skills' && ((section.content as any).skills || []).length === 0) {
+          findings.push({ ...base, id: `empty-section-${section.id}`, message: 'Skills section is empty', suggestion: 'Add relevant technical and soft skills' });
+        }
+      });
+
+      return findings;
+    },
+  },
+  {
+    id: 'skills-count',
+    name: 'Number of skills',
+    category: 'content',
+    severity: 'info',
+    weight: SEVERITY_WEIGHTS.info,
+    thresholds: { minSkills: 5 },
+    check: ({ resume, thresholds }) =>
+      resume.sections
+        .filter((section) => section.enabled && section.type === 'skills')
+        .filter((section) => {
+          const count = ((section.content as any).skills || []).length;
+          return count > 0 && count < thresholds.minSkills;
+        })
+        .map((section) => ({
+          id: `few-skills-${section.id}`,
+          message: 'Consider adding more skills',
+          section: section.title,
+          sectionId: section.id,
+          suggestion: 'Most resumes benefit from 8-15 relevant skills',
+        })),
+  },
+  {
+    id: 'summary-length',
+    name: 'Summary length',
+    category: 'content',
+    severity: 'info',
+    weight: SEVERITY_WEIGHTS.info,
+    thresholds: { minWords: 20, maxWords: 150 },
+    check: ({ resume, thresholds }) => {
+      const findings: ATSRuleFinding[] = [];
+
+      resume.sections
+        .filter((section) => section.enabled && section.type === 'summary')
+        .forEach((section) => {
+          const base = { section: section.title, sectionId: section.id };
+          const summary = ((section.content as any).summary || '').trim();
+          const wordCount = summary ? summary.split(/\s+/).length : 0;
+
+          if (wordCount === 0) {
+            findings.push({ ...base, id: `empty-summary-${section.id}`, message: 'Professional summary is empty', suggestion: 'Add a brief summary highlighting your key qualifications' });
+          } else if (wordCount < thresholds.minWords) {
+            findings.push({ ...base, id: `short-summary-${section.id}`, message: 'Professional summary is very short', suggestion: 'Aim for 50-100 words to effectively showcase your experience' });
+          } else if (wordCount > thresholds.maxWords) {
+            findings.push({ ...base, id: `long-summary-${section.id}`, type: 'warning', message: 'Professional summary is too long', suggestion: 'Keep it concise (50-100 words) for better readability' });
+          }
+        });
+
+      return findings;
+    },
+  },
+  {
+    id: 'date-formats',
+    name: 'Date formats',
+    category: 'dates',
+    severity: 'warning',
+    weight: SEVERITY_WEIGHTS.warning,
+    check: ({ resume }) => {
+      const findings: ATSRuleFinding[] = [];
+
+      resume.sections.forEach((section) => {
+        if (!section.enabled) return;
+        const base = { section: section.title, sectionId: section.id };
+
+        if (section.type === 'experience') {
+          const experiences = (section.content as any).experiences || [];
+          experiences.forEach((exp: any, index: number) => {
+            if (exp.startDate && !isValidDateFormat(exp.startDate)) {
+              findings.push({
+                ...base,
+                id: `invalid-exp-start-date-${exp.id}`,
+                itemId: exp.id,
+                field: 'startDate',
+                message: `Experience #${index + 1}: Start date format may not be recognized`,
+                suggestion: 'Use format: MM/YYYY or Month YYYY (e.g., 01/2020 or January 2020)',
+              });
+            }
+            if (exp.endDate && !exp.current && !isValidDateFormat(exp.endDate)) {
+              findings.push({
+                ...base,
+                id: `invalid-exp-end-date-${exp.id}`,
+                itemId: exp.id,
+                field: 'endDate',
+                message: `Experience #${index + 1}: End date format may not be recognized`,
+                suggestion: 'Use format: MM/YYYY or Month YYYY, or mark as "Present"',
+              });
+            }
+          });
+        }
+
+        if (section.type === 'education') {
+          const education = (section.content as any).education || [];
+          education.forEach((edu: any, index: number) => {
+            if (edu.startDate && !isValidDateFormat(edu.startDate)) {
+              findings.push({
+                ...base,
+                id: `invalid-edu-start-date-${edu.id}`,
+                itemId: edu.id,
+                field: 'startDate',
+                message: `Education #${index + 1}: Start date format may not be recognized`,
+                suggestion: 'Use format: MM/YYYY or Month YYYY',
+              });
+            }
+            if (edu.endDate && !isValidDateFormat(edu.endDate)) {
+              findings.push({
+                ...base,
+                id: `invalid-edu-end-date-${edu.id}`,
+                itemId: edu.id,
+                field: 'endDate',
+                message: `Education #${index + 1}: End date format may not be recognized`,
+                suggestion: 'Use format: MM/YYYY or Month YYYY',
+              });
+            }
+          });
+        }
+      });
+
+      return findings;
+    },
+    autoFix: fixDateFormat,
+  },
+  {
+    id: 'special-characters',
+    name: 'Special characters',
+    category: 'formatting',
+    severity: 'warning',
+    weight: SEVERITY_WEIGHTS.warning,
+    check: ({ resume }) =>
+      resume.sections
+        .filter((section) => section.enabled && PROBLEMATIC_CHARACTERS.test(JSON.stringify(section.content)))
+        .map((section) => ({
+          id: `special-chars-${section.id}`,
+          message: `Section "${section.title}" contains special characters that may not parse correctly`,
+          section: section.title,
+          sectionId: section.id,
+          suggestion: 'Replace decorative bullets with standard hyphens or asterisks',
+        })),
+    autoFix: fixSpecialCharacters,
+  },
+  {
+    id: 'mixed-direction',
+    name: 'Mixed text direction',
+    category: 'formatting',
+    severity: 'warning',
+    weight: SEVERITY_WEIGHTS.warning,
+    check: ({ resume }) => {
+      const { fullName } = resume.personalInfo;
+      const fields = [
+        { key: 'personalInfo.fullName', group: 'Personal Information', label: 'Full name', source: fullName || '' },
+        ...getTranslatableFields(resume),
+      ].filter((field) => hasMixedDirection(field.source));
+
+      // Section fields are keyed "sections.<id>...."; the rest is personal info
+      const bySection = new Map<string, typeof fields>();
+      fields.forEach((field) => {
+        const sectionId = field.key.startsWith('sections.') ? field.key.split('.')[1] : '';
+        bySection.set(sectionId, [...(bySection.get(sectionId) || []), field]);
+      });
+
+      return Array.from(bySection.entries())
+        .filter(([sectionId]) => !sectionId || resume.sections.some((s) => s.id === sectionId && s.enabled))
+        .map(([sectionId, sectionFields]) => {
+          const section = sectionId ? sectionFields[0].group : 'Personal Information';
+          const count = sectionFields.length === 1 ? '1 field' : `${sectionFields.length} fields`;
+          return {
+            id: `mixed-direction-${sectionId || 'personal-info'}`,
+            message: `"${section}" has ${count} mixing right-to-left and left-to-right text`,
+            section,
+            sectionId: sectionId || undefined,
+            suggestion:
+              'ATS parsers may read mixed-direction text out of order. Keep each line in one script, or put Latin names and terms on their own line',
+          };
+        });
+    },
+  },
+  {
+    id: 'page-length',
+    name: 'Resume length',
+    category: 'length',
+    severity: 'warning',
+    weight: SEVERITY_WEIGHTS.warning,
+    thresholds: { maxPages: 2, nearlyEmptyLastPage: 0.15, minFirstPageFill: 0.5, charsPerPage: 3000 },
+    check: ({ resume, pagination, thresholds }) => {
+      // Without a measured layout, estimate from the content size
+      if (!pagination) {
+        const totalContentLength = resume.sections
+          .filter((section) => section.enabled)
+          .reduce((total, section) => total + JSON.stringify(section.content).length, 0);
+        const estimatedPages = totalContentLength / thresholds.charsPerPage;
+
+        if (estimatedPages > thresholds.maxPages + 0.5) {
+          return [{
+            id: 'too-long',
+            message: `Resume may be too long (exceeds ${thresholds.maxPages} pages)`,
+            section: 'Length',
+            suggestion: 'Consider condensing content to 1-2 pages for better ATS performance',
+          }];
+        }
+        if (estimatedPages < 0.5) {
+          return [{
+            id: 'too-short',
+            type: 'info',
+            message: 'Resume appears short',
+            section: 'Length',
+            suggestion: 'Consider adding more details about your experience and skills',
+          }];
+        }
+        return [];
+      }
+
+      if (pagination.pageCount > thresholds.maxPages) {
+        return [{
+          id: 'too-long',
+          message: `Resume is ${pagination.pageCount} pages long`,
+          section: 'Length',
+          suggestion: 'Consider condensing content to 1-2 pages for better ATS performance',
+        }];
+      }
+      if (pagination.pageCount === 2 && pagination.lastPageFill < thresholds.nearlyEmptyLastPage) {
+        return [{
+          id: 'nearly-one-page',
+          type: 'info',
+          message: 'Second page is almost empty',
+          section: 'Length',
+          suggestion: 'Trim a few lines or reduce spacing so the resume fits on one page',
+        }];
+      }
+      if (pagination.pageCount === 1 && pagination.lastPageFill < thresholds.minFirstPageFill) {
+        return [{
+          id: 'too-short',
+          type: 'info',
+          message: 'Resume fills less than half a page',
+          section: 'Length',
+          suggestion: 'Consider adding more details about your experience and skills',
+        }];
+      }
+      return [];
+    },
+  },
+  {
+    id: 'page-breaks',
+    name: 'Page breaks',
+    category: 'length',
+    severity: 'warning',
+    weight: SEVERITY_WEIGHTS.warning,
+    check: ({ resume, pagination }) => {
+      if (!pagination) return [];
+
+      const titleOf = (sectionId: string) =>
+        resume.sections.find((s) => s.id === sectionId)?.title || 'Section';
+
+      const orphans: ATSRuleFinding[] = pagination.orphanedHeaders.map(({ sectionId, page }) => ({
+        id: `orphaned-header-${sectionId}`,
+        message: `"${titleOf(sectionId)}" heading is stranded at the bottom of page ${page}`,
+        section: titleOf(sectionId),
+        sectionId,
+        suggestion: 'Move the section, shorten the content above it or adjust spacing so the heading starts on the next page',
+      }));
+
+      const splits: ATSRuleFinding[] = pagination.splitItems.map(({ sectionId, itemIndex, page }) => ({
+        id: `split-item-${sectionId}-${itemIndex ?? 'section'}`,
+        message:
+          itemIndex === undefined
+            ? `"${titleOf(sectionId)}" is too long to fit on page ${page}`
+            : `Entry #${itemIndex + 1} in "${titleOf(sectionId)}" runs past the bottom of page ${page}`,
+        section: titleOf(sectionId),
+        sectionId,
+        suggestion: 'Shorten the content so it fits on a single page; ATS parsers can mix up text split across pages',
+      }));
+
+      return [...orphans, ...splits];
+    },
+  },
+  {
+    id: 'keyword-variety',
+    name: 'Keyword variety',
+    category: 'keywords',
+    severity: 'info',
+    weight: SEVERITY_WEIGHTS.info,
+    thresholds: { minVariety: 0.3, minLength: 100 },
+    check: ({ resume, thresholds }) => {
+      const experienceSection = resume.sections.find((s) => s.type === 'experience' && s.enabled);
+      if (!experienceSection) return [];
+
+      const experiences = (experienceSection.content as any).experiences || [];
+      return experiences
+        .map((exp: any, index: number) => ({ exp, index }))
+        .filter(({ exp }: { exp: any }) => {
+          const fullText = `${exp.description || ''} ${(exp.achievements || []).join(' ')}`;
+          return fullText.length > thresholds.minLength && calculateKeywordDensity(fullText) < thresholds.minVariety;
+        })
+        .map(({ exp, index }: { exp: any; index: number }) => ({
+          id: `low-keyword-density-${exp.id}`,
+          message: `Experience #${index + 1}: Low keyword variety`,
+          section: experienceSection.title,
+          sectionId: experienceSection.id,
+          suggestion: 'Include more specific technical terms and action verbs',
+        }));
+    },
+  },
+];
+
+const registry = new Map<string, ATSRule>(BUILT_IN_RULES.map((rule) => [rule.id, rule]));
+
+/**
+ * Add a rule to the registry, replacing any rule with the same id
+ */
+export const registerATSRule = (rule: ATSRule): void => {
+  registry.set(rule.id, rule);
+};
+
+export const unregisterATSRule = (ruleId: string): void => {
+  registry.delete(ruleId);
+};
+
+export const getATSRules = (): ATSRule[] => Array.from(registry.values());
+
+export const getATSRule = (ruleId: string): ATSRule | undefined => registry.get(ruleId);
+
+export const ATS_RULE_CATEGORY_LABELS: Record<ATSRule['category'], string> = {
+  contact: 'Contact Info',
+  structure: 'Structure',
+  content: 'Content',
+  dates: 'Dates',
+  typography: 'Typography',
+  formatting: 'Formatting',
+  length: 'Length',
+  keywords: 'Keywords',
+};
@@ -0,0 +1,57 @@
+import type { ATSRule, ATSRuleSettings, ATSSettings, ATSSeverity } from '../types/ats.types';
+import { STORAGE_KEYS, loadFromLocalStorage, saveToLocalStorage } from './storageManager';
+
+/**
+ * ATS Settings
+ *
+ * Per-rule overrides (enabled, severity, weight, thresholds) stored under
+ * STORAGE_KEYS.ATS_SETTINGS. Rules without an entry use their defaults.
+ */
+
+export const DEFAULT_ATS_SETTINGS: ATSSettings = { rules: {} };
+
+/**
+ * A rule's effective configuration after applying the user's overrides
+ */
+export interface ResolvedRuleSettings {
+  enabled: boolean;
+  severity: ATSSeverity;
+  weight: number;
+  thresholds: Record<string, number>;
+}
+
+export const resolveRuleSettings = (rule: ATSRule, settings?: ATSSettings | null): ResolvedRuleSettings => {
+  const overrides: ATSRuleSettings = settings?.rules?.[rule.id] || {};
+  return {
+    enabled: overrides.enabled !== false,
+    severity: overrides.severity || rule.severity,
+    weight: typeof overrides.weight === 'number' ? Math.max(0, overrides.weight) : rule.weight,
+    thresholds: { ...(rule.thresholds || {}), ...(overrides.thresholds || {}) },
+  };
+};
+
+/**
+ * Return new settings with the given overrides merged into one rule
+ */
+export const updateRuleSettings = (
+  settings: ATSSettings,
+  ruleId: string,
+  overrides: ATSRuleSettings
+): ATSSettings => ({
+  ...settings,
+  rules: {
+    ...settings.rules,
+    [ruleId]: { ...settings.rules[ruleId], ...overrides },
+  },
+});
+
+export const loadATSSettings = async (): Promise<ATSSettings> => {
+  const result = await loadFromLocalStorage<ATSSettings>(STORAGE_KEYS.ATS_SETTINGS, DEFAULT_ATS_SETTINGS);
+  const data = result.data;
+  return data && typeof data.rules === 'object' && data.rules !== null ? data : DEFAULT_ATS_SETTINGS;
+};
+
+export const saveATSSettings = async (settings: ATSSettings): Promise<boolean> => {
+  const result = await saveToLocalStorage(STORAGE_KEYS.ATS_SETTINGS, settings);
+  return result.success;
+};
@@ -0,0 +1,307 @@
+import type { Publication, PublicationType } from '../types/resume.types';
+import { generateId } from './skillsValidation';
+
+/**
+ * BibTeX Parser
+ *
+ * Reads publications from a .bib file (as exported by Google Scholar, Zotero
+ * or a LaTeX CV) into structured publications. Handles braced and quoted
+ * values, `#` concatenation, @string macros and the common LaTeX accents.
+ * Entries without a title are reported back instead of being imported.
+ */
+
+export interface BibtexImportResult {
+  publications: Publication[];
+  /** Entries that could not be imported, by citation key */
+  skipped: string[];
+  error?: string;
+}
+
+const ENTRY_TYPES: Record<string, PublicationType> = {
+  article: 'article',
+  inproceedings: 'conference',
+  conference: 'conference',
+  proceedings: 'conference',
+  book: 'book',
+  inbook: 'chapter',
+  incollection: 'chapter',
+  phdthesis: 'thesis',
+  mastersthesis: 'thesis',
+  thesis: 'thesis',
+  techreport: 'report',
+  report: 'report',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Combining marks for LaTeX accent commands
+const ACCENTS: Record<string, string> = {
+  "'": '\u0301',
+  '`': '\u0300',
+  '^': '\u0302',
+  '"': '\u0308',
+  '~': '\u0303',
+  '=': '\u0304',
+  '.': '\u0307',
+  c: '\u0327',
+  u: '\u0306',
+  v: '\u030C',
+  H: '\u030B',
+};
+
+const SPECIAL_LETTERS: Record<string, string> = {
+  ss: 'ß',
+  ae: 'æ',
+  AE: 'Æ',
+  oe: 'œ',
+  OE: 'Œ',
+  aa: 'å',
+  AA: 'Å',
+  o: 'ø',
+  O: 'Ø',
+  l: 'ł',
+  L: 'Ł',
+  i: 'ı',
+};
+
+/**
+ * Turn a raw BibTeX value into plain text
+ */
+export const cleanLatex = (value: string): string => {
+  let text = value
+    .replace(/\\([`'^"~=.])\s*\{?\s*\\?([A-Za-z])\s*\}?/g, (_, accent, letter) => letter + ACCENTS[accent])
+    .replace(/\\([cuvH])\s*(?:\{\s*([A-Za-z])\s*\}|\s([A-Za-z]))/g, (_, accent, braced, bare) => (braced || bare) + ACCENTS[accent])
+    .replace(/\\(ss|ae|AE|oe|OE|aa|AA|o|O|l|L|i)(?![A-Za-z])\s?/g, (_, name) => SPECIAL_LETTERS[name])
+    .replace(/\\([&%$#_{}])/g, '$1');
+
+  // \emph{...}, \textbf{...} and other formatting commands keep their text
+  let previous;
+  do {
+    previous = text;
+    text = text.replace(/\\[A-Za-z]+\s*\{([^{}]*)\}/g, '$1');
+  } while (text !== previous);
+
+  return text
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/~/g, ' ')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .normalize('NFC');
+};
+
+// Index of the brace or parenthesis closing the one at `open`, or -1
+const findClosing = (source: string, open: number): number => {
+  const closer = source[open] === '(' ? ')' : '}';
+  let depth = 0;
+  for (let i = open + 1; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+    } else if (char === closer && depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Closing quote of a quoted value, skipping quotes inside braces
+const findQuoteEnd = (source: string, open: number): number => {
+  let depth = 0;
+  for (let i = open + 1; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') i++;
+    else if (char === '{') depth++;
+    else if (char === '}') depth--;
+    else if (char === '"' && depth === 0) return i;
+  }
+  return -1;
+};
+
+/**
+ * Fields of an entry body, names lowercased and values still raw
+ */
+const parseFields = (body: string, macros: Record<string, string>): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  let pos = 0;
+
+  while (pos < body.length) {
+    const name = /^[\s,]*([A-Za-z][\w:.+-]*)\s*=\s*/.exec(body.slice(pos));
+    if (!name) break;
+    pos += name[0].length;
+
+    // A value is one or more pieces joined by #
+    let value = '';
+    for (;;) {
+      const char = body[pos];
+      if (char === '{' || char === '"') {
+        const end = char === '{' ? findClosing(body, pos) : findQuoteEnd(body, pos);
+        if (end === -1) return fields;
+        value += body.slice(pos + 1, end);
+        pos = end + 1;
+      } else {
+        const bare = /^[^\s,#}]+/.exec(body.slice(pos));
+        if (!bare) break;
+        const token = bare[0];
+        value += macros[token.toLowerCase()] ?? token;
+        pos += token.length;
+      }
+      const join = /^\s*#\s*/.exec(body.slice(pos));
+      if (!join) break;
+      pos += join[0].length;
+    }
+    fields[name[1].toLowerCase()] = value;
+  }
+
+  return fields;
+};
+
+/**
+ * Split an author field on "and", keeping braced corporate names whole
+ */
+const splitAuthors = (value: string): string[] => {
+  const names: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '{') depth++;
+    else if (value[i] === '}') depth--;
+    else if (depth === 0 && /^\sand\s/i.test(value.slice(i, i + 5))) {
+      names.push(value.slice(start, i));
+      start = i + 5;
+      i += 4;
+    }
+  }
+  names.push(value.slice(start));
+  return names
+    .map(cleanLatex)
+    .filter((name) => name && name.toLowerCase() !== 'others');
+};
+
+const parseMonth = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const normalized = value.trim().toLowerCase();
+  const number = Number(normalized);
+  if (number >= 1 && number <= 12) return number;
+  const index = MONTH_NAMES.indexOf(normalized.slice(0, 3));
+  return index >= 0 ? index + 1 : null;
+};
+
+const parseDate = (fields: Record<string, string>): string => {
+  // biblatex: date = {2021-05-01}
+  const iso = cleanLatex(fields.date || '').match(/^(\d{4})(?:-(\d{2}))?/);
+  if (iso) return iso[2] ? `${iso[1]}-${iso[2]}` : iso[1];
+
+  const year = cleanLatex(fields.year || '').match(/\d{4}/)?.[0];
+  if (!year) return '';
+  const month = parseMonth(cleanLatex(fields.month || ''));
+  return month ? `${year}-${String(month).padStart(2, '0')}` : year;
+};
+
+const toPublication = (entryType: string, fields: Record<string, string>): Publication | null => {
+  const field = (...names: string[]) => {
+    const name = names.find((candidate) => fields[candidate]);
+    return name ? cleanLatex(fields[name]) : undefined;
+  };
+  // Links keep their tildes and dashes
+  const link = (name: string) => fields[name]?.replace(/\\([&%$#_~])/g, '$1').replace(/[{}\s]/g, '') || undefined;
+
+  const title = field('title');
+  if (!title) return null;
+
+  const howPublished = field('howpublished', 'note', 'type') || '';
+  const type: PublicationType =
+    ENTRY_TYPES[entryType] ||
+    (/talk|presentation|keynote|seminar|poster/i.test(howPublished) ? 'talk' : 'other');
+
+  const publication: Publication = {
+    id: generateId(),
+    type,
+    title,
+    authors: splitAuthors(fields.author || fields.editor || ''),
+    venue: field('journal', 'journaltitle', 'booktitle', 'eventtitle', 'series', 'howpublished'),
+    date: parseDate(fields),
+    volume: field('volume'),
+    issue: field('number', 'issue'),
+    pages: field('pages'),
+    publisher: field('publisher', 'school', 'institution', 'organization'),
+    doi: link('doi')?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, ''),
+    url: link('url'),
+  };
+
+  // Leave unset fields out rather than storing undefined
+  return Object.fromEntries(
+    Object.entries(publication).filter(([, value]) => value !== undefined)
+  ) as unknown as Publication;
+};
+
+/**
+ * Read the publications in a BibTeX document
+ */
+export const parseBibtex = (source: string): BibtexImportResult => {
+  const publications: Publication[] = [];
+  const skipped: string[] = [];
+  const macros: Record<string, string> = Object.fromEntries(MONTH_NAMES.map((month) => [month, month]));
+
+  let pos = 0;
+  while ((pos = source.indexOf('@', pos)) !== -1) {
+    const header = /^@\s*([A-Za-z]+)\s*([{(])/.exec(source.slice(pos));
+    if (!header) {
+      pos++;
+      continue;
+    }
+
+    const entryType = header[1].toLowerCase();
+    const open = pos + header[0].length - 1;
+    const close = findClosing(source, open);
+    if (close === -1) {
+      skipped.push(`@${entryType} (unterminated)`);
+      break;
+    }
+    const body = source.slice(open + 1, close);
+    pos = close + 1;
+
+    if (entryType === 'comment' || entryType === 'preamble') continue;
+    if (entryType === 'string') {
+      Object.entries(parseFields(body, macros)).forEach(([name, value]) => {
+        macros[name] = value;
+      });
+      continue;
+    }
+
+    const comma = body.indexOf(',');
+    const key = (comma === -1 ? body : body.slice(0, comma)).trim();
+    const publication = comma === -1 ? null : toPublication(entryType, parseFields(body.slice(comma + 1), macros));
+    if (publication) {
+      publications.push(publication);
+    } else {
+      skipped.push(key || `@${entryType}`);
+    }
+  }
+
+  return { publications, skipped };
+};
+
+/**
+ * Read the publications in a .bib file
+ */
+export const importBibtexFromFile = (file: File): Promise<BibtexImportResult> => {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+
+    reader.onload = (e) => {
+      resolve(parseBibtex(e.target?.result as string));
+    };
+
+    reader.onerror = () => {
+      resolve({ publications: [], skipped: [], error: 'Failed to read file' });
+    };
+
+    reader.readAsText(file);
+  });
+};
@@ -0,0 +1,267 @@
+import type { CitationStyle, Publication, PublicationType } from '../types/resume.types';
+
+/**
+ * Citations
+ *
+ * Publications are stored as structured data and listed on the resume as
+ * APA (7th edition) or IEEE references. A citation is returned as parts so
+ * templates and the DOCX exporter can italicise journal and book titles;
+ * plain-text exports join the parts.
+ */
+
+export interface CitationPart {
+  text: string;
+  italic?: boolean;
+}
+
+export const CITATION_STYLES: { value: CitationStyle; label: string }[] = [
+  { value: 'apa', label: 'APA (7th edition)' },
+  { value: 'ieee', label: 'IEEE' },
+];
+
+export const PUBLICATION_TYPES: { value: PublicationType; label: string }[] = [
+  { value: 'article', label: 'Journal article' },
+  { value: 'conference', label: 'Conference paper' },
+  { value: 'book', label: 'Book' },
+  { value: 'chapter', label: 'Book chapter' },
+  { value: 'thesis', label: 'Thesis' },
+  { value: 'report', label: 'Technical report' },
+  { value: 'talk', label: 'Talk or presentation' },
+  { value: 'other', label: 'Other' },
+];
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const IEEE_MONTHS = ['Jan.', 'Feb.', 'Mar.', 'Apr.', 'May', 'Jun.', 'Jul.', 'Aug.', 'Sep.', 'Oct.', 'Nov.', 'Dec.'];
+
+interface AuthorName {
+  given: string[];
+  family: string;
+}
+
+/**
+ * Split "Ada Lovelace" or "Lovelace, Ada" into given and family names
+ */
+export const parseAuthorName = (name: string): AuthorName => {
+  const normalized = name.trim().replace(/\s+/g, ' ');
+  const comma = normalized.indexOf(',');
+  if (comma >= 0) {
+    return {
+      family: normalized.slice(0, comma).trim(),
+      given: normalized.slice(comma + 1).split(' ').filter(Boolean),
+    };
+  }
+  const words = normalized.split(' ');
+  return { family: words.pop() || '', given: words };
+};
+
+/**
+ * Authors typed as one line, separated by semicolons or "and"
+ */
+export const parseAuthorList = (text: string): string[] =>
+  text
+    .split(/;|\s+and\s+/i)
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+// "Jean-Paul Ada" -> "J.-P. A."
+const initials = (given: string[]): string =>
+  given
+    .map((name) =>
+      name
+        .split('-')
+        .map((part) => `${part.charAt(0).toUpperCase()}.`)
+        .join('-')
+    )
+    .join(' ');
+
+const apaName = (author: string): string => {
+  const { given, family } = parseAuthorName(author);
+  return given.length > 0 ? `${family}, ${initials(given)}` : family;
+};
+
+const ieeeName = (author: string): string => {
+  const { given, family } = parseAuthorName(author);
+  return [initials(given), family].filter(Boolean).join(' ');
+};
+
+const formatApaAuthors = (authors: string[]): string => {
+  const names = authors.filter((author) => author.trim()).map(apaName);
+  if (names.length <= 1) return names[0] || '';
+  // APA lists the first 19 authors, an ellipsis, then the last one
+  if (names.length > 20) return `${names.slice(0, 19).join(', ')}, . . . ${names[names.length - 1]}`;
+  return `${names.slice(0, -1).join(', ')}, & ${names[names.length - 1]}`;
+};
+
+const formatIeeeAuthors = (authors: string[]): string => {
+  const names = authors.filter((author) => author.trim()).map(ieeeName);
+  if (names.length <= 1) return names[0] || '';
+  if (names.length > 6) return `${names[0]} et al.`;
+  if (names.length === 2) return `${names[0]} and ${names[1]}`;
+  return `${names.slice(0, -1).join(', ')}, and ${names[names.length - 1]}`;
+};
+
+const getYear = (date: string): string => date.match(/^\d{4}/)?.[0] || '';
+
+const getMonth = (date: string): number | null => {
+  const month = Number(date.match(/^\d{4}-(\d{2})/)?.[1]);
+  return month >= 1 && month <= 12 ? month : null;
+};
+
+// En dash between page numbers
+const formatPages = (pages: string): string => pages.trim().replace(/\s*-{1,2}\s*/g, '–');
+
+const endsSentence = (value: string): boolean => /[.?!]$/.test(value);
+
+const getLink = (publication: Publication): string =>
+  publication.doi
+    ? `https://doi.org/${publication.doi.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '')}`
+    : publication.url || '';
+
+// Join groups of parts with a separator and merge neighbouring plain text
+const joinParts = (groups: CitationPart[][], separator: string): CitationPart[] =>
+  groups
+    .filter((group) => group.length > 0)
+    .flatMap((group, index) => (index === 0 ? group : [{ text: separator }, ...group]))
+    .reduce<CitationPart[]>((parts, part) => {
+      const previous = parts[parts.length - 1];
+      if (previous && !!previous.italic === !!part.italic) {
+        previous.text += part.text;
+      } else if (part.text) {
+        parts.push({ ...part });
+      }
+      return parts;
+    }, []);
+
+const formatApa = (publication: Publication): CitationPart[] => {
+  const { type, venue, volume, issue, publisher } = publication;
+  const title = publication.title.trim();
+  const year = getYear(publication.date || '');
+  const month = getMonth(publication.date || '');
+  const date = year ? (type === 'talk' && month ? `${year}, ${MONTHS[month - 1]}` : year) : 'n.d.';
+  const authors = formatApaAuthors(publication.authors);
+  const pages = publication.pages ? formatPages(publication.pages) : '';
+
+  const italicTitle = (): CitationPart[] =>
+    endsSentence(title) ? [{ text: title, italic: true }] : [{ text: title, italic: true }, { text: '.' }];
+  const plainTitle = (): CitationPart[] => [{ text: endsSentence(title) ? title : `${title}.` }];
+
+  let titlePart: CitationPart[];
+  const source: CitationPart[][] = [];
+  switch (type) {
+    case 'article':
+      titlePart = plainTitle();
+      if (venue) {
+        source.push([
+          { text: venue, italic: true },
+          ...(volume ? [{ text: ', ' }, { text: volume, italic: true }] : []),
+          ...(issue ? [{ text: `(${issue})` }] : []),
+          ...(pages ? [{ text: `, ${pages}` }] : []),
+          { text: '.' },
+        ]);
+      }
+      break;
+    case 'conference':
+    case 'chapter':
+      titlePart = plainTitle();
+      if (venue) {
+        source.push([{ text: 'In ' }, { text: venue, italic: true }, { text: pages ? ` (pp. ${pages}).` : '.' }]);
+      }
+      if (publisher) source.push([{ text: `${publisher}.` }]);
+      break;
+    case 'thesis':
+      titlePart = [{ text: title.replace(/\.$/, ''), italic: true }, { text: ` [Thesis${publisher ? `, ${publisher}` : ''}].` }];
+      break;
+    case 'talk':
+      titlePart = [{ text: `${title.replace(/\.$/, '')} [Presentation].` }];
+      if (venue) source.push([{ text: endsSentence(venue) ? venue : `${venue}.` }]);
+      break;
+    default:
+      titlePart = italicTitle();
+      [type === 'other' ? venue : '', publisher].forEach((value) => {
+        if (value) source.push([{ text: endsSentence(value) ? value : `${value}.` }]);
+      });
+  }
+
+  const link = getLink(publication);
+  // Without authors APA moves the title to the front
+  const lead: CitationPart[][] = authors
+    ? [[{ text: `${authors} (${date}).` }], titlePart]
+    : [titlePart, [{ text: `(${date}).` }]];
+
+  return joinParts([...lead, ...source, link ? [{ text: link }] : []], ' ');
+};
+
+const formatIeee = (publication: Publication, number?: number): CitationPart[] => {
+  const { type, venue, volume, issue, publisher, doi } = publication;
+  const title = publication.title.trim().replace(/\.$/, '');
+  const year = getYear(publication.date || '');
+  const month = getMonth(publication.date || '');
+  const when = [month ? IEEE_MONTHS[month - 1] : '', year].filter(Boolean).join(' ');
+  const pages = publication.pages ? `pp. ${formatPages(publication.pages)}` : '';
+  const authors = formatIeeeAuthors(publication.authors);
+  const cleanDoi = doi?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '');
+
+  const text = (value: string | undefined): CitationPart[] => (value ? [{ text: value }] : []);
+  const inVenue = (): CitationPart[] => (venue ? [{ text: 'in ' }, { text: venue, italic: true }] : []);
+
+  const lead: CitationPart[] = [
+    ...text(number !== undefined ? `[${number}] ` : ''),
+    ...text(authors ? `${authors}, ` : ''),
+  ];
+  const online = !cleanDoi && publication.url ? [{ text: ` [Online]. Available: ${publication.url}` }] : [];
+
+  if (type === 'book') {
+    const details = [publisher, when, cleanDoi ? `doi: ${cleanDoi}` : ''].filter(Boolean).join(', ');
+    return joinParts([lead, [{ text: title, italic: true }, { text: details ? `. ${details}.` : '.' }], online], '');
+  }
+
+  let details: CitationPart[][];
+  switch (type) {
+    case 'article':
+      details = [
+        venue ? [{ text: venue, italic: true }] : [],
+        text(volume && `vol. ${volume}`),
+        text(issue && `no. ${issue}`),
+        text(pages),
+        text(when),
+      ];
+      break;
+    case 'conference':
+      details = [inVenue(), text(when), text(pages)];
+      break;
+    case 'chapter':
+      details = [inVenue(), text(publisher), text(when), text(pages)];
+      break;
+    case 'thesis':
+      details = [text('Thesis'), text(publisher), text(when)];
+      break;
+    case 'report':
+      details = [text(publisher), text('Tech. Rep.'), text(when)];
+      break;
+    case 'talk':
+      details = [text(venue && `presented at ${venue}`), text(when)];
+      break;
+    default:
+      details = [text(venue), text(publisher), text(when)];
+  }
+  details.push(text(cleanDoi && `doi: ${cleanDoi}`));
+
+  const body = joinParts(details, ', ');
+  return joinParts(
+    [lead, body.length > 0 ? [{ text: `"${title}," ` }, ...body, { text: '.' }] : [{ text: `"${title}."` }], online],
+    ''
+  );
+};
+
+/**
+ * A publication as a reference in the given style. IEEE references are
+ * numbered when `number` is given.
+ */
+export const formatCitation = (publication: Publication, style: CitationStyle = 'apa', number?: number): CitationPart[] =>
+  style === 'ieee' ? formatIeee(publication, number) : formatApa(publication);
+
+export const citationToText = (parts: CitationPart[]): string => parts.map((part) => part.text).join('');
@@ -0,0 +1,82 @@
+import type { ColumnSettings, LayoutSettings, ResumeSection, SectionColumn } from '../types/resume.types';
+import type { TemplateDefinition } from '../types/template.types';
+
+/**
+ * Column Layout
+ *
+ * Resolves the column layout of a resume from the user's layout settings and
+ * the template definition, and which column each section is drawn in. The
+ * renderer, pagination and the section list all go through these helpers so
+ * they agree on placement.
+ */
+
+export const DEFAULT_SIDEBAR_WIDTH = 32; // percent
+export const MIN_SIDEBAR_WIDTH = 20;
+export const MAX_SIDEBAR_WIDTH = 45;
+
+export const resolveColumnLayout = (layout: LayoutSettings, definition: TemplateDefinition): ColumnSettings => {
+  const templateColumns = definition.columns;
+  const defaults: ColumnSettings = {
+    count: definition.styles.layout.columns,
+    sidebarWidth: templateColumns?.sidebarWidth ?? DEFAULT_SIDEBAR_WIDTH,
+    sidebarPosition: templateColumns?.sidebarPosition ?? 'left',
+  };
+  const resolved = { ...defaults, ...layout.columns };
+  return {
+    ...resolved,
+    sidebarWidth: Math.min(MAX_SIDEBAR_WIDTH, Math.max(MIN_SIDEBAR_WIDTH, resolved.sidebarWidth)),
+  };
+};
+
+/**
+ * Column a section belongs to: its own placement, else the template's
+ */
+export const getSectionColumn = (section: ResumeSection, definition: TemplateDefinition): SectionColumn =>
+  section.column ?? (definition.columns?.sidebar.includes(section.type) ? 'sidebar' : 'main');
+
+/**
+ * Split sections by column, keeping their order. With one column every
+ * section is in main.
+ */
+export const splitSectionsByColumn = (
+  sections: ResumeSection[],
+  definition: TemplateDefinition,
+  columns: ColumnSettings
+): Record<SectionColumn, ResumeSection[]> => {
+  if (columns.count !== 2) {
+    return { main: sections, sidebar: [] };
+  }
+  return {
+    main: sections.filter((section) => getSectionColumn(section, definition) === 'main'),
+    sidebar: sections.filter((section) => getSectionColumn(section, definition) === 'sidebar'),
+  };
+};
+
+/**
+ * New section order after moving a section into a column, placed before
+ * `beforeId` or after the column's last section when beforeId is null.
+ * Order is global across both columns.
+ */
+export const moveSectionToColumn = (
+  sections: ResumeSection[],
+  definition: TemplateDefinition,
+  sectionId: string,
+  column: SectionColumn,
+  beforeId: string | null
+): string[] => {
+  const ordered = [...sections].sort((a, b) => a.order - b.order);
+  const rest = ordered.filter((section) => section.id !== sectionId);
+
+  let index = beforeId ? rest.findIndex((section) => section.id === beforeId) : -1;
+  if (index === -1) {
+    const lastInColumn = rest.reduce(
+      (last, section, i) => (getSectionColumn(section, definition) === column ? i : last),
+      -1
+    );
+    index = lastInColumn === -1 ? rest.length : lastInColumn + 1;
+  }
+
+  const ids = rest.map((section) => section.id);
+  ids.splice(index, 0, sectionId);
+  return ids;
+};
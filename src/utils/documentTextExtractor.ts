@@ -0,0 +1,544 @@
+/**
+ * Document Text Extractor
+ * Pulls lines of text out of DOCX files and text-layer PDFs in the browser.
+ * Only the information the resume parser needs is kept: the text, whether the
+ * line was styled as a heading and whether it was a list item. Scanned PDFs
+ * (images without a text layer) are rejected since they would need OCR.
+ */
+
+import type { SourceLine } from '../types/resumeImport.types';
+import { inflate, readZip } from './zip';
+
+export const BULLET_PREFIX = /^(?:[-*–]\s+|[•◦▪▫■□●○◆◇★☆♦➢➤►▶✓✔]\s*)/;
+
+/**
+ * Collapse whitespace and turn tab stops (commonly used to right-align dates)
+ * into " | " separators
+ */
+const cleanLine = (text: string): string =>
+    text
+        .split(/\t+/)
+        .map((part) => part.replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .join(' | ');
+
+const toSourceLines = (text: string, isHeading: boolean, isList: boolean): SourceLine[] =>
+    text
+        .split('\n')
+        .map(cleanLine)
+        .filter(Boolean)
+        .map((line) => ({ text: line, isHeading, isBullet: isList || BULLET_PREFIX.test(line) }));
+
+// ---------------------------------------------------------------------------
+// DOCX
+// ---------------------------------------------------------------------------
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const HEADING_STYLE = /^(?:heading\s?[1-3]|berschrift[1-3])$/i;
+
+const wordAttribute = (element: Element, name: string): string =>
+    element.getAttributeNS(W_NS, name) || element.getAttribute(`w:${name}`) || '';
+
+const childElement = (element: Element, localName: string): Element | undefined =>
+    Array.from(element.children).find((child) => child.localName === localName);
+
+/**
+ * Concatenate the runs of a paragraph. Text boxes are skipped here because
+ * their own paragraphs are visited separately.
+ */
+const paragraphText = (paragraph: Element): string => {
+    let text = '';
+    const walk = (node: Element) => {
+        Array.from(node.children).forEach((child) => {
+            switch (child.localName) {
+                case 't':
+                    text += child.textContent || '';
+                    break;
+                case 'tab':
+                    text += '\t';
+                    break;
+                case 'br':
+                case 'cr':
+                    text += '\n';
+                    break;
+                case 'pPr':
+                case 'rPr':
+                case 'txbxContent':
+                case 'Fallback':
+                    break;
+                default:
+                    walk(child);
+            }
+        });
+    };
+    walk(paragraph);
+    return text;
+};
+
+/**
+ * Extract lines from a Word (.docx) document
+ */
+export const extractDocxLines = async (data: Uint8Array): Promise<SourceLine[]> => {
+    const files = await readZip(data);
+    const documentXml = files.get('word/document.xml');
+    if (!documentXml) {
+        throw new Error('Not a Word document: word/document.xml is missing');
+    }
+
+    const doc = new DOMParser().parseFromString(new TextDecoder().decode(documentXml), 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('The Word document is corrupt and could not be read');
+    }
+
+    return Array.from(doc.getElementsByTagNameNS(W_NS, 'p')).flatMap((paragraph) => {
+        const props = childElement(paragraph, 'pPr');
+        const style = props && childElement(props, 'pStyle');
+        const styleId = style ? wordAttribute(style, 'val') : '';
+        const isList = !!props && (!!childElement(props, 'numPr') || /^listparagraph$/i.test(styleId));
+
+        return toSourceLines(paragraphText(paragraph), HEADING_STYLE.test(styleId), isList);
+    });
+};
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+interface PdfObject {
+    dict: string;
+    stream?: Uint8Array;
+}
+
+/**
+ * Maps character codes of one font to Unicode, read from its ToUnicode CMap
+ */
+interface CMap {
+    codeBytes: number;
+    map: Map<number, string>;
+}
+
+// WinAnsiEncoding differs from Latin-1 only in 0x80-0x9f
+const WIN_ANSI_HIGH = '€\x81‚ƒ„…†‡ˆ‰Š‹Œ\x8dŽ\x8f\x90‘’“”•–—˜™š›œ\x9džŸ';
+
+/**
+ * Map each byte to the code point of the same value. TextDecoder('latin1')
+ * is really windows-1252 and would remap 0x80-0x9f.
+ */
+const bytesToBinaryString = (bytes: Uint8Array): string => {
+    let text = '';
+    for (let i = 0; i < bytes.length; i += 0x2000) {
+        text += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x2000)));
+    }
+    return text;
+};
+
+const hexToBytes = (hex: string): number[] => {
+    const clean = hex.replace(/[^0-9a-f]/gi, '');
+    const padded = clean.length % 2 ? `${clean}0` : clean;
+    const bytes: number[] = [];
+    for (let i = 0; i < padded.length; i += 2) {
+        bytes.push(parseInt(padded.slice(i, i + 2), 16));
+    }
+    return bytes;
+};
+
+const utf16HexToString = (hex: string): string => {
+    const clean = hex.replace(/[^0-9a-f]/gi, '');
+    let text = '';
+    for (let i = 0; i + 4 <= clean.length; i += 4) {
+        text += String.fromCharCode(parseInt(clean.slice(i, i + 4), 16));
+    }
+    return text;
+};
+
+const decodeStream = async (object: PdfObject): Promise<Uint8Array | null> => {
+    if (!object.stream) return null;
+    const filters = (object.dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] || '').match(/\/\w+/g) || [];
+    if (filters.length === 0) return object.stream;
+    if (filters.length > 1 || filters[0] !== '/FlateDecode') return null;
+    try {
+        return await inflate(object.stream, 'deflate');
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Locate every "N G obj ... endobj" in the file, including objects packed
+ * into compressed object streams (PDF 1.5+)
+ */
+const readPdfObjects = async (data: Uint8Array): Promise<Map<number, PdfObject>> => {
+    const text = bytesToBinaryString(data);
+    const objects = new Map<number, PdfObject>();
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = header.exec(text))) {
+        const bodyStart = match.index + match[0].length;
+        const endObj = text.indexOf('endobj', bodyStart);
+        const streamKeyword = text.slice(bodyStart, endObj < 0 ? undefined : endObj).search(/\bstream\r?\n/);
+
+        if (streamKeyword < 0) {
+            objects.set(Number(match[1]), { dict: text.slice(bodyStart, endObj < 0 ? undefined : endObj) });
+            continue;
+        }
+
+        const dict = text.slice(bodyStart, bodyStart + streamKeyword);
+        const dataStart = bodyStart + streamKeyword + (text[bodyStart + streamKeyword + 6] === '\r' ? 8 : 7);
+        const endStream = text.indexOf('endstream', dataStart);
+        if (endStream < 0) break;
+
+        const length = dict.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+        let dataEnd = length ? dataStart + Number(length[1]) : endStream;
+        if (!length || dataEnd > endStream) {
+            dataEnd = endStream;
+            while (dataEnd > dataStart && (text[dataEnd - 1] === '\n' || text[dataEnd - 1] === '\r')) dataEnd--;
+        }
+
+        objects.set(Number(match[1]), { dict, stream: data.subarray(dataStart, dataEnd) });
+        header.lastIndex = endStream;
+    }
+
+    for (const object of Array.from(objects.values())) {
+        if (!/\/Type\s*\/ObjStm/.test(object.dict)) continue;
+        const decoded = await decodeStream(object);
+        const first = Number(object.dict.match(/\/First\s+(\d+)/)?.[1]);
+        if (!decoded || Number.isNaN(first)) continue;
+
+        const content = bytesToBinaryString(decoded);
+        const numbers = content.slice(0, first).trim().split(/\s+/).map(Number);
+        for (let i = 0; i + 1 < numbers.length; i += 2) {
+            const start = first + numbers[i + 1];
+            const end = i + 3 < numbers.length ? first + numbers[i + 3] : content.length;
+            if (!objects.has(numbers[i])) {
+                objects.set(numbers[i], { dict: content.slice(start, end) });
+            }
+        }
+    }
+
+    return objects;
+};
+
+const parseCMap = (source: string): CMap => {
+    const map = new Map<number, string>();
+    const codespace = source.match(/begincodespacerange\s*<([0-9a-f]+)>/i);
+    const codeBytes = codespace ? Math.max(1, codespace[1].length / 2) : 2;
+
+    source.replace(/beginbfchar([\s\S]*?)endbfchar/g, (_block, body: string) => {
+        body.replace(/<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi, (_pair, src: string, dst: string) => {
+            map.set(parseInt(src, 16), utf16HexToString(dst));
+            return '';
+        });
+        return '';
+    });
+
+    source.replace(/beginbfrange([\s\S]*?)endbfrange/g, (_block, body: string) => {
+        body.replace(/<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<[0-9a-f]*>|\[[^\]]*\])/gi, (_range, lo: string, hi: string, dst: string) => {
+            const start = parseInt(lo, 16);
+            const end = parseInt(hi, 16);
+            if (dst.startsWith('[')) {
+                (dst.match(/<([0-9a-f]*)>/gi) || []).forEach((entry, offset) => {
+                    map.set(start + offset, utf16HexToString(entry));
+                });
+            } else {
+                const base = dst.replace(/[<>]/g, '');
+                const prefix = base.slice(0, -4);
+                const last = parseInt(base.slice(-4), 16);
+                for (let code = start; code <= end && code - start < 0x10000; code++) {
+                    map.set(code, utf16HexToString(prefix) + String.fromCharCode(last + code - start));
+                }
+            }
+            return '';
+        });
+        return '';
+    });
+
+    return { codeBytes, map };
+};
+
+const refs = (source: string): number[] => Array.from(source.matchAll(/(\d+)\s+\d+\s+R/g), (m) => Number(m[1]));
+
+/**
+ * Resolve a dictionary entry that is either inline (<< ... >>) or an indirect reference
+ */
+const dictEntry = (dict: string, key: string, objects: Map<number, PdfObject>): string | null => {
+    const inline = dict.match(new RegExp(`/${key}\\s*<<((?:[^<>]|<<[^<>]*>>)*)>>`));
+    if (inline) return inline[1];
+    const ref = dict.match(new RegExp(`/${key}\\s+(\\d+)\\s+\\d+\\s+R`));
+    return ref ? objects.get(Number(ref[1]))?.dict ?? null : null;
+};
+
+/**
+ * Find the fonts (resource name -> ToUnicode map) available to a page,
+ * following /Parent for inherited resources
+ */
+const pageFonts = async (page: PdfObject, objects: Map<number, PdfObject>): Promise<Map<string, CMap | null>> => {
+    let node: PdfObject | undefined = page;
+    let resources: string | null = null;
+    for (let depth = 0; node && !resources && depth < 20; depth++) {
+        resources = dictEntry(node.dict, 'Resources', objects);
+        const parent: RegExpMatchArray | null = node.dict.match(/\/Parent\s+(\d+)\s+\d+\s+R/);
+        node = parent ? objects.get(Number(parent[1])) : undefined;
+    }
+
+    const fonts = new Map<string, CMap | null>();
+    const fontDict = resources ? dictEntry(resources, 'Font', objects) : null;
+    if (!fontDict) return fonts;
+
+    for (const [, name, objectNumber] of Array.from(fontDict.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g))) {
+        const font = objects.get(Number(objectNumber));
+        const toUnicode = font?.dict.match(/\/ToUnicode\s+(\d+)\s+\d+\s+R/);
+        const cmapObject = toUnicode ? objects.get(Number(toUnicode[1])) : undefined;
+        const cmapData = cmapObject ? await decodeStream(cmapObject) : null;
+        fonts.set(name, cmapData ? parseCMap(bytesToBinaryString(cmapData)) : null);
+    }
+    return fonts;
+};
+
+type Token =
+    | { kind: 'number'; value: number }
+    | { kind: 'string'; value: number[] }
+    | { kind: 'name'; value: string }
+    | { kind: 'array'; value: Token[] }
+    | { kind: 'operator'; value: string };
+
+const DELIMITERS = '()<>[]{}/%';
+const isWhitespace = (char: string) => char === ' ' || char === '\n' || char === '\r' || char === '\t' || char === '\f' || char === '\0';
+
+/**
+ * Minimal tokenizer for page content streams
+ */
+function* tokenize(content: string): Generator<Token> {
+    const arrays: Token[][] = [];
+    let i = 0;
+
+    const emit = function* (token: Token): Generator<Token> {
+        if (arrays.length > 0) arrays[arrays.length - 1].push(token);
+        else yield token;
+    };
+
+    while (i < content.length) {
+        const char = content[i];
+
+        if (isWhitespace(char)) {
+            i++;
+        } else if (char === '%') {
+            while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+        } else if (char === '(') {
+            const bytes: number[] = [];
+            let depth = 1;
+            i++;
+            while (i < content.length && depth > 0) {
+                const c = content[i];
+                if (c === '\\') {
+                    const next = content[i + 1];
+                    const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+                    if (next in escapes) {
+                        bytes.push(escapes[next]);
+                        i += 2;
+                    } else if (/[0-7]/.test(next)) {
+                        const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+                        bytes.push(parseInt(octal, 8) & 0xff);
+                        i += 1 + octal.length;
+                    } else if (next === '\r' || next === '\n') {
+                        i += next === '\r' && content[i + 2] === '\n' ? 3 : 2;
+                    } else {
+                        bytes.push(next.charCodeAt(0));
+                        i += 2;
+                    }
+                    continue;
+                }
+                if (c === '(') depth++;
+                if (c === ')') depth--;
+                if (depth > 0) bytes.push(c.charCodeAt(0));
+                i++;
+            }
+            yield* emit({ kind: 'string', value: bytes });
+        } else if (char === '<' && content[i + 1] === '<') {
+            // Inline dictionaries (marked content properties) carry no text
+            let depth = 0;
+            do {
+                if (content.startsWith('<<', i)) { depth++; i += 2; }
+                else if (content.startsWith('>>', i)) { depth--; i += 2; }
+                else i++;
+            } while (depth > 0 && i < content.length);
+        } else if (char === '<') {
+            const end = content.indexOf('>', i);
+            yield* emit({ kind: 'string', value: hexToBytes(content.slice(i + 1, end)) });
+            i = end + 1;
+        } else if (char === '[') {
+            arrays.push([]);
+            i++;
+        } else if (char === ']') {
+            const array = arrays.pop() || [];
+            i++;
+            yield* emit({ kind: 'array', value: array });
+        } else if (char === '/') {
+            let end = i + 1;
+            while (end < content.length && !isWhitespace(content[end]) && !DELIMITERS.includes(content[end])) end++;
+            yield* emit({ kind: 'name', value: content.slice(i + 1, end) });
+            i = end;
+        } else {
+            let end = i;
+            while (end < content.length && !isWhitespace(content[end]) && !DELIMITERS.includes(content[end])) end++;
+            if (end === i) end++;
+            const word = content.slice(i, end);
+            i = end;
+
+            if (/^[+-]?(?:\d+\.?\d*|\.\d+)$/.test(word)) {
+                yield* emit({ kind: 'number', value: parseFloat(word) });
+            } else if (word === 'ID') {
+                // Skip inline image data
+                const imageEnd = content.indexOf('EI', i);
+                i = imageEnd < 0 ? content.length : imageEnd + 2;
+            } else {
+                yield* emit({ kind: 'operator', value: word });
+            }
+        }
+    }
+}
+
+const decodeText = (bytes: number[], cmap: CMap | null | undefined): string => {
+    if (!cmap) {
+        return bytes.map((byte) => (byte >= 0x80 && byte < 0xa0 ? WIN_ANSI_HIGH[byte - 0x80] : String.fromCharCode(byte))).join('');
+    }
+    let text = '';
+    for (let i = 0; i + cmap.codeBytes <= bytes.length; i += cmap.codeBytes) {
+        let code = 0;
+        for (let b = 0; b < cmap.codeBytes; b++) code = (code << 8) | bytes[i + b];
+        text += cmap.map.get(code) ?? '';
+    }
+    return text;
+};
+
+/**
+ * Interpret the text operators of a content stream, starting a new line
+ * whenever the baseline moves between two text-showing operators
+ */
+const contentStreamText = (content: string, fonts: Map<string, CMap | null>): string => {
+    const lines: string[] = [];
+    let current = '';
+    let pendingBreak = false;
+    let pendingSpace = false;
+    let font: CMap | null | undefined;
+    let x = 0;
+    let y = 0;
+    let shown: { x: number; y: number } | null = null;
+    let operands: Token[] = [];
+
+    const show = (bytes: number[]) => {
+        const text = decodeText(bytes, font);
+        if (!text) return;
+        if (shown) {
+            if ((pendingBreak || Math.abs(y - shown.y) > 1) && current.trim()) {
+                lines.push(current);
+                current = '';
+            } else if ((pendingSpace || x !== shown.x) && current && !current.endsWith(' ') && !text.startsWith(' ')) {
+                current += ' ';
+            }
+        }
+        shown = { x, y };
+        pendingBreak = false;
+        pendingSpace = false;
+        current += text;
+    };
+
+    const number = (index: number): number => {
+        const token = operands[operands.length + index];
+        return token && token.kind === 'number' ? token.value : 0;
+    };
+
+    for (const token of tokenize(content)) {
+        if (token.kind !== 'operator') {
+            operands.push(token);
+            continue;
+        }
+
+        const last = operands[operands.length - 1];
+        switch (token.value) {
+            case 'BT':
+                x = 0;
+                y = 0;
+                break;
+            case 'Tf': {
+                const name = operands[operands.length - 2];
+                font = name && name.kind === 'name' ? fonts.get(name.value) : undefined;
+                break;
+            }
+            case 'Td':
+            case 'TD':
+                x += number(-2);
+                y += number(-1);
+                break;
+            case 'Tm':
+                x = number(-2);
+                y = number(-1);
+                break;
+            case 'T*':
+                pendingBreak = true;
+                break;
+            case 'Tj':
+                if (last?.kind === 'string') show(last.value);
+                break;
+            case "'":
+            case '"':
+                pendingBreak = true;
+                if (last?.kind === 'string') show(last.value);
+                break;
+            case 'TJ':
+                if (last?.kind === 'array') {
+                    last.value.forEach((item) => {
+                        if (item.kind === 'string') show(item.value);
+                        else if (item.kind === 'number' && item.value < -200) pendingSpace = true;
+                    });
+                }
+                break;
+        }
+        operands = [];
+    }
+
+    if (current.trim()) lines.push(current);
+    return lines.join('\n');
+};
+
+/**
+ * Extract lines from the text layer of a PDF
+ */
+export const extractPdfLines = async (data: Uint8Array): Promise<SourceLine[]> => {
+    if (bytesToBinaryString(data.subarray(0, 5)) !== '%PDF-') {
+        throw new Error('Not a PDF file');
+    }
+    if (/\/Encrypt\s/.test(bytesToBinaryString(data.subarray(Math.max(0, data.length - 4096))))) {
+        throw new Error('Encrypted PDFs cannot be imported. Remove the password and try again.');
+    }
+
+    const objects = await readPdfObjects(data);
+    const pages = Array.from(objects.values()).filter((object) => /\/Type\s*\/Page(?![s\w])/.test(object.dict));
+    const lines: SourceLine[] = [];
+
+    for (const page of pages) {
+        const fonts = await pageFonts(page, objects);
+        const contents = page.dict.match(/\/Contents\s*(\[[^\]]*\]|\d+\s+\d+\s+R)/)?.[1] || '';
+
+        let content = '';
+        for (const ref of refs(contents)) {
+            const object = objects.get(ref);
+            // A /Contents entry may point at an array object of stream references
+            const streams = object && !object.stream ? refs(object.dict).map((n) => objects.get(n)) : [object];
+            for (const stream of streams) {
+                const decoded = stream ? await decodeStream(stream) : null;
+                if (decoded) content += `${bytesToBinaryString(decoded)}\n`;
+            }
+        }
+
+        lines.push(...toSourceLines(contentStreamText(content, fonts), false, false));
+    }
+
+    const letters = lines.reduce((count, line) => count + (line.text.match(/\p{L}/gu) || []).length, 0);
+    if (letters < 20) {
+        throw new Error('No selectable text found in this PDF. Scanned documents need OCR and cannot be imported.');
+    }
+
+    return lines;
+};
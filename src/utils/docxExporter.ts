@@ -0,0 +1,504 @@
+/**
+ * DOCX Exporter
+ * Generates an Office Open XML (.docx) document from a Resume entirely on the
+ * client. Output is deliberately plain: one column, real Word headings and
+ * bullet lists, so ATS parsers and recruiters' Word installs read it cleanly.
+ */
+
+import type {
+    Resume,
+    ResumeSection,
+    LayoutSettings,
+    WorkExperience,
+    Project,
+    Skill,
+    Education,
+    Certification,
+    Language,
+    Publication,
+    CitationStyle,
+    Award,
+    VolunteerExperience,
+    Reference,
+    AdditionalInfoItem,
+    CustomSection,
+} from '../types/resume.types';
+import { templateHelpers } from './templateHelpers';
+import { getResumeLocale } from './resumeLocale';
+import { formatLanguageLevel } from './languageLevels';
+import { formatCitation } from './citations';
+import { createZip } from './zip';
+import { RichTextSpan, linkSuffix, parseInline, parseRichText } from './richText';
+import { getPageDimensions, resolvePageSize } from './pageSize';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const TWIPS_PER_INCH = 1440;
+const MM_PER_INCH = 25.4;
+const TWIPS_PER_PX = 15;
+
+interface RunOptions {
+    bold?: boolean;
+    italic?: boolean;
+    size?: number;
+    color?: string;
+}
+
+interface Run {
+    text: string;
+    options?: RunOptions;
+}
+
+interface ParagraphOptions {
+    style?: string;
+    bullet?: boolean;
+    align?: 'left' | 'center' | 'right';
+    spacingBefore?: number;
+    spacingAfter?: number;
+}
+
+/**
+ * Escape text for inclusion in WordprocessingML
+ */
+const escapeXml = (text: string): string =>
+    text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        // Strip control characters that are invalid in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+/**
+ * Take the first family out of a CSS font stack ("Inter, system-ui" -> "Inter")
+ */
+const primaryFont = (fontFamily: string): string => {
+    const first = (fontFamily || 'Arial').split(',')[0].trim();
+    return first.replace(/^['"]|['"]$/g, '') || 'Arial';
+};
+
+/**
+ * Normalise a CSS hex colour to the 6-digit form Word expects
+ */
+const toWordColor = (color: string | undefined): string | undefined => {
+    if (!color) return undefined;
+    const hex = color.replace('#', '').trim();
+    if (/^[0-9a-f]{3}$/i.test(hex)) {
+        return hex.split('').map((c) => c + c).join('').toUpperCase();
+    }
+    return /^[0-9a-f]{6}$/i.test(hex) ? hex.toUpperCase() : undefined;
+};
+
+/** Font sizes in LayoutSettings are points; Word measures in half-points */
+const halfPoints = (pt: number): number => Math.round(pt * 2);
+
+const run = ({ text, options = {} }: Run): string => {
+    const props: string[] = [];
+    if (options.bold) props.push('<w:b/>');
+    if (options.italic) props.push('<w:i/>');
+    if (options.color) props.push(`<w:color w:val="${options.color}"/>`);
+    if (options.size) props.push(`<w:sz w:val="${halfPoints(options.size)}"/><w:szCs w:val="${halfPoints(options.size)}"/>`);
+
+    const rPr = props.length > 0 ? `<w:rPr>${props.join('')}</w:rPr>` : '';
+    return `<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const paragraph = (runs: Run[], options: ParagraphOptions = {}): string => {
+    const props: string[] = [];
+    if (options.style) props.push(`<w:pStyle w:val="${options.style}"/>`);
+    if (options.bullet) props.push('<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>');
+    if (options.spacingBefore !== undefined || options.spacingAfter !== undefined) {
+        const before = options.spacingBefore !== undefined ? ` w:before="${options.spacingBefore}"` : '';
+        const after = options.spacingAfter !== undefined ? ` w:after="${options.spacingAfter}"` : '';
+        props.push(`<w:spacing${before}${after}/>`);
+    }
+    if (options.align && options.align !== 'left') props.push(`<w:jc w:val="${options.align}"/>`);
+
+    const pPr = props.length > 0 ? `<w:pPr>${props.join('')}</w:pPr>` : '';
+    return `<w:p>${pPr}${runs.filter((r) => r.text).map(run).join('')}</w:p>`;
+};
+
+const text = (value: string, options?: RunOptions): Run => ({ text: value, options });
+
+/**
+ * Split free text into paragraphs, turning "-", "*" and "•" lines into bullets
+ */
+const freeText = (value: string): string[] =>
+    value
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((line) => {
+            const bulletMatch = line.match(/^[-*•◦▪]\s+(.*)$/);
+            return bulletMatch
+                ? paragraph([text(bulletMatch[1])], { bullet: true })
+                : paragraph([text(line)]);
+        });
+
+const bullets = (items: string[] | undefined): string[] =>
+    templateHelpers.text
+        .formatBulletPoints(items || [])
+        .map((item) => paragraph([text(item)], { bullet: true }));
+
+/**
+ * Runs for a line of rich text. Word gets bold and italic as run formatting;
+ * links are written as their label plus the address, like the text export.
+ */
+const richRuns = (spans: RichTextSpan[]): Run[] =>
+    spans.flatMap((span, index) => [
+        text(span.text, { bold: span.bold, italic: span.italic }),
+        text(linkSuffix(spans, index)),
+    ]);
+
+/**
+ * Split rich text into paragraphs and bullet paragraphs
+ */
+const richText = (value: string): string[] =>
+    parseRichText(value).flatMap((block) =>
+        block.type === 'list'
+            ? block.items.map((item) => paragraph(richRuns(item), { bullet: true }))
+            : block.lines.map((line) => {
+                const bulletMatch = line.length > 0 ? line[0].text.match(/^[•◦▪]\s+(.*)$/) : null;
+                return bulletMatch
+                    ? paragraph(richRuns([{ ...line[0], text: bulletMatch[1] }, ...line.slice(1)]), { bullet: true })
+                    : paragraph(richRuns(line));
+            })
+    );
+
+const richBullets = (items: string[] | undefined): string[] =>
+    templateHelpers.text
+        .formatBulletPoints(items || [])
+        .map((item) => paragraph(richRuns(parseInline(item)), { bullet: true }));
+
+const dateRange = (startDate: string, endDate: string | undefined, current: boolean, locale: string): string => {
+    if (!startDate && !endDate && !current) return '';
+    return templateHelpers.date.formatDateRange(startDate || '', endDate || '', current, 'month-year', locale);
+};
+
+/**
+ * A bold heading line followed by a secondary detail line
+ */
+const entryHeading = (title: string, detail: string, layout: LayoutSettings): string[] => {
+    const secondary = toWordColor(layout.colors.secondary);
+    const result = [paragraph([text(title, { bold: true })], { style: 'Heading2' })];
+    if (detail) {
+        result.push(paragraph([text(detail, { italic: true, color: secondary })], { spacingAfter: 40 }));
+    }
+    return result;
+};
+
+const joinParts = (parts: Array<string | undefined>, separator = ' | '): string =>
+    parts.filter((part): part is string => !!part && !!part.trim()).join(separator);
+
+const renderExperience = (experiences: WorkExperience[], layout: LayoutSettings, locale: string): string[] =>
+    experiences.flatMap((exp) => [
+        ...entryHeading(
+            joinParts([exp.jobTitle, exp.company]),
+            joinParts([exp.location, dateRange(exp.startDate, exp.endDate, exp.current, locale)]),
+            layout
+        ),
+        ...(exp.description ? richText(exp.description) : []),
+        ...richBullets(exp.achievements),
+    ]);
+
+const renderProjects = (projects: Project[], layout: LayoutSettings, locale: string): string[] =>
+    projects.flatMap((project) => [
+        ...entryHeading(
+            project.name,
+            joinParts([
+                project.techStack && project.techStack.length > 0 ? project.techStack.join(', ') : undefined,
+                dateRange(project.startDate, project.endDate, project.current, locale),
+            ]),
+            layout
+        ),
+        ...(project.description ? richText(project.description) : []),
+        ...richBullets(project.achievements),
+        ...(project.url || project.githubUrl
+            ? [paragraph([text(joinParts([project.url, project.githubUrl]))])]
+            : []),
+    ]);
+
+const renderSkills = (skills: Skill[]): string[] => {
+    const byCategory = skills.reduce<Record<string, string[]>>((groups, skill) => {
+        const category = skill.category || 'Other';
+        (groups[category] = groups[category] || []).push(skill.name);
+        return groups;
+    }, {});
+
+    return Object.entries(byCategory).map(([category, names]) =>
+        paragraph([
+            text(`${templateHelpers.text.titleCase(category)}: `, { bold: true }),
+            text(names.join(', ')),
+        ])
+    );
+};
+
+const renderEducation = (education: Education[], layout: LayoutSettings, locale: string): string[] =>
+    education.flatMap((edu) => [
+        ...entryHeading(
+            joinParts([edu.degree, edu.institution]),
+            joinParts([edu.location, dateRange(edu.startDate, edu.endDate, false, locale), edu.gpa ? `GPA: ${edu.gpa}` : undefined]),
+            layout
+        ),
+        ...(edu.coursework && edu.coursework.length > 0
+            ? [paragraph([text('Relevant Coursework: ', { bold: true }), text(edu.coursework.join(', '))])]
+            : []),
+    ]);
+
+const renderCertifications = (certifications: Certification[], locale: string): string[] =>
+    certifications.map((cert) =>
+        paragraph(
+            [
+                text(cert.name, { bold: true }),
+                text(cert.issuer ? ` | ${cert.issuer}` : ''),
+                text(cert.issueDate ? ` | ${templateHelpers.date.formatDate(cert.issueDate, 'month-year', locale)}` : ''),
+                text(cert.credentialId ? ` | Credential ID: ${cert.credentialId}` : ''),
+            ],
+            { bullet: true }
+        )
+    );
+
+const renderLanguages = (languages: Language[], showCefr: boolean): string[] =>
+    languages.length > 0
+        ? [
+            paragraph(
+                languages.flatMap((language, index) => [
+                    ...(index > 0 ? [text(', ')] : []),
+                    text(language.name, { bold: true }),
+                    text(` (${formatLanguageLevel(language, showCefr)})`),
+                ])
+            ),
+        ]
+        : [];
+
+const renderPublications = (publications: Publication[], style: CitationStyle): string[] =>
+    publications.map((publication, index) =>
+        paragraph(
+            formatCitation(publication, style, index + 1).map((part) => text(part.text, part.italic ? { italic: true } : undefined)),
+            { spacingAfter: 80 }
+        )
+    );
+
+const renderAwards = (awards: Award[], layout: LayoutSettings, locale: string): string[] =>
+    awards.flatMap((award) => [
+        ...entryHeading(
+            joinParts([award.title, award.issuer]),
+            joinParts([award.date ? templateHelpers.date.formatDate(award.date, 'month-year', locale) : undefined, award.amount]),
+            layout
+        ),
+        ...(award.description ? freeText(award.description) : []),
+    ]);
+
+const renderVolunteering = (volunteering: VolunteerExperience[], layout: LayoutSettings, locale: string): string[] =>
+    volunteering.flatMap((item) => [
+        ...entryHeading(
+            joinParts([item.role, item.organization]),
+            joinParts([item.location, dateRange(item.startDate, item.endDate, item.current, locale)]),
+            layout
+        ),
+        ...(item.description ? richText(item.description) : []),
+        ...richBullets(item.achievements),
+    ]);
+
+const renderReferences = (references: Reference[], onRequest: boolean, layout: LayoutSettings): string[] =>
+    onRequest
+        ? [paragraph([text('Available upon request')])]
+        : references.flatMap((reference) => [
+            ...entryHeading(reference.name, joinParts([reference.jobTitle, reference.company]), layout),
+            ...(reference.relationship ? [paragraph([text(reference.relationship)])] : []),
+            ...(reference.email || reference.phone
+                ? [paragraph([text(joinParts([reference.email, reference.phone]))])]
+                : []),
+        ]);
+
+const renderAdditionalInfo = (items: AdditionalInfoItem[], layout: LayoutSettings): string[] =>
+    items.flatMap((item) => [...entryHeading(item.title, '', layout), ...bullets(item.content)]);
+
+const renderSectionBody = (section: ResumeSection, layout: LayoutSettings, locale: string): string[] => {
+    const content = section.content as any;
+
+    switch (section.type) {
+        case 'summary':
+            return content.summary ? freeText(content.summary) : [];
+        case 'experience':
+            return renderExperience(content.experiences || [], layout, locale);
+        case 'projects':
+            return renderProjects(content.projects || [], layout, locale);
+        case 'skills':
+            return renderSkills(content.skills || []);
+        case 'education':
+            return renderEducation(content.education || [], layout, locale);
+        case 'certifications':
+            return renderCertifications(content.certifications || [], locale);
+        case 'languages':
+            return renderLanguages(content.languages || [], !!content.showCefr);
+        case 'publications':
+            return renderPublications(content.publications || [], content.citationStyle || 'apa');
+        case 'awards':
+            return renderAwards(content.awards || [], layout, locale);
+        case 'volunteering':
+            return renderVolunteering(content.volunteering || [], layout, locale);
+        case 'references':
+            return renderReferences(content.references || [], !!content.onRequest, layout);
+        case 'additional-info':
+            return renderAdditionalInfo(content.additionalInfo || [], layout);
+        case 'custom':
+            return (content.custom as CustomSection)?.content ? richText(content.custom.content) : [];
+        default:
+            return [];
+    }
+};
+
+const renderHeader = (resume: Resume): string[] => {
+    const { personalInfo, layout } = resume;
+    const primary = toWordColor(layout.colors.primary);
+    const secondary = toWordColor(layout.colors.secondary);
+
+    const contact = joinParts([
+        personalInfo.email,
+        personalInfo.phone ? templateHelpers.phone.format(personalInfo.phone) : undefined,
+        personalInfo.location,
+        personalInfo.linkedin ? templateHelpers.url.formatForDisplay(personalInfo.linkedin) : undefined,
+        personalInfo.github ? templateHelpers.url.formatForDisplay(personalInfo.github) : undefined,
+        personalInfo.portfolio ? templateHelpers.url.formatForDisplay(personalInfo.portfolio) : undefined,
+        personalInfo.website ? templateHelpers.url.formatForDisplay(personalInfo.website) : undefined,
+    ]);
+
+    return [
+        paragraph([text(personalInfo.fullName || 'Your Name', { bold: true, color: primary })], { style: 'Title', align: 'center' }),
+        ...(personalInfo.title
+            ? [paragraph([text(personalInfo.title, { size: layout.fontSize.title, color: secondary })], { align: 'center' })]
+            : []),
+        ...(contact ? [paragraph([text(contact, { color: secondary })], { align: 'center' })] : []),
+    ];
+};
+
+const buildDocumentXml = (resume: Resume): string => {
+    const { layout } = resume;
+    const locale = getResumeLocale(resume);
+    const sectionSpacing = Math.round(layout.sectionSpacing * TWIPS_PER_PX);
+
+    const body = [
+        ...renderHeader(resume),
+        ...[...resume.sections]
+            .filter((section) => section.enabled)
+            .sort((a, b) => a.order - b.order)
+            .flatMap((section) => {
+                const sectionBody = renderSectionBody(section, layout, locale);
+                if (sectionBody.length === 0) return [];
+                const heading = section.hideTitle
+                    ? []
+                    : [paragraph([text(templateHelpers.locale.sectionTitle(section.type, section.title, locale))], { style: 'Heading1', spacingBefore: sectionSpacing })];
+                return [...heading, ...sectionBody];
+            }),
+    ].join('');
+
+    const margin = (inches: number) => Math.round(inches * TWIPS_PER_INCH);
+    const page = getPageDimensions(resolvePageSize(layout));
+    const pageWidth = margin(page.widthMm / MM_PER_INCH);
+    const pageHeight = margin(page.heightMm / MM_PER_INCH);
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<w:body>${body}<w:sectPr><w:pgSz w:w="${pageWidth}" w:h="${pageHeight}"/><w:pgMar w:top="${margin(layout.pageMargins.top)}" w:right="${margin(layout.pageMargins.right)}" w:bottom="${margin(layout.pageMargins.bottom)}" w:left="${margin(layout.pageMargins.left)}" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`;
+};
+
+const buildStylesXml = (layout: LayoutSettings, locale: string): string => {
+    const font = escapeXml(primaryFont(layout.fontFamily));
+    const textColor = toWordColor(layout.colors.text) || '000000';
+    const primary = toWordColor(layout.colors.primary) || textColor;
+    const line = Math.round(layout.lineHeight * 240);
+    const fonts = `<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}" w:eastAsia="${font}"/>`;
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults>
+<w:rPrDefault><w:rPr>${fonts}<w:color w:val="${textColor}"/><w:sz w:val="${halfPoints(layout.fontSize.body)}"/><w:szCs w:val="${halfPoints(layout.fontSize.body)}"/><w:lang w:val="${escapeXml(locale)}"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:before="0" w:after="60" w:line="${line}" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/></w:pPr><w:rPr><w:b/><w:sz w:val="${halfPoints(layout.fontSize.name)}"/><w:szCs w:val="${halfPoints(layout.fontSize.name)}"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="${primary}"/></w:pBdr><w:spacing w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:caps/><w:color w:val="${primary}"/><w:sz w:val="${halfPoints(layout.fontSize.sectionHeader)}"/><w:szCs w:val="${halfPoints(layout.fontSize.sectionHeader)}"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="120" w:after="0"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="${halfPoints(layout.fontSize.body + 1)}"/><w:szCs w:val="${halfPoints(layout.fontSize.body + 1)}"/></w:rPr></w:style>
+</w:styles>`;
+};
+
+// A single bulleted list definition shared by every bullet paragraph
+const NUMBERING_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="360" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum>
+<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+</w:numbering>`;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+</Relationships>`;
+
+const buildCoreXml = (resume: Resume): string => {
+    const name = escapeXml(resume.personalInfo.fullName || 'Resume');
+    const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${name} - Resume</dc:title>
+<dc:creator>${name}</dc:creator>
+<dc:language>${escapeXml(getResumeLocale(resume))}</dc:language>
+<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>
+<dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>
+</cp:coreProperties>`;
+};
+
+/**
+ * Generate the raw bytes of a .docx package for a resume
+ */
+export const generateResumeDOCX = (resume: Resume): Uint8Array =>
+    createZip([
+        { name: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+        { name: '_rels/.rels', data: ROOT_RELS_XML },
+        { name: 'docProps/core.xml', data: buildCoreXml(resume) },
+        { name: 'word/document.xml', data: buildDocumentXml(resume) },
+        { name: 'word/styles.xml', data: buildStylesXml(resume.layout, getResumeLocale(resume)) },
+        { name: 'word/numbering.xml', data: NUMBERING_XML },
+        { name: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS_XML },
+    ]);
+
+/**
+ * Generate a .docx Blob for a resume
+ */
+export const exportResumeDOCX = (resume: Resume): Blob =>
+    new Blob([generateResumeDOCX(resume) as Uint8Array<ArrayBuffer>], { type: DOCX_MIME_TYPE });
+
+/**
+ * Download resume as a Word document
+ */
+export const downloadResumeDOCX = (resume: Resume, filename?: string): void => {
+    const blob = exportResumeDOCX(resume);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+
+    link.href = url;
+    link.download = filename || `resume-${resume.personalInfo.fullName.replace(/\s+/g, '-').toLowerCase()}-${new Date().toISOString().split('T')[0]}.docx`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
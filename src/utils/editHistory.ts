@@ -0,0 +1,392 @@
+/**
+ * Edit History
+ *
+ * Undo history of one resume kept as a tree: editing after an undo starts a
+ * new branch next to the undone states instead of discarding them, and any
+ * state in the tree can be returned to. Redo follows the branch that was
+ * visited last. Entries are labelled from the reducer actions that produced
+ * them.
+ *
+ * Entries store patches to and from their parent rather than whole resumes
+ * (see statePatch.ts); the root and every CHECKPOINT_INTERVAL-th entry also
+ * keep the full state, so reaching a distant entry never replays more than
+ * that many patches. The tree holds the current state itself, so undo and
+ * redo apply a single patch.
+ *
+ * A commit diffs the new state against the present one rather than deriving
+ * the patch from the reducer actions, so every action (including SET_RESUME
+ * and imports) is covered without a patch rule of its own. The diff skips
+ * subtrees both states share: after an edit the reducer has copied only the
+ * path to the changed value, so the cost is that path plus the items of the
+ * lists along it. A state that shares nothing with the present, such as one
+ * loaded from the server next to a history restored from IndexedDB, costs a
+ * single walk of the resume; after that commit the present is the editor's
+ * own state again.
+ *
+ * All functions are pure and return a new tree; persisting it is left to the
+ * caller.
+ */
+
+import type { HistoryEntry, Resume } from '../types/resume.types';
+import type { AppAction } from '../types/actions.types';
+import { applyPatch, diffState, type Patch } from './statePatch';
+
+export const MAX_HISTORY_ENTRIES = 2000;
+export const CHECKPOINT_INTERVAL = 50;
+
+export interface HistoryNode {
+    id: string;
+    parentId: string | null;
+    /** Turns the parent's state into this entry's; empty on the root */
+    patch: Patch;
+    /** Turns this entry's state back into the parent's */
+    inverse: Patch;
+    /** Full state, kept on the root and at regular intervals */
+    checkpoint?: Resume;
+    /** Reducer action types that led here from the parent */
+    actions: string[];
+    label: string;
+    createdAt: string;
+    /** The child redo goes to: the one created or visited last */
+    redoId?: string;
+}
+
+export interface HistoryTree {
+    resumeId: string;
+    rootId: string;
+    currentId: string;
+    /** State at the current entry */
+    present: Resume;
+    nodes: Record<string, HistoryNode>;
+}
+
+// Actions that don't change the resume and say nothing about an edit
+const IGNORED_ACTIONS = new Set<string>([
+    'SAVE_RESUME',
+    'VALIDATE_ATS',
+    'CLEAR_ATS_ISSUES',
+    'SET_LOADING',
+    'SET_ERROR',
+    'CLEAR_ERROR',
+    'SET_PREVIEW_MODE',
+    'TOGGLE_SIDEBAR',
+    'SET_ACTIVE_SECTION',
+]);
+
+// Labels where the action type alone reads badly
+const ACTION_LABELS: Partial<Record<AppAction['type'], string>> = {
+    SET_RESUME: 'Replaced resume content',
+    LOAD_RESUME: 'Loaded resume',
+    RESET_RESUME: 'Reset resume',
+    SET_TEMPLATE: 'Switched template',
+    RESET_TEMPLATE: 'Reset template',
+    FIX_ATS_ISSUE: 'Applied ATS fix',
+    FIX_ATS_ISSUES: 'Applied ATS fixes',
+    SET_LOCALE: 'Changed resume language',
+    SET_LANGUAGE_CEFR_DISPLAY: 'Toggled CEFR levels',
+    SET_REFERENCES_ON_REQUEST: 'Toggled references on request',
+    UPDATE_DIRECTION: 'Changed text direction',
+};
+
+const VERBS: Record<string, string> = {
+    ADD: 'Added',
+    UPDATE: 'Edited',
+    DELETE: 'Deleted',
+    REMOVE: 'Removed',
+    REORDER: 'Reordered',
+    TOGGLE: 'Toggled',
+    MOVE: 'Moved',
+    DUPLICATE: 'Duplicated',
+    IMPORT: 'Imported',
+    SET: 'Changed',
+};
+
+const createId = (): string => `h-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Label for one reducer action type, e.g. UPDATE_EXPERIENCE → "Edited experience"
+ */
+export const actionLabel = (type: string): string => {
+    const known = ACTION_LABELS[type as AppAction['type']];
+    if (known) return known;
+
+    const [verb, ...rest] = type.split('_');
+    const subject = rest.join(' ').toLowerCase();
+    return VERBS[verb] ? `${VERBS[verb]} ${subject}` : type.replace(/_/g, ' ').toLowerCase();
+};
+
+/**
+ * Label for an entry produced by several actions, e.g. a burst of typing
+ */
+export const describeActions = (types: string[]): string => {
+    const labels = Array.from(new Set(types.filter((type) => !IGNORED_ACTIONS.has(type)).map(actionLabel)));
+    if (labels.length === 0) return 'Edited resume';
+    if (labels.length <= 2) return labels.join(', ');
+    return `${labels.slice(0, 2).join(', ')} and ${labels.length - 2} more`;
+};
+
+export const createHistory = (state: Resume, label = 'Opened resume'): HistoryTree => {
+    const id = createId();
+    return {
+        resumeId: state.id,
+        rootId: id,
+        currentId: id,
+        present: state,
+        nodes: {
+            [id]: {
+                id,
+                parentId: null,
+                patch: [],
+                inverse: [],
+                checkpoint: state,
+                actions: [],
+                label,
+                createdAt: new Date().toISOString(),
+            },
+        },
+    };
+};
+
+export const currentState = (tree: HistoryTree): Resume => tree.present;
+
+/**
+ * Whether a state differs from the current entry's. Every reducer action
+ * stamps updatedAt, which on its own isn't a change worth an entry.
+ */
+export const hasChanges = (tree: HistoryTree, state: Resume): boolean =>
+    diffState(tree.present, state).patch.some((op) => op.path.length !== 1 || op.path[0] !== 'updatedAt');
+
+const byCreation = (a: HistoryNode, b: HistoryNode): number => a.createdAt.localeCompare(b.createdAt);
+
+const children = (tree: HistoryTree, id: string): HistoryNode[] =>
+    Object.values(tree.nodes)
+        .filter((node) => node.parentId === id)
+        .sort(byCreation);
+
+/** Ids from the root down to a node */
+const pathTo = (tree: HistoryTree, id: string): string[] => {
+    const path: string[] = [];
+    for (let node: HistoryNode | undefined = tree.nodes[id]; node; node = node.parentId ? tree.nodes[node.parentId] : undefined) {
+        path.push(node.id);
+    }
+    return path.reverse();
+};
+
+/**
+ * Drop the oldest entries beyond the limit. Undone branches go first from
+ * their tips; the root goes once nothing else branches off it, and its child
+ * becomes a checkpoint. The current entry and its ancestors' branch are kept.
+ */
+const prune = (tree: HistoryTree, limit: number): HistoryTree => {
+    const ids = Object.keys(tree.nodes);
+    if (ids.length <= limit) return tree;
+
+    let { rootId } = tree;
+    const nodes = { ...tree.nodes };
+    const active = new Set(pathTo(tree, tree.currentId));
+    const childIds = new Map<string, string[]>();
+    ids.forEach((id) => {
+        const parentId = nodes[id].parentId;
+        if (parentId) childIds.set(parentId, [...(childIds.get(parentId) || []), id]);
+    });
+
+    let count = ids.length;
+    while (count > limit) {
+        const candidates = Object.values(nodes).filter((node) =>
+            node.id === rootId
+                ? node.id !== tree.currentId && childIds.get(node.id)?.length === 1
+                : !active.has(node.id) && !childIds.get(node.id)?.length
+        );
+        if (candidates.length === 0) break;
+
+        const oldest = candidates.reduce((a, b) => (byCreation(b, a) < 0 ? b : a));
+        delete nodes[oldest.id];
+        count--;
+
+        if (oldest.id === rootId) {
+            const next = nodes[childIds.get(oldest.id)![0]];
+            nodes[next.id] = {
+                ...next,
+                parentId: null,
+                patch: [],
+                inverse: [],
+                checkpoint: next.checkpoint ?? applyPatch(oldest.checkpoint!, next.patch),
+            };
+            rootId = next.id;
+        } else if (oldest.parentId) {
+            const parent = nodes[oldest.parentId];
+            childIds.set(parent.id, childIds.get(parent.id)!.filter((id) => id !== oldest.id));
+            if (parent.redoId === oldest.id) {
+                nodes[parent.id] = { ...parent, redoId: undefined };
+            }
+        }
+        childIds.delete(oldest.id);
+    }
+
+    return { ...tree, rootId, nodes };
+};
+
+/** Entries between a node and the nearest checkpoint at or above it */
+const distanceToCheckpoint = (tree: HistoryTree, id: string): number => {
+    let distance = 0;
+    for (let node = tree.nodes[id]; !node.checkpoint && node.parentId; node = tree.nodes[node.parentId]) {
+        distance++;
+    }
+    return distance;
+};
+
+/**
+ * Record a new state after the current one. Entries after the current one
+ * stay in the tree as a branch.
+ */
+export const commit = (
+    tree: HistoryTree,
+    state: Resume,
+    actions: string[],
+    limit: number = MAX_HISTORY_ENTRIES
+): HistoryTree => {
+    const id = createId();
+    const parent = tree.nodes[tree.currentId];
+    const { patch, inverse } = diffState(tree.present, state);
+    const isCheckpoint = distanceToCheckpoint(tree, parent.id) + 1 >= CHECKPOINT_INTERVAL;
+    return prune(
+        {
+            ...tree,
+            currentId: id,
+            present: state,
+            nodes: {
+                ...tree.nodes,
+                [parent.id]: { ...parent, redoId: id },
+                [id]: {
+                    id,
+                    parentId: parent.id,
+                    patch,
+                    inverse,
+                    ...(isCheckpoint && { checkpoint: state }),
+                    actions,
+                    label: describeActions(actions),
+                    createdAt: new Date().toISOString(),
+                },
+            },
+        },
+        limit
+    );
+};
+
+export const canUndo = (tree: HistoryTree): boolean => tree.nodes[tree.currentId].parentId !== null;
+
+export const canRedo = (tree: HistoryTree): boolean => redoTarget(tree) !== undefined;
+
+const redoTarget = (tree: HistoryTree): string | undefined => {
+    const current = tree.nodes[tree.currentId];
+    if (current.redoId && tree.nodes[current.redoId]) return current.redoId;
+    const branches = children(tree, current.id);
+    return branches.length > 0 ? branches[branches.length - 1].id : undefined;
+};
+
+/**
+ * Rebuild the state at an entry, either from the current state (back to the
+ * common ancestor, then forward) or from the nearest checkpoint above the
+ * entry, whichever needs fewer patches
+ */
+const stateAt = (tree: HistoryTree, targetPath: string[]): Resume => {
+    const currentPath = pathTo(tree, tree.currentId);
+    let common = 0;
+    while (common < targetPath.length && common < currentPath.length && targetPath[common] === currentPath[common]) {
+        common++;
+    }
+
+    let checkpointAt = targetPath.length - 1;
+    while (!tree.nodes[targetPath[checkpointAt]].checkpoint) {
+        checkpointAt--;
+    }
+
+    let state: Resume;
+    let from: number;
+    if (targetPath.length - 1 - checkpointAt < currentPath.length + targetPath.length - 2 * common) {
+        state = tree.nodes[targetPath[checkpointAt]].checkpoint!;
+        from = checkpointAt + 1;
+    } else {
+        state = tree.present;
+        for (let index = currentPath.length - 1; index >= common; index--) {
+            state = applyPatch(state, tree.nodes[currentPath[index]].inverse);
+        }
+        from = common;
+    }
+    for (let index = from; index < targetPath.length; index++) {
+        state = applyPatch(state, tree.nodes[targetPath[index]].patch);
+    }
+    return state;
+};
+
+/**
+ * Move to any entry. Its ancestors remember the branch so redo after undoing
+ * comes back the same way.
+ */
+export const jumpTo = (tree: HistoryTree, id: string): HistoryTree => {
+    if (!tree.nodes[id] || id === tree.currentId) return tree;
+
+    const nodes = { ...tree.nodes };
+    const path = pathTo(tree, id);
+    path.slice(0, -1).forEach((nodeId, index) => {
+        if (nodes[nodeId].redoId !== path[index + 1]) {
+            nodes[nodeId] = { ...nodes[nodeId], redoId: path[index + 1] };
+        }
+    });
+    return { ...tree, currentId: id, present: stateAt(tree, path), nodes };
+};
+
+// Undo and redo step to a neighbour with one patch. The current entry's
+// ancestors already point their redo at it, so only the step itself changes.
+const step = (tree: HistoryTree, parentId: string, childId: string, toChild: boolean): HistoryTree => {
+    const parent = tree.nodes[parentId];
+    const child = tree.nodes[childId];
+    return {
+        ...tree,
+        currentId: toChild ? childId : parentId,
+        present: applyPatch(tree.present, toChild ? child.patch : child.inverse),
+        nodes: parent.redoId === childId ? tree.nodes : { ...tree.nodes, [parentId]: { ...parent, redoId: childId } },
+    };
+};
+
+export const undo = (tree: HistoryTree): HistoryTree => {
+    const parentId = tree.nodes[tree.currentId].parentId;
+    return parentId ? step(tree, parentId, tree.currentId, false) : tree;
+};
+
+export const redo = (tree: HistoryTree): HistoryTree => {
+    const target = redoTarget(tree);
+    return target ? step(tree, tree.currentId, target, true) : tree;
+};
+
+/**
+ * The tree flattened oldest first, each branch listed after the entry it
+ * branched off from
+ */
+export const listEntries = (tree: HistoryTree): HistoryEntry[] => {
+    const active = new Set(pathTo(tree, tree.currentId));
+    const entries: HistoryEntry[] = [];
+    const childNodes = new Map<string, HistoryNode[]>();
+    Object.values(tree.nodes).forEach((node) => {
+        if (node.parentId) childNodes.set(node.parentId, [...(childNodes.get(node.parentId) || []), node]);
+    });
+
+    const visit = (node: HistoryNode, depth: number) => {
+        entries.push({
+            id: node.id,
+            label: node.label,
+            createdAt: node.createdAt,
+            depth,
+            isCurrent: node.id === tree.currentId,
+            isActive: active.has(node.id),
+        });
+        const branches = (childNodes.get(node.id) || []).sort(byCreation);
+        // The branch the user is on continues at the same depth; the others are indented
+        const main = branches.find((child) => active.has(child.id)) ?? branches[branches.length - 1];
+        branches.filter((child) => child !== main).forEach((child) => visit(child, depth + 1));
+        if (main) visit(main, depth);
+    };
+
+    visit(tree.nodes[tree.rootId], 0);
+    return entries;
+};
@@ -1,4 +1,5 @@
 import { WorkExperience } from "../types/resume.types";
+import { stripRichText } from "./richText";
 
 /**
  * Validation error interface for experience entries
@@ -169,7 +170,7 @@ export const validateExperience = (experience: WorkExperience): ExperienceValida
   const locationError = validateField("location", experience.location);
   if (locationError) errors.location = locationError;
 
-  const descriptionError = validateField("description", experience.description);
+  const descriptionError = validateField("description", stripRichText(experience.description));
   if (descriptionError) errors.description = descriptionError;
 
   // Validate date range
@@ -177,7 +178,7 @@ export const validateExperience = (experience: WorkExperience): ExperienceValida
   if (dateRangeError) errors.dateRange = dateRangeError;
 
   // Validate achievements
-  const achievementErrors = validateAchievements(experience.achievements || []);
+  const achievementErrors = validateAchievements((experience.achievements || []).map(stripRichText));
   if (Object.keys(achievementErrors).length > 0) {
     errors.achievements = achievementErrors;
   }
@@ -239,11 +240,11 @@ export const checkATSCompliance = (experience: WorkExperience): {
     issues.push("Company name contains characters that may not be ATS-friendly");
   }
 
-  if (problematicChars.test(experience.description)) {
+  if (problematicChars.test(stripRichText(experience.description))) {
     issues.push("Description contains characters that may not be ATS-friendly");
   }
 
-  const achievements = experience.achievements || [];
+  const achievements = (experience.achievements || []).map(stripRichText);
 
   achievements.forEach((achievement, index) => {
     if (problematicChars.test(achievement)) {
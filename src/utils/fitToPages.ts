@@ -0,0 +1,243 @@
+import type { LayoutSettings } from '../types/resume.types';
+import { ATS_RULES } from '../constants/atsGuidelines';
+
+/**
+ * Fit to Pages
+ *
+ * Compacts a layout step by step until the resume fits on a target number of
+ * pages. Whitespace goes first (section spacing, margins, line height), type
+ * size last, and nothing is taken below the legibility limits below. Page
+ * counts come from a caller-supplied measurement so the search can be run
+ * against the real pagination.
+ */
+
+export const FIT_LIMITS = {
+  /** Inches; ATS parsers and printers expect at least half an inch */
+  minMargin: ATS_RULES.LAYOUT.MIN_MARGINS,
+  minSectionSpacing: 6, // px
+  minLineHeight: 1.15,
+  /** Points; ATS rules allow 9pt, but 10pt is the smallest comfortable body text */
+  minFontSize: {
+    name: 18,
+    title: 10,
+    sectionHeader: 10,
+    body: 10,
+  },
+} as const;
+
+// Amount taken off per step
+const SPACING_STEP = 2;
+const MARGIN_STEP = 0.05;
+const LINE_HEIGHT_STEP = 0.05;
+const FONT_SIZE_STEP = 1;
+
+type FontSizeField = keyof LayoutSettings['fontSize'];
+type MarginSide = keyof LayoutSettings['pageMargins'];
+
+const round = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+// Reduce towards a minimum without ever raising a value already below it
+const reduce = (value: number, step: number, min: number, decimals: number): number =>
+  value <= min ? value : Math.max(min, round(value - step, decimals));
+
+const shrinkSpacing = (layout: LayoutSettings): LayoutSettings => ({
+  ...layout,
+  sectionSpacing: reduce(layout.sectionSpacing, SPACING_STEP, FIT_LIMITS.minSectionSpacing, 0),
+});
+
+const shrinkMargins = (sides: MarginSide[]) => (layout: LayoutSettings): LayoutSettings => {
+  const pageMargins = { ...layout.pageMargins };
+  sides.forEach((side) => {
+    pageMargins[side] = reduce(pageMargins[side], MARGIN_STEP, FIT_LIMITS.minMargin, 2);
+  });
+  return { ...layout, pageMargins };
+};
+
+const shrinkLineHeight = (layout: LayoutSettings): LayoutSettings => ({
+  ...layout,
+  lineHeight: reduce(layout.lineHeight, LINE_HEIGHT_STEP, FIT_LIMITS.minLineHeight, 2),
+});
+
+const shrinkFontSizes = (layout: LayoutSettings): LayoutSettings => {
+  const fontSize = { ...layout.fontSize };
+  (Object.keys(fontSize) as FontSizeField[]).forEach((field) => {
+    fontSize[field] = reduce(fontSize[field], FONT_SIZE_STEP, FIT_LIMITS.minFontSize[field], 0);
+  });
+  return { ...layout, fontSize };
+};
+
+const isSameLayout = (a: LayoutSettings, b: LayoutSettings): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// Apply the shrink steps in turn until none of them changes anything
+const compactRounds = (
+  start: LayoutSettings,
+  steps: Array<(layout: LayoutSettings) => LayoutSettings>
+): LayoutSettings[] => {
+  const candidates: LayoutSettings[] = [];
+  let current = start;
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const step of steps) {
+      const next = step(current);
+      if (!isSameLayout(next, current)) {
+        candidates.push(next);
+        current = next;
+        changed = true;
+      }
+    }
+  }
+  return candidates;
+};
+
+/**
+ * Progressively tighter layouts, each one step more compact than the last.
+ * Whitespace is taken in turns so no single setting is crushed, then font
+ * sizes come down one point at a time. The last entry is the tightest layout
+ * the limits allow.
+ */
+export const getCompactionSteps = (layout: LayoutSettings): LayoutSettings[] => {
+  const whitespace = compactRounds(layout, [
+    shrinkSpacing,
+    shrinkMargins(['top', 'bottom']),
+    shrinkMargins(['left', 'right']),
+    shrinkLineHeight,
+  ]);
+  const typeSizes = compactRounds(whitespace[whitespace.length - 1] ?? layout, [shrinkFontSizes]);
+  return [...whitespace, ...typeSizes];
+};
+
+/**
+ * The layout update that applies a fit to `current`: only the settings the
+ * fit changed between `before` and `after` are set, so settings changed
+ * elsewhere while the fit was measured are kept.
+ */
+export const getFitUpdate = (
+  current: LayoutSettings,
+  before: LayoutSettings,
+  after: LayoutSettings
+): Partial<LayoutSettings> => {
+  const update: Partial<LayoutSettings> = {};
+  if (before.sectionSpacing !== after.sectionSpacing) update.sectionSpacing = after.sectionSpacing;
+  if (before.lineHeight !== after.lineHeight) update.lineHeight = after.lineHeight;
+
+  const sides = (Object.keys(after.pageMargins) as MarginSide[]).filter(
+    (side) => before.pageMargins[side] !== after.pageMargins[side]
+  );
+  if (sides.length > 0) {
+    update.pageMargins = { ...current.pageMargins };
+    sides.forEach((side) => {
+      update.pageMargins![side] = after.pageMargins[side];
+    });
+  }
+
+  const fields = (Object.keys(after.fontSize) as FontSizeField[]).filter(
+    (field) => before.fontSize[field] !== after.fontSize[field]
+  );
+  if (fields.length > 0) {
+    update.fontSize = { ...current.fontSize };
+    fields.forEach((field) => {
+      update.fontSize![field] = after.fontSize[field];
+    });
+  }
+  return update;
+};
+
+export interface LayoutChange {
+  label: string;
+  from: string;
+  to: string;
+}
+
+const FONT_SIZE_LABELS: Record<FontSizeField, string> = {
+  name: 'Name size',
+  title: 'Title size',
+  sectionHeader: 'Section header size',
+  body: 'Body text size',
+};
+
+/**
+ * Human-readable list of the settings that differ between two layouts
+ */
+export const describeLayoutChanges = (before: LayoutSettings, after: LayoutSettings): LayoutChange[] => {
+  const changes: LayoutChange[] = [];
+  const add = (label: string, from: number, to: number, format: (value: number) => string) => {
+    if (from !== to) changes.push({ label, from: format(from), to: format(to) });
+  };
+  const inches = (value: number) => `${value.toFixed(2)}"`;
+
+  add('Section spacing', before.sectionSpacing, after.sectionSpacing, (value) => `${value}px`);
+  (['top', 'right', 'bottom', 'left'] as const).forEach((side) => {
+    add(`${side[0].toUpperCase()}${side.slice(1)} margin`, before.pageMargins[side], after.pageMargins[side], inches);
+  });
+  add('Line height', before.lineHeight, after.lineHeight, (value) => value.toFixed(2));
+  (Object.keys(FONT_SIZE_LABELS) as FontSizeField[]).forEach((field) => {
+    add(FONT_SIZE_LABELS[field], before.fontSize[field], after.fontSize[field], (value) => `${value}pt`);
+  });
+  return changes;
+};
+
+export type FitResult =
+  | { status: 'fits'; pageCount: number }
+  | { status: 'compacted'; pageCount: number; layout: LayoutSettings; changes: LayoutChange[] }
+  | { status: 'refused'; pageCount: number; reason: string };
+
+/**
+ * Find the least compact layout that fits the resume on `targetPages` pages.
+ * `countPages` measures the resume with a candidate layout. Refuses when even
+ * the tightest layout within the limits is too long.
+ */
+export const fitLayoutToPages = async (
+  layout: LayoutSettings,
+  targetPages: number,
+  countPages: (layout: LayoutSettings) => Promise<number>
+): Promise<FitResult> => {
+  const current = await countPages(layout);
+  if (current <= targetPages) {
+    return { status: 'fits', pageCount: current };
+  }
+
+  const candidates = getCompactionSteps(layout);
+  const pages = targetPages === 1 ? 'one page' : `${targetPages} pages`;
+  if (candidates.length === 0) {
+    return {
+      status: 'refused',
+      pageCount: current,
+      reason: `The layout is already as compact as legibility allows. Shorten the content to fit ${pages}.`,
+    };
+  }
+
+  const tightest = await countPages(candidates[candidates.length - 1]);
+  if (tightest > targetPages) {
+    return {
+      status: 'refused',
+      pageCount: current,
+      reason: `Even the most compact legible layout needs ${tightest} pages. Shorten the content to fit ${pages}.`,
+    };
+  }
+
+  // Candidates only get tighter, so binary search for the first one that fits
+  let low = 0;
+  let high = candidates.length - 1;
+  let pageCount = tightest;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    const count = await countPages(candidates[mid]);
+    if (count <= targetPages) {
+      high = mid;
+      pageCount = count;
+    } else {
+      low = mid + 1;
+    }
+  }
+
+  return {
+    status: 'compacted',
+    pageCount,
+    layout: candidates[low],
+    changes: describeLayoutChanges(layout, candidates[low]),
+  };
+};
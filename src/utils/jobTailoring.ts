@@ -0,0 +1,326 @@
+/**
+ * Job Tailoring Utilities
+ * Turns the keywords missing from a job description into concrete, editable
+ * placements (skills, bullets, summary) and applies the accepted ones to a
+ * copy of the resume.
+ */
+
+import type { Resume, ResumeSection, Skill, WorkExperience, Project } from '../types/resume.types';
+import {
+    KEYWORD_DATABASE,
+    compareWithJobDescription,
+    extractResumeText,
+    type KeywordMatch,
+} from './keywordAnalyzer';
+import { generateId } from './skillsValidation';
+
+export type PlacementKind = 'skill' | 'bullet' | 'summary';
+
+/**
+ * A single spot in the resume where a missing keyword could be worked in
+ */
+export interface KeywordPlacement {
+    id: string;
+    keyword: string;
+    kind: PlacementKind;
+    sectionId: string;
+    sectionTitle: string;
+    /** Experience/project id for bullet placements */
+    itemId?: string;
+    /** "Job title · Company" or project name, shown as the placement tag */
+    itemLabel?: string;
+    /** Index into the item's achievements for bullet placements */
+    bulletIndex?: number;
+    /** Text currently at this spot (empty for new skills) */
+    original: string;
+    /** Suggested replacement; the user may edit it before accepting */
+    proposed: string;
+    /** 0–1, how well the spot fits the keyword */
+    relevance: number;
+}
+
+export interface MissingKeyword {
+    /** Keyword as written in the job description */
+    keyword: string;
+    importance: KeywordMatch['importance'];
+    /** Sentence of the job description the keyword was first seen in */
+    context: string;
+    placements: KeywordPlacement[];
+}
+
+export interface TailoringAnalysis {
+    matchPercentage: number;
+    matches: KeywordMatch[];
+    missing: MissingKeyword[];
+}
+
+/** Bullets suggested per keyword */
+const MAX_BULLET_PLACEMENTS = 2;
+
+/** Skill categories the templates know how to label */
+const TEMPLATE_SKILL_CATEGORIES = ['languages', 'frameworks', 'databases', 'tools', 'cloud'];
+
+const CONTEXT_STOP_WORDS = new Set([
+    'the', 'and', 'for', 'with', 'you', 'your', 'our', 'are', 'will', 'have', 'has', 'from',
+    'that', 'this', 'into', 'who', 'about', 'their', 'they', 'using', 'use', 'work', 'experience',
+]);
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Matches the keyword as a whole word, also when the text uses its plural */
+const keywordPattern = (keyword: string): RegExp =>
+    new RegExp(`(^|[^\\w])(${escapeRegExp(keyword)})(?=s?(?!\\w))`, 'i');
+
+const containsKeyword = (text: string, keyword: string): boolean => keywordPattern(keyword).test(text);
+
+const tokenize = (text: string): Set<string> =>
+    new Set(
+        (text.toLowerCase().match(/[\w+#.-]+/g) || [])
+            .map((word) => word.replace(/\.+$/, ''))
+            .filter((word) => word.length > 2 && !CONTEXT_STOP_WORDS.has(word))
+    );
+
+
+const findContext = (keyword: string, jobDescription: string): string => {
+    const sentences = jobDescription.split(/(?<=[.!?])\s+|\n+/).map((sentence) => sentence.trim());
+    return sentences.find((sentence) => containsKeyword(sentence, keyword)) || '';
+};
+
+/**
+ * KEYWORD_DATABASE category a keyword belongs to, if any
+ */
+const findKeywordCategory = (keyword: string): string | null => {
+    const lower = keyword.toLowerCase();
+    for (const role of Object.values(KEYWORD_DATABASE)) {
+        for (const [category, keywords] of Object.entries(role)) {
+            if (keywords.some((entry) => entry.toLowerCase() === lower)) return category;
+        }
+    }
+    return null;
+};
+
+/**
+ * Recover proper casing for a lowercased keyword, preferring the job
+ * description's spelling over the keyword database's
+ */
+const displayKeyword = (keyword: string, jobDescription: string): string => {
+    const match = jobDescription.match(keywordPattern(keyword));
+    if (match && match[2] !== keyword) return match[2];
+
+    const known = Object.values(KEYWORD_DATABASE)
+        .flatMap((role) => Object.values(role).flat())
+        .find((entry) => entry.toLowerCase() === keyword);
+    return known || (match ? match[2] : keyword);
+};
+
+const chooseSkillCategory = (keyword: string, skills: Skill[]): string => {
+    const category = findKeywordCategory(keyword);
+    const target = category && TEMPLATE_SKILL_CATEGORIES.includes(category) ? category : 'other';
+    const existing = skills.find((skill) => skill.category.toLowerCase() === target);
+    return existing ? existing.category : target;
+};
+
+/**
+ * Work a keyword into the end of a bullet, e.g. "Built APIs" → "Built APIs using GraphQL."
+ */
+export const weaveKeywordIntoBullet = (bullet: string, keyword: string): string => {
+    const trimmed = bullet.trim().replace(/[.;,]+$/, '');
+    return `${trimmed} using ${keyword}.`;
+};
+
+const bulletSources = (resume: Resume) =>
+    resume.sections
+        .filter((section) => section.enabled && (section.type === 'experience' || section.type === 'projects'))
+        .flatMap((section) => {
+            const items: Array<WorkExperience | Project> =
+                section.type === 'experience'
+                    ? (section.content as { experiences: WorkExperience[] }).experiences || []
+                    : (section.content as { projects: Project[] }).projects || [];
+
+            return items.flatMap((item) => {
+                const label =
+                    'jobTitle' in item ? [item.jobTitle, item.company].filter(Boolean).join(' · ') : item.name;
+                return (item.achievements || []).map((bullet, bulletIndex) => ({
+                    section,
+                    itemId: item.id,
+                    itemLabel: label,
+                    bulletIndex,
+                    bullet,
+                }));
+            });
+        })
+        .filter((source) => source.bullet.trim().length > 0);
+
+const findSection = (resume: Resume, type: ResumeSection['type']): ResumeSection | undefined =>
+    resume.sections.find((section) => section.enabled && section.type === type);
+
+/**
+ * Compare a resume with a job description and suggest where each missing
+ * keyword could go. Bullets are ranked by how many words they share with the
+ * job description sentence the keyword came from.
+ */
+export const analyzeTailoring = (resume: Resume, jobDescription: string): TailoringAnalysis => {
+    const comparison = compareWithJobDescription(extractResumeText(resume), jobDescription);
+    const importanceByKeyword = new Map(comparison.matches.map((match) => [match.keyword, match.importance]));
+
+    const skillsSection = findSection(resume, 'skills');
+    const summarySection = findSection(resume, 'summary');
+    const skills = skillsSection ? (skillsSection.content as { skills: Skill[] }).skills || [] : [];
+    const bullets = bulletSources(resume).map((source) => ({ ...source, words: tokenize(source.bullet) }));
+
+    const missing = comparison.missingKeywords.map((rawKeyword): MissingKeyword => {
+        const keyword = displayKeyword(rawKeyword, jobDescription);
+        const importance = importanceByKeyword.get(rawKeyword) || 'medium';
+        const context = findContext(rawKeyword, jobDescription);
+        const contextWords = tokenize(context);
+        contextWords.delete(rawKeyword);
+        const isKnownSkill = findKeywordCategory(keyword) !== null;
+        const placements: KeywordPlacement[] = [];
+
+        if (skillsSection) {
+            placements.push({
+                id: generateId(),
+                keyword,
+                kind: 'skill',
+                sectionId: skillsSection.id,
+                sectionTitle: skillsSection.title,
+                itemLabel: chooseSkillCategory(keyword, skills),
+                original: '',
+                proposed: keyword,
+                relevance: isKnownSkill ? 0.9 : 0.5,
+            });
+        }
+
+        bullets
+            .map((source) => {
+                let shared = 0;
+                contextWords.forEach((word) => {
+                    if (source.words.has(word)) shared++;
+                });
+                return { source, shared };
+            })
+            .filter(({ shared }) => shared > 0)
+            .sort((a, b) => b.shared - a.shared)
+            .slice(0, MAX_BULLET_PLACEMENTS)
+            .forEach(({ source, shared }) => {
+                placements.push({
+                    id: generateId(),
+                    keyword,
+                    kind: 'bullet',
+                    sectionId: source.section.id,
+                    sectionTitle: source.section.title,
+                    itemId: source.itemId,
+                    itemLabel: source.itemLabel,
+                    bulletIndex: source.bulletIndex,
+                    original: source.bullet,
+                    proposed: weaveKeywordIntoBullet(source.bullet, keyword),
+                    relevance: Math.min(1, 0.4 + shared / Math.max(contextWords.size, 1)),
+                });
+            });
+
+        if (summarySection && importance === 'high') {
+            const summary = (summarySection.content as { summary: string }).summary || '';
+            placements.push({
+                id: generateId(),
+                keyword,
+                kind: 'summary',
+                sectionId: summarySection.id,
+                sectionTitle: summarySection.title,
+                original: summary,
+                proposed: `Experienced with ${keyword}.`,
+                relevance: 0.6,
+            });
+        }
+
+        return {
+            keyword,
+            importance,
+            context,
+            placements: placements.sort((a, b) => b.relevance - a.relevance),
+        };
+    });
+
+    return {
+        matchPercentage: comparison.matchPercentage,
+        matches: comparison.matches,
+        missing,
+    };
+};
+
+const appendToBullet = (bullet: string, keyword: string): string => {
+    const trimmed = bullet.trim().replace(/[.;,]+$/, '');
+    return `${trimmed} and ${keyword}.`;
+};
+
+/**
+ * Apply accepted placements to a copy of the resume. Bullet placements replace
+ * the bullet with their (possibly edited) proposal; when several keywords target
+ * the same bullet, the later ones are appended to the first proposal. Skills
+ * and summary sentences are appended.
+ */
+export const applyTailoringSuggestions = (resume: Resume, accepted: KeywordPlacement[]): Resume => {
+    const touchedBullets = new Set<string>();
+
+    const sections = resume.sections.map((section) => {
+        const forSection = accepted.filter((placement) => placement.sectionId === section.id);
+        if (forSection.length === 0) return section;
+
+        switch (section.type) {
+            case 'skills': {
+                const skills = [...((section.content as { skills: Skill[] }).skills || [])];
+                forSection
+                    .filter((placement) => placement.kind === 'skill')
+                    .forEach((placement) => {
+                        const name = placement.proposed.trim();
+                        if (!name || skills.some((skill) => skill.name.toLowerCase() === name.toLowerCase())) return;
+                        skills.push({
+                            id: generateId(),
+                            name,
+                            category: placement.itemLabel || 'other',
+                            level: 'intermediate',
+                        });
+                    });
+                return { ...section, content: { ...section.content, skills } };
+            }
+            case 'summary': {
+                const additions = forSection
+                    .filter((placement) => placement.kind === 'summary')
+                    .map((placement) => placement.proposed.trim())
+                    .filter(Boolean);
+                const summary = [((section.content as { summary: string }).summary || '').trim(), ...additions]
+                    .filter(Boolean)
+                    .join(' ');
+                return { ...section, content: { summary } };
+            }
+            case 'experience':
+            case 'projects': {
+                const key = section.type === 'experience' ? 'experiences' : 'projects';
+                const items = ((section.content as Record<string, Array<WorkExperience | Project>>)[key] || []).map(
+                    (item) => {
+                        const forItem = forSection.filter(
+                            (placement) => placement.kind === 'bullet' && placement.itemId === item.id
+                        );
+                        if (forItem.length === 0 || !item.achievements) return item;
+
+                        const achievements = [...item.achievements];
+                        forItem.forEach((placement) => {
+                            const index = placement.bulletIndex ?? -1;
+                            if (index < 0 || index >= achievements.length) return;
+                            const bulletKey = `${item.id}:${index}`;
+                            achievements[index] = touchedBullets.has(bulletKey)
+                                ? appendToBullet(achievements[index], placement.keyword)
+                                : placement.proposed.trim() || achievements[index];
+                            touchedBullets.add(bulletKey);
+                        });
+                        return { ...item, achievements };
+                    }
+                );
+                return { ...section, content: { ...section.content, [key]: items } as ResumeSection['content'] };
+            }
+            default:
+                return section;
+        }
+    });
+
+    return { ...resume, sections, updatedAt: new Date().toISOString() };
+};
@@ -1,4 +1,5 @@
 import { Resume } from '../types/resume.types';
+import { isJsonResume, jsonResumeToResume, resumeToJsonResume } from './jsonResumeConverter';
 
 export interface ExportMetadata {
     version: string;
@@ -11,6 +12,14 @@ export interface ResumeExport {
     resume: Resume;
 }
 
+export interface ResumeImportResult {
+    success: boolean;
+    resume?: Resume;
+    error?: string;
+    /** Fields from a foreign format (e.g. JSON Resume) that were dropped */
+    unmappedFields?: string[];
+}
+
 const CURRENT_VERSION = '1.0.0';
 const APP_VERSION = '1.0.0';
 
@@ -47,6 +56,26 @@ export const downloadResumeJSON = (resume: Resume, filename?: string): void => {
     URL.revokeObjectURL(url);
 };
 
+/**
+ * Download resume in the JSON Resume (jsonresume.org) format
+ * Returns the fields that have no JSON Resume equivalent
+ */
+export const downloadResumeAsJsonResume = (resume: Resume, filename?: string): string[] => {
+    const { data, unmappedFields } = resumeToJsonResume(resume);
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+
+    link.href = url;
+    link.download = filename || `resume-${resume.personalInfo.fullName.replace(/\s+/g, '-').toLowerCase()}.jsonresume.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    return unmappedFields;
+};
+
 /**
  * Validate JSON structure
  */
@@ -126,11 +155,20 @@ export const migrateResume = (data: ResumeExport): Resume => {
 
 /**
  * Import resume from JSON string
+ * Accepts our own export envelope or a JSON Resume (jsonresume.org) document
  */
-export const importResumeJSON = (jsonString: string): { success: boolean; resume?: Resume; error?: string } => {
+export const importResumeJSON = (jsonString: string): ResumeImportResult => {
     try {
         const data = JSON.parse(jsonString);
 
+        if (isJsonResume(data)) {
+            const { data: resume, unmappedFields } = jsonResumeToResume(data);
+            if (!resume.personalInfo.fullName && resume.sections.length === 0) {
+                return { success: false, error: 'JSON Resume document has no usable content' };
+            }
+            return { success: true, resume, unmappedFields };
+        }
+
         // Validate structure
         const validation = validateResumeJSON(data);
         if (!validation.valid) {
@@ -161,7 +199,7 @@ export const importResumeJSON = (jsonString: string): { success: boolean; resume
 /**
  * Import resume from file
  */
-export const importResumeFromFile = (file: File): Promise<{ success: boolean; resume?: Resume; error?: string }> => {
+export const importResumeFromFile = (file: File): Promise<ResumeImportResult> => {
     return new Promise((resolve) => {
         const reader = new FileReader();
 
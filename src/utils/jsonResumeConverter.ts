@@ -0,0 +1,556 @@
+/**
+ * JSON Resume Converter
+ * Converts between the JSON Resume standard (jsonresume.org) and our Resume /
+ * ResumeContent types. Both directions report the fields that could not be
+ * mapped so the user knows what was dropped.
+ */
+
+import type {
+    Resume,
+    ResumeSection,
+    ResumeContent,
+    PersonalInfo,
+    WorkExperience,
+    Education,
+    Skill,
+    Project,
+    Certification,
+    Language,
+    Publication,
+    Award,
+    VolunteerExperience,
+    Reference,
+    AdditionalInfoItem,
+} from '../types/resume.types';
+import type {
+    JsonResume,
+    JsonResumeConversion,
+    JsonResumeLocation,
+    JsonResumeProfile,
+    JsonResumeSkill,
+} from '../types/jsonResume.types';
+import { createEmptyResume } from '../constants/defaultResume';
+import { generateId } from './skillsValidation';
+import { frontendResumeToBackendContent } from './resumeConverter';
+import { formatLanguageLevel, parseLanguageLevel } from './languageLevels';
+import { citationToText, formatCitation } from './citations';
+import { richTextToPlainText } from './richText';
+import { deepEqual } from './resumeMerge';
+
+const JSON_RESUME_SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+const SKILL_LEVELS: Skill['level'][] = ['beginner', 'intermediate', 'advanced', 'expert'];
+
+/**
+ * Heuristic check for JSON Resume documents (vs our own export envelope)
+ */
+export const isJsonResume = (data: unknown): data is JsonResume => {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return false;
+    const candidate = data as Record<string, unknown>;
+    if ('metadata' in candidate && 'resume' in candidate) return false;
+    return (
+        typeof candidate.basics === 'object' ||
+        Array.isArray(candidate.work) ||
+        typeof candidate.$schema === 'string' && candidate.$schema.includes('jsonresume')
+    );
+};
+
+/**
+ * JSON Resume uses ISO 8601 dates (YYYY, YYYY-MM or YYYY-MM-DD); we store YYYY-MM
+ */
+const toStorageDate = (date: string | undefined): string => {
+    if (!date) return '';
+    const match = date.trim().match(/^(\d{4})(?:-(\d{2}))?/);
+    if (!match) return date.trim();
+    return match[2] ? `${match[1]}-${match[2]}` : match[1];
+};
+
+const toSkillLevel = (level: string | undefined): Skill['level'] => {
+    const normalized = (level || '').trim().toLowerCase();
+    if (['master', 'expert'].includes(normalized)) return 'expert';
+    if (['advanced', 'proficient'].includes(normalized)) return 'advanced';
+    if (['beginner', 'novice', 'basic'].includes(normalized)) return 'beginner';
+    return 'intermediate';
+};
+
+const formatLocation = (location: JsonResumeLocation | undefined): string =>
+    location
+        ? [location.city, location.region, location.countryCode].filter(Boolean).join(', ')
+        : '';
+
+const findProfile = (profiles: JsonResumeProfile[], network: string): JsonResumeProfile | undefined =>
+    profiles.find((profile) => (profile.network || '').toLowerCase() === network);
+
+const section = (type: ResumeSection['type'], title: string, order: number, content: ResumeSection['content']): ResumeSection => ({
+    id: generateId(),
+    type,
+    title,
+    enabled: true,
+    order,
+    content,
+});
+
+/**
+ * Convert a JSON Resume document into our frontend Resume
+ */
+export const jsonResumeToResume = (json: JsonResume): JsonResumeConversion<Resume> => {
+    const unmappedFields: string[] = [];
+    const basics = json.basics || {};
+    const profiles = basics.profiles || [];
+
+    if (basics.image) unmappedFields.push('basics.image');
+    if (basics.location?.address) unmappedFields.push('basics.location.address');
+    if (basics.location?.postalCode) unmappedFields.push('basics.location.postalCode');
+
+    const linkedin = findProfile(profiles, 'linkedin');
+    const github = findProfile(profiles, 'github');
+    const otherProfiles = profiles.filter((profile) => profile !== linkedin && profile !== github);
+    const [portfolio, ...remainingProfiles] = otherProfiles;
+    remainingProfiles.forEach((profile) => {
+        unmappedFields.push(`basics.profiles[${profiles.indexOf(profile)}]`);
+    });
+
+    const personalInfo: PersonalInfo = {
+        fullName: basics.name || '',
+        title: basics.label || '',
+        email: basics.email || '',
+        phone: basics.phone || '',
+        location: formatLocation(basics.location),
+        linkedin: linkedin?.url || '',
+        github: github?.url || '',
+        portfolio: portfolio?.url || '',
+        website: basics.url || '',
+    };
+
+    const sections: ResumeSection[] = [];
+
+    if (basics.summary) {
+        sections.push(section('summary', 'Professional Summary', sections.length, { summary: basics.summary }));
+    }
+
+    if (json.work && json.work.length > 0) {
+        const experiences: WorkExperience[] = json.work.map((work, index) => {
+            if (work.url) unmappedFields.push(`work[${index}].url`);
+            return {
+                id: generateId(),
+                jobTitle: work.position || '',
+                company: work.name || '',
+                location: work.location || '',
+                startDate: toStorageDate(work.startDate),
+                endDate: toStorageDate(work.endDate),
+                current: !!work.startDate && !work.endDate,
+                description: [work.description, work.summary].filter(Boolean).join('\n'),
+                achievements: work.highlights || [],
+            };
+        });
+        sections.push(section('experience', 'Work Experience', sections.length, { experiences }));
+    }
+
+    if (json.projects && json.projects.length > 0) {
+        const projects: Project[] = json.projects.map((project, index) => {
+            (['roles', 'entity', 'type'] as const).forEach((field) => {
+                if (project[field] && project[field]!.length > 0) unmappedFields.push(`projects[${index}].${field}`);
+            });
+            return {
+                id: generateId(),
+                name: project.name || '',
+                description: project.description || '',
+                techStack: project.keywords || [],
+                startDate: toStorageDate(project.startDate),
+                endDate: toStorageDate(project.endDate),
+                current: !!project.startDate && !project.endDate,
+                url: project.url || '',
+                achievements: project.highlights || [],
+            };
+        });
+        sections.push(section('projects', 'Projects', sections.length, { projects }));
+    }
+
+    if (json.skills && json.skills.length > 0) {
+        const skills: Skill[] = json.skills.flatMap((group: JsonResumeSkill) => {
+            const level = toSkillLevel(group.level);
+            if (!group.keywords || group.keywords.length === 0) {
+                return group.name ? [{ id: generateId(), name: group.name, category: 'Other', level }] : [];
+            }
+            return group.keywords.map((keyword) => ({
+                id: generateId(),
+                name: keyword,
+                category: group.name || 'Other',
+                level,
+            }));
+        });
+        sections.push(section('skills', 'Technical Skills', sections.length, { skills }));
+    }
+
+    if (json.education && json.education.length > 0) {
+        const education: Education[] = json.education.map((edu, index) => {
+            if (edu.url) unmappedFields.push(`education[${index}].url`);
+            return {
+                id: generateId(),
+                degree: [edu.studyType, edu.area].filter(Boolean).join(' in '),
+                institution: edu.institution || '',
+                location: '',
+                startDate: toStorageDate(edu.startDate),
+                endDate: toStorageDate(edu.endDate),
+                gpa: edu.score || '',
+                coursework: edu.courses || [],
+            };
+        });
+        sections.push(section('education', 'Education', sections.length, { education }));
+    }
+
+    if (json.certificates && json.certificates.length > 0) {
+        const certifications: Certification[] = json.certificates.map((cert) => ({
+            id: generateId(),
+            name: cert.name || '',
+            issuer: cert.issuer || '',
+            issueDate: toStorageDate(cert.date),
+            url: cert.url || '',
+        }));
+        sections.push(section('certifications', 'Certifications', sections.length, { certifications }));
+    }
+
+    if (json.languages && json.languages.length > 0) {
+        const languages: Language[] = json.languages
+            .filter((lang) => lang.language)
+            .map((lang) => ({
+                id: generateId(),
+                name: lang.language!,
+                ...parseLanguageLevel(lang.fluency || ''),
+            }));
+        const showCefr = languages.some((lang) => lang.cefr);
+        sections.push(section('languages', 'Languages', sections.length, { languages, showCefr }));
+    }
+
+    if (json.volunteer && json.volunteer.length > 0) {
+        const volunteering: VolunteerExperience[] = json.volunteer.map((item, index) => {
+            if (item.url) unmappedFields.push(`volunteer[${index}].url`);
+            return {
+                id: generateId(),
+                role: item.position || '',
+                organization: item.organization || '',
+                location: '',
+                startDate: toStorageDate(item.startDate),
+                endDate: toStorageDate(item.endDate),
+                current: !!item.startDate && !item.endDate,
+                description: item.summary || '',
+                achievements: item.highlights || [],
+            };
+        });
+        sections.push(section('volunteering', 'Volunteer Experience', sections.length, { volunteering }));
+    }
+
+    if (json.publications && json.publications.length > 0) {
+        // JSON Resume has no authors or publication type; the user can fill them in
+        const publications: Publication[] = json.publications.map((publication, index) => {
+            if (publication.summary) unmappedFields.push(`publications[${index}].summary`);
+            return {
+                id: generateId(),
+                type: 'other',
+                title: publication.name || '',
+                authors: [],
+                venue: publication.publisher || '',
+                date: toStorageDate(publication.releaseDate),
+                url: publication.url || '',
+            };
+        });
+        sections.push(section('publications', 'Publications', sections.length, { publications }));
+    }
+
+    if (json.awards && json.awards.length > 0) {
+        const awards: Award[] = json.awards.map((award) => ({
+            id: generateId(),
+            type: 'award',
+            title: award.title || '',
+            issuer: award.awarder || '',
+            date: toStorageDate(award.date),
+            description: award.summary || '',
+        }));
+        sections.push(section('awards', 'Awards', sections.length, { awards }));
+    }
+
+    if (json.references && json.references.length > 0) {
+        const references: Reference[] = json.references.map((reference, index) => {
+            // JSON Resume references are testimonials, not contact details
+            if (reference.reference) unmappedFields.push(`references[${index}].reference`);
+            return { id: generateId(), name: reference.name || '', jobTitle: '', company: '' };
+        });
+        sections.push(section('references', 'References', sections.length, { references }));
+    }
+
+    // Interests have no dedicated section; keep them as additional info
+    const additionalInfo: AdditionalInfoItem[] = [];
+    if (json.interests && json.interests.length > 0) {
+        additionalInfo.push({
+            id: generateId(),
+            title: 'Interests',
+            content: json.interests
+                .filter((interest) => interest.name)
+                .map((interest) =>
+                    interest.keywords && interest.keywords.length > 0
+                        ? `${interest.name}: ${interest.keywords.join(', ')}`
+                        : interest.name!
+                ),
+        });
+    }
+    if (additionalInfo.length > 0) {
+        sections.push(section('additional-info', 'Additional Information', sections.length, { additionalInfo }));
+    }
+
+    const now = new Date().toISOString();
+    return {
+        data: {
+            ...createEmptyResume(),
+            personalInfo,
+            sections,
+            createdAt: now,
+            updatedAt: now,
+        },
+        unmappedFields,
+    };
+};
+
+/**
+ * Convert a JSON Resume document into backend ResumeContent
+ */
+export const jsonResumeToResumeContent = (json: JsonResume): JsonResumeConversion<ResumeContent> => {
+    const { data, unmappedFields } = jsonResumeToResume(json);
+    return { data: frontendResumeToBackendContent(data), unmappedFields };
+};
+
+const fromStorageDate = (date: string | undefined): string | undefined => {
+    if (!date || date.toLowerCase() === 'present') return undefined;
+    return toStorageDate(date);
+};
+
+// JSON Resume fields are plain strings, so formatting is dropped and links keep their address
+const plainText = (text: string | undefined): string | undefined => (text ? richTextToPlainText(text) : undefined);
+
+const plainLines = (lines: string[] | undefined): string[] => (lines || []).map((line) => richTextToPlainText(line));
+
+/**
+ * Convert our frontend Resume into a JSON Resume document, leaving out
+ * disabled sections
+ */
+export const resumeToJsonResume = (resume: Resume): JsonResumeConversion<JsonResume> => {
+    const unmappedFields: string[] = [];
+    const { personalInfo } = resume;
+
+    const profiles: JsonResumeProfile[] = [];
+    if (personalInfo.linkedin) profiles.push({ network: 'LinkedIn', url: personalInfo.linkedin });
+    if (personalInfo.github) profiles.push({ network: 'GitHub', url: personalInfo.github });
+    if (personalInfo.portfolio) profiles.push({ network: 'Portfolio', url: personalInfo.portfolio });
+
+    const json: JsonResume = {
+        $schema: JSON_RESUME_SCHEMA_URL,
+        basics: {
+            name: personalInfo.fullName,
+            label: personalInfo.title,
+            email: personalInfo.email,
+            phone: personalInfo.phone,
+            url: personalInfo.website || undefined,
+            // Free-form locations can't be split reliably, so keep them in `city`
+            location: personalInfo.location ? { city: personalInfo.location } : undefined,
+            profiles,
+        },
+        meta: {
+            version: 'v1.0.0',
+            lastModified: resume.updatedAt,
+        },
+    };
+
+    [...resume.sections]
+        .filter((resumeSection) => resumeSection.enabled)
+        .sort((a, b) => a.order - b.order)
+        .forEach((resumeSection) => {
+            const content = resumeSection.content as any;
+
+            switch (resumeSection.type) {
+                case 'summary':
+                    json.basics!.summary = content.summary;
+                    break;
+                case 'experience':
+                    json.work = [
+                        ...(json.work || []),
+                        ...(content.experiences as WorkExperience[]).map((exp) => ({
+                            name: exp.company,
+                            position: exp.jobTitle,
+                            location: exp.location || undefined,
+                            startDate: fromStorageDate(exp.startDate),
+                            endDate: exp.current ? undefined : fromStorageDate(exp.endDate),
+                            summary: plainText(exp.description),
+                            highlights: plainLines(exp.achievements),
+                        })),
+                    ];
+                    break;
+                case 'projects':
+                    json.projects = [
+                        ...(json.projects || []),
+                        ...(content.projects as Project[]).map((project, index) => {
+                            if (project.githubUrl && project.url) {
+                                unmappedFields.push(`${resumeSection.title}[${index}].githubUrl`);
+                            }
+                            return {
+                                name: project.name,
+                                description: plainText(project.description),
+                                highlights: plainLines(project.achievements),
+                                keywords: project.techStack || [],
+                                startDate: fromStorageDate(project.startDate),
+                                endDate: project.current ? undefined : fromStorageDate(project.endDate),
+                                url: project.url || project.githubUrl || undefined,
+                            };
+                        }),
+                    ];
+                    break;
+                case 'skills': {
+                    const groups = new Map<string, Skill[]>();
+                    (content.skills as Skill[]).forEach((skill) => {
+                        const category = skill.category || 'Other';
+                        groups.set(category, [...(groups.get(category) || []), skill]);
+                    });
+                    json.skills = [
+                        ...(json.skills || []),
+                        ...Array.from(groups.entries()).map(([category, skills]) => {
+                            // JSON Resume has one level per group; keep the highest
+                            const levels = new Set(skills.map((skill) => skill.level));
+                            if (levels.size > 1) unmappedFields.push(`${resumeSection.title}.${category}.level`);
+                            const level = SKILL_LEVELS[Math.max(...skills.map((skill) => SKILL_LEVELS.indexOf(skill.level)))];
+                            return {
+                                name: category,
+                                level: level ? level.charAt(0).toUpperCase() + level.slice(1) : undefined,
+                                keywords: skills.map((skill) => skill.name),
+                            };
+                        }),
+                    ];
+                    break;
+                }
+                case 'education':
+                    json.education = [
+                        ...(json.education || []),
+                        ...(content.education as Education[]).map((edu, index) => {
+                            if (edu.location) unmappedFields.push(`${resumeSection.title}[${index}].location`);
+                            return {
+                                institution: edu.institution,
+                                studyType: edu.degree,
+                                startDate: fromStorageDate(edu.startDate),
+                                endDate: fromStorageDate(edu.endDate),
+                                score: edu.gpa || undefined,
+                                courses: edu.coursework || [],
+                            };
+                        }),
+                    ];
+                    break;
+                case 'certifications':
+                    json.certificates = [
+                        ...(json.certificates || []),
+                        ...(content.certifications as Certification[]).map((cert, index) => {
+                            if (cert.expiryDate) unmappedFields.push(`${resumeSection.title}[${index}].expiryDate`);
+                            if (cert.credentialId) unmappedFields.push(`${resumeSection.title}[${index}].credentialId`);
+                            return {
+                                name: cert.name,
+                                issuer: cert.issuer,
+                                date: fromStorageDate(cert.issueDate),
+                                url: cert.url || undefined,
+                            };
+                        }),
+                    ];
+                    break;
+                case 'languages': {
+                    // CEFR levels are kept even when hidden; they are part of the data
+                    json.languages = [
+                        ...(json.languages || []),
+                        ...(content.languages as Language[]).map((lang) => ({
+                            language: lang.name,
+                            fluency: formatLanguageLevel(lang, true),
+                        })),
+                    ];
+                    break;
+                }
+                case 'publications': {
+                    const style = content.citationStyle || 'apa';
+                    json.publications = [
+                        ...(json.publications || []),
+                        ...(content.publications as Publication[]).map((publication) => ({
+                            name: publication.title,
+                            publisher: publication.venue || publication.publisher || undefined,
+                            releaseDate: fromStorageDate(publication.date),
+                            url: publication.doi ? `https://doi.org/${publication.doi}` : publication.url || undefined,
+                            // The full reference keeps authors, volume and pages
+                            summary: citationToText(formatCitation(publication, style)),
+                        })),
+                    ];
+                    break;
+                }
+                case 'awards':
+                    json.awards = [
+                        ...(json.awards || []),
+                        ...(content.awards as Award[]).map((award, index) => {
+                            if (award.amount) unmappedFields.push(`${resumeSection.title}[${index}].amount`);
+                            return {
+                                title: award.title,
+                                date: fromStorageDate(award.date),
+                                awarder: award.issuer || undefined,
+                                summary: award.description || undefined,
+                            };
+                        }),
+                    ];
+                    break;
+                case 'volunteering':
+                    json.volunteer = [
+                        ...(json.volunteer || []),
+                        ...(content.volunteering as VolunteerExperience[]).map((item, index) => {
+                            if (item.location) unmappedFields.push(`${resumeSection.title}[${index}].location`);
+                            return {
+                                organization: item.organization,
+                                position: item.role,
+                                startDate: fromStorageDate(item.startDate),
+                                endDate: item.current ? undefined : fromStorageDate(item.endDate),
+                                summary: plainText(item.description),
+                                highlights: plainLines(item.achievements),
+                            };
+                        }),
+                    ];
+                    break;
+                case 'references':
+                    if (content.onRequest) unmappedFields.push(`${resumeSection.title}.onRequest`);
+                    json.references = [
+                        ...(json.references || []),
+                        ...(content.references as Reference[]).map((reference) => ({
+                            name: reference.name,
+                            reference: [
+                                reference.relationship,
+                                [reference.jobTitle, reference.company].filter(Boolean).join(', '),
+                                reference.email,
+                                reference.phone,
+                            ].filter(Boolean).join(' · ') || undefined,
+                        })),
+                    ];
+                    break;
+                case 'additional-info':
+                    (content.additionalInfo as AdditionalInfoItem[]).forEach((item) => {
+                        if (item.title.trim().toLowerCase() === 'languages') {
+                            json.languages = item.content.map((line) => {
+                                const match = line.match(/^(.*?)\s*\((.*)\)\s*$/);
+                                return match ? { language: match[1], fluency: match[2] } : { language: line };
+                            });
+                        } else if (item.title.trim().toLowerCase() === 'interests') {
+                            json.interests = item.content.map((line) => ({ name: line }));
+                        } else {
+                            unmappedFields.push(`${resumeSection.title}.${item.title}`);
+                        }
+                    });
+                    break;
+                case 'custom':
+                    unmappedFields.push(resumeSection.title);
+                    break;
+            }
+        });
+
+    // JSON Resume has no styling, so anything other than what an import would
+    // give back is lost
+    const defaults = createEmptyResume();
+    if (!deepEqual(resume.layout, defaults.layout)) unmappedFields.push('layout');
+    if (resume.template !== defaults.template) unmappedFields.push('template');
+
+    return { data: json, unmappedFields };
+};
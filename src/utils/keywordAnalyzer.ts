@@ -1,4 +1,5 @@
 import { Resume } from '../types/resume.types';
+import { stripResumeRichText } from './richText';
 
 /**
  * Keyword categories by job role
@@ -56,6 +57,17 @@ export const EXPERIENCE_KEYWORDS = {
   management: ['Manager', 'Director', 'VP', 'Head of', 'Chief', 'Team Lead'],
 };
 
+/**
+ * Filler words that show up often in job descriptions but are never keywords
+ */
+const JOB_DESCRIPTION_STOP_WORDS = new Set([
+  'and', 'the', 'for', 'with', 'you', 'your', 'our', 'are', 'will', 'have', 'has',
+  'from', 'that', 'this', 'into', 'who', 'about', 'their', 'they', 'can', 'all',
+  'not', 'but', 'what', 'more', 'other', 'such', 'well', 'able',
+  'including', 'across', 'within', 'work', 'working', 'team', 'role', 'job',
+  'years', 'year', 'experience', 'strong', 'plus', 'etc',
+]);
+
 /**
  * Extract text content from resume
  */
@@ -66,8 +78,8 @@ export const extractResumeText = (resume: Resume): string => {
   parts.push(resume.personalInfo.fullName);
   parts.push(resume.personalInfo.title);
 
-  // Sections
-  resume.sections.forEach((section) => {
+  // Sections, without rich-text markup
+  stripResumeRichText(resume).sections.forEach((section) => {
     if (!section.enabled) return;
 
     parts.push(section.title);
@@ -104,6 +116,27 @@ export const extractResumeText = (resume: Resume): string => {
           parts.push(cert.name, cert.issuer);
         });
         break;
+      case 'languages':
+        (section.content as any).languages?.forEach((lang: any) => {
+          parts.push(lang.name);
+        });
+        break;
+      case 'publications':
+        (section.content as any).publications?.forEach((publication: any) => {
+          parts.push(publication.title, publication.venue);
+        });
+        break;
+      case 'awards':
+        (section.content as any).awards?.forEach((award: any) => {
+          parts.push(award.title, award.issuer, award.description);
+        });
+        break;
+      case 'volunteering':
+        (section.content as any).volunteering?.forEach((item: any) => {
+          parts.push(item.role, item.organization, item.description);
+          parts.push(...(item.achievements || []));
+        });
+        break;
       case 'custom':
         parts.push((section.content as any).custom?.content || '');
         break;
@@ -216,14 +249,16 @@ export const compareWithJobDescription = (
   const matches: KeywordMatch[] = [];
   const missingKeywords: string[] = [];
 
-  // Technical keywords that are important
+  // Technical keywords that are important (extracted keywords are lowercase)
   const importantKeywords = new Set([
     ...Object.values(KEYWORD_DATABASE).flatMap((role) =>
-      Object.values(role).flat()
+      Object.values(role).flat().map((keyword) => keyword.toLowerCase())
     ),
   ]);
 
   jobKeywords.forEach((jobCount, keyword) => {
+    if (JOB_DESCRIPTION_STOP_WORDS.has(keyword)) return;
+
     const inResume = resumeKeywords.has(keyword);
     const count = resumeKeywords.get(keyword) || 0;
     
@@ -0,0 +1,76 @@
+import type { CefrLevel, Language, LanguageProficiency } from '../types/resume.types';
+
+/**
+ * Language Levels
+ *
+ * Labels for spoken-language proficiency and the optional CEFR level shown
+ * beside it, plus parsing of free-text levels ("Fluent", "B2", "Native
+ * speaker") from imported resumes.
+ */
+
+export const PROFICIENCY_LEVELS: { value: LanguageProficiency; label: string }[] = [
+  { value: 'native', label: 'Native' },
+  { value: 'professional', label: 'Professional' },
+  { value: 'conversational', label: 'Conversational' },
+  { value: 'basic', label: 'Basic' },
+];
+
+export const CEFR_LEVELS: { value: CefrLevel; label: string }[] = [
+  { value: 'C2', label: 'C2 · Mastery' },
+  { value: 'C1', label: 'C1 · Advanced' },
+  { value: 'B2', label: 'B2 · Upper intermediate' },
+  { value: 'B1', label: 'B1 · Intermediate' },
+  { value: 'A2', label: 'A2 · Elementary' },
+  { value: 'A1', label: 'A1 · Beginner' },
+];
+
+export const getProficiencyLabel = (proficiency: LanguageProficiency): string =>
+  PROFICIENCY_LEVELS.find((level) => level.value === proficiency)?.label || proficiency;
+
+/**
+ * Level shown on the resume: "Professional", or "Professional, C1" when CEFR
+ * levels are shown and one is set
+ */
+export const formatLanguageLevel = (language: Language, showCefr = false): string => {
+  const label = getProficiencyLabel(language.proficiency);
+  return showCefr && language.cefr ? `${label}, ${language.cefr}` : label;
+};
+
+/**
+ * One-line form used by plain-text exports: "German (Professional, C1)"
+ */
+export const formatLanguage = (language: Language, showCefr = false): string =>
+  `${language.name} (${formatLanguageLevel(language, showCefr)})`;
+
+// Proficiency a CEFR level stands for, when only the level is given
+const CEFR_PROFICIENCY: Record<CefrLevel, LanguageProficiency> = {
+  A1: 'basic',
+  A2: 'basic',
+  B1: 'conversational',
+  B2: 'conversational',
+  C1: 'professional',
+  C2: 'professional',
+};
+
+/**
+ * Read a free-text level such as "Fluent", "Native speaker" or "B2"
+ */
+export const parseLanguageLevel = (text: string): Pick<Language, 'proficiency' | 'cefr'> => {
+  const cefr = text.toUpperCase().match(/\b([ABC][12])\b/)?.[1] as CefrLevel | undefined;
+  const value = text.toLowerCase();
+
+  let proficiency: LanguageProficiency;
+  if (/native|mother|bilingual/.test(value)) {
+    proficiency = 'native';
+  } else if (/fluent|professional|advanced|full/.test(value)) {
+    proficiency = 'professional';
+  } else if (/conversational|intermediate|limited|working|good/.test(value)) {
+    proficiency = 'conversational';
+  } else if (cefr) {
+    proficiency = CEFR_PROFICIENCY[cefr];
+  } else {
+    proficiency = 'basic';
+  }
+
+  return cefr ? { proficiency, cefr } : { proficiency };
+};
@@ -0,0 +1,62 @@
+import type { LayoutSettings, PageSize } from '../types/resume.types';
+
+/**
+ * Page Size
+ *
+ * Paper formats a resume can be laid out on. The preview, pagination, print
+ * CSS, DOCX export and template thumbnails all read the page size through
+ * these helpers so they agree on the paper the resume is printed on.
+ */
+
+export interface PageDimensions {
+  label: string;
+  /** Keyword for the CSS @page size descriptor */
+  cssSize: string;
+  widthMm: number;
+  heightMm: number;
+}
+
+export const PAGE_SIZES: Record<PageSize, PageDimensions> = {
+  letter: { label: 'US Letter', cssSize: 'letter', widthMm: 215.9, heightMm: 279.4 },
+  a4: { label: 'A4', cssSize: 'A4', widthMm: 210, heightMm: 297 },
+  legal: { label: 'US Legal', cssSize: 'legal', widthMm: 215.9, heightMm: 355.6 },
+};
+
+// 1in = 96px, 1mm = 3.7795px (approximate for screen)
+export const PX_PER_MM = 3.7795;
+
+// Regions where Letter is the standard paper size
+const LETTER_REGIONS = ['US', 'CA'];
+
+/**
+ * Default page size for a locale: Letter in the US and Canada, A4 elsewhere
+ */
+export const getLocalePageSize = (
+  locale: string = typeof navigator !== 'undefined' ? navigator.language : 'en-US'
+): PageSize => {
+  const region = locale.split(/[-_]/)[1]?.toUpperCase();
+  // A bare "en" is most often a US English browser
+  if (!region) return locale.toLowerCase() === 'en' ? 'letter' : 'a4';
+  return LETTER_REGIONS.includes(region) ? 'letter' : 'a4';
+};
+
+/**
+ * Page size of a layout: the saved one, else the locale default. The editor
+ * saves the locale default the first time a resume is opened, so the
+ * fallback only applies until then.
+ */
+export const resolvePageSize = (layout: Pick<LayoutSettings, 'pageSize'>): PageSize =>
+  layout.pageSize && PAGE_SIZES[layout.pageSize] ? layout.pageSize : getLocalePageSize();
+
+export const getPageDimensions = (size: PageSize): PageDimensions => PAGE_SIZES[size];
+
+/**
+ * Page height in screen pixels, as used by pagination
+ */
+export const getPageHeightPx = (size: PageSize): number => Math.ceil(PAGE_SIZES[size].heightMm * PX_PER_MM);
+
+/**
+ * @page rule for printing on the given paper size
+ */
+export const getPageRule = (size: PageSize, margin: string = '0'): string =>
+  `@page { size: ${PAGE_SIZES[size].cssSize} portrait; margin: ${margin}; }`;
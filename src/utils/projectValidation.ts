@@ -1,4 +1,5 @@
 import { Project } from "../types/resume.types";
+import { stripRichText } from "./richText";
 
 /**
  * Validation error interface for project entries
@@ -257,7 +258,7 @@ export const validateProject = (project: Project): ProjectValidationErrors => {
   const nameError = validateField("name", project.name);
   if (nameError) errors.name = nameError;
 
-  const descriptionError = validateField("description", project.description);
+  const descriptionError = validateField("description", stripRichText(project.description));
   if (descriptionError) errors.description = descriptionError;
 
   // Validate tech stack
@@ -265,7 +266,7 @@ export const validateProject = (project: Project): ProjectValidationErrors => {
   if (techStackError) errors.techStack = techStackError;
 
   // Validate achievements
-  const achievementsError = validateAchievements(project.achievements || []);
+  const achievementsError = validateAchievements((project.achievements || []).map(stripRichText));
   if (achievementsError) errors.achievements = achievementsError;
 
   // Validate URLs
@@ -314,7 +315,7 @@ export const checkATSCompliance = (project: Project): {
     issues.push("Project name contains characters that may not be ATS-friendly");
   }
 
-  if (problematicChars.test(project.description)) {
+  if (problematicChars.test(stripRichText(project.description))) {
     issues.push("Description contains characters that may not be ATS-friendly");
   }
 
@@ -324,7 +325,7 @@ export const checkATSCompliance = (project: Project): {
     }
   });
 
-  (project.achievements || []).forEach((achievement) => {
+  (project.achievements || []).map(stripRichText).forEach((achievement) => {
     if (problematicChars.test(achievement)) {
       issues.push("Achievement contains characters that may not be ATS-friendly");
     }
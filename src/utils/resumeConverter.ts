@@ -4,7 +4,7 @@
  */
 
 import type { Resume, BackendResume, ResumeContent, ResumeSection } from '../types/resume.types';
-import type { ResumeResponse } from '../types/api.types';
+import type { ResumeContent as ApiResumeContent, ResumeResponse, SectionMetadata } from '../types/api.types';
 
 /**
  * Convert backend resume response to frontend Resume format
@@ -95,6 +95,87 @@ export const backendToFrontendResume = (backendResume: ResumeResponse | BackendR
         });
     }
 
+    // Languages section
+    if (content.languages && content.languages.length > 0) {
+        sections.push({
+            id: 'languages',
+            type: 'languages',
+            title: 'Languages',
+            enabled: true,
+            order: order++,
+            content: {
+                languages: content.languages,
+                ...(content.showLanguageCefr && { showCefr: true }),
+            },
+        });
+    }
+
+    // Publications section
+    if (content.publications && content.publications.length > 0) {
+        sections.push({
+            id: 'publications',
+            type: 'publications',
+            title: 'Publications',
+            enabled: true,
+            order: order++,
+            content: {
+                publications: content.publications,
+                ...(content.citationStyle && { citationStyle: content.citationStyle }),
+            },
+        });
+    }
+
+    // Awards section
+    if (content.awards && content.awards.length > 0) {
+        sections.push({
+            id: 'awards',
+            type: 'awards',
+            title: 'Awards',
+            enabled: true,
+            order: order++,
+            content: { awards: content.awards },
+        });
+    }
+
+    // Volunteering section
+    if (content.volunteering && content.volunteering.length > 0) {
+        sections.push({
+            id: 'volunteering',
+            type: 'volunteering',
+            title: 'Volunteer Experience',
+            enabled: true,
+            order: order++,
+            content: { volunteering: content.volunteering },
+        });
+    }
+
+    // References section
+    if ((content.references && content.references.length > 0) || content.referencesOnRequest) {
+        sections.push({
+            id: 'references',
+            type: 'references',
+            title: 'References',
+            enabled: true,
+            order: order++,
+            content: {
+                references: content.references || [],
+                ...(content.referencesOnRequest && { onRequest: true }),
+            },
+        });
+    }
+
+    // Additional info section
+    if (content.additionalInfo && content.additionalInfo.length > 0) {
+        sections.push({
+            id: 'additional-info',
+            type: 'additional-info',
+            title: 'Additional Information',
+            enabled: true,
+            order: order++,
+            content: { additionalInfo: content.additionalInfo },
+        });
+    }
+
     // Custom sections
     if (content.customSections && content.customSections.length > 0) {
         content.customSections.forEach((customSection) => {
@@ -109,6 +190,28 @@ export const backendToFrontendResume = (backendResume: ResumeResponse | BackendR
         });
     }
 
+    // Apply saved section metadata (ids, titles, visibility, order) when present
+    const sectionOrder = (content as { sectionOrder?: SectionMetadata[] }).sectionOrder;
+    if (sectionOrder && sectionOrder.length > 0) {
+        sections.forEach((section) => {
+            const metadata = sectionOrder.find((meta) =>
+                section.type === 'custom' ? meta.id === section.id : meta.type === section.type
+            );
+            if (metadata) {
+                section.id = metadata.id;
+                section.title = metadata.title;
+                section.enabled = metadata.enabled;
+                section.order = metadata.order;
+                if (metadata.column) {
+                    section.column = metadata.column;
+                }
+            }
+        });
+        sections.sort((a, b) => a.order - b.order);
+    }
+
+    const savedLayout = (content as { layout?: Resume['layout'] }).layout;
+
     return {
         id: backendResume.id,
         personalInfo: content.personalInfo || {
@@ -119,8 +222,8 @@ export const backendToFrontendResume = (backendResume: ResumeResponse | BackendR
             location: '',
         },
         sections,
-        layout: {
-            pageMargins: { top: 20, right: 20, bottom: 20, left: 20 },
+        layout: savedLayout || {
+            pageMargins: { top: 1, right: 1, bottom: 1, left: 1 },
             sectionSpacing: 16,
             lineHeight: 1.5,
             fontSize: {
@@ -137,19 +240,125 @@ export const backendToFrontendResume = (backendResume: ResumeResponse | BackendR
             },
         },
         template: backendResume.templateId as any || 'classic',
+        ...(content.locale && { locale: content.locale }),
+        ...(content.translations && { translations: content.translations }),
+        ...(content.variant && { variant: content.variant }),
         createdAt: backendResume.createdAt,
         updatedAt: backendResume.updatedAt,
     };
 };
 
 /**
- * Map a frontend Resume to the backend content shape used by the editors'
- * `saveToBackend` helpers. Differs from `frontendToBackendContent`:
+ * Content of one editor section, read from the backend content
+ */
+const sectionContentFromBackend = (
+    content: ApiResumeContent,
+    metadata: Pick<SectionMetadata, 'id' | 'type' | 'title'>
+): ResumeSection['content'] => {
+    switch (metadata.type) {
+        case 'summary':
+            return { summary: content.summary || '' };
+        case 'experience':
+            return { experiences: content.experience || [] } as ResumeSection['content'];
+        case 'education':
+            return { education: content.education || [] } as ResumeSection['content'];
+        case 'skills':
+            return { skills: content.skills || [] } as ResumeSection['content'];
+        case 'projects':
+            return { projects: content.projects || [] } as ResumeSection['content'];
+        case 'certifications':
+            return { certifications: content.certifications || [] } as ResumeSection['content'];
+        case 'languages':
+            return {
+                languages: content.languages || [],
+                showCefr: !!content.showLanguageCefr,
+            } as ResumeSection['content'];
+        case 'publications':
+            return {
+                publications: content.publications || [],
+                citationStyle: content.citationStyle || 'apa',
+            } as ResumeSection['content'];
+        case 'awards':
+            return { awards: content.awards || [] } as ResumeSection['content'];
+        case 'volunteering':
+            return { volunteering: content.volunteering || [] } as ResumeSection['content'];
+        case 'references':
+            return {
+                references: content.references || [],
+                onRequest: !!content.referencesOnRequest,
+            } as ResumeSection['content'];
+        case 'additional-info':
+            return { additionalInfo: content.additionalInfo || [] } as ResumeSection['content'];
+        default: {
+            const customSection = content.customSections?.find((custom) => custom.id === metadata.id);
+            return {
+                custom: { id: metadata.id, title: metadata.title, content: customSection?.content || '' },
+            } as ResumeSection['content'];
+        }
+    }
+};
+
+/**
+ * Load a saved resume into the editor. The inverse of
+ * `frontendResumeToBackendContent`: unlike `backendToFrontendResume` it keeps
+ * every section in `sectionOrder`, including empty and disabled ones, with
+ * its column, and the resume's locale and translations. Resumes saved without `sectionOrder` fill the sections of
+ * `fallback` instead.
+ */
+export const backendToEditorResume = (backendResume: ResumeResponse, fallback: Resume): Resume => {
+    const content = backendResume.content;
+    let sections: ResumeSection[];
+    if (content.sectionOrder && content.sectionOrder.length > 0) {
+        sections = content.sectionOrder
+            .map((metadata) => ({
+                id: metadata.id,
+                type: metadata.type as ResumeSection['type'],
+                title: metadata.title,
+                enabled: metadata.enabled,
+                order: metadata.order,
+                ...(metadata.column && { column: metadata.column }),
+                content: sectionContentFromBackend(content, metadata),
+            }))
+            .sort((a, b) => a.order - b.order);
+    } else {
+        // Resumes saved before sectionOrder existed: fill the default sections that have content
+        sections = fallback.sections.map((section) => {
+            const hasContent = {
+                summary: !!content.summary,
+                experience: !!content.experience,
+                education: !!content.education,
+                skills: !!content.skills,
+                projects: !!content.projects,
+                certifications: !!content.certifications,
+                languages: !!content.languages,
+                'additional-info': !!content.additionalInfo,
+            }[section.type as string];
+            return hasContent ? { ...section, content: sectionContentFromBackend(content, section) } : section;
+        });
+    }
+
+    return {
+        ...fallback,
+        id: backendResume.id,
+        template: (backendResume.templateId as Resume['template']) || fallback.template,
+        personalInfo: content.personalInfo || fallback.personalInfo,
+        sections,
+        layout: content.layout || fallback.layout,
+        locale: content.locale,
+        translations: content.translations,
+        variant: content.variant,
+        createdAt: backendResume.createdAt,
+        updatedAt: backendResume.updatedAt,
+    };
+};
+
+/**
+ * Map a frontend Resume to the backend content shape used by the save
+ * coordinator (utils/saveRequest.ts). Differs from `frontendToBackendContent`:
  *   - Includes `sectionOrder` metadata so the backend can preserve order.
  *   - Persists content for disabled sections too, so toggling visibility
  *     doesn't lose data.
  *
- * Editors duplicated this exact function five times before this lived here.
  * Use it from a `useCallback` (or call once per save) — don't run it in render.
  */
 export const frontendResumeToBackendContent = (resume: Resume): any => {
@@ -161,7 +370,11 @@ export const frontendResumeToBackendContent = (resume: Resume): any => {
             title: s.title,
             enabled: s.enabled,
             order: s.order,
+            ...(s.column && { column: s.column }),
         })),
+        ...(resume.locale && { locale: resume.locale }),
+        ...(resume.translations && Object.keys(resume.translations).length > 0 && { translations: resume.translations }),
+        ...(resume.variant && { variant: resume.variant }),
     };
 
     resume.sections.forEach(section => {
@@ -185,6 +398,27 @@ export const frontendResumeToBackendContent = (resume: Resume): any => {
             case 'certifications':
                 content.certifications = sectionContent.certifications;
                 break;
+            case 'languages':
+                content.languages = sectionContent.languages;
+                content.showLanguageCefr = !!sectionContent.showCefr;
+                break;
+            case 'publications':
+                content.publications = sectionContent.publications;
+                content.citationStyle = sectionContent.citationStyle || 'apa';
+                break;
+            case 'awards':
+                content.awards = sectionContent.awards;
+                break;
+            case 'volunteering':
+                content.volunteering = sectionContent.volunteering;
+                break;
+            case 'references':
+                content.references = sectionContent.references;
+                content.referencesOnRequest = !!sectionContent.onRequest;
+                break;
+            case 'additional-info':
+                content.additionalInfo = sectionContent.additionalInfo;
+                break;
             case 'custom':
                 if (!content.customSections) content.customSections = [];
                 content.customSections.push({
@@ -230,6 +464,24 @@ export const frontendToBackendContent = (resume: Resume): ResumeContent => {
             case 'certifications':
                 content.certifications = (section.content as any).certifications;
                 break;
+            case 'languages':
+                content.languages = (section.content as any).languages;
+                content.showLanguageCefr = !!(section.content as any).showCefr;
+                break;
+            case 'publications':
+                content.publications = (section.content as any).publications;
+                content.citationStyle = (section.content as any).citationStyle || 'apa';
+                break;
+            case 'awards':
+                content.awards = (section.content as any).awards;
+                break;
+            case 'volunteering':
+                content.volunteering = (section.content as any).volunteering;
+                break;
+            case 'references':
+                content.references = (section.content as any).references;
+                content.referencesOnRequest = !!(section.content as any).onRequest;
+                break;
             case 'custom':
                 if (!content.customSections) {
                     content.customSections = [];
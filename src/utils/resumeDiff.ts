@@ -0,0 +1,340 @@
+/**
+ * Resume Diff Utility
+ *
+ * Structural comparison of two versions of backend resume content, used by
+ * the version history to show what changed between snapshots. Entries are
+ * matched by id rather than position, so reordering or inserting an entry
+ * doesn't show up as every later entry having changed. Text is compared word
+ * by word, and single sections or entries can be copied back from the older
+ * version.
+ */
+
+import type { ResumeContent } from '../types/api.types';
+import type { ComparisonSummary, VersionDifference } from '../types/version.types';
+import {
+    SECTION_LABELS,
+    deepEqual,
+    isIdentifiedList,
+    isPlainObject,
+    itemLabel,
+    type Identified,
+} from './resumeMerge';
+
+export type ChangeType = VersionDifference['type'];
+
+export interface FieldChange {
+    /** Stable key of the value, e.g. "experience[exp-1].jobTitle" */
+    path: string;
+    field: string;
+    type: ChangeType;
+    oldValue: unknown;
+    newValue: unknown;
+}
+
+export interface ItemChange {
+    id: string;
+    label: string;
+    type: ChangeType;
+    oldItem?: Identified;
+    newItem?: Identified;
+    /** The fields that differ, for modified entries */
+    fields: FieldChange[];
+}
+
+export interface SectionChange {
+    key: keyof ResumeContent;
+    label: string;
+    type: ChangeType;
+    oldValue: unknown;
+    newValue: unknown;
+    /** Entry changes, for sections that are lists of entries with ids */
+    items?: ItemChange[];
+    /** Whether the entries kept in both versions were reordered */
+    reordered?: boolean;
+    /** Field changes, for sections that are a single object (personal info, layout) */
+    fields?: FieldChange[];
+}
+
+export interface ResumeContentDiff {
+    sections: SectionChange[];
+    /** The same changes flattened, one per changed value */
+    differences: VersionDifference[];
+    summary: ComparisonSummary;
+}
+
+export interface WordChange {
+    text: string;
+    type: 'unchanged' | 'added' | 'removed';
+}
+
+export interface LinePair {
+    oldText?: string;
+    newText?: string;
+}
+
+// Above this many token comparisons a text is shown as replaced wholesale
+const MAX_LCS_CELLS = 250000;
+
+const isEmpty = (value: unknown): boolean =>
+    value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const changeType = (oldValue: unknown, newValue: unknown): ChangeType =>
+    isEmpty(oldValue) ? 'added' : isEmpty(newValue) ? 'removed' : 'modified';
+
+/**
+ * Index pairs of a longest common subsequence of two lists
+ */
+const commonSubsequence = <T>(a: T[], b: T[], equal: (x: T, y: T) => boolean): Array<[number, number]> => {
+    if (a.length * b.length > MAX_LCS_CELLS) return [];
+
+    // lengths[i][j] = LCS length of a[i..] and b[j..]
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = equal(a[i], b[j])
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const pairs: Array<[number, number]> = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (equal(a[i], b[j])) {
+            pairs.push([i, j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return pairs;
+};
+
+/**
+ * Word-level changes between two texts. Whitespace is kept, so joining the
+ * unchanged and removed parts gives the old text back, and the unchanged and
+ * added parts the new one.
+ */
+export const diffWords = (oldText: string, newText: string): WordChange[] => {
+    const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+    const oldTokens = tokenize(oldText || '');
+    const newTokens = tokenize(newText || '');
+    const pairs = commonSubsequence(oldTokens, newTokens, (x, y) => x === y);
+
+    const changes: WordChange[] = [];
+    const push = (text: string, type: WordChange['type']) => {
+        const last = changes[changes.length - 1];
+        if (last && last.type === type) last.text += text;
+        else changes.push({ text, type });
+    };
+
+    let i = 0;
+    let j = 0;
+    [...pairs, [oldTokens.length, newTokens.length] as [number, number]].forEach(([oldIndex, newIndex]) => {
+        for (; i < oldIndex; i++) push(oldTokens[i], 'removed');
+        for (; j < newIndex; j++) push(newTokens[j], 'added');
+        if (i < oldTokens.length) push(oldTokens[i], 'unchanged');
+        i++;
+        j++;
+    });
+    return changes;
+};
+
+/**
+ * Line up two lists of lines (bullets, keywords) side by side. Identical
+ * lines are matched; lines removed and added at the same spot are paired up
+ * so they can be compared word by word.
+ */
+export const alignLines = (oldLines: string[], newLines: string[]): LinePair[] => {
+    const pairs = commonSubsequence(oldLines, newLines, (x, y) => x === y);
+    const rows: LinePair[] = [];
+
+    let i = 0;
+    let j = 0;
+    [...pairs, [oldLines.length, newLines.length] as [number, number]].forEach(([oldIndex, newIndex]) => {
+        while (i < oldIndex || j < newIndex) {
+            rows.push({
+                oldText: i < oldIndex ? oldLines[i++] : undefined,
+                newText: j < newIndex ? newLines[j++] : undefined,
+            });
+        }
+        if (i < oldLines.length) rows.push({ oldText: oldLines[i], newText: newLines[j] });
+        i++;
+        j++;
+    });
+    return rows;
+};
+
+const diffFields = (path: string, oldObject: Record<string, unknown>, newObject: Record<string, unknown>): FieldChange[] =>
+    Array.from(new Set([...Object.keys(oldObject), ...Object.keys(newObject)]))
+        .filter((field) => field !== 'id' && !deepEqual(oldObject[field], newObject[field]))
+        .filter((field) => !(isEmpty(oldObject[field]) && isEmpty(newObject[field])))
+        .map((field) => ({
+            path: `${path}.${field}`,
+            field,
+            type: changeType(oldObject[field], newObject[field]),
+            oldValue: oldObject[field],
+            newValue: newObject[field],
+        }));
+
+const diffItems = (key: string, oldList: Identified[], newList: Identified[]): Pick<SectionChange, 'items' | 'reordered'> => {
+    const oldItems = new Map(oldList.map((item) => [item.id, item]));
+    const newItems = new Map(newList.map((item) => [item.id, item]));
+
+    // New order first, with removed entries after the entry they used to follow
+    const ids = newList.map((item) => item.id);
+    oldList.forEach((item, index) => {
+        if (newItems.has(item.id)) return;
+        const previous = index > 0 ? ids.indexOf(oldList[index - 1].id) : -1;
+        ids.splice(previous + 1, 0, item.id);
+    });
+
+    const items = ids
+        .map((id): ItemChange | null => {
+            const oldItem = oldItems.get(id);
+            const newItem = newItems.get(id);
+            if (!oldItem || !newItem) {
+                return { id, label: itemLabel((newItem || oldItem)!), type: oldItem ? 'removed' : 'added', oldItem, newItem, fields: [] };
+            }
+            const fields = diffFields(`${key}[${id}]`, oldItem, newItem);
+            return fields.length > 0
+                ? { id, label: itemLabel(newItem), type: 'modified', oldItem, newItem, fields }
+                : null;
+        })
+        .filter((item): item is ItemChange => item !== null);
+
+    const kept = (list: Identified[], other: Map<string, Identified>) =>
+        list.filter((item) => other.has(item.id)).map((item) => item.id);
+    const reordered = !deepEqual(kept(oldList, newItems), kept(newList, oldItems));
+
+    return { items, reordered };
+};
+
+const describeChange = (section: string, change: { type: ChangeType }, what?: string): string => {
+    const verb = { added: 'Added', removed: 'Removed', modified: 'Changed' }[change.type];
+    return what ? `${verb} ${what} in ${section}` : `${verb} ${section}`;
+};
+
+const flatten = (section: SectionChange): VersionDifference[] => {
+    const difference = (
+        field: string,
+        change: { type: ChangeType; oldValue?: unknown; newValue?: unknown },
+        description: string
+    ): VersionDifference => ({
+        field,
+        section: section.label,
+        type: change.type,
+        oldValue: change.oldValue,
+        newValue: change.newValue,
+        description,
+    });
+
+    if (section.items) {
+        const items = section.items.flatMap((item) =>
+            item.type === 'modified'
+                ? item.fields.map((field) =>
+                    difference(field.path, field, describeChange(section.label, field, `${field.field} of "${item.label}"`))
+                )
+                : [difference(
+                    `${section.key}[${item.id}]`,
+                    { type: item.type, oldValue: item.oldItem, newValue: item.newItem },
+                    describeChange(section.label, item, `"${item.label}"`)
+                )]
+        );
+        return section.reordered
+            ? [...items, difference(section.key, { type: 'modified' }, `Reordered ${section.label}`)]
+            : items;
+    }
+    if (section.fields) {
+        return section.fields.map((field) => difference(field.path, field, describeChange(section.label, field, field.field)));
+    }
+    return [difference(section.key, section, describeChange(section.label, section))];
+};
+
+/**
+ * Compare two versions of resume content, section by section
+ */
+export const diffResumeContent = (oldContent: ResumeContent, newContent: ResumeContent): ResumeContentDiff => {
+    const keys = Array.from(new Set([...Object.keys(oldContent), ...Object.keys(newContent)])) as Array<keyof ResumeContent>;
+
+    const sections = keys
+        .map((key): SectionChange | null => {
+            const oldValue = oldContent[key];
+            const newValue = newContent[key];
+            if (deepEqual(oldValue, newValue) || (isEmpty(oldValue) && isEmpty(newValue))) return null;
+
+            const section: SectionChange = { key, label: SECTION_LABELS[key] || key, type: changeType(oldValue, newValue), oldValue, newValue };
+            const oldList: unknown = oldValue ?? [];
+            const newList: unknown = newValue ?? [];
+            if (isIdentifiedList(oldList) && isIdentifiedList(newList)) {
+                return { ...section, ...diffItems(key, oldList, newList) };
+            }
+            if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+                return { ...section, fields: diffFields(key, oldValue, newValue) };
+            }
+            return section;
+        })
+        .filter((section): section is SectionChange => section !== null);
+
+    const differences = sections.flatMap(flatten);
+    const count = (type: ChangeType) => differences.filter((difference) => difference.type === type).length;
+
+    return {
+        sections,
+        differences,
+        summary: {
+            totalChanges: differences.length,
+            addedFields: count('added'),
+            removedFields: count('removed'),
+            modifiedFields: count('modified'),
+            sectionsChanged: sections.map((section) => section.label),
+        },
+    };
+};
+
+/**
+ * Put a whole section back the way it was in an older version
+ */
+export const restoreSection = (current: ResumeContent, previous: ResumeContent, key: keyof ResumeContent): ResumeContent => {
+    const restored: Record<string, unknown> = { ...current };
+    if (previous[key] === undefined) delete restored[key];
+    else restored[key] = previous[key];
+    return restored as ResumeContent;
+};
+
+/**
+ * Put a single entry back the way it was in an older version. An entry that
+ * didn't exist yet is removed; a deleted one is reinserted after the entry
+ * it used to follow.
+ */
+export const restoreItem = (
+    current: ResumeContent,
+    previous: ResumeContent,
+    key: keyof ResumeContent,
+    itemId: string
+): ResumeContent => {
+    const asList = (value: unknown): Identified[] => (isIdentifiedList(value) ? value : []);
+    const currentList = asList(current[key]);
+    const previousList = asList(previous[key]);
+    const previousIndex = previousList.findIndex((item) => item.id === itemId);
+
+    let list: Identified[];
+    if (previousIndex < 0) {
+        list = currentList.filter((item) => item.id !== itemId);
+    } else if (currentList.some((item) => item.id === itemId)) {
+        list = currentList.map((item) => (item.id === itemId ? previousList[previousIndex] : item));
+    } else {
+        const before = previousList.slice(0, previousIndex).map((item) => item.id);
+        const anchor = currentList.map((item) => item.id).reduce(
+            (found, id, index) => (before.includes(id) ? index : found),
+            -1
+        );
+        list = [...currentList.slice(0, anchor + 1), previousList[previousIndex], ...currentList.slice(anchor + 1)];
+    }
+
+    return { ...current, [key]: list };
+};
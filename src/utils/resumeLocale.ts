@@ -0,0 +1,340 @@
+import type { Resume, ResumeSection } from '../types/resume.types';
+
+/**
+ * Resume Locale
+ *
+ * A resume's text is written in one locale (`resume.locale`) and can hold
+ * translations into others (`resume.translations`), so one resume serves
+ * several markets without copies drifting apart. Translations are stored per
+ * text field under a stable key built from section and item ids; dates,
+ * links and contact details are shared by every language.
+ *
+ * The preview, exporters and share links read a language variant through
+ * `localizeResume`.
+ */
+
+export const DEFAULT_RESUME_LOCALE = 'en-US';
+
+/** Query parameter carrying the language of a shared resume link */
+export const SHARE_LOCALE_PARAM = 'lang';
+
+export interface ResumeLocaleOption {
+  code: string;
+  label: string;
+}
+
+export const RESUME_LOCALES: ResumeLocaleOption[] = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'en-IN', label: 'English (India)' },
+  { code: 'de-DE', label: 'Deutsch' },
+  { code: 'fr-FR', label: 'Français' },
+  { code: 'es-ES', label: 'Español' },
+  { code: 'hi-IN', label: 'हिन्दी' },
+  { code: 'ar', label: 'العربية' },
+  { code: 'he-IL', label: 'עברית' },
+];
+
+export const getLocaleLabel = (locale: string): string =>
+  RESUME_LOCALES.find((option) => option.code === locale)?.label || locale;
+
+/**
+ * Locale of the resume's own text
+ */
+export const getResumeLocale = (resume: Pick<Resume, 'locale'>): string => resume.locale || DEFAULT_RESUME_LOCALE;
+
+/**
+ * Every language the resume is available in, its own locale first
+ */
+export const getResumeLocales = (resume: Pick<Resume, 'locale' | 'translations'>): string[] => {
+  const primary = getResumeLocale(resume);
+  return [primary, ...Object.keys(resume.translations || {}).filter((locale) => locale !== primary)];
+};
+
+export interface TranslatableField {
+  /** Key the translation is stored under */
+  key: string;
+  /** Section title, or "Personal Info" */
+  group: string;
+  /** Entry the field belongs to (job title, degree, ...), if any */
+  item?: string;
+  label: string;
+  /** The field's text in the resume's own locale */
+  source: string;
+  multiline?: boolean;
+}
+
+type FieldVisitor = (field: TranslatableField) => string;
+
+/**
+ * Rebuild a section with each translatable text replaced by the visitor's
+ * result. Empty texts are skipped.
+ */
+const mapSectionFields = (section: ResumeSection, visit: FieldVisitor): ResumeSection => {
+  const base = `sections.${section.id}`;
+  const text = (key: string, label: string, source: string | undefined, item?: string, multiline = false) =>
+    source ? visit({ key: `${base}.${key}`, group: section.title, item, label, source, multiline }) : source || '';
+  const list = (key: string, label: string, values: string[] | undefined, item?: string) =>
+    values?.map((value, index) => text(`${key}.${index}`, `${label} ${index + 1}`, value, item));
+
+  const title = text('title', 'Section title', section.title);
+  const content = section.content as any;
+
+  switch (section.type) {
+    case 'summary':
+      return { ...section, title, content: { summary: text('summary', 'Summary', content.summary, undefined, true) } };
+    case 'experience':
+      return {
+        ...section,
+        title,
+        content: {
+          experiences: (content.experiences || []).map((exp: any) => {
+            const key = `items.${exp.id}`;
+            const item = exp.jobTitle || exp.company;
+            return {
+              ...exp,
+              jobTitle: text(`${key}.jobTitle`, 'Job title', exp.jobTitle, item),
+              location: text(`${key}.location`, 'Location', exp.location, item),
+              description: text(`${key}.description`, 'Description', exp.description, item, true),
+              achievements: list(`${key}.achievements`, 'Achievement', exp.achievements, item),
+            };
+          }),
+        },
+      };
+    case 'projects':
+      return {
+        ...section,
+        title,
+        content: {
+          projects: (content.projects || []).map((project: any) => {
+            const key = `items.${project.id}`;
+            return {
+              ...project,
+              name: text(`${key}.name`, 'Name', project.name, project.name),
+              description: text(`${key}.description`, 'Description', project.description, project.name, true),
+              achievements: list(`${key}.achievements`, 'Achievement', project.achievements, project.name),
+            };
+          }),
+        },
+      };
+    case 'skills':
+      // Categories are shared by several skills, so they are translated once each
+      return {
+        ...section,
+        title,
+        content: {
+          skills: (content.skills || []).map((skill: any) => ({
+            ...skill,
+            category: text(`categories.${skill.category}`, 'Category', skill.category, skill.category),
+          })),
+        },
+      };
+    case 'education':
+      return {
+        ...section,
+        title,
+        content: {
+          education: (content.education || []).map((edu: any) => {
+            const key = `items.${edu.id}`;
+            const item = edu.degree || edu.institution;
+            return {
+              ...edu,
+              degree: text(`${key}.degree`, 'Degree', edu.degree, item),
+              location: text(`${key}.location`, 'Location', edu.location, item),
+              coursework: list(`${key}.coursework`, 'Course', edu.coursework, item),
+            };
+          }),
+        },
+      };
+    case 'certifications':
+      return {
+        ...section,
+        title,
+        content: {
+          certifications: (content.certifications || []).map((cert: any) => ({
+            ...cert,
+            name: text(`items.${cert.id}.name`, 'Name', cert.name, cert.name),
+          })),
+        },
+      };
+    case 'languages':
+      return {
+        ...section,
+        title,
+        content: {
+          ...content,
+          languages: (content.languages || []).map((lang: any) => ({
+            ...lang,
+            name: text(`items.${lang.id}.name`, 'Language', lang.name, lang.name),
+          })),
+        },
+      };
+    case 'publications':
+      // Titles and venues are cited in their original language
+      return { ...section, title };
+    case 'awards':
+      return {
+        ...section,
+        title,
+        content: {
+          awards: (content.awards || []).map((award: any) => {
+            const key = `items.${award.id}`;
+            return {
+              ...award,
+              title: text(`${key}.title`, 'Title', award.title, award.title),
+              description: text(`${key}.description`, 'Description', award.description, award.title, true),
+            };
+          }),
+        },
+      };
+    case 'volunteering':
+      return {
+        ...section,
+        title,
+        content: {
+          volunteering: (content.volunteering || []).map((item: any) => {
+            const key = `items.${item.id}`;
+            const label = item.role || item.organization;
+            return {
+              ...item,
+              role: text(`${key}.role`, 'Role', item.role, label),
+              location: text(`${key}.location`, 'Location', item.location, label),
+              description: text(`${key}.description`, 'Description', item.description, label, true),
+              achievements: list(`${key}.achievements`, 'Achievement', item.achievements, label),
+            };
+          }),
+        },
+      };
+    case 'references':
+      return {
+        ...section,
+        title,
+        content: {
+          ...content,
+          references: (content.references || []).map((reference: any) => {
+            const key = `items.${reference.id}`;
+            return {
+              ...reference,
+              jobTitle: text(`${key}.jobTitle`, 'Job title', reference.jobTitle, reference.name),
+              relationship: text(`${key}.relationship`, 'Relationship', reference.relationship, reference.name),
+            };
+          }),
+        },
+      };
+    case 'additional-info':
+      return {
+        ...section,
+        title,
+        content: {
+          additionalInfo: (content.additionalInfo || []).map((info: any) => {
+            const key = `items.${info.id}`;
+            return {
+              ...info,
+              title: text(`${key}.title`, 'Title', info.title, info.title),
+              content: list(`${key}.content`, 'Line', info.content, info.title),
+            };
+          }),
+        },
+      };
+    case 'custom':
+      return {
+        ...section,
+        title,
+        content: {
+          custom: {
+            ...content.custom,
+            title,
+            content: text('content', 'Content', content.custom?.content, undefined, true),
+          },
+        },
+      };
+    default:
+      return { ...section, title };
+  }
+};
+
+const mapTranslatableFields = (resume: Resume, visit: FieldVisitor): Resume => {
+  const { personalInfo } = resume;
+  const personal = (key: 'title' | 'location', label: string) =>
+    personalInfo[key]
+      ? visit({ key: `personalInfo.${key}`, group: 'Personal Info', label, source: personalInfo[key] })
+      : personalInfo[key];
+
+  return {
+    ...resume,
+    personalInfo: {
+      ...personalInfo,
+      title: personal('title', 'Professional title'),
+      location: personal('location', 'Location'),
+    },
+    sections: resume.sections.map((section) => mapSectionFields(section, visit)),
+  };
+};
+
+/**
+ * Text fields of a resume that can be translated, in resume order
+ */
+export const getTranslatableFields = (resume: Resume): TranslatableField[] => {
+  const fields: TranslatableField[] = [];
+  mapTranslatableFields(
+    { ...resume, sections: [...resume.sections].sort((a, b) => a.order - b.order) },
+    (field) => {
+      fields.push(field);
+      return field.source;
+    }
+  );
+  return fields;
+};
+
+export interface TranslationStatus {
+  total: number;
+  translated: number;
+  /** Keys whose original text changed after they were translated */
+  outdated: string[];
+}
+
+/**
+ * How much of the resume is translated into a locale
+ */
+export const getTranslationStatus = (resume: Resume, locale: string): TranslationStatus => {
+  const translation = resume.translations?.[locale] || {};
+  const fields = getTranslatableFields(resume);
+  const translated = fields.filter((field) => translation[field.key]?.text);
+
+  return {
+    total: fields.length,
+    translated: translated.length,
+    outdated: translated.filter((field) => translation[field.key].source !== field.source).map((field) => field.key),
+  };
+};
+
+/**
+ * The resume in one of its languages. Untranslated fields keep the
+ * resume's own text. The result carries the requested locale and no
+ * translations, ready to render, export or share.
+ */
+export const localizeResume = (resume: Resume, locale?: string | null): Resume => {
+  if (!locale || locale === getResumeLocale(resume) || !resume.translations?.[locale]) {
+    return resume;
+  }
+
+  const translation = resume.translations[locale];
+  const { translations: _translations, ...variant } = resume;
+  return {
+    ...mapTranslatableFields(variant, (field) => translation[field.key]?.text || field.source),
+    locale,
+  };
+};
+
+/**
+ * Public link to a resume in one of its languages
+ */
+export const getLocalizedShareUrl = (publicUrl: string, resume: Pick<Resume, 'locale'>, locale: string): string => {
+  const url = new URL(publicUrl, typeof window !== 'undefined' ? window.location.origin : 'http://localhost');
+  if (locale === getResumeLocale(resume)) {
+    url.searchParams.delete(SHARE_LOCALE_PARAM);
+  } else {
+    url.searchParams.set(SHARE_LOCALE_PARAM, locale);
+  }
+  return url.toString();
+};
@@ -0,0 +1,176 @@
+/**
+ * Resume Merge Utility
+ *
+ * Three-way merge of backend resume content, used when changes queued while
+ * offline are replayed against a resume that was edited elsewhere in the
+ * meantime. Changes made on only one side are taken automatically; fields
+ * changed differently on both sides are reported as conflicts and resolved
+ * with the caller's choices (the local value by default).
+ */
+
+import type { ResumeContent } from '../types/api.types';
+
+export type MergeSide = 'local' | 'remote';
+
+export interface MergeConflict {
+    /** Stable key of the conflicting value, e.g. "experience[exp-1].jobTitle" */
+    path: string;
+    /** Human-readable location, e.g. "Experience › Engineer › jobTitle" */
+    label: string;
+    base: unknown;
+    local: unknown;
+    remote: unknown;
+}
+
+export interface MergeResult {
+    merged: ResumeContent;
+    conflicts: MergeConflict[];
+}
+
+export const SECTION_LABELS: Record<string, string> = {
+    personalInfo: 'Personal Info',
+    summary: 'Summary',
+    experience: 'Experience',
+    education: 'Education',
+    skills: 'Skills',
+    certifications: 'Certifications',
+    projects: 'Projects',
+    languages: 'Languages',
+    publications: 'Publications',
+    citationStyle: 'Citation Style',
+    awards: 'Awards',
+    volunteering: 'Volunteering',
+    references: 'References',
+    referencesOnRequest: 'References on Request',
+    additionalInfo: 'Additional Info',
+    customSections: 'Custom Sections',
+    sectionOrder: 'Section Order',
+    layout: 'Layout',
+};
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const deepEqual = (a: unknown, b: unknown): boolean => {
+    if (a === b) return true;
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+    }
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+        return Array.from(keys).every((key) => deepEqual(a[key], b[key]));
+    }
+    return false;
+};
+
+export type Identified = Record<string, unknown> & { id: string };
+
+export const isIdentifiedList = (value: unknown): value is Identified[] =>
+    Array.isArray(value) && value.every((item) => isPlainObject(item) && typeof item.id === 'string');
+
+export const itemLabel = (item: Identified): string =>
+    String(item.name || item.title || item.jobTitle || item.degree || item.id);
+
+interface MergeContext {
+    conflicts: MergeConflict[];
+    choices: Record<string, MergeSide>;
+}
+
+const mergeValue = (
+    path: string,
+    label: string,
+    base: unknown,
+    local: unknown,
+    remote: unknown,
+    context: MergeContext
+): unknown => {
+    if (deepEqual(local, remote)) return local;
+    if (deepEqual(base, local)) return remote;
+    if (deepEqual(base, remote)) return local;
+
+    // Both sides changed: merge structurally where we can
+    if (isPlainObject(local) && isPlainObject(remote)) {
+        const baseObject = isPlainObject(base) ? base : {};
+        const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+        const merged: Record<string, unknown> = {};
+        keys.forEach((key) => {
+            const value = mergeValue(`${path}.${key}`, `${label} › ${key}`, baseObject[key], local[key], remote[key], context);
+            if (value !== undefined) merged[key] = value;
+        });
+        return merged;
+    }
+
+    if (isIdentifiedList(local) && isIdentifiedList(remote) && (base === undefined || isIdentifiedList(base))) {
+        return mergeList(path, label, base || [], local, remote, context);
+    }
+
+    context.conflicts.push({ path, label, base, local, remote });
+    return context.choices[path] === 'remote' ? remote : local;
+};
+
+/**
+ * Merge lists of entries by id. Local order wins; entries only added remotely
+ * are appended. Deleting an entry that the other side edited is a conflict.
+ */
+const mergeList = (
+    path: string,
+    label: string,
+    base: Identified[],
+    local: Identified[],
+    remote: Identified[],
+    context: MergeContext
+): Identified[] => {
+    const byId = (list: Identified[]) => new Map(list.map((item) => [item.id, item]));
+    const baseItems = byId(base);
+    const localItems = byId(local);
+    const remoteItems = byId(remote);
+
+    const ids = [
+        ...local.map((item) => item.id),
+        ...remote.map((item) => item.id).filter((id) => !localItems.has(id)),
+    ];
+
+    return ids
+        .map((id) => {
+            const item = localItems.get(id) || remoteItems.get(id)!;
+            return mergeValue(
+                `${path}[${id}]`,
+                `${label} › ${itemLabel(item)}`,
+                baseItems.get(id),
+                localItems.get(id),
+                remoteItems.get(id),
+                context
+            ) as Identified | undefined;
+        })
+        .filter((item): item is Identified => item !== undefined);
+};
+
+/**
+ * Merge local and remote edits of the same base content.
+ * Pass `choices` (conflict path → side) to resolve the conflicts reported by a
+ * previous call; unresolved conflicts keep the local value.
+ */
+export const mergeResumeContent = (
+    base: ResumeContent,
+    local: ResumeContent,
+    remote: ResumeContent,
+    choices: Record<string, MergeSide> = {}
+): MergeResult => {
+    const context: MergeContext = { conflicts: [], choices };
+    const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+    const merged: Record<string, unknown> = {};
+
+    keys.forEach((key) => {
+        const value = mergeValue(
+            key,
+            SECTION_LABELS[key] || key,
+            (base as Record<string, unknown>)[key],
+            (local as Record<string, unknown>)[key],
+            (remote as Record<string, unknown>)[key],
+            context
+        );
+        if (value !== undefined) merged[key] = value;
+    });
+
+    return { merged: merged as ResumeContent, conflicts: context.conflicts };
+};
@@ -0,0 +1,683 @@
+/**
+ * Resume Parser
+ * Turns the lines extracted from an uploaded PDF/DOCX into structured resume
+ * data. Lines are split into sections by heading, then each section is mapped
+ * into WorkExperience, Education, Skill or Certification items. Every value
+ * carries a confidence score so the import wizard can flag guesses.
+ */
+
+import type {
+    Resume,
+    ResumeSection,
+    PersonalInfo,
+    WorkExperience,
+    Education,
+    Skill,
+    Certification,
+} from '../types/resume.types';
+import type {
+    ImportSelection,
+    ImportSourceFormat,
+    ParsedItem,
+    ParsedResume,
+    ParsedSection,
+    SourceLine,
+} from '../types/resumeImport.types';
+import { SECTION_HEADERS } from '../constants/atsGuidelines';
+import { BULLET_PREFIX, extractDocxLines, extractPdfLines } from './documentTextExtractor';
+import { generateId } from './skillsValidation';
+import { templateHelpers } from './templateHelpers';
+
+type ParsedSectionType = ParsedSection['type'];
+
+const HEADER_GROUP_TYPES: Record<keyof typeof SECTION_HEADERS, ParsedSectionType> = {
+    SUMMARY: 'summary',
+    EXPERIENCE: 'experience',
+    EDUCATION: 'education',
+    SKILLS: 'skills',
+    PROJECTS: 'custom',
+    CERTIFICATIONS: 'certifications',
+    LANGUAGES: 'custom',
+    PUBLICATIONS: 'custom',
+    AWARDS: 'custom',
+    VOLUNTEERING: 'custom',
+    REFERENCES: 'custom',
+};
+
+const HEADING_KEYWORDS: Array<[RegExp, ParsedSectionType]> = [
+    [/experience|employment|work history|career history/i, 'experience'],
+    [/education|academic|qualifications/i, 'education'],
+    [/skills|competenc|expertise|technologies/i, 'skills'],
+    [/certif|licen[cs]es?|credentials/i, 'certifications'],
+    [/summary|profile|objective|about me/i, 'summary'],
+];
+
+// Common headings we have no dedicated section type for
+const OTHER_HEADINGS = /^(?:(?:key |personal |academic |side )?projects|languages|interests|hobbies|awards|honou?rs(?: (?:&|and) awards)?|achievements|publications|volunteer(?:ing| experience| work)?|activities|leadership|references|courses|training|memberships|affiliations|additional information)$/i;
+
+const MONTH_NAME = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DATE = `(?:${MONTH_NAME}\\s*'?\\d{2,4}|\\d{1,2}/\\d{4}|\\d{4}-\\d{2}|(?:19|20)\\d{2})`;
+const DATE_RANGE = new RegExp(`(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|present|current|now|today)`, 'i');
+const SINGLE_DATE = new RegExp(`(?:${MONTH_NAME}\\s*\\d{4}|\\d{1,2}/\\d{4}|\\d{4}-\\d{2}|\\b(?:19|20)\\d{2}\\b)`, 'i');
+
+const EMAIL = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i;
+const PHONE = /\+?\(?\d[\d\s().-]{6,}\d/;
+const LINKEDIN = /(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/[^\s|,]+/i;
+const GITHUB = /(?:https?:\/\/)?(?:www\.)?github\.com\/[^\s|,]+/i;
+const URL = /(?:https?:\/\/)?(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}(?:\/[^\s|,]*)?/i;
+const LOCATION = /^(?:[A-Z][\p{L}.'-]+(?: [A-Z][\p{L}.'-]+)*, ?[A-Z][\p{L}.'-]*(?: [A-Z][\p{L}.'-]+)*|[Rr]emote)$/u;
+
+const JOB_TITLE = /\b(?:engineer|developer|programmer|manager|analyst|designer|intern|lead|director|consultant|specialist|scientist|architect|officer|associate|assistant|administrator|coordinator|head|vp|president|founder|owner|technician|researcher|teacher|advisor|accountant|representative|executive|editor|writer|strategist|supervisor)\b/i;
+const COMPANY = /\b(?:inc|llc|ltd|gmbh|corp|corporation|company|co|group|technologies|labs|solutions|systems|bank|agency|university|ag|plc|sa)\b\.?/i;
+const DEGREE = /\b(?:bachelor|master|doctor|ph\.?\s?d|mba|b\.?\s?sc?|m\.?\s?sc?|b\.?a|m\.?a|b\.?eng|m\.?eng|b\.?tech|m\.?tech|associate|diploma|degree|certificate|a\.?a\.?s)\b/i;
+const INSTITUTION = /\b(?:university|college|institute|school|academy|polytechnic|universit[äa]t|hochschule)\b/i;
+const GPA = /\b(?:gpa|grade)[:\s]*([\d.,]+(?:\s*\/\s*[\d.]+)?)/i;
+const COURSEWORK = /^(?:relevant\s+)?(?:coursework|courses)\s*:\s*/i;
+const CREDENTIAL_ID = /(?:credential|license|licence|cert(?:ificate)?)\s*(?:id|no\.?|number|#)[\s:#]*([A-Z0-9-]{4,})/i;
+
+// Separators between title, company, location and dates on one line
+const SEGMENT_SEPARATOR = /\s+(?:\||–|—|-|@|at)\s+|\s*[|•·]\s*/;
+
+const round = (value: number): number => Math.round(Math.min(1, Math.max(0, value)) * 100) / 100;
+
+const stripBullet = (text: string): string => text.replace(BULLET_PREFIX, '').trim();
+
+const segments = (text: string): string[] =>
+    text
+        .split(SEGMENT_SEPARATOR)
+        .map((segment) => segment.replace(/^[,;\s]+|[,;\s]+$/g, ''))
+        .filter(Boolean);
+
+/**
+ * Convert a date as written in a resume into our YYYY-MM (or YYYY) storage format
+ */
+export const toStorageDate = (raw: string): string => {
+    const value = raw.trim().toLowerCase();
+    const monthYear = value.match(new RegExp(`^(${MONTH_NAME})\\s*'?(\\d{2,4})$`, 'i'));
+    if (monthYear) {
+        const month = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+            .indexOf(monthYear[1].slice(0, 3)) + 1;
+        const year = monthYear[2].length === 2 ? `20${monthYear[2]}` : monthYear[2];
+        return `${year}-${String(month).padStart(2, '0')}`;
+    }
+    const numeric = value.match(/^(\d{1,2})\/(\d{4})$/);
+    if (numeric) return `${numeric[2]}-${numeric[1].padStart(2, '0')}`;
+    return value;
+};
+
+interface DateRange {
+    startDate: string;
+    endDate: string;
+    current: boolean;
+    matched: string;
+}
+
+export const parseDateRange = (text: string): DateRange | null => {
+    const match = text.match(DATE_RANGE);
+    if (!match) return null;
+    const current = /^(?:present|current|now|today)$/i.test(match[2]);
+    return {
+        startDate: toStorageDate(match[1]),
+        endDate: current ? '' : toStorageDate(match[2]),
+        current,
+        matched: match[0],
+    };
+};
+
+// ---------------------------------------------------------------------------
+// Section headings
+// ---------------------------------------------------------------------------
+
+interface HeadingMatch {
+    type: ParsedSectionType;
+    confidence: number;
+}
+
+/**
+ * Decide whether a line is a section heading and which section it starts
+ */
+export const classifyHeading = (line: SourceLine): HeadingMatch | null => {
+    if (line.isBullet) return null;
+    const text = line.text.replace(/[:\s]+$/, '').trim();
+    const words = text.split(/\s+/).length;
+    if (!text || words > 5 || text.length > 40 || /[@\d]/.test(text)) return null;
+
+    const normalized = text.toLowerCase().replace(/\s+/g, ' ');
+    const isCaps = text === text.toUpperCase() && /\p{Lu}/u.test(text);
+    const looksLikeHeading = line.isHeading || isCaps || line.text.trim().endsWith(':');
+
+    for (const [group, headers] of Object.entries(SECTION_HEADERS) as Array<[keyof typeof SECTION_HEADERS, readonly string[]]>) {
+        if (headers.some((header) => header.toLowerCase() === normalized)) {
+            return { type: HEADER_GROUP_TYPES[group], confidence: looksLikeHeading ? 0.95 : 0.85 };
+        }
+    }
+
+    const keyword = HEADING_KEYWORDS.find(([pattern]) => pattern.test(normalized));
+    if (keyword && (looksLikeHeading || words <= 3)) {
+        return { type: keyword[1], confidence: looksLikeHeading ? 0.85 : 0.6 };
+    }
+
+    if (OTHER_HEADINGS.test(normalized)) {
+        return { type: 'custom', confidence: looksLikeHeading ? 0.8 : 0.55 };
+    }
+
+    // Styled headings we don't recognise still start a (custom) section
+    return line.isHeading ? { type: 'custom', confidence: 0.4 } : null;
+};
+
+// ---------------------------------------------------------------------------
+// Header (personal info)
+// ---------------------------------------------------------------------------
+
+const isContactSegment = (segment: string): boolean =>
+    EMAIL.test(segment) || LINKEDIN.test(segment) || GITHUB.test(segment) ||
+    (PHONE.test(segment) && (segment.match(/\d/g) || []).length >= 7) || URL.test(segment);
+
+const parsePersonalInfo = (lines: SourceLine[], end: number): ParsedItem<PersonalInfo> => {
+    const info: PersonalInfo = { fullName: '', title: '', email: '', phone: '', location: '', linkedin: '', github: '', portfolio: '', website: '' };
+    let lastLine = 0;
+
+    for (let index = 0; index < end; index++) {
+        const text = lines[index].text;
+        const parts = text.split(/\s*[|•·◆]\s*|\s{2,}/).map((part) => part.trim()).filter(Boolean);
+        let usedLine = false;
+
+        parts.forEach((part) => {
+            let rest = part.replace(/^(?:e-?mail|phone|tel|mobile|linkedin|github|website|portfolio)\s*:\s*/i, '');
+            const email = rest.match(EMAIL);
+            if (email && !info.email) {
+                info.email = email[0];
+                rest = rest.replace(email[0], '').trim();
+                usedLine = true;
+            }
+            const linkedin = rest.match(LINKEDIN);
+            if (linkedin && !info.linkedin) {
+                info.linkedin = linkedin[0];
+                usedLine = true;
+                return;
+            }
+            const github = rest.match(GITHUB);
+            if (github && !info.github) {
+                info.github = github[0];
+                usedLine = true;
+                return;
+            }
+            const phone = rest.match(PHONE);
+            if (phone && !info.phone && (phone[0].match(/\d/g) || []).length >= 7) {
+                info.phone = phone[0].trim();
+                usedLine = true;
+                return;
+            }
+            const url = rest.match(URL);
+            if (url && !info.website && rest.length === url[0].length) {
+                info.website = url[0];
+                usedLine = true;
+                return;
+            }
+            if (!info.location && LOCATION.test(rest) && (usedLine || parts.length > 1 || info.fullName)) {
+                info.location = rest;
+                usedLine = true;
+            }
+        });
+
+        if (usedLine) {
+            lastLine = index;
+            continue;
+        }
+
+        const words = text.split(/\s+/);
+        if (!info.fullName && words.length >= 2 && words.length <= 5 && /^[\p{L}][\p{L}\s.'-]+$/u.test(text)) {
+            info.fullName = text === text.toUpperCase() ? templateHelpers.text.titleCase(text) : text;
+            lastLine = index;
+        } else if (info.fullName && !info.title && words.length <= 8 && !isContactSegment(text)) {
+            info.title = text;
+            lastLine = index;
+        }
+    }
+
+    const confidence = 0.3 + (info.fullName ? 0.3 : 0) + (info.email ? 0.25 : 0) + (info.phone ? 0.15 : 0);
+    return { id: generateId(), data: info, confidence: round(confidence), lines: [0, Math.max(0, lastLine)] };
+};
+
+// ---------------------------------------------------------------------------
+// Entries (experience, education)
+// ---------------------------------------------------------------------------
+
+interface EntryBlock {
+    start: number;
+    end: number;
+    /** Non-bullet lines, in order */
+    headers: string[];
+    bullets: string[];
+}
+
+/**
+ * Group the lines of a section into entries. A new entry starts when a
+ * non-bullet line follows bullets, or when a second "anchor" line (one with
+ * dates) appears.
+ */
+const splitEntries = (lines: SourceLine[], start: number, end: number, isAnchor: (text: string) => boolean): EntryBlock[] => {
+    const blocks: EntryBlock[] = [];
+    let current: EntryBlock | null = null;
+
+    for (let index = start; index < end; index++) {
+        const line = lines[index];
+
+        if (line.isBullet) {
+            if (!current) {
+                current = { start: index, end: index, headers: [], bullets: [] };
+                blocks.push(current);
+            }
+            current.bullets.push(stripBullet(line.text));
+            current.end = index;
+            continue;
+        }
+
+        // Wrapped bullet text continues in lower case
+        if (current && current.bullets.length > 0 && /^\p{Ll}/u.test(line.text)) {
+            current.bullets[current.bullets.length - 1] += ` ${line.text}`;
+            current.end = index;
+            continue;
+        }
+
+        if (!current || current.bullets.length > 0 || (isAnchor(line.text) && current.headers.some(isAnchor))) {
+            current = { start: index, end: index, headers: [], bullets: [] };
+            blocks.push(current);
+        }
+        current.headers.push(line.text);
+        current.end = index;
+    }
+
+    return blocks;
+};
+
+/**
+ * Header lines run up to and including the first line with dates (or the
+ * first two lines), plus a short follow-up line when the header so far only
+ * names one of title/company; any later non-bullet lines are descriptive text
+ */
+const splitHeaderLines = (block: EntryBlock, isAnchor: (text: string) => boolean): { header: string[]; description: string[] } => {
+    const anchor = block.headers.findIndex(isAnchor);
+    let headerCount = anchor >= 0 && anchor < 3 ? anchor + 1 : Math.min(2, block.headers.length);
+
+    const namedParts = (lines: string[]) =>
+        lines.flatMap((text) => segments(text.replace(DATE_RANGE, '').replace(SINGLE_DATE, ''))).length;
+    const next = block.headers[headerCount];
+    if (next && headerCount < 3 && next.split(/\s+/).length <= 8 && !/[.!?]$/.test(next) &&
+        namedParts(block.headers.slice(0, headerCount)) < 2) {
+        headerCount++;
+    }
+
+    return { header: block.headers.slice(0, headerCount), description: block.headers.slice(headerCount) };
+};
+
+const parseExperience = (block: EntryBlock): ParsedItem<WorkExperience> => {
+    const hasRange = (text: string) => DATE_RANGE.test(text);
+    const { header, description } = splitHeaderLines(block, hasRange);
+    const range = parseDateRange(header.join(' | '));
+
+    let parts = header.flatMap((text) => segments(range ? text.replace(range.matched, '') : text));
+    const locationIndex = parts.findIndex((part) => LOCATION.test(part) && !JOB_TITLE.test(part) && !COMPANY.test(part));
+    const location = locationIndex >= 0 ? parts[locationIndex] : '';
+    parts = parts.filter((_, index) => index !== locationIndex);
+
+    const titleIndex = parts.findIndex((part) => JOB_TITLE.test(part));
+    const jobTitle = titleIndex >= 0 ? parts[titleIndex] : parts[0] || '';
+    const company = parts.find((part) => part !== jobTitle) || '';
+
+    const confidence = 0.3 +
+        (range ? 0.25 : 0) +
+        (titleIndex >= 0 ? 0.2 : 0) +
+        (company ? 0.15 : 0) +
+        (block.bullets.length > 0 || description.length > 0 ? 0.1 : 0);
+
+    return {
+        id: generateId(),
+        data: {
+            id: generateId(),
+            jobTitle,
+            company,
+            location,
+            startDate: range?.startDate || '',
+            endDate: range?.endDate || '',
+            current: range?.current || false,
+            description: description.join('\n'),
+            achievements: block.bullets,
+        },
+        confidence: round(confidence),
+        lines: [block.start, block.end],
+    };
+};
+
+const parseEducation = (block: EntryBlock): ParsedItem<Education> => {
+    const hasDate = (text: string) => SINGLE_DATE.test(text);
+    const coursework = [...block.headers, ...block.bullets].filter((text) => COURSEWORK.test(text));
+    const { header } = splitHeaderLines(
+        { ...block, headers: block.headers.filter((text) => !COURSEWORK.test(text)) },
+        hasDate
+    );
+    const joined = header.join(' | ');
+
+    const range = parseDateRange(joined);
+    const singleDate = range ? null : joined.match(SINGLE_DATE);
+    const gpa = joined.match(GPA);
+
+    let text = joined;
+    if (range) text = text.replace(range.matched, '');
+    if (singleDate) text = text.replace(singleDate[0], '');
+    if (gpa) text = text.replace(gpa[0], '');
+
+    let parts = text.split(/\s*\|\s*/).flatMap((part) => part.split(/\s+[–—-]\s+|,\s+(?=\p{Lu})/u))
+        .map((part) => part.replace(/^[,;()\s]+|[,;()\s]+$/g, ''))
+        .filter(Boolean);
+    const locationIndex = parts.findIndex((part) => LOCATION.test(part) && !INSTITUTION.test(part));
+    const location = locationIndex >= 0 ? parts[locationIndex] : '';
+    parts = parts.filter((_, index) => index !== locationIndex);
+
+    const degree = parts.find((part) => DEGREE.test(part)) || '';
+    const institution = parts.find((part) => INSTITUTION.test(part) && part !== degree) ||
+        parts.find((part) => part !== degree) || '';
+
+    const confidence = 0.3 +
+        (degree ? 0.25 : 0) +
+        (INSTITUTION.test(institution) ? 0.25 : institution ? 0.1 : 0) +
+        (range || singleDate ? 0.15 : 0);
+
+    return {
+        id: generateId(),
+        data: {
+            id: generateId(),
+            degree: degree || (institution ? '' : parts[0] || ''),
+            institution,
+            location,
+            startDate: range?.startDate || '',
+            endDate: range ? range.endDate : singleDate ? toStorageDate(singleDate[0]) : '',
+            gpa: gpa ? gpa[1] : '',
+            coursework: coursework.flatMap((line) =>
+                stripBullet(line).replace(COURSEWORK, '').split(/\s*[,;]\s*/).filter(Boolean)
+            ),
+        },
+        confidence: round(confidence),
+        lines: [block.start, block.end],
+    };
+};
+
+// ---------------------------------------------------------------------------
+// Line-based sections (skills, certifications)
+// ---------------------------------------------------------------------------
+
+const parseSkills = (lines: SourceLine[], start: number, end: number): ParsedItem<Skill>[] => {
+    const items: ParsedItem<Skill>[] = [];
+
+    for (let index = start; index < end; index++) {
+        const text = stripBullet(lines[index].text);
+        const labelled = text.match(/^([^:]{2,40}):\s*(.+)$/);
+        const category = labelled ? labelled[1].trim() : 'Other';
+        const names = (labelled ? labelled[2] : text).split(/\s*[,;|•·]\s*/);
+
+        names.forEach((raw) => {
+            const name = raw.replace(/\.$/, '').trim();
+            if (!name) return;
+            // Long fragments are most likely sentences rather than skill names
+            const isSentence = name.split(/\s+/).length > 4 || name.length > 30;
+            items.push({
+                id: generateId(),
+                data: { id: generateId(), name, category, level: 'intermediate' },
+                confidence: isSentence ? 0.35 : labelled ? 0.9 : 0.75,
+                lines: [index, index],
+            });
+        });
+    }
+
+    return items;
+};
+
+const parseCertifications = (lines: SourceLine[], start: number, end: number): ParsedItem<Certification>[] => {
+    const items: ParsedItem<Certification>[] = [];
+
+    for (let index = start; index < end; index++) {
+        let text = stripBullet(lines[index].text);
+
+        // Wrapped continuation of the previous certification
+        if (items.length > 0 && !lines[index].isBullet && /^\p{Ll}/u.test(text)) {
+            const previous = items[items.length - 1];
+            previous.data.name = `${previous.data.name} ${text}`;
+            previous.lines[1] = index;
+            continue;
+        }
+
+        const credential = text.match(CREDENTIAL_ID);
+        if (credential) text = text.replace(credential[0], '');
+        const date = text.match(SINGLE_DATE);
+        if (date) text = text.replace(date[0], '');
+
+        const parts = segments(text.replace(/[()]/g, ' '));
+        const issuedBy = parts.findIndex((part) => /^(?:issued by|by)\s+/i.test(part));
+        const issuer = issuedBy >= 0 ? parts[issuedBy].replace(/^(?:issued by|by)\s+/i, '') : parts[1] || '';
+        const name = parts.find((_, partIndex) => partIndex !== issuedBy) || '';
+        if (!name) continue;
+
+        items.push({
+            id: generateId(),
+            data: {
+                id: generateId(),
+                name,
+                issuer,
+                issueDate: date ? toStorageDate(date[0]) : '',
+                credentialId: credential ? credential[1] : '',
+            },
+            confidence: round(0.5 + (issuer ? 0.2 : 0) + (date ? 0.2 : 0)),
+            lines: [index, index],
+        });
+    }
+
+    return items;
+};
+
+const joinLines = (lines: SourceLine[], start: number, end: number): string =>
+    lines
+        .slice(start, end)
+        .map((line) => (line.isBullet ? `• ${stripBullet(line.text)}` : line.text))
+        .join('\n');
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+const buildSection = (
+    type: ParsedSectionType,
+    title: string,
+    confidence: number,
+    lines: SourceLine[],
+    start: number,
+    end: number
+): ParsedSection => {
+    const base = { id: generateId(), title, confidence: round(confidence), lines: [start, Math.max(start, end - 1)] as [number, number] };
+    const textItem = (itemConfidence: number): ParsedItem<string>[] =>
+        end > start
+            ? [{ id: generateId(), data: joinLines(lines, start, end), confidence: itemConfidence, lines: [start, end - 1] }]
+            : [];
+
+    switch (type) {
+        case 'summary':
+            return { ...base, type, items: textItem(0.9) };
+        case 'experience':
+            return { ...base, type, items: splitEntries(lines, start, end, (text) => DATE_RANGE.test(text)).map(parseExperience) };
+        case 'education':
+            return { ...base, type, items: splitEntries(lines, start, end, (text) => SINGLE_DATE.test(text)).map(parseEducation) };
+        case 'skills':
+            return { ...base, type, items: parseSkills(lines, start, end) };
+        case 'certifications':
+            return { ...base, type, items: parseCertifications(lines, start, end) };
+        default:
+            return { ...base, type: 'custom', items: textItem(0.6) };
+    }
+};
+
+/**
+ * Split extracted lines into personal info and sections
+ */
+export const parseResumeLines = (lines: SourceLine[], format: ImportSourceFormat, fileName: string): ParsedResume => {
+    const warnings: string[] = [];
+    const headings = lines
+        .map((line, index) => ({ index, match: index === 0 ? null : classifyHeading(line) }))
+        .filter((entry): entry is { index: number; match: HeadingMatch } => entry.match !== null);
+
+    const headerEnd = headings.length > 0 ? headings[0].index : Math.min(lines.length, 6);
+    const personalInfo = parsePersonalInfo(lines, headerEnd);
+    const sections: ParsedSection[] = [];
+
+    // Long paragraphs below the contact details without a heading are usually a summary
+    const introStart = personalInfo.lines[1] + 1;
+    if (headings.length > 0 && introStart < headerEnd &&
+        lines.slice(introStart, headerEnd).some((line) => line.text.split(/\s+/).length > 12)) {
+        sections.push(buildSection('summary', 'Summary', 0.5, lines, introStart, headerEnd));
+    }
+
+    headings.forEach(({ index, match }, position) => {
+        const end = position + 1 < headings.length ? headings[position + 1].index : lines.length;
+        const title = lines[index].text.replace(/[:\s]+$/, '');
+        sections.push(buildSection(match.type, title, match.confidence, lines, index + 1, end));
+    });
+
+    if (headings.length === 0) {
+        warnings.push('No section headings were recognised, so the content was imported as a single section.');
+        if (headerEnd < lines.length) {
+            sections.push(buildSection('custom', 'Imported Content', 0.2, lines, headerEnd, lines.length));
+        }
+    }
+
+    if (!personalInfo.data.fullName) {
+        warnings.push('Your name could not be found at the top of the document.');
+    }
+
+    return { format, fileName, lines, personalInfo, sections, warnings };
+};
+
+/**
+ * Extract and parse an uploaded .pdf or .docx resume
+ */
+export const parseResumeFile = async (file: File): Promise<ParsedResume> => {
+    const name = file.name.toLowerCase();
+    const format: ImportSourceFormat | null =
+        name.endsWith('.pdf') || file.type === 'application/pdf'
+            ? 'pdf'
+            : name.endsWith('.docx') || file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+                ? 'docx'
+                : null;
+
+    if (!format) {
+        throw new Error('Only .pdf and .docx files can be parsed. Save older .doc files as .docx first.');
+    }
+
+    const data = new Uint8Array(await file.arrayBuffer());
+    const lines = format === 'pdf' ? await extractPdfLines(data) : await extractDocxLines(data);
+    return parseResumeLines(lines, format, file.name);
+};
+
+/**
+ * Items the wizard preselects: everything the parser is reasonably sure about
+ */
+export const getDefaultImportSelection = (parsed: ParsedResume, threshold = 0.5): ImportSelection => ({
+    includePersonalInfo: true,
+    itemIds: new Set(
+        parsed.sections.flatMap((section) =>
+            (section.items as ParsedItem<unknown>[])
+                .filter((item) => item.confidence >= threshold)
+                .map((item) => item.id)
+        )
+    ),
+});
+
+const sectionTitle = (title: string): string =>
+    title === title.toUpperCase() ? templateHelpers.text.titleCase(title) : title;
+
+/**
+ * Build a Resume from the parsed data the user kept. The id, layout and
+ * template of `base` are preserved so the current resume is replaced in place.
+ */
+export const parsedResumeToResume = (parsed: ParsedResume, selection: ImportSelection, base: Resume): Resume => {
+    const sections: ResumeSection[] = [];
+    const byType = new Map<string, ResumeSection>();
+    const kept = <T,>(items: ParsedItem<T>[]): T[] =>
+        items.filter((item) => selection.itemIds.has(item.id)).map((item) => item.data);
+
+    parsed.sections.forEach((parsedSection) => {
+        let content: ResumeSection['content'];
+        switch (parsedSection.type) {
+            case 'summary': {
+                const text = kept(parsedSection.items).join('\n\n');
+                if (!text) return;
+                content = { summary: text };
+                break;
+            }
+            case 'experience': {
+                const experiences = kept(parsedSection.items);
+                if (experiences.length === 0) return;
+                content = { experiences };
+                break;
+            }
+            case 'education': {
+                const education = kept(parsedSection.items);
+                if (education.length === 0) return;
+                content = { education };
+                break;
+            }
+            case 'skills': {
+                const skills = kept(parsedSection.items);
+                if (skills.length === 0) return;
+                content = { skills };
+                break;
+            }
+            case 'certifications': {
+                const certifications = kept(parsedSection.items);
+                if (certifications.length === 0) return;
+                content = { certifications };
+                break;
+            }
+            default: {
+                const text = kept(parsedSection.items).join('\n');
+                if (!text) return;
+                const id = generateId();
+                sections.push({
+                    id,
+                    type: 'custom',
+                    title: sectionTitle(parsedSection.title),
+                    enabled: true,
+                    order: sections.length,
+                    content: { custom: { id, title: sectionTitle(parsedSection.title), content: text } },
+                });
+                return;
+            }
+        }
+
+        // The editor holds one section per built-in type, so repeated headings are merged
+        const existing = byType.get(parsedSection.type);
+        if (existing) {
+            const [key, value] = Object.entries(content)[0] as [string, unknown];
+            const previous = (existing.content as Record<string, unknown>)[key];
+            existing.content = {
+                [key]: typeof value === 'string' ? `${previous}\n\n${value}` : [...(previous as unknown[]), ...(value as unknown[])],
+            } as ResumeSection['content'];
+            return;
+        }
+
+        const section: ResumeSection = {
+            id: generateId(),
+            type: parsedSection.type,
+            title: sectionTitle(parsedSection.title),
+            enabled: true,
+            order: sections.length,
+            content,
+        };
+        byType.set(parsedSection.type, section);
+        sections.push(section);
+    });
+
+    return {
+        ...base,
+        personalInfo: selection.includePersonalInfo ? parsed.personalInfo.data : base.personalInfo,
+        sections,
+        updatedAt: new Date().toISOString(),
+    };
+};
@@ -0,0 +1,157 @@
+/**
+ * Resume Variants
+ *
+ * A variant is a copy of a base resume, tailored for one kind of role, that
+ * keeps inheriting everything it doesn't override. Overrides are whole
+ * content keys ("summary", "personalInfo") or single entries of a list
+ * ("experience[exp-1]"); an overridden entry missing from the variant was
+ * removed there. Reordering a list overrides the whole list. Layout and
+ * template always belong to the variant.
+ *
+ * The variant stores its full content, so it renders, exports and shares
+ * like any other resume; it is refreshed from the base when it is opened
+ * and when the resume list is loaded.
+ */
+
+import type { ResumeContent, ResumeResponse, ResumeVariantLink } from '../types/api.types';
+import { diffResumeContent } from './resumeDiff';
+import { isIdentifiedList, type Identified } from './resumeMerge';
+
+// Content the variant keeps as its own and never inherits
+const OWN_KEYS = new Set(['layout', 'variant']);
+
+export const entryPath = (key: string, id: string): string => `${key}[${id}]`;
+
+/**
+ * Whether a variant overrides a content key, or one entry of it
+ */
+export const isOverridden = (link: ResumeVariantLink | undefined, key: string, id?: string): boolean =>
+    !!link && (link.overrides.includes(key) || (id !== undefined && link.overrides.includes(entryPath(key, id))));
+
+/**
+ * The parts of a variant that differ from its base
+ */
+export const findOverrides = (base: ResumeContent, variant: ResumeContent): string[] =>
+    diffResumeContent(base, variant)
+        .sections.filter((section) => !OWN_KEYS.has(section.key))
+        .flatMap((section) =>
+            section.items && !section.reordered
+                ? section.items.map((item) => entryPath(section.key, item.id))
+                : [section.key]
+        );
+
+/**
+ * Base entries, with the variant's version of the entries it overrides.
+ * Entries only the variant has go after the entry they follow there.
+ */
+const mergeEntries = (key: string, baseList: Identified[], variantList: Identified[], overrides: string[]): Identified[] => {
+    const overridden = (id: string) => overrides.includes(entryPath(key, id));
+    const variantItems = new Map(variantList.map((item) => [item.id, item]));
+
+    const list = baseList.flatMap((item) => {
+        if (!overridden(item.id)) return [item];
+        const own = variantItems.get(item.id);
+        return own ? [own] : [];
+    });
+
+    variantList.forEach((item, index) => {
+        if (!overridden(item.id) || list.some((entry) => entry.id === item.id)) return;
+        const previous = variantList
+            .slice(0, index)
+            .reverse()
+            .find((entry) => list.some((candidate) => candidate.id === entry.id));
+        const at = previous ? list.findIndex((entry) => entry.id === previous.id) + 1 : 0;
+        list.splice(at, 0, item);
+    });
+
+    return list;
+};
+
+/**
+ * Apply a variant's overrides on top of its base's content
+ */
+export const applyBase = (base: ResumeContent, variant: ResumeContent, overrides: string[]): ResumeContent => {
+    const keys = new Set([...Object.keys(base), ...Object.keys(variant)]) as Set<keyof ResumeContent>;
+    const merged: Record<string, unknown> = {};
+
+    keys.forEach((key) => {
+        const baseValue: unknown = base[key];
+        const variantValue: unknown = variant[key];
+        const baseList: unknown = baseValue ?? [];
+        const variantList: unknown = variantValue ?? [];
+
+        let value: unknown;
+        if (OWN_KEYS.has(key) || overrides.includes(key)) {
+            value = variantValue;
+        } else if (isIdentifiedList(baseList) && isIdentifiedList(variantList)) {
+            value = mergeEntries(key, baseList, variantList, overrides);
+        } else {
+            value = baseValue;
+        }
+        if (value !== undefined) merged[key] = value;
+    });
+
+    return merged as ResumeContent;
+};
+
+/**
+ * A variant's content refreshed from its base, or null when it already has
+ * the base's latest changes
+ */
+export const syncVariant = (base: ResumeResponse, variant: ResumeResponse): ResumeContent | null => {
+    const link = variant.content?.variant;
+    if (!link || link.baseId !== base.id || link.syncedAt === base.updatedAt) return null;
+
+    return {
+        ...applyBase(base.content, variant.content, link.overrides),
+        variant: { ...link, syncedAt: base.updatedAt },
+    };
+};
+
+/**
+ * Content for a new variant of a resume, overriding nothing yet
+ */
+export const createVariantContent = (base: ResumeResponse): ResumeContent => ({
+    ...base.content,
+    variant: { baseId: base.id, overrides: [], syncedAt: base.updatedAt },
+});
+
+/**
+ * Record in a variant's content what it now overrides
+ */
+export const withOverrides = (base: ResumeContent, content: ResumeContent): ResumeContent =>
+    content.variant ? { ...content, variant: { ...content.variant, overrides: findOverrides(base, content) } } : content;
+
+export interface ResumeGroup<T> {
+    resume: T;
+    variants: T[];
+}
+
+/**
+ * Group resumes with the variants that inherit from them. Variants of
+ * variants are grouped under the resume at the root of the chain; variants
+ * whose base isn't in the list stand on their own.
+ */
+export const groupVariants = <T extends { id: string; content?: ResumeContent }>(resumes: T[]): ResumeGroup<T>[] => {
+    const byId = new Map(resumes.map((resume) => [resume.id, resume]));
+    const rootOf = (resume: T): T => {
+        const seen = new Set<string>();
+        let root = resume;
+        let base = root.content?.variant && byId.get(root.content.variant.baseId);
+        while (base && !seen.has(base.id)) {
+            seen.add(root.id);
+            root = base;
+            base = root.content?.variant && byId.get(root.content.variant.baseId);
+        }
+        return root;
+    };
+
+    const groups = new Map<string, ResumeGroup<T>>();
+    resumes.forEach((resume) => {
+        const root = rootOf(resume);
+        const group = groups.get(root.id) || { resume: root, variants: [] };
+        if (root.id !== resume.id) group.variants.push(resume);
+        groups.set(root.id, group);
+    });
+    return Array.from(groups.values());
+};
@@ -0,0 +1,396 @@
+import type { Resume, ResumeSection } from '../types/resume.types';
+
+/**
+ * Rich Text
+ *
+ * Descriptions, achievements and custom section content may use a small
+ * subset of Markdown: **bold**, *italic*, [links](https://example.com) and
+ * lines starting with "- " as bullets. The markup is stored in the same
+ * strings as before, so existing resumes, the backend and JSON files carry
+ * it unchanged, and text without markup reads exactly as it always did.
+ * Anything outside the subset stays literal; a backslash escapes a marker.
+ *
+ * Templates render the parsed blocks, exporters degrade them to plain text
+ * or Markdown, and ATS checks run on the stripped text.
+ */
+
+export interface RichTextSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  href?: string;
+}
+
+export type RichTextBlock =
+  | { type: 'paragraph'; lines: RichTextSpan[][] }
+  | { type: 'list'; items: RichTextSpan[][] };
+
+export type RichTextMark = 'bold' | 'italic';
+
+const MARKERS: Record<RichTextMark, string> = { bold: '**', italic: '*' };
+
+const ESCAPABLE = /[\\*[\]()_`]/;
+
+const LIST_ITEM = /^\s*[-*]\s+/;
+
+// Only links a reader can follow from a printed or exported resume
+const SAFE_LINK = /^(https?:\/\/|mailto:|tel:)/i;
+
+type Marks = Omit<RichTextSpan, 'text'>;
+
+const isSpace = (char: string | undefined): boolean => !char || /\s/.test(char);
+
+/**
+ * Index of the marker closing an emphasis opened just before `from`, or -1.
+ * A closing marker must follow a non-space character. In a run of stars
+ * ("***") bold closes with the last two and italics with the last one, so
+ * nested emphasis closes inside out.
+ */
+const findClosingMarker = (text: string, from: number, marker: string): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] !== '*') continue;
+
+    let run = 1;
+    while (text[i + run] === '*') run++;
+    const canClose = i > from && !isSpace(text[i - 1]);
+    if (canClose && marker === '**' && run >= 2) return i + run - 2;
+    if (canClose && marker === '*' && run !== 2) return i + run - 1;
+    i += run - 1;
+  }
+  return -1;
+};
+
+// "[label](url)" starting at `open`: the label's end and the link's end
+const findLink = (text: string, open: number): { labelEnd: number; end: number; href: string } | null => {
+  let depth = 0;
+  for (let i = open + 1; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']') {
+      if (depth > 0) {
+        depth--;
+        continue;
+      }
+      const target = /^\(([^()\s]+)\)/.exec(text.slice(i + 1));
+      if (!target || !SAFE_LINK.test(target[1])) return null;
+      return { labelEnd: i, end: i + 1 + target[0].length, href: target[1] };
+    }
+  }
+  return null;
+};
+
+const parseSpans = (text: string, marks: Marks, spans: RichTextSpan[]): void => {
+  let buffer = '';
+  const flush = () => {
+    if (buffer) spans.push({ text: buffer, ...marks });
+    buffer = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] || '')) {
+      buffer += text[i + 1];
+      i++;
+      continue;
+    }
+
+    if (char === '*') {
+      const mark: RichTextMark = text[i + 1] === '*' && !marks.bold ? 'bold' : 'italic';
+      const marker = MARKERS[mark];
+      const start = i + marker.length;
+      const close = !marks[mark] && !isSpace(text[start]) ? findClosingMarker(text, start, marker) : -1;
+      if (close !== -1) {
+        flush();
+        parseSpans(text.slice(start, close), { ...marks, [mark]: true }, spans);
+        i = close + marker.length - 1;
+        continue;
+      }
+    }
+
+    if (char === '[' && !marks.href) {
+      const link = findLink(text, i);
+      if (link) {
+        flush();
+        parseSpans(text.slice(i + 1, link.labelEnd), { ...marks, href: link.href }, spans);
+        i = link.end - 1;
+        continue;
+      }
+    }
+
+    buffer += char;
+  }
+  flush();
+};
+
+const sameMarks = (a: RichTextSpan, b: RichTextSpan): boolean =>
+  !!a.bold === !!b.bold && !!a.italic === !!b.italic && a.href === b.href;
+
+/**
+ * Inline formatting of a single line
+ */
+export const parseInline = (text: string): RichTextSpan[] => {
+  const spans: RichTextSpan[] = [];
+  parseSpans(text, {}, spans);
+
+  // Merge neighbours with the same formatting
+  return spans.reduce<RichTextSpan[]>((merged, span) => {
+    const previous = merged[merged.length - 1];
+    if (previous && sameMarks(previous, span)) {
+      previous.text += span.text;
+    } else {
+      merged.push({ ...span });
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * Paragraphs and bullet lists of a multi-line text. Blank lines separate
+ * paragraphs; consecutive "- " lines form one list.
+ */
+export const parseRichText = (text: string): RichTextBlock[] => {
+  const blocks: RichTextBlock[] = [];
+  let current: RichTextBlock | null = null;
+
+  (text || '').split(/\r?\n/).forEach((line) => {
+    if (!line.trim()) {
+      current = null;
+      return;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      if (current?.type !== 'list') {
+        current = { type: 'list', items: [] };
+        blocks.push(current);
+      }
+      current.items.push(parseInline(line.replace(LIST_ITEM, '').trim()));
+    } else {
+      if (current?.type !== 'paragraph') {
+        current = { type: 'paragraph', lines: [] };
+        blocks.push(current);
+      }
+      current.lines.push(parseInline(line.trim()));
+    }
+  });
+
+  return blocks;
+};
+
+// "https://example.com/" and "example.com" name the same place
+const bareUrl = (url: string): string =>
+  url.replace(/^(https?:\/\/|mailto:|tel:)/i, '').replace(/^www\./i, '').replace(/\/$/, '').toLowerCase();
+
+export interface PlainTextOptions {
+  /** Prefix for bullet lines (default "- ") */
+  bullet?: string;
+  /** Append link targets in parentheses (default true) */
+  linkUrls?: boolean;
+}
+
+/**
+ * The " (address)" written after the last span of a link, or '' when the
+ * span doesn't end a link or the label already shows the address
+ */
+export const linkSuffix = (spans: RichTextSpan[], index: number): string => {
+  const { href } = spans[index];
+  if (!href || spans[index + 1]?.href === href) return '';
+
+  // Labels can span several differently formatted spans
+  let label = '';
+  for (let i = index; i >= 0 && spans[i].href === href; i--) label = spans[i].text + label;
+  return bareUrl(label.trim()) === bareUrl(href) ? '' : ` (${href.replace(/^(mailto|tel):/i, '')})`;
+};
+
+/**
+ * A line's text without markup. Links keep their label, followed by the
+ * address unless the label already shows it.
+ */
+export const spansToPlainText = (spans: RichTextSpan[], linkUrls = true): string =>
+  spans.map((span, index) => span.text + (linkUrls ? linkSuffix(spans, index) : '')).join('');
+
+const escapeMarkdown = (value: string): string => value.replace(/([\\`*_[\]])/g, '\\$1');
+
+/**
+ * A line as Markdown, with literal text escaped
+ */
+export const spansToMarkdown = (spans: RichTextSpan[]): string => {
+  const emphasis = (span: RichTextSpan): string => {
+    const marker = `${span.bold ? '**' : ''}${span.italic ? '*' : ''}`;
+    const [, before, inner, after] = /^(\s*)([\s\S]*?)(\s*)$/.exec(span.text) || ['', '', span.text, ''];
+    // Markers must hug the text, so edge whitespace moves outside them
+    return marker && inner ? `${before}${marker}${escapeMarkdown(inner)}${marker}${after}` : escapeMarkdown(span.text);
+  };
+
+  let markdown = '';
+  for (let i = 0; i < spans.length; i++) {
+    const { href } = spans[i];
+    if (!href) {
+      markdown += emphasis(spans[i]);
+      continue;
+    }
+    let label = '';
+    while (i < spans.length && spans[i].href === href) label += emphasis(spans[i++]);
+    i--;
+    markdown += `[${label}](${href})`;
+  }
+  return markdown;
+};
+
+/**
+ * Text without markup, one line per paragraph line or bullet
+ */
+export const richTextToPlainText = (text: string, { bullet = '- ', linkUrls = true }: PlainTextOptions = {}): string =>
+  parseRichText(text)
+    .flatMap((block) =>
+      block.type === 'list'
+        ? block.items.map((item) => `${bullet}${spansToPlainText(item, linkUrls)}`)
+        : block.lines.map((line) => spansToPlainText(line, linkUrls))
+    )
+    .join('\n');
+
+/**
+ * Just the words: no markers, bullets or link targets
+ */
+export const stripRichText = (text: string): string =>
+  text ? richTextToPlainText(text, { bullet: '', linkUrls: false }) : text;
+
+const stripItems = <T extends { description?: string; achievements?: string[] }>(items: T[] | undefined): T[] | undefined =>
+  items?.map((item) => ({
+    ...item,
+    description: item.description && stripRichText(item.description),
+    achievements: item.achievements?.map(stripRichText),
+  }));
+
+/**
+ * The resume with every rich text field stripped to its words, for checks
+ * that read text the way an ATS parser does
+ */
+export const stripResumeRichText = (resume: Resume): Resume => ({
+  ...resume,
+  sections: resume.sections.map((section): ResumeSection => {
+    const content = section.content as any;
+    switch (section.type) {
+      case 'experience':
+        return { ...section, content: { ...content, experiences: stripItems(content.experiences) } };
+      case 'projects':
+        return { ...section, content: { ...content, projects: stripItems(content.projects) } };
+      case 'volunteering':
+        return { ...section, content: { ...content, volunteering: stripItems(content.volunteering) } };
+      case 'custom':
+        return content.custom
+          ? { ...section, content: { custom: { ...content.custom, content: stripRichText(content.custom.content) } } }
+          : section;
+      default:
+        return section;
+    }
+  }),
+});
+
+export interface RichTextEdit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+/**
+ * Bold or italicise the selection, or remove the emphasis if the selection
+ * already has it. Without a selection an empty pair is inserted around the
+ * cursor.
+ */
+export const toggleMark = (value: string, start: number, end: number, mark: RichTextMark): RichTextEdit => {
+  const marker = MARKERS[mark];
+  const length = marker.length;
+  const before = value.slice(0, start);
+  const selected = value.slice(start, end);
+  const after = value.slice(end);
+
+  // "*" next to another "*" belongs to bold, unless it's the third of "***"
+  const hasMarkerBefore = (text: string) =>
+    text.endsWith(marker) && (mark === 'bold' || !text.endsWith('**') || text.endsWith('***'));
+  const hasMarkerAfter = (text: string) =>
+    text.startsWith(marker) && (mark === 'bold' || !text.startsWith('**') || text.startsWith('***'));
+
+  if (selected && hasMarkerBefore(before) && hasMarkerAfter(after)) {
+    return {
+      value: before.slice(0, -length) + selected + after.slice(length),
+      selectionStart: start - length,
+      selectionEnd: end - length,
+    };
+  }
+
+  if (selected.length > length * 2 && hasMarkerAfter(selected) && hasMarkerBefore(selected)) {
+    const inner = selected.slice(length, -length);
+    return { value: before + inner + after, selectionStart: start, selectionEnd: start + inner.length };
+  }
+
+  // Whitespace at the selection's edges stays outside the markers
+  const [, leading, inner, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(selected) || ['', '', selected, ''];
+  const wrapped = `${leading}${marker}${inner}${marker}${trailing}`;
+  const innerStart = start + leading.length + length;
+  return {
+    value: before + wrapped + after,
+    selectionStart: innerStart,
+    selectionEnd: innerStart + inner.length,
+  };
+};
+
+/**
+ * Turn the selection into a link. Without a selection the address itself
+ * becomes the label.
+ */
+export const insertLink = (value: string, start: number, end: number, href: string): RichTextEdit => {
+  const label = value.slice(start, end).trim() || href;
+  const link = `[${label}](${href})`;
+  return {
+    value: value.slice(0, start) + link + value.slice(end),
+    selectionStart: start + 1,
+    selectionEnd: start + 1 + label.length,
+  };
+};
+
+/**
+ * Add or remove "- " on every line the selection touches
+ */
+export const toggleBullets = (value: string, start: number, end: number): RichTextEdit => {
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+  // A selection ending just after a line break doesn't include the next line
+  const nextBreak = value.indexOf('\n', end > start && value[end - 1] === '\n' ? end - 1 : end);
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak;
+  const lines = value.slice(lineStart, lineEnd).split('\n');
+  const filled = lines.filter((line) => line.trim());
+  const allBullets = filled.length > 0 && filled.every((line) => LIST_ITEM.test(line));
+
+  const updated = lines
+    .map((line) => {
+      if (!line.trim()) return line;
+      return allBullets ? line.replace(LIST_ITEM, '') : `- ${line.replace(LIST_ITEM, '').trimStart()}`;
+    })
+    .join('\n');
+
+  return {
+    value: value.slice(0, lineStart) + updated + value.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + updated.length,
+  };
+};
+
+/**
+ * Link target for an address typed by the user: e-mail addresses get
+ * "mailto:", bare domains "https://". Returns null for anything that
+ * wouldn't render as a link.
+ */
+export const toLinkTarget = (input: string): string | null => {
+  const address = input.trim();
+  if (!address || /\s/.test(address)) return null;
+  if (SAFE_LINK.test(address)) return address;
+  if (/^[^@/]+@[^@/]+\.[a-z]{2,}$/i.test(address)) return `mailto:${address}`;
+  if (/^[a-z0-9-]+(\.[a-z0-9-]+)+([/?#].*)?$/i.test(address)) return `https://${address}`;
+  return null;
+};
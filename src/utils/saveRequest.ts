@@ -0,0 +1,89 @@
+/**
+ * Save Request Utilities
+ * What the save coordinator sends for a change to the editor state: the
+ * persisted parts of a resume in backend shape, the update request for the
+ * sections that changed, and which contact details aren't fit to send.
+ */
+
+import { PersonalInfo, Resume } from '../types/resume.types';
+import type { ResumeContent, UpdateResumeRequest } from '../types/api.types';
+import { frontendResumeToBackendContent } from './resumeConverter';
+import { deepEqual } from './resumeMerge';
+
+/**
+ * The parts of a resume that are persisted, in backend shape
+ */
+export interface SaveSnapshot {
+    templateId: string;
+    content: ResumeContent;
+}
+
+export const toSaveSnapshot = (resume: Resume): SaveSnapshot => ({
+    templateId: resume.template,
+    content: {
+        ...frontendResumeToBackendContent(resume),
+        layout: resume.layout,
+    },
+});
+
+/**
+ * The top-level content sections that differ between two documents. Sections
+ * that were removed are present with an undefined value, so laying the result
+ * over `previous` gives `next`.
+ */
+export const diffContent = (previous: ResumeContent, next: ResumeContent): ResumeContent => {
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)] as (keyof ResumeContent)[]);
+    const changed: Record<string, unknown> = {};
+    keys.forEach((key) => {
+        if (!deepEqual(previous[key], next[key])) changed[key] = next[key];
+    });
+    return changed as ResumeContent;
+};
+
+/**
+ * Build the update request for the changes between two snapshots, or null
+ * when nothing changed. Content holds only the changed sections; the sync
+ * queue lays them over the server copy they were based on when it sends them.
+ */
+export const getSaveRequest = (previous: SaveSnapshot, next: SaveSnapshot): UpdateResumeRequest | null => {
+    const request: UpdateResumeRequest = {};
+    if (previous.templateId !== next.templateId) {
+        request.templateId = next.templateId;
+    }
+    const content = diffContent(previous.content, next.content);
+    if (Object.keys(content).length > 0) {
+        request.content = content;
+    }
+    return Object.keys(request).length > 0 ? request : null;
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^[\+]?[1-9][\d]{0,15}$/;
+const URL_PATTERN =
+    /^https?:\/\/(www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b([-a-zA-Z0-9()@:%_\+.~#?&//=]*)$/;
+
+const URL_FIELDS: Array<[keyof PersonalInfo, string]> = [
+    ['linkedin', 'LinkedIn URL'],
+    ['github', 'GitHub URL'],
+    ['portfolio', 'portfolio URL'],
+];
+
+/**
+ * Names of the filled-in contact fields that are malformed, which the API
+ * would reject. Empty fields are fine (drafts).
+ */
+export const getInvalidContactFields = (info: PersonalInfo): string[] => {
+    const invalid: string[] = [];
+    if (info.email?.trim() && !EMAIL_PATTERN.test(info.email)) invalid.push('email');
+    if (info.phone?.trim() && !PHONE_PATTERN.test(info.phone.replace(/[\s\-\(\)]/g, ''))) invalid.push('phone');
+    URL_FIELDS.forEach(([field, name]) => {
+        const url = info[field];
+        if (url && !URL_PATTERN.test(url)) invalid.push(name);
+    });
+    return invalid;
+};
+
+/**
+ * Whether the personal info can be sent
+ */
+export const isPersonalInfoSavable = (info: PersonalInfo): boolean => getInvalidContactFields(info).length === 0;
@@ -0,0 +1,135 @@
+/**
+ * State Patches
+ *
+ * Structural patches between two versions of an immutable state, such as the
+ * resumes before and after a batch of reducer actions. The reducer copies
+ * only the objects along the paths it changes, so diffing skips every
+ * subtree the two states still share and the patch holds just the changed
+ * values. Lists that grow, shrink or are reordered are stored as a splice of
+ * the items that changed place, not as whole lists. Applying a patch copies
+ * only the containers along its paths.
+ */
+
+import { deepEqual, isPlainObject } from './resumeMerge';
+
+export type PatchPath = Array<string | number>;
+
+/**
+ * Set the value at a path; undefined removes an object key
+ */
+export interface SetOp {
+    path: PatchPath;
+    value: unknown;
+}
+
+/**
+ * Remove `remove` items of the list at a path, starting at `index`, and
+ * insert `insert` there
+ */
+export interface SpliceOp {
+    path: PatchPath;
+    splice: { index: number; remove: number; insert: unknown[] };
+}
+
+export type PatchOp = SetOp | SpliceOp;
+
+/** Ops are applied in order */
+export type Patch = PatchOp[];
+
+export interface StateDiff {
+    /** Turns the old state into the new one */
+    patch: Patch;
+    /** Turns the new state back into the old one */
+    inverse: Patch;
+}
+
+// List items are matched by id where they have one, so edits to a kept item
+// are diffed inside it wherever the list around it changed
+const isSameItem = (a: unknown, b: unknown): boolean => {
+    if (a === b) return true;
+    if (isPlainObject(a) && isPlainObject(b) && a.id !== undefined) return a.id === b.id;
+    return deepEqual(a, b);
+};
+
+export const diffState = (previous: unknown, next: unknown): StateDiff => {
+    const patch: Patch = [];
+    const inverse: Patch = [];
+
+    const walk = (a: unknown, b: unknown, path: PatchPath) => {
+        if (a === b) return;
+
+        if (isPlainObject(a) && isPlainObject(b)) {
+            new Set([...Object.keys(a), ...Object.keys(b)]).forEach((key) => walk(a[key], b[key], [...path, key]));
+        } else if (Array.isArray(a) && Array.isArray(b)) {
+            walkList(a, b, path);
+        } else {
+            patch.push({ path, value: b });
+            inverse.push({ path, value: a });
+        }
+    };
+
+    // Items kept at the start and end of a list are diffed in place; only the
+    // run of items between them that was inserted, removed or moved is stored
+    const walkList = (a: unknown[], b: unknown[], path: PatchPath) => {
+        const lengthA = a.length;
+        const lengthB = b.length;
+        let start = 0;
+        while (start < lengthA && start < lengthB) {
+            const before = a[start];
+            const after = b[start];
+            if (!isSameItem(before, after)) break;
+            walk(before, after, [...path, start]);
+            start++;
+        }
+
+        let endA = lengthA;
+        let endB = lengthB;
+        while (endA > start && endB > start && isSameItem(a[endA - 1], b[endB - 1])) {
+            endA--;
+            endB--;
+        }
+
+        if (endA > start || endB > start) {
+            patch.push({ path, splice: { index: start, remove: endA - start, insert: b.slice(start, endB) } });
+            inverse.push({ path, splice: { index: start, remove: endB - start, insert: a.slice(start, endA) } });
+        }
+        // After the splice, so paths use the indices of the new list
+        for (let offset = 0; endA + offset < lengthA; offset++) {
+            walk(a[endA + offset], b[endB + offset], [...path, endB + offset]);
+        }
+    };
+
+    walk(previous, next, []);
+    // Undo runs the steps back to front
+    return { patch, inverse: inverse.reverse() };
+};
+
+const updateIn = (target: unknown, path: PatchPath, update: (current: unknown) => unknown): unknown => {
+    if (path.length === 0) return update(target);
+
+    const [key, ...rest] = path;
+    if (Array.isArray(target)) {
+        const copy = target.slice();
+        copy[key as number] = updateIn(target[key as number], rest, update);
+        return copy;
+    }
+
+    const source = isPlainObject(target) ? target : {};
+    const child = updateIn(source[key], rest, update);
+    if (child === undefined) {
+        const { [key]: _removed, ...remaining } = source;
+        return remaining;
+    }
+    return { ...source, [key]: child };
+};
+
+const applyOp = (state: unknown, op: PatchOp): unknown =>
+    'splice' in op
+        ? updateIn(state, op.path, (list) => {
+            const copy = Array.isArray(list) ? list.slice() : [];
+            copy.splice(op.splice.index, op.splice.remove, ...op.splice.insert);
+            return copy;
+        })
+        : updateIn(state, op.path, () => op.value);
+
+export const applyPatch = <T>(state: T, patch: Patch): T => patch.reduce<unknown>(applyOp, state) as T;
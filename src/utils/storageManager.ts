@@ -44,6 +44,8 @@ export const STORAGE_KEYS = {
   USER_PREFERENCES: "userPreferences",
   TEMPLATE_SETTINGS: "templateSettings",
   ATS_SETTINGS: "atsSettings",
+  SNAPSHOT_SETTINGS: "snapshotSettings",
+  TEMPLATE_DEFINITIONS: "templateDefinitions",
 } as const;
 
 /**
@@ -5,6 +5,10 @@
  * for consistent formatting and data processing
  */
 
+import type { SectionType } from '../types/resume.types';
+import { SECTION_HEADERS, SECTION_TYPE_HEADERS } from '../constants/atsGuidelines';
+import { DEFAULT_RESUME_LOCALE } from './resumeLocale';
+
 /**
  * Date formatting utilities
  */
@@ -13,11 +17,13 @@ export const dateHelpers = {
    * Format date for resume display (ATS-compliant)
    * @param date - Date string or Date object
    * @param format - Format type
+   * @param locale - Locale of the resume text
    * @returns Formatted date string
    */
   formatDate: (
     date: string | Date,
-    format: 'month-year' | 'full' | 'year' | 'short' = 'month-year'
+    format: 'month-year' | 'full' | 'year' | 'short' = 'month-year',
+    locale: string = DEFAULT_RESUME_LOCALE
   ): string => {
     if (!date) return '';
 
@@ -53,7 +59,7 @@ export const dateHelpers = {
           return typeof date === 'string' ? date : dateObj.toLocaleDateString();
       }
 
-      return dateObj.toLocaleDateString('en-US', options);
+      return dateObj.toLocaleDateString(locale, options);
     } catch (error) {
       console.warn('Date formatting error:', error);
       return typeof date === 'string' ? date : '';
@@ -66,21 +72,23 @@ export const dateHelpers = {
    * @param endDate - End date
    * @param current - Whether the position is current
    * @param format - Date format to use
+   * @param locale - Locale of the resume text
    * @returns Formatted date range string
    */
   formatDateRange: (
     startDate: string | Date,
     endDate: string | Date,
     current: boolean = false,
-    format: 'month-year' | 'full' | 'year' | 'short' = 'month-year'
+    format: 'month-year' | 'full' | 'year' | 'short' = 'month-year',
+    locale: string = DEFAULT_RESUME_LOCALE
   ): string => {
-    const start = dateHelpers.formatDate(startDate, format);
+    const start = dateHelpers.formatDate(startDate, format, locale);
 
     if (current) {
-      return `${start} - Present`;
+      return `${start} - ${localeHelpers.present(locale)}`;
     }
 
-    const end = dateHelpers.formatDate(endDate, format);
+    const end = dateHelpers.formatDate(endDate, format, locale);
     return `${start} - ${end}`;
   },
 
@@ -121,6 +129,128 @@ export const dateHelpers = {
   },
 };
 
+// Section titles by language, used when a section keeps its standard English title
+const SECTION_TITLES: Record<string, Partial<Record<SectionType, string>>> = {
+  de: {
+    summary: 'Profil',
+    experience: 'Berufserfahrung',
+    projects: 'Projekte',
+    skills: 'Kenntnisse',
+    education: 'Ausbildung',
+    certifications: 'Zertifikate',
+    languages: 'Sprachen',
+    publications: 'Publikationen',
+    awards: 'Auszeichnungen',
+    volunteering: 'Ehrenamt',
+    references: 'Referenzen',
+    'additional-info': 'Weitere Angaben',
+  },
+  fr: {
+    summary: 'Profil',
+    experience: 'Expérience professionnelle',
+    projects: 'Projets',
+    skills: 'Compétences',
+    education: 'Formation',
+    certifications: 'Certifications',
+    languages: 'Langues',
+    publications: 'Publications',
+    awards: 'Distinctions',
+    volunteering: 'Bénévolat',
+    references: 'Références',
+    'additional-info': 'Informations complémentaires',
+  },
+  es: {
+    summary: 'Perfil profesional',
+    experience: 'Experiencia laboral',
+    projects: 'Proyectos',
+    skills: 'Habilidades',
+    education: 'Formación académica',
+    certifications: 'Certificaciones',
+    languages: 'Idiomas',
+    publications: 'Publicaciones',
+    awards: 'Premios',
+    volunteering: 'Voluntariado',
+    references: 'Referencias',
+    'additional-info': 'Información adicional',
+  },
+  hi: {
+    summary: 'सारांश',
+    experience: 'कार्य अनुभव',
+    projects: 'परियोजनाएँ',
+    skills: 'कौशल',
+    education: 'शिक्षा',
+    certifications: 'प्रमाणपत्र',
+    languages: 'भाषाएँ',
+    publications: 'प्रकाशन',
+    awards: 'पुरस्कार',
+    volunteering: 'स्वयंसेवा',
+    references: 'संदर्भ',
+    'additional-info': 'अतिरिक्त जानकारी',
+  },
+};
+
+// Label for an ongoing date range, by language
+const PRESENT_LABELS: Record<string, string> = {
+  en: 'Present',
+  de: 'heute',
+  fr: "aujourd'hui",
+  es: 'actualidad',
+  hi: 'वर्तमान',
+};
+
+// English titles the resume builder and ATS guidelines use by default
+const DEFAULT_ENGLISH_TITLES: Partial<Record<SectionType, readonly string[]>> = {
+  'additional-info': ['Additional Information', 'Additional Info'],
+};
+
+/**
+ * Locale utilities for the text templates write themselves
+ */
+export const localeHelpers = {
+  /**
+   * Language of a locale tag
+   * @param locale - Locale tag (e.g., "de-DE")
+   * @returns Lowercase language code (e.g., "de")
+   */
+  language: (locale: string = DEFAULT_RESUME_LOCALE): string => locale.split(/[-_]/)[0].toLowerCase(),
+
+  /**
+   * Whether a locale is an English one
+   * @param locale - Locale tag
+   */
+  isEnglish: (locale: string = DEFAULT_RESUME_LOCALE): boolean => localeHelpers.language(locale) === 'en',
+
+  /**
+   * Label for an ongoing date range
+   * @param locale - Locale tag
+   * @returns "Present" or its translation
+   */
+  present: (locale: string = DEFAULT_RESUME_LOCALE): string =>
+    PRESENT_LABELS[localeHelpers.language(locale)] || PRESENT_LABELS.en,
+
+  /**
+   * Section title in a locale. Standard English titles are replaced with
+   * the locale's title for the section type; titles the user wrote keep
+   * their text.
+   * @param type - Section type
+   * @param title - The section's title
+   * @param locale - Locale tag
+   * @returns Title to display
+   */
+  sectionTitle: (type: SectionType, title: string, locale: string = DEFAULT_RESUME_LOCALE): string => {
+    const localized = SECTION_TITLES[localeHelpers.language(locale)]?.[type];
+    if (!localized) return title;
+
+    const headerKey = SECTION_TYPE_HEADERS[type];
+    const englishTitles: readonly string[] = [
+      ...(headerKey ? SECTION_HEADERS[headerKey] : []),
+      ...(DEFAULT_ENGLISH_TITLES[type] || []),
+    ];
+    const normalized = title.trim().toLowerCase();
+    return englishTitles.some((english) => english.toLowerCase() === normalized) ? localized : title;
+  },
+};
+
 /**
  * Text formatting utilities
  */
@@ -361,6 +491,16 @@ export const validationHelpers = {
         return !!(section.content.education && section.content.education.length > 0);
       case 'certifications':
         return !!(section.content.certifications && section.content.certifications.length > 0);
+      case 'languages':
+        return !!(section.content.languages && section.content.languages.length > 0);
+      case 'publications':
+        return !!(section.content.publications && section.content.publications.length > 0);
+      case 'awards':
+        return !!(section.content.awards && section.content.awards.length > 0);
+      case 'volunteering':
+        return !!(section.content.volunteering && section.content.volunteering.length > 0);
+      case 'references':
+        return !!(section.content.onRequest || (section.content.references && section.content.references.length > 0));
       case 'custom':
         return !!(section.content.custom && section.content.custom.content && section.content.custom.content.trim());
       default:
@@ -447,6 +587,7 @@ export const styleHelpers = {
  */
 export const templateHelpers = {
   date: dateHelpers,
+  locale: localeHelpers,
   text: textHelpers,
   url: urlHelpers,
   phone: phoneHelpers,
@@ -1,10 +1,16 @@
 import { Resume, LayoutSettings, TemplateType } from '../types/resume.types';
+import type { TemplateDefinition } from '../types/template.types';
+import { getTemplateDefinition, isBuiltInTemplate, isCustomTemplate, validateTemplateDefinition } from './templateRegistry';
 
 /**
  * Template Importer/Exporter
  * 
  * Handles importing and exporting resume templates as JSON.
  * Includes validation and schema checking.
+ *
+ * Since version 1.1.0 exported templates carry the full template definition,
+ * so importing one brings the design along with the style settings. Custom
+ * templates from the template designer can only be imported that way.
  */
 
 export interface ExportedTemplate {
@@ -13,6 +19,8 @@ export interface ExportedTemplate {
   description: string;
   templateType: TemplateType;
   layout: LayoutSettings;
+  /** Full template design; absent in 1.0.0 files */
+  definition?: TemplateDefinition;
   sampleContent?: Partial<Resume>;
   metadata: {
     author?: string;
@@ -28,7 +36,8 @@ export interface ImportValidationResult {
   template?: ExportedTemplate;
 }
 
-const CURRENT_VERSION = '1.0.0';
+const CURRENT_VERSION = '1.1.0';
+const SUPPORTED_VERSIONS = ['1.0.0', CURRENT_VERSION];
 
 /**
  * Export current resume layout as template
@@ -45,6 +54,7 @@ export const exportTemplate = (
     description,
     templateType: resume.template,
     layout: resume.layout,
+    definition: getTemplateDefinition(resume.template),
     metadata: {
       author,
       createdAt: new Date().toISOString(),
@@ -153,10 +163,17 @@ const validateTemplateStructure = (data: any): ImportValidationResult => {
 
   if (!data.templateType) {
     errors.push('Missing templateType field');
-  } else if (!['classic', 'modern', 'minimal', 'professional'].includes(data.templateType)) {
+  } else if (!isBuiltInTemplate(data.templateType) && !(isCustomTemplate(data.templateType) && data.definition)) {
     errors.push(`Invalid templateType: ${data.templateType}`);
   }
 
+  if (data.definition !== undefined) {
+    errors.push(...validateTemplateDefinition(data.definition).map((error) => `Template definition: ${error}`));
+    if (data.definition?.id !== data.templateType) {
+      errors.push('Template definition does not match templateType');
+    }
+  }
+
   if (!data.layout) {
     errors.push('Missing layout configuration');
   } else {
@@ -173,7 +190,7 @@ const validateTemplateStructure = (data: any): ImportValidationResult => {
   }
 
   // Check version compatibility
-  if (data.version !== CURRENT_VERSION) {
+  if (!SUPPORTED_VERSIONS.includes(data.version)) {
     warnings.push(`Template version ${data.version} may not be fully compatible with current version ${CURRENT_VERSION}`);
   }
 
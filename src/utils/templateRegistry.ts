@@ -0,0 +1,260 @@
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import type { BuiltInTemplateType, CustomTemplateType, TemplateType } from '../types/resume.types';
+import type { TemplateDefinition, TemplateDivider, TemplateTextStyle } from '../types/template.types';
+import { BUILT_IN_TEMPLATE_DEFINITIONS } from '../constants/templateDefinitions';
+import { STORAGE_KEYS, loadFromLocalStorage, saveToLocalStorage } from './storageManager';
+
+/**
+ * Template Registry
+ *
+ * Resolves a template id to the definition the generic renderer draws.
+ * Definitions imported from template files are stored under
+ * STORAGE_KEYS.TEMPLATE_DEFINITIONS and take the place of the built-in
+ * definition with the same id until they are removed. Custom templates made
+ * in the template designer are stored the same way under `custom-` ids.
+ */
+
+type ImportedDefinitions = Partial<Record<TemplateType, TemplateDefinition>>;
+
+let imported: ImportedDefinitions = {};
+let hydration: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const isBuiltInTemplate = (id: unknown): id is BuiltInTemplateType =>
+  typeof id === 'string' && Object.prototype.hasOwnProperty.call(BUILT_IN_TEMPLATE_DEFINITIONS, id);
+
+export const isCustomTemplate = (id: unknown): id is CustomTemplateType =>
+  typeof id === 'string' && /^custom-[a-z0-9-]+$/.test(id);
+
+/**
+ * Definition for a template id. Ids without a definition, such as a deleted
+ * custom template, fall back to professional.
+ */
+export const getTemplateDefinition = (id: TemplateType): TemplateDefinition =>
+  imported[id] || (isBuiltInTemplate(id) ? BUILT_IN_TEMPLATE_DEFINITIONS[id] : BUILT_IN_TEMPLATE_DEFINITIONS.professional);
+
+export const isTemplateOverridden = (id: TemplateType): boolean => Boolean(imported[id]);
+
+/**
+ * Load imported definitions from storage once. Invalid entries are dropped.
+ */
+export const loadTemplateDefinitions = (): Promise<void> => {
+  if (!hydration) {
+    hydration = loadFromLocalStorage<ImportedDefinitions>(STORAGE_KEYS.TEMPLATE_DEFINITIONS, {}).then((result) => {
+      const stored = result.data || {};
+      const valid: ImportedDefinitions = {};
+      Object.values(stored).forEach((definition) => {
+        if (validateTemplateDefinition(definition).length === 0) {
+          valid[definition!.id] = definition;
+        }
+      });
+      // Definitions registered before hydration finished win over stored ones
+      imported = { ...valid, ...imported };
+      notify();
+    });
+  }
+  return hydration;
+};
+
+const persist = async (): Promise<boolean> => {
+  const result = await saveToLocalStorage(STORAGE_KEYS.TEMPLATE_DEFINITIONS, imported);
+  return result.success;
+};
+
+export const registerTemplateDefinition = async (definition: TemplateDefinition): Promise<boolean> => {
+  imported = { ...imported, [definition.id]: definition };
+  notify();
+  return persist();
+};
+
+/**
+ * Drop an imported definition so the built-in one is used again, or delete a
+ * custom template
+ */
+export const removeTemplateDefinition = async (id: TemplateType): Promise<boolean> => {
+  if (!imported[id]) return true;
+  const { [id]: _removed, ...rest } = imported;
+  imported = rest;
+  notify();
+  return persist();
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Definition for a template id, re-rendering when imported definitions change
+ */
+export const useTemplateDefinition = (id: TemplateType): TemplateDefinition => {
+  useEffect(() => {
+    loadTemplateDefinitions();
+  }, []);
+  return useSyncExternalStore(subscribe, () => getTemplateDefinition(id));
+};
+
+// ---------------------------------------------------------------------------
+// Custom templates
+// ---------------------------------------------------------------------------
+
+const customTemplatesOf = (definitions: ImportedDefinitions): TemplateDefinition[] =>
+  (Object.values(definitions) as TemplateDefinition[])
+    .filter((definition) => isCustomTemplate(definition.id))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+export const getCustomTemplates = (): TemplateDefinition[] => customTemplatesOf(imported);
+
+/**
+ * Custom templates sorted by name, re-rendering when they change
+ */
+export const useCustomTemplates = (): TemplateDefinition[] => {
+  useEffect(() => {
+    loadTemplateDefinitions();
+  }, []);
+  const current = useSyncExternalStore(subscribe, () => imported);
+  return useMemo(() => customTemplatesOf(current), [current]);
+};
+
+export const createCustomTemplateId = (): CustomTemplateType =>
+  `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Copy of a definition under a new custom id, remembering the built-in
+ * template it descends from
+ */
+export const forkTemplateDefinition = (source: TemplateDefinition, name: string): TemplateDefinition => {
+  const copy: TemplateDefinition = JSON.parse(JSON.stringify(source));
+  return {
+    ...copy,
+    id: createCustomTemplateId(),
+    name,
+    description: `Custom template based on ${source.name}`,
+    basedOn: source.basedOn ?? (isBuiltInTemplate(source.id) ? source.id : undefined),
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const HEX_COLOR = /^#([0-9A-Fa-f]{3}|[0-9A-Fa-f]{6})$/;
+const COLOR_ROLES = ['primary', 'secondary', 'text'];
+const WEIGHTS = ['normal', 'bold', 500, 600];
+const DIVIDER_STYLES = ['solid', 'double', 'dashed', 'dotted'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateTextStyle = (style: TemplateTextStyle | undefined, path: string): string[] => {
+  if (!isObject(style)) return [`${path} must be an object`];
+  const errors: string[] = [];
+  if (style.color !== undefined && !COLOR_ROLES.includes(style.color)) {
+    errors.push(`${path}.color must be one of ${COLOR_ROLES.join(', ')}`);
+  }
+  if (style.weight !== undefined && !WEIGHTS.includes(style.weight)) {
+    errors.push(`${path}.weight is invalid`);
+  }
+  if (style.letterSpacing !== undefined && (typeof style.letterSpacing !== 'number' || Math.abs(style.letterSpacing) > 10)) {
+    errors.push(`${path}.letterSpacing is invalid`);
+  }
+  if (style.sizeOffset !== undefined && (typeof style.sizeOffset !== 'number' || Math.abs(style.sizeOffset) > 10)) {
+    errors.push(`${path}.sizeOffset is invalid`);
+  }
+  return errors;
+};
+
+const validateDivider = (divider: TemplateDivider | undefined, path: string): string[] => {
+  if (!isObject(divider)) return [`${path} must be an object`];
+  const errors: string[] = [];
+  if (!DIVIDER_STYLES.includes(divider.style)) errors.push(`${path}.style is invalid`);
+  if (typeof divider.width !== 'number' || divider.width < 0 || divider.width > 10) errors.push(`${path}.width is invalid`);
+  if (!COLOR_ROLES.includes(divider.color)) errors.push(`${path}.color is invalid`);
+  return errors;
+};
+
+/**
+ * Check that data is a usable TemplateDefinition. Returns the problems
+ * found; an empty list means the definition is valid.
+ */
+export const validateTemplateDefinition = (data: any): string[] => {
+  if (!isObject(data)) return ['Template definition must be an object'];
+
+  const errors: string[] = [];
+  if (data.schemaVersion !== 1) errors.push(`Unsupported template schema version: ${data.schemaVersion}`);
+  if (!isBuiltInTemplate(data.id) && !isCustomTemplate(data.id)) errors.push(`Unknown template id: ${data.id}`);
+  if (data.basedOn !== undefined && !isBuiltInTemplate(data.basedOn)) errors.push(`Unknown basedOn template: ${data.basedOn}`);
+  if (typeof data.name !== 'string' || !data.name.trim()) errors.push('Template name is required');
+  if (typeof data.fontFamily !== 'string' || !data.fontFamily.trim()) errors.push('fontFamily is required');
+
+  const styles = data.styles;
+  if (!isObject(styles) || !isObject(styles.header) || !isObject(styles.sections) || !isObject(styles.layout) || !isObject(styles.colors)) {
+    errors.push('styles must include header, sections, layout and colors');
+  } else {
+    if (!['left', 'center', 'right'].includes(styles.header.alignment)) errors.push('styles.header.alignment is invalid');
+    if (!['uppercase', 'title-case', 'lowercase'].includes(styles.sections.headerStyle)) {
+      errors.push('styles.sections.headerStyle is invalid');
+    }
+    if (!['border-bottom', 'background', 'none'].includes(styles.sections.headerDecoration)) {
+      errors.push('styles.sections.headerDecoration is invalid');
+    }
+    if (styles.layout.columns !== 1 && styles.layout.columns !== 2) errors.push('styles.layout.columns must be 1 or 2');
+    ['primary', 'secondary', 'text'].forEach((role) => {
+      if (!HEX_COLOR.test(styles.colors[role])) errors.push(`styles.colors.${role} must be a hex color`);
+    });
+  }
+
+  if (!isObject(data.header)) {
+    errors.push('header must be an object');
+  } else {
+    errors.push(...validateTextStyle(data.header.name, 'header.name'));
+    errors.push(...validateTextStyle(data.header.title, 'header.title'));
+    errors.push(...validateTextStyle(data.header.contact, 'header.contact'));
+    if (data.header.divider !== undefined) errors.push(...validateDivider(data.header.divider, 'header.divider'));
+  }
+
+  if (!isObject(data.sectionHeader)) {
+    errors.push('sectionHeader must be an object');
+  } else {
+    errors.push(...validateTextStyle(data.sectionHeader.text, 'sectionHeader.text'));
+    errors.push(...validateDivider(data.sectionHeader.divider, 'sectionHeader.divider'));
+  }
+
+  if (!isObject(data.entry)) {
+    errors.push('entry must be an object');
+  } else {
+    errors.push(...validateTextStyle(data.entry.title, 'entry.title'));
+    errors.push(...validateTextStyle(data.entry.subtitle, 'entry.subtitle'));
+    errors.push(...validateTextStyle(data.entry.date, 'entry.date'));
+    if (!['month-year', 'full', 'year', 'short'].includes(data.entry.dateFormat)) errors.push('entry.dateFormat is invalid');
+    if (typeof data.entry.locationSeparator !== 'string') errors.push('entry.locationSeparator must be a string');
+    if (!isObject(data.entry.bullet) || typeof data.entry.bullet.marker !== 'string') errors.push('entry.bullet.marker is required');
+    if (typeof data.entry.spacing !== 'number' || data.entry.spacing < 0 || data.entry.spacing > 50) {
+      errors.push('entry.spacing is invalid');
+    }
+  }
+
+  if (!isObject(data.blocks)) {
+    errors.push('blocks must be an object');
+  } else {
+    if (!['paragraph', 'callout'].includes(data.blocks.summary)) errors.push('blocks.summary is invalid');
+    if (!['categories', 'grid', 'inline'].includes(data.blocks.skills)) errors.push('blocks.skills is invalid');
+  }
+
+  if (data.columns !== undefined) {
+    if (!isObject(data.columns) || !Array.isArray(data.columns.sidebar)) {
+      errors.push('columns.sidebar must be a list of section types');
+    } else {
+      if (typeof data.columns.sidebarWidth !== 'number' || data.columns.sidebarWidth < 15 || data.columns.sidebarWidth > 50) {
+        errors.push('columns.sidebarWidth must be between 15 and 50');
+      }
+      if (!['left', 'right'].includes(data.columns.sidebarPosition)) errors.push('columns.sidebarPosition is invalid');
+    }
+  }
+
+  return errors;
+};
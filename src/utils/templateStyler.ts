@@ -1,5 +1,7 @@
-import { TemplateType, LayoutSettings } from '../types/resume.types';
-import { TEMPLATE_CONFIGS, TemplateConfig } from '../types/template.types';
+import { BuiltInTemplateType, TemplateType, LayoutSettings, PageSize } from '../types/resume.types';
+import { TemplateConfig, TemplateDefinition } from '../types/template.types';
+import { getTemplateDefinition, isBuiltInTemplate } from './templateRegistry';
+import { getPageDimensions } from './pageSize';
 
 /**
  * Template Styler Utility
@@ -50,7 +52,7 @@ export interface ComputedStyles {
  * Get template configuration
  */
 export const getTemplateConfig = (templateType: TemplateType): TemplateConfig => {
-  return TEMPLATE_CONFIGS[templateType];
+  return getTemplateDefinition(templateType);
 };
 
 /**
@@ -121,7 +123,11 @@ export const mergeTemplateStyles = (
  * Get default font family for template
  */
 export const getFontFamilyForTemplate = (templateType: TemplateType): string => {
-  const fontMap: Record<TemplateType, string> = {
+  if (!isBuiltInTemplate(templateType)) {
+    return getTemplateDefinition(templateType).fontFamily;
+  }
+
+  const fontMap: Record<BuiltInTemplateType, string> = {
     classic: 'Times New Roman, serif',
     modern: 'Arial, Helvetica, sans-serif',
     minimal: 'Arial, Helvetica, sans-serif',
@@ -141,7 +147,11 @@ export const applyFontSizeAdjustments = (
   templateType: TemplateType,
   baseFontSize: number
 ): number => {
-  const adjustments: Record<TemplateType, number> = {
+  if (!isBuiltInTemplate(templateType)) {
+    return baseFontSize;
+  }
+
+  const adjustments: Record<BuiltInTemplateType, number> = {
     classic: 1.0,
     modern: 1.0,
     minimal: 0.95, // Slightly smaller for space efficiency
@@ -217,7 +227,11 @@ export const isAccessibleColorCombination = (
  * Get template-specific spacing multiplier
  */
 export const getSpacingMultiplier = (templateType: TemplateType): number => {
-  const multipliers: Record<TemplateType, number> = {
+  if (!isBuiltInTemplate(templateType)) {
+    return 1.0;
+  }
+
+  const multipliers: Record<BuiltInTemplateType, number> = {
     classic: 1.0,
     modern: 1.1, // Slightly more spacious
     minimal: 0.8, // More compact
@@ -241,22 +255,29 @@ export const calculateOptimalLineHeight = (fontSize: number): number => {
 };
 
 /**
- * Get print-safe page margins
+ * Get print-safe page margins for a paper size
  */
-export const getPrintSafeMargins = (margins: {
-  top: number;
-  right: number;
-  bottom: number;
-  left: number;
-}): typeof margins => {
+export const getPrintSafeMargins = (
+  margins: {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+  },
+  pageSize: PageSize = 'letter'
+): typeof margins => {
   const MIN_MARGIN = 0.3; // Minimum 0.3 inches for print safety
-  const MAX_MARGIN = 2.0; // Maximum 2 inches
+  // Maximum 2 inches on US Letter, scaled to the same share of other papers
+  const page = getPageDimensions(pageSize);
+  const letter = getPageDimensions('letter');
+  const maxHorizontal = 2.0 * (page.widthMm / letter.widthMm);
+  const maxVertical = 2.0 * (page.heightMm / letter.heightMm);
 
   return {
-    top: Math.max(MIN_MARGIN, Math.min(MAX_MARGIN, margins.top)),
-    right: Math.max(MIN_MARGIN, Math.min(MAX_MARGIN, margins.right)),
-    bottom: Math.max(MIN_MARGIN, Math.min(MAX_MARGIN, margins.bottom)),
-    left: Math.max(MIN_MARGIN, Math.min(MAX_MARGIN, margins.left)),
+    top: Math.max(MIN_MARGIN, Math.min(maxVertical, margins.top)),
+    right: Math.max(MIN_MARGIN, Math.min(maxHorizontal, margins.right)),
+    bottom: Math.max(MIN_MARGIN, Math.min(maxVertical, margins.bottom)),
+    left: Math.max(MIN_MARGIN, Math.min(maxHorizontal, margins.left)),
   };
 };
 
@@ -270,7 +291,7 @@ export const exportComputedStyles = (styles: ComputedStyles): string => {
 /**
  * Template style presets for quick application
  */
-export const TEMPLATE_PRESETS: Record<TemplateType, Partial<LayoutSettings>> = {
+export const TEMPLATE_PRESETS: Record<BuiltInTemplateType, Partial<LayoutSettings>> = {
   classic: {
     fontFamily: 'Times New Roman, serif',
     fontSize: {
@@ -363,6 +384,34 @@ export const TEMPLATE_PRESETS: Record<TemplateType, Partial<LayoutSettings>> = {
   },
 };
 
+/**
+ * Layout settings that reproduce a template definition's own fonts, sizes,
+ * colours and spacing. Custom templates use this as their preset.
+ */
+export const getDefinitionPreset = (definition: TemplateDefinition): Partial<LayoutSettings> => ({
+  fontFamily: definition.fontFamily,
+  fontSize: {
+    name: definition.styles.header.nameSize,
+    title: definition.styles.header.titleSize,
+    sectionHeader: definition.styles.sections.headerSize,
+    body: 10,
+  },
+  colors: {
+    primary: definition.styles.colors.primary,
+    secondary: definition.styles.colors.secondary,
+    text: definition.styles.colors.text,
+  },
+  sectionSpacing: definition.styles.sections.spacing,
+});
+
+/**
+ * Get the style preset for a template
+ */
+export const getTemplatePreset = (templateType: TemplateType): Partial<LayoutSettings> =>
+  isBuiltInTemplate(templateType)
+    ? TEMPLATE_PRESETS[templateType]
+    : getDefinitionPreset(getTemplateDefinition(templateType));
+
 /**
  * Apply template preset to layout settings
  */
@@ -370,7 +419,7 @@ export const applyTemplatePreset = (
   templateType: TemplateType,
   currentLayout: LayoutSettings
 ): LayoutSettings => {
-  const preset = TEMPLATE_PRESETS[templateType];
+  const preset = getTemplatePreset(templateType);
 
   return {
     ...currentLayout,
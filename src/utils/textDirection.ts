@@ -0,0 +1,84 @@
+import type { LayoutSettings, Resume, TextDirection } from '../types/resume.types';
+import { getResumeLocale, getTranslatableFields } from './resumeLocale';
+
+/**
+ * Text Direction
+ *
+ * Hebrew, Arabic and other right-to-left scripts need the resume laid out
+ * right to left: alignment, indents, accent bars and column order mirrored.
+ * A resume's direction is the user's layout choice, or on "auto" is taken
+ * from its locale and, failing that, from the script most of its text is
+ * written in. Individual fields are still isolated so a Latin company name in
+ * a Hebrew resume (or the reverse) keeps its own punctuation order.
+ */
+
+// Hebrew, Arabic, Syriac, Thaana, NKo, Samaritan and the presentation forms
+const RTL_CHARACTER = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const RTL_CHARACTERS = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/g;
+// Letters of any other script count as left-to-right
+const LETTERS = /\p{L}/gu;
+
+// Languages written right to left
+const RTL_LANGUAGES = ['ar', 'he', 'iw', 'fa', 'ur', 'ps', 'sd', 'yi', 'dv', 'ckb', 'ug'];
+
+export const isRTLLocale = (locale: string): boolean =>
+  RTL_LANGUAGES.includes(locale.split(/[-_]/)[0].toLowerCase());
+
+const countDirections = (text: string): Record<TextDirection, number> => {
+  const rtl = (text.match(RTL_CHARACTERS) || []).length;
+  // RTL letters are matched by both patterns
+  const letters = (text.match(LETTERS) || []).filter((letter) => !RTL_CHARACTER.test(letter)).length;
+  return { rtl, ltr: letters };
+};
+
+/**
+ * Direction of a piece of text from its first strongly directional letter,
+ * as browsers do for `dir="auto"`. Null for text without letters (numbers,
+ * punctuation, empty).
+ */
+export const detectTextDirection = (text: string): TextDirection | null => {
+  const first = text.match(/\p{L}/u)?.[0];
+  if (!first) return null;
+  return RTL_CHARACTER.test(first) ? 'rtl' : 'ltr';
+};
+
+/**
+ * Whether text mixes right-to-left and left-to-right letters
+ */
+export const hasMixedDirection = (text: string): boolean => {
+  const { rtl, ltr } = countDirections(text);
+  return rtl > 0 && ltr > 0;
+};
+
+/**
+ * Direction the resume is laid out in
+ */
+export const getResumeDirection = (resume: Resume, layout: LayoutSettings = resume.layout): TextDirection => {
+  if (layout.direction === 'ltr' || layout.direction === 'rtl') {
+    return layout.direction;
+  }
+  if (isRTLLocale(getResumeLocale(resume))) {
+    return 'rtl';
+  }
+
+  const text = [resume.personalInfo.fullName, ...getTranslatableFields(resume).map((field) => field.source)].join(' ');
+  const { rtl, ltr } = countDirections(text);
+  return rtl > ltr ? 'rtl' : 'ltr';
+};
+
+/**
+ * Physical side for a template's "left"/"right", mirrored in RTL layouts
+ */
+export const mirrorSide = <T extends string>(side: T, direction: TextDirection): T => {
+  if (direction === 'ltr') return side;
+  if (side === 'left') return 'right' as T;
+  if (side === 'right') return 'left' as T;
+  return side;
+};
+
+/**
+ * Print CSS keeping the resume's direction when the exported HTML is
+ * rendered on its own
+ */
+export const getDirectionRule = (direction: TextDirection): string =>
+  `html, body { direction: ${direction}; }`;
@@ -0,0 +1,383 @@
+/**
+ * Plain Text & Markdown Exporters
+ * Turn a Resume into ATS-style plain text (for job portals' paste boxes) or
+ * Markdown. Both follow section order, skip disabled sections, honour
+ * hideTitle and use standard ATS section header names.
+ */
+
+import type {
+    Resume,
+    ResumeSection,
+    WorkExperience,
+    Project,
+    Skill,
+    Education,
+    Certification,
+    Language,
+    Publication,
+    CitationStyle,
+    Award,
+    VolunteerExperience,
+    Reference,
+    AdditionalInfoItem,
+} from '../types/resume.types';
+import { getStandardSectionHeader } from '../constants/atsGuidelines';
+import { templateHelpers } from './templateHelpers';
+import { getResumeLocale } from './resumeLocale';
+import { formatLanguage } from './languageLevels';
+import { citationToText, formatCitation } from './citations';
+import { RichTextSpan, parseInline, parseRichText, spansToMarkdown, spansToPlainText } from './richText';
+
+export type TextExportFormat = 'plain' | 'markdown';
+
+/**
+ * Formatting primitives for one output format
+ */
+interface TextFormatter {
+    name: (name: string) => string;
+    sectionHeader: (title: string) => string;
+    entryTitle: (title: string) => string;
+    detail: (detail: string) => string;
+    label: (label: string, value: string) => string;
+    bullet: (item: string) => string;
+    /** A line of rich text with its formatting kept or dropped */
+    inline: (spans: RichTextSpan[]) => string;
+    /** Separator between lines within a block */
+    lineBreak: string;
+}
+
+const escapeMarkdown = (value: string): string => value.replace(/([\\`*_[\]#])/g, '\\$1');
+
+const FORMATTERS: Record<TextExportFormat, TextFormatter> = {
+    plain: {
+        name: (name) => name.toUpperCase(),
+        sectionHeader: (title) => title.toUpperCase(),
+        entryTitle: (title) => title,
+        detail: (detail) => detail,
+        label: (label, value) => `${label}: ${value}`,
+        bullet: (item) => `- ${item}`,
+        inline: (spans) => spansToPlainText(spans),
+        lineBreak: '\n',
+    },
+    markdown: {
+        name: (name) => `# ${escapeMarkdown(name)}`,
+        sectionHeader: (title) => `## ${escapeMarkdown(title)}`,
+        entryTitle: (title) => `### ${escapeMarkdown(title)}`,
+        detail: (detail) => `*${escapeMarkdown(detail)}*`,
+        label: (label, value) => `**${escapeMarkdown(label)}:** ${escapeMarkdown(value)}`,
+        bullet: (item) => `- ${escapeMarkdown(item)}`,
+        inline: spansToMarkdown,
+        // Trailing double space forces a hard line break inside a paragraph
+        lineBreak: '  \n',
+    },
+};
+
+const BULLET_PREFIX = /^(?:[-*]\s+|[•◦▪▫■□●○◆◇★☆♦]\s*)/;
+
+const joinParts = (parts: Array<string | undefined>, separator = ' | '): string =>
+    parts.filter((part): part is string => !!part && !!part.trim()).join(separator);
+
+const dateRange = (startDate: string, endDate: string | undefined, current: boolean, locale: string): string => {
+    if (!startDate && !endDate && !current) return '';
+    return templateHelpers.date.formatDateRange(startDate || '', endDate || '', current, 'month-year', locale);
+};
+
+/**
+ * Split free text into lines, normalising decorative bullets to "- "
+ */
+const freeText = (value: string, fmt: TextFormatter, format: TextExportFormat): string[] =>
+    value
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((line) =>
+            BULLET_PREFIX.test(line)
+                ? fmt.bullet(line.replace(BULLET_PREFIX, ''))
+                : format === 'markdown'
+                    ? escapeMarkdown(line)
+                    : line
+        );
+
+const bullets = (items: string[] | undefined, fmt: TextFormatter): string[] =>
+    templateHelpers.text
+        .formatBulletPoints(items || [])
+        .map((item) => fmt.bullet(item.replace(BULLET_PREFIX, '')));
+
+/**
+ * Split rich text (descriptions, custom sections) into lines, keeping bold,
+ * italic and links in Markdown and writing link addresses out in plain text
+ */
+const richText = (value: string, fmt: TextFormatter): string[] =>
+    parseRichText(value).flatMap((block) =>
+        block.type === 'list'
+            ? block.items.map((item) => `- ${fmt.inline(item)}`)
+            : block.lines.map((line) =>
+                line.length > 0 && BULLET_PREFIX.test(line[0].text)
+                    ? `- ${fmt.inline([{ ...line[0], text: line[0].text.replace(BULLET_PREFIX, '') }, ...line.slice(1)])}`
+                    : fmt.inline(line)
+            )
+    );
+
+const richBullets = (items: string[] | undefined, fmt: TextFormatter): string[] =>
+    templateHelpers.text
+        .formatBulletPoints(items || [])
+        .map((item) => `- ${fmt.inline(parseInline(item.replace(BULLET_PREFIX, '')))}`);
+
+/**
+ * Render a single entry (job, degree, project) as a block of lines
+ */
+const entry = (title: string, detail: string, body: string[], fmt: TextFormatter): string[] => [
+    fmt.entryTitle(title),
+    ...(detail ? [fmt.detail(detail)] : []),
+    ...body,
+];
+
+const renderExperience = (experiences: WorkExperience[], fmt: TextFormatter, locale: string): string[][] =>
+    experiences.map((exp) =>
+        entry(
+            joinParts([exp.jobTitle, exp.company]),
+            joinParts([exp.location, dateRange(exp.startDate, exp.endDate, exp.current, locale)]),
+            [...(exp.description ? richText(exp.description, fmt) : []), ...richBullets(exp.achievements, fmt)],
+            fmt
+        )
+    );
+
+const renderProjects = (projects: Project[], fmt: TextFormatter, locale: string): string[][] =>
+    projects.map((project) =>
+        entry(
+            project.name,
+            joinParts([
+                project.techStack && project.techStack.length > 0 ? project.techStack.join(', ') : undefined,
+                dateRange(project.startDate, project.endDate, project.current, locale),
+            ]),
+            [
+                ...(project.description ? richText(project.description, fmt) : []),
+                ...richBullets(project.achievements, fmt),
+                ...(project.url || project.githubUrl ? [joinParts([project.url, project.githubUrl])] : []),
+            ],
+            fmt
+        )
+    );
+
+const renderSkills = (skills: Skill[], fmt: TextFormatter): string[][] => {
+    const byCategory = skills.reduce<Record<string, string[]>>((groups, skill) => {
+        const category = skill.category || 'Other';
+        (groups[category] = groups[category] || []).push(skill.name);
+        return groups;
+    }, {});
+
+    return [
+        Object.entries(byCategory).map(([category, names]) =>
+            fmt.label(templateHelpers.text.titleCase(category), names.join(', '))
+        ),
+    ];
+};
+
+const renderEducation = (education: Education[], fmt: TextFormatter, locale: string): string[][] =>
+    education.map((edu) =>
+        entry(
+            joinParts([edu.degree, edu.institution]),
+            joinParts([edu.location, dateRange(edu.startDate, edu.endDate, false, locale), edu.gpa ? `GPA: ${edu.gpa}` : undefined]),
+            edu.coursework && edu.coursework.length > 0
+                ? [fmt.label('Relevant Coursework', edu.coursework.join(', '))]
+                : [],
+            fmt
+        )
+    );
+
+const renderCertifications = (certifications: Certification[], fmt: TextFormatter, locale: string): string[][] => [
+    certifications.map((cert) =>
+        fmt.bullet(
+            joinParts([
+                cert.name,
+                cert.issuer,
+                cert.issueDate ? templateHelpers.date.formatDate(cert.issueDate, 'month-year', locale) : undefined,
+                cert.credentialId ? `Credential ID: ${cert.credentialId}` : undefined,
+            ])
+        )
+    ),
+];
+
+const renderLanguages = (languages: Language[], showCefr: boolean): string[][] => [
+    [languages.map((language) => formatLanguage(language, showCefr)).join(', ')],
+];
+
+const renderPublications = (
+    publications: Publication[],
+    style: CitationStyle,
+    format: TextExportFormat
+): string[][] => [
+    publications.map((publication, index) => {
+        const parts = formatCitation(publication, style, index + 1);
+        return format === 'markdown'
+            ? parts.map((part) => (part.italic ? `*${escapeMarkdown(part.text)}*` : escapeMarkdown(part.text))).join('')
+            : citationToText(parts);
+    }),
+];
+
+const renderAwards = (awards: Award[], fmt: TextFormatter, format: TextExportFormat, locale: string): string[][] =>
+    awards.map((award) =>
+        entry(
+            joinParts([award.title, award.issuer]),
+            joinParts([
+                award.date ? templateHelpers.date.formatDate(award.date, 'month-year', locale) : undefined,
+                award.amount,
+            ]),
+            award.description ? freeText(award.description, fmt, format) : [],
+            fmt
+        )
+    );
+
+const renderVolunteering = (volunteering: VolunteerExperience[], fmt: TextFormatter, locale: string): string[][] =>
+    volunteering.map((item) =>
+        entry(
+            joinParts([item.role, item.organization]),
+            joinParts([item.location, dateRange(item.startDate, item.endDate, item.current, locale)]),
+            [...(item.description ? richText(item.description, fmt) : []), ...richBullets(item.achievements, fmt)],
+            fmt
+        )
+    );
+
+const renderReferences = (references: Reference[], onRequest: boolean, fmt: TextFormatter): string[][] =>
+    onRequest
+        ? [['Available upon request']]
+        : references.map((reference) =>
+            entry(
+                reference.name,
+                joinParts([reference.jobTitle, reference.company]),
+                [reference.relationship, joinParts([reference.email, reference.phone])].filter((line): line is string => !!line),
+                fmt
+            )
+        );
+
+const renderAdditionalInfo = (items: AdditionalInfoItem[], fmt: TextFormatter): string[][] =>
+    items.map((item) => entry(item.title, '', bullets(item.content, fmt), fmt));
+
+/**
+ * Render the body of a section as blocks separated by blank lines
+ */
+const renderSectionBlocks = (
+    section: ResumeSection,
+    fmt: TextFormatter,
+    format: TextExportFormat,
+    locale: string
+): string[][] => {
+    const content = section.content as any;
+
+    switch (section.type) {
+        case 'summary':
+            return content.summary ? [freeText(content.summary, fmt, format)] : [];
+        case 'experience':
+            return renderExperience(content.experiences || [], fmt, locale);
+        case 'projects':
+            return renderProjects(content.projects || [], fmt, locale);
+        case 'skills':
+            return (content.skills || []).length > 0 ? renderSkills(content.skills, fmt) : [];
+        case 'education':
+            return renderEducation(content.education || [], fmt, locale);
+        case 'certifications':
+            return (content.certifications || []).length > 0 ? renderCertifications(content.certifications, fmt, locale) : [];
+        case 'languages':
+            return (content.languages || []).length > 0 ? renderLanguages(content.languages, !!content.showCefr) : [];
+        case 'publications':
+            return (content.publications || []).length > 0
+                ? renderPublications(content.publications, content.citationStyle || 'apa', format)
+                : [];
+        case 'awards':
+            return renderAwards(content.awards || [], fmt, format, locale);
+        case 'volunteering':
+            return renderVolunteering(content.volunteering || [], fmt, locale);
+        case 'references':
+            return renderReferences(content.references || [], !!content.onRequest, fmt);
+        case 'additional-info':
+            return renderAdditionalInfo(content.additionalInfo || [], fmt);
+        case 'custom':
+            return content.custom?.content ? [richText(content.custom.content, fmt)] : [];
+        default:
+            return [];
+    }
+};
+
+const renderHeader = (resume: Resume, fmt: TextFormatter, format: TextExportFormat): string[] => {
+    const { personalInfo } = resume;
+    const contact = joinParts([
+        personalInfo.email,
+        personalInfo.phone,
+        personalInfo.location,
+        personalInfo.linkedin,
+        personalInfo.github,
+        personalInfo.portfolio,
+        personalInfo.website,
+    ]);
+    const escape = format === 'markdown' ? escapeMarkdown : (value: string) => value;
+
+    return [
+        fmt.name(personalInfo.fullName || 'Your Name'),
+        ...(personalInfo.title ? [escape(personalInfo.title)] : []),
+        ...(contact ? [escape(contact)] : []),
+    ];
+};
+
+/**
+ * Render a resume as plain text or Markdown
+ */
+export const exportResumeText = (resume: Resume, format: TextExportFormat = 'plain'): string => {
+    const fmt = FORMATTERS[format];
+    const locale = getResumeLocale(resume);
+    // Standard English headers help ATS parsing; other languages use their own standard titles
+    const sectionHeader = (section: ResumeSection) =>
+        templateHelpers.locale.isEnglish(locale)
+            ? getStandardSectionHeader(section.type, section.title)
+            : templateHelpers.locale.sectionTitle(section.type, section.title, locale);
+
+    const sections = [...resume.sections]
+        .filter((section) => section.enabled)
+        .sort((a, b) => a.order - b.order)
+        .map((section) => {
+            const blocks = renderSectionBlocks(section, fmt, format, locale).filter((block) => block.length > 0);
+            if (blocks.length === 0) return null;
+
+            const header = section.hideTitle
+                ? []
+                : [fmt.sectionHeader(sectionHeader(section))];
+            return [...header, blocks.map((block) => block.join(fmt.lineBreak)).join('\n\n')].join('\n');
+        })
+        .filter((section): section is string => section !== null);
+
+    return [renderHeader(resume, fmt, format).join(fmt.lineBreak), ...sections].join('\n\n') + '\n';
+};
+
+/**
+ * Render a resume as ATS-style plain text
+ */
+export const exportResumePlainText = (resume: Resume): string => exportResumeText(resume, 'plain');
+
+/**
+ * Render a resume as Markdown
+ */
+export const exportResumeMarkdown = (resume: Resume): string => exportResumeText(resume, 'markdown');
+
+/**
+ * Download resume as a .txt or .md file
+ */
+export const downloadResumeText = (resume: Resume, format: TextExportFormat = 'plain', filename?: string): void => {
+    const content = exportResumeText(resume, format);
+    const extension = format === 'markdown' ? 'md' : 'txt';
+    const blob = new Blob([content], { type: format === 'markdown' ? 'text/markdown' : 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+
+    link.href = url;
+    link.download = filename || `resume-${resume.personalInfo.fullName.replace(/\s+/g, '-').toLowerCase()}-${new Date().toISOString().split('T')[0]}.${extension}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Copy the plain text (or Markdown) version of a resume to the clipboard
+ */
+export const copyResumeText = async (resume: Resume, format: TextExportFormat = 'plain'): Promise<void> => {
+    await navigator.clipboard.writeText(exportResumeText(resume, format));
+};
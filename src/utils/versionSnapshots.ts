@@ -0,0 +1,157 @@
+/**
+ * Version Snapshots
+ *
+ * Naming, labelling and retention for the version snapshots saved
+ * automatically before risky changes (imports, template switches, restores,
+ * bulk fixes) and during long editing sessions. Automatic snapshots are
+ * recognised by their name prefix; only they are thinned out by the
+ * retention policy, manual snapshots are kept until deleted.
+ */
+
+import type { ResumeVersion, SnapshotRetention, SnapshotSettings, SnapshotTrigger } from '../types/version.types';
+import { diffResumeContent, type SectionChange } from './resumeDiff';
+import { STORAGE_KEYS, loadFromLocalStorage, saveToLocalStorage } from './storageManager';
+
+export const AUTO_SNAPSHOT_PREFIX = 'Auto: ';
+
+export const SNAPSHOT_TRIGGER_LABELS: Record<SnapshotTrigger, string> = {
+    import: 'Before import',
+    'template-switch': 'Before template switch',
+    restore: 'Before version restore',
+    'bulk-change': 'Before bulk fix',
+    editing: 'Editing session',
+};
+
+export const DEFAULT_SNAPSHOT_SETTINGS: SnapshotSettings = {
+    enabled: true,
+    triggers: {
+        import: true,
+        'template-switch': true,
+        restore: true,
+        'bulk-change': true,
+        editing: true,
+    },
+    editingMinutes: 15,
+    retention: {
+        keepAllHours: 24,
+        dailyDays: 7,
+        weeklyWeeks: 8,
+        maxSnapshots: 30,
+    },
+};
+
+// Bookkeeping that isn't worth mentioning in a summary
+const IGNORED_KEYS = new Set(['variant']);
+const MAX_SUMMARY_SECTIONS = 3;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+/** What a snapshot captures */
+export type SnapshotState = Pick<ResumeVersion, 'templateId' | 'content'>;
+
+export const autoSnapshotName = (trigger: SnapshotTrigger): string =>
+    `${AUTO_SNAPSHOT_PREFIX}${SNAPSHOT_TRIGGER_LABELS[trigger]}`;
+
+export const isAutoSnapshot = (version: Pick<ResumeVersion, 'versionName'>): boolean =>
+    !!version.versionName?.startsWith(AUTO_SNAPSHOT_PREFIX);
+
+/**
+ * The most recently created version, whatever order the list is in
+ */
+export const latestVersion = <T extends Pick<ResumeVersion, 'createdAt'>>(versions: T[]): T | undefined =>
+    versions.reduce<T | undefined>(
+        (latest, version) => (!latest || Date.parse(version.createdAt) > Date.parse(latest.createdAt) ? version : latest),
+        undefined
+    );
+
+const describeSection = (section: SectionChange): string => {
+    if (!section.items) {
+        return `${section.label} ${section.type === 'modified' ? 'edited' : section.type}`;
+    }
+    if (section.items.length === 0) return `${section.label} reordered`;
+
+    const counts = (['added', 'modified', 'removed'] as const)
+        .map((type) => [section.items!.filter((item) => item.type === type).length, type === 'modified' ? 'edited' : type] as const)
+        .filter(([count]) => count > 0)
+        .map(([count, verb]) => `${count} ${verb}`);
+    return `${section.label} (${counts.join(', ')})`;
+};
+
+/**
+ * A one-line description of what changed since the previous version, or an
+ * empty string when nothing did
+ */
+export const summarizeChanges = (previous: SnapshotState | undefined, current: SnapshotState): string => {
+    if (!previous) return 'First version';
+
+    const parts = diffResumeContent(previous.content, current.content)
+        .sections.filter((section) => !IGNORED_KEYS.has(section.key))
+        .map(describeSection);
+    if (previous.templateId !== current.templateId) {
+        parts.unshift(`Template ${previous.templateId} → ${current.templateId}`);
+    }
+
+    if (parts.length <= MAX_SUMMARY_SECTIONS) return parts.join('; ');
+    const more = parts.length - MAX_SUMMARY_SECTIONS;
+    return `${parts.slice(0, MAX_SUMMARY_SECTIONS).join('; ')} and ${more} more ${more === 1 ? 'change' : 'changes'}`;
+};
+
+/**
+ * Ids of the automatic snapshots the retention policy no longer keeps: all
+ * recent ones are kept, then the newest per day, then the newest per week,
+ * and never more than maxSnapshots in total
+ */
+export const selectSnapshotsToPrune = (
+    versions: Array<Pick<ResumeVersion, 'id' | 'versionName' | 'createdAt'>>,
+    retention: SnapshotRetention,
+    now: number = Date.now()
+): string[] => {
+    const snapshots = versions
+        .filter(isAutoSnapshot)
+        .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+
+    const buckets = new Set<string>();
+    const kept = snapshots.filter((snapshot) => {
+        const time = Date.parse(snapshot.createdAt);
+        const age = now - time;
+        let bucket: string;
+        if (age <= retention.keepAllHours * HOUR) {
+            return true;
+        } else if (age <= retention.keepAllHours * HOUR + retention.dailyDays * DAY) {
+            bucket = `day-${Math.floor(time / DAY)}`;
+        } else if (age <= retention.keepAllHours * HOUR + retention.dailyDays * DAY + retention.weeklyWeeks * WEEK) {
+            bucket = `week-${Math.floor(time / WEEK)}`;
+        } else {
+            return false;
+        }
+        // Newest first, so the first snapshot seen in a bucket is the one to keep
+        if (buckets.has(bucket)) return false;
+        buckets.add(bucket);
+        return true;
+    });
+
+    const keep = new Set(kept.slice(0, Math.max(0, retention.maxSnapshots)).map((snapshot) => snapshot.id));
+    return snapshots.filter((snapshot) => !keep.has(snapshot.id)).map((snapshot) => snapshot.id);
+};
+
+export const loadSnapshotSettings = async (): Promise<SnapshotSettings> => {
+    const result = await loadFromLocalStorage<Partial<SnapshotSettings>>(
+        STORAGE_KEYS.SNAPSHOT_SETTINGS,
+        DEFAULT_SNAPSHOT_SETTINGS
+    );
+    const data = result.data || {};
+    // Settings saved by older versions may lack newer fields
+    return {
+        ...DEFAULT_SNAPSHOT_SETTINGS,
+        ...data,
+        triggers: { ...DEFAULT_SNAPSHOT_SETTINGS.triggers, ...data.triggers },
+        retention: { ...DEFAULT_SNAPSHOT_SETTINGS.retention, ...data.retention },
+    };
+};
+
+export const saveSnapshotSettings = async (settings: SnapshotSettings): Promise<boolean> => {
+    const result = await saveToLocalStorage(STORAGE_KEYS.SNAPSHOT_SETTINGS, settings);
+    return result.success;
+};
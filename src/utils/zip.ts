@@ -0,0 +1,187 @@
+/**
+ * Minimal ZIP archive reader and writer
+ * Writes uncompressed (STORE) archives, which is all Office Open XML
+ * packages need for client-side generation without extra dependencies.
+ */
+
+export interface ZipEntry {
+    /** Path inside the archive, using forward slashes */
+    name: string;
+    /** File contents; strings are encoded as UTF-8 */
+    data: string | Uint8Array;
+}
+
+const CRC_TABLE: Uint32Array = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * Compute the CRC-32 checksum used by the ZIP format
+ */
+export const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Convert a Date into MS-DOS time and date fields
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => {
+    const year = Math.max(date.getFullYear(), 1980);
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+};
+
+/**
+ * Build a ZIP archive from a list of entries
+ */
+export const createZip = (entries: ZipEntry[], modified: Date = new Date()): Uint8Array => {
+    const encoder = new TextEncoder();
+    const { time, date } = toDosDateTime(modified);
+
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    entries.forEach((entry) => {
+        const name = encoder.encode(entry.name);
+        const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+        const crc = crc32(data);
+
+        // Local file header (30 bytes + name)
+        const local = new Uint8Array(30 + name.length);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, 0x04034b50, true);
+        lv.setUint16(4, 20, true); // version needed
+        lv.setUint16(6, 0x0800, true); // UTF-8 file names
+        lv.setUint16(8, 0, true); // STORE
+        lv.setUint16(10, time, true);
+        lv.setUint16(12, date, true);
+        lv.setUint32(14, crc, true);
+        lv.setUint32(18, data.length, true);
+        lv.setUint32(22, data.length, true);
+        lv.setUint16(26, name.length, true);
+        lv.setUint16(28, 0, true);
+        local.set(name, 30);
+
+        // Central directory header (46 bytes + name)
+        const central = new Uint8Array(46 + name.length);
+        const cv = new DataView(central.buffer);
+        cv.setUint32(0, 0x02014b50, true);
+        cv.setUint16(4, 20, true); // version made by
+        cv.setUint16(6, 20, true); // version needed
+        cv.setUint16(8, 0x0800, true);
+        cv.setUint16(10, 0, true);
+        cv.setUint16(12, time, true);
+        cv.setUint16(14, date, true);
+        cv.setUint32(16, crc, true);
+        cv.setUint32(20, data.length, true);
+        cv.setUint32(24, data.length, true);
+        cv.setUint16(28, name.length, true);
+        cv.setUint32(42, offset, true);
+        central.set(name, 46);
+
+        localParts.push(local, data);
+        centralParts.push(central);
+        offset += local.length + data.length;
+    });
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+
+    // End of central directory record
+    const end = new Uint8Array(22);
+    const ev = new DataView(end.buffer);
+    ev.setUint32(0, 0x06054b50, true);
+    ev.setUint16(8, entries.length, true);
+    ev.setUint16(10, entries.length, true);
+    ev.setUint32(12, centralSize, true);
+    ev.setUint32(16, offset, true);
+
+    const output = new Uint8Array(offset + centralSize + end.length);
+    let position = 0;
+    [...localParts, ...centralParts, end].forEach((part) => {
+        output.set(part, position);
+        position += part.length;
+    });
+
+    return output;
+};
+
+/**
+ * Decompress zlib ('deflate') or raw DEFLATE ('deflate-raw') data using the
+ * browser's native DecompressionStream
+ */
+export const inflate = async (
+    data: Uint8Array,
+    format: 'deflate' | 'deflate-raw' = 'deflate-raw'
+): Promise<Uint8Array> => {
+    const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream(format));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Read the entries of a ZIP archive (STORE and DEFLATE methods)
+ * Entries are located through the central directory, so data descriptors
+ * written by streaming zippers (Word, Google Docs) are handled.
+ */
+export const readZip = async (archive: Uint8Array): Promise<Map<string, Uint8Array>> => {
+    const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+    const decoder = new TextDecoder();
+    const files = new Map<string, Uint8Array>();
+
+    // The end of central directory record sits in the last 22 + 65535 bytes
+    let endOffset = -1;
+    for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset < 0) {
+        throw new Error('Not a valid ZIP archive');
+    }
+
+    const entryCount = view.getUint16(endOffset + 10, true);
+    let position = view.getUint32(endOffset + 16, true);
+
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(position, true) !== 0x02014b50) {
+            throw new Error('Corrupt ZIP central directory');
+        }
+        const method = view.getUint16(position + 10, true);
+        const compressedSize = view.getUint32(position + 20, true);
+        const nameLength = view.getUint16(position + 28, true);
+        const extraLength = view.getUint16(position + 30, true);
+        const commentLength = view.getUint16(position + 32, true);
+        const localOffset = view.getUint32(position + 42, true);
+        const name = decoder.decode(archive.subarray(position + 46, position + 46 + nameLength));
+
+        const localNameLength = view.getUint16(localOffset + 26, true);
+        const localExtraLength = view.getUint16(localOffset + 28, true);
+        const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+        const compressed = archive.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === 0) {
+            files.set(name, compressed);
+        } else if (method === 8) {
+            files.set(name, await inflate(compressed, 'deflate-raw'));
+        }
+
+        position += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return files;
+};